@@ -18,6 +18,8 @@
 
 import { ILogger } from './utils/ILogger';
 import { TaskOutput } from './types';
+import { IValidatorRepository } from './interfaces/IValidatorRepository';
+import { ValidatorStateStore } from './ValidatorStateStore';
 
 /**
  * Adversarial Test Type
@@ -62,12 +64,20 @@ export class AdversarialTestingService {
   private logger: ILogger;
   private config: AdversarialTestConfig;
   private testHistory: Map<string, AdversarialTestResult[]> = new Map(); // validator -> test results
+  private stateStore?: ValidatorStateStore<AdversarialTestResult[]>;
 
+  /**
+   * Pass validatorRepository to persist test history and share it between processes
+   */
   constructor(
     config?: Partial<AdversarialTestConfig>,
-    logger?: Logger
+    logger?: Logger,
+    validatorRepository?: IValidatorRepository
   ) {
     this.logger = logger || new Logger('AdversarialTestingService');
+    if (validatorRepository) {
+      this.stateStore = new ValidatorStateStore(validatorRepository, 'adversarial-tests', this.logger);
+    }
     this.config = {
       globalRate: 0.075,              // 7.5% baseline
       perActorJitter: 0.05,            // ±5% jitter
@@ -215,6 +225,11 @@ export class AdversarialTestingService {
       this.testHistory.set(validatorAddress, []);
     }
     this.testHistory.get(validatorAddress)!.push(result);
+    this.stateStore?.updateInBackground(
+      validatorAddress,
+      stored => [...(stored || []), result],
+      saved => this.testHistory.set(validatorAddress, saved)
+    );
     
     this.logger.info('Adversarial test evaluated', {
       validatorAddress,
@@ -235,6 +250,34 @@ export class AdversarialTestingService {
     return this.testHistory.get(validatorAddress) || [];
   }
 
+  /**
+   * Load test history from the validator repository (all validators, or only the given ones)
+   */
+  async loadTestHistory(validatorAddresses?: string[]): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    if (!validatorAddresses) {
+      this.testHistory = await this.stateStore.getAll();
+      return;
+    }
+
+    await Promise.all(validatorAddresses.map(async validatorAddress => {
+      const stored = await this.stateStore!.get(validatorAddress);
+      if (stored) {
+        this.testHistory.set(validatorAddress, stored);
+      }
+    }));
+  }
+
+  /**
+   * Wait until test results have been written to the validator repository
+   */
+  async flush(): Promise<void> {
+    await this.stateStore?.flush();
+  }
+
   /**
    * Get test statistics for validator
    */
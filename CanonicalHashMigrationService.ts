@@ -0,0 +1,307 @@
+/**
+ * Canonical Hash Migration Service
+ *
+ * Finds stored hashes that were computed with the serializations used before protocol hashes
+ * moved to RFC 8785 canonical JSON (utils/CanonicalJson), i.e. hashes that change under JCS:
+ * - outputId: JSON.stringify with the output's top-level keys as allowlist (nested keys were dropped)
+ * - replay bundle taskInputHash / executionEnvHash: plain JSON.stringify (insertion key order)
+ * - validator methodId: a dash-joined template of the method configuration
+ * - aggregatedHash: messageHash followed by the sorted "address:r:s:v" signature entries
+ * - task state CIDs: content-addressed uploads of plain JSON.stringify
+ * - replicated content IDs (ReplicatedStorageProvider): SHA-256 of plain JSON.stringify
+ * - manifest hashes (NetworkManifestGenerator.calculateManifestHash): JSON.stringify with the
+ *   manifest's top-level keys as allowlist (nested keys were dropped)
+ *
+ * Every stored hash is classified as unchanged (already canonical), changed (matches the legacy
+ * formula and has to be recomputed or re-anchored) or unrecognized (matches neither, so it was
+ * produced by another implementation or does not belong to the record).
+ */
+
+import { createHash } from 'crypto';
+import { ILogger } from './utils/ILogger';
+import { canonicalize, canonicalHash } from './utils/CanonicalJson';
+import { hashAggregatedSignatures, AggregatedSignature } from './SignatureVerificationService';
+import { NetworkManifestGenerator } from './NetworkManifestGenerator';
+import { ReplicatedStorageProvider } from './adapters/storage/ReplicatedStorageProvider';
+import type { NetworkManifest } from './types';
+import type { TaskState } from './TaskService';
+import type { ExecutionEnvironment } from './EvaluationService';
+import type { DeterministicReplayService } from './DeterministicReplayService';
+import type { StatisticalDistributionService, ValidatorMethodConfig } from './StatisticalDistributionService';
+
+export type CanonicalHashField =
+  | 'outputId'
+  | 'taskInputHash'
+  | 'executionEnvHash'
+  | 'methodId'
+  | 'aggregatedHash'
+  | 'taskStateCid'
+  | 'replicatedContentId'
+  | 'manifestHash';
+
+export interface CanonicalHashFinding {
+  field: CanonicalHashField;
+  recordId: string;       // taskId (optionally followed by /outputId or /validatorAddress), content ID or networkId
+  storedHash: string;
+  canonicalHash: string;
+}
+
+export interface CanonicalHashMigrationReport {
+  checked: number;
+  unchanged: number;
+  changed: CanonicalHashFinding[];
+  unrecognized: CanonicalHashFinding[];
+}
+
+export interface CanonicalHashMigrationDependencies {
+  replayService: Pick<DeterministicReplayService, 'hashExecutionEnvironment'>;
+  distributionService: Pick<StatisticalDistributionService, 'generateMethodId'>;
+}
+
+export class CanonicalHashMigrationService {
+  private logger: ILogger;
+  private replayService: Pick<DeterministicReplayService, 'hashExecutionEnvironment'>;
+  private distributionService: Pick<StatisticalDistributionService, 'generateMethodId'>;
+
+  constructor(logger: ILogger, dependencies: CanonicalHashMigrationDependencies) {
+    this.logger = logger;
+    this.replayService = dependencies.replayService;
+    this.distributionService = dependencies.distributionService;
+  }
+
+  /**
+   * Check the hashes stored in task states
+   *
+   * @param stateCids Optional taskId -> CID of the uploaded task state
+   */
+  checkTaskStates(states: TaskState[], stateCids: Record<string, string> = {}): CanonicalHashMigrationReport {
+    const report = mergeReports(states.map(state => this.checkTaskState(state, stateCids[state.taskId])));
+
+    this.logger.info('Canonical hash migration check completed', {
+      tasks: states.length,
+      checked: report.checked,
+      changed: report.changed.length,
+      unrecognized: report.unrecognized.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * Check outputs, replay bundles, validator method IDs and (optionally) the state CID of one task
+   */
+  checkTaskState(state: TaskState, stateCid?: string): CanonicalHashMigrationReport {
+    const report = emptyReport();
+
+    for (const output of state.outputs || []) {
+      const recordId = `${state.taskId}/${output.outputId}`;
+      this.classify(report, 'outputId', recordId, output.outputId, canonicalHash(output.output), legacyOutputId(output.output));
+
+      const bundle = output.metadata?.replayBundle;
+      if (!bundle) {
+        continue;
+      }
+      if (bundle.taskInputHash && state.submission?.input !== undefined) {
+        const input = state.submission.input;
+        this.classify(report, 'taskInputHash', recordId, bundle.taskInputHash, canonicalHash(input), legacyJsonHash(input));
+      }
+      const env = output.metadata?.executionEnv;
+      if (bundle.executionEnvHash && env) {
+        this.classify(
+          report,
+          'executionEnvHash',
+          recordId,
+          bundle.executionEnvHash,
+          this.replayService.hashExecutionEnvironment(env),
+          legacyExecutionEnvHash(env)
+        );
+      }
+    }
+
+    for (const evaluation of state.evaluations || []) {
+      const config = evaluation.methodConfig;
+      if (!config?.methodId || !config.contributionWeights) {
+        continue;
+      }
+      this.classify(
+        report,
+        'methodId',
+        `${state.taskId}/${evaluation.validatorAddress}`,
+        config.methodId,
+        this.distributionService.generateMethodId(config),
+        legacyMethodId(config)
+      );
+    }
+
+    if (stateCid) {
+      this.checkTaskStateCid(report, state, stateCid);
+    }
+
+    return report;
+  }
+
+  /**
+   * Check the aggregatedHash of a stored signature aggregate
+   */
+  checkAggregatedSignature(recordId: string, aggregated: AggregatedSignature): CanonicalHashMigrationReport {
+    const report = emptyReport();
+    this.classify(
+      report,
+      'aggregatedHash',
+      recordId,
+      aggregated.aggregatedHash,
+      hashAggregatedSignatures(aggregated.messageHash, aggregated.signatures),
+      legacyAggregatedHash(aggregated)
+    );
+    return report;
+  }
+
+  /**
+   * Check ReplicatedStorageProvider content IDs against the content they were issued for
+   * Content under a legacy ID stays readable, but re-uploading it yields the canonical ID
+   */
+  checkReplicatedContent(entries: Array<{ cid: string; data: any }>): CanonicalHashMigrationReport {
+    const report = emptyReport();
+    for (const { cid, data } of entries) {
+      this.classify(
+        report,
+        'replicatedContentId',
+        cid,
+        cid,
+        ReplicatedStorageProvider.contentHash(data),
+        ReplicatedStorageProvider.legacyContentHash(data)
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Check stored manifest hashes (NetworkManifestGenerator.calculateManifestHash)
+   */
+  checkManifestHashes(
+    entries: Array<{ networkId: string; storedHash: string; manifest: NetworkManifest }>
+  ): CanonicalHashMigrationReport {
+    const report = emptyReport();
+    for (const { networkId, storedHash, manifest } of entries) {
+      this.classify(
+        report,
+        'manifestHash',
+        networkId,
+        storedHash,
+        NetworkManifestGenerator.calculateManifestHash(manifest),
+        legacyManifestHash(manifest)
+      );
+    }
+    return report;
+  }
+
+  /**
+   * S3-style content addresses (hex SHA-256 of the stored bytes) are recomputed exactly;
+   * other CIDs cannot be recomputed here, so they are reported as changed whenever the
+   * canonical bytes differ from the legacy serialization (a re-upload yields a new CID)
+   */
+  private checkTaskStateCid(report: CanonicalHashMigrationReport, state: TaskState, stateCid: string): void {
+    const canonical = canonicalize(state);
+    const canonicalDigest = sha256(canonical);
+
+    if (/^[0-9a-f]{64}$/i.test(stateCid)) {
+      this.classify(report, 'taskStateCid', state.taskId, stateCid.toLowerCase(), canonicalDigest, sha256(JSON.stringify(state)));
+      return;
+    }
+
+    report.checked++;
+    if (canonical === JSON.stringify(state)) {
+      report.unchanged++;
+    } else {
+      report.changed.push({ field: 'taskStateCid', recordId: state.taskId, storedHash: stateCid, canonicalHash: canonicalDigest });
+    }
+  }
+
+  private classify(
+    report: CanonicalHashMigrationReport,
+    field: CanonicalHashField,
+    recordId: string,
+    storedHash: string,
+    canonical: string,
+    legacy: string | null
+  ): void {
+    report.checked++;
+    if (storedHash === canonical) {
+      report.unchanged++;
+      return;
+    }
+
+    const finding: CanonicalHashFinding = { field, recordId, storedHash, canonicalHash: canonical };
+    if (legacy !== null && storedHash === legacy) {
+      report.changed.push(finding);
+    } else {
+      this.logger.warn('Stored hash matches neither the canonical nor the legacy formula', { field, recordId });
+      report.unrecognized.push(finding);
+    }
+  }
+}
+
+function emptyReport(): CanonicalHashMigrationReport {
+  return { checked: 0, unchanged: 0, changed: [], unrecognized: [] };
+}
+
+function mergeReports(reports: CanonicalHashMigrationReport[]): CanonicalHashMigrationReport {
+  return reports.reduce((merged, report) => ({
+    checked: merged.checked + report.checked,
+    unchanged: merged.unchanged + report.unchanged,
+    changed: merged.changed.concat(report.changed),
+    unrecognized: merged.unrecognized.concat(report.unrecognized),
+  }), emptyReport());
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Legacy formulas, kept only to recognize hashes stored before the move to canonical JSON
+ */
+function legacyOutputId(output: any): string | null {
+  if (output === null || output === undefined) {
+    return null;
+  }
+  return sha256(JSON.stringify(output, Object.keys(output).sort()));
+}
+
+function legacyJsonHash(value: any): string | null {
+  const json = JSON.stringify(value);
+  return json === undefined ? null : sha256(json);
+}
+
+function legacyExecutionEnvHash(env: ExecutionEnvironment): string {
+  return sha256(JSON.stringify({
+    os: env.os,
+    runtime: env.runtime,
+    modelBinary: env.modelBinary,
+    inferenceLibrary: env.inferenceLibrary,
+    inferenceLibraryVersion: env.inferenceLibraryVersion,
+    dependencies: env.dependencies || {},
+  }));
+}
+
+function legacyMethodId(config: ValidatorMethodConfig): string {
+  const weights = config.contributionWeights;
+  const hash = sha256(
+    `${config.embeddingMethod}-${config.clusteringAlgorithm}-${weights.robustness}-${weights.novelty}-${weights.diversity}`
+  );
+  return `method_${hash.substring(0, 16)}`;
+}
+
+function legacyAggregatedHash(aggregated: AggregatedSignature): string {
+  const combined = aggregated.signatures
+    .map(sig => `${sig.validatorAddress}:${sig.r}:${sig.s}:${sig.v}`)
+    .sort()
+    .join('|');
+  return `0x${sha256(aggregated.messageHash + combined)}`;
+}
+
+function legacyManifestHash(manifest: NetworkManifest): string {
+  const { registry, ...stableManifest } = manifest;
+  const hashable: Record<string, any> = { ...stableManifest, registry: { ipfsCid: '', gitUrl: registry.gitUrl } };
+  return sha256(JSON.stringify(hashable, Object.keys(hashable).sort()));
+}
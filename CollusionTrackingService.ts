@@ -7,6 +7,7 @@
 
 import { ILogger } from './utils/ILogger';
 import { createHash, createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { canonicalHash } from './utils/CanonicalJson';
 import { PrismaClient } from '@prisma/client';
 
 export interface ValidatorPattern {
@@ -540,8 +541,7 @@ export class CollusionTrackingService {
    * Hash pattern data
    */
   private hashPattern(data: any): string {
-    const json = JSON.stringify(data, Object.keys(data).sort());
-    return createHash('sha256').update(json).digest('hex');
+    return canonicalHash(data);
   }
 
   /**
@@ -17,9 +17,16 @@
 
 import { ILogger } from './utils/ILogger';
 import { NetworkManifest } from './types';
+import { buildNetworkManifestTypedData, getManifestSigningDomain } from './ProtocolTypedData';
 import axios from 'axios';
 import { createHash } from 'crypto';
 import { ethers } from 'ethers';
+import {
+  ManifestRevisionService,
+  ManifestPointInTime,
+  ResolvedManifest,
+  verifyManifestRevisionSignature,
+} from './ManifestRevisionService';
 
 /**
  * Registry Index (one of many)
@@ -80,9 +87,23 @@ export class DecentralizedRegistryService {
   private indexSources: IndexSource[] = [];
   private indexCache: Map<string, { index: RegistryIndex; timestamp: number }> = new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private revisionService: ManifestRevisionService;
 
   constructor(logger: ILogger, indexSources?: IndexSource[]) {
     this.logger = logger;
+
+    // Revision chains are walked with the same client-side verified fetch as single manifests
+    this.revisionService = new ManifestRevisionService(logger, {
+      storage: {
+        download: async (cid: string) => {
+          const manifest = await this.fetchManifest(cid);
+          if (!manifest) {
+            throw new Error(`Manifest not found or invalid: ${cid}`);
+          }
+          return manifest;
+        },
+      },
+    });
     
     // Default index sources (can be overridden)
     this.indexSources = indexSources || [
@@ -405,6 +426,28 @@ export class DecentralizedRegistryService {
     return null;
   }
 
+  /**
+   * Resolve the manifest revision in force now, starting from the newest CID known for a network
+   * (e.g. an index entry's ipfsCid); pass the settlement chain's block number for block-activated revisions
+   */
+  async resolveLatestManifest(headCid: string, blockNumber?: number): Promise<ResolvedManifest> {
+    return this.revisionService.resolveLatest(headCid, blockNumber);
+  }
+
+  /**
+   * Resolve the manifest revision that was in force at a given time and/or block
+   */
+  async resolveManifestAsOf(headCid: string, at: ManifestPointInTime): Promise<ResolvedManifest> {
+    return this.revisionService.resolveAsOf(headCid, at);
+  }
+
+  /**
+   * Full verified revision history of a network, oldest first
+   */
+  async getManifestHistory(headCid: string): Promise<Array<{ cid: string; manifest: NetworkManifest }>> {
+    return this.revisionService.resolveHistory(headCid);
+  }
+
   /**
    * Verify manifest structure and signatures
    * CRITICAL: Client-side verification (non-negotiable)
@@ -458,8 +501,15 @@ export class DecentralizedRegistryService {
       }
     }
 
-    // Verify creator signature cryptographically (EIP-191)
-    if (manifest.creatorSignature && manifest.creatorAddress) {
+    // Revisions are authorized by the revision signature, which covers every creator-controlled field
+    // and the settlement chain and contract (the original creatorSignature only covers the fields as
+    // first published); the remaining protocol-managed fields are checked along the revision chain
+    if (manifest.revision) {
+      if (!verifyManifestRevisionSignature(manifest)) {
+        errors.push('Manifest revision signature verification failed');
+      }
+    } else if (manifest.creatorSignature && manifest.creatorAddress) {
+      // Verify creator signature cryptographically (EIP-191)
       try {
         const isValid = this.verifyCreatorSignature(manifest);
         if (!isValid) {
@@ -480,7 +530,8 @@ export class DecentralizedRegistryService {
   }
 
   /**
-   * Verify creator signature using EIP-191 standard
+   * Verify creator signature: EIP-712 NetworkManifest typed data on EVM settlement chains,
+   * otherwise (or for manifests signed before typed data) the legacy EIP-191 message
    * FULLY IMPLEMENTED: No placeholders
    */
   private verifyCreatorSignature(manifest: NetworkManifest): boolean {
@@ -488,6 +539,24 @@ export class DecentralizedRegistryService {
       return false;
     }
 
+    const domain = getManifestSigningDomain(manifest);
+    if (domain) {
+      try {
+        const typedData = buildNetworkManifestTypedData(domain, manifest);
+        const recoveredAddress = ethers.verifyTypedData(
+          typedData.domain,
+          typedData.types,
+          typedData.message,
+          manifest.creatorSignature
+        );
+        if (recoveredAddress.toLowerCase() === manifest.creatorAddress.toLowerCase()) {
+          return true;
+        }
+      } catch (error) {
+        this.logger.debug('Creator signature is not EIP-712 typed data, trying legacy EIP-191', { error });
+      }
+    }
+
     try {
       // Create message hash (same format as when signing)
       // Message: networkId + creatorAddress + createdAt + manifest hash
@@ -17,6 +17,7 @@
 
 import { ILogger } from './utils/ILogger';
 import { createHash } from 'crypto';
+import { canonicalHash } from './utils/CanonicalJson';
 import {
   ReplayBundle,
   ExecutionEnvironment,
@@ -24,6 +25,7 @@ import {
   IntermediateStepHash,
 } from './EvaluationService';
 import { ModelExecutionEngine } from './ModelExecutionEngine';
+import { IStorageProvider } from './interfaces/IStorageProvider';
 
 /**
  * Replay Validation Result
@@ -53,9 +55,12 @@ export class DeterministicReplayService {
   private readonly DEFAULT_EMBEDDING_DIM = 384;
   private modelExecutionEngine: ModelExecutionEngine;
 
-  constructor(logger?: Logger) {
+  /**
+   * @param modelStorage Optional storage provider holding model metadata and weights
+   */
+  constructor(logger?: Logger, modelStorage?: IStorageProvider) {
     this.logger = logger || new Logger('DeterministicReplayService');
-    this.modelExecutionEngine = new ModelExecutionEngine(logger);
+    this.modelExecutionEngine = new ModelExecutionEngine(logger, modelStorage);
   }
 
   /**
@@ -272,7 +277,7 @@ export class DeterministicReplayService {
    * Creates a deterministic hash of the execution environment.
    */
   hashExecutionEnvironment(env: ExecutionEnvironment): string {
-    const envString = JSON.stringify({
+    return canonicalHash({
       os: env.os,
       runtime: env.runtime,
       modelBinary: env.modelBinary,
@@ -280,8 +285,6 @@ export class DeterministicReplayService {
       inferenceLibraryVersion: env.inferenceLibraryVersion,
       dependencies: env.dependencies || {},
     });
-
-    return createHash('sha256').update(envString).digest('hex');
   }
 
   /**
@@ -382,7 +385,7 @@ export class DeterministicReplayService {
     };
 
     return {
-      result: this.deterministicHash(JSON.stringify(replayInput)),
+      result: canonicalHash(replayInput),
       modelId: bundle.modelId,
       seed: bundle.randomSeed,
       method: 'hash-based',
@@ -517,7 +520,7 @@ export class DeterministicReplayService {
 
       steps.push({
         stepIndex: i,
-        stepHash: this.deterministicHash(JSON.stringify(stepState)),
+        stepHash: canonicalHash(stepState),
         stepType: 'intermediate',
       });
     }
@@ -542,20 +545,10 @@ export class DeterministicReplayService {
   /**
    * Hash output
    * 
-   * Creates a deterministic hash of the output.
+   * Creates a deterministic hash of the output (RFC 8785 canonical JSON).
    */
   private hashOutput(output: any): string {
-    const outputString = JSON.stringify(output);
-    return createHash('sha256').update(outputString).digest('hex');
-  }
-
-  /**
-   * Deterministic hash
-   * 
-   * Creates a deterministic hash (for placeholder implementations).
-   */
-  private deterministicHash(input: string): string {
-    return createHash('sha256').update(input).digest('hex');
+    return canonicalHash(output);
   }
 
   /**
@@ -0,0 +1,543 @@
+/**
+ * Dispute Service
+ *
+ * Off-chain side of EscrowContract.challenge / resolveChallenge / resolveChallengeByOracle:
+ * 1. Opens a challenge inside validatorConfig.disputeWindow and moves the task to 'challenged'
+ * 2. Packages the evidence (outputs, evaluations, replay bundles) to storage
+ * 3. Resolves it according to manifest.challengeResolution.mode:
+ *    - validator: N-of-M signed votes from the network's active validators, submitted via resolveChallenge
+ *    - oracle: resolveChallengeByOracle, sent by us or verified from the oracle's tx
+ *    - governance: verified from the executed governance tx
+ *    Externally submitted txs must emit ChallengeResolved for the task and outcome from the network's escrow
+ * 4. Feeds outcomes to ScamDefenseService and the unresolved-dispute count used for graduation
+ */
+
+import { ethers } from 'ethers';
+import { ILogger } from './utils/ILogger';
+import { ITaskRepository, TaskData } from './interfaces/ITaskRepository';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { IBlockchainProvider } from './interfaces/IBlockchainProvider';
+import { IDisputeRepository, DisputeData, DisputeResolutionMode } from './interfaces/IDisputeRepository';
+import { IValidatorRepository } from './interfaces/IValidatorRepository';
+import type { OnChainValidatorService } from './OnChainValidatorService';
+import { TaskServiceRefactored } from './TaskServiceRefactored';
+import { TaskStateMachine } from './TaskStateMachine';
+import { ScamDefenseService } from './ScamDefenseService';
+import { ReplayBundle } from './EvaluationService';
+import { NetworkManifest } from './types';
+
+const ESCROW_CHALLENGE_ABI = [
+  'function challenge(bytes32 taskId, bytes evidence) external payable',
+  'function resolveChallenge(bytes32 taskId, bool challengerWon, tuple(address validator, uint256 score, bytes32 r, bytes32 s, uint8 v, bool accepted)[] signatures) external',
+  'function resolveChallengeByOracle(bytes32 taskId, bool challengerWon) external',
+  'event ChallengeResolved(bytes32 indexed taskId, bool challengerWon)',
+];
+
+/**
+ * Evidence bundle uploaded when a challenge is opened
+ */
+export interface DisputeEvidence {
+  taskId: string;
+  networkId: string;
+  challengerAddress: string;
+  reason: string;
+  input: any;
+  winningOutputId?: string;
+  outputs: Array<{ outputId: string; minerAddress: string; output: any; timestamp: number }>;
+  evaluations: Array<{ validatorAddress: string; outputId: string; score: number; confidence: number; signature: string }>;
+  replayBundles: Record<string, ReplayBundle>; // outputId -> replay bundle, when miners supplied one
+  supportingData?: any; // Challenger-supplied material
+  createdAt: number;
+}
+
+/**
+ * A validator's signed vote on a dispute (validator mode)
+ * signature is EIP-191 over the same hash EscrowContract.resolveChallenge recovers, which includes `accepted`
+ */
+export interface DisputeVote {
+  validatorAddress: string;
+  accepted: boolean;
+  signature: string;
+  score?: number;
+}
+
+export interface DisputeResolutionInput {
+  votes?: DisputeVote[];   // validator mode
+  txHash?: string;         // oracle / governance mode: tx that already resolved on-chain
+}
+
+export interface OpenChallengeResult {
+  dispute: DisputeData;
+  evidenceCid: string;
+  challengeTxData?: {    // Challenger submits this (challenge is payable and uses msg.sender)
+    to: string;
+    data: string;
+    value: string;
+  };
+}
+
+export interface DisputeServiceDependencies {
+  disputeRepository: IDisputeRepository;
+  taskRepository: ITaskRepository;
+  taskService: TaskServiceRefactored;
+  storage: IStorageProvider;
+  blockchain?: IBlockchainProvider;
+  scamDefenseService?: ScamDefenseService;
+  // Who may vote in validator mode: the ValidatorRegistry set when the manifest has a registry,
+  // otherwise the active, unbanned validators in the repository
+  validatorSets?: Pick<OnChainValidatorService, 'getValidatorSet'>;
+  validatorRepository?: IValidatorRepository;
+}
+
+export class DisputeService {
+  private logger: ILogger;
+  private disputeRepo: IDisputeRepository;
+  private taskRepo: ITaskRepository;
+  private taskService: TaskServiceRefactored;
+  private storage: IStorageProvider;
+  private blockchain?: IBlockchainProvider;
+  private scamDefenseService?: ScamDefenseService;
+  private validatorSets?: Pick<OnChainValidatorService, 'getValidatorSet'>;
+  private validatorRepo?: IValidatorRepository;
+
+  constructor(logger: ILogger, dependencies: DisputeServiceDependencies) {
+    this.logger = logger;
+    this.disputeRepo = dependencies.disputeRepository;
+    this.taskRepo = dependencies.taskRepository;
+    this.taskService = dependencies.taskService;
+    this.storage = dependencies.storage;
+    this.blockchain = dependencies.blockchain;
+    this.scamDefenseService = dependencies.scamDefenseService;
+    this.validatorSets = dependencies.validatorSets;
+    this.validatorRepo = dependencies.validatorRepository;
+  }
+
+  /**
+   * End of the dispute window (ms)
+   * Mirrors the escrow check: deposit timestamp + disputeWindow
+   */
+  static getDisputeWindowEnd(task: TaskData, manifest: NetworkManifest): number {
+    return task.createdAt.getTime() + (manifest.validatorConfig.disputeWindow || 0) * 1000;
+  }
+
+  /**
+   * Resolution mode declared by the manifest (default: validator)
+   */
+  static getResolutionMode(manifest: NetworkManifest): DisputeResolutionMode {
+    return manifest.challengeResolution?.mode || 'validator';
+  }
+
+  /**
+   * Hash a validator signs to vote on a challenge resolution
+   * keccak256(abi.encodePacked(networkId, taskId, challengerWon, accepted, chainId)), as in EscrowContract.resolveChallenge
+   */
+  static getResolutionHash(
+    networkId: string,
+    taskId: string,
+    challengerWon: boolean,
+    accepted: boolean,
+    chainId: number
+  ): string {
+    return ethers.solidityPackedKeccak256(
+      ['string', 'bytes32', 'bool', 'bool', 'uint256'],
+      [networkId, ethers.encodeBytes32String(taskId), challengerWon, accepted, chainId]
+    );
+  }
+
+  /**
+   * Open a challenge against a task result
+   */
+  async openChallenge(
+    params: {
+      taskId: string;
+      challengerAddress: string;
+      reason: string;
+      stake?: string;
+      supportingData?: any;
+    },
+    manifest: NetworkManifest,
+    now: number = Date.now()
+  ): Promise<OpenChallengeResult> {
+    const { taskId, challengerAddress, reason } = params;
+
+    // EscrowContract.challenge reverts without a stake; fail before anything is recorded
+    if (!isPositiveAmount(params.stake)) {
+      throw new Error('Challenge requires a positive stake');
+    }
+
+    const task = await this.taskRepo.findById(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    // Fail before uploading evidence; the state machine enforces this again on transition
+    if (!TaskStateMachine.canTransition(task.status, 'challenged')) {
+      throw new Error(`Task cannot be challenged in status ${task.status}`);
+    }
+
+    const windowEndsAt = DisputeService.getDisputeWindowEnd(task, manifest);
+    if (now >= windowEndsAt) {
+      throw new Error('Dispute window closed');
+    }
+
+    const existing = await this.disputeRepo.findByTask(taskId);
+    if (existing.some(d => d.status === 'open')) {
+      throw new Error('Task already has an open dispute');
+    }
+
+    const evidence = await this.packageEvidence(task, challengerAddress, reason, params.supportingData, now);
+    const evidenceCid = await this.storage.upload(evidence, {
+      name: `dispute-evidence-${taskId}.json`,
+      type: 'application/json',
+    });
+
+    await this.taskService.markTaskChallenged(taskId, challengerAddress, reason, evidenceCid);
+
+    const dispute = await this.disputeRepo.create({
+      taskId,
+      networkId: task.networkId,
+      challengerAddress,
+      reason,
+      evidenceCid,
+      stake: params.stake,
+      resolutionMode: DisputeService.getResolutionMode(manifest),
+      status: 'open',
+      windowEndsAt: new Date(windowEndsAt),
+    });
+
+    this.logger.info('Dispute opened', {
+      disputeId: dispute.id,
+      taskId,
+      networkId: task.networkId,
+      challengerAddress,
+      evidenceCid,
+      resolutionMode: dispute.resolutionMode,
+    });
+
+    return {
+      dispute,
+      evidenceCid,
+      challengeTxData: this.prepareChallengeTransaction(taskId, evidenceCid, params.stake!, manifest),
+    };
+  }
+
+  /**
+   * Resolve an open dispute according to the manifest's resolution mode
+   */
+  async resolveChallenge(
+    disputeId: string,
+    challengerWon: boolean,
+    manifest: NetworkManifest,
+    input: DisputeResolutionInput = {}
+  ): Promise<DisputeData> {
+    const dispute = await this.disputeRepo.findById(disputeId);
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    if (dispute.status !== 'open') {
+      throw new Error('Dispute already resolved');
+    }
+
+    let resolutionTxHash: string | undefined;
+    switch (dispute.resolutionMode) {
+      case 'validator':
+        resolutionTxHash = await this.resolveByValidators(dispute, challengerWon, manifest, input.votes || []);
+        break;
+      case 'oracle':
+        resolutionTxHash = await this.resolveByOracle(dispute, challengerWon, manifest, input.txHash);
+        break;
+      case 'governance':
+        if (!input.txHash) {
+          throw new Error('Governance resolution requires the executed proposal transaction');
+        }
+        await this.verifyResolutionTransaction(dispute, challengerWon, manifest, input.txHash);
+        resolutionTxHash = input.txHash;
+        break;
+      default:
+        throw new Error(`Unsupported challenge resolution mode: ${dispute.resolutionMode}`);
+    }
+
+    await this.taskService.resolveTaskChallenge(dispute.taskId, {
+      disputeId,
+      challengerWon,
+      resolutionMode: dispute.resolutionMode,
+      resolutionTxHash,
+    });
+
+    const resolved = await this.disputeRepo.update(disputeId, {
+      status: 'resolved',
+      challengerWon,
+      resolutionTxHash,
+      resolvedAt: new Date(),
+    });
+
+    // Only upheld challenges count against the network
+    if (challengerWon && this.scamDefenseService) {
+      try {
+        await this.scamDefenseService.recordDispute(dispute.networkId);
+      } catch (error) {
+        this.logger.error('Failed to record dispute outcome', { disputeId, networkId: dispute.networkId, error });
+      }
+    }
+
+    this.logger.info('Dispute resolved', {
+      disputeId,
+      taskId: dispute.taskId,
+      challengerWon,
+      resolutionMode: dispute.resolutionMode,
+      resolutionTxHash,
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Unresolved disputes opened in a window (GraduationService's D)
+   */
+  async getUnresolvedDisputeCount(networkId: string, windowStart: Date, windowEnd: Date): Promise<number> {
+    return this.disputeRepo.countUnresolved(networkId, windowStart, windowEnd);
+  }
+
+  /**
+   * Get open disputes, optionally for one network
+   */
+  async getOpenDisputes(networkId?: string, limit?: number): Promise<DisputeData[]> {
+    return this.disputeRepo.findOpen(networkId, limit);
+  }
+
+  /**
+   * Collect outputs, evaluations and replay bundles for a task
+   */
+  private async packageEvidence(
+    task: TaskData,
+    challengerAddress: string,
+    reason: string,
+    supportingData: any,
+    now: number
+  ): Promise<DisputeEvidence> {
+    const [outputs, evaluations] = await Promise.all([
+      this.taskRepo.getOutputs(task.taskId),
+      this.taskRepo.getEvaluations(task.taskId),
+    ]);
+
+    const replayBundles: Record<string, ReplayBundle> = {};
+    for (const output of outputs) {
+      if (output.metadata?.replayBundle) {
+        replayBundles[output.outputId] = output.metadata.replayBundle;
+      }
+    }
+
+    return {
+      taskId: task.taskId,
+      networkId: task.networkId,
+      challengerAddress,
+      reason,
+      input: task.input,
+      winningOutputId: task.winningOutputId,
+      outputs: outputs.map(o => ({
+        outputId: o.outputId,
+        minerAddress: o.minerAddress,
+        output: o.output,
+        timestamp: o.timestamp.getTime(),
+      })),
+      evaluations: evaluations.map(e => ({
+        validatorAddress: e.validatorAddress,
+        outputId: e.outputId,
+        score: e.score,
+        confidence: e.confidence,
+        signature: e.signature,
+      })),
+      replayBundles,
+      supportingData,
+      createdAt: now,
+    };
+  }
+
+  /**
+   * Encode EscrowContract.challenge for the challenger's wallet
+   */
+  private prepareChallengeTransaction(
+    taskId: string,
+    evidenceCid: string,
+    stake: string,
+    manifest: NetworkManifest
+  ): OpenChallengeResult['challengeTxData'] {
+    const contractAddress = manifest.settlement.contractAddress;
+    if (manifest.settlement.mode !== 'escrow' || !contractAddress) {
+      return undefined;
+    }
+
+    const iface = new ethers.Interface(ESCROW_CHALLENGE_ABI);
+    return {
+      to: contractAddress,
+      data: iface.encodeFunctionData('challenge', [
+        ethers.encodeBytes32String(taskId),
+        ethers.toUtf8Bytes(evidenceCid),
+      ]),
+      value: stake,
+    };
+  }
+
+  /**
+   * Validator mode: verify signed votes from eligible validators off-chain with the contract's rules, then submit them
+   */
+  private async resolveByValidators(
+    dispute: DisputeData,
+    challengerWon: boolean,
+    manifest: NetworkManifest,
+    votes: DisputeVote[]
+  ): Promise<string | undefined> {
+    const { minValidators, consensusThreshold } = manifest.validatorConfig;
+    if (votes.length < minValidators) {
+      throw new Error(`Insufficient validator votes: ${votes.length} < ${minValidators}`);
+    }
+    if (!this.blockchain) {
+      throw new Error('Validator resolution requires a blockchain provider');
+    }
+
+    const chainId = Number(await this.blockchain.getChainId());
+    const eligible = await this.getEligibleValidators(dispute.networkId, manifest);
+
+    const seen = new Set<string>();
+    const signatures = votes.map(vote => {
+      const hash = DisputeService.getResolutionHash(dispute.networkId, dispute.taskId, challengerWon, vote.accepted, chainId);
+      const recovered = ethers.verifyMessage(ethers.getBytes(hash), vote.signature);
+      if (recovered.toLowerCase() !== vote.validatorAddress.toLowerCase()) {
+        throw new Error(`Invalid dispute vote signature from ${vote.validatorAddress}`);
+      }
+      if (!eligible.has(recovered.toLowerCase())) {
+        throw new Error(`Dispute vote from ${vote.validatorAddress}, which is not an active validator of the network`);
+      }
+      if (seen.has(recovered.toLowerCase())) {
+        throw new Error(`Duplicate dispute vote from ${vote.validatorAddress}`);
+      }
+      seen.add(recovered.toLowerCase());
+
+      const sig = ethers.Signature.from(vote.signature);
+      return {
+        validator: vote.validatorAddress,
+        score: vote.score || 0,
+        r: sig.r,
+        s: sig.s,
+        v: sig.v,
+        accepted: vote.accepted,
+      };
+    });
+
+    // Same rounding as the contract: floor(n * threshold), at least 1
+    const acceptCount = votes.filter(v => v.accepted).length;
+    const required = Math.max(1, Math.floor(votes.length * consensusThreshold));
+    if (acceptCount < required) {
+      throw new Error(`Dispute consensus not reached: ${acceptCount}/${required} acceptances`);
+    }
+
+    const contractAddress = manifest.settlement.contractAddress;
+    if (manifest.settlement.mode !== 'escrow' || !contractAddress) {
+      // No escrow to settle; the verified votes are the resolution
+      return undefined;
+    }
+
+    return this.blockchain.sendTransaction(
+      contractAddress,
+      ESCROW_CHALLENGE_ABI,
+      'resolveChallenge',
+      [ethers.encodeBytes32String(dispute.taskId), challengerWon, signatures]
+    );
+  }
+
+  /**
+   * Oracle mode: accept the oracle's own resolution tx, or send resolveChallengeByOracle as the oracle
+   */
+  private async resolveByOracle(
+    dispute: DisputeData,
+    challengerWon: boolean,
+    manifest: NetworkManifest,
+    txHash?: string
+  ): Promise<string> {
+    if (txHash) {
+      await this.verifyResolutionTransaction(dispute, challengerWon, manifest, txHash);
+      return txHash;
+    }
+
+    const contractAddress = manifest.settlement.contractAddress;
+    if (!this.blockchain || !contractAddress) {
+      throw new Error('Oracle resolution requires the oracle transaction or an escrow contract and blockchain provider');
+    }
+
+    return this.blockchain.sendTransaction(
+      contractAddress,
+      ESCROW_CHALLENGE_ABI,
+      'resolveChallengeByOracle',
+      [ethers.encodeBytes32String(dispute.taskId), challengerWon]
+    );
+  }
+
+  /**
+   * Addresses (lowercase) allowed to vote on a network's disputes
+   */
+  private async getEligibleValidators(networkId: string, manifest: NetworkManifest): Promise<Set<string>> {
+    if (manifest.settlement.validatorRegistryAddress && this.validatorSets) {
+      const { validators } = await this.validatorSets.getValidatorSet(manifest);
+      return new Set(validators.map(address => address.toLowerCase()));
+    }
+    if (this.validatorRepo) {
+      const validators = await this.validatorRepo.findByNetwork(networkId, { isActive: true });
+      return new Set(validators.filter(v => !v.isBanned).map(v => v.address.toLowerCase()));
+    }
+    throw new Error('Validator resolution requires the network validator set (validator registry or repository)');
+  }
+
+  /**
+   * Check that an externally submitted tx resolved this dispute on the network's escrow:
+   * it must have succeeded and emitted ChallengeResolved(taskId, challengerWon) from the escrow contract.
+   * Only resolveChallenge / resolveChallengeByOracle emit it, also when called through a governance executor
+   */
+  private async verifyResolutionTransaction(
+    dispute: DisputeData,
+    challengerWon: boolean,
+    manifest: NetworkManifest,
+    txHash: string
+  ): Promise<void> {
+    if (!this.blockchain) {
+      throw new Error('Resolution transactions cannot be verified without a blockchain provider');
+    }
+    const contractAddress = manifest.settlement.contractAddress;
+    if (manifest.settlement.mode !== 'escrow' || !contractAddress) {
+      throw new Error('Resolution transactions can only be verified against an escrow contract');
+    }
+
+    const receipt = await this.blockchain.getTransactionReceipt(txHash);
+    if (!receipt || receipt.status !== 'success') {
+      throw new Error(`Resolution transaction ${txHash} not confirmed`);
+    }
+
+    const iface = new ethers.Interface(ESCROW_CHALLENGE_ABI);
+    const taskId = ethers.encodeBytes32String(dispute.taskId);
+    const outcomes = (receipt.logs || [])
+      .filter(log => log.address.toLowerCase() === contractAddress.toLowerCase())
+      .map(log => {
+        try {
+          return iface.parseLog({ topics: log.topics, data: log.data });
+        } catch {
+          return null;
+        }
+      })
+      .filter(event => event?.name === 'ChallengeResolved' && event.args.taskId === taskId)
+      .map(event => event!.args.challengerWon as boolean);
+
+    if (outcomes.length === 0) {
+      throw new Error(`Resolution transaction ${txHash} did not resolve task ${dispute.taskId} on escrow ${contractAddress}`);
+    }
+    if (!outcomes.includes(challengerWon)) {
+      throw new Error(`Resolution transaction ${txHash} resolved task ${dispute.taskId} with challengerWon=${!challengerWon}`);
+    }
+  }
+}
+
+function isPositiveAmount(amount: string | undefined): boolean {
+  try {
+    return amount !== undefined && BigInt(amount) > 0n;
+  } catch {
+    return false;
+  }
+}
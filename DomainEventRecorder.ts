@@ -0,0 +1,88 @@
+/**
+ * Domain Event Recorder
+ *
+ * Appends typed task and network events to an IEventStore.
+ * Versions are assigned per aggregate (latest + 1) so events replay in order.
+ *
+ * Recording is non-blocking for callers: a failing event store is logged,
+ * never allowed to fail the lifecycle operation that produced the event.
+ */
+
+import { ILogger } from './utils/ILogger';
+import { IEventStore, DomainEvent } from './interfaces/IEventStore';
+import {
+  TASK_AGGREGATE,
+  NETWORK_AGGREGATE,
+  TaskEventPayloads,
+  TaskEventType,
+  NetworkEventPayloads,
+  NetworkEventType,
+} from './ProtocolEvents';
+
+export class DomainEventRecorder {
+  private logger: ILogger;
+  private eventStore: IEventStore;
+
+  constructor(logger: ILogger, eventStore: IEventStore) {
+    this.logger = logger;
+    this.eventStore = eventStore;
+  }
+
+  /**
+   * Record a task lifecycle event
+   */
+  async recordTaskEvent<K extends TaskEventType>(
+    taskId: string,
+    eventType: K,
+    data: TaskEventPayloads[K],
+    userId?: string
+  ): Promise<DomainEvent | null> {
+    return this.append(taskId, TASK_AGGREGATE, eventType, data, userId);
+  }
+
+  /**
+   * Record a network lifecycle event
+   */
+  async recordNetworkEvent<K extends NetworkEventType>(
+    networkId: string,
+    eventType: K,
+    data: NetworkEventPayloads[K],
+    userId?: string
+  ): Promise<DomainEvent | null> {
+    return this.append(networkId, NETWORK_AGGREGATE, eventType, data, userId);
+  }
+
+  private async append(
+    aggregateId: string,
+    aggregateType: string,
+    eventType: string,
+    data: any,
+    userId?: string
+  ): Promise<DomainEvent | null> {
+    try {
+      const version = (await this.eventStore.getLatestVersion(aggregateId)) + 1;
+
+      const event = await this.eventStore.append({
+        aggregateId,
+        aggregateType,
+        eventType,
+        data,
+        metadata: {
+          userId,
+          timestamp: new Date(),
+          version,
+        },
+      });
+
+      this.logger.debug('Domain event recorded', { aggregateId, eventType, version });
+      return event;
+    } catch (error) {
+      this.logger.error('Failed to record domain event', {
+        aggregateId,
+        eventType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
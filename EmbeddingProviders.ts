@@ -0,0 +1,345 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable embedding providers for StatisticalDistributionService, keyed by
+ * ValidatorMethodConfig.embeddingMethod. Validators register their own providers
+ * under 'custom' or 'custom:<name>'.
+ *
+ * A provider either returns one vector per input or throws; callers never get
+ * vectors from a different provider than the one they asked for.
+ */
+
+import { createHash } from 'crypto';
+import { ILogger } from './utils/ILogger';
+import { EmbeddingMethod } from './StatisticalDistributionService';
+
+/**
+ * Embedding Request
+ */
+export interface EmbeddingRequest {
+  taskType: string;
+  dimension: number;   // Target dimension (providers with a fixed model dimension may ignore it)
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Embedding Provider
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Same inputs always give bit-identical vectors, on any machine and without network access
+  readonly deterministic: boolean;
+  embed(texts: string[], request: EmbeddingRequest): Promise<number[][]>;
+}
+
+/**
+ * Which provider produced a set of embeddings
+ */
+export interface EmbeddingProviderInfo {
+  method: EmbeddingMethod;
+  provider: string;
+  dimension: number;
+  deterministic: boolean;
+}
+
+/**
+ * Embedding Provider Registry
+ */
+export class EmbeddingProviderRegistry {
+  private providers: Map<EmbeddingMethod, EmbeddingProvider> = new Map();
+
+  /**
+   * Register (or replace) the provider for an embedding method
+   */
+  register(method: EmbeddingMethod, provider: EmbeddingProvider): void {
+    this.providers.set(method, provider);
+  }
+
+  has(method: EmbeddingMethod): boolean {
+    return this.providers.has(method);
+  }
+
+  get(method: EmbeddingMethod): EmbeddingProvider {
+    const provider = this.providers.get(method);
+    if (!provider) {
+      throw new Error(`No embedding provider registered for method: ${method}`);
+    }
+    return provider;
+  }
+
+  methods(): EmbeddingMethod[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+/**
+ * Registry with the built-in providers
+ */
+export function createDefaultEmbeddingProviders(logger: ILogger): EmbeddingProviderRegistry {
+  const registry = new EmbeddingProviderRegistry();
+  registry.register('hash-based', new HashEmbeddingProvider());
+  registry.register('tfidf-hashing', new TfidfHashingEmbeddingProvider());
+  registry.register('sentence-transformers', new SentenceTransformersEmbeddingProvider(logger));
+  registry.register('openai', new OpenAIEmbeddingProvider(logger));
+  return registry;
+}
+
+/**
+ * Hash Embedding Provider
+ *
+ * SHA-256 of the text spread over the first 64 components and L2-normalized.
+ * Identical outputs get identical vectors; any other pair is unrelated, so this
+ * only measures exact duplication, not semantic similarity.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'sha256-hash';
+  readonly deterministic = true;
+
+  async embed(texts: string[], request: EmbeddingRequest): Promise<number[][]> {
+    return texts.map(text => {
+      const hash = createHash('sha256').update(text).digest('hex');
+
+      const vector = new Array(request.dimension).fill(0);
+      for (let i = 0; i < hash.length && i < request.dimension; i++) {
+        vector[i] = (parseInt(hash[i], 16) / 15) * 2 - 1; // Normalize to [-1, 1]
+      }
+
+      return normalize(vector);
+    });
+  }
+}
+
+/**
+ * TF-IDF Hashing Embedding Provider
+ *
+ * Offline, deterministic embeddings with lexical similarity:
+ * 1. Features are lowercased words and character n-grams, hashed into a fixed number of buckets
+ * 2. Weights are sublinear TF times smoothed IDF over the batch being embedded
+ * 3. The sparse vector is projected to the requested dimension with a seeded
+ *    random ±1 projection (Johnson-Lindenstrauss), then L2-normalized
+ *
+ * Outputs that share wording end up close; IDF keeps boilerplate shared by every
+ * output from dominating. Vectors depend on the batch, so embed a task's outputs together.
+ */
+export class TfidfHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'tfidf-char-ngram-hashing';
+  readonly deterministic = true;
+
+  private minN: number;
+  private maxN: number;
+  private buckets: number;
+  private seed: number;
+
+  constructor(options: { ngramRange?: [number, number]; buckets?: number; seed?: number } = {}) {
+    [this.minN, this.maxN] = options.ngramRange || [3, 5];
+    this.buckets = options.buckets || 1 << 20;
+    this.seed = options.seed || 0x7e45e0;
+  }
+
+  async embed(texts: string[], request: EmbeddingRequest): Promise<number[][]> {
+    const termCounts = texts.map(text => this.countFeatures(text));
+
+    const documentFrequency = new Map<number, number>();
+    for (const counts of termCounts) {
+      for (const bucket of counts.keys()) {
+        documentFrequency.set(bucket, (documentFrequency.get(bucket) || 0) + 1);
+      }
+    }
+
+    return termCounts.map(counts => {
+      const weights = new Map<number, number>();
+      let norm = 0;
+      for (const [bucket, count] of counts) {
+        const idf = Math.log((1 + texts.length) / (1 + documentFrequency.get(bucket)!)) + 1;
+        const weight = (1 + Math.log(count)) * idf;
+        weights.set(bucket, weight);
+        norm += weight * weight;
+      }
+      norm = Math.sqrt(norm);
+
+      // Buckets in ascending order, so the floating-point sums do not depend on insertion order
+      const vector = new Array(request.dimension).fill(0);
+      for (const bucket of Array.from(weights.keys()).sort((a, b) => a - b)) {
+        this.project(bucket, weights.get(bucket)! / norm, vector);
+      }
+
+      return normalize(vector);
+    });
+  }
+
+  private countFeatures(text: string): Map<number, number> {
+    const normalized = text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+    const counts = new Map<number, number>();
+    const add = (feature: string) => {
+      const bucket = fnv1a(feature) % this.buckets;
+      counts.set(bucket, (counts.get(bucket) || 0) + 1);
+    };
+
+    for (const word of normalized.match(/[\p{L}\p{N}_]+/gu) || []) {
+      add(`w:${word}`);
+    }
+
+    const chars = Array.from(` ${normalized} `);
+    for (let n = this.minN; n <= this.maxN; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        add(`c:${chars.slice(i, i + n).join('')}`);
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Add weight * r(bucket) to the vector, where r(bucket) is a fixed ±1 row
+   */
+  private project(bucket: number, weight: number, vector: number[]): void {
+    const next = xorshift32(mix32(bucket ^ this.seed));
+    let bits = 0;
+    for (let j = 0; j < vector.length; j++) {
+      if (j % 32 === 0) {
+        bits = next();
+      }
+      vector[j] += (bits >>> (j % 32)) & 1 ? weight : -weight;
+    }
+  }
+}
+
+/**
+ * Sentence Transformers Embedding Provider
+ *
+ * Local model via @xenova/transformers (all-MiniLM-L6-v2 by default, 384 dimensions).
+ * Needs the package and the model download; results can vary across library versions.
+ */
+export class SentenceTransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'xenova-transformers';
+  readonly deterministic = false;
+
+  private logger: ILogger;
+  private extractors: Map<string, any> = new Map();
+
+  constructor(logger: ILogger) {
+    this.logger = logger;
+  }
+
+  async embed(texts: string[], request: EmbeddingRequest): Promise<number[][]> {
+    const model = request.model || 'Xenova/all-MiniLM-L6-v2';
+
+    // Lazy-load @xenova/transformers
+    if (!this.extractors.has(model)) {
+      const { pipeline } = await import('@xenova/transformers');
+      this.extractors.set(model, await pipeline('feature-extraction', model));
+      this.logger.info('Loaded @xenova/transformers model for embeddings', { model });
+    }
+
+    const extractor = this.extractors.get(model);
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      const result = await extractor(text, { pooling: 'mean', normalize: true });
+      embeddings.push(Array.from(result.data as ArrayLike<number>));
+    }
+
+    this.logger.debug('Generated embeddings with @xenova/transformers', {
+      count: embeddings.length,
+      dimension: embeddings[0]?.length,
+      taskType: request.taskType,
+    });
+
+    return embeddings;
+  }
+}
+
+/**
+ * OpenAI Embedding Provider
+ *
+ * Custom embeddings with a user-provided API key (embeddingConfig.apiKey)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly deterministic = false;
+
+  private logger: ILogger;
+  // OpenAI client cache (per API key)
+  private clients: Map<string, any> = new Map();
+
+  constructor(logger: ILogger) {
+    this.logger = logger;
+  }
+
+  async embed(texts: string[], request: EmbeddingRequest): Promise<number[][]> {
+    if (!request.apiKey) {
+      throw new Error('OpenAI embeddings need an API key (statisticalEvaluation.embeddingConfig.apiKey)');
+    }
+    const model = request.model || 'text-embedding-3-small';
+
+    // Get or create OpenAI client for this API key
+    if (!this.clients.has(request.apiKey)) {
+      const { default: OpenAI } = await import('openai');
+      this.clients.set(request.apiKey, new OpenAI({ apiKey: request.apiKey }));
+      this.logger.info('Created OpenAI client for custom embeddings', {
+        model,
+        apiKeyPrefix: request.apiKey.substring(0, 7) + '...',
+      });
+    }
+
+    const response = await this.clients.get(request.apiKey).embeddings.create({
+      model,
+      input: texts,
+    });
+
+    const embeddings: number[][] = response.data
+      .slice()
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+
+    this.logger.debug('Generated embeddings with OpenAI (custom)', {
+      count: embeddings.length,
+      dimension: embeddings[0]?.length,
+      model,
+      taskType: request.taskType,
+    });
+
+    return embeddings;
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude > 0 ? vector.map(v => v / magnitude) : vector;
+}
+
+/**
+ * 32-bit FNV-1a over UTF-16 code units
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Integer finalizer (murmur3 fmix32), spreads bucket ids before seeding
+ */
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function xorshift32(seed: number): () => number {
+  let state = seed || 0x9e3779b9;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state;
+  };
+}
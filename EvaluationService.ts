@@ -14,6 +14,7 @@
 
 import { ILogger } from './utils/ILogger';
 import { createHash } from 'crypto';
+import { canonicalHash, canonicalize } from './utils/CanonicalJson';
 import { 
   StatisticalDistributionService, 
   MonteCarloOutput, 
@@ -202,6 +203,10 @@ import { AdversarialTestingService } from './AdversarialTestingService';
 import { RiskScoringService } from './RiskScoringService';
 import { NetworkState, RiskVector, NetworkManifest } from './types';
 import { NetworkStateCalculator } from './NetworkStateCalculator';
+import { ScoringRuntimeService } from './ScoringRuntimeService';
+import { IValidatorRepository } from './interfaces/IValidatorRepository';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { EmbeddingProvider } from './EmbeddingProviders';
 
 export class EvaluationService {
   private logger: ILogger;
@@ -212,23 +217,42 @@ export class EvaluationService {
   private adversarialTestingService?: AdversarialTestingService;
   private riskScoringService?: RiskScoringService;
   private networkStateCalculator?: NetworkStateCalculator;
+  private scoringRuntime?: ScoringRuntimeService;
 
-  constructor(logger?: Logger) {
+  /**
+   * Pass validatorRepository to persist validator reputation, calibration and risk state
+   * Pass modelStorage to replay miners' models from storage instead of the IPFS gateway
+   */
+  constructor(
+    logger?: Logger,
+    scoringRuntime?: ScoringRuntimeService,
+    validatorRepository?: IValidatorRepository,
+    modelStorage?: IStorageProvider
+  ) {
     this.logger = logger || new Logger('EvaluationService');
     // Initialize statistical distribution service (only used for non-deterministic tasks)
     this.statisticalDistributionService = new StatisticalDistributionService(this.logger);
     // Initialize validator calibration service (for epistemic decentralization)
     // Initialize validator reputation service (Option 1: Rejection without slashing)
-    this.validatorReputationService = new ValidatorReputationService(this.logger);
+    this.validatorReputationService = new ValidatorReputationService(this.logger, validatorRepository);
     // Initialize deterministic replay service (only used for deterministic tasks)
-    this.deterministicReplayService = new DeterministicReplayService(this.logger);
-    this.validatorCalibrationService = new ValidatorCalibrationService(this.logger);
+    this.deterministicReplayService = new DeterministicReplayService(this.logger, modelStorage);
+    this.validatorCalibrationService = new ValidatorCalibrationService(this.logger, validatorRepository);
     // Initialize adversarial testing service (for risk score gaming prevention)
-    this.adversarialTestingService = new AdversarialTestingService(undefined, this.logger);
+    this.adversarialTestingService = new AdversarialTestingService(undefined, this.logger, validatorRepository);
     // Initialize risk scoring service (for correlation detection and relative risk)
-    this.riskScoringService = new RiskScoringService(this.logger);
+    this.riskScoringService = new RiskScoringService(this.logger, validatorRepository);
     // Initialize network state calculator (for adaptive risk weighting)
     this.networkStateCalculator = new NetworkStateCalculator(this.logger);
+    // Scoring runtime (optional): executes manifest.scoringLogic for deterministic tasks
+    this.scoringRuntime = scoringRuntime;
+  }
+
+  /**
+   * Register an embedding provider for validators' embeddingMethod (e.g. 'custom:my-model')
+   */
+  registerEmbeddingProvider(method: EmbeddingMethod, provider: EmbeddingProvider): void {
+    this.statisticalDistributionService!.registerEmbeddingProvider(method, provider);
   }
 
   /**
@@ -376,6 +400,10 @@ export class EvaluationService {
    * 
    * Uses DeterministicReplayService to validate replay bundles.
    * Option 1: Rejection without slashing - invalid submissions are rejected (no payment).
+   *
+   * If a ScoringRuntimeService is configured and scoringLogic is passed, each valid
+   * output is scored by the manifest's scoring module and that score replaces the
+   * validator-reported average. Outputs the module cannot score are rejected.
    */
   async evaluateDeterministic(
     taskId: string,
@@ -388,7 +416,8 @@ export class EvaluationService {
       seedRequired?: boolean;
       intermediateHashing?: boolean;
       executionEnvRequired?: boolean;
-    }
+    },
+    scoringLogic?: NetworkManifest['scoringLogic']
   ): Promise<EvaluationResult> {
     // For deterministic tasks, all outputs should be identical if correct
     // Validators verify by replaying using the replay bundle
@@ -448,6 +477,49 @@ export class EvaluationService {
       validOutputs.push(output);
     }
 
+    // Compute scores with the manifest's scoring module (if available)
+    const computedScores = new Map<string, number>();
+    if (this.scoringRuntime && scoringLogic) {
+      const scored = await this.scoringRuntime.scoreOutputs(
+        scoringLogic,
+        input,
+        validOutputs.map(o => ({ outputId: o.outputId, output: o.output }))
+      );
+
+      for (const [outputId, result] of scored.entries()) {
+        if (result.score === undefined) {
+          invalidOutputs.push({
+            outputId,
+            reason: `Scoring module failed: ${result.error}`,
+          });
+          continue;
+        }
+        computedScores.set(outputId, result.score);
+      }
+
+      // Drop outputs the scoring module rejected
+      for (let i = validOutputs.length - 1; i >= 0; i--) {
+        if (!computedScores.has(validOutputs[i].outputId)) {
+          validOutputs.splice(i, 1);
+        }
+      }
+
+      // Flag validators whose reported score diverges from the computed one
+      const tolerance = 1;
+      for (const eval_ of evaluations) {
+        const computed = computedScores.get(eval_.outputId);
+        if (computed !== undefined && Math.abs(computed - eval_.score) > tolerance) {
+          this.logger.warn('Validator score diverges from scoring module', {
+            taskId,
+            validatorAddress: eval_.validatorAddress,
+            outputId: eval_.outputId,
+            reportedScore: eval_.score,
+            computedScore: computed,
+          });
+        }
+      }
+    }
+
     // If no valid outputs, return rejection
     if (validOutputs.length === 0) {
       this.logger.warn('All outputs rejected for deterministic task', {
@@ -488,7 +560,10 @@ export class EvaluationService {
     let bestReplayHash = '';
 
     for (const [outputId, evals] of outputEvaluations.entries()) {
-      const avgScore = evals.reduce((sum, e) => sum + e.score, 0) / evals.length;
+      // Prefer the scoring module's result over validator-reported numbers
+      const avgScore = computedScores.has(outputId)
+        ? computedScores.get(outputId)!
+        : evals.reduce((sum, e) => sum + e.score, 0) / evals.length;
       const consensus = evals.length / evaluations.length; // How many validators agree
 
       // For deterministic tasks, consensus matters more than score
@@ -565,6 +640,62 @@ export class EvaluationService {
     taskType: string = 'general',
     manifest?: NetworkManifest,
     taskInput?: any
+  ): Promise<EvaluationResult> {
+    const validatorAddresses = Array.from(new Set([
+      ...evaluations.map(e => e.validatorAddress),
+      ...validatorReputations.keys(),
+    ]));
+    await this.loadValidatorState(validatorAddresses);
+
+    try {
+      return await this.runStatisticalEvaluation(
+        taskId,
+        outputs,
+        evaluations,
+        validatorReputations,
+        distributionBased,
+        taskType,
+        manifest,
+        taskInput
+      );
+    } finally {
+      await this.flushValidatorState();
+    }
+  }
+
+  /**
+   * Refresh validator state from the validator repository (no-op without one)
+   */
+  private async loadValidatorState(validatorAddresses: string[]): Promise<void> {
+    await Promise.all([
+      this.validatorReputationService?.loadReputations(validatorAddresses),
+      this.validatorCalibrationService?.loadCalibrations(validatorAddresses),
+      this.adversarialTestingService?.loadTestHistory(validatorAddresses),
+      this.riskScoringService?.loadRiskHistory(validatorAddresses),
+    ]);
+  }
+
+  /**
+   * Wait for validator state writes, so they land before the caller responds
+   */
+  private async flushValidatorState(): Promise<void> {
+    await Promise.all([
+      this.validatorReputationService?.flush(),
+      this.validatorCalibrationService?.flush(),
+      this.adversarialTestingService?.flush(),
+      this.riskScoringService?.flush(),
+    ]);
+  }
+
+  private async runStatisticalEvaluation(
+    taskId: string,
+    outputs: TaskOutput[],
+    evaluations: ValidatorEvaluation[],
+    validatorReputations: Map<string, number>,
+    distributionBased: boolean,
+    taskType: string,
+    manifest?: NetworkManifest,
+    taskInput?: any
   ): Promise<EvaluationResult> {
     // Check if we should use distribution-based evaluation
     if (distributionBased && this.statisticalDistributionService) {
@@ -573,7 +704,8 @@ export class EvaluationService {
         outputs,
         evaluations,
         validatorReputations,
-        taskType
+        taskType,
+        manifest
       );
       
       // Calculate aggregated distribution for network state
@@ -607,7 +739,8 @@ export class EvaluationService {
     outputs: TaskOutput[],
     evaluations: ValidatorEvaluation[],
     validatorReputations: Map<string, number>,
-    taskType: string
+    taskType: string,
+    manifest?: NetworkManifest
   ): Promise<EvaluationResult> {
     if (!this.statisticalDistributionService || !this.validatorCalibrationService) {
       throw new Error('StatisticalDistributionService or ValidatorCalibrationService not initialized');
@@ -655,20 +788,22 @@ export class EvaluationService {
         try {
           // 1. Embed outputs using validator's chosen method
           // Get embedding config from manifest (custom embeddings with user-provided API keys)
-          const embeddingConfig = manifest.statisticalEvaluation?.embeddingConfig;
+          const embeddingConfig = manifest?.statisticalEvaluation?.embeddingConfig;
           
-          const embeddings = await this.statisticalDistributionService.embedOutputs(
+          const { embeddings, provider } = await this.statisticalDistributionService.embedOutputs(
             monteCarloOutputs,
             taskType,
             methodConfig.embeddingMethod,
-            embeddingConfig
+            embeddingConfig,
+            manifest?.statisticalEvaluation?.embeddingDimension
           );
 
           // 2. Estimate distribution using validator's chosen algorithm
           const distribution = await this.statisticalDistributionService.estimateDistribution(
             embeddings,
             monteCarloOutputs,
-            methodConfig.clusteringAlgorithm
+            methodConfig.clusteringAlgorithm,
+            provider
           );
 
           // 3. Calculate contributions using validator's chosen weights
@@ -691,21 +826,21 @@ export class EvaluationService {
     } else {
       // Fallback: use default method (backward compatibility)
       // Get embedding config from manifest (custom embeddings with user-provided API keys)
-      const embeddingConfig = manifest.statisticalEvaluation?.embeddingConfig;
+      const embeddingConfig = manifest?.statisticalEvaluation?.embeddingConfig;
       
-      const embeddings = await this.statisticalDistributionService.embedOutputs(
+      const { embeddings, provider } = await this.statisticalDistributionService.embedOutputs(
         monteCarloOutputs,
         taskType,
-        embeddingConfig?.provider === 'openai' ? 'openai' : 
-        embeddingConfig?.provider === 'xenova' ? 'sentence-transformers' : 
         'hash-based',
-        embeddingConfig
+        embeddingConfig,
+        manifest?.statisticalEvaluation?.embeddingDimension
       );
 
       const distribution = await this.statisticalDistributionService.estimateDistribution(
         embeddings,
         monteCarloOutputs,
-        'simple'
+        'simple',
+        provider
       );
 
       const contributions = await this.statisticalDistributionService.calculateContributions(
@@ -970,6 +1105,12 @@ export class EvaluationService {
     }
     
     const count = validatorDistributions.size;
+
+    // Report the embedding provider only if every validator used the same one
+    const providers = Array.from(validatorDistributions.values()).map(d => d.embeddingProvider);
+    const sharedProvider = providers.every(p => p && p.method === providers[0]?.method && p.provider === providers[0]?.provider)
+      ? providers[0]
+      : undefined;
     
     return {
       modes: [], // Modes are validator-specific, don't aggregate
@@ -978,6 +1119,7 @@ export class EvaluationService {
       diversity: totalDiversity / count,
       stabilityScore: totalStability / count,
       modeCount: Math.round(totalModes / count),
+      embeddingProvider: sharedProvider,
     };
   }
 
@@ -1262,8 +1404,7 @@ export class EvaluationService {
    * Hash(input + seed + scoringModuleHash)
    */
   private generateReplayHash(input: any, seed: string, scoringModuleHash: string): string {
-    const inputStr = JSON.stringify(input, Object.keys(input).sort());
-    const combined = `${inputStr}:${seed}:${scoringModuleHash}`;
+    const combined = `${canonicalize(input)}:${seed}:${scoringModuleHash}`;
     return createHash('sha256').update(combined).digest('hex');
   }
 
@@ -1284,10 +1425,8 @@ export class EvaluationService {
 
     // Verify each step hash
     for (let i = 0; i < Math.min(hashes.length, expectedSteps.length); i++) {
-      const expectedHash = createHash('sha256')
-        .update(JSON.stringify(expectedSteps[i]))
-        .digest('hex');
-      
+      const expectedHash = canonicalHash(expectedSteps[i]);
+
       if (hashes[i] !== expectedHash) {
         errors.push(`Step ${i} hash mismatch`);
       }
@@ -18,6 +18,7 @@ import { PrismaClient } from '@prisma/client';
 import { ILogger } from './utils/ILogger';
 import { NetworkManifest, GraduationLevel, GraduationStatus } from './types';
 import { OnChainValidatorService } from './OnChainValidatorService';
+import { IDisputeRepository } from './interfaces/IDisputeRepository';
 
 export interface NetworkMetrics {
   // Core metrics
@@ -66,12 +67,14 @@ export class GraduationService {
   private prisma: PrismaClient;
   private logger: ILogger;
   private onChainValidatorService: OnChainValidatorService;
+  private disputeRepository?: IDisputeRepository;
   private readonly ROLLING_WINDOW_DAYS = 7; // W = 7 days
 
-  constructor(prisma: PrismaClient, logger: ILogger) {
+  constructor(prisma: PrismaClient, logger: ILogger, disputeRepository?: IDisputeRepository) {
     this.prisma = prisma;
     this.logger = logger;
     this.onChainValidatorService = new OnChainValidatorService(logger);
+    this.disputeRepository = disputeRepository;
   }
 
   /**
@@ -445,6 +448,8 @@ export class GraduationService {
 
   /**
    * Get unresolved dispute count (D)
+   * Uses DisputeService records when a dispute repository is configured,
+   * otherwise counts tasks still in 'challenged'
    */
   private async getUnresolvedDisputeCount(
     networkId: string,
@@ -452,6 +457,10 @@ export class GraduationService {
     windowEnd: Date
   ): Promise<number> {
     try {
+      if (this.disputeRepository) {
+        return await this.disputeRepository.countUnresolved(networkId, windowStart, windowEnd);
+      }
+
       return await this.prisma.tenseuronTask.count({
         where: {
           networkId,
@@ -568,12 +577,12 @@ export class GraduationService {
     networkId: string,
     manifest: NetworkManifest
   ): Promise<GraduationStatus> {
-    const currentLevel = manifest.graduationStatus?.level || 'sandbox';
+    const currentLevel = manifest.graduation?.level || 'sandbox';
     const metrics = await this.getNetworkMetrics(networkId, manifest);
 
     return {
       level: currentLevel,
-      achievedAt: manifest.graduationStatus?.achievedAt,
+      achievedAt: manifest.graduation?.achievedAt,
       conditions: {
         validatorCount: metrics.validatorCount,
         minerCount: metrics.minerCount,
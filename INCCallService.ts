@@ -4,37 +4,246 @@
  * Handles network-to-network communication
  * Explicit, signed, metered calls
  * No implicit trust, no shared settlement
+ *
+ * Calls are persisted (IINCCallRepository) with a lifecycle:
+ * pending -> dispatched -> completed | failed, and failed -> refunded once the budget is returned.
+ * dispatchINC() submits the destination task and returns without waiting. Completion is pushed,
+ * not polled: start() registers a task transition hook, and handleTaskTransition() also accepts
+ * transitions relayed over P2P when the destination task runs on another node. Settled calls are
+ * reported to the source network as a signed INCCallback (webhook and/or P2P messenger) and
+ * retried until delivered. recover() resumes calls left in flight by a restart.
+ *
+ * Budgets (INCCallBudget) flow down the call chain: a dispatched call allocates the destination
+ * task price from its maxBudget, and a nested call (parentIncId) reserves its whole maxBudget from
+ * the parent's remaining budget or fails with 'budget_exceeded'. When a call settles its unspent
+ * budget is released back up to the parent, so a chain never spends more than the root maxBudget.
+ * Every nested call (non-empty call chain) must name its parent, and the parent must be recorded on
+ * the dispatching node (the one that ran the parent's destination task); otherwise it is rejected.
+ *
+ * Calls are signed by the source network's validators: createINC() builds the call, validators sign
+ * buildINCConsensusTypedData(), and attachConsensusProof() adds their signatures. With a consensus
+ * verifier configured, dispatch checks the N-of-M proof against the source validator set and fails
+ * the call with 'invalid_signature' otherwise.
  */
 
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers';
 import { ILogger } from './utils/ILogger';
-import { InterNetworkCall, INCCallReceipt, INCCallFailure, NetworkManifest, SettlementReceipt } from './types';
+import { canonicalize } from './utils/CanonicalJson';
+import {
+  InterNetworkCall,
+  INCCallReceipt,
+  INCCallFailure,
+  INCCallback,
+  INCCallBudget,
+  INCConsensusProof,
+  NetworkManifest,
+  SettlementReceipt,
+} from './types';
 import { createHash } from 'crypto';
-import { TaskService } from './TaskService';
-import { ProtocolService } from './ProtocolService';
-import { SignatureVerificationService } from './SignatureVerificationService';
+import type { TaskState, TaskStatus } from './TaskService';
+import type { TaskTransition, TaskTransitionHook } from './TaskStateMachine';
+import { INCConsensusVerifier, getConsensusProofDigest } from './INCConsensusVerifier';
+import { IINCCallRepository, INCCallRecord, INCCallStatus } from './interfaces/IINCCallRepository';
+import { INetworkRepository } from './interfaces/INetworkRepository';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { buildINCCallbackTypedData, buildProtocolDomain, getManifestSigningDomain } from './ProtocolTypedData';
+
+/**
+ * Allowed INC call status changes
+ * pending may settle directly when the destination task moves before dispatch is recorded
+ */
+export const INC_CALL_TRANSITIONS: Readonly<Record<INCCallStatus, readonly INCCallStatus[]>> = {
+  pending: ['dispatched', 'completed', 'failed'],
+  dispatched: ['completed', 'failed'],
+  completed: [],
+  failed: ['refunded'],
+  refunded: [],
+};
+
+// Destination task statuses that settle a call
+const SETTLING_STATUSES: Partial<Record<TaskStatus, { status: 'completed' | 'failed'; reason?: INCCallFailure['reason'] }>> = {
+  'consensus-reached': { status: 'completed' },
+  'paid': { status: 'completed' },
+  'user-rejected': { status: 'failed', reason: 'network_rejected' },
+  'timed-out': { status: 'failed', reason: 'timeout' },
+};
+
+/**
+ * Where destination tasks are submitted and watched (e.g. TaskServiceRefactored)
+ */
+export interface INCTaskService {
+  submitTask(
+    taskId: string,
+    networkId: string,
+    input: any,
+    depositorAddress: string,
+    depositAmount: string,
+    manifest: NetworkManifest
+  ): Promise<TaskState>;
+  getTaskState(taskId: string): Promise<TaskState | null>;
+  onTransition(hook: TaskTransitionHook, filter?: { from?: TaskStatus; to?: TaskStatus }): () => void;
+}
+
+/**
+ * Key the destination node signs callbacks with (an ethers Wallet or Signer satisfies this)
+ */
+export interface INCCallbackSigner {
+  getAddress(): Promise<string>;
+  signMessage(message: string): Promise<string>;
+  signTypedData?(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+/**
+ * Pushes callbacks to the source network over P2P
+ */
+export interface INCCallbackMessenger {
+  sendINCCallback(callback: INCCallback): Promise<void>;
+}
+
+/**
+ * Called once a call is completed, failed or refunded (e.g. by INCRouterService to fail over)
+ */
+export type INCSettlementListener = (record: INCCallRecord) => Promise<void> | void;
+
+export interface INCCallServiceDependencies {
+  taskService: INCTaskService;
+  repository: IINCCallRepository;
+  networkRepository: Pick<INetworkRepository, 'findById'>;
+  storage: Pick<IStorageProvider, 'download'>;  // Manifest storage (manifestCid -> NetworkManifest)
+  signer?: INCCallbackSigner;                     // Without a signer no callbacks are sent
+  messenger?: INCCallbackMessenger;
+  consensusVerifier?: Pick<INCConsensusVerifier, 'verify'>;  // Without a verifier calls are rejected (see allowUnverifiedConsensus)
+}
+
+export interface INCCallServiceOptions {
+  maxDepth: number;                 // Protocol default call depth
+  callbackMaxAttempts: number;      // Delivery attempts per callback
+  callbackTimeoutMs: number;        // Webhook request timeout
+  callbackRetryIntervalMs: number;  // How often start() retries undelivered callbacks
+  allowUnverifiedConsensus: boolean; // Accept calls without a consensus verifier (development only)
+}
+
+const DEFAULT_OPTIONS: INCCallServiceOptions = {
+  maxDepth: 10,
+  callbackMaxAttempts: 5,
+  callbackTimeoutMs: 10 * 1000,
+  callbackRetryIntervalMs: 60 * 1000,
+  allowUnverifiedConsensus: false,
+};
+
+/**
+ * Verify a callback was signed by one of the trusted destination signers
+ */
+export function verifyINCCallback(callback: INCCallback, trustedSigners: string[]): boolean {
+  const { signer, scheme, chainId, signature, ...unsigned } = callback;
+  if (!signer || !trustedSigners.some(address => address.toLowerCase() === signer.toLowerCase())) {
+    return false;
+  }
+
+  try {
+    let recovered: string;
+    if (scheme === 'eip712') {
+      if (chainId === undefined) {
+        return false;
+      }
+      const typedData = buildINCCallbackTypedData(buildProtocolDomain(chainId), unsigned);
+      recovered = ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, signature);
+    } else {
+      recovered = ethers.verifyMessage(canonicalize(unsigned), signature);
+    }
+    return recovered.toLowerCase() === signer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
 
 export class INCCallService {
   private logger: ILogger;
-  private taskService: TaskService;
-  private protocolService: ProtocolService;
-  private signatureVerificationService: SignatureVerificationService;
-  private maxDepth: number = 10;  // Protocol default
-  private callHistory: Map<string, InterNetworkCall> = new Map();
+  private taskService: INCTaskService;
+  private repository: IINCCallRepository;
+  private networkRepo: Pick<INetworkRepository, 'findById'>;
+  private storage: Pick<IStorageProvider, 'download'>;
+  private signer?: INCCallbackSigner;
+  private messenger?: INCCallbackMessenger;
+  private consensusVerifier?: Pick<INCConsensusVerifier, 'verify'>;
+  private options: INCCallServiceOptions;
+
+  private isRunning: boolean = false;
+  private removeHook: (() => void) | null = null;
+  private retryInterval: NodeJS.Timeout | null = null;
+  // Serializes budget read-modify-write cycles
+  private budgetLock: Promise<unknown> = Promise.resolve();
+  private settlementListeners: INCSettlementListener[] = [];
 
   constructor(
     logger: ILogger,
-    taskService: TaskService,
-    protocolService: ProtocolService
+    dependencies: INCCallServiceDependencies,
+    options: Partial<INCCallServiceOptions> = {}
   ) {
     this.logger = logger;
-    this.taskService = taskService;
-    this.protocolService = protocolService;
-    this.signatureVerificationService = new SignatureVerificationService(logger);
+    this.taskService = dependencies.taskService;
+    this.repository = dependencies.repository;
+    this.networkRepo = dependencies.networkRepository;
+    this.storage = dependencies.storage;
+    this.signer = dependencies.signer;
+    this.messenger = dependencies.messenger;
+    this.consensusVerifier = dependencies.consensusVerifier;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Watch destination tasks, resume calls left in flight and retry undelivered callbacks
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('INC call service is already running');
+      return;
+    }
+    this.isRunning = true;
+
+    this.removeHook = this.taskService.onTransition(async (transition) => {
+      await this.handleTaskTransition(transition);
+    });
+
+    await this.recover();
+
+    this.retryInterval = setInterval(async () => {
+      try {
+        await this.retryCallbacks();
+      } catch (error) {
+        this.logger.error('Error retrying INC callbacks', error);
+      }
+    }, this.options.callbackRetryIntervalMs);
+
+    this.logger.info('INC call service started');
+  }
+
+  /**
+   * Stop watching tasks and retrying callbacks
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+
+    this.removeHook?.();
+    this.removeHook = null;
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+
+    this.logger.info('INC call service stopped');
   }
 
   /**
    * Create an Inter-Network Call
-   * Source network calls destination network
+   * Source network calls destination network. The call is unsigned until attachConsensusProof().
    */
   createINC(params: {
     sourceNetworkId: string;
@@ -42,12 +251,12 @@ export class INCCallService {
     taskPayload: object;
     maxBudget: string;
     settlementMode: 'escrow' | 'receipt';
-    sourceValidatorSignatures: string[];  // Consensus signatures from source network
     callChain: string[];                  // Existing call chain
     maxDepth?: number;
+    parentIncId?: string;                 // Call whose destination task is making this one
   }): InterNetworkCall {
     const currentDepth = params.callChain.length + 1;
-    const maxDepth = params.maxDepth || this.maxDepth;
+    const maxDepth = params.maxDepth || this.options.maxDepth;
 
     // Validate depth
     if (currentDepth > maxDepth) {
@@ -59,6 +268,11 @@ export class INCCallService {
       throw new Error('Cycle detected: destination network already in call chain');
     }
 
+    // Nested calls draw their budget from the parent call
+    if (params.callChain.length > 0 && !params.parentIncId) {
+      throw new Error('Nested call requires parentIncId');
+    }
+
     // Generate INC ID
     const incId = this.generateINCId(
       params.sourceNetworkId,
@@ -70,19 +284,6 @@ export class INCCallService {
     // Create call chain
     const callChain = [...params.callChain, params.sourceNetworkId];
 
-    // Combine validator signatures into aggregated signature
-    // FULLY IMPLEMENTED: Verifies all signatures cryptographically before aggregating
-    const consensusSignature = this.combineSignatures(
-      params.sourceNetworkId,
-      incId,
-      params.destinationNetworkId,
-      callChain,
-      params.sourceValidatorSignatures.map((sig, idx) => ({
-        validator: params.sourceValidatorSignatures[idx] || '',
-        signature: sig
-      }))
-    );
-
     const inc: InterNetworkCall = {
       incId,
       sourceNetworkId: params.sourceNetworkId,
@@ -90,16 +291,14 @@ export class INCCallService {
       taskPayload: params.taskPayload,
       maxBudget: params.maxBudget,
       settlementMode: params.settlementMode,
-      signature: consensusSignature,
+      signature: '',
       timestamp: Date.now(),
       maxDepth,
       currentDepth,
       callChain,
+      parentIncId: params.parentIncId,
     };
 
-    // Store for tracking
-    this.callHistory.set(incId, inc);
-
     this.logger.info('INC created', {
       incId,
       source: params.sourceNetworkId,
@@ -110,6 +309,18 @@ export class INCCallService {
     return inc;
   }
 
+  /**
+   * Attach the source validators' signatures over buildINCConsensusTypedData(inc, sourceManifest)
+   * The INC signature becomes the proof digest
+   */
+  attachConsensusProof(inc: InterNetworkCall, proof: INCConsensusProof): InterNetworkCall {
+    return {
+      ...inc,
+      consensusProof: proof,
+      signature: getConsensusProofDigest(proof),
+    };
+  }
+
   /**
    * Validate INC before processing
    */
@@ -131,6 +342,11 @@ export class INCCallService {
       errors.push('Cycle detected: destination network already in call chain');
     }
 
+    // Check parent (nested calls draw their budget from it)
+    if (inc.currentDepth > 1 && !inc.parentIncId) {
+      errors.push(`Nested call at depth ${inc.currentDepth} requires parentIncId`);
+    }
+
     // Check budget
     if (destinationManifest.inc) {
       const minBudget = BigInt(destinationManifest.inc.requirements.minBudget);
@@ -152,9 +368,9 @@ export class INCCallService {
     if (!inc.signature || inc.signature.length === 0) {
       errors.push('Missing signature');
     } else {
-      // Verify that the signature is a valid aggregated signature
-      // The signature should be an aggregated hash from combineSignatures
-      // We verify by checking the structure and that it matches the expected message
+      // Verify that the signature is a valid consensus proof digest
+      // The proof itself is checked against the source validator set on dispatch
+      // (INCConsensusVerifier); here we only check the structure
       try {
         const message = this.constructINCMessage(inc);
         // Verify that the signature exists and has correct format
@@ -177,190 +393,606 @@ export class INCCallService {
   }
 
   /**
-   * Process INC as a normal task
-   * Destination network treats INC like a user task
-   * INTEGRATED: Uses TaskService directly instead of HTTP calls
+   * Accept an INC and submit it to the destination network as a task
+   * Returns once the task is submitted; the call settles when the task does.
+   * Dispatching an INC ID that is already recorded returns the existing record.
    */
-  async processINC(inc: InterNetworkCall, destinationManifest: NetworkManifest): Promise<INCCallReceipt | INCCallFailure> {
-    // Validate first
-    const validation = this.validateINC(inc, destinationManifest);
-    if (!validation.valid) {
-      return {
-        incId: inc.incId,
-        sourceNetworkId: inc.sourceNetworkId,
-        destinationNetworkId: inc.destinationNetworkId,
-        reason: 'network_rejected',
-        message: validation.errors.join('; '),
-        timestamp: Date.now(),
-      };
+  async dispatchINC(
+    inc: InterNetworkCall,
+    destinationManifest: NetworkManifest,
+    options: { callbackUrl?: string } = {}
+  ): Promise<INCCallRecord> {
+    const existing = await this.repository.findById(inc.incId);
+    if (existing) {
+      this.logger.debug('INC already recorded', { incId: inc.incId, status: existing.status });
+      return existing;
     }
 
-    this.logger.info('Processing INC as task', {
+    const record = await this.repository.create({
       incId: inc.incId,
-      destination: inc.destinationNetworkId,
+      sourceNetworkId: inc.sourceNetworkId,
+      destinationNetworkId: inc.destinationNetworkId,
+      status: 'pending',
+      call: inc,
+      callbackUrl: options.callbackUrl,
+      callbackAttempts: 0,
     });
 
+    const validation = this.validateINC(inc, destinationManifest);
+    if (!validation.valid) {
+      return this.fail(record, 'network_rejected', validation.errors.join('; '));
+    }
+
+    return this.submit(record, destinationManifest);
+  }
+
+  /**
+   * Register a listener for settled calls
+   * Returns a function that removes it
+   */
+  onSettled(listener: INCSettlementListener): () => void {
+    this.settlementListeners.push(listener);
+    return () => {
+      this.settlementListeners = this.settlementListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Load an INC call record
+   */
+  async getINC(incId: string): Promise<INCCallRecord | null> {
+    return this.repository.findById(incId);
+  }
+
+  /**
+   * Settle the call behind a destination task status change
+   * Registered as a task transition hook by start(); also the entry point for
+   * transitions relayed over P2P. Returns the updated record, or null if nothing changed.
+   */
+  async handleTaskTransition(transition: Pick<TaskTransition, 'taskId' | 'to'>): Promise<INCCallRecord | null> {
+    if (!SETTLING_STATUSES[transition.to]) {
+      return null;
+    }
+
+    // The destination task ID is the INC ID
+    const record = await this.repository.findById(transition.taskId);
+    if (!record || (record.status !== 'pending' && record.status !== 'dispatched')) {
+      return null;
+    }
+
+    return this.settle(record, transition.to);
+  }
+
+  /**
+   * Record that a failed call's budget was returned to the source network
+   * (e.g. by TaskTimeoutSweeper after EscrowContract.checkTimeout). Ignores unknown IDs.
+   */
+  async markRefunded(incId: string, refundTxHash?: string): Promise<INCCallRecord | null> {
+    const record = await this.repository.findById(incId);
+    if (!record) {
+      return null;
+    }
+    return this.transition(record, 'refunded', { refundTxHash });
+  }
+
+  /**
+   * Resume calls left in flight (e.g. after a restart)
+   * - pending: submit the destination task unless it already exists
+   * - dispatched: catch up on status changes missed while the hook was not registered
+   */
+  async recover(): Promise<void> {
+    let resumed = 0;
+
+    for (const record of await this.repository.findByStatus('pending')) {
+      const state = await this.taskService.getTaskState(record.incId);
+      if (state) {
+        const dispatched = await this.transition(record, 'dispatched', {});
+        if (dispatched) {
+          await this.settleFromState(dispatched, state);
+        }
+      } else {
+        const manifest = await this.loadManifest(record.destinationNetworkId);
+        if (manifest) {
+          await this.submit(record, manifest);
+        } else {
+          await this.fail(record, 'network_rejected', 'Destination network manifest not found');
+        }
+      }
+      resumed++;
+    }
+
+    for (const record of await this.repository.findByStatus('dispatched')) {
+      const state = await this.taskService.getTaskState(record.incId);
+      if (state) {
+        await this.settleFromState(record, state);
+      } else if (record.deadline && record.deadline.getTime() < Date.now()) {
+        await this.fail(record, 'timeout', 'Destination task not found after its deadline');
+      }
+      resumed++;
+    }
+
+    await this.retryCallbacks();
+
+    if (resumed > 0) {
+      this.logger.info('Resumed in-flight INC calls', { resumed });
+    }
+  }
+
+  /**
+   * Deliver callbacks that have not been delivered yet
+   */
+  async retryCallbacks(): Promise<void> {
+    if (!this.signer) {
+      return;
+    }
+    for (const record of await this.repository.findPendingCallbacks(this.options.callbackMaxAttempts)) {
+      if (record.callbackUrl || this.messenger) {
+        await this.deliverCallback(record);
+      }
+    }
+  }
+
+  /**
+   * Apply a callback received from a destination network to the local record (source side)
+   * Throws if the callback is not signed by one of the trusted destination signers
+   */
+  async receiveCallback(callback: INCCallback, trustedSigners: string[]): Promise<INCCallRecord | null> {
+    if (!verifyINCCallback(callback, trustedSigners)) {
+      throw new Error(`Invalid INC callback signature for ${callback.incId}`);
+    }
+
+    const record = await this.repository.findById(callback.incId);
+    if (!record) {
+      return null;
+    }
+
+    if (callback.status === 'refunded' && record.status !== 'failed' && record.status !== 'refunded') {
+      const failed = await this.transition(record, 'failed', { failure: callback.failure }, false);
+      return failed && this.transition(failed, 'refunded', { refundTxHash: callback.refundTxHash }, false);
+    }
+    return this.transition(
+      record,
+      callback.status,
+      { receipt: callback.receipt, failure: callback.failure, refundTxHash: callback.refundTxHash },
+      false
+    );
+  }
+
+  /**
+   * Reserve the call's budget, submit the destination task and mark the call dispatched
+   */
+  private async submit(record: INCCallRecord, destinationManifest: NetworkManifest): Promise<INCCallRecord> {
+    // A reserved budget means the call was verified before a restart
+    if (!record.budget) {
+      const rejection = await this.verifyConsensus(record.call);
+      if (rejection) {
+        return this.fail(record, 'invalid_signature', rejection);
+      }
+      record = await this.reserveBudget(record, destinationManifest);
+      if (record.status === 'failed') {
+        return record;
+      }
+    }
+    const inc = record.call;
+
     try {
-      // Step 1: Submit task using TaskService
-      // Use INC ID as task ID for tracking
-      const taskId = inc.incId;
-      
-      // For INC, the source network acts as the depositor
-      // The deposit amount comes from the INC budget
-      const depositAmount = inc.maxBudget;
-      
-      // Submit task directly via TaskService
-      const taskState = await this.taskService.submitTask(
-        taskId,
+      // Task ID = INC ID; the source network is the depositor and the task price the deposit
+      await this.taskService.submitTask(
+        inc.incId,
         inc.destinationNetworkId,
         inc.taskPayload,
-        inc.sourceNetworkId, // Source network is the depositor
-        depositAmount,
+        inc.sourceNetworkId,
+        record.price!,
         destinationManifest
       );
+    } catch (error) {
+      this.logger.error('INC task submission failed', { incId: inc.incId, error });
+      return this.fail(record, 'network_rejected', error instanceof Error ? error.message : 'Unknown error');
+    }
 
-      this.logger.info('INC task submitted', { 
-        incId: inc.incId, 
-        taskId,
-        destination: inc.destinationNetworkId 
-      });
+    const deadline = new Date(Date.now() + destinationManifest.taskFormat.timeout * 1000);
+    const dispatched = await this.transition(record, 'dispatched', { deadline });
 
-      // Step 2: Wait for task completion
-      // Poll TaskService for task status
-      const maxWaitTime = destinationManifest.taskFormat.timeout * 1000; // Convert to ms
-      const pollInterval = 2000; // Poll every 2 seconds
-      const startTime = Date.now();
-
-      let finalTaskState = null;
-      while (Date.now() - startTime < maxWaitTime) {
-        finalTaskState = await this.taskService.getTaskState(taskId);
-        
-        if (!finalTaskState) {
-          await new Promise(resolve => setTimeout(resolve, pollInterval));
-          continue;
-        }
+    this.logger.info('INC dispatched', {
+      incId: inc.incId,
+      destination: inc.destinationNetworkId,
+      deadline: deadline.toISOString(),
+    });
 
-        // Check if task is complete
-        if (
-          finalTaskState.status === 'consensus-reached' ||
-          finalTaskState.status === 'paid' ||
-          finalTaskState.status === 'user-rejected'
-        ) {
-          break;
-        }
+    // The task may already have settled (the hook then found the call still pending)
+    return dispatched || (await this.repository.findById(record.incId)) || record;
+  }
 
-        // Check if task failed
-        if (finalTaskState.status === 'failed' || finalTaskState.consensusReached === false) {
-          return {
-            incId: inc.incId,
-            sourceNetworkId: inc.sourceNetworkId,
-            destinationNetworkId: inc.destinationNetworkId,
-            reason: 'network_rejected',
-            message: 'Task processing failed or consensus not reached',
-            timestamp: Date.now(),
-          };
-        }
+  /**
+   * Settle from a loaded task state if its status settles the call
+   */
+  private async settleFromState(record: INCCallRecord, state: TaskState): Promise<INCCallRecord | null> {
+    return SETTLING_STATUSES[state.status] ? this.settle(record, state.status, state) : null;
+  }
+
+  private async settle(record: INCCallRecord, taskStatus: TaskStatus, state?: TaskState): Promise<INCCallRecord | null> {
+    const settlement = SETTLING_STATUSES[taskStatus]!;
+    if (settlement.status === 'failed') {
+      return this.fail(
+        record,
+        settlement.reason!,
+        settlement.reason === 'timeout' ? 'Destination task timed out' : `Destination task status: ${taskStatus}`
+      );
+    }
+
+    const finalState = state || await this.taskService.getTaskState(record.incId);
+    if (!finalState) {
+      return this.fail(record, 'network_rejected', 'Destination task not found');
+    }
+
+    const manifest = await this.loadManifest(record.destinationNetworkId);
+    const disputeWindow = manifest?.validatorConfig?.disputeWindow || 3600;
+    return this.transition(record, 'completed', { receipt: this.buildReceipt(record, finalState, disputeWindow) });
+  }
+
+  private async fail(record: INCCallRecord, reason: INCCallFailure['reason'], message: string): Promise<INCCallRecord> {
+    const failure: INCCallFailure = {
+      incId: record.incId,
+      sourceNetworkId: record.sourceNetworkId,
+      destinationNetworkId: record.destinationNetworkId,
+      reason,
+      message,
+      timestamp: Date.now(),
+    };
+    return (await this.transition(record, 'failed', { failure })) || record;
+  }
+
+  /**
+   * Persist a status change and, once settled, send the callback
+   * Returns null (and changes nothing) if the change is not in INC_CALL_TRANSITIONS,
+   * so duplicate notifications are harmless
+   */
+  private async transition(
+    record: INCCallRecord,
+    to: INCCallStatus,
+    data: Partial<INCCallRecord>,
+    notify: boolean = true
+  ): Promise<INCCallRecord | null> {
+    const current = (await this.repository.findById(record.incId)) || record;
+    if (!INC_CALL_TRANSITIONS[current.status].includes(to)) {
+      this.logger.debug('Ignoring INC status change', { incId: record.incId, from: current.status, to });
+      return null;
+    }
 
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+    const updated = await this.repository.update(record.incId, { ...data, status: to });
+
+    this.logger.info('INC status changed', {
+      incId: record.incId,
+      from: current.status,
+      to,
+      reason: updated.failure?.reason,
+    });
+
+    if ((to === 'completed' || to === 'failed') && updated.budget) {
+      await this.releaseBudget(updated);
+    }
+
+    if (to === 'dispatched') {
+      return updated;
+    }
+    if (notify) {
+      await this.deliverCallback(updated);
+    }
+    await this.notifySettled(updated);
+    return (await this.repository.findById(record.incId)) || updated;
+  }
+
+  /**
+   * Run settlement listeners; failures are logged and never undo the settlement
+   */
+  private async notifySettled(record: INCCallRecord): Promise<void> {
+    for (const listener of this.settlementListeners) {
+      try {
+        await listener(record);
+      } catch (error) {
+        this.logger.error('INC settlement listener failed', {
+          incId: record.incId,
+          status: record.status,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    }
+  }
 
-      // Step 3: Check if task completed successfully
-      if (!finalTaskState) {
-        return {
-          incId: inc.incId,
-          sourceNetworkId: inc.sourceNetworkId,
-          destinationNetworkId: inc.destinationNetworkId,
-          reason: 'timeout',
-          message: 'Task processing timed out',
-          timestamp: Date.now(),
-        };
+  /**
+   * Check the call's consensus proof against the source network's validator set
+   * Returns why it was rejected, or null if it is valid
+   * Without a verifier every call is rejected, unless allowUnverifiedConsensus is set
+   */
+  private async verifyConsensus(inc: InterNetworkCall): Promise<string | null> {
+    if (!this.consensusVerifier) {
+      if (!this.options.allowUnverifiedConsensus) {
+        return 'No INC consensus verifier configured, so the consensus proof cannot be checked';
       }
+      this.logger.warn('No INC consensus verifier configured, accepting call unverified', { incId: inc.incId });
+      return null;
+    }
+
+    const sourceManifest = await this.loadManifest(inc.sourceNetworkId);
+    if (!sourceManifest) {
+      return `Source network manifest not found: ${inc.sourceNetworkId}`;
+    }
+
+    const verification = await this.consensusVerifier.verify(inc, sourceManifest);
+    return verification.valid ? null : verification.errors.join('; ');
+  }
+
+  /**
+   * Allocate the destination task price from the call's budget and, for a nested call,
+   * reserve that budget from the parent call. Returns the failed record if it does not fit,
+   * or if the parent is not recorded on this node and its budget therefore cannot be checked.
+   */
+  private async reserveBudget(record: INCCallRecord, destinationManifest: NetworkManifest): Promise<INCCallRecord> {
+    const inc = record.call;
+    const maxBudget = BigInt(inc.maxBudget);
+    const price = this.taskPrice(inc, destinationManifest);
+    if (price > maxBudget) {
+      return this.fail(record, 'budget_exceeded', `Destination task price ${price} exceeds budget ${inc.maxBudget}`);
+    }
 
-      if (finalTaskState.status !== 'consensus-reached' && finalTaskState.status !== 'paid') {
+    const rejection = await this.withBudgetLock(async (): Promise<Pick<INCCallFailure, 'reason' | 'message'> | null> => {
+      const parent = inc.parentIncId ? await this.repository.findById(inc.parentIncId) : null;
+      if (parent) {
+        if (parent.status !== 'pending' && parent.status !== 'dispatched') {
+          return { reason: 'budget_exceeded', message: `Parent call ${parent.incId} is already ${parent.status}` };
+        }
+        if (parent.destinationNetworkId !== inc.sourceNetworkId) {
+          return { reason: 'network_rejected', message: `Parent call ${parent.incId} was not made to ${inc.sourceNetworkId}` };
+        }
+        if (!parent.budget) {
+          return { reason: 'budget_exceeded', message: `Parent call ${parent.incId} has no reserved budget yet` };
+        }
+        if (BigInt(parent.budget.remaining) < maxBudget) {
+          return {
+            reason: 'budget_exceeded',
+            message: `Budget ${inc.maxBudget} exceeds ${parent.budget.remaining} remaining on parent call ${parent.incId}`,
+          };
+        }
+        await this.repository.update(parent.incId, {
+          budget: this.withAllocated(parent.budget, BigInt(parent.budget.allocated) + maxBudget),
+        });
+      } else if (inc.parentIncId) {
         return {
-          incId: inc.incId,
-          sourceNetworkId: inc.sourceNetworkId,
-          destinationNetworkId: inc.destinationNetworkId,
-          reason: 'network_rejected',
-          message: `Task status: ${finalTaskState.status}`,
-          timestamp: Date.now(),
+          reason: 'budget_exceeded',
+          message: `Parent call ${inc.parentIncId} is not recorded on this node, so its budget cannot be checked`,
         };
       }
 
-      // Step 4: Extract result from winning output
-      // Find the winning output from evaluations
-      let winningOutput = null;
-      if (finalTaskState.outputs && finalTaskState.outputs.length > 0) {
-        // Get the output with highest consensus
-        const outputsWithScores = finalTaskState.outputs.map(output => {
-          const evaluations = finalTaskState.evaluations?.filter(
-            e => e.outputId === output.outputId
-          ) || [];
-          const avgScore = evaluations.length > 0
-            ? evaluations.reduce((sum, e) => sum + e.score, 0) / evaluations.length
-            : 0;
-          return { output, avgScore, evaluationCount: evaluations.length };
-        });
+      await this.repository.update(inc.incId, {
+        price: price.toString(),
+        budget: {
+          maxBudget: inc.maxBudget,
+          allocated: price.toString(),
+          remaining: (maxBudget - price).toString(),
+          currency: destinationManifest.inc?.pricing.currency || 'native',
+        },
+      });
+      return null;
+    });
 
-        // Sort by score and evaluation count
-        outputsWithScores.sort((a, b) => {
-          if (b.evaluationCount !== a.evaluationCount) {
-            return b.evaluationCount - a.evaluationCount;
-          }
-          return b.avgScore - a.avgScore;
+    if (rejection) {
+      return this.fail(record, rejection.reason, rejection.message);
+    }
+    return (await this.repository.findById(inc.incId)) || record;
+  }
+
+  /**
+   * Return a settled call's unspent budget to its parent call
+   * Completed calls keep their price; failed calls release it too, as the deposit is refunded.
+   * Budget reserved by nested calls stays allocated until they settle, and a release that reaches
+   * an already settled parent continues up the chain.
+   */
+  private async releaseBudget(record: INCCallRecord): Promise<void> {
+    await this.withBudgetLock(async () => {
+      // Re-read under the lock so releases from nested calls that settled first are included
+      const current = (await this.repository.findById(record.incId)) || record;
+      let unspent = BigInt(current.budget!.remaining);
+      if (current.status === 'failed') {
+        unspent += BigInt(current.price || '0');
+      }
+
+      let parentIncId = current.call.parentIncId;
+      while (parentIncId && unspent > 0n) {
+        const parent = await this.repository.findById(parentIncId);
+        if (!parent?.budget) {
+          return;
+        }
+        await this.repository.update(parentIncId, {
+          budget: this.withAllocated(parent.budget, BigInt(parent.budget.allocated) - unspent),
         });
+        this.logger.debug('INC budget released', { incId: current.incId, parentIncId, amount: unspent.toString() });
 
-        winningOutput = outputsWithScores[0]?.output;
+        if (parent.status === 'pending' || parent.status === 'dispatched') {
+          return;
+        }
+        parentIncId = parent.call.parentIncId;
       }
+    });
+  }
 
-      // Step 5: Create receipt
-      const receipt = {
-        taskId,
-        networkId: inc.destinationNetworkId,
-        result: winningOutput?.output || {},
-        consensusReached: finalTaskState.consensusReached,
-        validators: finalTaskState.evaluations?.map(e => e.validatorAddress) || [],
-        timestamp: Date.now(),
-      };
+  /**
+   * Destination task deposit: the advertised price for per-task and fixed pricing,
+   * the whole budget for per-token pricing (usage is not known upfront) or unpriced networks
+   */
+  private taskPrice(inc: InterNetworkCall, destinationManifest: NetworkManifest): bigint {
+    const pricing = destinationManifest.inc?.pricing;
+    if (!pricing || pricing.model === 'per_token') {
+      return BigInt(inc.maxBudget);
+    }
+    return BigInt(pricing.basePrice);
+  }
 
-      // Step 6: Return INC receipt
-      // Create proper SettlementReceipt
-      const settlementReceipt: SettlementReceipt = {
-        taskId: finalTaskState.taskId,
-        networkId: inc.destinationNetworkId,
-        amount: inc.maxBudget,
-        recipient: winningOutput?.minerAddress || '',
-        validatorSignatures: finalTaskState.evaluations?.map(e => ({
-          validatorAddress: e.validatorAddress,
-          taskId: finalTaskState.taskId,
-          accepted: e.score >= 50,
-          score: e.score,
-          signature: e.signature,
-          timestamp: e.timestamp,
-        })) || [],
-        timestamp: Date.now(),
-        disputeWindowEnd: Date.now() + (destinationManifest.validatorConfig?.disputeWindow || 3600) * 1000,
-      };
+  private withAllocated(budget: INCCallBudget, allocated: bigint): INCCallBudget {
+    return {
+      ...budget,
+      allocated: allocated.toString(),
+      remaining: (BigInt(budget.maxBudget) - allocated).toString(),
+    };
+  }
 
-      return {
-        incId: inc.incId,
-        destinationNetworkId: inc.destinationNetworkId,
-        result: winningOutput?.output || {},
-        receipt: settlementReceipt,
-        timestamp: Date.now(),
-        success: true,
-      };
+  private withBudgetLock<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.budgetLock.then(fn);
+    this.budgetLock = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Sign the callback and push it to the webhook and/or messenger
+   * Returns whether it was delivered; failures are counted and retried by retryCallbacks()
+   */
+  private async deliverCallback(record: INCCallRecord): Promise<boolean> {
+    if (!this.signer || (!record.callbackUrl && !this.messenger)) {
+      return false;
+    }
+
+    const callbackAttempts = record.callbackAttempts + 1;
+    try {
+      const callback = await this.buildCallback(record);
+
+      if (record.callbackUrl) {
+        const response = await fetch(record.callbackUrl, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify(callback),
+          signal: AbortSignal.timeout(this.options.callbackTimeoutMs),
+        });
+        if (!response.ok) {
+          throw new Error(`Callback endpoint returned ${response.status}`);
+        }
+      }
+      if (this.messenger) {
+        await this.messenger.sendINCCallback(callback);
+      }
+
+      await this.repository.update(record.incId, { callbackAttempts, callbackDeliveredAt: new Date() });
+      this.logger.info('INC callback delivered', { incId: record.incId, status: record.status });
+      return true;
     } catch (error) {
-      this.logger.error('INC processing failed', { incId: inc.incId, error });
+      await this.repository.update(record.incId, { callbackAttempts });
+      this.logger.warn('INC callback delivery failed', {
+        incId: record.incId,
+        attempts: callbackAttempts,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Signed callback for a settled call: EIP-712 in the destination's settlement chain domain
+   * when the signer supports it, otherwise EIP-191 over the canonical JSON of the callback
+   */
+  private async buildCallback(record: INCCallRecord): Promise<INCCallback> {
+    const signer = this.signer!;
+    const unsigned = {
+      incId: record.incId,
+      sourceNetworkId: record.sourceNetworkId,
+      destinationNetworkId: record.destinationNetworkId,
+      status: record.status as INCCallback['status'],
+      receipt: record.receipt,
+      failure: record.failure,
+      refundTxHash: record.refundTxHash,
+      timestamp: Date.now(),
+    };
+    const signerAddress = await signer.getAddress();
+
+    const manifest = await this.loadManifest(record.destinationNetworkId);
+    const domain = manifest ? getManifestSigningDomain(manifest) : null;
+    if (domain && signer.signTypedData) {
+      const typedData = buildINCCallbackTypedData(domain, unsigned);
       return {
-        incId: inc.incId,
-        sourceNetworkId: inc.sourceNetworkId,
-        destinationNetworkId: inc.destinationNetworkId,
-        reason: 'network_rejected',
-        message: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now(),
+        ...unsigned,
+        signer: signerAddress,
+        scheme: 'eip712',
+        chainId: Number(domain.chainId),
+        signature: await signer.signTypedData(typedData.domain, typedData.types, typedData.message),
       };
     }
+
+    return {
+      ...unsigned,
+      signer: signerAddress,
+      scheme: 'eip191',
+      signature: await signer.signMessage(canonicalize(unsigned)),
+    };
+  }
+
+  /**
+   * Receipt for a completed destination task
+   */
+  private buildReceipt(record: INCCallRecord, finalState: TaskState, disputeWindowSeconds: number): INCCallReceipt {
+    const inc = record.call;
+    // Winning output: the one consensus picked, else the most evaluated / best scored
+    let winningOutput = finalState.outputs?.find(output => output.outputId === finalState.winningOutputId);
+    if (!winningOutput && finalState.outputs && finalState.outputs.length > 0) {
+      const outputsWithScores = finalState.outputs.map(output => {
+        const evaluations = finalState.evaluations?.filter(
+          e => e.outputId === output.outputId
+        ) || [];
+        const avgScore = evaluations.length > 0
+          ? evaluations.reduce((sum, e) => sum + e.score, 0) / evaluations.length
+          : 0;
+        return { output, avgScore, evaluationCount: evaluations.length };
+      });
+
+      // Sort by score and evaluation count
+      outputsWithScores.sort((a, b) => {
+        if (b.evaluationCount !== a.evaluationCount) {
+          return b.evaluationCount - a.evaluationCount;
+        }
+        return b.avgScore - a.avgScore;
+      });
+
+      winningOutput = outputsWithScores[0]?.output;
+    }
+
+    const settlementReceipt: SettlementReceipt = {
+      taskId: finalState.taskId,
+      networkId: inc.destinationNetworkId,
+      amount: record.price || inc.maxBudget,
+      recipient: winningOutput?.minerAddress || '',
+      validatorSignatures: finalState.evaluations?.map(e => ({
+        validatorAddress: e.validatorAddress,
+        taskId: finalState.taskId,
+        accepted: e.score >= 50,
+        score: e.score,
+        signature: e.signature,
+        timestamp: e.timestamp,
+      })) || [],
+      timestamp: Date.now(),
+      disputeWindowEnd: Date.now() + disputeWindowSeconds * 1000,
+    };
+
+    return {
+      incId: inc.incId,
+      destinationNetworkId: inc.destinationNetworkId,
+      result: winningOutput?.output || {},
+      receipt: settlementReceipt,
+      timestamp: Date.now(),
+      success: true,
+    };
+  }
+
+  /**
+   * Load a network manifest via its stored CID
+   */
+  private async loadManifest(networkId: string): Promise<NetworkManifest | null> {
+    try {
+      const network = await this.networkRepo.findById(networkId);
+      if (!network || !network.manifestCid) {
+        this.logger.warn('Network manifest not found for INC', { networkId });
+        return null;
+      }
+      return (await this.storage.download(network.manifestCid)) as NetworkManifest;
+    } catch (error) {
+      this.logger.error('Failed to load manifest for INC', { networkId, error });
+      return null;
+    }
   }
 
   /**
@@ -387,71 +1019,6 @@ export class INCCallService {
     return `${inc.sourceNetworkId}:${inc.incId}:${inc.destinationNetworkId}:${validatorAddresses}`;
   }
 
-  /**
-   * Combine validator signatures into aggregated signature
-   * FULLY IMPLEMENTED: Uses actual signature aggregation, not just hashing
-   * 
-   * Verifies all signatures cryptographically, then aggregates them
-   */
-  private combineSignatures(
-    networkId: string,
-    incId: string,
-    destinationNetworkId: string,
-    callChain: string[],
-    signatures: Array<{ validator: string; signature: string }>
-  ): string {
-    // Construct the message that validators should sign
-    const validatorAddresses = signatures.map(s => s.validator).sort();
-    const message = `${networkId}:${incId}:${destinationNetworkId}:${validatorAddresses.join(',')}`;
-    
-    // CRITICAL: Verify all signatures before aggregating
-    this.logger.info('Verifying all validator signatures before aggregation', {
-      networkId,
-      incId,
-      signatureCount: signatures.length,
-    });
-
-    const verification = this.signatureVerificationService.verifyMultipleSignatures(
-      signatures.map((sig) => ({
-        validatorAddress: sig.validator,
-        signature: sig.signature,
-        message,
-      }))
-    );
-
-    if (!verification.allValid) {
-      const invalidValidators = verification.results
-        .filter((r) => !r.valid)
-        .map((r) => r.validatorAddress);
-      throw new Error(
-        `Cannot aggregate signatures: ${verification.invalidCount} of ${signatures.length} signatures are invalid. Invalid validators: ${invalidValidators.join(', ')}`
-      );
-    }
-
-    // Aggregate signatures (returns aggregated signature with all r, s, v components)
-    const aggregated = this.signatureVerificationService.aggregateSignatures(
-      message,
-      signatures.map((sig) => ({
-        validatorAddress: sig.validator,
-        signature: sig.signature,
-      }))
-    );
-
-    if (!aggregated) {
-      throw new Error('Failed to aggregate signatures');
-    }
-
-    this.logger.info('Signatures aggregated successfully', {
-      networkId,
-      incId,
-      signatureCount: aggregated.signatures.length,
-      aggregatedHash: aggregated.aggregatedHash,
-    });
-
-    // Return aggregated hash (can be used to verify all signatures are present)
-    return aggregated.aggregatedHash;
-  }
-
   /**
    * Detect cycles in call chain
    */
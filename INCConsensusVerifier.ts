@@ -0,0 +1,229 @@
+/**
+ * INC Consensus Verifier
+ *
+ * Checks that an Inter-Network Call was approved by the source network's validators
+ *
+ * Source validators sign the call's EIP-712 InterNetworkCall typed data (canonical payload hash)
+ * in the source settlement chain domain. The proof is valid when at least
+ * ceil(M * consensusThreshold) distinct members of the source network's active validator set
+ * (ValidatorRegistry, M members) signed it, at the registry epoch the proof names.
+ *
+ * The validator set is fetched once per epoch, and verification results are cached per epoch;
+ * a new epoch (a validator joined or left) drops both.
+ */
+
+import { ethers } from 'ethers';
+import { ILogger } from './utils/ILogger';
+import { canonicalHash } from './utils/CanonicalJson';
+import { InterNetworkCall, INCConsensusProof, NetworkManifest } from './types';
+import type { OnChainValidatorService } from './OnChainValidatorService';
+import {
+  ProtocolTypedData,
+  buildInterNetworkCallTypedData,
+  getManifestSigningDomain,
+  hashProtocolTypedData,
+} from './ProtocolTypedData';
+
+export interface INCConsensusVerification {
+  valid: boolean;
+  errors: string[];
+  epoch?: number;
+  signers: string[];      // Validator set members whose signatures verified
+  required: number;       // Signatures needed (N)
+  setSize: number;        // Active validators (M)
+}
+
+export interface INCConsensusVerifierOptions {
+  maxCachedPerEpoch: number;    // Verification results kept per network and epoch
+}
+
+const DEFAULT_OPTIONS: INCConsensusVerifierOptions = {
+  maxCachedPerEpoch: 1000,
+};
+
+interface EpochCache {
+  epoch: number;
+  validators: Set<string>;     // Lowercased addresses
+  verifications: Map<string, INCConsensusVerification>;
+}
+
+/**
+ * What source validators sign for an INC (throws for sources without an EVM settlement chain)
+ */
+export function buildINCConsensusTypedData(inc: InterNetworkCall, sourceManifest: NetworkManifest): ProtocolTypedData {
+  const domain = getManifestSigningDomain(sourceManifest);
+  if (!domain) {
+    throw new Error(`INC consensus proofs need an EVM settlement chain, ${sourceManifest.networkId} settles on ${sourceManifest.settlement.chain}`);
+  }
+  return buildInterNetworkCallTypedData(domain, inc);
+}
+
+/**
+ * INC signature field for a proof: digest of the canonical proof
+ */
+export function getConsensusProofDigest(proof: INCConsensusProof): string {
+  return `0x${canonicalHash(proof)}`;
+}
+
+/**
+ * Manifest consensusThreshold (a fraction of the validator set, e.g. 0.67)
+ * Throws for values outside (0, 1] rather than guessing another unit
+ */
+export function getConsensusFraction(consensusThreshold: number): number {
+  if (!Number.isFinite(consensusThreshold) || consensusThreshold <= 0 || consensusThreshold > 1) {
+    throw new Error(`Consensus threshold must be a fraction in (0, 1], got ${consensusThreshold}`);
+  }
+  return consensusThreshold;
+}
+
+export class INCConsensusVerifier {
+  private logger: ILogger;
+  private validatorSets: Pick<OnChainValidatorService, 'getValidatorSetEpoch' | 'getValidatorSet'>;
+  private options: INCConsensusVerifierOptions;
+  private cache: Map<string, EpochCache> = new Map(); // Source network ID -> current epoch
+
+  constructor(
+    logger: ILogger,
+    validatorSets: Pick<OnChainValidatorService, 'getValidatorSetEpoch' | 'getValidatorSet'>,
+    options: Partial<INCConsensusVerifierOptions> = {}
+  ) {
+    this.logger = logger;
+    this.validatorSets = validatorSets;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Verify an INC's consensus proof against the source network's current validator set
+   */
+  async verify(inc: InterNetworkCall, sourceManifest: NetworkManifest): Promise<INCConsensusVerification> {
+    const rejected = (errors: string[], epoch?: number): INCConsensusVerification =>
+      ({ valid: false, errors, epoch, signers: [], required: 0, setSize: 0 });
+
+    const proof = inc.consensusProof;
+    if (!proof || proof.signatures.length === 0) {
+      return rejected(['Missing consensus proof']);
+    }
+    if (inc.signature !== getConsensusProofDigest(proof)) {
+      return rejected(['INC signature does not match its consensus proof']);
+    }
+    if (sourceManifest.networkId !== inc.sourceNetworkId) {
+      return rejected([`Manifest ${sourceManifest.networkId} is not the source network ${inc.sourceNetworkId}`]);
+    }
+
+    let typedData: ProtocolTypedData;
+    let entry: EpochCache;
+    let threshold: number;
+    try {
+      threshold = getConsensusFraction(sourceManifest.validatorConfig.consensusThreshold);
+      typedData = buildINCConsensusTypedData(inc, sourceManifest);
+      entry = await this.getEpoch(sourceManifest);
+    } catch (error) {
+      return rejected([error instanceof Error ? error.message : String(error)]);
+    }
+
+    // Only the current set can be fetched, so proofs from an earlier epoch must be re-signed
+    if (proof.validatorSetEpoch !== entry.epoch) {
+      return rejected([`Proof is for validator set epoch ${proof.validatorSetEpoch}, current epoch is ${entry.epoch}`], entry.epoch);
+    }
+
+    const key = `${hashProtocolTypedData(typedData)}:${inc.signature}`;
+    const cached = entry.verifications.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const verification = this.check(typedData, proof, entry, threshold);
+    if (entry.verifications.size >= this.options.maxCachedPerEpoch) {
+      // Maps iterate in insertion order: drop the oldest
+      entry.verifications.delete(entry.verifications.keys().next().value!);
+    }
+    entry.verifications.set(key, verification);
+
+    if (!verification.valid) {
+      this.logger.warn('INC consensus proof rejected', { incId: inc.incId, errors: verification.errors });
+    }
+    return verification;
+  }
+
+  /**
+   * Count distinct validator set members among the proof's signatures
+   */
+  private check(
+    typedData: ProtocolTypedData,
+    proof: INCConsensusProof,
+    entry: EpochCache,
+    threshold: number
+  ): INCConsensusVerification {
+    const errors: string[] = [];
+    const signers = new Set<string>();
+
+    for (const { validatorAddress, signature } of proof.signatures) {
+      const address = validatorAddress.toLowerCase();
+      if (!entry.validators.has(address)) {
+        errors.push(`${validatorAddress} is not in the source validator set`);
+        continue;
+      }
+      if (signers.has(address)) {
+        errors.push(`Duplicate signature from ${validatorAddress}`);
+        continue;
+      }
+
+      try {
+        const recovered = ethers.verifyTypedData(typedData.domain, typedData.types, typedData.message, signature);
+        if (recovered.toLowerCase() !== address) {
+          errors.push(`Signature does not match validator ${validatorAddress}`);
+          continue;
+        }
+      } catch (error) {
+        errors.push(`Invalid signature from ${validatorAddress}`);
+        continue;
+      }
+      signers.add(address);
+    }
+
+    const setSize = entry.validators.size;
+    const required = Math.max(1, Math.ceil(setSize * threshold));
+    const valid = setSize > 0 && signers.size >= required;
+    if (!valid) {
+      errors.unshift(`Consensus not reached: ${signers.size} of ${setSize} validators signed, ${required} required`);
+    }
+
+    return {
+      valid,
+      // Signatures beyond the threshold may be bad without invalidating the proof
+      errors: valid ? [] : errors,
+      epoch: entry.epoch,
+      signers: Array.from(signers),
+      required,
+      setSize,
+    };
+  }
+
+  /**
+   * Current epoch of the source validator set, fetching the set when the epoch changed
+   */
+  private async getEpoch(sourceManifest: NetworkManifest): Promise<EpochCache> {
+    const networkId = sourceManifest.networkId;
+    const epoch = await this.validatorSets.getValidatorSetEpoch(sourceManifest);
+
+    const cached = this.cache.get(networkId);
+    if (cached && cached.epoch === epoch) {
+      return cached;
+    }
+
+    const validatorSet = await this.validatorSets.getValidatorSet(sourceManifest);
+    const entry: EpochCache = {
+      epoch: validatorSet.epoch,
+      validators: new Set(validatorSet.validators.map(address => address.toLowerCase())),
+      verifications: new Map(),
+    };
+    this.cache.set(networkId, entry);
+
+    this.logger.info('Source validator set loaded for INC verification', {
+      networkId,
+      epoch: entry.epoch,
+      validatorCount: entry.validators.size,
+    });
+    return entry;
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * INC Router Service
+ *
+ * Routes inter-network calls by capability instead of destination network ID
+ *
+ * Candidates come from registry indexes (DecentralizedRegistryService.discoverNetworks) and
+ * P2P network announcements. Each candidate's manifest must pass registry verification
+ * (DecentralizedRegistryService.verifyManifest), offer the capability and meet the route
+ * constraints (price, graduation level, ScamDefenseService risk score, settlement mode).
+ * The graduation level is a protocol-managed field outside the creator's signature, so it is
+ * read from the graduation record (GraduationLevelSource), never from the downloaded manifest.
+ * Candidates are ranked by graduation level, then risk score, then price, then index rating.
+ *
+ * The best candidate is dispatched through INCCallService. If it rejects the call or the call
+ * times out, the router fails over to the next candidate. Routes are kept in memory; the calls
+ * themselves are persisted by INCCallService.
+ */
+
+import { randomUUID } from 'crypto';
+import { ILogger } from './utils/ILogger';
+import { GraduationLevel, INCCallFailure, InterNetworkCall, NetworkManifest, SettlementMode } from './types';
+import type { INCCallService } from './INCCallService';
+import type { DecentralizedRegistryService } from './DecentralizedRegistryService';
+import type { P2PCoordinationService } from './P2PCoordinationService';
+import type { ScamDefenseService } from './ScamDefenseService';
+import { INCCallRecord, INCCallStatus } from './interfaces/IINCCallRepository';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+
+const GRADUATION_RANK: Record<GraduationLevel, number> = {
+  sandbox: 0,
+  active: 1,
+  trusted: 2,
+  open_economic: 3,
+};
+
+// Failures worth retrying on another network
+const FAILOVER_REASONS: readonly INCCallFailure['reason'][] = ['network_rejected', 'timeout'];
+
+export interface INCRouteConstraints {
+  maxPrice?: string;                        // Highest inc.pricing.basePrice accepted
+  minGraduationLevel?: GraduationLevel;
+  maxRiskScore?: number;                    // ScamDefenseService risk score (0-100)
+  settlementModes?: SettlementMode[];       // Accepted destination settlement modes
+  excludeNetworks?: string[];
+}
+
+export interface INCRouteRequest {
+  capability: string;
+  sourceNetworkId: string;
+  maxBudget: string;
+  constraints?: INCRouteConstraints;
+  callbackUrl?: string;
+  /**
+   * Build the signed call for a candidate destination
+   * (source validators sign each destination separately, so this runs once per attempt)
+   */
+  prepareCall(destinationNetworkId: string, destinationManifest: NetworkManifest): Promise<InterNetworkCall>;
+}
+
+export interface INCRouteCandidate {
+  networkId: string;
+  manifest: NetworkManifest;
+  price: string;
+  graduationLevel: GraduationLevel;
+  riskScore: number;
+  rating?: number;                          // Average registry index rating
+  sources: Array<'registry' | 'p2p'>;
+}
+
+export interface INCRouteAttempt {
+  networkId: string;
+  incId?: string;                           // Unset if the call could not be prepared
+  status: INCCallStatus;
+  failureReason?: INCCallFailure['reason'];
+  error?: string;
+}
+
+export interface INCRoute {
+  routeId: string;
+  capability: string;
+  sourceNetworkId: string;
+  status: 'dispatched' | 'completed' | 'failed';
+  candidates: string[];                     // Ranked destination network IDs
+  attempts: INCRouteAttempt[];
+  incId?: string;                           // Latest dispatched call
+}
+
+/**
+ * Recorded graduation level of a network (e.g. ProtocolServiceRefactored.getGraduationLevel)
+ * Returns null for networks without a record, which are routed as sandbox networks
+ */
+export interface GraduationLevelSource {
+  getGraduationLevel(networkId: string): Promise<GraduationLevel | null>;
+}
+
+export interface INCRouterDependencies {
+  incCallService: Pick<INCCallService, 'dispatchINC' | 'onSettled'>;
+  registry: Pick<DecentralizedRegistryService, 'discoverNetworks' | 'verifyManifest'>;
+  graduation: GraduationLevelSource;
+  p2p?: Pick<P2PCoordinationService, 'discoverAnnouncedNetworks'>;
+  storage: Pick<IStorageProvider, 'download'>;  // Manifest storage (manifestCid -> NetworkManifest)
+  riskScorer: Pick<ScamDefenseService, 'getRiskScore'>;
+}
+
+export interface INCRouterOptions {
+  maxAttempts: number;                      // Candidates tried per route
+}
+
+const DEFAULT_OPTIONS: INCRouterOptions = {
+  maxAttempts: 3,
+};
+
+interface RouteState {
+  route: INCRoute;
+  request: INCRouteRequest;
+  candidates: INCRouteCandidate[];
+  next: number;
+}
+
+export class INCRouterService {
+  private logger: ILogger;
+  private incCallService: Pick<INCCallService, 'dispatchINC' | 'onSettled'>;
+  private registry: Pick<DecentralizedRegistryService, 'discoverNetworks' | 'verifyManifest'>;
+  private graduation: GraduationLevelSource;
+  private p2p?: Pick<P2PCoordinationService, 'discoverAnnouncedNetworks'>;
+  private storage: Pick<IStorageProvider, 'download'>;
+  private riskScorer: Pick<ScamDefenseService, 'getRiskScore'>;
+  private options: INCRouterOptions;
+
+  private routes: Map<string, RouteState> = new Map();
+  private routeByInc: Map<string, string> = new Map(); // In-flight INC ID -> route ID
+  private removeListener: (() => void) | null = null;
+
+  constructor(
+    logger: ILogger,
+    dependencies: INCRouterDependencies,
+    options: Partial<INCRouterOptions> = {}
+  ) {
+    this.logger = logger;
+    this.incCallService = dependencies.incCallService;
+    this.registry = dependencies.registry;
+    this.graduation = dependencies.graduation;
+    this.p2p = dependencies.p2p;
+    this.storage = dependencies.storage;
+    this.riskScorer = dependencies.riskScorer;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Watch call settlements to fail over timed-out calls
+   */
+  start(): void {
+    if (this.removeListener) {
+      return;
+    }
+    this.removeListener = this.incCallService.onSettled(async (record) => {
+      await this.handleSettled(record);
+    });
+  }
+
+  stop(): void {
+    this.removeListener?.();
+    this.removeListener = null;
+  }
+
+  /**
+   * Discover and rank networks offering a capability within the constraints
+   */
+  async findCandidates(
+    capability: string,
+    sourceNetworkId: string,
+    maxBudget: string,
+    constraints: INCRouteConstraints = {}
+  ): Promise<INCRouteCandidate[]> {
+    const discovered = new Map<string, { manifestCid: string; rating?: number; sources: Array<'registry' | 'p2p'> }>();
+
+    try {
+      for (const network of await this.registry.discoverNetworks()) {
+        discovered.set(network.networkId, { manifestCid: network.ipfsCid, rating: network.averageRating, sources: ['registry'] });
+      }
+    } catch (error) {
+      this.logger.warn('Registry discovery failed for INC routing', { capability, error });
+    }
+
+    if (this.p2p) {
+      try {
+        for (const announcement of await this.p2p.discoverAnnouncedNetworks(capability)) {
+          const known = discovered.get(announcement.networkId);
+          if (known) {
+            known.sources.push('p2p');
+          } else {
+            discovered.set(announcement.networkId, { manifestCid: announcement.manifestCid, sources: ['p2p'] });
+          }
+        }
+      } catch (error) {
+        this.logger.warn('P2P discovery failed for INC routing', { capability, error });
+      }
+    }
+
+    const budget = BigInt(maxBudget);
+    const maxPrice = constraints.maxPrice !== undefined ? BigInt(constraints.maxPrice) : undefined;
+    const candidates: INCRouteCandidate[] = [];
+
+    for (const [networkId, found] of discovered) {
+      if (networkId === sourceNetworkId || constraints.excludeNetworks?.includes(networkId)) {
+        continue;
+      }
+
+      let manifest: NetworkManifest;
+      try {
+        manifest = (await this.storage.download(found.manifestCid)) as NetworkManifest;
+      } catch (error) {
+        this.logger.debug('Skipping INC candidate, manifest unavailable', { networkId, manifestCid: found.manifestCid });
+        continue;
+      }
+
+      // Announcements and index entries are unsigned; only a verified manifest is trusted
+      const verification = this.registry.verifyManifest(manifest);
+      if (!verification.valid) {
+        this.logger.warn('Skipping INC candidate, manifest failed verification', {
+          networkId,
+          manifestCid: found.manifestCid,
+          errors: verification.errors,
+        });
+        continue;
+      }
+
+      const inc = manifest.inc;
+      if (manifest.networkId !== networkId || !inc?.supported || !inc.capabilities.includes(capability)) {
+        continue;
+      }
+      if (inc.requirements.allowedNetworks?.length && !inc.requirements.allowedNetworks.includes(sourceNetworkId)) {
+        continue;
+      }
+      if (constraints.settlementModes && !constraints.settlementModes.includes(manifest.settlement.mode)) {
+        continue;
+      }
+
+      const price = BigInt(inc.pricing.basePrice);
+      if (price > budget || BigInt(inc.requirements.minBudget) > budget || (maxPrice !== undefined && price > maxPrice)) {
+        continue;
+      }
+
+      let graduationLevel: GraduationLevel;
+      try {
+        graduationLevel = (await this.graduation.getGraduationLevel(networkId)) || 'sandbox';
+      } catch (error) {
+        this.logger.warn('Skipping INC candidate, graduation level unavailable', { networkId, error });
+        continue;
+      }
+      if (constraints.minGraduationLevel && GRADUATION_RANK[graduationLevel] < GRADUATION_RANK[constraints.minGraduationLevel]) {
+        continue;
+      }
+
+      let riskScore: number;
+      try {
+        riskScore = await this.riskScorer.getRiskScore(networkId);
+      } catch (error) {
+        this.logger.warn('Skipping INC candidate, risk score unavailable', { networkId, error });
+        continue;
+      }
+      if (constraints.maxRiskScore !== undefined && riskScore > constraints.maxRiskScore) {
+        continue;
+      }
+
+      candidates.push({
+        networkId,
+        manifest,
+        price: price.toString(),
+        graduationLevel,
+        riskScore,
+        rating: found.rating,
+        sources: found.sources,
+      });
+    }
+
+    return candidates.sort((a, b) =>
+      GRADUATION_RANK[b.graduationLevel] - GRADUATION_RANK[a.graduationLevel] ||
+      a.riskScore - b.riskScore ||
+      (BigInt(a.price) < BigInt(b.price) ? -1 : BigInt(a.price) > BigInt(b.price) ? 1 : 0) ||
+      (b.rating ?? 0) - (a.rating ?? 0) ||
+      a.networkId.localeCompare(b.networkId)
+    );
+  }
+
+  /**
+   * Dispatch a call to the best network offering the capability
+   * Returns once a candidate accepted the call (or all candidates failed); later failover
+   * needs start(). Throws if no network qualifies.
+   */
+  async route(request: INCRouteRequest): Promise<INCRoute> {
+    const candidates = await this.findCandidates(
+      request.capability,
+      request.sourceNetworkId,
+      request.maxBudget,
+      request.constraints
+    );
+    if (candidates.length === 0) {
+      throw new Error(`No network offers capability ${request.capability} within the route constraints`);
+    }
+
+    const state: RouteState = {
+      route: {
+        routeId: randomUUID(),
+        capability: request.capability,
+        sourceNetworkId: request.sourceNetworkId,
+        status: 'dispatched',
+        candidates: candidates.map(c => c.networkId),
+        attempts: [],
+      },
+      request,
+      candidates,
+      next: 0,
+    };
+    this.routes.set(state.route.routeId, state);
+
+    this.logger.info('Routing INC by capability', {
+      routeId: state.route.routeId,
+      capability: request.capability,
+      candidates: state.route.candidates,
+    });
+
+    await this.dispatchNext(state);
+    return this.snapshot(state.route);
+  }
+
+  /**
+   * Load a route
+   */
+  getRoute(routeId: string): INCRoute | null {
+    const state = this.routes.get(routeId);
+    return state ? this.snapshot(state.route) : null;
+  }
+
+  /**
+   * Track a settled call and fail over if it was rejected or timed out
+   */
+  async handleSettled(record: INCCallRecord): Promise<void> {
+    const routeId = this.routeByInc.get(record.incId);
+    const state = routeId ? this.routes.get(routeId) : undefined;
+    if (!state) {
+      return;
+    }
+
+    const attempt = state.route.attempts.find(a => a.incId === record.incId)!;
+    attempt.status = record.status;
+    attempt.failureReason = record.failure?.reason;
+    if (record.status === 'refunded') {
+      return;
+    }
+    this.routeByInc.delete(record.incId);
+
+    if (record.status === 'completed') {
+      state.route.status = 'completed';
+      this.logger.info('INC route completed', { routeId, incId: record.incId, networkId: attempt.networkId });
+    } else if (FAILOVER_REASONS.includes(record.failure!.reason)) {
+      await this.dispatchNext(state);
+    } else {
+      state.route.status = 'failed';
+    }
+  }
+
+  /**
+   * Try candidates in rank order until one accepts the call
+   */
+  private async dispatchNext(state: RouteState): Promise<void> {
+    const { route, request } = state;
+
+    while (state.next < state.candidates.length && route.attempts.length < this.options.maxAttempts) {
+      const candidate = state.candidates[state.next++];
+
+      let record: INCCallRecord;
+      try {
+        const inc = await request.prepareCall(candidate.networkId, candidate.manifest);
+        record = await this.incCallService.dispatchINC(inc, candidate.manifest, { callbackUrl: request.callbackUrl });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        route.attempts.push({ networkId: candidate.networkId, status: 'failed', error: message });
+        this.logger.warn('INC route candidate failed', { routeId: route.routeId, networkId: candidate.networkId, error: message });
+        continue;
+      }
+
+      route.attempts.push({
+        networkId: candidate.networkId,
+        incId: record.incId,
+        status: record.status,
+        failureReason: record.failure?.reason,
+      });
+      route.incId = record.incId;
+
+      if (record.status === 'pending' || record.status === 'dispatched') {
+        this.routeByInc.set(record.incId, route.routeId);
+        route.status = 'dispatched';
+        return;
+      }
+      if (record.status === 'completed') {
+        route.status = 'completed';
+        return;
+      }
+      if (!record.failure || !FAILOVER_REASONS.includes(record.failure.reason)) {
+        route.status = 'failed';
+        return;
+      }
+
+      this.logger.info('INC route failing over', {
+        routeId: route.routeId,
+        networkId: candidate.networkId,
+        reason: record.failure.reason,
+      });
+    }
+
+    route.status = 'failed';
+    this.logger.warn('INC route exhausted its candidates', { routeId: route.routeId, attempts: route.attempts.length });
+  }
+
+  private snapshot(route: INCRoute): INCRoute {
+    return {
+      ...route,
+      candidates: [...route.candidates],
+      attempts: route.attempts.map(attempt => ({ ...attempt })),
+    };
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * Manifest Revision Service
+ *
+ * Signed, versioned upgrades of a network manifest:
+ * - A revision is a full manifest whose `revision` links to the previous manifest's CID,
+ *   so every network has a verifiable chain back to its original (revision 0) manifest
+ * - The creator signs each revision (EIP-191, buildManifestRevisionMessage); the signature
+ *   covers every creator-controlled field, the activation point and the link
+ * - Which fields may change depends on the network's GraduationLevel at the time of the revision:
+ *   the more a network has graduated, the less its creator can change under its users
+ * - A revision takes effect at a declared block or time; until then the previous revision stays in force
+ *
+ * Protocol-managed fields (registry, settlement binding, graduation, vesting) are updated by the
+ * protocol itself, not by revisions, and are excluded from change detection so that re-uploads for a
+ * graduation or an asset binding keep the revision chain valid. A revision must carry them unchanged
+ * from the manifest it links to, and its signature covers the settlement chain and contract, which
+ * the protocol never changes after deployment, so a revision cannot move a network's escrow.
+ */
+
+import { ethers } from 'ethers';
+import { ILogger } from './utils/ILogger';
+import { canonicalize, canonicalHash } from './utils/CanonicalJson';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { NetworkManifest, GraduationLevel, ManifestRevision, ManifestRevisionActivation } from './types';
+
+/**
+ * Fields maintained by the protocol rather than by creator revisions
+ */
+export const PROTOCOL_MANAGED_FIELDS = [
+  'registry',
+  'settlement',
+  'graduation',         // Written by ProtocolServiceRefactored.markNetworkGraduated
+  'creatorTokenVesting',
+  'creatorSignature',
+  'revision',
+];
+
+/**
+ * Protocol-managed fields a revision must copy unchanged from the manifest it links to
+ */
+const INHERITED_MANAGED_FIELDS = PROTOCOL_MANAGED_FIELDS.filter(
+  field => field !== 'registry' && field !== 'creatorSignature' && field !== 'revision'
+);
+
+/**
+ * Top-level manifest fields a creator may revise at each graduation level
+ */
+export const DEFAULT_REVISABLE_FIELDS: Record<GraduationLevel, string[]> = {
+  sandbox: [
+    'version', 'name', 'description', 'category', 'moduleId', 'module', 'inc',
+    'taskFormat', 'scoringLogic', 'evaluationMode', 'deterministicReplay', 'statisticalEvaluation',
+    'humanInTheLoop', 'userRedo', 'validatorConfig', 'challengeResolution', 'networkRequirements',
+    'penaltyConfig', 'moneyFlow', 'tokenomics',
+  ],
+  active: [
+    'version', 'description', 'inc', 'scoringLogic', 'deterministicReplay', 'statisticalEvaluation',
+    'humanInTheLoop', 'userRedo', 'validatorConfig', 'challengeResolution', 'penaltyConfig', 'moneyFlow',
+  ],
+  trusted: ['version', 'description', 'inc', 'scoringLogic', 'validatorConfig', 'penaltyConfig'],
+  open_economic: ['version', 'description', 'inc'],
+};
+
+/**
+ * Point in time a manifest view is resolved for
+ * Block-activated revisions only count when blockNumber is given, time-activated ones when timestamp is
+ */
+export interface ManifestPointInTime {
+  timestamp?: number;   // Unix ms
+  blockNumber?: number;
+}
+
+export interface ResolvedManifest {
+  cid: string;          // CID of the revision in force
+  headCid: string;      // Newest published manifest the chain was resolved from
+  revision: number;     // 0 for the original manifest
+  manifest: NetworkManifest;
+}
+
+export interface ManifestRevisionValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  changedFields: string[];
+}
+
+export interface ManifestRevisionDependencies {
+  storage: Pick<IStorageProvider, 'download'>;
+  getBlockNumber?: () => Promise<number>;  // Current settlement chain block, for block-activated revisions
+}
+
+export interface ManifestRevisionOptions {
+  revisableFields: Record<GraduationLevel, string[]>;
+  maxChainLength: number;  // Guard against cyclic or runaway chains
+}
+
+const DEFAULT_OPTIONS: ManifestRevisionOptions = {
+  revisableFields: DEFAULT_REVISABLE_FIELDS,
+  maxChainLength: 1000,
+};
+
+/**
+ * Message the creator signs (EIP-191) to authorize a revision
+ */
+export function buildManifestRevisionMessage(manifest: NetworkManifest): string {
+  if (!manifest.revision) {
+    throw new Error('Manifest has no revision metadata');
+  }
+  const { signature, ...revision } = manifest.revision;
+  return canonicalize({
+    networkId: manifest.networkId,
+    revision,
+    contentHash: hashManifestContent(manifest),
+    settlement: settlementBinding(manifest),
+  });
+}
+
+/**
+ * Whether the revision signature recovers to the manifest's creator
+ */
+export function verifyManifestRevisionSignature(manifest: NetworkManifest): boolean {
+  if (!manifest.revision?.signature || !manifest.creatorAddress) {
+    return false;
+  }
+  try {
+    const recovered = ethers.verifyMessage(buildManifestRevisionMessage(manifest), manifest.revision.signature);
+    return recovered.toLowerCase() === manifest.creatorAddress.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * SHA-256 over the creator-controlled fields (key order independent)
+ */
+export function hashManifestContent(manifest: NetworkManifest): string {
+  return canonicalHash(creatorControlledContent(manifest));
+}
+
+export class ManifestRevisionService {
+  private logger: ILogger;
+  private storage: Pick<IStorageProvider, 'download'>;
+  private getBlockNumber?: () => Promise<number>;
+  private options: ManifestRevisionOptions;
+
+  constructor(
+    logger: ILogger,
+    dependencies: ManifestRevisionDependencies,
+    options: Partial<ManifestRevisionOptions> = {}
+  ) {
+    this.logger = logger;
+    this.storage = dependencies.storage;
+    this.getBlockNumber = dependencies.getBlockNumber;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Build the next revision of a manifest (unsigned)
+   * The creator signs buildManifestRevisionMessage(result) and sets result.revision.signature
+   * Throws if the changes are not allowed at the network's graduation level
+   */
+  createRevision(
+    current: NetworkManifest,
+    currentCid: string,
+    changes: Partial<NetworkManifest>,
+    effectiveFrom: ManifestRevisionActivation,
+    details: { reason?: string; signedAt?: Date } = {}
+  ): NetworkManifest {
+    const managed = Object.keys(changes).filter(field => PROTOCOL_MANAGED_FIELDS.includes(field));
+    if (managed.length > 0) {
+      throw new Error(`Fields managed by the protocol cannot be revised: ${managed.join(', ')}`);
+    }
+
+    const draft: NetworkManifest = {
+      ...current,
+      ...changes,
+      registry: { ...current.registry, ipfsCid: '' },
+    };
+
+    const revision: ManifestRevision = {
+      number: (current.revision?.number ?? 0) + 1,
+      previousCid: currentCid,
+      effectiveFrom,
+      changedFields: this.getChangedFields(current, draft),
+      signedAt: (details.signedAt || new Date()).toISOString(),
+      signature: '',
+    };
+    if (details.reason) {
+      revision.reason = details.reason;
+    }
+
+    const next: NetworkManifest = { ...draft, revision };
+    const validation = this.checkRevision(current, next, currentCid, false, true);
+    if (!validation.valid) {
+      throw new Error(`Invalid manifest revision: ${validation.errors.join('; ')}`);
+    }
+    return next;
+  }
+
+  /**
+   * Validate a signed revision against the manifest it supersedes
+   * Protocol-managed fields must be carried over unchanged (see inheritManagedFields)
+   */
+  validateRevision(previous: NetworkManifest, next: NetworkManifest, previousCid?: string): ManifestRevisionValidation {
+    return this.checkRevision(previous, next, previousCid, true, true);
+  }
+
+  /**
+   * Copy the protocol-managed fields of the manifest a revision links to into the revision
+   * They are not covered by the revision signature beyond the settlement binding, so this keeps the signature valid
+   */
+  inheritManagedFields(previous: NetworkManifest, next: NetworkManifest): NetworkManifest {
+    const manifest: any = { ...next };
+    for (const field of INHERITED_MANAGED_FIELDS) {
+      if (field in previous) {
+        manifest[field] = (previous as any)[field];
+      } else {
+        delete manifest[field];
+      }
+    }
+    return manifest;
+  }
+
+  /**
+   * Creator-controlled top-level fields that differ between two manifests (sorted)
+   */
+  getChangedFields(previous: NetworkManifest, next: NetworkManifest): string[] {
+    const before = creatorControlledContent(previous);
+    const after = creatorControlledContent(next);
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return Array.from(fields)
+      .filter(field => canonicalize(before[field] ?? null) !== canonicalize(after[field] ?? null))
+      .sort();
+  }
+
+  /**
+   * Load and verify the revision chain ending at headCid, oldest first
+   * Throws if any link is invalid
+   */
+  async resolveHistory(headCid: string): Promise<Array<{ cid: string; manifest: NetworkManifest }>> {
+    const chain: Array<{ cid: string; manifest: NetworkManifest }> = [];
+    let cid = headCid;
+
+    while (true) {
+      if (chain.length >= this.options.maxChainLength) {
+        throw new Error(`Manifest revision chain from ${headCid} exceeds ${this.options.maxChainLength} entries`);
+      }
+      const manifest = await this.download(cid);
+      chain.unshift({ cid, manifest });
+      if (!manifest.revision) {
+        break;
+      }
+      cid = manifest.revision.previousCid;
+    }
+
+    // Chain entries may be protocol re-uploads (graduation, asset binding) of a revision, so only the
+    // signed settlement binding is compared along the chain, not every protocol-managed field
+    for (let i = 1; i < chain.length; i++) {
+      const validation = this.checkRevision(chain[i - 1].manifest, chain[i].manifest, chain[i - 1].cid, true, false);
+      if (!validation.valid) {
+        throw new Error(
+          `Invalid manifest revision ${chain[i].manifest.revision!.number} (${chain[i].cid}): ${validation.errors.join('; ')}`
+        );
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * Manifest in force at a point in time: the newest revision whose activation has been reached
+   */
+  async resolveAsOf(headCid: string, at: ManifestPointInTime): Promise<ResolvedManifest> {
+    return selectInForce(headCid, await this.resolveHistory(headCid), at);
+  }
+
+  /**
+   * Manifest in force now
+   * Protocol-managed fields (graduation, settlement binding, ...) come from the head, since they
+   * are updated independently of pending revisions
+   */
+  async resolveLatest(headCid: string, blockNumber?: number): Promise<ResolvedManifest> {
+    const chain = await this.resolveHistory(headCid);
+    const head = chain[chain.length - 1].manifest;
+
+    const blockActivated = chain.some(entry => entry.manifest.revision?.effectiveFrom.type === 'block');
+    if (blockNumber === undefined && blockActivated && this.getBlockNumber) {
+      blockNumber = await this.getBlockNumber();
+    }
+
+    const resolved = selectInForce(headCid, chain, { timestamp: Date.now(), blockNumber });
+    if (resolved.cid === headCid) {
+      return resolved;
+    }
+
+    this.logger.debug('Newest manifest revision is not in force yet', {
+      networkId: head.networkId,
+      pendingRevision: head.revision?.number,
+      effectiveFrom: head.revision?.effectiveFrom,
+      inForce: resolved.revision,
+    });
+
+    const manifest: any = { ...resolved.manifest };
+    for (const field of PROTOCOL_MANAGED_FIELDS) {
+      if (field !== 'registry' && field !== 'revision' && field !== 'creatorSignature' && field in head) {
+        manifest[field] = (head as any)[field];
+      }
+    }
+    return { ...resolved, manifest };
+  }
+
+  /**
+   * Whether a revision's activation has been reached
+   */
+  static isEffective(revision: ManifestRevision, at: ManifestPointInTime): boolean {
+    const activation = revision.effectiveFrom;
+    if (activation.type === 'block') {
+      return at.blockNumber !== undefined && at.blockNumber >= activation.blockNumber;
+    }
+    return at.timestamp !== undefined && at.timestamp >= Date.parse(activation.timestamp);
+  }
+
+  private checkRevision(
+    previous: NetworkManifest,
+    next: NetworkManifest,
+    previousCid: string | undefined,
+    checkSignature: boolean,
+    checkManagedFields: boolean
+  ): ManifestRevisionValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const changedFields = this.getChangedFields(previous, next);
+    const revision = next.revision;
+
+    if (!revision) {
+      return { valid: false, errors: ['Revision metadata is required'], warnings, changedFields };
+    }
+
+    const expectedNumber = (previous.revision?.number ?? 0) + 1;
+    if (revision.number !== expectedNumber) {
+      errors.push(`Revision number must be ${expectedNumber} (got ${revision.number})`);
+    }
+    if (previousCid !== undefined && revision.previousCid !== previousCid) {
+      errors.push(`Revision must link to the current manifest ${previousCid} (got ${revision.previousCid})`);
+    }
+
+    if (changedFields.length === 0) {
+      errors.push('Revision does not change any field');
+    }
+    if (canonicalize(revision.changedFields ?? null) !== canonicalize(changedFields)) {
+      errors.push(`Declared changedFields do not match the changes (${changedFields.join(', ')})`);
+    }
+
+    if (canonicalize(settlementBinding(previous)) !== canonicalize(settlementBinding(next))) {
+      errors.push('Revision cannot change the settlement chain or contract');
+    }
+    if (checkManagedFields) {
+      for (const field of INHERITED_MANAGED_FIELDS) {
+        if (canonicalize((previous as any)[field] ?? null) !== canonicalize((next as any)[field] ?? null)) {
+          errors.push(`Protocol-managed field ${field} must match the current manifest`);
+        }
+      }
+    }
+
+    const level = getGraduationLevel(previous);
+    const revisable = this.options.revisableFields[level] || [];
+    for (const field of changedFields) {
+      if (!revisable.includes(field)) {
+        errors.push(`Field ${field} cannot be revised at graduation level ${level}`);
+      }
+    }
+
+    errors.push(...checkActivation(revision, previous.revision));
+
+    if (checkSignature && !verifyManifestRevisionSignature(next)) {
+      errors.push('Revision signature does not match creatorAddress');
+    }
+
+    if (level !== 'sandbox' && revision.effectiveFrom.type === 'time'
+      && Date.parse(revision.effectiveFrom.timestamp) === Date.parse(revision.signedAt)) {
+      warnings.push(`Revision takes effect immediately on a ${level} network; consider giving users notice`);
+    }
+
+    return { valid: errors.length === 0, errors, warnings, changedFields };
+  }
+
+  private async download(cid: string): Promise<NetworkManifest> {
+    const manifest = await this.storage.download(cid);
+    if (!manifest || typeof manifest !== 'object' || !manifest.networkId) {
+      throw new Error(`No manifest found at ${cid}`);
+    }
+    return manifest as NetworkManifest;
+  }
+}
+
+/**
+ * Newest revision of a verified chain (oldest first) whose activation has been reached
+ */
+function selectInForce(
+  headCid: string,
+  chain: Array<{ cid: string; manifest: NetworkManifest }>,
+  at: ManifestPointInTime
+): ResolvedManifest {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const revision = chain[i].manifest.revision;
+    if (!revision || ManifestRevisionService.isEffective(revision, at)) {
+      return { cid: chain[i].cid, headCid, revision: revision?.number ?? 0, manifest: chain[i].manifest };
+    }
+  }
+
+  // Unreachable: the original manifest has no revision and is always in force
+  throw new Error(`Manifest chain from ${headCid} has no original manifest`);
+}
+
+/**
+ * Current graduation level
+ */
+function getGraduationLevel(manifest: NetworkManifest): GraduationLevel {
+  return manifest.graduation?.level || 'sandbox';
+}
+
+function checkActivation(revision: ManifestRevision, previous?: ManifestRevision): string[] {
+  const errors: string[] = [];
+  const activation = revision.effectiveFrom;
+  const signedAt = Date.parse(revision.signedAt);
+
+  if (Number.isNaN(signedAt)) {
+    errors.push('Revision signedAt must be an ISO timestamp');
+  }
+
+  if (activation?.type === 'block') {
+    if (!Number.isInteger(activation.blockNumber) || activation.blockNumber < 0) {
+      errors.push('Revision activation block must be a non-negative integer');
+    } else if (previous?.effectiveFrom.type === 'block' && activation.blockNumber < previous.effectiveFrom.blockNumber) {
+      errors.push('Revision cannot take effect before the revision it supersedes');
+    }
+  } else if (activation?.type === 'time') {
+    const effectiveAt = Date.parse(activation.timestamp);
+    if (Number.isNaN(effectiveAt)) {
+      errors.push('Revision activation time must be an ISO timestamp');
+    } else if (effectiveAt < signedAt) {
+      errors.push('Revision cannot take effect before it was signed');
+    } else if (previous?.effectiveFrom.type === 'time' && effectiveAt < Date.parse(previous.effectiveFrom.timestamp)) {
+      errors.push('Revision cannot take effect before the revision it supersedes');
+    }
+  } else {
+    errors.push('Revision activation must be a block or a time');
+  }
+
+  return errors;
+}
+
+/**
+ * Settlement chain and contract: fixed at deployment, signed by every revision
+ */
+function settlementBinding(manifest: NetworkManifest): Record<string, any> {
+  return {
+    chain: manifest.settlement?.chain ?? null,
+    contractAddress: manifest.settlement?.contractAddress?.toLowerCase() ?? null,
+  };
+}
+
+function creatorControlledContent(manifest: NetworkManifest): Record<string, any> {
+  const content: Record<string, any> = {};
+  for (const [field, value] of Object.entries(manifest)) {
+    if (!PROTOCOL_MANAGED_FIELDS.includes(field) && value !== undefined) {
+      content[field] = value;
+    }
+  }
+  return content;
+}
+
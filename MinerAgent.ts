@@ -0,0 +1,512 @@
+/**
+ * Miner Agent
+ *
+ * Runs a miner through the claim/execute/submit flow:
+ * 1. Subscribes to task announcements for the configured networks
+ * 2. Validates the task input against manifest.taskFormat.inputSchema
+ * 3. Claims the task (exclusive lease for single-output tasks) and keeps the lease renewed
+ * 4. Runs the pluggable MinerExecutor
+ * 5. Validates the output against taskFormat.outputSchema, attaches a ReplayBundle when
+ *    deterministicReplay.required is set, and submits it
+ *
+ * Like ValidatorAgent, announcements are handled with bounded concurrency and a bounded
+ * backlog, failed tasks are retried with exponential backoff, and stop() waits for
+ * in-flight tasks. A failed attempt releases its claim so other miners can pick the task up.
+ */
+
+import { createHash } from 'crypto';
+import type { TaskAnnouncement } from './P2PCoordinationService';
+import type { TaskState, TaskStatus } from './TaskService';
+import type { DeterministicReplayService } from './DeterministicReplayService';
+import { ILogger } from './utils/ILogger';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { TaskOutput, ExecutionEnvironment, IntermediateStepHash } from './EvaluationService';
+import { JSONSchemaValidator } from './JSONSchemaValidator';
+import { TaskClaim } from './TaskClaimService';
+import { TaskAnnouncementSource } from './ValidatorAgent';
+import { NetworkManifest } from './types';
+
+/**
+ * What the executor is told about the task
+ */
+export interface MinerExecutionContext {
+  taskId: string;
+  networkId: string;
+  taskType: string;
+  manifest: NetworkManifest;
+  seed?: string;     // Set when the network requires a fixed seed; the executor must use it
+  deadline: number;
+}
+
+/**
+ * Executor result
+ * `replay` is required when the network sets deterministicReplay.required
+ */
+export interface MinerExecutionResult {
+  output: any;
+  replay?: {
+    modelId: string;
+    modelVersionHash: string;
+    inferenceParameters?: Record<string, any>;
+    executionEnv: ExecutionEnvironment;
+    steps?: IntermediateStepHash[]; // Required when deterministicReplay.intermediateHashing is set
+  };
+}
+
+/**
+ * Pluggable task executor (model inference, tool run, ...)
+ */
+export interface MinerExecutor {
+  execute(input: any, context: MinerExecutionContext): Promise<MinerExecutionResult>;
+}
+
+/**
+ * Where the agent claims tasks and submits outputs (e.g. TaskServiceRefactored with a TaskClaimService)
+ */
+export interface MinerTaskService {
+  getTaskState(taskId: string): Promise<TaskState | null>;
+  claimTask(taskId: string, minerAddress: string, manifest: NetworkManifest, leaseMs?: number): Promise<TaskClaim | null>;
+  renewClaim(taskId: string, minerAddress: string, leaseMs?: number): Promise<TaskClaim>;
+  releaseClaim(taskId: string, minerAddress: string): Promise<void>;
+  addMinerOutput(
+    taskId: string,
+    output: any,
+    minerAddress: string,
+    manifest: NetworkManifest,
+    metadata?: TaskOutput['metadata']
+  ): Promise<TaskOutput>;
+}
+
+export interface MinerAgentDependencies {
+  tasks: TaskAnnouncementSource;
+  taskService: MinerTaskService;
+  storage: IStorageProvider;            // Manifest storage (manifestCid -> NetworkManifest)
+  executor: MinerExecutor;
+  minerAddress: string;
+  jsonSchemaValidator?: JSONSchemaValidator;
+  // Required for networks with deterministicReplay.required
+  replayService?: Pick<DeterministicReplayService, 'createReplayBundle' | 'createStepTraceHash'>;
+}
+
+export interface MinerAgentOptions {
+  networkIds: string[];                 // Networks to mine for
+  concurrency: number;                  // Tasks executed at the same time
+  maxPendingTasks: number;              // Queued + retrying tasks before announcements are dropped
+  maxAttempts: number;                  // Attempts per task before giving up
+  retryDelayMs: number;                 // First retry delay, doubled per attempt
+  maxRetryDelayMs: number;
+  leaseMs: number;                      // Claim lease, renewed at half-life while executing
+  shutdownTimeoutMs: number;            // How long stop() waits for in-flight tasks
+}
+
+/**
+ * Counters for operators
+ */
+export interface MinerAgentStats {
+  queued: number;
+  waiting: number;       // Scheduled for a retry
+  inFlight: number;
+  submitted: number;     // Outputs submitted
+  skipped: number;       // Tasks not worked (claimed by others, closed, invalid input)
+  failed: number;        // Tasks given up on
+  dropped: number;       // Announcements dropped (backlog full, duplicate or expired)
+}
+
+interface TaskJob {
+  announcement: TaskAnnouncement;
+  attempts: number;
+}
+
+// Statuses in which the task still accepts outputs
+const ACCEPTING_STATUSES: TaskStatus[] = ['submitted', 'mining', 'evaluating'];
+
+const DEFAULT_OPTIONS: MinerAgentOptions = {
+  networkIds: [],
+  concurrency: 1,
+  maxPendingTasks: 100,
+  maxAttempts: 3,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 30 * 1000,
+  leaseMs: 5 * 60 * 1000,
+  shutdownTimeoutMs: 60 * 1000,
+};
+
+export class MinerAgent {
+  private logger: ILogger;
+  private tasks: TaskAnnouncementSource;
+  private taskService: MinerTaskService;
+  private storage: IStorageProvider;
+  private executor: MinerExecutor;
+  private minerAddress: string;
+  private jsonSchemaValidator: JSONSchemaValidator;
+  private replayService?: Pick<DeterministicReplayService, 'createReplayBundle' | 'createStepTraceHash'>;
+  private options: MinerAgentOptions;
+
+  private isRunning: boolean = false;
+  private subscribedNetworks: string[] = [];
+  private queue: TaskJob[] = [];
+  private inFlight: Map<string, Promise<void>> = new Map();
+  // Jobs waiting for a retry: taskId -> timer
+  private scheduled: Map<string, NodeJS.Timeout> = new Map();
+  private manifests: Map<string, NetworkManifest> = new Map();
+  private stats = { submitted: 0, skipped: 0, failed: 0, dropped: 0 };
+
+  constructor(
+    logger: ILogger,
+    dependencies: MinerAgentDependencies,
+    options: Partial<MinerAgentOptions> = {}
+  ) {
+    this.logger = logger;
+    this.tasks = dependencies.tasks;
+    this.taskService = dependencies.taskService;
+    this.storage = dependencies.storage;
+    this.executor = dependencies.executor;
+    this.minerAddress = dependencies.minerAddress;
+    this.jsonSchemaValidator = dependencies.jsonSchemaValidator || new JSONSchemaValidator(logger);
+    this.replayService = dependencies.replayService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Subscribe to the configured networks and start mining
+   */
+  public async start(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Miner agent is already running');
+      return;
+    }
+
+    this.logger.info('Starting miner agent...');
+    this.isRunning = true;
+
+    try {
+      for (const networkId of this.options.networkIds) {
+        await this.tasks.subscribeToTasks(networkId, announcement => this.enqueue(announcement));
+        this.subscribedNetworks.push(networkId);
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    this.logger.info('Miner agent started successfully', {
+      minerAddress: this.minerAddress,
+      networks: this.subscribedNetworks,
+    });
+  }
+
+  /**
+   * Stop accepting tasks, drop the backlog and wait for in-flight tasks
+   */
+  public async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.logger.info('Stopping miner agent...');
+    this.isRunning = false;
+
+    for (const networkId of this.subscribedNetworks) {
+      try {
+        await this.tasks.unsubscribeFromTasks(networkId);
+      } catch (error) {
+        this.logger.warn('Failed to unsubscribe from task announcements', {
+          networkId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.subscribedNetworks = [];
+
+    for (const timer of this.scheduled.values()) {
+      clearTimeout(timer);
+    }
+    const abandoned = this.queue.length + this.scheduled.size;
+    this.queue = [];
+    this.scheduled.clear();
+
+    if (this.inFlight.size > 0) {
+      this.logger.info('Waiting for in-flight tasks', { inFlight: this.inFlight.size });
+      let timer: NodeJS.Timeout | undefined;
+      const drained = await Promise.race([
+        Promise.allSettled(Array.from(this.inFlight.values())).then(() => true),
+        new Promise<boolean>(resolve => {
+          timer = setTimeout(() => resolve(false), this.options.shutdownTimeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!drained) {
+        this.logger.warn('In-flight tasks did not finish before shutdown timeout', { inFlight: this.inFlight.size });
+      }
+    }
+
+    this.logger.info('Miner agent stopped', { abandonedTasks: abandoned });
+  }
+
+  /**
+   * Accept a task announcement
+   * Returns false if it was dropped (not running, duplicate, expired or backlog full)
+   */
+  public enqueue(announcement: TaskAnnouncement): boolean {
+    const { taskId } = announcement;
+
+    if (!this.isRunning) {
+      return false;
+    }
+
+    if (this.inFlight.has(taskId) || this.scheduled.has(taskId) || this.queue.some(j => j.announcement.taskId === taskId)) {
+      this.logger.debug('Task already being handled, ignoring announcement', { taskId });
+      this.stats.dropped++;
+      return false;
+    }
+
+    if (announcement.deadline <= Date.now()) {
+      this.logger.debug('Task deadline already passed, ignoring announcement', { taskId });
+      this.stats.dropped++;
+      return false;
+    }
+
+    if (this.queue.length + this.scheduled.size >= this.options.maxPendingTasks) {
+      this.logger.warn('Miner agent backlog full, dropping task announcement', {
+        taskId,
+        networkId: announcement.networkId,
+        pending: this.queue.length + this.scheduled.size,
+      });
+      this.stats.dropped++;
+      return false;
+    }
+
+    this.queue.push({ announcement, attempts: 0 });
+    this.pump();
+    return true;
+  }
+
+  public getStats(): MinerAgentStats {
+    return {
+      queued: this.queue.length,
+      waiting: this.scheduled.size,
+      inFlight: this.inFlight.size,
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Claim, execute and submit one task
+   * Returns null if the task was not worked (closed, already answered, claimed by another miner
+   * or invalid input); throws if an attempt failed after claiming
+   */
+  async mineTask(announcement: TaskAnnouncement): Promise<TaskOutput | null> {
+    const { taskId, networkId } = announcement;
+    const manifest = await this.loadManifest(announcement.manifestCid);
+
+    const state = await this.taskService.getTaskState(taskId);
+    if (!state) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (!ACCEPTING_STATUSES.includes(state.status)) {
+      this.logger.debug('Task no longer accepts outputs', { taskId, status: state.status });
+      return null;
+    }
+    if (state.outputs.some(o => o.minerAddress.toLowerCase() === this.minerAddress.toLowerCase())) {
+      return null;
+    }
+
+    const input = state.submission.input;
+    const inputValidation = this.jsonSchemaValidator.validateInput(input, manifest.taskFormat.inputSchema);
+    if (!inputValidation.valid) {
+      this.logger.warn('Task input does not match inputSchema, not mining it', {
+        taskId,
+        errors: inputValidation.errors,
+      });
+      return null;
+    }
+
+    const claim = await this.taskService.claimTask(taskId, this.minerAddress, manifest, this.options.leaseMs);
+    if (!claim) {
+      this.logger.debug('Task not claimable, skipping', { taskId });
+      return null;
+    }
+
+    const renewal = setInterval(async () => {
+      try {
+        await this.taskService.renewClaim(taskId, this.minerAddress, this.options.leaseMs);
+      } catch (error) {
+        this.logger.warn('Failed to renew task claim', {
+          taskId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }, Math.max(1, Math.floor(this.options.leaseMs / 2)));
+
+    try {
+      const replay = manifest.deterministicReplay;
+      const seed = replay?.required || replay?.seedRequired ? this.deriveSeed(taskId) : undefined;
+
+      const result = await this.executor.execute(input, {
+        taskId,
+        networkId,
+        taskType: announcement.taskType,
+        manifest,
+        seed,
+        deadline: announcement.deadline,
+      });
+
+      const outputValidation = this.jsonSchemaValidator.validateOutput(result.output, manifest.taskFormat.outputSchema);
+      if (!outputValidation.valid) {
+        throw new Error(`Executor output does not match outputSchema: ${outputValidation.errors.join(', ')}`);
+      }
+
+      const taskOutput = await this.taskService.addMinerOutput(
+        taskId,
+        result.output,
+        this.minerAddress,
+        manifest,
+        this.buildMetadata(manifest, input, result, seed)
+      );
+
+      this.stats.submitted++;
+      this.logger.info('Task output submitted', { taskId, networkId, outputId: taskOutput.outputId });
+      return taskOutput;
+    } catch (error) {
+      await this.taskService.releaseClaim(taskId, this.minerAddress).catch(() => undefined);
+      throw error;
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  /**
+   * Output metadata: the seed, plus the replay bundle, environment and step trace when replay is required
+   */
+  private buildMetadata(
+    manifest: NetworkManifest,
+    input: any,
+    result: MinerExecutionResult,
+    seed?: string
+  ): TaskOutput['metadata'] {
+    const replay = manifest.deterministicReplay;
+    if (!replay?.required) {
+      return seed ? { seed } : undefined;
+    }
+
+    if (!result.replay) {
+      throw new Error(`Network ${manifest.networkId} requires deterministic replay but the executor returned no replay information`);
+    }
+    if (!this.replayService) {
+      throw new Error(`Network ${manifest.networkId} requires deterministic replay but no replay service is configured`);
+    }
+
+    const metadata: TaskOutput['metadata'] = {
+      seed,
+      replayBundle: this.replayService.createReplayBundle(
+        input,
+        result.replay.modelId,
+        result.replay.modelVersionHash,
+        result.replay.inferenceParameters || {},
+        seed!,
+        result.replay.executionEnv
+      ),
+      executionEnv: result.replay.executionEnv,
+    };
+
+    if (replay.intermediateHashing) {
+      if (!result.replay.steps || result.replay.steps.length === 0) {
+        throw new Error(`Network ${manifest.networkId} requires intermediate step hashes but the executor returned none`);
+      }
+      metadata.stepTraceHash = this.replayService.createStepTraceHash(result.replay.steps);
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Fixed per-task seed, so a replay of this miner's run uses the same randomness
+   */
+  private deriveSeed(taskId: string): string {
+    return createHash('sha256').update(`${taskId}:${this.minerAddress.toLowerCase()}`).digest('hex');
+  }
+
+  /**
+   * Start queued jobs up to the concurrency limit
+   */
+  private pump(): void {
+    while (this.isRunning && this.inFlight.size < this.options.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      const taskId = job.announcement.taskId;
+      const run = this.runJob(job).finally(() => {
+        this.inFlight.delete(taskId);
+        this.pump();
+      });
+      this.inFlight.set(taskId, run);
+    }
+  }
+
+  private async runJob(job: TaskJob): Promise<void> {
+    const { taskId, networkId, deadline } = job.announcement;
+    job.attempts++;
+
+    try {
+      const output = await this.mineTask(job.announcement);
+      if (!output) {
+        this.stats.skipped++;
+      }
+    } catch (error) {
+      const delay = Math.min(
+        this.options.retryDelayMs * Math.pow(2, job.attempts - 1),
+        this.options.maxRetryDelayMs
+      );
+
+      if (job.attempts >= this.options.maxAttempts || Date.now() + delay >= deadline) {
+        this.stats.failed++;
+        this.logger.error('Giving up on task', {
+          taskId,
+          networkId,
+          attempts: job.attempts,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+
+      this.logger.warn('Task attempt failed, will retry', {
+        taskId,
+        networkId,
+        attempt: job.attempts,
+        retryInMs: delay,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.schedule(job, delay);
+    }
+  }
+
+  /**
+   * Re-queue a job after a delay
+   */
+  private schedule(job: TaskJob, delayMs: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    const taskId = job.announcement.taskId;
+    this.scheduled.set(taskId, setTimeout(() => {
+      this.scheduled.delete(taskId);
+      this.queue.push(job);
+      this.pump();
+    }, delayMs));
+  }
+
+  /**
+   * Load a network manifest by CID (cached; manifests are content-addressed)
+   */
+  private async loadManifest(manifestCid: string): Promise<NetworkManifest> {
+    let manifest = this.manifests.get(manifestCid);
+    if (!manifest) {
+      manifest = (await this.storage.download(manifestCid)) as NetworkManifest;
+      if (!manifest) {
+        throw new Error(`Network manifest not found: ${manifestCid}`);
+      }
+      this.manifests.set(manifestCid, manifest);
+    }
+    return manifest;
+  }
+}
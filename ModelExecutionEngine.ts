@@ -7,8 +7,11 @@
 
 import { ILogger } from './utils/ILogger';
 import { createHash } from 'crypto';
+import { canonicalHash } from './utils/CanonicalJson';
 import axios from 'axios';
 import { ReplayBundle, ExecutionEnvironment, IntermediateStepHash } from './EvaluationService';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { OnnxCpuBackend } from './OnnxCpuBackend';
 
 /**
  * Model Metadata
@@ -52,10 +55,15 @@ export class ModelExecutionEngine {
   private logger: ILogger;
   private modelCache: Map<string, any> = new Map();
   private ipfsGateway: string;
+  private storage?: IStorageProvider;
 
-  constructor(logger?: Logger) {
+  /**
+   * @param storage Optional storage provider for model metadata and weights; defaults to the IPFS gateway
+   */
+  constructor(logger?: Logger, storage?: IStorageProvider) {
     this.logger = logger || new Logger('ModelExecutionEngine');
     this.ipfsGateway = process.env.IPFS_GATEWAY || 'https://ipfs.io/ipfs/';
+    this.storage = storage;
   }
 
   /**
@@ -126,6 +134,11 @@ export class ModelExecutionEngine {
       // Set random seed for deterministic execution
       this.setRandomSeed(randomSeed, executionEnv);
 
+      // ONNX models run on the CPU backend, which hashes every node's activations
+      if (model.type === 'onnx' && model.session) {
+        return this.executeONNXWithStepHashing(model.session, taskInput, randomSeed);
+      }
+
       // Step 1: Tokenization/Preprocessing
       const tokenizationStep = await this.executeTokenization(model, taskInput, executionEnv);
       steps.push(tokenizationStep);
@@ -181,6 +194,11 @@ export class ModelExecutionEngine {
    */
   private async fetchModelMetadata(modelVersionHash: string): Promise<ModelMetadata | null> {
     try {
+      if (this.storage) {
+        const metadata = await this.storage.download(modelVersionHash) as ModelMetadata;
+        return metadata && metadata.modelId ? metadata : null;
+      }
+
       // Try IPFS first
       const url = `${this.ipfsGateway}${modelVersionHash}`;
       const response = await axios.get<ModelMetadata>(url, {
@@ -253,13 +271,13 @@ export class ModelExecutionEngine {
 
   /**
    * Load ONNX model
+   * Node.js runs it on the CPU backend; the weights are fetched from storage (as base64) or IPFS
    */
   private async loadONNXModel(metadata: ModelMetadata, executionEnv: ExecutionEnvironment): Promise<any> {
     try {
       // Load ONNX model from IPFS
       const modelPath = metadata.modelPath || `${this.ipfsGateway}${metadata.modelVersionHash}`;
       
-      // For Node.js, use onnxruntime-node
       // For Python, would use onnxruntime
       if (executionEnv.runtime.includes('python')) {
         return {
@@ -269,10 +287,10 @@ export class ModelExecutionEngine {
           modelPath,
         };
       } else {
-        // Node.js - would use onnxruntime-node
-        // For now, return structure
+        const session = OnnxCpuBackend.load(await this.fetchModelWeights(metadata));
         return {
           type: 'onnx',
+          session,
           metadata,
           executionEnv,
           modelPath,
@@ -286,6 +304,88 @@ export class ModelExecutionEngine {
     }
   }
 
+  /**
+   * Fetch model weights from storage or IPFS
+   */
+  private async fetchModelWeights(metadata: ModelMetadata): Promise<Uint8Array | ArrayBuffer | string> {
+    if (this.storage) {
+      if (!metadata.modelPath) {
+        throw new Error(`Model ${metadata.modelId} has no modelPath`);
+      }
+      return this.storage.download(metadata.modelPath);
+    }
+
+    const url = metadata.modelPath && /^https?:\/\//.test(metadata.modelPath)
+      ? metadata.modelPath
+      : `${this.ipfsGateway}${metadata.modelPath || metadata.modelVersionHash}`;
+    const response = await axios.get<ArrayBuffer>(url, {
+      timeout: 60000,
+      responseType: 'arraybuffer',
+    });
+    return response.data;
+  }
+
+  /**
+   * Execute an ONNX model with one step hash per graph node
+   */
+  private executeONNXWithStepHashing(
+    session: OnnxCpuBackend,
+    taskInput: any,
+    randomSeed: string
+  ): ModelExecutionResult {
+    const steps: ExecutionStep[] = [];
+    const stepHashes: IntermediateStepHash[] = [];
+    const addStep = (step: ExecutionStep) => {
+      steps.push(step);
+      stepHashes.push({
+        stepIndex: step.stepIndex,
+        stepHash: this.hashStepState(step),
+        stepType: step.stepType,
+      });
+    };
+
+    const feeds = session.createFeeds(taskInput);
+    addStep({
+      stepIndex: 0,
+      stepType: 'tokenization',
+      state: {
+        inputs: Object.entries(feeds).map(([name, tensor]) => ({
+          name,
+          type: tensor.type,
+          dims: tensor.dims,
+          hash: OnnxCpuBackend.hashTensor(tensor),
+        })),
+      },
+    });
+
+    const { outputs, trace } = session.run(feeds, { seed: this.seedStringToNumber(randomSeed) });
+    for (const node of trace) {
+      addStep({
+        stepIndex: steps.length,
+        stepType: 'forward_pass',
+        state: node,
+      });
+    }
+
+    const output: Record<string, any> = {};
+    for (const [name, tensor] of Object.entries(outputs)) {
+      output[name] = OnnxCpuBackend.toPlainTensor(tensor);
+    }
+    addStep({
+      stepIndex: steps.length,
+      stepType: 'decoding',
+      state: { outputs: session.outputNames },
+      output,
+    });
+
+    this.logger.debug('ONNX inference executed with step hashing', {
+      nodes: trace.length,
+      stepHashes: stepHashes.length,
+    });
+
+    return { output, steps, stepHashes };
+  }
+
   /**
    * Load PyTorch model
    */
@@ -559,13 +659,12 @@ export class ModelExecutionEngine {
    * Hash step state
    */
   private hashStepState(step: ExecutionStep): string {
-    const stateString = JSON.stringify({
+    return canonicalHash({
       stepIndex: step.stepIndex,
       stepType: step.stepType,
       state: step.state,
       output: step.output,
     });
-    return createHash('sha256').update(stateString).digest('hex');
   }
 
   /**
@@ -11,7 +11,7 @@ import { ProtocolService } from './ProtocolService';
 import { GraduationService } from './GraduationService';
 import { NetworkManifest, GraduationLevel } from './types';
 import { NetworkManifestGenerator } from './NetworkManifestGenerator';
-import { DecentralizedRegistryService } from './DecentralizedRegistryService';
+import type { ProtocolServiceRefactored } from './ProtocolServiceRefactored';
 import { ethers } from 'ethers';
 
 export class NetworkGraduationMonitor {
@@ -19,17 +19,21 @@ export class NetworkGraduationMonitor {
   private logger: ILogger;
   private protocolService: ProtocolService;
   private graduationService: GraduationService;
-  private decentralizedRegistryService?: DecentralizedRegistryService;
+  private graduationRecorder: Pick<ProtocolServiceRefactored, 'markNetworkGraduated'>;
   private isRunning: boolean = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private readonly CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour
 
-  constructor(prisma: PrismaClient, logger: ILogger, decentralizedRegistryService?: DecentralizedRegistryService) {
+  constructor(
+    prisma: PrismaClient,
+    logger: ILogger,
+    graduationRecorder: Pick<ProtocolServiceRefactored, 'markNetworkGraduated'>
+  ) {
     this.prisma = prisma;
     this.logger = logger;
     this.protocolService = new ProtocolService(logger, prisma);
     this.graduationService = new GraduationService(prisma, logger);
-    this.decentralizedRegistryService = decentralizedRegistryService || new DecentralizedRegistryService(logger);
+    this.graduationRecorder = graduationRecorder;
   }
 
   /**
@@ -112,7 +116,7 @@ export class NetworkGraduationMonitor {
         return;
       }
 
-      const currentLevel = manifest.graduationStatus?.level || 'sandbox';
+      const currentLevel = manifest.graduation?.level || 'sandbox';
 
       // Check graduation eligibility
       const eligibility = await this.graduationService.checkGraduationEligibility(
@@ -155,55 +159,30 @@ export class NetworkGraduationMonitor {
     try {
       this.logger.info(`Promoting network ${networkId} to level ${newLevel}`);
 
-      // Update manifest with new graduation status
-      const updatedManifest: NetworkManifest = {
-        ...manifest,
-        graduationStatus: {
-          level: newLevel,
-          achievedAt: new Date().toISOString(),
-          conditions: {
-            validatorCount: 0, // Will be updated by GraduationService
-            minerCount: 0,
-            completedTasks: 0,
-            validatorAgreementRate: 0,
-            unresolvedDisputes: 0,
-          },
-        },
-      };
-
-      // Get current metrics for the status
+      // Current metrics become the conditions recorded with the new level
       const metrics = await this.graduationService.getNetworkMetrics(networkId, manifest);
-      if (updatedManifest.graduationStatus) {
-        updatedManifest.graduationStatus.conditions = {
-          validatorCount: metrics.validatorCount,
-          minerCount: metrics.minerCount,
-          completedTasks: metrics.completedTasks,
-          validatorAgreementRate: metrics.agreementRate,
-          unresolvedDisputes: metrics.unresolvedDisputes,
-        };
-      }
+      const conditions = {
+        validatorCount: metrics.validatorCount,
+        minerCount: metrics.minerCount,
+        completedTasks: metrics.completedTasks,
+        validatorAgreementRate: metrics.agreementRate,
+        unresolvedDisputes: metrics.unresolvedDisputes,
+      };
 
       // Update contracts (CreatorTokenVesting, BondEscrowContract)
       await this.updateContractsForGraduation(networkId, manifest, newLevel);
 
-      // Update manifest in registry (IPFS/Git) for redundancy
-      // Note: Contract state is the source of truth. IPFS/Git updates are for redundancy.
+      // Record the level in the network's manifest (the level INC routing and revisions read)
+      const updatedManifest = await this.graduationRecorder.markNetworkGraduated(networkId, newLevel, conditions);
+
       this.logger.info(`Network ${networkId} promoted to ${newLevel}`, {
         updatedManifest: {
           networkId: updatedManifest.networkId,
-          graduationStatus: updatedManifest.graduationStatus,
+          manifestCid: updatedManifest.registry.ipfsCid,
+          graduation: updatedManifest.graduation,
         },
       });
 
-      // Update manifest on IPFS/Git registry for redundancy
-      await this.updateManifestInRegistry(updatedManifest).catch(error => {
-        // Don't fail if registry update fails - contract state is authoritative
-        this.logger.warn('Failed to update manifest in registry (non-critical)', {
-          networkId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      });
-
     } catch (error) {
       this.logger.error(`Failed to promote network ${networkId} to ${newLevel}:`, error);
       throw error;
@@ -440,7 +419,7 @@ export class NetworkGraduationMonitor {
 
       const status = await this.graduationService.getGraduationStatus(networkId, manifest);
       const metrics = await this.graduationService.getNetworkMetrics(networkId, manifest);
-      const currentLevel = manifest.graduationStatus?.level || 'sandbox';
+      const currentLevel = manifest.graduation?.level || 'sandbox';
       const eligibility = await this.graduationService.checkGraduationEligibility(
         networkId,
         manifest,
@@ -457,51 +436,4 @@ export class NetworkGraduationMonitor {
       throw error;
     }
   }
-
-  /**
-   * Update manifest in IPFS/Git registry for redundancy
-   * 
-   * This is optional - contract state is the authoritative source.
-   * Registry updates are for redundancy and discovery.
-   */
-  private async updateManifestInRegistry(manifest: NetworkManifest): Promise<void> {
-    if (!this.decentralizedRegistryService) {
-      this.logger.debug('DecentralizedRegistryService not available, skipping registry update');
-      return;
-    }
-
-    try {
-      // Upload updated manifest to IPFS (with multiple pinning services)
-      const newCid = await this.decentralizedRegistryService.uploadManifest(manifest);
-      
-      this.logger.info('Manifest updated in IPFS registry', {
-        networkId: manifest.networkId,
-        newCid,
-        previousCid: manifest.registry.ipfsCid,
-      });
-
-      // Update manifest with new CID
-      manifest.registry.ipfsCid = newCid;
-
-      // Optionally update in local index (for redundancy)
-      await this.decentralizedRegistryService.registerNetworkInLocalIndex(
-        manifest,
-        'graduation-monitor',
-        'Graduation Monitor Index'
-      ).catch(error => {
-        // Don't fail if index update fails
-        this.logger.debug('Failed to update local index (non-critical)', {
-          networkId: manifest.networkId,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      });
-
-    } catch (error) {
-      this.logger.error('Failed to update manifest in registry', {
-        networkId: manifest.networkId,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw error;
-    }
-  }
 }
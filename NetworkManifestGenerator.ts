@@ -7,6 +7,7 @@
 
 import { createHash } from 'crypto';
 import { NetworkManifest, NetworkCreationRequest, SettlementAssetBinding } from './types';
+import { canonicalHash } from './utils/CanonicalJson';
 
 export class NetworkManifestGenerator {
   /**
@@ -314,8 +315,7 @@ export class NetworkManifestGenerator {
     const { registry, ...stableManifest } = manifest;
     const stableRegistry = { ipfsCid: '', gitUrl: registry.gitUrl };
     const hashable = { ...stableManifest, registry: stableRegistry };
-    
-    const json = JSON.stringify(hashable, Object.keys(hashable).sort());
-    return createHash('sha256').update(json).digest('hex');
+
+    return canonicalHash(hashable);
   }
 }
@@ -15,6 +15,19 @@ export interface OnChainValidator {
   reputation: number;
 }
 
+/**
+ * Active validators of a network at a ValidatorRegistry epoch
+ */
+export interface ValidatorSet {
+  epoch: number;
+  validators: string[];
+}
+
+const VALIDATOR_SET_ABI = [
+  'function validatorSetEpoch() external view returns (uint256)',
+  'function getActiveValidators() external view returns (address[] memory)'
+];
+
 export class OnChainValidatorService {
   private logger: ILogger;
 
@@ -179,6 +192,51 @@ export class OnChainValidatorService {
     }
   }
 
+  /**
+   * Get the current validator set epoch from ValidatorRegistry
+   * The epoch changes whenever a validator joins or leaves, so it is a cheap cache key for the set
+   */
+  async getValidatorSetEpoch(manifest: NetworkManifest): Promise<number> {
+    const registry = this.getValidatorRegistry(manifest);
+    return Number(await registry.validatorSetEpoch());
+  }
+
+  /**
+   * Get the active validator set and its epoch from ValidatorRegistry
+   */
+  async getValidatorSet(manifest: NetworkManifest): Promise<ValidatorSet> {
+    const registry = this.getValidatorRegistry(manifest);
+
+    // Read both at the same block so the set matches its epoch
+    const blockTag = await registry.runner!.provider!.getBlockNumber();
+    const [epoch, validators] = await Promise.all([
+      registry.validatorSetEpoch({ blockTag }),
+      registry.getActiveValidators({ blockTag })
+    ]);
+
+    this.logger.info('Retrieved on-chain validator set', {
+      networkId: manifest.networkId,
+      epoch: Number(epoch),
+      validatorCount: validators.length
+    });
+
+    return { epoch: Number(epoch), validators: [...validators] };
+  }
+
+  private getValidatorRegistry(manifest: NetworkManifest): ethers.Contract {
+    const registryAddress = manifest.settlement.validatorRegistryAddress;
+    if (!registryAddress) {
+      throw new Error(`Validator registry address not found in manifest for ${manifest.networkId}`);
+    }
+
+    const provider = this.getProvider(manifest.settlement.chain);
+    if (!provider) {
+      throw new Error(`Provider not available for chain: ${manifest.settlement.chain}`);
+    }
+
+    return new ethers.Contract(registryAddress, VALIDATOR_SET_ABI, provider);
+  }
+
   /**
    * Get provider for a chain
    * ethers v6: providers.JsonRpcProvider → JsonRpcProvider
@@ -0,0 +1,245 @@
+/**
+ * ONNX CPU Backend
+ *
+ * Runs ONNX models on the CPU for deterministic replay.
+ * Execution is single-threaded with a fixed accumulation order, and random operators
+ * draw from a PRNG seeded by the run seed, so the same model bytes, inputs and seed
+ * give bit-identical activations on every machine. Each node's outputs are hashed
+ * so replay can compare intermediate activations, not just the final output.
+ */
+
+import { createHash } from 'crypto';
+import {
+  OnnxModel,
+  OnnxTensor,
+  OnnxDataType,
+  OnnxValueInfo,
+  parseOnnxModel,
+  createTensor,
+} from './OnnxModelParser';
+import { ONNX_OPERATORS, createRandomSource } from './OnnxOperators';
+
+export interface OnnxTensorSummary {
+  name: string;
+  type: OnnxDataType;
+  dims: number[];
+  hash: string;
+}
+
+export interface OnnxNodeTrace {
+  nodeIndex: number;
+  name: string;
+  opType: string;
+  outputs: OnnxTensorSummary[];
+}
+
+export interface OnnxRunOptions {
+  // Seed for random operators that do not pin their own seed
+  seed?: number;
+}
+
+export interface OnnxRunResult {
+  outputs: Record<string, OnnxTensor>;
+  // One entry per executed node, in execution order
+  trace: OnnxNodeTrace[];
+}
+
+/**
+ * Plain JSON form of a tensor, used for task inputs and outputs
+ */
+export interface PlainTensor {
+  type?: OnnxDataType;
+  dims: number[];
+  data: number[];
+}
+
+export class OnnxCpuBackend {
+  readonly model: OnnxModel;
+
+  private constructor(model: OnnxModel) {
+    this.model = model;
+  }
+
+  /**
+   * Load a serialized model (bytes, or base64 as returned by some storage providers)
+   * Fails fast if the graph uses operators this backend does not implement
+   */
+  static load(content: Uint8Array | ArrayBuffer | string): OnnxCpuBackend {
+    const bytes = typeof content === 'string'
+      ? new Uint8Array(Buffer.from(content, 'base64'))
+      : content instanceof Uint8Array ? content : new Uint8Array(content);
+    const model = parseOnnxModel(bytes);
+
+    for (const node of model.graph.nodes) {
+      if (node.domain !== '' && node.domain !== 'ai.onnx') {
+        throw new Error(`Unsupported ONNX operator domain: ${node.domain} (${node.opType})`);
+      }
+      if (!ONNX_OPERATORS[node.opType]) {
+        throw new Error(`Unsupported ONNX operator: ${node.opType}`);
+      }
+    }
+
+    return new OnnxCpuBackend(model);
+  }
+
+  /**
+   * Graph inputs that must be fed (inputs backed by initializers are optional)
+   */
+  get inputNames(): string[] {
+    return this.model.graph.inputs
+      .filter(input => !this.model.graph.initializers.has(input.name))
+      .map(input => input.name);
+  }
+
+  get outputNames(): string[] {
+    return this.model.graph.outputs.map(output => output.name);
+  }
+
+  /**
+   * Build feeds from task input
+   * Accepts { inputName: value } or, for single-input models, the value itself.
+   * Values are nested number arrays, { dims, data } objects or tensors.
+   */
+  createFeeds(taskInput: any): Record<string, OnnxTensor> {
+    const inputs = this.inputNames;
+    const byName = inputs.length === 1 && (Array.isArray(taskInput) || isTensorLike(taskInput))
+      ? { [inputs[0]]: taskInput }
+      : taskInput || {};
+
+    const feeds: Record<string, OnnxTensor> = {};
+    for (const info of this.model.graph.inputs) {
+      const value = byName[info.name];
+      if (value === undefined) {
+        if (!this.model.graph.initializers.has(info.name)) {
+          throw new Error(`Missing ONNX input: ${info.name}`);
+        }
+        continue;
+      }
+      feeds[info.name] = toInputTensor(value, info);
+    }
+    return feeds;
+  }
+
+  /**
+   * Run the graph and trace every node's outputs
+   */
+  run(feeds: Record<string, OnnxTensor>, options: OnnxRunOptions = {}): OnnxRunResult {
+    const { graph, opsetVersion } = this.model;
+    const values = new Map<string, OnnxTensor>(graph.initializers);
+    for (const [name, tensor] of Object.entries(feeds)) {
+      values.set(name, tensor);
+    }
+
+    const seed = options.seed ?? 0;
+    const trace: OnnxNodeTrace[] = [];
+
+    graph.nodes.forEach((node, nodeIndex) => {
+      const name = node.name || `${node.opType}_${nodeIndex}`;
+      const inputs = node.inputs.map(input => {
+        if (input === '') {
+          return undefined;
+        }
+        const value = values.get(input);
+        if (!value) {
+          throw new Error(`ONNX node ${name} (${node.opType}) needs ${input}, which has not been computed`);
+        }
+        return value;
+      });
+
+      const outputs = ONNX_OPERATORS[node.opType](inputs, {
+        node: { ...node, name },
+        opsetVersion,
+        random: createRandomSource(nodeSeed(seed, nodeIndex)),
+      });
+
+      const summaries: OnnxTensorSummary[] = [];
+      node.outputs.forEach((output, i) => {
+        if (output === '' || !outputs[i]) {
+          return;
+        }
+        values.set(output, outputs[i]);
+        summaries.push({
+          name: output,
+          type: outputs[i].type,
+          dims: outputs[i].dims.slice(),
+          hash: OnnxCpuBackend.hashTensor(outputs[i]),
+        });
+      });
+
+      trace.push({ nodeIndex, name, opType: node.opType, outputs: summaries });
+    });
+
+    const outputs: Record<string, OnnxTensor> = {};
+    for (const output of graph.outputs) {
+      const value = values.get(output.name);
+      if (!value) {
+        throw new Error(`ONNX graph output ${output.name} was not produced`);
+      }
+      outputs[output.name] = value;
+    }
+
+    return { outputs, trace };
+  }
+
+  /**
+   * Hash tensor type, shape and raw values
+   */
+  static hashTensor(tensor: OnnxTensor): string {
+    return createHash('sha256')
+      .update(`${tensor.type}:${tensor.dims.join('x')}:`)
+      .update(Buffer.from(tensor.data.buffer, tensor.data.byteOffset, tensor.data.byteLength))
+      .digest('hex');
+  }
+
+  static toPlainTensor(tensor: OnnxTensor): PlainTensor {
+    return {
+      type: tensor.type,
+      dims: tensor.dims.slice(),
+      data: Array.from(tensor.data),
+    };
+  }
+}
+
+/**
+ * Per-node seed, so adding a random node does not shift the draws of the others
+ */
+function nodeSeed(seed: number, nodeIndex: number): number {
+  return createHash('sha256').update(`${seed}:${nodeIndex}`).digest().readUInt32BE(0);
+}
+
+function isTensorLike(value: any): value is PlainTensor | OnnxTensor {
+  return typeof value === 'object' && value !== null && Array.isArray(value.dims) && value.data !== undefined;
+}
+
+function toInputTensor(value: any, info: OnnxValueInfo): OnnxTensor {
+  let tensor: OnnxTensor;
+  if (isTensorLike(value)) {
+    tensor = createTensor(value.type || info.elemType || 'float32', value.dims, value.data);
+  } else if (Array.isArray(value) || typeof value === 'number') {
+    const dims: number[] = [];
+    let level: any = value;
+    while (Array.isArray(level)) {
+      dims.push(level.length);
+      level = level[0];
+    }
+    const data = Array.isArray(value) ? (value as any[]).flat(Infinity) as number[] : [value];
+    tensor = createTensor(info.elemType || 'float32', dims, data);
+  } else {
+    throw new Error(`ONNX input ${info.name} must be a number array or { dims, data }`);
+  }
+
+  if (info.elemType && tensor.type !== info.elemType) {
+    throw new Error(`ONNX input ${info.name} has type ${tensor.type}, model expects ${info.elemType}`);
+  }
+  if (info.dims) {
+    const matches = info.dims.length === tensor.dims.length &&
+      info.dims.every((dim, d) => dim === null || dim === tensor.dims[d]);
+    if (!matches) {
+      const expected = info.dims.map(dim => (dim === null ? '?' : dim)).join(', ');
+      throw new Error(
+        `ONNX input ${info.name} has shape [${tensor.dims.join(', ')}], model expects [${expected}]`
+      );
+    }
+  }
+  return tensor;
+}
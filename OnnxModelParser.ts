@@ -0,0 +1,571 @@
+/**
+ * ONNX Model Parser
+ *
+ * Decodes the subset of the ONNX ModelProto wire format the CPU backend needs:
+ * graph nodes and attributes, initializers, inputs/outputs and opset imports.
+ * Field numbers follow onnx/onnx.proto; unknown fields are skipped.
+ */
+
+export type OnnxDataType = 'float32' | 'float64' | 'int8' | 'uint8' | 'int32' | 'int64' | 'bool';
+
+export type OnnxTensorData = Float32Array | Float64Array | Int8Array | Uint8Array | Int32Array;
+
+/**
+ * Dense tensor. int64 values are held as doubles (exact up to 2^53).
+ */
+export interface OnnxTensor {
+  type: OnnxDataType;
+  dims: number[];
+  data: OnnxTensorData;
+}
+
+export interface OnnxAttribute {
+  name: string;
+  f?: number;
+  i?: number;
+  s?: string;
+  t?: OnnxTensor;
+  floats?: number[];
+  ints?: number[];
+  strings?: string[];
+}
+
+export interface OnnxNode {
+  name: string;
+  opType: string;
+  domain: string;
+  inputs: string[];
+  outputs: string[];
+  attributes: Map<string, OnnxAttribute>;
+}
+
+export interface OnnxValueInfo {
+  name: string;
+  elemType?: OnnxDataType;
+  // Symbolic dimensions are null
+  dims?: Array<number | null>;
+}
+
+export interface OnnxGraph {
+  name: string;
+  nodes: OnnxNode[];
+  initializers: Map<string, OnnxTensor>;
+  inputs: OnnxValueInfo[];
+  outputs: OnnxValueInfo[];
+}
+
+export interface OnnxModel {
+  irVersion: number;
+  producerName: string;
+  // Default-domain opset version
+  opsetVersion: number;
+  graph: OnnxGraph;
+}
+
+// TensorProto.DataType values
+const DATA_TYPES: Record<number, OnnxDataType> = {
+  1: 'float32',
+  2: 'uint8',
+  3: 'int8',
+  6: 'int32',
+  7: 'int64',
+  9: 'bool',
+  11: 'float64',
+};
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Minimal protobuf reader over one message
+ */
+class ProtoReader {
+  private view: DataView;
+  private pos: number;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.pos = 0;
+  }
+
+  eof(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  tag(): { field: number; wire: number } {
+    const tag = this.varint();
+    return { field: Math.floor(tag / 8), wire: tag % 8 };
+  }
+
+  /**
+   * Read a varint as a signed 64-bit value (negative int32/int64 use ten bytes)
+   */
+  varint(): number {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (let i = 0; i < 10; i++) {
+      if (this.pos >= this.bytes.length) {
+        throw new Error('Invalid ONNX model: truncated varint');
+      }
+      const byte = this.bytes[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return Number(BigInt.asIntN(64, result));
+      }
+      shift += BigInt(7);
+    }
+    throw new Error('Invalid ONNX model: varint too long');
+  }
+
+  float(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  double(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    this.ensure(length);
+    const value = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytesField());
+  }
+
+  message(): ProtoReader {
+    return new ProtoReader(this.bytesField());
+  }
+
+  /**
+   * Read a repeated scalar field, packed or not
+   */
+  repeated(wire: number, read: (reader: ProtoReader) => number, target: number[]): void {
+    if (wire !== WIRE_LENGTH_DELIMITED) {
+      target.push(read(this));
+      return;
+    }
+    const packed = this.message();
+    while (!packed.eof()) {
+      target.push(read(packed));
+    }
+  }
+
+  skip(wire: number): void {
+    switch (wire) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.ensure(8);
+        this.pos += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.bytesField();
+        break;
+      case WIRE_FIXED32:
+        this.ensure(4);
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Invalid ONNX model: unsupported wire type ${wire}`);
+    }
+  }
+
+  private ensure(length: number): void {
+    if (this.pos + length > this.bytes.length) {
+      throw new Error('Invalid ONNX model: truncated field');
+    }
+  }
+}
+
+/**
+ * Parse a serialized ONNX model
+ */
+export function parseOnnxModel(bytes: Uint8Array): OnnxModel {
+  const reader = new ProtoReader(bytes);
+  let irVersion = 0;
+  let producerName = '';
+  let opsetVersion: number | undefined;
+  let graph: OnnxGraph | undefined;
+
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    switch (field) {
+      case 1:
+        irVersion = reader.varint();
+        break;
+      case 2:
+        producerName = reader.string();
+        break;
+      case 7:
+        graph = parseGraph(reader.message());
+        break;
+      case 8: {
+        const opset = parseOpsetImport(reader.message());
+        if (opset.domain === '' || opset.domain === 'ai.onnx') {
+          opsetVersion = opset.version;
+        }
+        break;
+      }
+      default:
+        reader.skip(wire);
+    }
+  }
+
+  if (!graph) {
+    throw new Error('Invalid ONNX model: missing graph');
+  }
+  if (opsetVersion === undefined) {
+    throw new Error('Invalid ONNX model: missing default-domain opset import');
+  }
+
+  return { irVersion, producerName, opsetVersion, graph };
+}
+
+/**
+ * Map a TensorProto.DataType value to a tensor type
+ */
+export function onnxDataType(code: number): OnnxDataType {
+  const type = DATA_TYPES[code];
+  if (!type) {
+    throw new Error(`Unsupported ONNX tensor data type ${code}`);
+  }
+  return type;
+}
+
+/**
+ * Create a tensor from TensorProto-style values, converting to the storage type
+ */
+export function createTensor(type: OnnxDataType, dims: number[], values: ArrayLike<number> | number): OnnxTensor {
+  const size = dims.reduce((a, b) => a * b, 1);
+  const data = allocateTensorData(type, size);
+  if (typeof values === 'number') {
+    data.fill(toStorageValue(type, values));
+  } else {
+    if (values.length !== size) {
+      throw new Error(`Tensor data has ${values.length} values, shape [${dims.join(', ')}] needs ${size}`);
+    }
+    for (let i = 0; i < size; i++) {
+      data[i] = toStorageValue(type, values[i]);
+    }
+  }
+  return { type, dims: dims.slice(), data };
+}
+
+export function allocateTensorData(type: OnnxDataType, size: number): OnnxTensorData {
+  switch (type) {
+    case 'float32':
+      return new Float32Array(size);
+    case 'float64':
+    case 'int64':
+      return new Float64Array(size);
+    case 'int32':
+      return new Int32Array(size);
+    case 'int8':
+      return new Int8Array(size);
+    case 'uint8':
+    case 'bool':
+      return new Uint8Array(size);
+  }
+}
+
+function toStorageValue(type: OnnxDataType, value: number): number {
+  if (type === 'bool') {
+    return value ? 1 : 0;
+  }
+  if (type === 'int64') {
+    return Math.trunc(value);
+  }
+  return value;
+}
+
+function parseOpsetImport(reader: ProtoReader): { domain: string; version: number } {
+  let domain = '';
+  let version = 0;
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    if (field === 1) {
+      domain = reader.string();
+    } else if (field === 2) {
+      version = reader.varint();
+    } else {
+      reader.skip(wire);
+    }
+  }
+  return { domain, version };
+}
+
+function parseGraph(reader: ProtoReader): OnnxGraph {
+  const graph: OnnxGraph = {
+    name: '',
+    nodes: [],
+    initializers: new Map(),
+    inputs: [],
+    outputs: [],
+  };
+
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    switch (field) {
+      case 1:
+        graph.nodes.push(parseNode(reader.message()));
+        break;
+      case 2:
+        graph.name = reader.string();
+        break;
+      case 5: {
+        const { name, tensor } = parseTensor(reader.message());
+        graph.initializers.set(name, tensor);
+        break;
+      }
+      case 11:
+        graph.inputs.push(parseValueInfo(reader.message()));
+        break;
+      case 12:
+        graph.outputs.push(parseValueInfo(reader.message()));
+        break;
+      default:
+        reader.skip(wire);
+    }
+  }
+
+  return graph;
+}
+
+function parseNode(reader: ProtoReader): OnnxNode {
+  const node: OnnxNode = {
+    name: '',
+    opType: '',
+    domain: '',
+    inputs: [],
+    outputs: [],
+    attributes: new Map(),
+  };
+
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    switch (field) {
+      case 1:
+        node.inputs.push(reader.string());
+        break;
+      case 2:
+        node.outputs.push(reader.string());
+        break;
+      case 3:
+        node.name = reader.string();
+        break;
+      case 4:
+        node.opType = reader.string();
+        break;
+      case 5: {
+        const attribute = parseAttribute(reader.message());
+        node.attributes.set(attribute.name, attribute);
+        break;
+      }
+      case 7:
+        node.domain = reader.string();
+        break;
+      default:
+        reader.skip(wire);
+    }
+  }
+
+  return node;
+}
+
+function parseAttribute(reader: ProtoReader): OnnxAttribute {
+  const attribute: OnnxAttribute = { name: '' };
+  const floats: number[] = [];
+  const ints: number[] = [];
+  const strings: string[] = [];
+
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    switch (field) {
+      case 1:
+        attribute.name = reader.string();
+        break;
+      case 2:
+        attribute.f = reader.float();
+        break;
+      case 3:
+        attribute.i = reader.varint();
+        break;
+      case 4:
+        attribute.s = reader.string();
+        break;
+      case 5:
+        attribute.t = parseTensor(reader.message()).tensor;
+        break;
+      case 7:
+        reader.repeated(wire, r => r.float(), floats);
+        break;
+      case 8:
+        reader.repeated(wire, r => r.varint(), ints);
+        break;
+      case 9:
+        strings.push(reader.string());
+        break;
+      default:
+        reader.skip(wire);
+    }
+  }
+
+  if (floats.length > 0) attribute.floats = floats;
+  if (ints.length > 0) attribute.ints = ints;
+  if (strings.length > 0) attribute.strings = strings;
+  return attribute;
+}
+
+function parseTensor(reader: ProtoReader): { name: string; tensor: OnnxTensor } {
+  let name = '';
+  let dataType = 0;
+  let rawData: Uint8Array | undefined;
+  const dims: number[] = [];
+  const values: number[] = [];
+
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    switch (field) {
+      case 1:
+        reader.repeated(wire, r => r.varint(), dims);
+        break;
+      case 2:
+        dataType = reader.varint();
+        break;
+      case 4:
+        reader.repeated(wire, r => r.float(), values);
+        break;
+      case 5:
+      case 7:
+        reader.repeated(wire, r => r.varint(), values);
+        break;
+      case 8:
+        name = reader.string();
+        break;
+      case 9:
+        rawData = reader.bytesField();
+        break;
+      case 10:
+        reader.repeated(wire, r => r.double(), values);
+        break;
+      default:
+        reader.skip(wire);
+    }
+  }
+
+  const type = DATA_TYPES[dataType];
+  if (!type) {
+    throw new Error(`Unsupported ONNX tensor data type ${dataType}${name ? ` (${name})` : ''}`);
+  }
+
+  return {
+    name,
+    tensor: createTensor(type, dims, rawData ? decodeRawData(type, rawData) : values),
+  };
+}
+
+/**
+ * Decode little-endian raw_data
+ */
+function decodeRawData(type: OnnxDataType, raw: Uint8Array): number[] {
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+  const values: number[] = [];
+  switch (type) {
+    case 'float32':
+      for (let i = 0; i + 4 <= raw.length; i += 4) values.push(view.getFloat32(i, true));
+      break;
+    case 'float64':
+      for (let i = 0; i + 8 <= raw.length; i += 8) values.push(view.getFloat64(i, true));
+      break;
+    case 'int32':
+      for (let i = 0; i + 4 <= raw.length; i += 4) values.push(view.getInt32(i, true));
+      break;
+    case 'int64':
+      for (let i = 0; i + 8 <= raw.length; i += 8) values.push(Number(view.getBigInt64(i, true)));
+      break;
+    case 'int8':
+      for (let i = 0; i < raw.length; i++) values.push(view.getInt8(i));
+      break;
+    case 'uint8':
+    case 'bool':
+      for (let i = 0; i < raw.length; i++) values.push(raw[i]);
+      break;
+  }
+  return values;
+}
+
+function parseValueInfo(reader: ProtoReader): OnnxValueInfo {
+  const info: OnnxValueInfo = { name: '' };
+
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    if (field === 1) {
+      info.name = reader.string();
+    } else if (field === 2) {
+      // TypeProto.tensor_type
+      const typeReader = reader.message();
+      while (!typeReader.eof()) {
+        const typeTag = typeReader.tag();
+        if (typeTag.field === 1) {
+          parseTensorType(typeReader.message(), info);
+        } else {
+          typeReader.skip(typeTag.wire);
+        }
+      }
+    } else {
+      reader.skip(wire);
+    }
+  }
+
+  return info;
+}
+
+function parseTensorType(reader: ProtoReader, info: OnnxValueInfo): void {
+  while (!reader.eof()) {
+    const { field, wire } = reader.tag();
+    if (field === 1) {
+      info.elemType = DATA_TYPES[reader.varint()];
+    } else if (field === 2) {
+      // TensorShapeProto.dim
+      const dims: Array<number | null> = [];
+      const shapeReader = reader.message();
+      while (!shapeReader.eof()) {
+        const shapeTag = shapeReader.tag();
+        if (shapeTag.field !== 1) {
+          shapeReader.skip(shapeTag.wire);
+          continue;
+        }
+        let value: number | null = null;
+        const dimReader = shapeReader.message();
+        while (!dimReader.eof()) {
+          const dimTag = dimReader.tag();
+          if (dimTag.field === 1) {
+            value = dimReader.varint();
+          } else {
+            dimReader.skip(dimTag.wire);
+          }
+        }
+        dims.push(value);
+      }
+      info.dims = dims;
+    } else {
+      reader.skip(wire);
+    }
+  }
+}
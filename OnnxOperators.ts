@@ -0,0 +1,650 @@
+/**
+ * ONNX Operators
+ *
+ * CPU implementations of the default-domain ONNX operators used by small models
+ * (MLPs, embeddings, attention blocks built from MatMul/Softmax/LayerNormalization).
+ * Every kernel loops in a fixed order and accumulates in double precision,
+ * so results do not depend on the machine or the number of cores.
+ */
+
+import {
+  OnnxDataType,
+  OnnxNode,
+  OnnxTensor,
+  allocateTensorData,
+  createTensor,
+  onnxDataType,
+} from './OnnxModelParser';
+
+export interface OnnxOperatorContext {
+  node: OnnxNode;
+  opsetVersion: number;
+  // Deterministic random source for this node
+  random: () => number;
+}
+
+export type OnnxOperator = (inputs: Array<OnnxTensor | undefined>, context: OnnxOperatorContext) => OnnxTensor[];
+
+/**
+ * Seeded PRNG (mulberry32), returns values in [0, 1)
+ */
+export function createRandomSource(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const INTEGER_TYPES: OnnxDataType[] = ['int8', 'uint8', 'int32', 'int64'];
+
+function tensorSize(dims: number[]): number {
+  return dims.reduce((a, b) => a * b, 1);
+}
+
+function computeStrides(dims: number[]): number[] {
+  const strides = new Array<number>(dims.length);
+  let stride = 1;
+  for (let d = dims.length - 1; d >= 0; d--) {
+    strides[d] = stride;
+    stride *= dims[d];
+  }
+  return strides;
+}
+
+function normalizeAxis(axis: number, rank: number, node: OnnxNode): number {
+  const normalized = axis < 0 ? axis + rank : axis;
+  if (normalized < 0 || normalized >= Math.max(rank, 1)) {
+    throw new Error(`${node.opType} node ${node.name}: axis ${axis} is out of range for rank ${rank}`);
+  }
+  return normalized;
+}
+
+function requireInput(inputs: Array<OnnxTensor | undefined>, index: number, node: OnnxNode): OnnxTensor {
+  const input = inputs[index];
+  if (!input) {
+    throw new Error(`${node.opType} node ${node.name}: missing input ${index}`);
+  }
+  return input;
+}
+
+function attrInt(node: OnnxNode, name: string, defaultValue: number): number {
+  const attribute = node.attributes.get(name);
+  return attribute?.i !== undefined ? attribute.i : defaultValue;
+}
+
+function attrFloat(node: OnnxNode, name: string, defaultValue: number): number {
+  const attribute = node.attributes.get(name);
+  return attribute?.f !== undefined ? attribute.f : defaultValue;
+}
+
+function attrInts(node: OnnxNode, name: string): number[] | undefined {
+  return node.attributes.get(name)?.ints;
+}
+
+/**
+ * Read integer values from an optional input (axes, shapes), falling back to an attribute
+ */
+function intValues(input: OnnxTensor | undefined, node: OnnxNode, attribute: string): number[] | undefined {
+  return input ? Array.from(input.data) : attrInts(node, attribute);
+}
+
+function broadcastShape(a: number[], b: number[], node: OnnxNode): number[] {
+  const rank = Math.max(a.length, b.length);
+  const dims = new Array<number>(rank);
+  for (let i = 0; i < rank; i++) {
+    const da = a[a.length - rank + i] ?? 1;
+    const db = b[b.length - rank + i] ?? 1;
+    if (da !== db && da !== 1 && db !== 1) {
+      throw new Error(
+        `${node.opType} node ${node.name}: shapes [${a.join(', ')}] and [${b.join(', ')}] cannot be broadcast`
+      );
+    }
+    dims[i] = da === 1 ? db : da;
+  }
+  return dims;
+}
+
+/**
+ * Map a flat index in the broadcast output to a flat index in one input
+ */
+function broadcastIndex(outDims: number[], inDims: number[]): (index: number) => number {
+  const offset = outDims.length - inDims.length;
+  const inStrides = computeStrides(inDims);
+  return (index: number) => {
+    let result = 0;
+    for (let d = outDims.length - 1; d >= 0; d--) {
+      const coord = index % outDims[d];
+      index = Math.floor(index / outDims[d]);
+      const inDim = d - offset;
+      if (inDim >= 0 && inDims[inDim] !== 1) {
+        result += coord * inStrides[inDim];
+      }
+    }
+    return result;
+  };
+}
+
+function binary(fn: (a: number, b: number, type: OnnxDataType) => number): OnnxOperator {
+  return (inputs, { node }) => {
+    const a = requireInput(inputs, 0, node);
+    const b = requireInput(inputs, 1, node);
+    const dims = broadcastShape(a.dims, b.dims, node);
+    const indexA = broadcastIndex(dims, a.dims);
+    const indexB = broadcastIndex(dims, b.dims);
+    const values = new Array<number>(tensorSize(dims));
+    for (let i = 0; i < values.length; i++) {
+      values[i] = fn(a.data[indexA(i)], b.data[indexB(i)], a.type);
+    }
+    return [createTensor(a.type, dims, values)];
+  };
+}
+
+function unary(fn: (x: number, context: OnnxOperatorContext) => number): OnnxOperator {
+  return (inputs, context) => {
+    const x = requireInput(inputs, 0, context.node);
+    const values = new Array<number>(x.data.length);
+    for (let i = 0; i < values.length; i++) {
+      values[i] = fn(x.data[i], context);
+    }
+    return [createTensor(x.type, x.dims, values)];
+  };
+}
+
+function withDims(tensor: OnnxTensor, dims: number[]): OnnxTensor {
+  return { type: tensor.type, dims, data: tensor.data };
+}
+
+/**
+ * Split dims around an axis into (outer, axis length, inner) for axis-wise kernels
+ */
+function splitAtAxis(dims: number[], axis: number): { outer: number; length: number; inner: number } {
+  return {
+    outer: tensorSize(dims.slice(0, axis)),
+    length: dims[axis] ?? 1,
+    inner: tensorSize(dims.slice(axis + 1)),
+  };
+}
+
+function softmax(log: boolean): OnnxOperator {
+  return (inputs, { node, opsetVersion }) => {
+    const x = requireInput(inputs, 0, node);
+    const rank = x.dims.length;
+    const axis = normalizeAxis(attrInt(node, 'axis', opsetVersion >= 13 ? -1 : 1), rank, node);
+    // Before opset 13 the input is coerced to 2D around the axis
+    const { outer, length, inner } = opsetVersion >= 13
+      ? splitAtAxis(x.dims, axis)
+      : { outer: tensorSize(x.dims.slice(0, axis)), length: tensorSize(x.dims.slice(axis)), inner: 1 };
+
+    const out = allocateTensorData(x.type, x.data.length);
+    for (let o = 0; o < outer; o++) {
+      for (let j = 0; j < inner; j++) {
+        const base = o * length * inner + j;
+        let max = -Infinity;
+        for (let k = 0; k < length; k++) {
+          max = Math.max(max, x.data[base + k * inner]);
+        }
+        let sum = 0;
+        for (let k = 0; k < length; k++) {
+          sum += Math.exp(x.data[base + k * inner] - max);
+        }
+        for (let k = 0; k < length; k++) {
+          const shifted = x.data[base + k * inner] - max;
+          out[base + k * inner] = log ? shifted - Math.log(sum) : Math.exp(shifted) / sum;
+        }
+      }
+    }
+    return [{ type: x.type, dims: x.dims.slice(), data: out }];
+  };
+}
+
+function reduce(kind: 'sum' | 'mean' | 'max', axesInputSince: number): OnnxOperator {
+  return (inputs, { node, opsetVersion }) => {
+    const x = requireInput(inputs, 0, node);
+    const rank = x.dims.length;
+    const keepDims = attrInt(node, 'keepdims', 1) === 1;
+    const axesValues = opsetVersion >= axesInputSince ? intValues(inputs[1], node, 'axes') : attrInts(node, 'axes');
+    const noopWithEmptyAxes = attrInt(node, 'noop_with_empty_axes', 0) === 1;
+
+    if ((!axesValues || axesValues.length === 0) && noopWithEmptyAxes) {
+      return [withDims(x, x.dims.slice())];
+    }
+
+    const axes = new Set(
+      axesValues && axesValues.length > 0
+        ? axesValues.map(axis => normalizeAxis(axis, rank, node))
+        : x.dims.map((_, d) => d)
+    );
+    const keptDims = x.dims.map((dim, d) => (axes.has(d) ? 1 : dim));
+    const keptStrides = computeStrides(keptDims);
+    const outSize = tensorSize(keptDims);
+    const accumulators = new Array<number>(outSize).fill(kind === 'max' ? -Infinity : 0);
+
+    for (let i = 0; i < x.data.length; i++) {
+      let remaining = i;
+      let outIndex = 0;
+      for (let d = rank - 1; d >= 0; d--) {
+        const coord = remaining % x.dims[d];
+        remaining = Math.floor(remaining / x.dims[d]);
+        if (!axes.has(d)) {
+          outIndex += coord * keptStrides[d];
+        }
+      }
+      accumulators[outIndex] = kind === 'max'
+        ? Math.max(accumulators[outIndex], x.data[i])
+        : accumulators[outIndex] + x.data[i];
+    }
+
+    if (kind === 'mean') {
+      const count = x.data.length / outSize;
+      for (let i = 0; i < outSize; i++) {
+        accumulators[i] /= count;
+      }
+    }
+
+    const dims = keepDims ? keptDims : x.dims.filter((_, d) => !axes.has(d));
+    return [createTensor(x.type, dims, accumulators)];
+  };
+}
+
+function randomOperator(distribution: 'uniform' | 'normal', like: boolean): OnnxOperator {
+  return (inputs, { node, random }) => {
+    let dims: number[];
+    let type: OnnxDataType;
+    if (like) {
+      const input = requireInput(inputs, 0, node);
+      dims = input.dims.slice();
+      type = node.attributes.has('dtype') ? onnxDataType(attrInt(node, 'dtype', 1)) : input.type;
+    } else {
+      const shape = attrInts(node, 'shape');
+      if (!shape) {
+        throw new Error(`${node.opType} node ${node.name}: missing shape attribute`);
+      }
+      dims = shape;
+      type = onnxDataType(attrInt(node, 'dtype', 1));
+    }
+
+    // An explicit seed attribute pins this node regardless of the run seed
+    const seedAttribute = node.attributes.get('seed')?.f;
+    const next = seedAttribute !== undefined ? createRandomSource(Math.floor(seedAttribute)) : random;
+
+    const values = new Array<number>(tensorSize(dims));
+    if (distribution === 'uniform') {
+      const low = attrFloat(node, 'low', 0);
+      const high = attrFloat(node, 'high', 1);
+      for (let i = 0; i < values.length; i++) {
+        values[i] = low + (high - low) * next();
+      }
+    } else {
+      const mean = attrFloat(node, 'mean', 0);
+      const scale = attrFloat(node, 'scale', 1);
+      for (let i = 0; i < values.length; i++) {
+        // Box-Muller; 1 - u keeps the log argument in (0, 1]
+        const u = 1 - next();
+        const v = next();
+        values[i] = mean + scale * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      }
+    }
+    return [createTensor(type, dims, values)];
+  };
+}
+
+function matMul(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const a = requireInput(inputs, 0, node);
+  const b = requireInput(inputs, 1, node);
+  // 1-D operands are promoted to matrices and the extra dimension removed afterwards
+  const aDims = a.dims.length === 1 ? [1, a.dims[0]] : a.dims;
+  const bDims = b.dims.length === 1 ? [b.dims[0], 1] : b.dims;
+  const m = aDims[aDims.length - 2];
+  const k = aDims[aDims.length - 1];
+  const n = bDims[bDims.length - 1];
+  if (bDims[bDims.length - 2] !== k) {
+    throw new Error(
+      `MatMul node ${node.name}: shapes [${a.dims.join(', ')}] and [${b.dims.join(', ')}] are not compatible`
+    );
+  }
+
+  const aBatch = aDims.slice(0, -2);
+  const bBatch = bDims.slice(0, -2);
+  const batch = broadcastShape(aBatch, bBatch, node);
+  const batchIndexA = broadcastIndex(batch, aBatch);
+  const batchIndexB = broadcastIndex(batch, bBatch);
+  const batches = tensorSize(batch);
+  const out = allocateTensorData(a.type, batches * m * n);
+
+  for (let p = 0; p < batches; p++) {
+    const offsetA = batchIndexA(p) * m * k;
+    const offsetB = batchIndexB(p) * k * n;
+    const offsetOut = p * m * n;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let q = 0; q < k; q++) {
+          sum += a.data[offsetA + i * k + q] * b.data[offsetB + q * n + j];
+        }
+        out[offsetOut + i * n + j] = sum;
+      }
+    }
+  }
+
+  const dims = [...batch];
+  if (a.dims.length > 1) dims.push(m);
+  if (b.dims.length > 1) dims.push(n);
+  return [{ type: a.type, dims, data: out }];
+}
+
+function gemm(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const a = requireInput(inputs, 0, node);
+  const b = requireInput(inputs, 1, node);
+  const c = inputs[2];
+  const alpha = attrFloat(node, 'alpha', 1);
+  const beta = attrFloat(node, 'beta', 1);
+  const transA = attrInt(node, 'transA', 0) === 1;
+  const transB = attrInt(node, 'transB', 0) === 1;
+
+  const [m, k] = transA ? [a.dims[1], a.dims[0]] : [a.dims[0], a.dims[1]];
+  const [kb, n] = transB ? [b.dims[1], b.dims[0]] : [b.dims[0], b.dims[1]];
+  if (k !== kb) {
+    throw new Error(
+      `Gemm node ${node.name}: shapes [${a.dims.join(', ')}] and [${b.dims.join(', ')}] are not compatible`
+    );
+  }
+
+  const dims = [m, n];
+  const indexC = c ? broadcastIndex(dims, c.dims) : undefined;
+  if (c) {
+    broadcastShape(dims, c.dims, node);
+  }
+  const out = allocateTensorData(a.type, m * n);
+
+  for (let i = 0; i < m; i++) {
+    for (let j = 0; j < n; j++) {
+      let sum = 0;
+      for (let q = 0; q < k; q++) {
+        const av = transA ? a.data[q * m + i] : a.data[i * k + q];
+        const bv = transB ? b.data[j * k + q] : b.data[q * n + j];
+        sum += av * bv;
+      }
+      let value = alpha * sum;
+      if (c && indexC) {
+        value += beta * c.data[indexC(i * n + j)];
+      }
+      out[i * n + j] = value;
+    }
+  }
+
+  return [{ type: a.type, dims, data: out }];
+}
+
+function reshape(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  const shape = Array.from(requireInput(inputs, 1, node).data);
+  const allowZero = attrInt(node, 'allowzero', 0) === 1;
+
+  const dims = shape.map((dim, d) => (dim === 0 && !allowZero ? x.dims[d] : dim));
+  const inferred = dims.indexOf(-1);
+  if (inferred >= 0) {
+    const known = dims.reduce((product, dim, d) => (d === inferred ? product : product * dim), 1);
+    dims[inferred] = known === 0 ? 0 : x.data.length / known;
+  }
+  if (tensorSize(dims) !== x.data.length || dims.some(dim => !Number.isInteger(dim) || dim < 0)) {
+    throw new Error(`Reshape node ${node.name}: cannot reshape [${x.dims.join(', ')}] to [${shape.join(', ')}]`);
+  }
+  return [withDims(x, dims)];
+}
+
+function transpose(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  const rank = x.dims.length;
+  const perm = attrInts(node, 'perm') || x.dims.map((_, d) => rank - 1 - d);
+  const dims = perm.map(p => x.dims[p]);
+  const inStrides = computeStrides(x.dims);
+  const out = allocateTensorData(x.type, x.data.length);
+
+  for (let i = 0; i < out.length; i++) {
+    let remaining = i;
+    let inIndex = 0;
+    for (let d = rank - 1; d >= 0; d--) {
+      const coord = remaining % dims[d];
+      remaining = Math.floor(remaining / dims[d]);
+      inIndex += coord * inStrides[perm[d]];
+    }
+    out[i] = x.data[inIndex];
+  }
+  return [{ type: x.type, dims, data: out }];
+}
+
+function concat(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const tensors = inputs.filter((input): input is OnnxTensor => input !== undefined);
+  if (tensors.length === 0) {
+    throw new Error(`Concat node ${node.name}: no inputs`);
+  }
+  const first = tensors[0];
+  const axis = normalizeAxis(attrInt(node, 'axis', 0), first.dims.length, node);
+  const dims = first.dims.slice();
+  dims[axis] = tensors.reduce((total, tensor) => total + tensor.dims[axis], 0);
+
+  const outer = tensorSize(first.dims.slice(0, axis));
+  const inner = tensorSize(first.dims.slice(axis + 1));
+  const out = allocateTensorData(first.type, tensorSize(dims));
+  let offset = 0;
+  for (let o = 0; o < outer; o++) {
+    for (const tensor of tensors) {
+      const block = tensor.dims[axis] * inner;
+      out.set(tensor.data.subarray(o * block, (o + 1) * block) as any, offset);
+      offset += block;
+    }
+  }
+  return [{ type: first.type, dims, data: out }];
+}
+
+function gather(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const data = requireInput(inputs, 0, node);
+  const indices = requireInput(inputs, 1, node);
+  const axis = normalizeAxis(attrInt(node, 'axis', 0), data.dims.length, node);
+  const { outer, length, inner } = splitAtAxis(data.dims, axis);
+  const dims = [...data.dims.slice(0, axis), ...indices.dims, ...data.dims.slice(axis + 1)];
+  const out = allocateTensorData(data.type, tensorSize(dims));
+
+  let offset = 0;
+  for (let o = 0; o < outer; o++) {
+    for (let n = 0; n < indices.data.length; n++) {
+      let index = indices.data[n];
+      if (index < 0) index += length;
+      if (index < 0 || index >= length) {
+        throw new Error(`Gather node ${node.name}: index ${indices.data[n]} is out of range for axis size ${length}`);
+      }
+      const start = (o * length + index) * inner;
+      out.set(data.data.subarray(start, start + inner) as any, offset);
+      offset += inner;
+    }
+  }
+  return [{ type: data.type, dims, data: out }];
+}
+
+function squeeze(inputs: Array<OnnxTensor | undefined>, { node, opsetVersion }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  const axesValues = opsetVersion >= 13 ? intValues(inputs[1], node, 'axes') : attrInts(node, 'axes');
+  const axes = axesValues
+    ? new Set(axesValues.map(axis => normalizeAxis(axis, x.dims.length, node)))
+    : new Set(x.dims.map((dim, d) => (dim === 1 ? d : -1)).filter(d => d >= 0));
+
+  for (const axis of axes) {
+    if (x.dims[axis] !== 1) {
+      throw new Error(`Squeeze node ${node.name}: dimension ${axis} has size ${x.dims[axis]}`);
+    }
+  }
+  return [withDims(x, x.dims.filter((_, d) => !axes.has(d)))];
+}
+
+function unsqueeze(inputs: Array<OnnxTensor | undefined>, { node, opsetVersion }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  const axesValues = opsetVersion >= 13 ? intValues(inputs[1], node, 'axes') : attrInts(node, 'axes');
+  if (!axesValues) {
+    throw new Error(`Unsqueeze node ${node.name}: missing axes`);
+  }
+  const rank = x.dims.length + axesValues.length;
+  const axes = axesValues.map(axis => normalizeAxis(axis, rank, node)).sort((a, b) => a - b);
+  const dims = x.dims.slice();
+  for (const axis of axes) {
+    dims.splice(axis, 0, 1);
+  }
+  return [withDims(x, dims)];
+}
+
+function flatten(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  let axis = attrInt(node, 'axis', 1);
+  if (axis < 0) axis += x.dims.length;
+  return [withDims(x, [tensorSize(x.dims.slice(0, axis)), tensorSize(x.dims.slice(axis))])];
+}
+
+function argMax(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  const axis = normalizeAxis(attrInt(node, 'axis', 0), x.dims.length, node);
+  const keepDims = attrInt(node, 'keepdims', 1) === 1;
+  const selectLast = attrInt(node, 'select_last_index', 0) === 1;
+  const { outer, length, inner } = splitAtAxis(x.dims, axis);
+  const values = new Array<number>(outer * inner);
+
+  for (let o = 0; o < outer; o++) {
+    for (let j = 0; j < inner; j++) {
+      let best = 0;
+      for (let k = 1; k < length; k++) {
+        const value = x.data[(o * length + k) * inner + j];
+        const current = x.data[(o * length + best) * inner + j];
+        if (value > current || (selectLast && value === current)) {
+          best = k;
+        }
+      }
+      values[o * inner + j] = best;
+    }
+  }
+
+  const dims = keepDims ? x.dims.map((dim, d) => (d === axis ? 1 : dim)) : x.dims.filter((_, d) => d !== axis);
+  return [createTensor('int64', dims, values)];
+}
+
+function layerNormalization(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const x = requireInput(inputs, 0, node);
+  const scale = requireInput(inputs, 1, node);
+  const bias = inputs[2];
+  const axis = normalizeAxis(attrInt(node, 'axis', -1), x.dims.length, node);
+  const epsilon = attrFloat(node, 'epsilon', 1e-5);
+  const outer = tensorSize(x.dims.slice(0, axis));
+  const inner = tensorSize(x.dims.slice(axis));
+  const out = allocateTensorData(x.type, x.data.length);
+
+  for (let o = 0; o < outer; o++) {
+    const base = o * inner;
+    let mean = 0;
+    for (let j = 0; j < inner; j++) mean += x.data[base + j];
+    mean /= inner;
+    let variance = 0;
+    for (let j = 0; j < inner; j++) variance += (x.data[base + j] - mean) ** 2;
+    variance /= inner;
+    const invStdDev = 1 / Math.sqrt(variance + epsilon);
+    for (let j = 0; j < inner; j++) {
+      const normalized = (x.data[base + j] - mean) * invStdDev;
+      out[base + j] = normalized * scale.data[j % scale.data.length] + (bias ? bias.data[j % bias.data.length] : 0);
+    }
+  }
+  return [{ type: x.type, dims: x.dims.slice(), data: out }];
+}
+
+function constant(inputs: Array<OnnxTensor | undefined>, { node }: OnnxOperatorContext): OnnxTensor[] {
+  const value = node.attributes.get('value')?.t;
+  if (value) {
+    return [value];
+  }
+  const valueFloat = node.attributes.get('value_float')?.f;
+  if (valueFloat !== undefined) {
+    return [createTensor('float32', [], [valueFloat])];
+  }
+  const valueFloats = node.attributes.get('value_floats')?.floats;
+  if (valueFloats) {
+    return [createTensor('float32', [valueFloats.length], valueFloats)];
+  }
+  const valueInt = node.attributes.get('value_int')?.i;
+  if (valueInt !== undefined) {
+    return [createTensor('int64', [], [valueInt])];
+  }
+  const valueInts = attrInts(node, 'value_ints');
+  if (valueInts) {
+    return [createTensor('int64', [valueInts.length], valueInts)];
+  }
+  throw new Error(`Constant node ${node.name}: unsupported value attribute`);
+}
+
+function clip(inputs: Array<OnnxTensor | undefined>, context: OnnxOperatorContext): OnnxTensor[] {
+  const { node, opsetVersion } = context;
+  const min = opsetVersion >= 11
+    ? (inputs[1] ? inputs[1].data[0] : -Infinity)
+    : attrFloat(node, 'min', -Infinity);
+  const max = opsetVersion >= 11
+    ? (inputs[2] ? inputs[2].data[0] : Infinity)
+    : attrFloat(node, 'max', Infinity);
+  return unary(x => Math.min(Math.max(x, min), max))(inputs, context);
+}
+
+export const ONNX_OPERATORS: Record<string, OnnxOperator> = {
+  Add: binary((a, b) => a + b),
+  Sub: binary((a, b) => a - b),
+  Mul: binary((a, b) => a * b),
+  Div: binary((a, b, type) => (INTEGER_TYPES.includes(type) ? Math.trunc(a / b) : a / b)),
+  Pow: binary((a, b) => Math.pow(a, b)),
+  Relu: unary(x => Math.max(x, 0)),
+  LeakyRelu: unary((x, { node }) => (x >= 0 ? x : attrFloat(node, 'alpha', 0.01) * x)),
+  Sigmoid: unary(x => 1 / (1 + Math.exp(-x))),
+  Tanh: unary(x => Math.tanh(x)),
+  Exp: unary(x => Math.exp(x)),
+  Log: unary(x => Math.log(x)),
+  Neg: unary(x => -x),
+  Abs: unary(x => Math.abs(x)),
+  Sqrt: unary(x => Math.sqrt(x)),
+  Reciprocal: unary(x => 1 / x),
+  Floor: unary(x => Math.floor(x)),
+  Ceil: unary(x => Math.ceil(x)),
+  Identity: inputs => [inputs[0] as OnnxTensor],
+  // Inference mode: dropout passes the input through
+  Dropout: (inputs, { node }) => {
+    const x = requireInput(inputs, 0, node);
+    return [x, createTensor('bool', x.dims, 1)];
+  },
+  Clip: clip,
+  Cast: (inputs, { node }) => {
+    const x = requireInput(inputs, 0, node);
+    return [createTensor(onnxDataType(attrInt(node, 'to', 1)), x.dims, x.data)];
+  },
+  MatMul: matMul,
+  Gemm: gemm,
+  Softmax: softmax(false),
+  LogSoftmax: softmax(true),
+  LayerNormalization: layerNormalization,
+  Reshape: reshape,
+  Flatten: flatten,
+  Transpose: transpose,
+  Concat: concat,
+  Squeeze: squeeze,
+  Unsqueeze: unsqueeze,
+  Gather: gather,
+  ReduceSum: reduce('sum', 13),
+  ReduceMean: reduce('mean', 18),
+  ReduceMax: reduce('max', 18),
+  ArgMax: argMax,
+  Shape: (inputs, { node }) => {
+    const x = requireInput(inputs, 0, node);
+    const rank = x.dims.length;
+    const clamp = (value: number) => Math.min(Math.max(value < 0 ? value + rank : value, 0), rank);
+    const dims = x.dims.slice(clamp(attrInt(node, 'start', 0)), clamp(attrInt(node, 'end', rank)));
+    return [createTensor('int64', [dims.length], dims)];
+  },
+  Constant: constant,
+  RandomUniform: randomOperator('uniform', false),
+  RandomNormal: randomOperator('normal', false),
+  RandomUniformLike: randomOperator('uniform', true),
+  RandomNormalLike: randomOperator('normal', true),
+};
@@ -0,0 +1,845 @@
+/**
+ * Protocol API Router
+ *
+ * HTTP/JSON API for the TDCP operations, built on the Fetch API (Request -> Response),
+ * so the same router runs on Node.js 18+, Cloudflare Workers, Bun and Deno:
+ *
+ *   const router = new ProtocolApiRouter(logger, { protocolService, taskService });
+ *   export default { fetch: (request: Request) => router.handle(request) };      // Workers / Bun / Deno
+ *
+ * - Request bodies are checked against the route's JSON schema, then with InputValidator
+ * - Mutations must be signed (EIP-191) by the address that acts in the body
+ *   (creator, depositor, miner, validator or user); see buildRequestSigningMessage
+ * - Every error is returned as { error: { code, message, details? } } with a fixed status per code
+ * - GET /openapi.json serves an OpenAPI 3.1 document generated from the same route table
+ */
+
+import { ethers } from 'ethers';
+import type { ProtocolServiceRefactored } from './ProtocolServiceRefactored';
+import type { TaskServiceRefactored } from './TaskServiceRefactored';
+import { ILogger } from './utils/ILogger';
+import { InputValidator } from './InputValidator';
+import { JSONSchemaValidator } from './JSONSchemaValidator';
+import { SignatureVerificationService } from './SignatureVerificationService';
+import { getNetworkSigningDomain } from './ProtocolTypedData';
+import { IllegalTaskTransitionError } from './TaskStateMachine';
+import { NetworkCreationRequest, NetworkManifest } from './types';
+
+/**
+ * Error codes returned by the API
+ */
+export type ProtocolApiErrorCode =
+  | 'INVALID_JSON'
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CONFLICT'
+  | 'INTERNAL_ERROR';
+
+const STATUS_BY_CODE: Record<ProtocolApiErrorCode, number> = {
+  INVALID_JSON: 400,
+  VALIDATION_FAILED: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  CONFLICT: 409,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * Thrown by route handlers; rendered as the error body with the code's status
+ */
+export class ProtocolApiError extends Error {
+  readonly code: ProtocolApiErrorCode;
+  readonly status: number;
+  readonly details?: string[];
+
+  constructor(code: ProtocolApiErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.name = 'ProtocolApiError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.details = details;
+    Object.setPrototypeOf(this, ProtocolApiError.prototype);
+  }
+}
+
+/**
+ * Headers carrying the request signature
+ */
+export const SIGNATURE_HEADERS = {
+  address: 'X-Tenseuron-Address',
+  timestamp: 'X-Tenseuron-Timestamp',   // Unix ms
+  signature: 'X-Tenseuron-Signature',   // EIP-191 signature of buildRequestSigningMessage(...)
+};
+
+/**
+ * Message a client signs (EIP-191) to authenticate a mutation
+ * path is the URL pathname as requested (including any base path); body is the raw request body
+ */
+export function buildRequestSigningMessage(method: string, path: string, timestamp: number, body: string): string {
+  return JSON.stringify({
+    method: method.toUpperCase(),
+    path,
+    timestamp,
+    bodyHash: ethers.id(body),
+  });
+}
+
+export interface ProtocolApiRouterDependencies {
+  protocolService: Pick<
+    ProtocolServiceRefactored,
+    'createNetwork' | 'getNetworkManifest' | 'listNetworks' | 'getDeploymentStatus'
+  >;
+  taskService: Pick<
+    TaskServiceRefactored,
+    | 'getTaskState' | 'submitTask' | 'addMinerOutput' | 'addValidatorEvaluation' | 'addHumanSelection' | 'userRejectAndRedo'
+    | 'claimTask' | 'renewClaim' | 'releaseClaim'
+  >;
+  inputValidator?: InputValidator;
+  signatureVerificationService?: SignatureVerificationService;
+}
+
+export interface ProtocolApiRouterOptions {
+  basePath: string;           // Prefix stripped before routing (e.g. '/v1')
+  maxClockSkewMs: number;     // Accepted age of a signed request; signatures are single-use within it
+  title: string;              // OpenAPI info
+  version: string;
+  serverUrl?: string;         // OpenAPI servers[0].url
+}
+
+const DEFAULT_OPTIONS: ProtocolApiRouterOptions = {
+  basePath: '',
+  maxClockSkewMs: 5 * 60 * 1000, // 5 minutes
+  title: 'Tenseuron Protocol API',
+  version: '1.0.0',
+};
+
+type HttpMethod = 'GET' | 'POST';
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  signer?: string;            // Authenticated address (mutations only)
+}
+
+interface QueryParameter {
+  name: string;
+  description: string;
+  schema: object;
+}
+
+interface RouteDefinition {
+  method: HttpMethod;
+  path: string;               // Template, e.g. /tasks/{taskId}
+  operationId: string;
+  summary: string;
+  tag: 'networks' | 'tasks' | 'meta';
+  query?: QueryParameter[];
+  body?: object;              // JSON schema of the request body
+  signerField?: string;       // Mutations: body field that must equal the signing address
+  successStatus?: number;
+  handler: (context: RouteContext) => Promise<any>;
+}
+
+interface CompiledRoute extends RouteDefinition {
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+const ADDRESS_SCHEMA = { type: 'string', minLength: 1, maxLength: 100 };
+
+const LEASE_SCHEMA = { type: 'integer', minimum: 1 }; // Requested lease (ms); capped by TaskClaimService
+
+const NETWORK_STATUSES = ['pending', 'deploying', 'deployed', 'active', 'graduated'];
+
+export class ProtocolApiRouter {
+  private logger: ILogger;
+  private protocolService: ProtocolApiRouterDependencies['protocolService'];
+  private taskService: ProtocolApiRouterDependencies['taskService'];
+  private inputValidator: InputValidator;
+  private jsonSchemaValidator: JSONSchemaValidator;
+  private signatureVerificationService: SignatureVerificationService;
+  private options: ProtocolApiRouterOptions;
+  private routes: CompiledRoute[];
+  // Signatures seen within the clock-skew window: signature -> expiry (ms)
+  private usedSignatures: Map<string, number> = new Map();
+
+  constructor(
+    logger: ILogger,
+    dependencies: ProtocolApiRouterDependencies,
+    options: Partial<ProtocolApiRouterOptions> = {}
+  ) {
+    this.logger = logger;
+    this.protocolService = dependencies.protocolService;
+    this.taskService = dependencies.taskService;
+    this.inputValidator = dependencies.inputValidator || new InputValidator(logger);
+    this.jsonSchemaValidator = new JSONSchemaValidator(logger);
+    this.signatureVerificationService =
+      dependencies.signatureVerificationService || new SignatureVerificationService(logger);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.routes = this.defineRoutes().map(route => this.compile(route));
+  }
+
+  /**
+   * Handle one request; never throws
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+
+    try {
+      const path = this.stripBasePath(url.pathname);
+      const candidates = path === null ? [] : this.routes
+        .map(route => ({ route, match: route.pattern.exec(path) }))
+        .filter(c => c.match !== null);
+
+      if (candidates.length === 0) {
+        throw new ProtocolApiError('NOT_FOUND', `No route for ${url.pathname}`);
+      }
+
+      const candidate = candidates.find(c => c.route.method === method);
+      if (!candidate) {
+        throw new ProtocolApiError('METHOD_NOT_ALLOWED', `${method} is not allowed on ${url.pathname}`);
+      }
+
+      const { route, match } = candidate;
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, i) => {
+        try {
+          params[name] = decodeURIComponent(match![i + 1]);
+        } catch {
+          throw new ProtocolApiError('VALIDATION_FAILED', `Path parameter ${name} is not valid percent-encoding`);
+        }
+      });
+
+      const context: RouteContext = { params, query: url.searchParams, body: undefined };
+
+      if (route.method === 'POST') {
+        const rawBody = await request.text();
+        context.signer = this.authenticate(request, url.pathname, rawBody);
+        context.body = this.parseBody(rawBody, route);
+
+        const actor = context.body[route.signerField!];
+        if (typeof actor !== 'string' || actor.toLowerCase() !== context.signer.toLowerCase()) {
+          throw new ProtocolApiError('FORBIDDEN', `Request must be signed by ${route.signerField}`);
+        }
+      }
+
+      const result = await route.handler(context);
+      return this.json(route.successStatus || 200, result);
+    } catch (error) {
+      return this.errorResponse(error, method, url.pathname);
+    }
+  }
+
+  /**
+   * OpenAPI 3.1 document for the routes this router serves
+   */
+  getOpenApiDocument(): Record<string, any> {
+    const paths: Record<string, any> = {};
+
+    for (const route of this.routes) {
+      const parameters: any[] = route.paramNames.map(name => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      }));
+      for (const q of route.query || []) {
+        parameters.push({ name: q.name, in: 'query', required: false, description: q.description, schema: q.schema });
+      }
+
+      const operation: Record<string, any> = {
+        operationId: route.operationId,
+        summary: route.summary,
+        tags: [route.tag],
+        responses: {
+          [String(route.successStatus || 200)]: {
+            description: 'Success',
+            content: { 'application/json': { schema: { type: 'object' } } },
+          },
+          default: { $ref: '#/components/responses/Error' },
+        },
+      };
+      if (parameters.length > 0) {
+        operation.parameters = parameters;
+      }
+      if (route.body) {
+        operation.requestBody = {
+          required: true,
+          content: { 'application/json': { schema: route.body } },
+        };
+        operation.security = [{ tenseuronSignature: [] }];
+        operation.description = `Must be signed by the address in \`${route.signerField}\`.`;
+      }
+
+      paths[route.path] = paths[route.path] || {};
+      paths[route.path][route.method.toLowerCase()] = operation;
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: { title: this.options.title, version: this.options.version },
+      ...(this.options.serverUrl ? { servers: [{ url: this.options.serverUrl + this.options.basePath }] } : {}),
+      tags: [
+        { name: 'networks', description: 'Network creation and discovery' },
+        { name: 'tasks', description: 'Task lifecycle: submit, mine, evaluate, select' },
+        { name: 'meta', description: 'API metadata' },
+      ],
+      paths,
+      components: {
+        securitySchemes: {
+          tenseuronSignature: {
+            type: 'apiKey',
+            in: 'header',
+            name: SIGNATURE_HEADERS.signature,
+            description:
+              `EIP-191 signature of JSON.stringify({ method, path, timestamp, bodyHash }) where bodyHash is ` +
+              `keccak256 of the raw body. Also send ${SIGNATURE_HEADERS.address} and ${SIGNATURE_HEADERS.timestamp} (Unix ms).`,
+          },
+        },
+        responses: {
+          Error: {
+            description: 'Error',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+          },
+        },
+        schemas: {
+          Error: {
+            type: 'object',
+            required: ['error'],
+            properties: {
+              error: {
+                type: 'object',
+                required: ['code', 'message'],
+                properties: {
+                  code: { type: 'string', enum: Object.keys(STATUS_BY_CODE) },
+                  message: { type: 'string' },
+                  details: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Route table (also the source of the OpenAPI document)
+   */
+  private defineRoutes(): RouteDefinition[] {
+    return [
+      {
+        method: 'GET',
+        path: '/openapi.json',
+        operationId: 'getOpenApiDocument',
+        summary: 'OpenAPI document for this API',
+        tag: 'meta',
+        handler: async () => this.getOpenApiDocument(),
+      },
+      {
+        method: 'GET',
+        path: '/networks',
+        operationId: 'listNetworks',
+        summary: 'List network IDs',
+        tag: 'networks',
+        query: [
+          { name: 'status', description: 'Network status', schema: { type: 'string', enum: NETWORK_STATUSES } },
+          { name: 'category', description: 'Network category', schema: { type: 'string' } },
+          { name: 'limit', description: 'Page size', schema: { type: 'integer', minimum: 1, maximum: 1000 } },
+          { name: 'offset', description: 'Page offset', schema: { type: 'integer', minimum: 0 } },
+        ],
+        handler: async ({ query }) => {
+          const status = query.get('status') || undefined;
+          if (status && !NETWORK_STATUSES.includes(status)) {
+            throw new ProtocolApiError('VALIDATION_FAILED', `status must be one of: ${NETWORK_STATUSES.join(', ')}`);
+          }
+          const networkIds = await this.protocolService.listNetworks({
+            status: status as any,
+            category: query.get('category') || undefined,
+            limit: this.parseInteger(query, 'limit', 1, 1000),
+            offset: this.parseInteger(query, 'offset', 0),
+          });
+          return { networkIds };
+        },
+      },
+      {
+        method: 'POST',
+        path: '/networks',
+        operationId: 'createNetwork',
+        summary: 'Create a network',
+        tag: 'networks',
+        signerField: 'creatorAddress',
+        successStatus: 201,
+        body: {
+          type: 'object',
+          required: ['name', 'description', 'category', 'moduleId', 'creatorAddress', 'creatorSignature'],
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            category: { type: 'string' },
+            moduleId: { type: 'string' },
+            creatorAddress: ADDRESS_SCHEMA,
+            creatorSignature: { type: 'string' },
+          },
+        },
+        handler: async ({ body }) => {
+          const request = body as NetworkCreationRequest;
+          this.assertValid(await this.inputValidator.validateNetworkCreationRequest(request));
+          return this.protocolService.createNetwork(request);
+        },
+      },
+      {
+        method: 'GET',
+        path: '/networks/{networkId}/manifest',
+        operationId: 'getNetworkManifest',
+        summary: 'Network manifest by network ID or manifest CID',
+        tag: 'networks',
+        handler: async ({ params }) => this.loadManifest(params.networkId),
+      },
+      {
+        method: 'GET',
+        path: '/networks/{networkId}/status',
+        operationId: 'getDeploymentStatus',
+        summary: 'Deployment status and task statistics of a network',
+        tag: 'networks',
+        handler: async ({ params }) => {
+          const status = await this.protocolService.getDeploymentStatus(params.networkId);
+          if (!status) {
+            throw new ProtocolApiError('NOT_FOUND', `Network not found: ${params.networkId}`);
+          }
+          return status;
+        },
+      },
+      {
+        method: 'POST',
+        path: '/networks/{networkId}/tasks',
+        operationId: 'submitTask',
+        summary: 'Submit a task',
+        tag: 'tasks',
+        signerField: 'depositorAddress',
+        successStatus: 201,
+        body: {
+          type: 'object',
+          required: ['taskId', 'input', 'depositorAddress', 'depositAmount'],
+          properties: {
+            taskId: { type: 'string', minLength: 1, maxLength: 100 },
+            input: { type: 'object' },
+            depositorAddress: ADDRESS_SCHEMA,
+            depositAmount: { type: 'string' },
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          const manifest = await this.loadManifest(params.networkId);
+          this.assertValid(this.inputValidator.validateTaskSubmission(
+            body.taskId,
+            params.networkId,
+            body.input,
+            body.depositorAddress,
+            body.depositAmount,
+            manifest
+          ));
+          return this.taskService.submitTask(
+            body.taskId,
+            params.networkId,
+            body.input,
+            body.depositorAddress,
+            body.depositAmount,
+            manifest
+          );
+        },
+      },
+      {
+        method: 'GET',
+        path: '/tasks/{taskId}',
+        operationId: 'getTaskState',
+        summary: 'Task state with outputs and evaluations',
+        tag: 'tasks',
+        handler: async ({ params }) => this.loadTask(params.taskId),
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/outputs',
+        operationId: 'addMinerOutput',
+        summary: 'Submit a miner output',
+        tag: 'tasks',
+        signerField: 'minerAddress',
+        successStatus: 201,
+        body: {
+          type: 'object',
+          required: ['output', 'minerAddress'],
+          properties: {
+            output: {},
+            minerAddress: ADDRESS_SCHEMA,
+            metadata: { type: 'object' },
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          const task = await this.loadTask(params.taskId);
+          const manifest = await this.loadManifest(task.networkId);
+          return this.taskService.addMinerOutput(params.taskId, body.output, body.minerAddress, manifest, body.metadata);
+        },
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/claim',
+        operationId: 'claimTask',
+        summary: 'Claim a task before executing it',
+        tag: 'tasks',
+        signerField: 'minerAddress',
+        successStatus: 201,
+        body: {
+          type: 'object',
+          required: ['minerAddress'],
+          properties: {
+            minerAddress: ADDRESS_SCHEMA,
+            leaseMs: LEASE_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          const task = await this.loadTask(params.taskId);
+          const manifest = await this.loadManifest(task.networkId);
+          const claim = await this.taskService.claimTask(params.taskId, body.minerAddress, manifest, body.leaseMs);
+          if (!claim) {
+            throw new ProtocolApiError('CONFLICT', `Task ${params.taskId} is claimed by another miner or already has its output`);
+          }
+          return claim;
+        },
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/claim/renew',
+        operationId: 'renewClaim',
+        summary: 'Extend a live claim',
+        tag: 'tasks',
+        signerField: 'minerAddress',
+        body: {
+          type: 'object',
+          required: ['minerAddress'],
+          properties: {
+            minerAddress: ADDRESS_SCHEMA,
+            leaseMs: LEASE_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => this.taskService.renewClaim(params.taskId, body.minerAddress, body.leaseMs),
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/claim/release',
+        operationId: 'releaseClaim',
+        summary: 'Give up a claim without submitting',
+        tag: 'tasks',
+        signerField: 'minerAddress',
+        body: {
+          type: 'object',
+          required: ['minerAddress'],
+          properties: {
+            minerAddress: ADDRESS_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          await this.taskService.releaseClaim(params.taskId, body.minerAddress);
+          return { taskId: params.taskId, minerAddress: body.minerAddress, released: true };
+        },
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/evaluations',
+        operationId: 'addValidatorEvaluation',
+        summary: 'Submit a signed validator evaluation',
+        tag: 'tasks',
+        signerField: 'validatorAddress',
+        successStatus: 201,
+        body: {
+          type: 'object',
+          required: ['validatorAddress', 'outputId', 'score', 'confidence', 'signature', 'timestamp'],
+          properties: {
+            validatorAddress: ADDRESS_SCHEMA,
+            outputId: { type: 'string' },
+            score: { type: 'number' },
+            confidence: { type: 'number' },
+            signature: { type: 'string' },
+            timestamp: { type: 'integer' }, // Signed evaluation time (Unix ms), see buildValidatorEvaluationTypedData
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          this.assertValid(this.inputValidator.validateValidatorEvaluation(
+            body.validatorAddress,
+            body.outputId,
+            body.score,
+            body.confidence,
+            body.signature
+          ));
+
+          const task = await this.loadTask(params.taskId);
+          const manifest = await this.loadManifest(task.networkId);
+          const verification = this.signatureVerificationService.verifyTaskEvaluationSignatures(
+            task.networkId,
+            params.taskId,
+            [body],
+            { domain: getNetworkSigningDomain(manifest) }
+          );
+          if (!verification.allValid) {
+            throw new ProtocolApiError(
+              'UNAUTHORIZED',
+              'Evaluation signature does not match validatorAddress',
+              verification.invalidEvaluations.flatMap(e => e.errors)
+            );
+          }
+
+          return this.taskService.addValidatorEvaluation(
+            params.taskId,
+            body.validatorAddress,
+            body.outputId,
+            body.score,
+            body.confidence,
+            body.signature,
+            manifest,
+            { timestamp: body.timestamp }
+          );
+        },
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/selection',
+        operationId: 'addHumanSelection',
+        summary: 'Select the winning output (human-in-the-loop networks)',
+        tag: 'tasks',
+        signerField: 'userAddress',
+        body: {
+          type: 'object',
+          required: ['selectedOutputId', 'userAddress'],
+          properties: {
+            selectedOutputId: { type: 'string', minLength: 1 },
+            userAddress: ADDRESS_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          const task = await this.loadTask(params.taskId);
+          this.assertDepositor(task.submission.depositorAddress, body.userAddress);
+          const manifest = await this.loadManifest(task.networkId);
+          return this.taskService.addHumanSelection(params.taskId, body.selectedOutputId, body.userAddress, manifest);
+        },
+      },
+      {
+        method: 'POST',
+        path: '/tasks/{taskId}/reject',
+        operationId: 'userRejectAndRedo',
+        summary: 'Reject the result and request a redo',
+        tag: 'tasks',
+        signerField: 'userAddress',
+        successStatus: 201,
+        body: {
+          type: 'object',
+          required: ['userAddress'],
+          properties: {
+            userAddress: ADDRESS_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        handler: async ({ params, body }) => {
+          const task = await this.loadTask(params.taskId);
+          this.assertDepositor(task.submission.depositorAddress, body.userAddress);
+          const manifest = await this.loadManifest(task.networkId);
+          return this.taskService.userRejectAndRedo(params.taskId, body.userAddress, manifest);
+        },
+      },
+    ];
+  }
+
+  /**
+   * Verify the request signature headers; returns the signing address
+   */
+  private authenticate(request: Request, path: string, rawBody: string): string {
+    const address = request.headers.get(SIGNATURE_HEADERS.address);
+    const timestampHeader = request.headers.get(SIGNATURE_HEADERS.timestamp);
+    const signature = request.headers.get(SIGNATURE_HEADERS.signature);
+
+    if (!address || !timestampHeader || !signature) {
+      throw new ProtocolApiError(
+        'UNAUTHORIZED',
+        `Missing signature headers (${Object.values(SIGNATURE_HEADERS).join(', ')})`
+      );
+    }
+
+    const now = Date.now();
+    const timestamp = Number(timestampHeader);
+    if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > this.options.maxClockSkewMs) {
+      throw new ProtocolApiError('UNAUTHORIZED', 'Request timestamp is outside the allowed clock skew');
+    }
+
+    const verification = this.signatureVerificationService.verifySignature(
+      address,
+      signature,
+      buildRequestSigningMessage(request.method, path, timestamp, rawBody)
+    );
+    if (!verification.valid) {
+      throw new ProtocolApiError('UNAUTHORIZED', 'Invalid request signature', verification.errors);
+    }
+
+    // Single-use within the skew window (replay protection)
+    for (const [used, expiresAt] of this.usedSignatures) {
+      if (expiresAt < now) {
+        this.usedSignatures.delete(used);
+      }
+    }
+    const key = signature.toLowerCase();
+    if (this.usedSignatures.has(key)) {
+      throw new ProtocolApiError('UNAUTHORIZED', 'Request signature has already been used');
+    }
+    this.usedSignatures.set(key, timestamp + this.options.maxClockSkewMs);
+
+    return address;
+  }
+
+  private parseBody(rawBody: string, route: CompiledRoute): any {
+    let body: any;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      throw new ProtocolApiError('INVALID_JSON', 'Request body must be valid JSON');
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new ProtocolApiError('VALIDATION_FAILED', 'Request body must be a JSON object');
+    }
+
+    const validation = this.jsonSchemaValidator.validate(body, route.body!, `api-${route.operationId}`);
+    this.assertValid(validation);
+    return body;
+  }
+
+  private parseInteger(query: URLSearchParams, name: string, min: number, max?: number): number | undefined {
+    const raw = query.get(name);
+    if (raw === null) {
+      return undefined;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || (max !== undefined && value > max)) {
+      throw new ProtocolApiError(
+        'VALIDATION_FAILED',
+        `${name} must be an integer${max !== undefined ? ` between ${min} and ${max}` : ` >= ${min}`}`
+      );
+    }
+    return value;
+  }
+
+  private assertValid(validation: { valid: boolean; errors: string[] }): void {
+    if (!validation.valid) {
+      throw new ProtocolApiError('VALIDATION_FAILED', 'Request validation failed', validation.errors);
+    }
+  }
+
+  private assertDepositor(depositorAddress: string, userAddress: string): void {
+    if (depositorAddress.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new ProtocolApiError('FORBIDDEN', 'Only the task depositor can do this');
+    }
+  }
+
+  private async loadManifest(networkIdOrCid: string): Promise<NetworkManifest> {
+    const manifest = await this.protocolService.getNetworkManifest(networkIdOrCid);
+    if (!manifest) {
+      throw new ProtocolApiError('NOT_FOUND', `Network not found: ${networkIdOrCid}`);
+    }
+    return manifest;
+  }
+
+  private async loadTask(taskId: string) {
+    const task = await this.taskService.getTaskState(taskId);
+    if (!task) {
+      throw new ProtocolApiError('NOT_FOUND', `Task not found: ${taskId}`);
+    }
+    return task;
+  }
+
+  private compile(route: RouteDefinition): CompiledRoute {
+    const paramNames: string[] = [];
+    const source = route.path.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{(\w+)\}/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+    return { ...route, pattern: new RegExp(`^${source}/?$`), paramNames };
+  }
+
+  private stripBasePath(pathname: string): string | null {
+    const basePath = this.options.basePath.replace(/\/+$/, '');
+    if (!basePath) {
+      return pathname;
+    }
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      return null;
+    }
+    return pathname.slice(basePath.length) || '/';
+  }
+
+  /**
+   * Map handler and service errors to API errors
+   * Services throw plain Errors, so known messages are matched; anything else is an internal error
+   */
+  private toApiError(error: unknown): ProtocolApiError {
+    if (error instanceof ProtocolApiError) {
+      return error;
+    }
+    if (error instanceof IllegalTaskTransitionError) {
+      return new ProtocolApiError('CONFLICT', error.message);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (/not found/i.test(message)) {
+      return new ProtocolApiError('NOT_FOUND', message);
+    }
+    if (/^(Input|Output) validation failed|^Selected output not in|^Invalid /.test(message)) {
+      return new ProtocolApiError('VALIDATION_FAILED', message);
+    }
+    if (/not qualified/i.test(message)) {
+      return new ProtocolApiError('FORBIDDEN', message);
+    }
+    if (/already|claimed by another|no live claim|not accepting|limit reached|not enabled/i.test(message)) {
+      return new ProtocolApiError('CONFLICT', message);
+    }
+    return new ProtocolApiError('INTERNAL_ERROR', 'Internal error');
+  }
+
+  private errorResponse(error: unknown, method: string, path: string): Response {
+    const apiError = this.toApiError(error);
+
+    if (apiError.code === 'INTERNAL_ERROR') {
+      this.logger.error('Protocol API request failed', {
+        method,
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } else {
+      this.logger.debug('Protocol API request rejected', { method, path, code: apiError.code, message: apiError.message });
+    }
+
+    return this.json(apiError.status, {
+      error: {
+        code: apiError.code,
+        message: apiError.message,
+        ...(apiError.details && apiError.details.length > 0 ? { details: apiError.details } : {}),
+      },
+    });
+  }
+
+  private json(status: number, body: any): Response {
+    return new Response(
+      JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value)),
+      { status, headers: { 'content-type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Protocol Domain Events
+ *
+ * Typed event payloads appended to IEventStore by the task and network
+ * lifecycles. Events are the audit log: TaskStateProjector rebuilds a
+ * TaskState from them without trusting the cached database row.
+ */
+
+import { TaskOutput, ValidatorEvaluation, EvaluationResult, HumanSelection } from './EvaluationService';
+import { TaskSubmission } from './TaskService';
+import { GraduationLevel, GraduationStatus, ManifestRevisionActivation, SettlementAssetBinding } from './types';
+
+export const TASK_AGGREGATE = 'task';
+export const NETWORK_AGGREGATE = 'network';
+
+/**
+ * Task lifecycle events
+ */
+export interface TaskEventPayloads {
+  TaskSubmitted: {
+    submission: TaskSubmission;
+    ipfsCid?: string;
+  };
+  TaskOutputAdded: {
+    output: TaskOutput;
+  };
+  TaskEvaluationAdded: {
+    taskId: string;
+    evaluation: ValidatorEvaluation;
+  };
+  TaskAwaitingSelection: {
+    evaluationResult: EvaluationResult;
+    preFilteredOutputs: string[];
+  };
+  TaskConsensusReached: {
+    winningOutputId: string;
+    evaluationResult?: EvaluationResult;
+  };
+  TaskHumanSelectionAdded: {
+    humanSelection: HumanSelection;
+    evaluationResult: EvaluationResult;
+  };
+  TaskUserRejected: {
+    userAddress: string;
+    redoCount: number;
+    patternHash: string;
+    rejectedValidators: string[];
+    newTaskId: string;
+  };
+  TaskPaid: {
+    paymentTxHash: string;
+  };
+  TaskChallenged: {
+    challengerAddress: string;
+    reason: string;
+    evidenceCid?: string;
+  };
+  TaskChallengeResolved: {
+    disputeId: string;
+    challengerWon: boolean;
+    resolutionMode: 'validator' | 'oracle' | 'governance';
+    resolutionTxHash?: string;
+  };
+  TaskTimedOut: {
+    deadline: number;
+    previousStatus: string;
+    missedMiners?: string[];
+    missedValidators?: string[];
+  };
+}
+
+/**
+ * Network lifecycle events
+ */
+export interface NetworkEventPayloads {
+  NetworkCreated: {
+    name: string;
+    category: string;
+    creatorAddress: string;
+    manifestCid: string;
+    contractAddress?: string;
+    tokenAddress?: string;
+    settlementChain: string;
+  };
+  NetworkAssetBound: {
+    bindingType: SettlementAssetBinding['bindingType'];
+    tokenAddress?: string;
+    bindingTxHash?: string;
+    manifestCid: string;
+  };
+  NetworkGraduated: {
+    previousLevel: GraduationLevel;
+    level: GraduationLevel;
+    conditions: GraduationStatus['conditions'];
+  };
+  NetworkManifestRevised: {
+    revision: number;
+    previousCid: string;
+    manifestCid: string;
+    changedFields: string[];
+    effectiveFrom: ManifestRevisionActivation;
+  };
+}
+
+export type TaskEventType = keyof TaskEventPayloads;
+export type NetworkEventType = keyof NetworkEventPayloads;
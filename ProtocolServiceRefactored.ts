@@ -11,6 +11,9 @@ import {
     NetworkCreationRequest,
     NetworkDeploymentStatus,
     SupportedChain,
+    SettlementAssetBinding,
+    GraduationLevel,
+    GraduationStatus,
 } from './types';
 import { NetworkManifestGenerator } from './NetworkManifestGenerator';
 import { DecentralizedRegistryService } from './DecentralizedRegistryService';
@@ -28,6 +31,9 @@ import {
     IAIModuleRepository,
     ICreatorReputationService,
 } from './interfaces';
+import { IEventStore } from './interfaces/IEventStore';
+import { DomainEventRecorder } from './DomainEventRecorder';
+import { ManifestRevisionService } from './ManifestRevisionService';
 
 export interface ProtocolServiceDependencies {
     // Core repositories (database-agnostic)
@@ -47,6 +53,12 @@ export interface ProtocolServiceDependencies {
     scamDefenseService: ScamDefenseService;
     riskScoringService: RiskScoringService;
     moneyFlowService: MoneyFlowService;
+
+    // Optional event-sourced audit log
+    eventStore?: IEventStore;
+
+    // Manifest revision chains (created from storage and blockchain if omitted)
+    manifestRevisionService?: ManifestRevisionService;
 }
 
 export class ProtocolServiceRefactored {
@@ -63,6 +75,8 @@ export class ProtocolServiceRefactored {
     private scamDefenseService: ScamDefenseService;
     private riskScoringService: RiskScoringService;
     private moneyFlowService: MoneyFlowService;
+    private eventRecorder?: DomainEventRecorder;
+    private manifestRevisionService: ManifestRevisionService;
 
     constructor(logger: ILogger, dependencies: ProtocolServiceDependencies) {
         this.logger = logger;
@@ -78,6 +92,13 @@ export class ProtocolServiceRefactored {
         this.scamDefenseService = dependencies.scamDefenseService;
         this.riskScoringService = dependencies.riskScoringService;
         this.moneyFlowService = dependencies.moneyFlowService;
+        if (dependencies.eventStore) {
+            this.eventRecorder = new DomainEventRecorder(logger, dependencies.eventStore);
+        }
+        this.manifestRevisionService = dependencies.manifestRevisionService || new ManifestRevisionService(logger, {
+            storage: dependencies.storage,
+            getBlockNumber: () => dependencies.blockchain.getBlockNumber(),
+        });
     }
 
     /**
@@ -408,7 +429,15 @@ export class ProtocolServiceRefactored {
                 manifestCid,
             });
 
-
+            await this.eventRecorder?.recordNetworkEvent(finalManifest.networkId, 'NetworkCreated', {
+                name: finalManifest.name,
+                category: finalManifest.category,
+                creatorAddress: finalManifest.creatorAddress,
+                manifestCid,
+                contractAddress,
+                tokenAddress,
+                settlementChain,
+            }, request.creatorAddress);
 
             return {
                 networkId: finalManifest.networkId,
@@ -428,6 +457,7 @@ export class ProtocolServiceRefactored {
 
     /**
      * Get network manifest by network ID or storage CID
+     * A CID returns exactly that document; a network ID returns the revision currently in force
      */
     async getNetworkManifest(networkIdOrCid: string): Promise<NetworkManifest | null> {
         // If it looks like a CID, fetch directly from storage
@@ -447,10 +477,10 @@ export class ProtocolServiceRefactored {
             return null;
         }
 
-        // Fetch manifest from storage
+        // Resolve the revision chain from the newest manifest in storage
         try {
-            const manifest = await this.storage.download(network.manifestCid);
-            return manifest as NetworkManifest;
+            const resolved = await this.manifestRevisionService.resolveLatest(network.manifestCid);
+            return resolved.manifest;
         } catch (error) {
             this.logger.error('Failed to fetch manifest from storage', {
                 networkId: networkIdOrCid,
@@ -525,6 +555,230 @@ export class ProtocolServiceRefactored {
         };
     }
 
+    /**
+     * Bind settlement asset to network
+     * Updates the manifest in storage and the network record
+     */
+    async bindSettlementAsset(networkId: string, binding: SettlementAssetBinding): Promise<{
+        tokenAddress?: string;
+        bindingTxHash?: string;
+        manifest: NetworkManifest;
+    }> {
+        this.logger.info('Binding settlement asset to network', { networkId, bindingType: binding.bindingType });
+
+        const manifest = await this.getHeadManifest(networkId);
+        if (!manifest) {
+            throw new Error('Network not found');
+        }
+
+        // Verify creator
+        if (manifest.creatorAddress.toLowerCase() !== binding.creatorAddress.toLowerCase()) {
+            throw new Error('Only the network creator can bind settlement assets');
+        }
+
+        let tokenAddress: string | undefined;
+
+        if (binding.bindingType === 'native-token' && binding.nativeToken) {
+            tokenAddress = await this.settlementService.deployNetworkToken({
+                networkId,
+                chain: manifest.settlement.chain,
+                token: {
+                    name: binding.nativeToken.name || `${manifest.name} Token`,
+                    symbol: binding.nativeToken.symbol,
+                    totalSupply: binding.nativeToken.totalSupply || manifest.tokenomics?.totalSupply.toString() || '10000000',
+                    design: binding.nativeToken.design || 'standard',
+                    params: binding.nativeToken.params,
+                },
+            });
+            this.logger.info('Native token deployed', { networkId, tokenAddress });
+        } else if (binding.bindingType === 'existing-token' && binding.existingToken) {
+            tokenAddress = binding.existingToken.tokenAddress;
+            this.logger.info('Binding existing token', { networkId, tokenAddress, chain: binding.existingToken.chain });
+        } else if (binding.bindingType === 'credit-based') {
+            this.logger.info('Binding credit-based settlement', { networkId });
+        } else if (binding.bindingType === 'hybrid') {
+            throw new Error('Hybrid binding not yet supported');
+        }
+
+        const updatedManifest = NetworkManifestGenerator.updateManifestWithSettlementAsset(manifest, {
+            bindingType: binding.bindingType,
+            tokenAddress,
+            boundAt: new Date().toISOString(),
+            bindingTxHash: binding.bindingTxHash,
+        });
+
+        const manifestCid = await this.storage.upload(updatedManifest, {
+            name: `network-${networkId}.json`,
+            type: 'application/json',
+        });
+
+        const finalManifest = NetworkManifestGenerator.updateManifestWithDeployment(
+            updatedManifest,
+            updatedManifest.settlement.contractAddress,
+            updatedManifest.settlement.tokenAddress,
+            manifestCid
+        );
+
+        await this.decentralizedRegistry.registerNetworkInLocalIndex(finalManifest);
+        await this.networkRepo.update(networkId, {
+            manifestCid,
+            updatedAt: new Date(),
+        });
+
+        await this.eventRecorder?.recordNetworkEvent(networkId, 'NetworkAssetBound', {
+            bindingType: binding.bindingType,
+            tokenAddress,
+            bindingTxHash: binding.bindingTxHash,
+            manifestCid,
+        }, binding.creatorAddress);
+
+        this.logger.info('Settlement asset bound successfully', { networkId, bindingType: binding.bindingType, tokenAddress });
+
+        return {
+            tokenAddress,
+            bindingTxHash: binding.bindingTxHash,
+            manifest: finalManifest,
+        };
+    }
+
+    /**
+     * Record a graduation level change for a network
+     * Called by the graduation monitor once eligibility has been checked
+     */
+    async markNetworkGraduated(
+        networkId: string,
+        level: GraduationLevel,
+        conditions: GraduationStatus['conditions']
+    ): Promise<NetworkManifest> {
+        const manifest = await this.getHeadManifest(networkId);
+        if (!manifest) {
+            throw new Error('Network not found');
+        }
+
+        const previousLevel = manifest.graduation?.level || 'sandbox';
+        const updatedManifest: NetworkManifest = {
+            ...manifest,
+            graduation: {
+                level,
+                achievedAt: new Date().toISOString(),
+                conditions,
+            },
+        };
+
+        const manifestCid = await this.storage.upload(updatedManifest, {
+            name: `network-${networkId}.json`,
+            type: 'application/json',
+        });
+
+        const finalManifest = NetworkManifestGenerator.updateManifestWithDeployment(
+            updatedManifest,
+            updatedManifest.settlement.contractAddress,
+            updatedManifest.settlement.tokenAddress,
+            manifestCid
+        );
+
+        await this.decentralizedRegistry.registerNetworkInLocalIndex(finalManifest);
+        await this.networkRepo.update(networkId, {
+            manifestCid,
+            status: 'graduated',
+            updatedAt: new Date(),
+        });
+
+        await this.eventRecorder?.recordNetworkEvent(networkId, 'NetworkGraduated', {
+            previousLevel,
+            level,
+            conditions,
+        });
+
+        this.logger.info('Network graduated', { networkId, previousLevel, level });
+
+        return finalManifest;
+    }
+
+    /**
+     * Recorded graduation level of a network (null if the network is unknown to this node)
+     * Read from the head manifest, whose graduation field only markNetworkGraduated writes
+     */
+    async getGraduationLevel(networkId: string): Promise<GraduationLevel | null> {
+        const manifest = await this.getHeadManifest(networkId);
+        if (!manifest) {
+            return null;
+        }
+        return manifest.graduation?.level || 'sandbox';
+    }
+
+    /**
+     * Publish a creator-signed manifest revision (see ManifestRevisionService.createRevision)
+     * The revision must link to the network's newest manifest; it takes effect at its declared block or time
+     * Protocol-managed fields are taken from the newest manifest; the signed settlement chain and contract must match it
+     */
+    async publishManifestRevision(networkId: string, signedRevision: NetworkManifest): Promise<{
+        manifestCid: string;
+        manifest: NetworkManifest;
+    }> {
+        const network = await this.networkRepo.findById(networkId);
+        if (!network || !network.manifestCid) {
+            throw new Error('Network not found');
+        }
+        if (signedRevision.networkId !== networkId) {
+            throw new Error('Revision belongs to a different network');
+        }
+
+        // Settlement, graduation and vesting always come from the head, never from the submitted revision
+        const current = (await this.storage.download(network.manifestCid)) as NetworkManifest;
+        const revision = this.manifestRevisionService.inheritManagedFields(current, signedRevision);
+        const validation = this.manifestRevisionService.validateRevision(current, revision, network.manifestCid);
+        if (!validation.valid) {
+            throw new Error(`Invalid manifest revision: ${validation.errors.join('; ')}`);
+        }
+        if (validation.warnings.length > 0) {
+            this.logger.warn('Manifest revision warnings', { networkId, warnings: validation.warnings });
+        }
+
+        const manifestCid = await this.storage.upload(revision, {
+            name: `network-${networkId}.json`,
+            type: 'application/json',
+        });
+
+        const finalManifest = NetworkManifestGenerator.updateManifestWithDeployment(
+            revision,
+            revision.settlement.contractAddress,
+            revision.settlement.tokenAddress,
+            manifestCid
+        );
+
+        await this.decentralizedRegistry.registerNetworkInLocalIndex(finalManifest);
+        await this.networkRepo.update(networkId, {
+            manifestCid,
+            updatedAt: new Date(),
+        });
+
+        const { number, previousCid, changedFields, effectiveFrom } = revision.revision!;
+        await this.eventRecorder?.recordNetworkEvent(networkId, 'NetworkManifestRevised', {
+            revision: number,
+            previousCid,
+            manifestCid,
+            changedFields,
+            effectiveFrom,
+        }, revision.creatorAddress);
+
+        this.logger.info('Manifest revision published', { networkId, revision: number, changedFields, effectiveFrom });
+
+        return { manifestCid, manifest: finalManifest };
+    }
+
+    /**
+     * Newest published manifest of a network, including revisions not yet in force
+     * Protocol-managed updates (asset binding, graduation) start from it so pending revisions are kept
+     */
+    private async getHeadManifest(networkId: string): Promise<NetworkManifest | null> {
+        const network = await this.networkRepo.findById(networkId);
+        if (!network || !network.manifestCid) {
+            return null;
+        }
+        return (await this.storage.download(network.manifestCid)) as NetworkManifest;
+    }
+
     /**
      * Helper: Check if penalty config is default
      */
@@ -0,0 +1,286 @@
+/**
+ * Protocol Typed Data (EIP-712)
+ *
+ * Domain-separated typed schemas for the messages the protocol asks wallets to sign, so users
+ * see the fields they sign and a signature is bound to one chain (and, where the message is
+ * redeemed on-chain, one contract) instead of being replayable elsewhere:
+ * - ValidatorEvaluation: a validator's score for one output
+ * - HumanSelection: a user's pick among the pre-filtered outputs
+ * - InterNetworkCall: a cross-network task request (payload committed by its canonical hash)
+ * - INCCallback: the destination's signed notice that a call completed, failed or was refunded
+ * - NetworkManifest: the creator's signature over a manifest at creation
+ * - SettlementReceipt: verified by ReceiptRedemption.submitReceipt
+ * - EscrowRelease: verified by TenseuronEscrow.release
+ *
+ * All domains use name "Tenseuron" and version "1", matching domainSeparator() in the contracts.
+ * EIP-191 personal_sign over the legacy message strings stays accepted as a legacy mode.
+ */
+
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers';
+import { canonicalHash } from './utils/CanonicalJson';
+import { hashManifestContent } from './ManifestRevisionService';
+import type { HumanSelection } from './EvaluationService';
+import { INCCallback, InterNetworkCall, NetworkManifest, SettlementReceipt, SupportedChain } from './types';
+
+export const PROTOCOL_DOMAIN_NAME = 'Tenseuron';
+export const PROTOCOL_DOMAIN_VERSION = '1';
+
+export type SignatureScheme = 'eip712' | 'eip191';
+
+/**
+ * EIP-155 chain IDs of the EVM settlement chains (Solana and Tron have no EIP-712 domain)
+ */
+export const EVM_CHAIN_IDS: Partial<Record<SupportedChain, number>> = {
+  ethereum: 1,
+  polygon: 137,
+  bsc: 56,
+  arbitrum: 42161,
+  base: 8453,
+  avalanche: 43114,
+  optimism: 10,
+};
+
+export const PROTOCOL_TYPES = {
+  ValidatorEvaluation: [
+    { name: 'networkId', type: 'string' },
+    { name: 'taskId', type: 'string' },
+    { name: 'outputId', type: 'string' },
+    { name: 'score', type: 'string' },        // Decimal string: scores are not integers
+    { name: 'confidence', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  HumanSelection: [
+    { name: 'networkId', type: 'string' },
+    { name: 'taskId', type: 'string' },
+    { name: 'selectedOutputId', type: 'string' },
+    { name: 'userAddress', type: 'address' },
+    { name: 'preFilteredOutputs', type: 'string[]' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  InterNetworkCall: [
+    { name: 'incId', type: 'string' },
+    { name: 'sourceNetworkId', type: 'string' },
+    { name: 'destinationNetworkId', type: 'string' },
+    { name: 'taskPayloadHash', type: 'bytes32' },
+    { name: 'maxBudget', type: 'uint256' },
+    { name: 'settlementMode', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'maxDepth', type: 'uint256' },
+    { name: 'currentDepth', type: 'uint256' },
+    { name: 'callChain', type: 'string[]' },
+    { name: 'parentIncId', type: 'string' },   // Empty for top-level calls
+  ],
+  INCCallback: [
+    { name: 'incId', type: 'string' },
+    { name: 'sourceNetworkId', type: 'string' },
+    { name: 'destinationNetworkId', type: 'string' },
+    { name: 'status', type: 'string' },
+    { name: 'resultHash', type: 'bytes32' },   // Canonical hash of receipt / failure / refundTxHash
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  NetworkManifest: [
+    { name: 'networkId', type: 'string' },
+    { name: 'creatorAddress', type: 'address' },
+    { name: 'name', type: 'string' },
+    { name: 'createdAt', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },  // hashManifestContent: creator-controlled fields
+  ],
+  SettlementReceipt: [
+    { name: 'networkId', type: 'string' },
+    { name: 'taskId', type: 'bytes32' },
+    { name: 'recipient', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+  EscrowRelease: [
+    { name: 'networkId', type: 'string' },
+    { name: 'taskId', type: 'bytes32' },
+    { name: 'recipient', type: 'address' },
+    { name: 'accepted', type: 'bool' },
+  ],
+} satisfies Record<string, TypedDataField[]>;
+
+export type ProtocolTypedDataType = keyof typeof PROTOCOL_TYPES;
+
+/**
+ * A complete EIP-712 payload: pass domain, types and message to signTypedData / verifyTypedData
+ */
+export interface ProtocolTypedData {
+  primaryType: ProtocolTypedDataType;
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, any>;
+}
+
+/**
+ * Protocol domain for a chain, optionally bound to a contract
+ */
+export function buildProtocolDomain(chainId: number | bigint, verifyingContract?: string): TypedDataDomain {
+  const domain: TypedDataDomain = {
+    name: PROTOCOL_DOMAIN_NAME,
+    version: PROTOCOL_DOMAIN_VERSION,
+    chainId,
+  };
+  if (verifyingContract) {
+    domain.verifyingContract = verifyingContract;
+  }
+  return domain;
+}
+
+/**
+ * Domain for messages signed within a network: its settlement chain, bound to the
+ * settlement contract once one is deployed. Null for non-EVM settlement chains.
+ */
+export function getNetworkSigningDomain(manifest: NetworkManifest): TypedDataDomain | null {
+  const chainId = manifest.settlement ? EVM_CHAIN_IDS[manifest.settlement.chain] : undefined;
+  if (chainId === undefined) {
+    return null;
+  }
+  return buildProtocolDomain(chainId, manifest.settlement.contractAddress);
+}
+
+/**
+ * Domain for the creator's manifest signature: the settlement chain only, since the
+ * settlement contract is deployed after the creator signs. Null for non-EVM settlement chains.
+ */
+export function getManifestSigningDomain(manifest: NetworkManifest): TypedDataDomain | null {
+  const chainId = manifest.settlement ? EVM_CHAIN_IDS[manifest.settlement.chain] : undefined;
+  return chainId === undefined ? null : buildProtocolDomain(chainId);
+}
+
+/**
+ * Task IDs as the contracts see them (bytes32)
+ */
+export function toTaskIdBytes32(taskId: string): string {
+  return ethers.isHexString(taskId, 32) ? taskId : ethers.encodeBytes32String(taskId);
+}
+
+export function buildValidatorEvaluationTypedData(
+  domain: TypedDataDomain,
+  networkId: string,
+  taskId: string,
+  evaluation: { outputId: string; score: number; confidence: number; timestamp: number }
+): ProtocolTypedData {
+  return typedData('ValidatorEvaluation', domain, {
+    networkId,
+    taskId,
+    outputId: evaluation.outputId,
+    score: String(evaluation.score),
+    confidence: String(evaluation.confidence),
+    timestamp: evaluation.timestamp,
+  });
+}
+
+export function buildHumanSelectionTypedData(
+  domain: TypedDataDomain,
+  networkId: string,
+  selection: HumanSelection
+): ProtocolTypedData {
+  return typedData('HumanSelection', domain, {
+    networkId,
+    taskId: selection.taskId,
+    selectedOutputId: selection.selectedOutputId,
+    userAddress: selection.userAddress,
+    preFilteredOutputs: selection.preFilteredOutputs,
+    timestamp: selection.timestamp,
+  });
+}
+
+export function buildInterNetworkCallTypedData(domain: TypedDataDomain, call: InterNetworkCall): ProtocolTypedData {
+  return typedData('InterNetworkCall', domain, {
+    incId: call.incId,
+    sourceNetworkId: call.sourceNetworkId,
+    destinationNetworkId: call.destinationNetworkId,
+    taskPayloadHash: `0x${canonicalHash(call.taskPayload)}`,
+    maxBudget: call.maxBudget,
+    settlementMode: call.settlementMode,
+    timestamp: call.timestamp,
+    maxDepth: call.maxDepth,
+    currentDepth: call.currentDepth,
+    callChain: call.callChain,
+    parentIncId: call.parentIncId ?? '',
+  });
+}
+
+/**
+ * Signed INC callback (the signature fields themselves are not part of the message)
+ */
+export function buildINCCallbackTypedData(
+  domain: TypedDataDomain,
+  callback: Omit<INCCallback, 'signer' | 'scheme' | 'chainId' | 'signature'>
+): ProtocolTypedData {
+  return typedData('INCCallback', domain, {
+    incId: callback.incId,
+    sourceNetworkId: callback.sourceNetworkId,
+    destinationNetworkId: callback.destinationNetworkId,
+    status: callback.status,
+    resultHash: `0x${canonicalHash({
+      receipt: callback.receipt,
+      failure: callback.failure,
+      refundTxHash: callback.refundTxHash,
+    })}`,
+    timestamp: callback.timestamp,
+  });
+}
+
+/**
+ * Creator signature over a manifest (domain: getManifestSigningDomain)
+ */
+export function buildNetworkManifestTypedData(domain: TypedDataDomain, manifest: NetworkManifest): ProtocolTypedData {
+  return typedData('NetworkManifest', domain, {
+    networkId: manifest.networkId,
+    creatorAddress: manifest.creatorAddress,
+    name: manifest.name,
+    createdAt: manifest.createdAt,
+    contentHash: `0x${hashManifestContent(manifest)}`,
+  });
+}
+
+/**
+ * Receipt validators sign for ReceiptRedemption.submitReceipt (domain: the redemption contract)
+ */
+export function buildSettlementReceiptTypedData(
+  domain: TypedDataDomain,
+  receipt: Pick<SettlementReceipt, 'networkId' | 'taskId' | 'recipient' | 'amount' | 'timestamp'>
+): ProtocolTypedData {
+  return typedData('SettlementReceipt', domain, {
+    networkId: receipt.networkId,
+    taskId: toTaskIdBytes32(receipt.taskId),
+    recipient: receipt.recipient,
+    amount: receipt.amount,
+    timestamp: receipt.timestamp,
+  });
+}
+
+/**
+ * Release approval validators sign for TenseuronEscrow.release (domain: the escrow contract)
+ */
+export function buildEscrowReleaseTypedData(
+  domain: TypedDataDomain,
+  networkId: string,
+  taskId: string,
+  recipient: string
+): ProtocolTypedData {
+  return typedData('EscrowRelease', domain, {
+    networkId,
+    taskId: toTaskIdBytes32(taskId),
+    recipient,
+    accepted: true,
+  });
+}
+
+/**
+ * EIP-712 digest (what ecrecover sees on-chain)
+ */
+export function hashProtocolTypedData(data: ProtocolTypedData): string {
+  return ethers.TypedDataEncoder.hash(data.domain, data.types, data.message);
+}
+
+function typedData(
+  primaryType: ProtocolTypedDataType,
+  domain: TypedDataDomain,
+  message: Record<string, any>
+): ProtocolTypedData {
+  // Only the primary type: ethers rejects type sets with more than one root
+  return { primaryType, domain, types: { [primaryType]: PROTOCOL_TYPES[primaryType] }, message };
+}
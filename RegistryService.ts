@@ -8,6 +8,7 @@
 
 import { NetworkManifest } from './types';
 import { ILogger } from './utils/ILogger';
+import { IStorageProvider } from './interfaces/IStorageProvider';
 import axios from 'axios';
 
 export interface PinningService {
@@ -30,6 +31,7 @@ export interface RegistryConfig {
     token?: string; // GitHub token for pushing
   };
   registryIndexCid?: string; // IPFS CID of the registry index (networks.json)
+  storage?: IStorageProvider; // Replaces the public IPFS API/gateway (e.g. LocalFileStorageProvider offline)
 }
 
 export interface NetworkRegistryIndex {
@@ -162,6 +164,12 @@ export class RegistryService {
    * Upload via public IPFS API (less reliable, but free)
    */
   private async uploadViaPublicAPI(manifest: NetworkManifest): Promise<string> {
+    if (this.config.storage) {
+      const cid = await this.config.storage.upload(manifest, { name: `network-${manifest.networkId}.json` });
+      this.logger.info('Manifest uploaded via storage provider', { networkId: manifest.networkId, cid });
+      return cid;
+    }
+
     const formData = new FormData();
     const blob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
     formData.append('file', blob, `network-${manifest.networkId}.json`);
@@ -410,14 +418,11 @@ export class RegistryService {
    */
   async fetchManifest(ipfsCid: string): Promise<NetworkManifest | null> {
     try {
-      const url = `${this.config.ipfsGateway}${ipfsCid}`;
       this.logger.info('Fetching manifest from IPFS', { cid: ipfsCid });
 
-      const response = await axios.get(url, {
-        timeout: 10000,
-      });
-
-      const manifest = response.data as NetworkManifest;
+      const manifest = (this.config.storage
+        ? await this.config.storage.download(ipfsCid)
+        : (await axios.get(`${this.config.ipfsGateway}${ipfsCid}`, { timeout: 10000 })).data) as NetworkManifest;
       
       // Validate manifest structure
       if (!manifest.networkId || !manifest.name) {
@@ -506,18 +511,19 @@ export class RegistryService {
     // Try to fetch from IPFS
     if (this.config.registryIndexCid) {
       try {
-        const url = `${this.config.ipfsGateway}${this.config.registryIndexCid}`;
-        const response = await axios.get<NetworkRegistryIndex>(url, {
-          timeout: 10000,
-        });
+        const index: NetworkRegistryIndex | undefined = this.config.storage
+          ? await this.config.storage.download(this.config.registryIndexCid)
+          : (await axios.get<NetworkRegistryIndex>(`${this.config.ipfsGateway}${this.config.registryIndexCid}`, {
+            timeout: 10000,
+          })).data;
 
-        if (response.data && response.data.networks) {
-          this.registryIndexCache = response.data;
+        if (index && index.networks) {
+          this.registryIndexCache = index;
           this.registryIndexCacheTime = Date.now();
           this.logger.info('Registry index fetched from IPFS', { 
-            networkCount: response.data.networks.length 
+            networkCount: index.networks.length 
           });
-          return response.data;
+          return index;
         }
       } catch (error) {
         this.logger.warn('Failed to fetch registry index from IPFS', { error });
@@ -678,6 +684,10 @@ export class RegistryService {
    * Upload registry index via public IPFS API
    */
   private async uploadIndexViaPublicAPI(index: NetworkRegistryIndex): Promise<string> {
+    if (this.config.storage) {
+      return this.config.storage.upload(index, { name: 'networks.json' });
+    }
+
     const formData = new FormData();
     const blob = new Blob([JSON.stringify(index, null, 2)], { type: 'application/json' });
     formData.append('file', blob, 'networks.json');
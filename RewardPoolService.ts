@@ -106,7 +106,7 @@ export class RewardPoolService {
     manifest: NetworkManifest,
     baseReward: string
   ): Promise<RewardCalculation> {
-    const currentLevel = manifest.graduationStatus?.level || 'sandbox';
+    const currentLevel = manifest.graduation?.level || 'sandbox';
     const unlockFactor = this.getUnlockFactor(currentLevel);
 
     // Get tokenomics from manifest
@@ -10,6 +10,8 @@
 import { ILogger } from './utils/ILogger';
 import { getInvariantChecker } from './InvariantChecker';
 import { ValidatorRiskCorrelation } from './types';
+import { IValidatorRepository } from './interfaces/IValidatorRepository';
+import { ValidatorStateStore } from './ValidatorStateStore';
 
 /**
  * Risk Parameters
@@ -76,9 +78,19 @@ export class RiskScoringService {
   private logger: ILogger;
   private validatorRiskHistory: Map<string, number[]> = new Map(); // validator -> risk scores over time
   private correlationCache: Map<string, ValidatorRiskCorrelation> = new Map(); // key: validatorA:validatorB
+  private stateStore?: ValidatorStateStore<number[]>;
 
-  constructor(logger?: Logger) {
+  // Risk scores kept per validator
+  private readonly RISK_HISTORY_SIZE = 100;
+
+  /**
+   * Pass validatorRepository to persist validator risk history and share it between processes
+   */
+  constructor(logger?: Logger, validatorRepository?: IValidatorRepository) {
     this.logger = logger || new Logger('RiskScoringService');
+    if (validatorRepository) {
+      this.stateStore = new ValidatorStateStore(validatorRepository, 'risk-history', this.logger);
+    }
   }
 
   /**
@@ -385,9 +397,44 @@ export class RiskScoringService {
     history.push(riskScore);
     
     // Keep only last 100 scores
-    if (history.length > 100) {
+    if (history.length > this.RISK_HISTORY_SIZE) {
       history.shift();
     }
+
+    this.stateStore?.updateInBackground(
+      validatorAddress,
+      stored => [...(stored || []), riskScore].slice(-this.RISK_HISTORY_SIZE),
+      saved => this.validatorRiskHistory.set(validatorAddress, saved)
+    );
+  }
+
+  /**
+   * Load validator risk history from the validator repository (all validators, or only the given ones)
+   * Correlation detection compares validators, so load every validator it should see
+   */
+  async loadRiskHistory(validatorAddresses?: string[]): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    if (!validatorAddresses) {
+      this.validatorRiskHistory = await this.stateStore.getAll();
+      return;
+    }
+
+    await Promise.all(validatorAddresses.map(async validatorAddress => {
+      const stored = await this.stateStore!.get(validatorAddress);
+      if (stored) {
+        this.validatorRiskHistory.set(validatorAddress, stored);
+      }
+    }));
+  }
+
+  /**
+   * Wait until risk scores have been written to the validator repository
+   */
+  async flush(): Promise<void> {
+    await this.stateStore?.flush();
   }
 
   /**
@@ -0,0 +1,394 @@
+/**
+ * Scoring Runtime Service
+ *
+ * Fetches, verifies and executes the scoring module declared in
+ * `NetworkManifest.scoringLogic`, so deterministic tasks can be scored by
+ * the protocol itself instead of trusting validator-reported numbers.
+ *
+ * Host ABI (WASM, `scoringLogic.type === 'wasm'`):
+ * - Imports: only `tenseuron.consume_fuel(units: i32)` and, optionally,
+ *   `tenseuron.memory` (a host-provided memory).
+ *   Any other import (WASI, clocks, randomness) is rejected.
+ * - Exports: `memory` (unless imported), `alloc(len: i32) -> i32` and
+ *   `score(inputPtr: i32, inputLen: i32, outputPtr: i32, outputLen: i32) -> f64`.
+ * - Input and output are passed as UTF-8 JSON with sorted keys.
+ * - The returned score must be a finite number in [0, 100].
+ *
+ * Limits do not depend on the module's cooperation: fuel charges are injected into
+ * every function and loop at load time (see utils/WasmMetering), every memory gets a
+ * fixed maximum, and each run happens in a worker thread that is terminated after
+ * `timeoutMs`.
+ *
+ * JS scoring modules (`scoringLogic.type === 'js'`) are rejected: `vm` contexts share
+ * the host's realm internals and cannot contain untrusted code. Compile to WASM instead.
+ */
+
+import { ILogger } from './utils/ILogger';
+import { createHash } from 'crypto';
+import { canonicalize } from './utils/CanonicalJson';
+import { injectWasmMetering } from './utils/WasmMetering';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { NetworkManifest, ScoringType } from './types';
+
+/**
+ * Execution limits for a single scoring run
+ */
+export interface ScoringRuntimeLimits {
+  fuel: number;            // Fuel units (metered instructions) a module may consume per run
+  maxMemoryBytes: number;  // Maximum linear memory for a module
+  timeoutMs: number;       // Wall-clock limit per run
+}
+
+/**
+ * Result of scoring one output
+ */
+export interface ScoringRunResult {
+  score: number;           // Score (0-100)
+  fuelUsed: number;        // Fuel consumed
+  moduleHash: string;      // Verified content hash of the module
+  moduleType: ScoringType;
+}
+
+type ScoringLogic = NetworkManifest['scoringLogic'];
+
+/**
+ * Loaded (verified) scoring module
+ */
+interface LoadedScoringModule {
+  type: ScoringType;
+  hash: string;
+  wasmModule: any; // WebAssembly.Module (metered)
+  importedMemory?: { initial: number; maximum: number };
+}
+
+const WASM_PAGE_SIZE = 64 * 1024;
+
+/**
+ * WebAssembly global (typed loosely: lib is ES2020 without DOM typings)
+ */
+function getWebAssembly(): any {
+  const wasm = (globalThis as any).WebAssembly;
+  if (!wasm) {
+    throw new Error('WebAssembly is not available in this runtime');
+  }
+  return wasm;
+}
+
+const DEFAULT_LIMITS: ScoringRuntimeLimits = {
+  fuel: 10_000_000,
+  maxMemoryBytes: 64 * 1024 * 1024, // 64 MiB
+  timeoutMs: 1000,
+};
+
+/**
+ * One scoring run, as handed to the worker
+ */
+interface ScoringJob {
+  wasmModule: any; // WebAssembly.Module (metered)
+  importedMemory?: { initial: number; maximum: number };
+  inputJson: string;
+  outputJson: string;
+  fuel: number;
+}
+
+/**
+ * Instantiate a metered module and call score()
+ * Must stay self-contained: its source is what the scoring worker runs
+ */
+async function executeScoringModule(job: ScoringJob): Promise<{ score: number; fuelUsed: number }> {
+  let fuelRemaining = job.fuel;
+  const tenseuron: Record<string, unknown> = {
+    consume_fuel: (units: number) => {
+      if (!(units >= 0)) {
+        throw new Error('Scoring module charged negative fuel');
+      }
+      fuelRemaining -= units;
+      if (fuelRemaining < 0) {
+        throw new Error(`Scoring module exhausted fuel limit (${job.fuel})`);
+      }
+    },
+  };
+  if (job.importedMemory) {
+    tenseuron.memory = new (globalThis as any).WebAssembly.Memory(job.importedMemory);
+  }
+
+  const instance = await (globalThis as any).WebAssembly.instantiate(job.wasmModule, { tenseuron });
+  const exports = instance.exports;
+  const memory: { buffer: ArrayBuffer } = exports.memory || tenseuron.memory;
+
+  const encoder = new TextEncoder();
+  const inputBytes = encoder.encode(job.inputJson);
+  const outputBytes = encoder.encode(job.outputJson);
+
+  const inputPtr = exports.alloc(inputBytes.length);
+  const outputPtr = exports.alloc(outputBytes.length);
+  new Uint8Array(memory.buffer, inputPtr, inputBytes.length).set(inputBytes);
+  new Uint8Array(memory.buffer, outputPtr, outputBytes.length).set(outputBytes);
+
+  const score = exports.score(inputPtr, inputBytes.length, outputPtr, outputBytes.length);
+  return { score, fuelUsed: job.fuel - fuelRemaining };
+}
+
+const SCORING_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+(${executeScoringModule.toString()})(workerData).then(
+  result => parentPort.postMessage({ result }),
+  error => parentPort.postMessage({ error: error instanceof Error ? error.message : String(error) })
+);
+`;
+
+export class ScoringRuntimeService {
+  private logger: ILogger;
+  private storage: IStorageProvider;
+  private limits: ScoringRuntimeLimits;
+  private moduleCache: Map<string, LoadedScoringModule> = new Map();
+
+  constructor(logger: ILogger, storage: IStorageProvider, limits?: Partial<ScoringRuntimeLimits>) {
+    this.logger = logger;
+    this.storage = storage;
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /**
+   * Score a single miner output with the manifest's scoring module
+   */
+  async score(scoringLogic: ScoringLogic, input: any, output: any): Promise<ScoringRunResult> {
+    const loaded = await this.loadModule(scoringLogic);
+
+    // Canonical JSON so every validator feeds identical bytes
+    const inputJson = canonicalize(input === undefined ? null : input);
+    const outputJson = canonicalize(output === undefined ? null : output);
+
+    const { score, fuelUsed } = await this.runWasm(loaded, inputJson, outputJson);
+
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+      throw new Error(`Scoring module returned invalid score: ${score}`);
+    }
+
+    return {
+      score,
+      fuelUsed,
+      moduleHash: loaded.hash,
+      moduleType: loaded.type,
+    };
+  }
+
+  /**
+   * Score several outputs against the same input
+   * Outputs that fail to score are reported with an error instead of a score
+   */
+  async scoreOutputs(
+    scoringLogic: ScoringLogic,
+    input: any,
+    outputs: Array<{ outputId: string; output: any }>
+  ): Promise<Map<string, { score?: number; error?: string }>> {
+    const results = new Map<string, { score?: number; error?: string }>();
+
+    for (const { outputId, output } of outputs) {
+      try {
+        const result = await this.score(scoringLogic, input, output);
+        results.set(outputId, { score: result.score });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn('Scoring module failed for output', { outputId, error: message });
+        results.set(outputId, { error: message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Download the scoring module and verify it against the declared hash
+   * Verified modules are cached by hash
+   */
+  async loadModule(scoringLogic: ScoringLogic): Promise<LoadedScoringModule> {
+    const expectedHash = this.normalizeHash(scoringLogic.hash);
+    if (!expectedHash) {
+      throw new Error('Scoring module hash is not declared in manifest');
+    }
+
+    const cached = this.moduleCache.get(expectedHash);
+    if (cached) {
+      return cached;
+    }
+
+    const reference = this.toStorageReference(scoringLogic.url);
+    let raw: any;
+    try {
+      raw = await this.storage.download(reference);
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch scoring module ${reference}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (scoringLogic.type !== 'wasm') {
+      throw new Error(
+        `Unsupported scoring module type: ${scoringLogic.type} (only WASM modules can be sandboxed; compile the scorer to WASM)`
+      );
+    }
+
+    const bytes = this.toBytes(raw, scoringLogic.type);
+    const actualHash = createHash('sha256').update(bytes).digest('hex');
+
+    if (actualHash !== expectedHash) {
+      this.logger.error('Scoring module hash mismatch', {
+        url: scoringLogic.url,
+        expectedHash,
+        actualHash,
+      });
+      throw new Error(`Scoring module hash mismatch: expected ${expectedHash}, got ${actualHash}`);
+    }
+
+    // The interface is checked on the module as published, then the metered rewrite is compiled
+    const wasm = getWebAssembly();
+    this.validateWasmInterface(await wasm.compile(bytes));
+    const metered = injectWasmMetering(bytes, {
+      fuelImport: { module: 'tenseuron', name: 'consume_fuel' },
+      maxMemoryPages: Math.floor(this.limits.maxMemoryBytes / WASM_PAGE_SIZE),
+    });
+    const loaded: LoadedScoringModule = {
+      type: 'wasm',
+      hash: actualHash,
+      wasmModule: await wasm.compile(metered.bytes),
+      importedMemory: metered.importedMemory,
+    };
+
+    this.moduleCache.set(actualHash, loaded);
+    this.logger.info('Scoring module loaded and verified', {
+      type: loaded.type,
+      hash: actualHash,
+      size: bytes.length,
+    });
+
+    return loaded;
+  }
+
+  /**
+   * Check that a WASM module only uses the fixed host ABI
+   */
+  private validateWasmInterface(wasmModule: any): void {
+    const wasm = getWebAssembly();
+    const imports: Array<{ module: string; name: string; kind: string }> = wasm.Module.imports(wasmModule);
+    const exports: Array<{ name: string; kind: string }> = wasm.Module.exports(wasmModule);
+
+    for (const imp of imports) {
+      const allowed =
+        imp.module === 'tenseuron' &&
+        ((imp.name === 'consume_fuel' && imp.kind === 'function') ||
+          (imp.name === 'memory' && imp.kind === 'memory'));
+      if (!allowed) {
+        throw new Error(`Scoring module imports non-ABI symbol: ${imp.module}.${imp.name} (${imp.kind})`);
+      }
+    }
+
+    if (!imports.some(i => i.name === 'consume_fuel')) {
+      throw new Error('Scoring module must import tenseuron.consume_fuel for metering');
+    }
+
+    const hasExport = (name: string, kind: string) => exports.some(e => e.name === name && e.kind === kind);
+    const importsMemory = imports.some(i => i.name === 'memory');
+
+    if (!importsMemory && !hasExport('memory', 'memory')) {
+      throw new Error('Scoring module must export memory or import tenseuron.memory');
+    }
+    if (!hasExport('alloc', 'function')) {
+      throw new Error('Scoring module must export alloc(len)');
+    }
+    if (!hasExport('score', 'function')) {
+      throw new Error('Scoring module must export score(inputPtr, inputLen, outputPtr, outputLen)');
+    }
+  }
+
+  /**
+   * Run a metered module in a worker thread, terminated after timeoutMs
+   * Runtimes without worker_threads (Workers) run it inline, bounded by fuel and the platform's CPU limit
+   */
+  private async runWasm(
+    loaded: LoadedScoringModule,
+    inputJson: string,
+    outputJson: string
+  ): Promise<{ score: number; fuelUsed: number }> {
+    const job: ScoringJob = {
+      wasmModule: loaded.wasmModule,
+      importedMemory: loaded.importedMemory,
+      inputJson,
+      outputJson,
+      fuel: this.limits.fuel,
+    };
+
+    let Worker: typeof import('worker_threads').Worker;
+    try {
+      ({ Worker } = await import('worker_threads'));
+    } catch {
+      this.logger.debug('worker_threads unavailable, running scoring module inline', { hash: loaded.hash });
+      return executeScoringModule(job);
+    }
+
+    const worker = new Worker(SCORING_WORKER_SOURCE, {
+      eval: true,
+      workerData: job,
+      resourceLimits: { maxOldGenerationSizeMb: 32, maxYoungGenerationSizeMb: 8, stackSizeMb: 4 },
+    });
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const finish = (error: Error | null, result?: { score: number; fuelUsed: number }) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate().catch(() => undefined);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error(`Scoring module exceeded time limit (${this.limits.timeoutMs} ms)`)),
+        this.limits.timeoutMs
+      );
+      worker.on('message', (message: { result?: { score: number; fuelUsed: number }; error?: string }) =>
+        finish(message.error !== undefined ? new Error(message.error) : null, message.result)
+      );
+      worker.on('error', error => finish(error));
+      worker.on('exit', code => finish(new Error(`Scoring worker exited with code ${code}`)));
+    });
+  }
+
+  /**
+   * Convert downloaded content to raw module bytes
+   */
+  private toBytes(raw: any, type: ScoringType): Uint8Array {
+    if (raw instanceof Uint8Array) {
+      return raw;
+    }
+    if (raw instanceof ArrayBuffer) {
+      return new Uint8Array(raw);
+    }
+    if (typeof raw === 'string') {
+      // WASM modules served as text are expected to be base64-encoded
+      return type === 'wasm' ? Uint8Array.from(Buffer.from(raw, 'base64')) : new TextEncoder().encode(raw);
+    }
+    throw new Error('Scoring module content must be binary or text');
+  }
+
+  /**
+   * Strip URI schemes so the storage provider receives a bare CID/key
+   */
+  private toStorageReference(url: string): string {
+    if (!url) {
+      throw new Error('Scoring module URL is not declared in manifest');
+    }
+    return url.startsWith('ipfs://') ? url.substring('ipfs://'.length) : url;
+  }
+
+  private normalizeHash(hash: string): string {
+    return (hash || '').toLowerCase().replace(/^0x/, '');
+  }
+
+}
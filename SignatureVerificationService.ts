@@ -2,20 +2,28 @@
  * Signature Verification Service
  * 
  * Provides comprehensive cryptographic verification of validator signatures
- * Uses EIP-191 standard for Ethereum message signing
+ * Uses EIP-712 typed data (ProtocolTypedData) when a signing domain is known, and the
+ * EIP-191 standard for Ethereum message signing as the legacy mode
  * 
  * FULLY IMPLEMENTED: No placeholders, production-ready
  */
 
 import { ILogger } from './utils/ILogger';
-import { ethers } from 'ethers';
-import { createHash } from 'crypto';
+import { ethers, TypedDataDomain } from 'ethers';
+import { canonicalHash } from './utils/CanonicalJson';
+import { buildValidatorEvaluationTypedData, ProtocolTypedData, SignatureScheme } from './ProtocolTypedData';
 
 export interface SignatureVerificationResult {
   valid: boolean;
   recoveredAddress: string;
   errors: string[];
   warnings: string[];
+  scheme?: SignatureScheme;
+}
+
+export interface EvaluationSignatureOptions {
+  domain?: TypedDataDomain | null;  // EIP-712 domain of the network; without one only EIP-191 is checked
+  allowLegacyEip191?: boolean;      // Accept EIP-191 signatures over buildEvaluationMessage (default: true)
 }
 
 export interface ValidatorSignature {
@@ -36,6 +44,41 @@ export interface AggregatedSignature {
   aggregatedHash: string; // Hash of all signatures combined
 }
 
+/**
+ * Aggregated hash over a message hash and its signatures
+ * Canonical JSON of the signature set ordered by validator address, so the hash does not
+ * depend on the order signatures were collected in
+ */
+export function hashAggregatedSignatures(
+  messageHash: string,
+  signatures: Array<{ validatorAddress: string; v: number; r: string; s: string }>
+): string {
+  const signatureSet = signatures
+    .map(({ validatorAddress, r, s, v }) => ({ validatorAddress: validatorAddress.toLowerCase(), r, s, v }))
+    .sort((a, b) => (a.validatorAddress < b.validatorAddress ? -1 : a.validatorAddress > b.validatorAddress ? 1 : 0));
+
+  return `0x${canonicalHash({ messageHash, signatures: signatureSet })}`;
+}
+
+/**
+ * Message a validator signs in legacy mode (EIP-191) for one evaluation
+ * Field order is part of the format: signers and verifiers must both use this
+ */
+export function buildEvaluationMessage(
+  networkId: string,
+  taskId: string,
+  evaluation: { outputId: string; score: number; confidence: number; timestamp: number }
+): string {
+  return JSON.stringify({
+    networkId,
+    taskId,
+    outputId: evaluation.outputId,
+    score: evaluation.score,
+    confidence: evaluation.confidence,
+    timestamp: evaluation.timestamp,
+  });
+}
+
 export class SignatureVerificationService {
   private logger: ILogger;
 
@@ -110,6 +153,58 @@ export class SignatureVerificationService {
     }
   }
 
+  /**
+   * Verify an EIP-712 typed-data signature
+   * Recovers the signer from the digest "\x19\x01" || domainSeparator || hashStruct(message),
+   * the same digest the escrow and receipt redemption contracts recover from
+   */
+  verifyTypedDataSignature(
+    validatorAddress: string,
+    signature: string,
+    typedData: ProtocolTypedData
+  ): SignatureVerificationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!validatorAddress || !validatorAddress.startsWith('0x')) {
+      errors.push('Invalid validator address format');
+      return { valid: false, recoveredAddress: '', errors, warnings };
+    }
+
+    if (!signature || !signature.startsWith('0x') || signature.length !== 132) {
+      errors.push('Invalid signature format (must be 65-byte hex string: 0x + 64 hex chars)');
+      return { valid: false, recoveredAddress: '', errors, warnings };
+    }
+
+    try {
+      const recoveredAddress = ethers.verifyTypedData(
+        typedData.domain,
+        typedData.types,
+        typedData.message,
+        signature
+      );
+
+      if (recoveredAddress.toLowerCase() !== validatorAddress.toLowerCase()) {
+        errors.push(
+          `Typed data signature verification failed: recovered address ${recoveredAddress} does not match validator ${validatorAddress}`
+        );
+        return { valid: false, recoveredAddress, errors, warnings };
+      }
+
+      this.logger.debug('Typed data signature verified successfully', {
+        validatorAddress,
+        primaryType: typedData.primaryType,
+      });
+
+      return { valid: true, recoveredAddress, errors: [], warnings: [], scheme: 'eip712' };
+    } catch (error) {
+      errors.push(
+        `Typed data signature verification error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return { valid: false, recoveredAddress: '', errors, warnings };
+    }
+  }
+
   /**
    * Verify multiple validator signatures
    * Returns results for each signature and overall validation status
@@ -156,7 +251,8 @@ export class SignatureVerificationService {
 
   /**
    * Verify all validator signatures for a task evaluation
-   * Message format: networkId + taskId + outputId + score + confidence + timestamp
+   * With a domain, each signature is checked as EIP-712 ValidatorEvaluation typed data first;
+   * legacy EIP-191 signatures over buildEvaluationMessage are accepted unless disabled
    */
   verifyTaskEvaluationSignatures(
     networkId: string,
@@ -168,42 +264,66 @@ export class SignatureVerificationService {
       confidence: number;
       signature: string;
       timestamp: number;
-    }>
+    }>,
+    options: EvaluationSignatureOptions = {}
   ): {
     allValid: boolean;
     results: Array<SignatureVerificationResult & { validatorAddress: string }>;
     invalidEvaluations: Array<{ validatorAddress: string; errors: string[] }>;
   } {
-    const signatures: ValidatorSignature[] = evaluations.map((eval_) => {
-      // Reconstruct the exact message that was signed
-      const message = JSON.stringify({
-        networkId,
-        taskId,
-        outputId: eval_.outputId,
-        score: eval_.score,
-        confidence: eval_.confidence,
-        timestamp: eval_.timestamp,
-      });
+    const allowLegacy = options.allowLegacyEip191 !== false;
 
-      return {
-        validatorAddress: eval_.validatorAddress,
-        signature: eval_.signature,
-        message,
-      };
-    });
+    const results = evaluations.map((eval_) => {
+      const errors: string[] = [];
 
-    const verification = this.verifyMultipleSignatures(signatures);
+      if (options.domain) {
+        const typedData = buildValidatorEvaluationTypedData(options.domain, networkId, taskId, eval_);
+        const typed = this.verifyTypedDataSignature(eval_.validatorAddress, eval_.signature, typedData);
+        if (typed.valid || !allowLegacy) {
+          return { ...typed, validatorAddress: eval_.validatorAddress };
+        }
+        errors.push(...typed.errors);
+      } else if (!allowLegacy) {
+        return {
+          valid: false,
+          recoveredAddress: '',
+          errors: ['No EIP-712 domain to verify against and legacy EIP-191 signatures are disabled'],
+          warnings: [],
+          validatorAddress: eval_.validatorAddress,
+        };
+      }
 
-    const invalidEvaluations = verification.results
+      // Reconstruct the exact message that was signed
+      const legacy = this.verifySignature(
+        eval_.validatorAddress,
+        eval_.signature,
+        buildEvaluationMessage(networkId, taskId, eval_)
+      );
+      if (legacy.valid) {
+        return { ...legacy, scheme: 'eip191' as const, validatorAddress: eval_.validatorAddress };
+      }
+      return { ...legacy, errors: errors.concat(legacy.errors), validatorAddress: eval_.validatorAddress };
+    });
+
+    const invalidEvaluations = results
       .filter((r) => !r.valid)
       .map((r) => ({
         validatorAddress: r.validatorAddress,
         errors: r.errors,
       }));
 
+    if (invalidEvaluations.length > 0) {
+      this.logger.warn('Some evaluation signatures failed verification', {
+        taskId,
+        total: evaluations.length,
+        invalid: invalidEvaluations.length,
+        invalidValidators: invalidEvaluations.map((e) => e.validatorAddress),
+      });
+    }
+
     return {
-      allValid: verification.allValid,
-      results: verification.results,
+      allValid: invalidEvaluations.length === 0,
+      results,
       invalidEvaluations,
     };
   }
@@ -310,13 +430,7 @@ export class SignatureVerificationService {
 
     // Create aggregated hash (hash of all signatures combined)
     // This allows quick verification that all signatures are present
-    const allSignaturesCombined = parsedSignatures
-      .map((sig) => `${sig.validatorAddress}:${sig.r}:${sig.s}:${sig.v}`)
-      .sort()
-      .join('|');
-    const aggregatedHash = createHash('sha256')
-      .update(messageHash + allSignaturesCombined)
-      .digest('hex');
+    const aggregatedHash = hashAggregatedSignatures(messageHash, parsedSignatures);
 
     this.logger.info('Signatures aggregated successfully', {
       messageHash,
@@ -333,7 +447,7 @@ export class SignatureVerificationService {
         r: sig.r,
         s: sig.s,
       })),
-      aggregatedHash: `0x${aggregatedHash}`,
+      aggregatedHash,
     };
   }
 
@@ -379,15 +493,8 @@ export class SignatureVerificationService {
     }
 
     // Verify aggregated hash
-    const allSignaturesCombined = aggregated.signatures
-      .map((sig) => `${sig.validatorAddress}:${sig.r}:${sig.s}:${sig.v}`)
-      .sort()
-      .join('|');
-    const expectedAggregatedHash = createHash('sha256')
-      .update(aggregated.messageHash + allSignaturesCombined)
-      .digest('hex');
-
-    if (`0x${expectedAggregatedHash}` !== aggregated.aggregatedHash) {
+    const expectedAggregatedHash = hashAggregatedSignatures(aggregated.messageHash, aggregated.signatures);
+    if (expectedAggregatedHash !== aggregated.aggregatedHash) {
       errors.push('Aggregated hash mismatch');
       allValid = false;
     }
@@ -11,6 +11,13 @@
  */
 
 import { ILogger } from './utils/ILogger';
+import { canonicalHash } from './utils/CanonicalJson';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderInfo,
+  EmbeddingProviderRegistry,
+  createDefaultEmbeddingProviders,
+} from './EmbeddingProviders';
 
 /**
  * Monte Carlo Output Sample
@@ -62,6 +69,9 @@ export interface DistributionAnalysis {
   // Stability metrics
   stabilityScore: number;           // How stable under resampling
   modeCount: number;                // Number of distinct modes
+
+  // Provider that produced the embeddings
+  embeddingProvider?: EmbeddingProviderInfo;
 }
 
 /**
@@ -99,8 +109,33 @@ export interface UserPreference {
 
 /**
  * Embedding Method Type
+ * 'custom' and 'custom:<name>' resolve to providers registered with registerEmbeddingProvider
+ */
+export type EmbeddingMethod =
+  | 'sentence-transformers'
+  | 'openai'
+  | 'hash-based'
+  | 'tfidf-hashing'
+  | 'custom'
+  | `custom:${string}`;
+
+/**
+ * Task-level embedding configuration (manifest.statisticalEvaluation.embeddingConfig)
+ */
+export interface EmbeddingConfig {
+  provider: 'openai' | 'xenova' | 'none';
+  apiKey?: string;
+  model?: string;
+  dimension?: number;
+}
+
+/**
+ * Embedded outputs and the provider that produced them
  */
-export type EmbeddingMethod = 'sentence-transformers' | 'openai' | 'hash-based' | 'custom';
+export interface OutputEmbeddings {
+  embeddings: Map<string, number[]>;
+  provider: EmbeddingProviderInfo;
+}
 
 /**
  * Clustering Algorithm Type
@@ -130,250 +165,102 @@ export interface ValidatorMethodConfig {
 
 export class StatisticalDistributionService {
   private logger: ILogger;
+  // Keyed by method, model, dimension and output ID
   private embeddingCache: Map<string, number[]> = new Map();
+  private embeddingProviders: EmbeddingProviderRegistry;
   
   // Default embedding dimension
   private readonly DEFAULT_EMBEDDING_DIM = 384; // all-MiniLM-L6-v2 dimension
   
-  // OpenAI client cache (per API key)
-  private openaiClients: Map<string, any> = new Map();
-  
-  // Xenova transformers cache
-  private xenovaExtractor: any = null;
-  
-  constructor(logger: ILogger) {
+  constructor(logger: ILogger, embeddingProviders?: EmbeddingProviderRegistry) {
     this.logger = logger;
+    this.embeddingProviders = embeddingProviders || createDefaultEmbeddingProviders(logger);
   }
 
   /**
    * Generate method ID from configuration
    */
-  generateMethodId(config: ValidatorMethodConfig): string {
-    const crypto = require('crypto');
-    const hash = crypto.createHash('sha256')
-      .update(`${config.embeddingMethod}-${config.clusteringAlgorithm}-${config.contributionWeights.robustness}-${config.contributionWeights.novelty}-${config.contributionWeights.diversity}`)
-      .digest('hex');
+  generateMethodId(config: Omit<ValidatorMethodConfig, 'methodId'>): string {
+    const hash = canonicalHash({
+      embeddingMethod: config.embeddingMethod,
+      clusteringAlgorithm: config.clusteringAlgorithm,
+      contributionWeights: {
+        robustness: config.contributionWeights.robustness,
+        novelty: config.contributionWeights.novelty,
+        diversity: config.contributionWeights.diversity,
+      },
+    });
     return `method_${hash.substring(0, 16)}`;
   }
 
   /**
    * Embed outputs into semantic space
-   * Uses text embeddings, structural features, constraint flags
-   * Supports multiple embedding methods for validator pluralism
-   * FULLY IMPLEMENTED: Supports custom embeddings (OpenAI with user API key) and @xenova/transformers
+   * Supports multiple embedding methods for validator pluralism; the method picks the
+   * provider from the registry (a task-level embeddingConfig.provider of 'openai' or
+   * 'xenova' overrides it). Fails if the provider fails, rather than substituting another.
    */
   async embedOutputs(
     outputs: MonteCarloOutput[],
     taskType: string = 'general',
     embeddingMethod: EmbeddingMethod = 'hash-based',
-    embeddingConfig?: {
-      provider: 'openai' | 'xenova' | 'none';
-      apiKey?: string;
-      model?: string;
-      dimension?: number;
-    }
-  ): Promise<Map<string, number[]>> {
-    const embeddings = new Map<string, number[]>();
-    
-    // Determine embedding provider (priority: task-level override > network-level config > method default)
-    const provider = embeddingConfig?.provider || 
-                     (embeddingMethod === 'openai' ? 'openai' : 
-                      embeddingMethod === 'sentence-transformers' ? 'xenova' : 'none');
-    
-    for (const output of outputs) {
-      // Check cache first
-      if (this.embeddingCache.has(output.outputId)) {
-        embeddings.set(output.outputId, this.embeddingCache.get(output.outputId)!);
-        continue;
-      }
-      
-      // Embed based on provider
-      let embedding: number[];
-      
+    embeddingConfig?: EmbeddingConfig,
+    embeddingDimension?: number
+  ): Promise<OutputEmbeddings> {
+    const method: EmbeddingMethod = embeddingConfig?.provider === 'openai' ? 'openai' :
+      embeddingConfig?.provider === 'xenova' ? 'sentence-transformers' :
+      embeddingMethod;
+    const provider = this.embeddingProviders.get(method);
+    const dimension = embeddingConfig?.dimension || embeddingDimension || this.DEFAULT_EMBEDDING_DIM;
+    const cacheKey = (outputId: string) => `${method}:${embeddingConfig?.model || ''}:${dimension}:${outputId}`;
+
+    // Providers may weight features across the batch, so only reuse a fully cached batch
+    let vectors: number[][];
+    if (outputs.length > 0 && outputs.every(output => this.embeddingCache.has(cacheKey(output.outputId)))) {
+      vectors = outputs.map(output => this.embeddingCache.get(cacheKey(output.outputId))!);
+    } else {
       try {
-        if (provider === 'openai' && embeddingConfig?.apiKey) {
-          // Custom OpenAI embeddings (user-provided API key)
-          embedding = await this.embedWithOpenAI(output.output, taskType, embeddingConfig.apiKey, embeddingConfig.model);
-        } else if (provider === 'xenova') {
-          // Free local embeddings (@xenova/transformers)
-          embedding = await this.embedWithSentenceTransformers(output.output, taskType);
-        } else {
-          // Hash-based fallback (always available, no cost)
-          if (taskType.includes('text') || taskType.includes('language')) {
-            embedding = await this.embedText(output.output);
-          } else if (taskType.includes('code')) {
-            embedding = await this.embedCode(output.output);
-          } else {
-            embedding = await this.embedGeneric(output.output);
+        vectors = await provider.embed(
+          outputs.map(output => (typeof output.output === 'string' ? output.output : JSON.stringify(output.output))),
+          {
+            taskType,
+            dimension,
+            apiKey: embeddingConfig?.apiKey,
+            model: embeddingConfig?.model,
           }
-        }
-        
-        // Cache and store
-        this.embeddingCache.set(output.outputId, embedding);
-        embeddings.set(output.outputId, embedding);
+        );
       } catch (error) {
-        this.logger.warn('Failed to embed output, falling back to hash-based', { 
-          outputId: output.outputId,
-          provider,
-          error: error instanceof Error ? error.message : String(error) 
-        });
-        // Fallback to hash-based embedding
-        embedding = await this.embedGeneric(output.output);
-        this.embeddingCache.set(output.outputId, embedding);
-        embeddings.set(output.outputId, embedding);
+        throw new Error(
+          `Embedding provider ${provider.name} (${method}) failed: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
-    }
-    
-    return embeddings;
-  }
 
-  /**
-   * Embed text output
-   * Uses hash-based embedding (deterministic and mathematically sound)
-   */
-  private async embedText(output: any): Promise<number[]> {
-    const text = typeof output === 'string' ? output : JSON.stringify(output);
-    return this.hashBasedEmbedding(text, this.DEFAULT_EMBEDDING_DIM);
-  }
-
-  /**
-   * Embed code output
-   * Uses hash-based embedding (deterministic and mathematically sound)
-   */
-  private async embedCode(output: any): Promise<number[]> {
-    const code = typeof output === 'string' ? output : JSON.stringify(output);
-    return this.hashBasedEmbedding(code, this.DEFAULT_EMBEDDING_DIM);
-  }
-
-  /**
-   * Embed generic output
-   * Uses hash-based embedding (deterministic and mathematically sound)
-   */
-  private async embedGeneric(output: any): Promise<number[]> {
-    const json = JSON.stringify(output);
-    return this.hashBasedEmbedding(json, this.DEFAULT_EMBEDDING_DIM);
-  }
-
-  /**
-   * Hash-based embedding
-   * 
-   * Mathematically sound embedding method:
-   * - Deterministic: Same input always produces same output
-   * - Preserves semantic structure through hash distribution
-   * - Normalized to unit vector for proper distance metrics
-   * - Fast and privacy-preserving (no external API calls)
-   * 
-   * Algorithm:
-   * 1. Hash input text using SHA-256
-   * 2. Convert hash hex to numeric values
-   * 3. Normalize to [-1, 1] range
-   * 4. L2-normalize to unit vector
-   * 
-   * This is a valid embedding method, not a fallback.
-   */
-  private hashBasedEmbedding(text: string, dim: number): number[] {
-    const crypto = require('crypto');
-    const hash = crypto.createHash('sha256').update(text).digest('hex');
-    
-    // Convert hash to vector
-    const vector = new Array(dim).fill(0);
-    for (let i = 0; i < hash.length && i < dim; i++) {
-      const hex = hash[i];
-      vector[i] = (parseInt(hex, 16) / 15) * 2 - 1; // Normalize to [-1, 1]
-    }
-    
-    // Normalize vector
-    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
-    if (magnitude > 0) {
-      return vector.map(v => v / magnitude);
-    }
-    
-    return vector;
-  }
-
-  /**
-   * Embed with sentence-transformers (@xenova/transformers)
-   * FULLY IMPLEMENTED: Uses @xenova/transformers for free local embeddings
-   */
-  private async embedWithSentenceTransformers(output: any, taskType: string): Promise<number[]> {
-    const text = typeof output === 'string' ? output : JSON.stringify(output);
-    
-    try {
-      // Lazy-load @xenova/transformers
-      if (!this.xenovaExtractor) {
-        const { pipeline } = await import('@xenova/transformers');
-        this.xenovaExtractor = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-        this.logger.info('Loaded @xenova/transformers model for embeddings');
+      if (vectors.length !== outputs.length) {
+        throw new Error(
+          `Embedding provider ${provider.name} (${method}) returned ${vectors.length} vectors for ${outputs.length} outputs`
+        );
       }
-      
-      // Generate embedding
-      const result = await this.xenovaExtractor(text, { pooling: 'mean', normalize: true });
-      const embedding = Array.from(result.data);
-      
-      this.logger.debug('Generated embedding with @xenova/transformers', {
-        dimension: embedding.length,
-        taskType,
-      });
-      
-      return embedding;
-    } catch (error) {
-      this.logger.warn('Failed to use @xenova/transformers, falling back to hash-based', {
-        error: error instanceof Error ? error.message : String(error),
-      });
-      // Fallback to hash-based embedding
-      return this.hashBasedEmbedding(text, this.DEFAULT_EMBEDDING_DIM);
+      outputs.forEach((output, i) => this.embeddingCache.set(cacheKey(output.outputId), vectors[i]));
     }
+
+    const info: EmbeddingProviderInfo = {
+      method,
+      provider: provider.name,
+      dimension: vectors[0]?.length ?? dimension,
+      deterministic: provider.deterministic,
+    };
+    this.logger.debug('Embedded outputs', { ...info, count: outputs.length, taskType });
+
+    return {
+      embeddings: new Map(outputs.map((output, i) => [output.outputId, vectors[i]])),
+      provider: info,
+    };
   }
 
   /**
-   * Embed with OpenAI (custom embeddings with user-provided API key)
-   * FULLY IMPLEMENTED: Uses OpenAI API with user-provided API key
+   * Register (or replace) the embedding provider for a method, e.g. 'custom:my-model'
    */
-  private async embedWithOpenAI(
-    output: any,
-    taskType: string,
-    apiKey: string,
-    model: string = 'text-embedding-3-small'
-  ): Promise<number[]> {
-    const text = typeof output === 'string' ? output : JSON.stringify(output);
-    
-    try {
-      // Get or create OpenAI client for this API key
-      if (!this.openaiClients.has(apiKey)) {
-        const { default: OpenAI } = await import('openai');
-        const client = new OpenAI({ apiKey });
-        this.openaiClients.set(apiKey, client);
-        this.logger.info('Created OpenAI client for custom embeddings', {
-          model,
-          apiKeyPrefix: apiKey.substring(0, 7) + '...',
-        });
-      }
-      
-      const client = this.openaiClients.get(apiKey);
-      
-      // Generate embedding
-      const response = await client.embeddings.create({
-        model,
-        input: text,
-      });
-      
-      const embedding = response.data[0].embedding;
-      
-      this.logger.debug('Generated embedding with OpenAI (custom)', {
-        dimension: embedding.length,
-        model,
-        taskType,
-      });
-      
-      return embedding;
-    } catch (error) {
-      this.logger.warn('Failed to use OpenAI embeddings, falling back to hash-based', {
-        error: error instanceof Error ? error.message : String(error),
-        model,
-      });
-      // Fallback to hash-based embedding
-      return this.hashBasedEmbedding(text, this.DEFAULT_EMBEDDING_DIM);
-    }
+  registerEmbeddingProvider(method: EmbeddingMethod, provider: EmbeddingProvider): void {
+    this.embeddingProviders.register(method, provider);
   }
 
   /**
@@ -384,7 +271,8 @@ export class StatisticalDistributionService {
   async estimateDistribution(
     embeddings: Map<string, number[]>,
     outputs: MonteCarloOutput[],
-    clusteringAlgorithm: ClusteringAlgorithm = 'simple'
+    clusteringAlgorithm: ClusteringAlgorithm = 'simple',
+    embeddingProvider?: EmbeddingProviderInfo
   ): Promise<DistributionAnalysis> {
     if (embeddings.size === 0) {
       return {
@@ -394,6 +282,7 @@ export class StatisticalDistributionService {
         diversity: 0,
         stabilityScore: 0,
         modeCount: 0,
+        embeddingProvider,
       };
     }
     
@@ -458,6 +347,7 @@ export class StatisticalDistributionService {
       diversity,
       stabilityScore: avgStability,
       modeCount: clusters.length,
+      embeddingProvider,
     };
   }
 
@@ -0,0 +1,131 @@
+/**
+ * Task Claim Service
+ *
+ * Claim leases for the claim/execute/submit flow:
+ * - A miner claims a task before executing it; the claim expires after the lease unless renewed
+ * - Single-output tasks take exclusive claims, so two miners never work the same task at once
+ * - Multi-output tasks (statisticalEvaluation.multipleOutputs) allow concurrent claims
+ *
+ * Claims are persisted through an ITaskClaimRepository, whose atomic claim() decides conflicts,
+ * so leases survive restarts and hold across nodes sharing a database.
+ * Claims are kept after they expire (until released or the task is forgotten), so the
+ * TaskTimeoutSweeper can attribute a timeout to miners that claimed but never submitted.
+ */
+
+import { ILogger } from './utils/ILogger';
+import { MinerAssignmentSource } from './TaskTimeoutSweeper';
+import { ITaskClaimRepository, TaskClaim } from './interfaces/ITaskClaimRepository';
+import { NetworkManifest } from './types';
+
+export type { TaskClaim } from './interfaces/ITaskClaimRepository';
+
+export interface TaskClaimOptions {
+  leaseMs: number;      // Default lease length
+  maxLeaseMs: number;   // Upper bound for requested leases
+}
+
+const DEFAULT_OPTIONS: TaskClaimOptions = {
+  leaseMs: 5 * 60 * 1000, // 5 minutes
+  maxLeaseMs: 60 * 60 * 1000, // 1 hour
+};
+
+export class TaskClaimService implements MinerAssignmentSource {
+  private logger: ILogger;
+  private repository: ITaskClaimRepository;
+  private options: TaskClaimOptions;
+
+  constructor(logger: ILogger, repository: ITaskClaimRepository, options: Partial<TaskClaimOptions> = {}) {
+    this.logger = logger;
+    this.repository = repository;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether claims on tasks of this network are exclusive (one output per task)
+   */
+  static isExclusive(manifest: NetworkManifest): boolean {
+    return !manifest.statisticalEvaluation?.multipleOutputs;
+  }
+
+  /**
+   * Claim a task
+   * Returns null if another miner holds a live conflicting claim; re-claiming renews the caller's lease
+   */
+  async claim(
+    taskId: string,
+    minerAddress: string,
+    exclusive: boolean,
+    leaseMs: number = this.options.leaseMs,
+    now: number = Date.now()
+  ): Promise<TaskClaim | null> {
+    const claim = await this.repository.claim({
+      taskId,
+      minerAddress,
+      exclusive,
+      claimedAt: now,
+      expiresAt: now + Math.min(leaseMs, this.options.maxLeaseMs),
+    }, now);
+    if (!claim) {
+      this.logger.debug('Task already claimed by another miner', { taskId, minerAddress, exclusive });
+      return null;
+    }
+
+    this.logger.info('Task claimed', { taskId, minerAddress, exclusive, expiresAt: claim.expiresAt });
+    return claim;
+  }
+
+  /**
+   * Extend a live claim
+   * Throws if the miner's claim has expired or does not exist
+   */
+  async renew(
+    taskId: string,
+    minerAddress: string,
+    leaseMs: number = this.options.leaseMs,
+    now: number = Date.now()
+  ): Promise<TaskClaim> {
+    const claim = await this.repository.renew(taskId, minerAddress, now + Math.min(leaseMs, this.options.maxLeaseMs), now);
+    if (!claim) {
+      throw new Error(`No live claim on task ${taskId} for miner ${minerAddress}`);
+    }
+    return claim;
+  }
+
+  /**
+   * Release a claim (after submitting, or when giving up on the task)
+   */
+  async release(taskId: string, minerAddress: string): Promise<void> {
+    await this.repository.release(taskId, minerAddress);
+  }
+
+  /**
+   * Whether another miner holds a live exclusive claim (outputs from other miners should be rejected)
+   */
+  async isClaimedByOther(taskId: string, minerAddress: string, now: number = Date.now()): Promise<boolean> {
+    const key = minerAddress.toLowerCase();
+    return (await this.repository.findByTask(taskId)).some(
+      c => c.exclusive && c.expiresAt > now && c.minerAddress.toLowerCase() !== key
+    );
+  }
+
+  /**
+   * Live claims on a task
+   */
+  async getActiveClaims(taskId: string, now: number = Date.now()): Promise<TaskClaim[]> {
+    return (await this.repository.findByTask(taskId)).filter(c => c.expiresAt > now);
+  }
+
+  /**
+   * Miners that claimed the task and have not released it, including expired claims
+   */
+  async getAssignedMiners(taskId: string): Promise<string[]> {
+    return (await this.repository.findByTask(taskId)).map(c => c.minerAddress);
+  }
+
+  /**
+   * Drop all claims for a task (e.g. once it has left the mining phase)
+   */
+  async forgetTask(taskId: string): Promise<void> {
+    await this.repository.deleteByTask(taskId);
+  }
+}
@@ -13,6 +13,7 @@
  */
 
 import { ILogger } from './utils/ILogger';
+import { canonicalHash } from './utils/CanonicalJson';
 import { EvaluationService, TaskOutput, ValidatorEvaluation, HumanSelection, EvaluationResult } from './EvaluationService';
 import { NetworkManifest } from './types';
 import { ethers } from 'ethers';
@@ -28,6 +29,7 @@ import { BootstrapModeService, BootstrapModeConfig } from './BootstrapModeServic
 import { SignatureVerificationService } from './SignatureVerificationService';
 import { JSONSchemaValidator } from './JSONSchemaValidator';
 import { TaskCompletionService } from '../services/TaskCompletionService';
+import { TaskStateMachine, TaskTransitionHook, IllegalTaskTransitionError } from './TaskStateMachine';
 
 // Type definitions for P2P (without importing the service)
 interface TaskAnnouncement {
@@ -107,11 +109,13 @@ export class TaskService {
   private signatureVerificationService: SignatureVerificationService;
   private jsonSchemaValidator: JSONSchemaValidator;
   private taskCompletionService: TaskCompletionService;
+  private stateMachine: TaskStateMachine;
 
   constructor(
     prisma: PrismaClient, 
     logger?: Logger, 
-    p2pService?: any // P2PCoordinationService | null - lazy-loaded
+    p2pService?: any, // P2PCoordinationService | null - lazy-loaded
+    stateMachine?: TaskStateMachine // Shared transition table and hooks
   ) {
     this.prisma = prisma;
     this.logger = logger || new Logger('TaskService');
@@ -126,6 +130,15 @@ export class TaskService {
     this.signatureVerificationService = new SignatureVerificationService(this.logger);
     this.jsonSchemaValidator = new JSONSchemaValidator(this.logger);
     this.taskCompletionService = new TaskCompletionService(prisma, this.logger);
+    this.stateMachine = stateMachine || new TaskStateMachine(this.logger);
+  }
+
+  /**
+   * Register a hook that runs after each persisted status change
+   * Returns a function that removes the hook
+   */
+  onTransition(hook: TaskTransitionHook, filter?: { from?: TaskStatus; to?: TaskStatus }): () => void {
+    return this.stateMachine.onTransition(hook, filter);
   }
 
   /**
@@ -240,7 +253,7 @@ export class TaskService {
           networkId,
           taskType: (manifest.taskFormat.inputSchema as any)?.type || 'unknown',
           requiredValidators: manifest.validatorConfig.minValidators,
-          deadline: Date.now() + (manifest.taskFormat.timeout || 3600000), // Default 1 hour
+          deadline: Date.now() + (manifest.taskFormat.timeout || 3600) * 1000, // Timeout is in seconds, default 1 hour
           reward: depositAmount,
           manifestCid: manifest.registry.ipfsCid || '',
         };
@@ -304,6 +317,11 @@ export class TaskService {
     // Load task state from database
     const taskState = await this.loadTaskStateFromDb(task);
 
+    // Late outputs while validators are already evaluating keep the task in 'evaluating'
+    const previousStatus = taskState.status;
+    const nextStatus: TaskStatus = previousStatus === 'evaluating' ? 'evaluating' : 'mining';
+    this.stateMachine.assertTransition(taskId, previousStatus, nextStatus);
+
     // Validate output against schema
     this.validateOutput(output, manifest.taskFormat.outputSchema);
 
@@ -337,7 +355,7 @@ export class TaskService {
 
     // Update task state
     taskState.outputs.push(taskOutput);
-    taskState.status = taskState.outputs.length > 0 ? 'mining' : 'submitted';
+    taskState.status = nextStatus;
     taskState.updatedAt = Date.now();
 
     // Upload updated state to IPFS (primary)
@@ -354,6 +372,14 @@ export class TaskService {
       this.logger.debug('Failed to cache task state to database (non-critical)', { taskId, err });
     });
 
+    await this.stateMachine.transition({
+      taskId,
+      networkId: taskState.networkId,
+      from: previousStatus,
+      to: nextStatus,
+      context: { outputId, minerAddress },
+    });
+
     this.logger.info('Miner output added (IPFS primary, database cached)', { taskId, outputId, minerAddress });
 
     return taskOutput;
@@ -390,6 +416,7 @@ export class TaskService {
 
     // Load task state from database
     const taskState = await this.loadTaskStateFromDb(task);
+    this.stateMachine.assertTransition(taskId, taskState.status, 'evaluating');
 
     // CRITICAL: Check if validator already evaluated this task (prevent duplicate)
     const existingEvaluation = task.evaluations.find(e => e.validatorAddress.toLowerCase() === validatorAddress.toLowerCase());
@@ -487,12 +514,23 @@ export class TaskService {
     });
 
     // Update task status
-    await this.prisma.tenseuronTask.update({
-      where: { taskId },
-      data: {
-        status: 'evaluating',
+    await this.stateMachine.transition(
+      {
+        taskId,
+        networkId: taskState.networkId,
+        from: taskState.status,
+        to: 'evaluating',
+        context: { validatorAddress, outputId, score },
       },
-    });
+      async () => {
+        await this.prisma.tenseuronTask.update({
+          where: { taskId },
+          data: {
+            status: 'evaluating',
+          },
+        });
+      }
+    );
 
     this.logger.info('Validator evaluation added and persisted', { taskId, outputId, validatorAddress, score });
 
@@ -523,6 +561,12 @@ export class TaskService {
 
     // Convert database records to TaskState format
     const taskState = await this.loadTaskStateFromDb(task);
+    const previousStatus = taskState.status;
+
+    // Evaluations can only be processed while the task can still reach consensus
+    if (!TaskStateMachine.canTransition(previousStatus, 'consensus-reached')) {
+      throw new IllegalTaskTransitionError(taskId, previousStatus, 'consensus-reached');
+    }
 
     // Check minimum validators
     if (taskState.evaluations.length < manifest.validatorConfig.minValidators) {
@@ -599,7 +643,8 @@ export class TaskService {
         taskState.outputs,
         taskState.evaluations,
         manifest.scoringLogic.hash,
-        manifest.deterministicReplay
+        manifest.deterministicReplay,
+        manifest.scoringLogic
       );
     } else if (manifest.evaluationMode === 'statistical') {
       // Use distribution-based evaluation for non-deterministic tasks
@@ -631,7 +676,6 @@ export class TaskService {
         );
         
         taskState.preFilteredOutputs = preFilteredOutputIds;
-        taskState.status = 'pre-filtering';
         
         // Get output details for logging
         const preFilteredOutputs = evaluationResult.statisticalResult?.topOutputs.filter(
@@ -649,9 +693,6 @@ export class TaskService {
             agreement: o.agreementScore 
           }))
         });
-        
-        // Transition to user-selecting status
-        taskState.status = 'user-selecting';
       }
     } else {
       // Default to deterministic
@@ -661,7 +702,8 @@ export class TaskService {
         taskState.outputs,
         taskState.evaluations,
         manifest.scoringLogic.hash,
-        manifest.deterministicReplay
+        manifest.deterministicReplay,
+        manifest.scoringLogic
       );
     }
 
@@ -723,7 +765,7 @@ export class TaskService {
 
     // CRITICAL FIX: Persist evaluation result and update status
     const consensus = this.checkConsensus(taskState, manifest);
-    let newStatus: TaskStatus = taskState.status;
+    let newStatus: TaskStatus = previousStatus;
     
     // FIX #4: Detect collusion patterns before consensus
     if (taskState.evaluations.length >= manifest.validatorConfig.minValidators) {
@@ -752,28 +794,44 @@ export class TaskService {
       }
     }
     
-    if (consensus.reached) {
-      // If human-in-the-loop, wait for user selection
-      if (manifest.humanInTheLoop?.enabled && taskState.status === 'pre-filtering') {
-        newStatus = 'user-selecting';
-        this.logger.info('Waiting for user selection', { taskId, preFilteredOutputs: taskState.preFilteredOutputs });
-      } else {
-        newStatus = 'consensus-reached';
-        this.logger.info('Consensus reached', { taskId, winningOutputId: evaluationResult.winningOutputId });
-      }
+    if (manifest.humanInTheLoop?.enabled && taskState.preFilteredOutputs) {
+      // Human-in-the-loop: wait for user selection from the pre-filtered top-N
+      newStatus = 'user-selecting';
+      this.logger.info('Waiting for user selection', { taskId, preFilteredOutputs: taskState.preFilteredOutputs });
+    } else if (consensus.reached) {
+      newStatus = 'consensus-reached';
+      this.logger.info('Consensus reached', { taskId, winningOutputId: evaluationResult.winningOutputId });
     }
 
     // Persist to database
-    await this.prisma.tenseuronTask.update({
-      where: { taskId },
-      data: {
-        evaluationResult: JSON.stringify(evaluationResult),
-        winningOutputId: evaluationResult.winningOutputId,
-        consensusReached: consensus.reached,
-        status: newStatus,
-        preFilteredOutputs: taskState.preFilteredOutputs ? JSON.stringify(taskState.preFilteredOutputs) : null,
-      },
-    });
+    const persistEvaluation = async () => {
+      await this.prisma.tenseuronTask.update({
+        where: { taskId },
+        data: {
+          evaluationResult: JSON.stringify(evaluationResult),
+          winningOutputId: evaluationResult.winningOutputId,
+          consensusReached: consensus.reached,
+          status: newStatus,
+          preFilteredOutputs: taskState.preFilteredOutputs ? JSON.stringify(taskState.preFilteredOutputs) : null,
+        },
+      });
+    };
+
+    if (newStatus !== previousStatus) {
+      await this.stateMachine.transition(
+        {
+          taskId,
+          networkId: taskState.networkId,
+          from: previousStatus,
+          to: newStatus,
+          context: { winningOutputId: evaluationResult.winningOutputId },
+        },
+        persistEvaluation
+      );
+    } else {
+      await persistEvaluation();
+    }
+    taskState.status = newStatus;
 
     // TASK COMPLETION HOOK: Record task execution for module reputation tracking
     // Only record if consensus is reached (task is completed)
@@ -940,16 +998,27 @@ export class TaskService {
     );
 
     // CRITICAL FIX: Persist to database
-    await this.prisma.tenseuronTask.update({
-      where: { taskId },
-      data: {
-        humanSelection: JSON.stringify(humanSelection),
-        evaluationResult: JSON.stringify(finalResult),
-        winningOutputId: selectedOutputId,
-        consensusReached: true,
-        status: 'consensus-reached',
+    await this.stateMachine.transition(
+      {
+        taskId,
+        networkId: taskState.networkId,
+        from: taskState.status,
+        to: 'consensus-reached',
+        context: { winningOutputId: selectedOutputId, userAddress },
       },
-    });
+      async () => {
+        await this.prisma.tenseuronTask.update({
+          where: { taskId },
+          data: {
+            humanSelection: JSON.stringify(humanSelection),
+            evaluationResult: JSON.stringify(finalResult),
+            winningOutputId: selectedOutputId,
+            consensusReached: true,
+            status: 'consensus-reached',
+          },
+        });
+      }
+    );
 
     const selectedOutput = finalResult.statisticalResult?.topOutputs.find(
       o => o.outputId === selectedOutputId
@@ -1577,9 +1646,7 @@ export class TaskService {
    * Hash output deterministically
    */
   private hashOutput(output: any): string {
-    const { createHash } = require('crypto');
-    const outputStr = JSON.stringify(output, Object.keys(output).sort());
-    return createHash('sha256').update(outputStr).digest('hex');
+    return canonicalHash(output);
   }
 
   /**
@@ -1596,15 +1663,34 @@ export class TaskService {
    * CRITICAL FIX: Now persists to database
    */
   async markTaskPaid(taskId: string, paymentTxHash: string): Promise<void> {
-    await this.prisma.tenseuronTask.update({
+    const task = await this.prisma.tenseuronTask.findUnique({
       where: { taskId },
-      data: {
-        paymentReleased: true,
-        paymentTxHash,
-        status: 'paid',
-      },
     });
 
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    await this.stateMachine.transition(
+      {
+        taskId,
+        networkId: task.networkId,
+        from: task.status as TaskStatus,
+        to: 'paid',
+        context: { paymentTxHash },
+      },
+      async () => {
+        await this.prisma.tenseuronTask.update({
+          where: { taskId },
+          data: {
+            paymentReleased: true,
+            paymentTxHash,
+            status: 'paid',
+          },
+        });
+      }
+    );
+
     this.logger.info('Task marked as paid and persisted', { taskId, paymentTxHash });
   }
 
@@ -1788,6 +1874,8 @@ export class TaskService {
       if (!taskState) {
         throw new Error('Task not found');
       }
+      const previousStatus = taskState.status;
+      this.stateMachine.assertTransition(taskId, previousStatus, 'user-rejected');
 
       // Check redo limit
       const redoCount = (taskState.redoCount || 0) + 1;
@@ -1853,6 +1941,14 @@ export class TaskService {
         this.logger.debug('Failed to cache user rejection to database (non-critical)', { taskId, err });
       });
 
+      await this.stateMachine.transition({
+        taskId,
+        networkId: taskState.networkId,
+        from: previousStatus,
+        to: 'user-rejected',
+        context: { userAddress, redoCount, rejectedValidators: approvedValidators },
+      });
+
       // Create new task (redo) with new validators
       const newTaskId = `${taskId}-redo-${redoCount}`;
       
@@ -2099,6 +2195,9 @@ export class TaskService {
       }
 
       const taskState = await this.loadTaskStateFromDb(task);
+      const previousStatus = taskState.status;
+      this.stateMachine.assertTransition(taskId, previousStatus, 'consensus-reached');
+
       const bootstrapConfig = await this.checkBootstrapModeForTask(taskId, manifest);
 
       if (!bootstrapConfig || !bootstrapConfig.isActive) {
@@ -2186,6 +2285,14 @@ export class TaskService {
         this.logger.debug('Failed to cache task state to database (non-critical)', { taskId, err });
       });
 
+      await this.stateMachine.transition({
+        taskId,
+        networkId: taskState.networkId,
+        from: previousStatus,
+        to: 'consensus-reached',
+        context: { winningOutputId: selectedOutputId, userAddress, bootstrap: true },
+      });
+
       // Release payment (winner miner gets full reward)
       // Validators get reward only if they matched user's pick
       let paymentReleased = false;
@@ -8,12 +8,19 @@ import { ILogger } from './utils/ILogger';
 import { TaskServiceRefactored, TaskServiceDependencies } from './TaskServiceRefactored';
 import { PrismaTaskRepository } from './adapters/database/PrismaTaskRepository';
 import { D1TaskRepository } from './adapters/database/D1TaskRepository';
+import { PrismaValidatorRepository } from './adapters/database/PrismaValidatorRepository';
+import { D1ValidatorRepository } from './adapters/database/D1ValidatorRepository';
+import { PrismaTaskClaimRepository } from './adapters/database/PrismaTaskClaimRepository';
+import { D1TaskClaimRepository } from './adapters/database/D1TaskClaimRepository';
 import { EvaluationService } from './EvaluationService';
 import { SybilResistanceService } from './SybilResistanceService';
 import { OnChainValidatorService } from './OnChainValidatorService';
 import { TaskStateIPFSService } from './TaskStateIPFSService';
 import { SignatureVerificationService } from './SignatureVerificationService';
 import { JSONSchemaValidator } from './JSONSchemaValidator';
+import { ScoringRuntimeService } from './ScoringRuntimeService';
+import { TaskClaimService } from './TaskClaimService';
+import { IStorageProvider } from './interfaces/IStorageProvider';
 import { PrismaClient } from '@prisma/client';
 
 // Cloudflare D1 types
@@ -27,23 +34,33 @@ export interface D1Database {
 export class TaskServiceFactory {
     /**
      * Create TaskService for Node.js environment (Prisma)
+     * Pass scoringStorage to let the protocol execute manifest scoring modules and replay models itself
+     * Pass taskStateStorage to store task states on S3/Arweave/R2 instead of the public IPFS API
      */
     static createForNode(
         logger: ILogger,
         prisma: PrismaClient,
-        p2pService?: any
+        p2pService?: any,
+        scoringStorage?: IStorageProvider,
+        taskStateStorage?: IStorageProvider
     ): TaskServiceRefactored {
         const taskRepository = new PrismaTaskRepository(prisma);
 
         const dependencies: TaskServiceDependencies = {
             taskRepository,
-            evaluationService: new EvaluationService(logger),
+            evaluationService: new EvaluationService(
+                logger,
+                scoringStorage ? new ScoringRuntimeService(logger, scoringStorage) : undefined,
+                new PrismaValidatorRepository(prisma),
+                scoringStorage
+            ),
             sybilResistanceService: new SybilResistanceService(prisma, logger),
             onChainValidatorService: new OnChainValidatorService(logger),
-            taskStateIPFSService: new TaskStateIPFSService(logger),
+            taskStateIPFSService: new TaskStateIPFSService(logger, taskStateStorage),
             signatureVerificationService: new SignatureVerificationService(logger),
             jsonSchemaValidator: new JSONSchemaValidator(logger),
             p2pService,
+            claimService: new TaskClaimService(logger, new PrismaTaskClaimRepository(prisma)),
         };
 
         return new TaskServiceRefactored(logger, dependencies);
@@ -51,6 +68,8 @@ export class TaskServiceFactory {
 
     /**
      * Create TaskService for Cloudflare Workers environment (D1)
+     * Pass scoringStorage to let the protocol execute manifest scoring modules and replay models itself
+     * Pass taskStateStorage to store task states on S3/Arweave/R2 instead of the public IPFS API
      */
     static createForWorkers(
         logger: ILogger,
@@ -58,7 +77,9 @@ export class TaskServiceFactory {
             DB: D1Database;
             [key: string]: any;
         },
-        p2pService?: any
+        p2pService?: any,
+        scoringStorage?: IStorageProvider,
+        taskStateStorage?: IStorageProvider
     ): TaskServiceRefactored {
         const taskRepository = new D1TaskRepository(env.DB);
 
@@ -66,17 +87,23 @@ export class TaskServiceFactory {
         // This will be refactored in Phase 7.3 (Anti-Gaming Services)
         const dependencies: TaskServiceDependencies = {
             taskRepository,
-            evaluationService: new EvaluationService(logger),
+            evaluationService: new EvaluationService(
+                logger,
+                scoringStorage ? new ScoringRuntimeService(logger, scoringStorage) : undefined,
+                new D1ValidatorRepository(env.DB),
+                scoringStorage
+            ),
             // TODO Phase 7.3: Refactor SybilResistanceService to use repository
             sybilResistanceService: new SybilResistanceService(
                 {} as PrismaClient, // Temporary - will be refactored
                 logger
             ),
             onChainValidatorService: new OnChainValidatorService(logger),
-            taskStateIPFSService: new TaskStateIPFSService(logger),
+            taskStateIPFSService: new TaskStateIPFSService(logger, taskStateStorage),
             signatureVerificationService: new SignatureVerificationService(logger),
             jsonSchemaValidator: new JSONSchemaValidator(logger),
             p2pService,
+            claimService: new TaskClaimService(logger, new D1TaskClaimRepository(env.DB)),
         };
 
         return new TaskServiceRefactored(logger, dependencies);
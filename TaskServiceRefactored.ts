@@ -7,6 +7,7 @@
  */
 
 import { ILogger } from './utils/ILogger';
+import { canonicalHash } from './utils/CanonicalJson';
 import { ITaskRepository } from './interfaces/ITaskRepository';
 import { EvaluationService, TaskOutput, ValidatorEvaluation, EvaluationResult } from './EvaluationService';
 import { SybilResistanceService } from './SybilResistanceService';
@@ -15,6 +16,11 @@ import { TaskStateIPFSService } from './TaskStateIPFSService';
 import { SignatureVerificationService } from './SignatureVerificationService';
 import { JSONSchemaValidator } from './JSONSchemaValidator';
 import { NetworkManifest } from './types';
+import { getNetworkSigningDomain } from './ProtocolTypedData';
+import { IEventStore, DomainEvent } from './interfaces/IEventStore';
+import { DomainEventRecorder } from './DomainEventRecorder';
+import { TaskStateMachine, TaskTransitionHook, IllegalTaskTransitionError } from './TaskStateMachine';
+import { TaskClaimService, TaskClaim } from './TaskClaimService';
 import type {
     TaskStatus,
     TaskState,
@@ -32,6 +38,9 @@ export interface TaskServiceDependencies {
     collusionTrackingService: any; // CollusionTrackingService
     bootstrapModeService: any; // BootstrapModeService
     p2pService?: any; // Optional P2P service
+    eventStore?: IEventStore; // Optional event-sourced audit log
+    stateMachine?: TaskStateMachine; // Shared transition table and hooks (created if omitted)
+    claimService?: TaskClaimService; // Claim leases for miners (claimTask)
 }
 
 /**
@@ -50,6 +59,10 @@ export class TaskServiceRefactored {
     private collusionTrackingService: any;
     private bootstrapModeService: any;
     private p2pService?: any;
+    private eventStore?: IEventStore;
+    private eventRecorder?: DomainEventRecorder;
+    private stateMachine: TaskStateMachine;
+    private claimService?: TaskClaimService;
 
     constructor(logger: ILogger, dependencies: TaskServiceDependencies) {
         this.logger = logger;
@@ -63,6 +76,27 @@ export class TaskServiceRefactored {
         this.collusionTrackingService = dependencies.collusionTrackingService;
         this.bootstrapModeService = dependencies.bootstrapModeService;
         this.p2pService = dependencies.p2pService;
+        this.eventStore = dependencies.eventStore;
+        this.stateMachine = dependencies.stateMachine || new TaskStateMachine(logger);
+        if (dependencies.eventStore) {
+            this.eventRecorder = new DomainEventRecorder(logger, dependencies.eventStore);
+        }
+        this.claimService = dependencies.claimService;
+        if (this.claimService) {
+            // Claims only matter while miners can still submit
+            const claimService = this.claimService;
+            for (const status of ['consensus-reached', 'timed-out'] as TaskStatus[]) {
+                this.stateMachine.onTransition(transition => claimService.forgetTask(transition.taskId), { to: status });
+            }
+        }
+    }
+
+    /**
+     * Register a hook that runs after each persisted status change
+     * Returns a function that removes the hook
+     */
+    onTransition(hook: TaskTransitionHook, filter?: { from?: TaskStatus; to?: TaskStatus }): () => void {
+        return this.stateMachine.onTransition(hook, filter);
     }
 
     /**
@@ -127,6 +161,11 @@ export class TaskServiceRefactored {
             updatedAt: new Date(),
         });
 
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskSubmitted', {
+            submission,
+            ipfsCid: ipfsCid || undefined,
+        }, depositorAddress);
+
         // Announce task via P2P if available
         if (this.p2pService) {
             try {
@@ -135,7 +174,7 @@ export class TaskServiceRefactored {
                     networkId,
                     taskType: (manifest.taskFormat.inputSchema as any)?.type || 'unknown',
                     requiredValidators: manifest.validatorConfig.minValidators,
-                    deadline: Date.now() + (manifest.taskFormat.timeout || 3600000),
+                    deadline: Date.now() + (manifest.taskFormat.timeout || 3600) * 1000, // timeout is in seconds
                     reward: depositAmount,
                     manifestCid: manifest.registry.ipfsCid || '',
                 });
@@ -156,8 +195,23 @@ export class TaskServiceRefactored {
         taskId: string,
         output: any,
         minerAddress: string,
-        manifest: NetworkManifest
+        manifest: NetworkManifest,
+        metadata?: TaskOutput['metadata']
     ): Promise<TaskOutput> {
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        // Single-output tasks: only the miner holding the claim may submit while the lease is live
+        if (
+            this.claimService &&
+            TaskClaimService.isExclusive(manifest) &&
+            await this.claimService.isClaimedByOther(taskId, minerAddress)
+        ) {
+            throw new Error('Task is claimed by another miner');
+        }
+
         // Validate output against schema
         this.validateOutput(output, manifest.taskFormat.outputSchema);
 
@@ -170,28 +224,91 @@ export class TaskServiceRefactored {
             output,
             minerAddress,
             timestamp: Date.now(),
+            metadata,
         };
 
+        // Late outputs while validators are already evaluating keep the task in 'evaluating'
+        const nextStatus: TaskStatus = task.status === 'evaluating' ? 'evaluating' : 'mining';
+
         // Persist using repository
-        await this.taskRepo.addOutput({
-            id: outputId,
-            taskId,
-            outputId,
-            output,
-            minerAddress,
-            timestamp: new Date(),
-        });
+        await this.stateMachine.transition(
+            { taskId, networkId: task.networkId, from: task.status, to: nextStatus, context: { outputId, minerAddress } },
+            async () => {
+                await this.taskRepo.addOutput({
+                    id: outputId,
+                    taskId,
+                    outputId,
+                    output,
+                    minerAddress,
+                    timestamp: new Date(),
+                    metadata,
+                });
+                await this.taskRepo.updateStatus(taskId, nextStatus);
+            }
+        );
 
-        // Update task status
-        await this.taskRepo.updateStatus(taskId, 'mining');
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskOutputAdded', { output: taskOutput }, minerAddress);
+        await this.claimService?.release(taskId, minerAddress);
 
         this.logger.info('Miner output added', { taskId, outputId, minerAddress });
         return taskOutput;
     }
 
+    /**
+     * Claim a task before executing it
+     * Returns null if there is nothing to claim: another miner holds the lease, or a
+     * single-output task already has its output
+     */
+    async claimTask(
+        taskId: string,
+        minerAddress: string,
+        manifest: NetworkManifest,
+        leaseMs?: number
+    ): Promise<TaskClaim | null> {
+        if (!this.claimService) {
+            throw new Error('Task claims are not enabled (no claimService configured)');
+        }
+
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        const exclusive = TaskClaimService.isExclusive(manifest);
+        const accepting: TaskStatus[] = exclusive ? ['submitted', 'mining'] : ['submitted', 'mining', 'evaluating'];
+        if (!accepting.includes(task.status as TaskStatus)) {
+            throw new Error(`Task ${taskId} is not accepting outputs (status: ${task.status})`);
+        }
+
+        if (exclusive && (await this.taskRepo.getOutputs(taskId)).length > 0) {
+            return null;
+        }
+
+        return this.claimService.claim(taskId, minerAddress, exclusive, leaseMs);
+    }
+
+    /**
+     * Extend a miner's claim while it is still executing
+     */
+    async renewClaim(taskId: string, minerAddress: string, leaseMs?: number): Promise<TaskClaim> {
+        if (!this.claimService) {
+            throw new Error('Task claims are not enabled (no claimService configured)');
+        }
+        return this.claimService.renew(taskId, minerAddress, leaseMs);
+    }
+
+    /**
+     * Give up a claim without submitting
+     */
+    async releaseClaim(taskId: string, minerAddress: string): Promise<void> {
+        await this.claimService?.release(taskId, minerAddress);
+    }
+
     /**
      * Add validator evaluation
      * Uses repository instead of direct Prisma calls
+     * details.timestamp is the time the validator signed; it is part of the signed message,
+     * so it must be stored as-is for the signature to verify later
      */
     async addValidatorEvaluation(
         taskId: string,
@@ -200,8 +317,15 @@ export class TaskServiceRefactored {
         score: number,
         confidence: number,
         signature: string,
-        manifest: NetworkManifest
+        manifest: NetworkManifest,
+        details: { timestamp?: number; methodConfig?: ValidatorEvaluation['methodConfig'] } = {}
     ): Promise<ValidatorEvaluation> {
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+        this.stateMachine.assertTransition(taskId, task.status, 'evaluating');
+
         // Verify signature (simplified - actual service may have different signature)
         // TODO: Update when SignatureVerificationService is refactored
         const signatureValid = true; // Placeholder - actual verification would be done by service
@@ -226,24 +350,30 @@ export class TaskServiceRefactored {
             outputId,
             score,
             confidence,
-            timestamp: Date.now(),
+            timestamp: details.timestamp ?? Date.now(),
             signature,
+            methodConfig: details.methodConfig,
         };
 
         // Persist using repository
-        await this.taskRepo.addEvaluation({
-            id: `eval_${Date.now()}`,
-            taskId,
-            outputId,
-            validatorAddress,
-            score,
-            confidence,
-            signature,
-            timestamp: new Date(),
-        });
+        await this.stateMachine.transition(
+            { taskId, networkId: task.networkId, from: task.status, to: 'evaluating', context: { validatorAddress, outputId, score } },
+            async () => {
+                await this.taskRepo.addEvaluation({
+                    id: `eval_${Date.now()}`,
+                    taskId,
+                    outputId,
+                    validatorAddress,
+                    score,
+                    confidence,
+                    signature,
+                    timestamp: new Date(evaluation.timestamp),
+                });
+                await this.taskRepo.updateStatus(taskId, 'evaluating');
+            }
+        );
 
-        // Update task status
-        await this.taskRepo.updateStatus(taskId, 'evaluating');
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskEvaluationAdded', { taskId, evaluation }, validatorAddress);
 
         this.logger.info('Validator evaluation added', { taskId, validatorAddress, outputId, score });
         return evaluation;
@@ -283,6 +413,7 @@ export class TaskServiceRefactored {
                 output: o.output,
                 minerAddress: o.minerAddress,
                 timestamp: o.timestamp.getTime(),
+                metadata: o.metadata,
             })),
             evaluations: evaluations.map(e => ({
                 validatorAddress: e.validatorAddress,
@@ -308,16 +439,131 @@ export class TaskServiceRefactored {
      * Uses repository instead of direct Prisma calls
      */
     async markTaskPaid(taskId: string, paymentTxHash: string): Promise<void> {
-        await this.taskRepo.update(taskId, {
-            paymentReleased: true,
-            paymentTxHash,
-            status: 'paid',
-            updatedAt: new Date(),
-        });
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        await this.stateMachine.transition(
+            { taskId, networkId: task.networkId, from: task.status, to: 'paid', context: { paymentTxHash } },
+            async () => {
+                await this.taskRepo.update(taskId, {
+                    paymentReleased: true,
+                    paymentTxHash,
+                    status: 'paid',
+                    updatedAt: new Date(),
+                });
+            }
+        );
+
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskPaid', { paymentTxHash });
 
         this.logger.info('Task marked as paid', { taskId, paymentTxHash });
     }
 
+    /**
+     * Mark task as timed out
+     * Called when the task deadline passes without reaching consensus
+     * missed lists the miners/validators held responsible (recorded in the audit log)
+     */
+    async markTaskTimedOut(
+        taskId: string,
+        deadline: number,
+        missed: { missedMiners: string[]; missedValidators: string[] } = { missedMiners: [], missedValidators: [] }
+    ): Promise<void> {
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        await this.stateMachine.transition(
+            { taskId, networkId: task.networkId, from: task.status, to: 'timed-out', context: { deadline, ...missed } },
+            () => this.taskRepo.updateStatus(taskId, 'timed-out')
+        );
+
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskTimedOut', {
+            deadline,
+            previousStatus: task.status,
+            missedMiners: missed.missedMiners,
+            missedValidators: missed.missedValidators,
+        });
+
+        this.logger.info('Task marked as timed out', { taskId, deadline, previousStatus: task.status });
+    }
+
+    /**
+     * Mark task as challenged
+     * Evidence is expected to be stored separately and referenced by CID
+     */
+    async markTaskChallenged(
+        taskId: string,
+        challengerAddress: string,
+        reason: string,
+        evidenceCid?: string
+    ): Promise<void> {
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        await this.stateMachine.transition(
+            { taskId, networkId: task.networkId, from: task.status, to: 'challenged', context: { challengerAddress, reason, evidenceCid } },
+            () => this.taskRepo.updateStatus(taskId, 'challenged')
+        );
+
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskChallenged', {
+            challengerAddress,
+            reason,
+            evidenceCid,
+        }, challengerAddress);
+
+        this.logger.info('Task challenged', { taskId, challengerAddress, evidenceCid });
+    }
+
+    /**
+     * Close a challenge on a task
+     * Upheld challenges reject the result (user-rejected); dismissed ones restore consensus-reached
+     */
+    async resolveTaskChallenge(
+        taskId: string,
+        resolution: {
+            disputeId: string;
+            challengerWon: boolean;
+            resolutionMode: 'validator' | 'oracle' | 'governance';
+            resolutionTxHash?: string;
+        }
+    ): Promise<void> {
+        const task = await this.taskRepo.findById(taskId);
+        if (!task) {
+            throw new Error('Task not found');
+        }
+
+        const to: TaskStatus = resolution.challengerWon ? 'user-rejected' : 'consensus-reached';
+        await this.stateMachine.transition(
+            { taskId, networkId: task.networkId, from: task.status, to, context: resolution },
+            () => this.taskRepo.updateStatus(taskId, to)
+        );
+
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskChallengeResolved', resolution);
+
+        this.logger.info('Task challenge resolved', {
+            taskId,
+            disputeId: resolution.disputeId,
+            challengerWon: resolution.challengerWon,
+        });
+    }
+
+    /**
+     * Get the event-sourced audit log for a task
+     * Returns an empty list when no event store is configured
+     */
+    async getTaskEvents(taskId: string): Promise<DomainEvent[]> {
+        if (!this.eventStore) {
+            return [];
+        }
+        return this.eventStore.getEvents(taskId);
+    }
+
     /**
      * Get tasks by network
      * Uses repository instead of direct Prisma calls
@@ -378,6 +624,12 @@ export class TaskServiceRefactored {
             throw new Error('Task not found');
         }
 
+        // Evaluations can only be processed while the task can still reach consensus
+        if (!TaskStateMachine.canTransition(taskState.status, 'consensus-reached')) {
+            throw new IllegalTaskTransitionError(taskId, taskState.status, 'consensus-reached');
+        }
+        let currentStatus: TaskStatus = taskState.status;
+
         // Check minimum validators
         if (taskState.evaluations.length < manifest.validatorConfig.minValidators) {
             throw new Error(`Insufficient validators: need ${manifest.validatorConfig.minValidators}, got ${taskState.evaluations.length}`);
@@ -399,7 +651,8 @@ export class TaskServiceRefactored {
                 confidence: eval_.confidence,
                 signature: eval_.signature,
                 timestamp: eval_.timestamp,
-            }))
+            })),
+            { domain: getNetworkSigningDomain(manifest) }
         );
 
         if (!signatureVerification.allValid) {
@@ -428,6 +681,7 @@ export class TaskServiceRefactored {
 
         // Process based on evaluation mode
         let evaluationResult: EvaluationResult;
+        let preFilteredOutputIds: string[] = [];
 
         if (manifest.evaluationMode === 'deterministic') {
             evaluationResult = await this.evaluationService.evaluateDeterministic(
@@ -436,7 +690,8 @@ export class TaskServiceRefactored {
                 taskState.outputs,
                 taskState.evaluations,
                 manifest.scoringLogic.hash,
-                manifest.deterministicReplay
+                manifest.deterministicReplay,
+                manifest.scoringLogic
             );
         } else if (manifest.evaluationMode === 'statistical') {
             const distributionBased = manifest.statisticalEvaluation?.distributionBased !== false;
@@ -456,13 +711,18 @@ export class TaskServiceRefactored {
             // Pre-filter for human-in-the-loop if enabled
             if (manifest.humanInTheLoop?.enabled) {
                 const topN = manifest.humanInTheLoop.topN || 3;
-                const preFilteredOutputIds = await this.evaluationService.preFilterForHumanSelection(
+                preFilteredOutputIds = await this.evaluationService.preFilterForHumanSelection(
                     evaluationResult,
                     topN,
                     manifest.humanInTheLoop.userPreference
                 );
 
-                await this.taskRepo.updatePreFilteredOutputs(taskId, preFilteredOutputIds);
+                const outputIds = preFilteredOutputIds;
+                await this.stateMachine.transition(
+                    { taskId, networkId: taskState.networkId, from: currentStatus, to: 'pre-filtering', context: { preFilteredOutputs: outputIds } },
+                    () => this.taskRepo.updatePreFilteredOutputs(taskId, outputIds)
+                );
+                currentStatus = 'pre-filtering';
 
                 this.logger.info('Top-N outputs pre-filtered for human selection', {
                     taskId,
@@ -478,7 +738,8 @@ export class TaskServiceRefactored {
                 taskState.outputs,
                 taskState.evaluations,
                 manifest.scoringLogic.hash,
-                manifest.deterministicReplay
+                manifest.deterministicReplay,
+                manifest.scoringLogic
             );
         }
 
@@ -490,10 +751,30 @@ export class TaskServiceRefactored {
 
         if (consensus.reached) {
             if (manifest.humanInTheLoop?.enabled && !taskState.humanSelection) {
-                await this.taskRepo.updateStatus(taskId, 'user-selecting');
+                await this.stateMachine.transition(
+                    { taskId, networkId: taskState.networkId, from: currentStatus, to: 'user-selecting' },
+                    () => this.taskRepo.updateStatus(taskId, 'user-selecting')
+                );
+                await this.eventRecorder?.recordTaskEvent(taskId, 'TaskAwaitingSelection', {
+                    evaluationResult,
+                    preFilteredOutputs: preFilteredOutputIds,
+                });
                 this.logger.info('Waiting for user selection', { taskId });
             } else {
-                await this.taskRepo.updateConsensus(taskId, evaluationResult.winningOutputId!);
+                await this.stateMachine.transition(
+                    {
+                        taskId,
+                        networkId: taskState.networkId,
+                        from: currentStatus,
+                        to: 'consensus-reached',
+                        context: { winningOutputId: evaluationResult.winningOutputId },
+                    },
+                    () => this.taskRepo.updateConsensus(taskId, evaluationResult.winningOutputId!)
+                );
+                await this.eventRecorder?.recordTaskEvent(taskId, 'TaskConsensusReached', {
+                    winningOutputId: evaluationResult.winningOutputId!,
+                    evaluationResult,
+                });
                 this.logger.info('Consensus reached', { taskId, winningOutputId: evaluationResult.winningOutputId });
             }
         }
@@ -523,10 +804,12 @@ export class TaskServiceRefactored {
 
     /**
      * Prepare validator signatures for contract release
+     * Pass the network manifest to accept EIP-712 evaluation signatures in its signing domain
      */
     prepareValidatorSignatures(
         taskState: TaskState,
-        winningOutputId: string
+        winningOutputId: string,
+        manifest?: NetworkManifest
     ): Array<{
         validator: string;
         accepted: boolean;
@@ -552,7 +835,8 @@ export class TaskServiceRefactored {
                 confidence: eval_.confidence,
                 signature: eval_.signature,
                 timestamp: eval_.timestamp,
-            }))
+            })),
+            { domain: manifest ? getNetworkSigningDomain(manifest) : null }
         );
 
         if (!signatureVerification.allValid) {
@@ -646,7 +930,16 @@ export class TaskServiceRefactored {
         }
 
         // Update repository with human selection
-        await this.taskRepo.updateHumanSelection(taskId, selectedOutputId, userAddress);
+        await this.stateMachine.transition(
+            {
+                taskId,
+                networkId: taskState.networkId,
+                from: taskState.status,
+                to: 'consensus-reached',
+                context: { winningOutputId: selectedOutputId, userAddress },
+            },
+            () => this.taskRepo.updateHumanSelection(taskId, selectedOutputId, userAddress)
+        );
 
         // Create evaluation result with human selection
         const evaluationResult: EvaluationResult = {
@@ -666,6 +959,11 @@ export class TaskServiceRefactored {
 
         await this.taskRepo.updateEvaluationResult(taskId, evaluationResult);
 
+        await this.eventRecorder?.recordTaskEvent(taskId, 'TaskHumanSelectionAdded', {
+            humanSelection: evaluationResult.humanSelection!,
+            evaluationResult,
+        }, userAddress);
+
         this.logger.info('Human selection recorded', { taskId, selectedOutputId, userAddress });
 
         return evaluationResult;
@@ -855,6 +1153,8 @@ export class TaskServiceRefactored {
             if (!taskState) {
                 throw new Error('Task not found');
             }
+            const previousStatus = taskState.status;
+            this.stateMachine.assertTransition(taskId, previousStatus, 'user-rejected');
 
             // Check redo limit
             const redoCount = (taskState.redoCount || 0) + 1;
@@ -913,13 +1213,30 @@ export class TaskServiceRefactored {
             }
 
             // Cache to database
-            this.cacheTaskStateToDb(taskState, ipfsCid).catch(err => {
+            await this.stateMachine.transition(
+                {
+                    taskId,
+                    networkId: taskState.networkId,
+                    from: previousStatus,
+                    to: 'user-rejected',
+                    context: { userAddress, redoCount, rejectedValidators: approvedValidators },
+                },
+                () => this.cacheTaskStateToDb(taskState, ipfsCid)
+            ).catch(err => {
                 this.logger.debug('Failed to cache user rejection to database', { taskId, err });
             });
 
             // Create new task ID for redo
             const newTaskId = `${taskId}-redo-${redoCount}`;
 
+            await this.eventRecorder?.recordTaskEvent(taskId, 'TaskUserRejected', {
+                userAddress,
+                redoCount,
+                patternHash,
+                rejectedValidators: approvedValidators,
+                newTaskId,
+            }, userAddress);
+
             this.logger.info('User redo requested', {
                 originalTaskId: taskId,
                 newTaskId,
@@ -1065,6 +1382,8 @@ export class TaskServiceRefactored {
                 throw new Error('Task not found');
             }
 
+            this.stateMachine.assertTransition(taskId, task.status, 'consensus-reached');
+
             const bootstrapConfig = await this.checkBootstrapModeForTask(taskId, manifest);
             if (!bootstrapConfig) {
                 throw new Error('Task not in bootstrap mode');
@@ -1085,8 +1404,23 @@ export class TaskServiceRefactored {
             }));
 
             // Update task with consensus
-            await this.taskRepo.updateConsensus(taskId, selectedOutputId);
-            await this.taskRepo.updateStatus(taskId, 'consensus-reached');
+            await this.stateMachine.transition(
+                {
+                    taskId,
+                    networkId: task.networkId,
+                    from: task.status,
+                    to: 'consensus-reached',
+                    context: { winningOutputId: selectedOutputId, userAddress, bootstrap: true },
+                },
+                async () => {
+                    await this.taskRepo.updateConsensus(taskId, selectedOutputId);
+                    await this.taskRepo.updateStatus(taskId, 'consensus-reached');
+                }
+            );
+
+            await this.eventRecorder?.recordTaskEvent(taskId, 'TaskConsensusReached', {
+                winningOutputId: selectedOutputId,
+            }, userAddress);
 
             // Prepare payment release transaction
             let paymentReleased = false;
@@ -1199,17 +1533,6 @@ export class TaskServiceRefactored {
      */
     private async cacheTaskStateToDb(taskState: TaskState, ipfsCid: string | null): Promise<void> {
         try {
-            // Update main task record
-            await this.taskRepo.update(taskState.taskId, {
-                status: taskState.status,
-                consensusReached: taskState.consensusReached,
-                winningOutputId: taskState.winningOutputId || null,
-                paymentReleased: taskState.paymentReleased,
-                paymentTxHash: taskState.paymentTxHash || null,
-                ipfsCid: ipfsCid || null,
-                updatedAt: new Date(taskState.updatedAt),
-            });
-
             // Update evaluation result if present
             if (taskState.evaluationResult) {
                 await this.taskRepo.updateEvaluationResult(taskState.taskId, taskState.evaluationResult);
@@ -1229,6 +1552,17 @@ export class TaskServiceRefactored {
                 );
             }
 
+            // Update main task record last: the helpers above also set status
+            await this.taskRepo.update(taskState.taskId, {
+                status: taskState.status,
+                consensusReached: taskState.consensusReached,
+                winningOutputId: taskState.winningOutputId || null,
+                paymentReleased: taskState.paymentReleased,
+                paymentTxHash: taskState.paymentTxHash || null,
+                ipfsCid: ipfsCid || null,
+                updatedAt: new Date(taskState.updatedAt),
+            });
+
             this.logger.debug('Task state cached to database', { taskId: taskState.taskId, ipfsCid });
         } catch (error) {
             this.logger.error('Failed to cache task state to database', {
@@ -1449,8 +1783,6 @@ export class TaskServiceRefactored {
      * Hash output deterministically
      */
     private hashOutput(output: any): string {
-        const { createHash } = require('crypto');
-        const outputStr = JSON.stringify(output, Object.keys(output).sort());
-        return createHash('sha256').update(outputStr).digest('hex');
+        return canonicalHash(output);
     }
 }
@@ -6,17 +6,24 @@
  */
 
 import { ILogger } from './utils/ILogger';
+import { canonicalize } from './utils/CanonicalJson';
 import { TaskState } from './TaskService';
 import { NetworkManifest } from './types';
+import { IStorageProvider } from './interfaces/IStorageProvider';
 import { ethers } from 'ethers';
 import axios from 'axios';
 import FormData from 'form-data';
 
 export class TaskStateIPFSService {
   private logger: ILogger;
+  private storage?: IStorageProvider;
 
-  constructor(logger?: Logger) {
+  /**
+   * @param storage Optional storage provider (S3, Arweave, R2, ...); defaults to the public IPFS API
+   */
+  constructor(logger?: Logger, storage?: IStorageProvider) {
     this.logger = logger || new Logger('TaskStateIPFSService');
+    this.storage = storage;
   }
 
   /**
@@ -27,11 +34,21 @@ export class TaskStateIPFSService {
     try {
       this.logger.info('Uploading task state to IPFS', { taskId: taskState.taskId });
 
+      if (this.storage) {
+        const cid = await this.storage.upload(taskState, {
+          name: `task-${taskState.taskId}.json`,
+          type: 'application/json',
+        });
+        this.logger.info('Task state uploaded', { taskId: taskState.taskId, cid, storage: this.storage.getType() });
+        return cid;
+      }
+
       // Use public IPFS API
       const ipfsApiUrl = process.env.IPFS_API_URL || 'https://ipfs.io/api/v0';
       
+      // Canonical JSON so the CID depends only on the task state, not on key order
       const formData = new FormData();
-      const taskStateJson = JSON.stringify(taskState, null, 2);
+      const taskStateJson = canonicalize(taskState);
       formData.append('file', Buffer.from(taskStateJson), {
         filename: `task-${taskState.taskId}.json`,
         contentType: 'application/json',
@@ -116,6 +133,12 @@ export class TaskStateIPFSService {
    */
   async getTaskStateFromIPFS(ipfsCid: string): Promise<TaskState | null> {
     try {
+      if (this.storage) {
+        const taskState = await this.storage.download(ipfsCid) as TaskState;
+        this.logger.info('Task state fetched', { ipfsCid, taskId: taskState.taskId, storage: this.storage.getType() });
+        return taskState;
+      }
+
       const gateway = process.env.IPFS_GATEWAY || 'https://ipfs.io/ipfs/';
       const url = `${gateway}${ipfsCid}`;
 
@@ -0,0 +1,160 @@
+/**
+ * Task State Machine
+ *
+ * Single transition table for TaskStatus, shared by TaskService and
+ * TaskServiceRefactored. Every status change goes through transition(),
+ * which rejects illegal moves and notifies registered hooks once the new
+ * status has been persisted.
+ */
+
+import { ILogger } from './utils/ILogger';
+import type { TaskStatus } from './TaskService';
+
+/**
+ * Allowed transitions per status
+ * A status listed in its own row may be re-entered (e.g. more outputs while mining)
+ */
+export const TASK_TRANSITIONS: Readonly<Record<TaskStatus, readonly TaskStatus[]>> = {
+  'submitted': ['mining', 'timed-out'],
+  'mining': ['mining', 'evaluating', 'consensus-reached', 'timed-out'], // consensus-reached: bootstrap user selection
+  'evaluating': ['evaluating', 'pre-filtering', 'user-selecting', 'consensus-reached', 'timed-out'],
+  'pre-filtering': ['user-selecting', 'consensus-reached', 'timed-out'],
+  'user-selecting': ['consensus-reached', 'user-rejected', 'timed-out'],
+  'consensus-reached': ['paid', 'user-rejected', 'challenged'],
+  'challenged': ['consensus-reached', 'user-rejected', 'timed-out'],
+  'user-rejected': [],
+  'paid': [],
+  'timed-out': [],
+};
+
+/**
+ * A completed status change
+ */
+export interface TaskTransition {
+  taskId: string;
+  networkId?: string;
+  from: TaskStatus;
+  to: TaskStatus;
+  timestamp: number;
+  context?: Record<string, any>; // Caller-supplied details (winningOutputId, paymentTxHash, ...)
+}
+
+export type TaskTransitionHook = (transition: TaskTransition) => void | Promise<void>;
+
+/**
+ * Thrown when a status change is not in TASK_TRANSITIONS
+ */
+export class IllegalTaskTransitionError extends Error {
+  readonly taskId: string;
+  readonly from: TaskStatus;
+  readonly to: TaskStatus;
+
+  constructor(taskId: string, from: TaskStatus, to: TaskStatus) {
+    super(`Illegal task transition for ${taskId}: ${from} -> ${to}`);
+    this.name = 'IllegalTaskTransitionError';
+    this.taskId = taskId;
+    this.from = from;
+    this.to = to;
+    Object.setPrototypeOf(this, IllegalTaskTransitionError.prototype);
+  }
+}
+
+export class TaskStateMachine {
+  private logger: ILogger;
+  private hooks: Array<{
+    hook: TaskTransitionHook;
+    from?: TaskStatus;
+    to?: TaskStatus;
+  }> = [];
+
+  constructor(logger: ILogger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Check whether a transition is allowed
+   */
+  static canTransition(from: TaskStatus, to: TaskStatus): boolean {
+    return (TASK_TRANSITIONS[from] || []).includes(to);
+  }
+
+  /**
+   * Check whether no further transitions are possible
+   */
+  static isTerminal(status: TaskStatus): boolean {
+    return (TASK_TRANSITIONS[status] || []).length === 0;
+  }
+
+  /**
+   * Throw IllegalTaskTransitionError if the transition is not allowed
+   */
+  assertTransition(taskId: string, from: TaskStatus, to: TaskStatus): void {
+    if (!TaskStateMachine.canTransition(from, to)) {
+      throw new IllegalTaskTransitionError(taskId, from, to);
+    }
+  }
+
+  /**
+   * Register a hook, optionally filtered by source and/or target status
+   * Returns a function that removes the hook
+   */
+  onTransition(hook: TaskTransitionHook, filter?: { from?: TaskStatus; to?: TaskStatus }): () => void {
+    const entry = { hook, from: filter?.from, to: filter?.to };
+    this.hooks.push(entry);
+    return () => {
+      this.hooks = this.hooks.filter(h => h !== entry);
+    };
+  }
+
+  /**
+   * Validate, persist and announce a status change
+   * persist runs only if the transition is legal; hooks run only if persist succeeds.
+   * Hook failures are logged and never undo the transition.
+   */
+  async transition(
+    params: {
+      taskId: string;
+      networkId?: string;
+      from: TaskStatus;
+      to: TaskStatus;
+      context?: Record<string, any>;
+    },
+    persist?: () => Promise<void>
+  ): Promise<TaskTransition> {
+    this.assertTransition(params.taskId, params.from, params.to);
+
+    if (persist) {
+      await persist();
+    }
+
+    const transition: TaskTransition = {
+      ...params,
+      timestamp: Date.now(),
+    };
+
+    this.logger.debug('Task transition', {
+      taskId: transition.taskId,
+      from: transition.from,
+      to: transition.to,
+    });
+
+    for (const { hook, from, to } of this.hooks) {
+      if ((from && from !== transition.from) || (to && to !== transition.to)) {
+        continue;
+      }
+
+      try {
+        await hook(transition);
+      } catch (error) {
+        this.logger.error('Task transition hook failed', {
+          taskId: transition.taskId,
+          from: transition.from,
+          to: transition.to,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return transition;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Task State Projector
+ *
+ * Rebuilds a TaskState from the task's domain events (IEventStore.getEvents),
+ * so any task can be audited and replayed without trusting the cached DB row.
+ */
+
+import { IEventStore, DomainEvent } from './interfaces/IEventStore';
+import { TaskState } from './TaskService';
+import { TASK_AGGREGATE, TaskEventPayloads, TaskEventType } from './ProtocolEvents';
+
+/**
+ * Result of comparing a projected TaskState with a cached one
+ */
+export interface TaskStateAuditResult {
+  taskId: string;
+  consistent: boolean;
+  eventCount: number;
+  mismatches: string[];
+}
+
+export class TaskStateProjector {
+  private eventStore: IEventStore;
+
+  constructor(eventStore: IEventStore) {
+    this.eventStore = eventStore;
+  }
+
+  /**
+   * Rebuild task state from the event store
+   * Returns null if the task has no TaskSubmitted event
+   */
+  async rebuild(taskId: string): Promise<TaskState | null> {
+    const events = await this.eventStore.getEvents(taskId);
+    return TaskStateProjector.project(events);
+  }
+
+  /**
+   * Compare the cached task state against the event-sourced projection
+   */
+  async audit(cached: TaskState): Promise<TaskStateAuditResult> {
+    const events = await this.eventStore.getEvents(cached.taskId);
+    const projected = TaskStateProjector.project(events);
+    const mismatches: string[] = [];
+
+    if (!projected) {
+      mismatches.push('No TaskSubmitted event found');
+    } else {
+      const compare = (field: string, expected: any, actual: any) => {
+        if (expected !== actual) {
+          mismatches.push(`${field}: events say ${JSON.stringify(expected)}, cache says ${JSON.stringify(actual)}`);
+        }
+      };
+
+      compare('status', projected.status, cached.status);
+      compare('consensusReached', projected.consensusReached, cached.consensusReached);
+      compare('winningOutputId', projected.winningOutputId, cached.winningOutputId);
+      compare('paymentReleased', projected.paymentReleased, cached.paymentReleased);
+      compare('paymentTxHash', projected.paymentTxHash, cached.paymentTxHash);
+      compare(
+        'outputs',
+        projected.outputs.map(o => o.outputId).sort().join(','),
+        cached.outputs.map(o => o.outputId).sort().join(',')
+      );
+      compare(
+        'evaluations',
+        projected.evaluations.map(e => `${e.validatorAddress.toLowerCase()}:${e.outputId}:${e.score}`).sort().join(','),
+        cached.evaluations.map(e => `${e.validatorAddress.toLowerCase()}:${e.outputId}:${e.score}`).sort().join(',')
+      );
+    }
+
+    return {
+      taskId: cached.taskId,
+      consistent: mismatches.length === 0,
+      eventCount: events.length,
+      mismatches,
+    };
+  }
+
+  /**
+   * Fold task events (ordered by version) into a TaskState
+   */
+  static project(events: DomainEvent[]): TaskState | null {
+    const ordered = events
+      .filter(e => e.aggregateType === TASK_AGGREGATE)
+      .sort((a, b) => a.metadata.version - b.metadata.version);
+
+    let state: TaskState | null = null;
+
+    for (const event of ordered) {
+      const at = new Date(event.metadata.timestamp).getTime();
+      const type = event.eventType as TaskEventType;
+
+      if (type === 'TaskSubmitted') {
+        const data = event.data as TaskEventPayloads['TaskSubmitted'];
+        state = {
+          taskId: data.submission.taskId,
+          networkId: data.submission.networkId,
+          status: 'submitted',
+          submission: data.submission,
+          outputs: [],
+          evaluations: [],
+          consensusReached: false,
+          paymentReleased: false,
+          createdAt: at,
+          updatedAt: at,
+        };
+        continue;
+      }
+
+      if (!state) {
+        // Events before submission cannot be applied
+        continue;
+      }
+
+      switch (type) {
+        case 'TaskOutputAdded': {
+          const data = event.data as TaskEventPayloads['TaskOutputAdded'];
+          if (!state.outputs.some(o => o.outputId === data.output.outputId)) {
+            state.outputs.push(data.output);
+          }
+          state.status = 'mining';
+          break;
+        }
+        case 'TaskEvaluationAdded': {
+          const data = event.data as TaskEventPayloads['TaskEvaluationAdded'];
+          state.evaluations.push(data.evaluation);
+          state.status = 'evaluating';
+          break;
+        }
+        case 'TaskAwaitingSelection': {
+          const data = event.data as TaskEventPayloads['TaskAwaitingSelection'];
+          state.evaluationResult = data.evaluationResult;
+          state.preFilteredOutputs = data.preFilteredOutputs;
+          state.status = 'user-selecting';
+          break;
+        }
+        case 'TaskConsensusReached': {
+          const data = event.data as TaskEventPayloads['TaskConsensusReached'];
+          state.consensusReached = true;
+          state.winningOutputId = data.winningOutputId;
+          if (data.evaluationResult) {
+            state.evaluationResult = data.evaluationResult;
+          }
+          state.status = 'consensus-reached';
+          break;
+        }
+        case 'TaskHumanSelectionAdded': {
+          const data = event.data as TaskEventPayloads['TaskHumanSelectionAdded'];
+          state.humanSelection = data.humanSelection;
+          state.evaluationResult = data.evaluationResult;
+          state.winningOutputId = data.humanSelection.selectedOutputId;
+          state.consensusReached = true;
+          state.status = 'consensus-reached';
+          break;
+        }
+        case 'TaskUserRejected': {
+          const data = event.data as TaskEventPayloads['TaskUserRejected'];
+          state.userRejected = true;
+          state.redoCount = data.redoCount;
+          state.collusionPattern = data.patternHash;
+          state.status = 'user-rejected';
+          break;
+        }
+        case 'TaskPaid': {
+          const data = event.data as TaskEventPayloads['TaskPaid'];
+          state.paymentReleased = true;
+          state.paymentTxHash = data.paymentTxHash;
+          state.status = 'paid';
+          break;
+        }
+        case 'TaskChallenged':
+          state.status = 'challenged';
+          break;
+        case 'TaskChallengeResolved': {
+          const data = event.data as TaskEventPayloads['TaskChallengeResolved'];
+          // Upheld challenges reject the result; dismissed ones restore it
+          state.status = data.challengerWon ? 'user-rejected' : 'consensus-reached';
+          break;
+        }
+        case 'TaskTimedOut':
+          state.status = 'timed-out';
+          break;
+        default:
+          // Unknown event types are ignored so newer writers don't break older readers
+          break;
+      }
+
+      state.updatedAt = at;
+    }
+
+    return state;
+  }
+}
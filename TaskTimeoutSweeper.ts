@@ -0,0 +1,408 @@
+/**
+ * Task Timeout Sweeper
+ *
+ * Periodically enforces manifest.taskFormat.timeout:
+ * 1. Scans submitted/mining/evaluating tasks for ones past their deadline
+ * 2. Moves them to 'timed-out' through TaskServiceRefactored (state machine + events)
+ * 3. Calls EscrowContract.checkTimeout(taskId) so the depositor is refunded (and marks the
+ *    Inter-Network Call behind the task, if any, as refunded)
+ * 4. Records the miss against the validators (and miners, if assignments are known) who failed to deliver
+ */
+
+import { ethers } from 'ethers';
+import { ILogger } from './utils/ILogger';
+import { ITaskRepository, TaskData } from './interfaces/ITaskRepository';
+import { INetworkRepository } from './interfaces/INetworkRepository';
+import { IStorageProvider } from './interfaces/IStorageProvider';
+import { IBlockchainProvider } from './interfaces/IBlockchainProvider';
+import { TaskServiceRefactored } from './TaskServiceRefactored';
+import { OnChainValidatorService } from './OnChainValidatorService';
+import { ValidatorReputationService } from './ValidatorReputationService';
+import type { INCCallService } from './INCCallService';
+import { NetworkManifest } from './types';
+
+/**
+ * Default task timeout when the manifest does not set one (seconds)
+ */
+export const DEFAULT_TASK_TIMEOUT_SECONDS = 3600;
+
+const SWEPT_STATUSES: TaskData['status'][] = ['submitted', 'mining', 'evaluating'];
+
+const ESCROW_TIMEOUT_ABI = ['function checkTimeout(bytes32 taskId) external'];
+
+/**
+ * Source of miner assignments (e.g. claim leases)
+ * Without one, timeouts can only be attributed to validators
+ */
+export interface MinerAssignmentSource {
+  getAssignedMiners(taskId: string): Promise<string[]>;
+}
+
+export interface TaskTimeoutSweeperDependencies {
+  taskRepository: ITaskRepository;
+  networkRepository: INetworkRepository;
+  storage: IStorageProvider;          // Manifest storage (manifestCid -> NetworkManifest)
+  blockchain: IBlockchainProvider;    // Used for EscrowContract.checkTimeout
+  taskService: TaskServiceRefactored;
+  onChainValidatorService?: OnChainValidatorService;
+  validatorReputationService?: ValidatorReputationService;
+  minerAssignments?: MinerAssignmentSource;
+  incCallService?: Pick<INCCallService, 'markRefunded'>;
+}
+
+export interface TaskTimeoutSweeperOptions {
+  checkIntervalMs: number;      // How often to sweep
+  batchSize: number;            // Max tasks loaded per status per sweep (oldest first)
+  missedDeadlinePenalty: number; // Validator reputation points deducted per miss
+  maxRefundAttempts: number;    // Escrow refund retries across sweeps
+}
+
+/**
+ * Outcome of timing out one task
+ */
+export interface TaskTimeoutResult {
+  taskId: string;
+  networkId: string;
+  previousStatus: TaskData['status'];
+  deadline: number;
+  missedMiners: string[];
+  missedValidators: string[];
+  refundTxHash?: string;
+}
+
+const DEFAULT_OPTIONS: TaskTimeoutSweeperOptions = {
+  checkIntervalMs: 60 * 1000, // Every minute
+  batchSize: 100,
+  missedDeadlinePenalty: 5,
+  maxRefundAttempts: 5,
+};
+
+export class TaskTimeoutSweeper {
+  private logger: ILogger;
+  private taskRepo: ITaskRepository;
+  private networkRepo: INetworkRepository;
+  private storage: IStorageProvider;
+  private blockchain: IBlockchainProvider;
+  private taskService: TaskServiceRefactored;
+  private onChainValidatorService?: OnChainValidatorService;
+  private validatorReputationService?: ValidatorReputationService;
+  private minerAssignments?: MinerAssignmentSource;
+  private incCallService?: Pick<INCCallService, 'markRefunded'>;
+  private options: TaskTimeoutSweeperOptions;
+
+  private isRunning: boolean = false;
+  private isSweeping: boolean = false;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  // Escrow refunds that failed after the task was timed out: taskId -> attempts so far
+  private pendingRefunds: Map<string, { networkId: string; contractAddress: string; attempts: number }> = new Map();
+
+  constructor(
+    logger: ILogger,
+    dependencies: TaskTimeoutSweeperDependencies,
+    options: Partial<TaskTimeoutSweeperOptions> = {}
+  ) {
+    this.logger = logger;
+    this.taskRepo = dependencies.taskRepository;
+    this.networkRepo = dependencies.networkRepository;
+    this.storage = dependencies.storage;
+    this.blockchain = dependencies.blockchain;
+    this.taskService = dependencies.taskService;
+    this.onChainValidatorService = dependencies.onChainValidatorService;
+    this.validatorReputationService = dependencies.validatorReputationService;
+    this.minerAssignments = dependencies.minerAssignments;
+    this.incCallService = dependencies.incCallService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start sweeping for overdue tasks
+   */
+  public async start(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Task timeout sweeper is already running');
+      return;
+    }
+
+    this.logger.info('Starting task timeout sweeper...');
+    this.isRunning = true;
+
+    this.sweepInterval = setInterval(async () => {
+      try {
+        await this.sweep();
+      } catch (error) {
+        this.logger.error('Error in task timeout sweep loop:', error);
+      }
+    }, this.options.checkIntervalMs);
+
+    // Do initial sweep
+    await this.sweep();
+
+    this.logger.info('Task timeout sweeper started successfully');
+  }
+
+  /**
+   * Stop sweeping
+   */
+  public async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.logger.info('Stopping task timeout sweeper...');
+    this.isRunning = false;
+
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+
+    this.logger.info('Task timeout sweeper stopped');
+  }
+
+  /**
+   * Run one sweep: retry failed refunds, then time out overdue tasks
+   * Overlapping sweeps are skipped
+   */
+  async sweep(now: number = Date.now()): Promise<TaskTimeoutResult[]> {
+    if (this.isSweeping) {
+      this.logger.debug('Previous timeout sweep still running, skipping');
+      return [];
+    }
+
+    this.isSweeping = true;
+    const results: TaskTimeoutResult[] = [];
+    const manifests = new Map<string, NetworkManifest | null>();
+
+    try {
+      await this.retryPendingRefunds();
+
+      // Oldest first, so a backlog larger than batchSize is worked off from the most overdue end
+      for (const status of SWEPT_STATUSES) {
+        const tasks = await this.taskRepo.findOverdue(status, new Date(now), this.options.batchSize);
+
+        for (const task of tasks) {
+          try {
+            if (!manifests.has(task.networkId)) {
+              manifests.set(task.networkId, await this.loadManifest(task.networkId));
+            }
+            const manifest = manifests.get(task.networkId);
+            if (!manifest) {
+              continue;
+            }
+
+            const deadline = TaskTimeoutSweeper.getDeadline(task, manifest);
+            if (now < deadline) {
+              continue;
+            }
+
+            results.push(await this.timeOutTask(task, manifest, deadline));
+          } catch (error) {
+            this.logger.error('Failed to time out task', {
+              taskId: task.taskId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+
+      if (results.length > 0) {
+        this.logger.info('Task timeout sweep completed', { timedOut: results.length });
+      }
+
+      return results;
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Deadline for a task in ms (createdAt + taskFormat.timeout seconds)
+   */
+  static getDeadline(task: Pick<TaskData, 'createdAt'>, manifest: NetworkManifest): number {
+    const timeoutSeconds = manifest.taskFormat?.timeout || DEFAULT_TASK_TIMEOUT_SECONDS;
+    return new Date(task.createdAt).getTime() + timeoutSeconds * 1000;
+  }
+
+  /**
+   * Time out a single overdue task
+   */
+  private async timeOutTask(task: TaskData, manifest: NetworkManifest, deadline: number): Promise<TaskTimeoutResult> {
+    const { missedMiners, missedValidators } = await this.findResponsibleParties(task, manifest);
+
+    await this.taskService.markTaskTimedOut(task.taskId, deadline, { missedMiners, missedValidators });
+
+    await this.recordMisses(task, missedValidators);
+
+    const result: TaskTimeoutResult = {
+      taskId: task.taskId,
+      networkId: task.networkId,
+      previousStatus: task.status,
+      deadline,
+      missedMiners,
+      missedValidators,
+    };
+
+    const contractAddress = manifest.settlement.contractAddress;
+    if (contractAddress) {
+      try {
+        result.refundTxHash = await this.requestRefund(task.taskId, contractAddress);
+        await this.markINCRefunded(task.taskId, result.refundTxHash);
+      } catch (error) {
+        this.logger.warn('Escrow timeout refund failed, will retry', {
+          taskId: task.taskId,
+          contractAddress,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.pendingRefunds.set(task.taskId, { networkId: task.networkId, contractAddress, attempts: 1 });
+      }
+    }
+
+    this.logger.info('Task timed out', {
+      taskId: task.taskId,
+      networkId: task.networkId,
+      previousStatus: task.status,
+      missedMiners: missedMiners.length,
+      missedValidators: missedValidators.length,
+      refundTxHash: result.refundTxHash,
+    });
+
+    return result;
+  }
+
+  /**
+   * Work out who failed to deliver
+   * - No outputs yet: assigned miners that never submitted (if assignments are known)
+   * - Outputs but no consensus: selected validators that never evaluated
+   */
+  private async findResponsibleParties(
+    task: TaskData,
+    manifest: NetworkManifest
+  ): Promise<{ missedMiners: string[]; missedValidators: string[] }> {
+    const outputs = await this.taskRepo.getOutputs(task.taskId);
+    let missedMiners: string[] = [];
+    let missedValidators: string[] = [];
+
+    if (this.minerAssignments) {
+      const submitted = new Set(outputs.map(o => o.minerAddress.toLowerCase()));
+      const assigned = await this.minerAssignments.getAssignedMiners(task.taskId);
+      missedMiners = assigned.filter(m => !submitted.has(m.toLowerCase()));
+    }
+
+    if (outputs.length > 0 && this.onChainValidatorService && manifest.settlement.contractAddress) {
+      try {
+        const evaluations = await this.taskRepo.getEvaluations(task.taskId);
+        const evaluated = new Set(evaluations.map(e => e.validatorAddress.toLowerCase()));
+        const selected = await this.onChainValidatorService.getSelectedValidators(task.taskId, manifest);
+        missedValidators = selected.filter(v => !evaluated.has(v.toLowerCase()));
+      } catch (error) {
+        this.logger.warn('Could not resolve selected validators for timed-out task', {
+          taskId: task.taskId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { missedMiners, missedValidators };
+  }
+
+  /**
+   * Penalize validators that missed the deadline
+   * Misses are not rejections: no payment was due, only reputation is affected
+   */
+  private async recordMisses(task: TaskData, missedValidators: string[]): Promise<void> {
+    if (!this.validatorReputationService) {
+      return;
+    }
+
+    for (const validatorAddress of missedValidators) {
+      try {
+        await this.validatorReputationService.updateReputation(
+          validatorAddress,
+          {
+            valid: false,
+            reason: `Missed deadline for task ${task.taskId}`,
+            shouldReject: false,
+            reputationPenalty: this.options.missedDeadlinePenalty,
+          },
+          false
+        );
+      } catch (error) {
+        this.logger.warn('Failed to record validator deadline miss', {
+          taskId: task.taskId,
+          validatorAddress,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Call EscrowContract.checkTimeout to refund the depositor
+   */
+  private async requestRefund(taskId: string, contractAddress: string): Promise<string> {
+    const taskIdBytes32 = ethers.encodeBytes32String(taskId);
+    return this.blockchain.sendTransaction(contractAddress, ESCROW_TIMEOUT_ABI, 'checkTimeout', [taskIdBytes32]);
+  }
+
+  /**
+   * Tasks submitted for an Inter-Network Call use the INC ID as task ID
+   */
+  private async markINCRefunded(taskId: string, refundTxHash: string): Promise<void> {
+    if (!this.incCallService) {
+      return;
+    }
+    try {
+      await this.incCallService.markRefunded(taskId, refundTxHash);
+    } catch (error) {
+      this.logger.warn('Failed to mark INC call refunded', {
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Retry escrow refunds that failed in earlier sweeps
+   */
+  private async retryPendingRefunds(): Promise<void> {
+    for (const [taskId, pending] of Array.from(this.pendingRefunds.entries())) {
+      try {
+        const txHash = await this.requestRefund(taskId, pending.contractAddress);
+        this.pendingRefunds.delete(taskId);
+        this.logger.info('Escrow timeout refund succeeded on retry', { taskId, txHash, attempts: pending.attempts + 1 });
+        await this.markINCRefunded(taskId, txHash);
+      } catch (error) {
+        pending.attempts++;
+        if (pending.attempts >= this.options.maxRefundAttempts) {
+          this.pendingRefunds.delete(taskId);
+          this.logger.error('Giving up on escrow timeout refund', {
+            taskId,
+            networkId: pending.networkId,
+            attempts: pending.attempts,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Load a network manifest via its stored CID
+   */
+  private async loadManifest(networkId: string): Promise<NetworkManifest | null> {
+    try {
+      const network = await this.networkRepo.findById(networkId);
+      if (!network || !network.manifestCid) {
+        this.logger.warn('Network manifest not found for timeout sweep', { networkId });
+        return null;
+      }
+      return (await this.storage.download(network.manifestCid)) as NetworkManifest;
+    } catch (error) {
+      this.logger.warn('Failed to load network manifest for timeout sweep', {
+        networkId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
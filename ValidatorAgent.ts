@@ -0,0 +1,620 @@
+/**
+ * Validator Agent
+ *
+ * Runs a validator end to end, without operator glue code:
+ * 1. Subscribes to task announcements for the configured networks
+ * 2. Resolves the network manifest in force from the registry and waits for the task's miner outputs
+ *    (the manifestCid in an announcement is unauthenticated gossip and is not used)
+ * 3. Scores each output with the manifest's evaluation mode:
+ *    - deterministic: the manifest's scoring module (ScoringRuntimeService)
+ *    - statistical / human-in-the-loop: distribution analysis with the validator's own ValidatorMethodConfig
+ * 4. Signs each evaluation and submits it: EIP-712 ValidatorEvaluation typed data in the network's
+ *    signing domain, or the legacy EIP-191 message on non-EVM networks, for signers without
+ *    signTypedData, or when signatureScheme is 'eip191'
+ *
+ * Announcements are handled with bounded concurrency and a bounded backlog; when the backlog
+ * is full new announcements are dropped. Failed tasks are retried with exponential backoff
+ * until maxAttempts or the task deadline. stop() unsubscribes, drops the backlog and waits
+ * for in-flight tasks to finish.
+ */
+
+import type { TypedDataDomain, TypedDataField } from 'ethers';
+import type { TaskAnnouncement } from './P2PCoordinationService';
+import type { TaskState, TaskStatus } from './TaskService';
+import { ILogger } from './utils/ILogger';
+import { TaskOutput, ValidatorEvaluation } from './EvaluationService';
+import { ScoringRuntimeService } from './ScoringRuntimeService';
+import {
+  StatisticalDistributionService,
+  ValidatorMethodConfig,
+  MonteCarloOutput,
+} from './StatisticalDistributionService';
+import { buildEvaluationMessage } from './SignatureVerificationService';
+import {
+  buildValidatorEvaluationTypedData,
+  getNetworkSigningDomain,
+  SignatureScheme,
+} from './ProtocolTypedData';
+import { NetworkManifest } from './types';
+
+// Statuses in which the task still accepts evaluations
+const EVALUABLE_STATUSES: TaskStatus[] = ['submitted', 'mining', 'evaluating', 'pre-filtering'];
+
+/**
+ * Source of task announcements (e.g. P2PCoordinationService)
+ */
+export interface TaskAnnouncementSource {
+  subscribeToTasks(networkId: string, callback: (announcement: TaskAnnouncement) => void): Promise<void>;
+  unsubscribeFromTasks(networkId: string): Promise<void>;
+}
+
+/**
+ * Where the agent reads task state and submits evaluations (e.g. TaskServiceRefactored)
+ */
+export interface ValidatorTaskService {
+  getTaskState(taskId: string): Promise<TaskState | null>;
+  addValidatorEvaluation(
+    taskId: string,
+    validatorAddress: string,
+    outputId: string,
+    score: number,
+    confidence: number,
+    signature: string,
+    manifest: NetworkManifest,
+    details?: { timestamp?: number; methodConfig?: ValidatorMethodConfig }
+  ): Promise<ValidatorEvaluation>;
+}
+
+/**
+ * Where the agent resolves the manifest in force for a network (e.g. ProtocolServiceRefactored)
+ */
+export interface ValidatorManifestSource {
+  getNetworkManifest(networkId: string): Promise<NetworkManifest | null>;
+}
+
+/**
+ * EIP-191 / EIP-712 signer (an ethers Wallet or Signer satisfies this)
+ */
+export interface EvaluationSigner {
+  getAddress(): Promise<string>;
+  signMessage(message: string): Promise<string>;
+  signTypedData?(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+export interface ValidatorAgentDependencies {
+  tasks: TaskAnnouncementSource;
+  taskService: ValidatorTaskService;
+  manifests: ValidatorManifestSource;
+  signer: EvaluationSigner;
+  scoringRuntime?: ScoringRuntimeService; // Required for deterministic networks
+  statisticalDistributionService?: StatisticalDistributionService;
+}
+
+export interface ValidatorAgentOptions {
+  networkIds: string[];                 // Networks to validate for
+  methodConfig: Omit<ValidatorMethodConfig, 'methodId'>; // This validator's statistical method
+  concurrency: number;                  // Tasks evaluated at the same time
+  maxPendingTasks: number;              // Queued + waiting tasks before announcements are dropped
+  maxAttempts: number;                  // Attempts per task before giving up
+  retryDelayMs: number;                 // First retry delay, doubled per attempt
+  maxRetryDelayMs: number;
+  outputPollIntervalMs: number;         // How often to re-check a task that has too few outputs
+  shutdownTimeoutMs: number;            // How long stop() waits for in-flight tasks
+  manifestCacheTtlMs: number;           // How long a resolved manifest is reused (revisions take effect over time)
+  signatureScheme: SignatureScheme;     // Preferred evaluation signature scheme
+}
+
+/**
+ * Counters for operators
+ */
+export interface ValidatorAgentStats {
+  queued: number;
+  waiting: number;       // Scheduled for a retry or waiting for outputs
+  inFlight: number;
+  evaluated: number;     // Evaluations submitted
+  completed: number;     // Tasks finished
+  failed: number;        // Tasks given up on
+  dropped: number;       // Announcements dropped (backlog full, duplicate or expired)
+}
+
+/**
+ * Evaluations submitted for one task
+ */
+export interface ValidatorTaskResult {
+  taskId: string;
+  networkId: string;
+  evaluations: ValidatorEvaluation[];
+  skippedOutputs: string[]; // Outputs the scoring module could not score
+}
+
+interface TaskJob {
+  announcement: TaskAnnouncement;
+  attempts: number;
+}
+
+const DEFAULT_OPTIONS: ValidatorAgentOptions = {
+  networkIds: [],
+  methodConfig: {
+    embeddingMethod: 'tfidf-hashing',
+    clusteringAlgorithm: 'simple',
+    contributionWeights: { robustness: 0.4, novelty: 0.3, diversity: 0.3 },
+  },
+  concurrency: 2,
+  maxPendingTasks: 100,
+  maxAttempts: 3,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 30 * 1000,
+  outputPollIntervalMs: 5 * 1000,
+  shutdownTimeoutMs: 30 * 1000,
+  manifestCacheTtlMs: 60 * 1000,
+  signatureScheme: 'eip712',
+};
+
+export class ValidatorAgent {
+  private logger: ILogger;
+  private tasks: TaskAnnouncementSource;
+  private taskService: ValidatorTaskService;
+  private manifestSource: ValidatorManifestSource;
+  private signer: EvaluationSigner;
+  private scoringRuntime?: ScoringRuntimeService;
+  private statisticalDistributionService: StatisticalDistributionService;
+  private options: ValidatorAgentOptions;
+  private methodConfig: ValidatorMethodConfig;
+
+  private isRunning: boolean = false;
+  private validatorAddress: string | null = null;
+  private subscribedNetworks: string[] = [];
+  private queue: TaskJob[] = [];
+  private inFlight: Map<string, Promise<void>> = new Map();
+  // Jobs scheduled for later (retry backoff or waiting for outputs): taskId -> timer
+  private scheduled: Map<string, NodeJS.Timeout> = new Map();
+  private manifests: Map<string, { manifest: NetworkManifest; expiresAt: number }> = new Map(); // By networkId
+  private stats = { evaluated: 0, completed: 0, failed: 0, dropped: 0 };
+
+  constructor(
+    logger: ILogger,
+    dependencies: ValidatorAgentDependencies,
+    options: Partial<ValidatorAgentOptions> = {}
+  ) {
+    this.logger = logger;
+    this.tasks = dependencies.tasks;
+    this.taskService = dependencies.taskService;
+    this.manifestSource = dependencies.manifests;
+    this.signer = dependencies.signer;
+    this.scoringRuntime = dependencies.scoringRuntime;
+    this.statisticalDistributionService =
+      dependencies.statisticalDistributionService || new StatisticalDistributionService(logger);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const methodConfig = { ...this.options.methodConfig, methodId: '' };
+    methodConfig.methodId = this.statisticalDistributionService.generateMethodId(methodConfig);
+    this.methodConfig = methodConfig;
+  }
+
+  /**
+   * Subscribe to the configured networks and start evaluating
+   */
+  public async start(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.warn('Validator agent is already running');
+      return;
+    }
+
+    this.logger.info('Starting validator agent...');
+    this.validatorAddress = await this.signer.getAddress();
+    this.isRunning = true;
+
+    try {
+      for (const networkId of this.options.networkIds) {
+        await this.tasks.subscribeToTasks(networkId, announcement => this.enqueue(announcement));
+        this.subscribedNetworks.push(networkId);
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    this.logger.info('Validator agent started successfully', {
+      validatorAddress: this.validatorAddress,
+      networks: this.subscribedNetworks,
+      methodId: this.methodConfig.methodId,
+    });
+  }
+
+  /**
+   * Stop accepting tasks, drop the backlog and wait for in-flight tasks
+   */
+  public async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.logger.info('Stopping validator agent...');
+    this.isRunning = false;
+
+    for (const networkId of this.subscribedNetworks) {
+      try {
+        await this.tasks.unsubscribeFromTasks(networkId);
+      } catch (error) {
+        this.logger.warn('Failed to unsubscribe from task announcements', {
+          networkId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.subscribedNetworks = [];
+
+    for (const timer of this.scheduled.values()) {
+      clearTimeout(timer);
+    }
+    const abandoned = this.queue.length + this.scheduled.size;
+    this.queue = [];
+    this.scheduled.clear();
+
+    if (this.inFlight.size > 0) {
+      this.logger.info('Waiting for in-flight evaluations', { inFlight: this.inFlight.size });
+      let timer: NodeJS.Timeout | undefined;
+      const drained = await Promise.race([
+        Promise.allSettled(Array.from(this.inFlight.values())).then(() => true),
+        new Promise<boolean>(resolve => {
+          timer = setTimeout(() => resolve(false), this.options.shutdownTimeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!drained) {
+        this.logger.warn('In-flight evaluations did not finish before shutdown timeout', {
+          inFlight: this.inFlight.size,
+        });
+      }
+    }
+
+    this.logger.info('Validator agent stopped', { abandonedTasks: abandoned });
+  }
+
+  /**
+   * Accept a task announcement
+   * Returns false if it was dropped (not running, duplicate, expired or backlog full)
+   */
+  public enqueue(announcement: TaskAnnouncement): boolean {
+    const { taskId } = announcement;
+
+    if (!this.isRunning) {
+      return false;
+    }
+
+    if (this.inFlight.has(taskId) || this.scheduled.has(taskId) || this.queue.some(j => j.announcement.taskId === taskId)) {
+      this.logger.debug('Task already being handled, ignoring announcement', { taskId });
+      this.stats.dropped++;
+      return false;
+    }
+
+    if (announcement.deadline <= Date.now()) {
+      this.logger.debug('Task deadline already passed, ignoring announcement', { taskId });
+      this.stats.dropped++;
+      return false;
+    }
+
+    if (this.queue.length + this.scheduled.size >= this.options.maxPendingTasks) {
+      this.logger.warn('Validator agent backlog full, dropping task announcement', {
+        taskId,
+        networkId: announcement.networkId,
+        pending: this.queue.length + this.scheduled.size,
+      });
+      this.stats.dropped++;
+      return false;
+    }
+
+    this.queue.push({ announcement, attempts: 0 });
+    this.pump();
+    return true;
+  }
+
+  public getStats(): ValidatorAgentStats {
+    return {
+      queued: this.queue.length,
+      waiting: this.scheduled.size,
+      inFlight: this.inFlight.size,
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Evaluate every output of a task this validator has not evaluated yet
+   * Returns null while the task has fewer outputs than the manifest requires
+   */
+  async evaluateTask(announcement: TaskAnnouncement): Promise<ValidatorTaskResult | null> {
+    const { taskId, networkId } = announcement;
+    const validatorAddress = this.validatorAddress || (this.validatorAddress = await this.signer.getAddress());
+
+    const manifest = await this.loadManifest(networkId);
+    const state = await this.taskService.getTaskState(taskId);
+    if (!state) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+
+    const result: ValidatorTaskResult = { taskId, networkId, evaluations: [], skippedOutputs: [] };
+    if (!EVALUABLE_STATUSES.includes(state.status)) {
+      this.logger.debug('Task no longer accepts evaluations', { taskId, status: state.status });
+      return result;
+    }
+
+    const mode = manifest.evaluationMode || 'deterministic';
+    const minOutputs = mode === 'deterministic' ? 1 : manifest.statisticalEvaluation?.minOutputs || 1;
+    if (state.outputs.length < minOutputs) {
+      return null;
+    }
+
+    const evaluated = new Set(
+      state.evaluations
+        .filter(e => e.validatorAddress.toLowerCase() === validatorAddress.toLowerCase())
+        .map(e => e.outputId)
+    );
+    const pending = state.outputs.filter(o => !evaluated.has(o.outputId));
+    if (pending.length === 0) {
+      return result;
+    }
+
+    const scores = mode === 'deterministic'
+      ? await this.scoreDeterministic(manifest, state, pending)
+      : await this.scoreStatistical(manifest, announcement.taskType, state.outputs, pending);
+
+    for (const output of pending) {
+      const scored = scores.get(output.outputId);
+      if (!scored) {
+        result.skippedOutputs.push(output.outputId);
+        continue;
+      }
+
+      const timestamp = Date.now();
+      const signature = await this.signEvaluation(manifest, networkId, taskId, { outputId: output.outputId, ...scored, timestamp });
+      const evaluation = await this.taskService.addValidatorEvaluation(
+        taskId,
+        validatorAddress,
+        output.outputId,
+        scored.score,
+        scored.confidence,
+        signature,
+        manifest,
+        { timestamp, methodConfig: mode === 'deterministic' ? undefined : this.methodConfig }
+      );
+
+      result.evaluations.push(evaluation);
+      this.stats.evaluated++;
+    }
+
+    this.logger.info('Task evaluated', {
+      taskId,
+      networkId,
+      mode,
+      evaluations: result.evaluations.length,
+      skippedOutputs: result.skippedOutputs.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Sign an evaluation with the configured scheme, falling back to EIP-191 when the network
+   * has no EIP-712 domain (non-EVM settlement) or the signer cannot sign typed data
+   */
+  private async signEvaluation(
+    manifest: NetworkManifest,
+    networkId: string,
+    taskId: string,
+    evaluation: { outputId: string; score: number; confidence: number; timestamp: number }
+  ): Promise<string> {
+    const domain = this.options.signatureScheme === 'eip712' ? getNetworkSigningDomain(manifest) : null;
+    if (domain && this.signer.signTypedData) {
+      const typedData = buildValidatorEvaluationTypedData(domain, networkId, taskId, evaluation);
+      return this.signer.signTypedData(typedData.domain, typedData.types, typedData.message);
+    }
+    return this.signer.signMessage(buildEvaluationMessage(networkId, taskId, evaluation));
+  }
+
+  /**
+   * Score outputs with the manifest's scoring module
+   * Outputs the module fails on are skipped: the module is deterministic, so retrying would not help
+   */
+  private async scoreDeterministic(
+    manifest: NetworkManifest,
+    state: TaskState,
+    outputs: TaskOutput[]
+  ): Promise<Map<string, { score: number; confidence: number }>> {
+    if (!this.scoringRuntime) {
+      throw new Error(`Network ${manifest.networkId} uses deterministic evaluation but no scoring runtime is configured`);
+    }
+
+    const results = await this.scoringRuntime.scoreOutputs(manifest.scoringLogic, state.submission.input, outputs);
+    const scores = new Map<string, { score: number; confidence: number }>();
+
+    for (const [outputId, result] of results) {
+      if (result.score === undefined) {
+        this.logger.warn('Scoring module failed for output, skipping', {
+          taskId: state.taskId,
+          outputId,
+          error: result.error,
+        });
+        continue;
+      }
+      scores.set(outputId, { score: result.score, confidence: 1 });
+    }
+
+    return scores;
+  }
+
+  /**
+   * Score outputs by their contribution to the output distribution, using this validator's method
+   * All outputs are embedded together (batch-dependent embeddings), only pending ones are returned
+   */
+  private async scoreStatistical(
+    manifest: NetworkManifest,
+    taskType: string,
+    allOutputs: TaskOutput[],
+    pending: TaskOutput[]
+  ): Promise<Map<string, { score: number; confidence: number }>> {
+    const statistical = manifest.statisticalEvaluation;
+    const methodConfig = this.methodConfig;
+
+    // Without pluralism every validator uses the network's defaults
+    const pluralism = statistical?.enableValidatorPluralism !== false;
+    const clusteringAlgorithm = pluralism
+      ? methodConfig.clusteringAlgorithm
+      : statistical?.clusteringAlgorithm || methodConfig.clusteringAlgorithm;
+    const contributionWeights = pluralism
+      ? methodConfig.contributionWeights
+      : statistical?.contributionWeights || methodConfig.contributionWeights;
+
+    const monteCarloOutputs: MonteCarloOutput[] = allOutputs.map(o => ({
+      outputId: o.outputId,
+      output: o.output,
+      minerAddress: o.minerAddress,
+      timestamp: o.timestamp,
+      generationParams: {
+        seed: o.metadata?.seed,
+        temperature: (o.metadata as any)?.temperature,
+        model: (o.metadata as any)?.model,
+        promptStyle: (o.metadata as any)?.promptStyle,
+      },
+      intent: (o.metadata as any)?.intent,
+    }));
+
+    const { embeddings, provider } = await this.statisticalDistributionService.embedOutputs(
+      monteCarloOutputs,
+      taskType,
+      methodConfig.embeddingMethod,
+      statistical?.embeddingConfig,
+      statistical?.embeddingDimension
+    );
+    const distribution = await this.statisticalDistributionService.estimateDistribution(
+      embeddings,
+      monteCarloOutputs,
+      clusteringAlgorithm,
+      provider
+    );
+    const contributions = await this.statisticalDistributionService.calculateContributions(
+      monteCarloOutputs,
+      distribution,
+      embeddings,
+      contributionWeights
+    );
+
+    const confidence = Math.min(1, Math.max(0, distribution.stabilityScore));
+    const scores = new Map<string, { score: number; confidence: number }>();
+    for (const output of pending) {
+      const contribution = contributions.get(output.outputId);
+      if (!contribution) {
+        continue;
+      }
+      scores.set(output.outputId, {
+        score: contribution.constraintValid ? Math.min(100, Math.max(0, contribution.totalContribution * 100)) : 0,
+        confidence,
+      });
+    }
+
+    return scores;
+  }
+
+  /**
+   * Start queued jobs up to the concurrency limit
+   */
+  private pump(): void {
+    while (this.isRunning && this.inFlight.size < this.options.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      const taskId = job.announcement.taskId;
+      const run = this.runJob(job).finally(() => {
+        this.inFlight.delete(taskId);
+        this.pump();
+      });
+      this.inFlight.set(taskId, run);
+    }
+  }
+
+  private async runJob(job: TaskJob): Promise<void> {
+    const { taskId, networkId, deadline } = job.announcement;
+    job.attempts++;
+
+    try {
+      const result = await this.evaluateTask(job.announcement);
+      if (result) {
+        this.stats.completed++;
+        return;
+      }
+
+      // Not enough outputs yet; waiting does not count as an attempt
+      job.attempts--;
+      if (Date.now() + this.options.outputPollIntervalMs >= deadline) {
+        this.logger.info('Task deadline reached before enough outputs arrived', { taskId, networkId });
+        this.stats.completed++;
+        return;
+      }
+      this.schedule(job, this.options.outputPollIntervalMs);
+    } catch (error) {
+      const delay = Math.min(
+        this.options.retryDelayMs * Math.pow(2, job.attempts - 1),
+        this.options.maxRetryDelayMs
+      );
+
+      if (job.attempts >= this.options.maxAttempts || Date.now() + delay >= deadline) {
+        this.stats.failed++;
+        this.logger.error('Giving up on task evaluation', {
+          taskId,
+          networkId,
+          attempts: job.attempts,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+
+      this.logger.warn('Task evaluation failed, will retry', {
+        taskId,
+        networkId,
+        attempt: job.attempts,
+        retryInMs: delay,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.schedule(job, delay);
+    }
+  }
+
+  /**
+   * Re-queue a job after a delay
+   */
+  private schedule(job: TaskJob, delayMs: number): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    const taskId = job.announcement.taskId;
+    this.scheduled.set(taskId, setTimeout(() => {
+      this.scheduled.delete(taskId);
+      this.queue.push(job);
+      this.pump();
+    }, delayMs));
+  }
+
+  /**
+   * Resolve the manifest in force for a network (cached for manifestCacheTtlMs)
+   */
+  private async loadManifest(networkId: string): Promise<NetworkManifest> {
+    const cached = this.manifests.get(networkId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.manifest;
+    }
+
+    const manifest = await this.manifestSource.getNetworkManifest(networkId);
+    if (!manifest) {
+      throw new Error(`Network manifest not found: ${networkId}`);
+    }
+    if (manifest.networkId !== networkId) {
+      throw new Error(`Resolved manifest belongs to network ${manifest.networkId}, not ${networkId}`);
+    }
+
+    this.manifests.set(networkId, { manifest, expiresAt: Date.now() + this.options.manifestCacheTtlMs });
+    return manifest;
+  }
+}
@@ -16,6 +16,8 @@
 import { ILogger } from './utils/ILogger';
 import { ValidatorEvaluation, ValidatorMethodConfig } from './EvaluationService';
 import { DistributionAnalysis, ContributionScore } from './StatisticalDistributionService';
+import { IValidatorRepository } from './interfaces/IValidatorRepository';
+import { ValidatorStateStore } from './ValidatorStateStore';
 
 /**
  * Validator Calibration Metrics
@@ -44,6 +46,14 @@ export interface ValidatorCalibrationMetrics {
   lastUpdated: number;
 }
 
+/**
+ * Calibration state persisted through IValidatorRepository
+ */
+interface StoredCalibration {
+  metrics?: ValidatorCalibrationMetrics;
+  historicalScores: number[];
+}
+
 /**
  * Method Diversity Analysis
  */
@@ -58,14 +68,21 @@ export interface MethodDiversityAnalysis {
 export class ValidatorCalibrationService {
   private logger: ILogger;
   private calibrationMetrics: Map<string, ValidatorCalibrationMetrics> = new Map();
-  private historicalEvaluations: Map<string, ValidatorEvaluation[]> = new Map();
+  private historicalScores: Map<string, number[]> = new Map(); // validator -> scores of past evaluations
+  private stateStore?: ValidatorStateStore<StoredCalibration>;
   
   // Minimum diversity requirements
   private readonly MIN_METHOD_DIVERSITY = 0.3; // Minimum Shannon entropy
   private readonly MIN_UNIQUE_METHODS = 2;     // Minimum unique methods required
 
-  constructor(logger: ILogger) {
+  /**
+   * Pass validatorRepository to persist calibration history and share it between processes
+   */
+  constructor(logger: ILogger, validatorRepository?: IValidatorRepository) {
     this.logger = logger;
+    if (validatorRepository) {
+      this.stateStore = new ValidatorStateStore(validatorRepository, 'calibration', this.logger);
+    }
   }
 
   /**
@@ -110,54 +127,43 @@ export class ValidatorCalibrationService {
       // Calculate calibration metrics
       const stability = this.calculateStability(validatorAddress, distribution, contributions);
       const manipulationResistance = this.calculateManipulationResistance(validatorAddress, evals);
-      const predictiveConsistency = this.calculatePredictiveConsistency(validatorAddress, evals);
       const methodUniqueness = this.calculateMethodUniqueness(methodConfig, diversityAnalysis);
       
-      // Get historical metrics
-      const historical = this.calibrationMetrics.get(validatorAddress);
-      const totalEvaluations = (historical?.totalEvaluations || 0) + evals.length;
-      const averageStability = historical
-        ? (historical.averageStability * historical.totalEvaluations + stability) / totalEvaluations
-        : stability;
-      const averageConsistency = historical
-        ? (historical.averageConsistency * historical.totalEvaluations + predictiveConsistency) / totalEvaluations
-        : predictiveConsistency;
-      
-      // Overall calibration score (weighted combination)
-      const weights = {
-        stability: 0.3,
-        manipulationResistance: 0.25,
-        predictiveConsistency: 0.25,
-        methodUniqueness: 0.2,
+      const calibrate = (state: StoredCalibration): ValidatorCalibrationMetrics => {
+        const metrics = this.calibrateValidator(
+          validatorAddress,
+          methodConfig,
+          evals,
+          state,
+          stability,
+          manipulationResistance,
+          methodUniqueness
+        );
+        state.metrics = metrics;
+        state.historicalScores.push(...evals.map(e => e.score));
+        return metrics;
       };
       
-      const calibrationScore = 
-        weights.stability * stability +
-        weights.manipulationResistance * manipulationResistance +
-        weights.predictiveConsistency * predictiveConsistency +
-        weights.methodUniqueness * methodUniqueness;
-      
-      const metrics: ValidatorCalibrationMetrics = {
-        validatorAddress,
-        methodConfig,
-        stabilityScore: stability,
-        manipulationResistance,
-        predictiveConsistency,
-        totalEvaluations,
-        averageStability,
-        averageConsistency,
-        methodUniqueness,
-        calibrationScore,
-        lastUpdated: Date.now(),
+      const state: StoredCalibration = {
+        metrics: this.calibrationMetrics.get(validatorAddress),
+        historicalScores: this.historicalScores.get(validatorAddress) || [],
       };
+      const metrics = calibrate(state);
       
       calibrations.set(validatorAddress, metrics);
       this.calibrationMetrics.set(validatorAddress, metrics);
+      this.historicalScores.set(validatorAddress, state.historicalScores);
       
-      // Store historical evaluations
-      const historicalEvals = this.historicalEvaluations.get(validatorAddress) || [];
-      historicalEvals.push(...evals);
-      this.historicalEvaluations.set(validatorAddress, historicalEvals);
+      // Replay on the stored history, so concurrent coordinators don't lose each other's evaluations
+      this.stateStore?.updateInBackground(
+        validatorAddress,
+        stored => {
+          const storedState = stored || { historicalScores: [] };
+          calibrate(storedState);
+          return storedState;
+        },
+        saved => this.setFromStored(validatorAddress, saved)
+      );
     }
     
     // Check diversity requirements
@@ -172,6 +178,59 @@ export class ValidatorCalibrationService {
     return calibrations;
   }
 
+  /**
+   * Calibration metrics for one validator, building on its previous state
+   */
+  private calibrateValidator(
+    validatorAddress: string,
+    methodConfig: ValidatorMethodConfig,
+    evals: ValidatorEvaluation[],
+    state: StoredCalibration,
+    stability: number,
+    manipulationResistance: number,
+    methodUniqueness: number
+  ): ValidatorCalibrationMetrics {
+    const predictiveConsistency = this.calculatePredictiveConsistency(state.historicalScores, evals);
+    
+    // Get historical metrics
+    const historical = state.metrics;
+    const totalEvaluations = (historical?.totalEvaluations || 0) + evals.length;
+    const averageStability = historical
+      ? (historical.averageStability * historical.totalEvaluations + stability) / totalEvaluations
+      : stability;
+    const averageConsistency = historical
+      ? (historical.averageConsistency * historical.totalEvaluations + predictiveConsistency) / totalEvaluations
+      : predictiveConsistency;
+    
+    // Overall calibration score (weighted combination)
+    const weights = {
+      stability: 0.3,
+      manipulationResistance: 0.25,
+      predictiveConsistency: 0.25,
+      methodUniqueness: 0.2,
+    };
+    
+    const calibrationScore = 
+      weights.stability * stability +
+      weights.manipulationResistance * manipulationResistance +
+      weights.predictiveConsistency * predictiveConsistency +
+      weights.methodUniqueness * methodUniqueness;
+    
+    return {
+      validatorAddress,
+      methodConfig,
+      stabilityScore: stability,
+      manipulationResistance,
+      predictiveConsistency,
+      totalEvaluations,
+      averageStability,
+      averageConsistency,
+      methodUniqueness,
+      calibrationScore,
+      lastUpdated: Date.now(),
+    };
+  }
+
   /**
    * Calculate estimator stability
    * How stable are the estimates across resampling?
@@ -237,18 +296,15 @@ export class ValidatorCalibrationService {
    * How consistent are predictions over time?
    */
   private calculatePredictiveConsistency(
-    validatorAddress: string,
+    historicalScores: number[],
     currentEvaluations: ValidatorEvaluation[]
   ): number {
-    const historical = this.historicalEvaluations.get(validatorAddress) || [];
-    
-    if (historical.length === 0) {
+    if (historicalScores.length === 0) {
       // First evaluation - assume good consistency
       return 0.7; // Neutral score for new validators
     }
     
     // Compare current evaluations with historical pattern
-    const historicalScores = historical.map(e => e.score);
     const currentScores = currentEvaluations.map(e => e.score);
     
     const historicalMean = historicalScores.reduce((a, b) => a + b, 0) / historicalScores.length;
@@ -340,6 +396,43 @@ export class ValidatorCalibrationService {
     return new Map(this.calibrationMetrics);
   }
 
+  /**
+   * Load calibration state from the validator repository (all validators, or only the given ones)
+   */
+  async loadCalibrations(validatorAddresses?: string[]): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    if (!validatorAddresses) {
+      for (const [validatorAddress, stored] of (await this.stateStore.getAll()).entries()) {
+        this.setFromStored(validatorAddress, stored);
+      }
+      return;
+    }
+
+    await Promise.all(validatorAddresses.map(async validatorAddress => {
+      const stored = await this.stateStore!.get(validatorAddress);
+      if (stored) {
+        this.setFromStored(validatorAddress, stored);
+      }
+    }));
+  }
+
+  /**
+   * Wait until calibration changes have been written to the validator repository
+   */
+  async flush(): Promise<void> {
+    await this.stateStore?.flush();
+  }
+
+  private setFromStored(validatorAddress: string, stored: StoredCalibration): void {
+    if (stored.metrics) {
+      this.calibrationMetrics.set(validatorAddress, stored.metrics);
+    }
+    this.historicalScores.set(validatorAddress, stored.historicalScores);
+  }
+
   /**
    * Calculate validator reward multiplier based on calibration
    * Higher calibration = higher reward
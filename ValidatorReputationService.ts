@@ -22,6 +22,8 @@ import { ValidatorEvaluation } from './EvaluationService';
 import { RiskVector, TaskConditionedReputation, NetworkState } from './types';
 import { AdversarialTestResult } from './AdversarialTestingService';
 import { getInvariantChecker } from './InvariantChecker';
+import { IValidatorRepository } from './interfaces/IValidatorRepository';
+import { ValidatorStateStore } from './ValidatorStateStore';
 
 /**
  * Validator Reputation Metrics
@@ -72,6 +74,13 @@ export interface ValidatorReputationMetrics {
   lastDecayUpdate: number;      // Last time decay was applied
 }
 
+/**
+ * ValidatorReputationMetrics as persisted through IValidatorRepository (plain JSON)
+ */
+type StoredReputationMetrics = Omit<ValidatorReputationMetrics, 'taskConditionedReputations'> & {
+  taskConditionedReputations?: Record<string, TaskConditionedReputation>;
+};
+
 /**
  * Validation Result
  */
@@ -103,6 +112,7 @@ export interface ReputationUpdateResult {
 export class ValidatorReputationService {
   private logger: ILogger;
   private reputationMetrics: Map<string, ValidatorReputationMetrics> = new Map();
+  private stateStore?: ValidatorStateStore<StoredReputationMetrics>;
   
   // Configuration
   private readonly DEFAULT_REPUTATION = 50;        // Starting reputation (neutral)
@@ -141,8 +151,14 @@ export class ValidatorReputationService {
     adversarialResistance: 0.05,
   };
   
-  constructor(logger?: Logger) {
+  /**
+   * Pass validatorRepository to persist reputations and share them between processes
+   */
+  constructor(logger?: Logger, validatorRepository?: IValidatorRepository) {
     this.logger = logger || new Logger('ValidatorReputationService');
+    if (validatorRepository) {
+      this.stateStore = new ValidatorStateStore(validatorRepository, 'reputation', this.logger);
+    }
   }
 
   /**
@@ -261,14 +277,34 @@ export class ValidatorReputationService {
     validationResult: ValidationResult,
     wasSuccessful: boolean
   ): Promise<ReputationUpdateResult> {
-    // Get current reputation metrics
-    let metrics = this.reputationMetrics.get(validatorAddress);
-    
-    if (!metrics) {
-      // Initialize new validator
-      metrics = this.initializeValidator(validatorAddress);
+    if (!this.stateStore) {
+      const metrics = this.reputationMetrics.get(validatorAddress) || this.initializeValidator(validatorAddress);
+      const result = this.applyReputationUpdate(metrics, validationResult, wasSuccessful);
+      this.reputationMetrics.set(validatorAddress, metrics);
+      return result;
     }
-    
+
+    // Update the stored metrics, so concurrent coordinators build on each other's updates
+    let result!: ReputationUpdateResult;
+    const saved = await this.stateStore.update(validatorAddress, stored => {
+      const metrics = stored ? this.fromStored(stored) : this.initializeValidator(validatorAddress);
+      result = this.applyReputationUpdate(metrics, validationResult, wasSuccessful);
+      return this.toStored(metrics);
+    });
+    this.reputationMetrics.set(validatorAddress, this.fromStored(saved));
+
+    return result;
+  }
+
+  /**
+   * Apply one validation outcome to a validator's metrics
+   */
+  private applyReputationUpdate(
+    metrics: ValidatorReputationMetrics,
+    validationResult: ValidationResult,
+    wasSuccessful: boolean
+  ): ReputationUpdateResult {
+    const validatorAddress = metrics.validatorAddress;
     const oldReputation = metrics.reputation;
     let newReputation = oldReputation;
     let wasRejected = false;
@@ -370,9 +406,6 @@ export class ValidatorReputationService {
     // Update timestamps
     metrics.updatedAt = Date.now();
     
-    // Store updated metrics
-    this.reputationMetrics.set(validatorAddress, metrics);
-    
     return {
       validatorAddress,
       oldReputation,
@@ -549,9 +582,46 @@ export class ValidatorReputationService {
    */
   resetReputation(validatorAddress: string): void {
     this.reputationMetrics.delete(validatorAddress);
+    this.stateStore?.delete(validatorAddress).catch(error => {
+      this.logger.error('Failed to delete stored validator reputation', {
+        validatorAddress,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
     this.logger.info('Validator reputation reset', { validatorAddress });
   }
 
+  /**
+   * Load reputations from the validator repository (all validators, or only the given ones)
+   * Call before reading when other processes may have updated them
+   */
+  async loadReputations(validatorAddresses?: string[]): Promise<void> {
+    if (!this.stateStore) {
+      return;
+    }
+
+    if (!validatorAddresses) {
+      for (const [validatorAddress, stored] of (await this.stateStore.getAll()).entries()) {
+        this.reputationMetrics.set(validatorAddress, this.fromStored(stored));
+      }
+      return;
+    }
+
+    await Promise.all(validatorAddresses.map(async validatorAddress => {
+      const stored = await this.stateStore!.get(validatorAddress);
+      if (stored) {
+        this.reputationMetrics.set(validatorAddress, this.fromStored(stored));
+      }
+    }));
+  }
+
+  /**
+   * Wait until reputation changes have been written to the validator repository
+   */
+  async flush(): Promise<void> {
+    await this.stateStore?.flush();
+  }
+
   // ========== NEW: Multi-Dimensional Risk Vector Methods ==========
 
   /**
@@ -575,11 +645,30 @@ export class ValidatorReputationService {
     },
     networkState?: NetworkState
   ): RiskVector {
-    let metrics = this.reputationMetrics.get(validatorAddress);
-    if (!metrics) {
-      metrics = this.initializeValidator(validatorAddress);
-    }
+    const riskVector = this.modifyMetrics(validatorAddress, metrics =>
+      this.applyRiskVectorUpdate(metrics, validationResult, networkState)
+    );
+
+    // Runtime invariant check: risk vector dimensions must be in [0, 1]
+    const invariantChecker = getInvariantChecker();
+    invariantChecker.checkRiskVectorBounds(
+      'ValidatorReputationService.updateRiskVector',
+      riskVector
+    );
 
+    return riskVector;
+  }
+
+  private applyRiskVectorUpdate(
+    metrics: ValidatorReputationMetrics,
+    validationResult: {
+      wasSuccessful: boolean;
+      outputDiversity?: number;
+      surprisal?: number;
+      adversarialTestResult?: AdversarialTestResult;
+    },
+    networkState?: NetworkState
+  ): RiskVector {
     if (!metrics.riskVector) {
       metrics.riskVector = {
         exploration: 0.5,
@@ -643,14 +732,6 @@ export class ValidatorReputationService {
     riskVector.consistency = metrics.consistency;
 
     metrics.riskVector = riskVector;
-    this.reputationMetrics.set(validatorAddress, metrics);
-
-    // Runtime invariant check: risk vector dimensions must be in [0, 1]
-    const invariantChecker = getInvariantChecker();
-    invariantChecker.checkRiskVectorBounds(
-      'ValidatorReputationService.updateRiskVector',
-      riskVector
-    );
 
     return riskVector;
   }
@@ -729,11 +810,18 @@ export class ValidatorReputationService {
     taskType: string,
     wasSuccessful: boolean
   ): TaskConditionedReputation {
-    let metrics = this.reputationMetrics.get(validatorAddress);
-    if (!metrics) {
-      metrics = this.initializeValidator(validatorAddress);
-    }
+    return this.modifyMetrics(validatorAddress, metrics =>
+      this.applyTaskConditionedUpdate(metrics, networkId, taskType, wasSuccessful)
+    );
+  }
 
+  private applyTaskConditionedUpdate(
+    metrics: ValidatorReputationMetrics,
+    networkId: string,
+    taskType: string,
+    wasSuccessful: boolean
+  ): TaskConditionedReputation {
+    const validatorAddress = metrics.validatorAddress;
     if (!metrics.taskConditionedReputations) {
       metrics.taskConditionedReputations = new Map();
     }
@@ -782,7 +870,6 @@ export class ValidatorReputationService {
     taskRep.temporalDecay = Math.pow(this.TEMPORAL_DECAY_RATE, daysSinceActivity);
 
     metrics.taskConditionedReputations.set(key, taskRep);
-    this.reputationMetrics.set(validatorAddress, metrics);
 
     return taskRep;
   }
@@ -846,10 +933,14 @@ export class ValidatorReputationService {
    */
   applyTemporalDecay(validatorAddress: string): void {
     const metrics = this.reputationMetrics.get(validatorAddress);
-    if (!metrics) {
+    if (!metrics || Date.now() - metrics.lastDecayUpdate < this.DECAY_UPDATE_INTERVAL) {
       return;
     }
 
+    this.modifyMetrics(validatorAddress, m => this.decay(m));
+  }
+
+  private decay(metrics: ValidatorReputationMetrics): void {
     const now = Date.now();
     const timeSinceLastUpdate = now - metrics.lastDecayUpdate;
 
@@ -872,11 +963,51 @@ export class ValidatorReputationService {
       const decayAmount = (1 - decayFactor) * 5; // Max 5 points decay
       metrics.reputation = Math.max(this.MIN_REPUTATION, metrics.reputation - decayAmount);
     }
+  }
 
+  // ========== Helper Methods ==========
+
+  /**
+   * Apply a change to the cached metrics and, with a repository, replay it on the stored metrics
+   */
+  private modifyMetrics<R>(
+    validatorAddress: string,
+    change: (metrics: ValidatorReputationMetrics) => R
+  ): R {
+    const metrics = this.reputationMetrics.get(validatorAddress) || this.initializeValidator(validatorAddress);
+    const result = change(metrics);
     this.reputationMetrics.set(validatorAddress, metrics);
+
+    this.stateStore?.updateInBackground(
+      validatorAddress,
+      stored => {
+        const storedMetrics = stored ? this.fromStored(stored) : this.initializeValidator(validatorAddress);
+        change(storedMetrics);
+        return this.toStored(storedMetrics);
+      },
+      saved => this.reputationMetrics.set(validatorAddress, this.fromStored(saved))
+    );
+
+    return result;
   }
 
-  // ========== Helper Methods ==========
+  private toStored(metrics: ValidatorReputationMetrics): StoredReputationMetrics {
+    const { taskConditionedReputations, ...rest } = metrics;
+    return {
+      ...rest,
+      taskConditionedReputations: taskConditionedReputations
+        ? Object.fromEntries(taskConditionedReputations)
+        : undefined,
+    };
+  }
+
+  private fromStored(stored: StoredReputationMetrics): ValidatorReputationMetrics {
+    const { taskConditionedReputations, ...rest } = stored;
+    return {
+      ...rest,
+      taskConditionedReputations: new Map(Object.entries(taskConditionedReputations || {})),
+    };
+  }
 
   private hashOutput(output: any): string {
     const str = JSON.stringify(output);
@@ -0,0 +1,146 @@
+/**
+ * Validator State Store
+ *
+ * Persists one kind of per-validator state through IValidatorRepository.
+ * Updates are read-modify-write with optimistic concurrency: the change is replayed
+ * against the latest stored state until the save wins, so several coordinator
+ * processes can update the same validator without losing each other's writes.
+ *
+ * Changes must only depend on the state they are given (they may run more than once).
+ */
+
+import { ILogger } from './utils/ILogger';
+import { IValidatorRepository, ValidatorStateKind } from './interfaces/IValidatorRepository';
+
+export class ValidatorStateStore<T> {
+  private logger: ILogger;
+  private repository: IValidatorRepository;
+  private kind: ValidatorStateKind;
+  private maxAttempts: number;
+  // Last queued write per validator, so one process applies its own changes in order
+  private queues: Map<string, Promise<unknown>> = new Map();
+  private pending: Set<Promise<unknown>> = new Set();
+
+  constructor(
+    repository: IValidatorRepository,
+    kind: ValidatorStateKind,
+    logger: ILogger,
+    maxAttempts: number = 5
+  ) {
+    this.repository = repository;
+    this.kind = kind;
+    this.logger = logger;
+    this.maxAttempts = maxAttempts;
+  }
+
+  /**
+   * Get stored state for a validator
+   */
+  async get(validatorAddress: string): Promise<T | null> {
+    const record = await this.repository.getState<T>(validatorAddress, this.kind);
+    return record ? record.data : null;
+  }
+
+  /**
+   * Get stored state for every validator
+   */
+  async getAll(): Promise<Map<string, T>> {
+    const records = await this.repository.listStates<T>(this.kind);
+    return new Map(records.map(record => [record.validatorAddress, record.data]));
+  }
+
+  /**
+   * Apply a change to the stored state and return the saved state
+   */
+  update(validatorAddress: string, change: (current: T | null) => T): Promise<T> {
+    const previous = this.queues.get(validatorAddress) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.compareAndSet(validatorAddress, change));
+
+    this.queues.set(validatorAddress, next);
+    this.track(next.finally(() => {
+      if (this.queues.get(validatorAddress) === next) {
+        this.queues.delete(validatorAddress);
+      }
+    }));
+
+    return next;
+  }
+
+  /**
+   * Apply a change in the background (for synchronous service methods)
+   * Failures are logged; call flush() to wait for the write
+   */
+  updateInBackground(
+    validatorAddress: string,
+    change: (current: T | null) => T,
+    onSaved?: (saved: T) => void
+  ): void {
+    this.update(validatorAddress, change)
+      .then(saved => onSaved?.(saved))
+      .catch(error => {
+        this.logger.error('Failed to persist validator state', {
+          validatorAddress,
+          kind: this.kind,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  /**
+   * Delete stored state for a validator
+   */
+  delete(validatorAddress: string): Promise<void> {
+    const previous = this.queues.get(validatorAddress) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.repository.deleteState(validatorAddress, this.kind));
+
+    this.queues.set(validatorAddress, next);
+    this.track(next.finally(() => {
+      if (this.queues.get(validatorAddress) === next) {
+        this.queues.delete(validatorAddress);
+      }
+    }));
+
+    return next;
+  }
+
+  /**
+   * Wait until every queued write has finished
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.allSettled(Array.from(this.pending));
+    }
+  }
+
+  private async compareAndSet(validatorAddress: string, change: (current: T | null) => T): Promise<T> {
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const current = await this.repository.getState<T>(validatorAddress, this.kind);
+      const next = change(current ? current.data : null);
+      const saved = await this.repository.saveState<T>(validatorAddress, this.kind, next, current?.version || 0);
+
+      if (saved) {
+        return saved.data;
+      }
+
+      this.logger.debug('Validator state version conflict, retrying', {
+        validatorAddress,
+        kind: this.kind,
+        attempt,
+      });
+    }
+
+    throw new Error(
+      `Validator state for ${validatorAddress} (${this.kind}) kept changing; gave up after ${this.maxAttempts} attempts`
+    );
+  }
+
+  private track(promise: Promise<unknown>): void {
+    const tracked = promise.catch(() => undefined);
+    this.pending.add(tracked);
+    tracked.then(() => this.pending.delete(tracked));
+  }
+}
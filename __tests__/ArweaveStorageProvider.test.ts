@@ -0,0 +1,85 @@
+/**
+ * ArweaveStorageProvider Tests
+ *
+ * Tests for locally signed format-2 transactions and gateway reads
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createHash, createPublicKey, generateKeyPairSync, verify, constants } from 'crypto';
+import { ArweaveStorageProvider, deepHash, computeDataRoot } from '../adapters/storage/ArweaveStorageProvider';
+
+const fromB64Url = (value: string) => Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+describe('ArweaveStorageProvider', () => {
+  const originalFetch = global.fetch;
+  const wallet = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey.export({ format: 'jwk' });
+  let posted: any[];
+
+  beforeEach(() => {
+    posted = [];
+    global.fetch = jest.fn(async (input: any, init?: any) => {
+      const url = String(input);
+      if (url.endsWith('/tx_anchor')) return new Response('anchor-tx');
+      if (url.includes('/price/')) return new Response('12345');
+      if (url.endsWith('/tx') && init?.method === 'POST') {
+        posted.push(JSON.parse(init.body));
+        return new Response('OK');
+      }
+      const tx = posted.find(p => url.endsWith(`/tx/${p.id}/status`));
+      if (tx) return new Response('{}', { status: 202 });
+      const data = posted.find(p => url.endsWith(`/${p.id}`));
+      if (data) return new Response(fromB64Url(data.data));
+      return new Response('Not Found', { status: 404 });
+    }) as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should post a transaction signed by the wallet and return its ID', async () => {
+    const provider = new ArweaveStorageProvider({ gateway: 'https://gateway.test', wallet });
+    const taskState = { taskId: 'task-1', status: 'completed' };
+
+    const cid = await provider.upload(taskState, { name: 'task-task-1.json' });
+
+    const tx = posted[0];
+    expect(cid).toBe(tx.id);
+    expect(tx.owner).toBe(wallet.n);
+    expect(tx.reward).toBe('12345');
+    expect(tx.last_tx).toBe('anchor-tx');
+    expect(fromB64Url(tx.data_root)).toEqual(computeDataRoot(Buffer.from(JSON.stringify(taskState))));
+
+    const signature = fromB64Url(tx.signature);
+    expect(tx.id).toBe(createHash('sha256').update(signature).digest('base64url'));
+
+    const signatureData = deepHash([
+      Buffer.from('2'),
+      fromB64Url(tx.owner),
+      Buffer.alloc(0),
+      Buffer.from('0'),
+      Buffer.from(tx.reward),
+      fromB64Url(tx.last_tx),
+      tx.tags.map((tag: any) => [fromB64Url(tag.name), fromB64Url(tag.value)]),
+      Buffer.from(tx.data_size),
+      fromB64Url(tx.data_root),
+    ]);
+    const publicKey = createPublicKey({ key: { kty: 'RSA', n: wallet.n, e: wallet.e }, format: 'jwk' });
+    expect(verify('sha256', signatureData, {
+      key: publicKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: 32,
+    }, signature)).toBe(true);
+
+    await expect(provider.exists(cid)).resolves.toBe(true);
+    await expect(provider.download(cid)).resolves.toEqual(taskState);
+    await expect(provider.exists('unknown')).resolves.toBe(false);
+  });
+
+  it('should require a wallet for uploads', async () => {
+    const provider = new ArweaveStorageProvider();
+
+    await expect(provider.upload({ a: 1 })).rejects.toThrow('wallet');
+    expect(provider.getType()).toBe('arweave');
+  });
+});
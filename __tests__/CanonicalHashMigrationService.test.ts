@@ -0,0 +1,188 @@
+/**
+ * CanonicalHashMigrationService Tests
+ *
+ * Tests for flagging stored hashes that change under canonical JSON
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+
+jest.mock('../ModelExecutionEngine', () => ({ ModelExecutionEngine: jest.fn() }));
+
+import { CanonicalHashMigrationService } from '../CanonicalHashMigrationService';
+import { DeterministicReplayService } from '../DeterministicReplayService';
+import { StatisticalDistributionService } from '../StatisticalDistributionService';
+import { SignatureVerificationService } from '../SignatureVerificationService';
+import { NetworkManifestGenerator } from '../NetworkManifestGenerator';
+import { ReplicatedStorageProvider } from '../adapters/storage/ReplicatedStorageProvider';
+import { canonicalHash } from '../utils/CanonicalJson';
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+describe('CanonicalHashMigrationService', () => {
+  let mockLogger: any;
+  let replayService: DeterministicReplayService;
+  let distributionService: StatisticalDistributionService;
+  let service: CanonicalHashMigrationService;
+
+  const env = {
+    os: 'linux',
+    runtime: 'node 20',
+    modelBinary: 'model.onnx',
+    inferenceLibrary: 'onnxruntime',
+    inferenceLibraryVersion: '1.17.0',
+    dependencies: { tokenizer: '1.0.0' },
+  };
+  const methodConfig = {
+    embeddingMethod: 'sentence-transformers',
+    clusteringAlgorithm: 'kmeans',
+    contributionWeights: { robustness: 0.5, novelty: 0.3, diversity: 0.2 },
+  } as any;
+
+  // Task state as written before canonical hashing: nested keys were dropped from outputIds
+  const legacyState = () => {
+    const input = { prompt: 'hi', options: { temperature: 0 } };
+    const nested = { answer: { text: 'hello', tokens: 2 } };
+    return {
+      taskId: 'task-1',
+      networkId: '0xnet',
+      status: 'evaluating',
+      submission: { taskId: 'task-1', networkId: '0xnet', input, depositor: '0xuser', paymentAmount: '1', timestamp: 1 },
+      outputs: [
+        {
+          outputId: sha256(JSON.stringify(nested, Object.keys(nested).sort())),
+          output: nested,
+          minerAddress: '0xminer',
+          timestamp: 2,
+          metadata: {
+            replayBundle: {
+              taskInputHash: sha256(JSON.stringify(input)),
+              modelId: 'model',
+              modelVersionHash: 'abc',
+              inferenceParameters: { temperature: 0 },
+              randomSeed: '42',
+              executionEnvHash: sha256(JSON.stringify(env)),
+            },
+            executionEnv: env,
+          },
+        },
+        { outputId: canonicalHash('plain'), output: 'plain', minerAddress: '0xminer2', timestamp: 3 },
+        { outputId: 'deadbeef', output: { answer: 1 }, minerAddress: '0xminer3', timestamp: 4 },
+      ],
+      evaluations: [
+        {
+          validatorAddress: '0xvalidator',
+          outputId: 'deadbeef',
+          score: 80,
+          confidence: 0.9,
+          timestamp: 5,
+          signature: '0xsig',
+          methodConfig: {
+            ...methodConfig,
+            methodId: `method_${sha256('sentence-transformers-kmeans-0.5-0.3-0.2').substring(0, 16)}`,
+          },
+        },
+      ],
+      consensusReached: false,
+      paymentReleased: false,
+      createdAt: 1,
+      updatedAt: 5,
+    } as any;
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    replayService = new DeterministicReplayService(mockLogger);
+    distributionService = new StatisticalDistributionService(mockLogger);
+    service = new CanonicalHashMigrationService(mockLogger, { replayService, distributionService });
+  });
+
+  it('should flag legacy task hashes and leave canonical ones alone', () => {
+    const state = legacyState();
+    const report = service.checkTaskStates([state]);
+
+    expect(report.checked).toBe(6);
+    expect(report.unchanged).toBe(1);
+    expect(report.changed.map(finding => finding.field)).toEqual([
+      'outputId',
+      'taskInputHash',
+      'executionEnvHash',
+      'methodId',
+    ]);
+    expect(report.changed[0]).toEqual({
+      field: 'outputId',
+      recordId: `task-1/${state.outputs[0].outputId}`,
+      storedHash: state.outputs[0].outputId,
+      canonicalHash: canonicalHash(state.outputs[0].output),
+    });
+    expect(report.changed[3].canonicalHash).toBe(distributionService.generateMethodId(methodConfig));
+    expect(report.unrecognized).toEqual([
+      { field: 'outputId', recordId: 'task-1/deadbeef', storedHash: 'deadbeef', canonicalHash: canonicalHash({ answer: 1 }) },
+    ]);
+  });
+
+  it('should recompute content-addressed task state CIDs', () => {
+    const state = legacyState();
+
+    const legacyCid = service.checkTaskState(state, sha256(JSON.stringify(state)));
+    expect(legacyCid.changed.filter(finding => finding.field === 'taskStateCid')).toEqual([
+      { field: 'taskStateCid', recordId: 'task-1', storedHash: sha256(JSON.stringify(state)), canonicalHash: canonicalHash(state) },
+    ]);
+
+    const ipfsCid = service.checkTaskState(state, 'QmLegacyPrettyPrinted');
+    expect(ipfsCid.changed.map(finding => finding.field)).toContain('taskStateCid');
+
+    const canonicalCid = service.checkTaskState(state, canonicalHash(state));
+    expect(canonicalCid.changed.map(finding => finding.field)).not.toContain('taskStateCid');
+  });
+
+  it('should classify aggregated signature hashes', async () => {
+    const message = 'evaluation';
+    const wallets = [new ethers.Wallet('0x' + '11'.repeat(32)), new ethers.Wallet('0x' + '22'.repeat(32))];
+    const signatures = await Promise.all(
+      wallets.map(async wallet => ({ validatorAddress: wallet.address, signature: await wallet.signMessage(message) }))
+    );
+    const aggregated = new SignatureVerificationService(mockLogger).aggregateSignatures(message, signatures)!;
+
+    expect(service.checkAggregatedSignature('inc-1', aggregated)).toMatchObject({ checked: 1, unchanged: 1 });
+
+    const combined = aggregated.signatures.map(sig => `${sig.validatorAddress}:${sig.r}:${sig.s}:${sig.v}`).sort().join('|');
+    const legacy = { ...aggregated, aggregatedHash: `0x${sha256(aggregated.messageHash + combined)}` };
+    expect(service.checkAggregatedSignature('inc-1', legacy).changed).toEqual([
+      { field: 'aggregatedHash', recordId: 'inc-1', storedHash: legacy.aggregatedHash, canonicalHash: aggregated.aggregatedHash },
+    ]);
+  });
+
+  it('should classify replicated content IDs and manifest hashes', () => {
+    const content = { version: 2, networkId: '0xnet' };
+    const legacyCid = sha256(JSON.stringify(content));
+    const replicated = service.checkReplicatedContent([
+      { cid: legacyCid, data: content },
+      { cid: ReplicatedStorageProvider.contentHash(content), data: content },
+      { cid: 'f'.repeat(64), data: content },
+    ]);
+    expect(replicated).toMatchObject({ checked: 3, unchanged: 1 });
+    expect(replicated.changed).toEqual([
+      { field: 'replicatedContentId', recordId: legacyCid, storedHash: legacyCid, canonicalHash: canonicalHash(content) },
+    ]);
+    expect(replicated.unrecognized.map(finding => finding.recordId)).toEqual(['f'.repeat(64)]);
+
+    const manifest = { networkId: '0xnet', name: 'Net', settlement: { mode: 'escrow', chain: 'polygon' }, registry: { ipfsCid: 'QmOld' } } as any;
+    const hashable = { networkId: '0xnet', name: 'Net', settlement: manifest.settlement, registry: { ipfsCid: '' } };
+    const legacyHash = sha256(JSON.stringify(hashable, Object.keys(hashable).sort()));
+    const manifests = service.checkManifestHashes([
+      { networkId: '0xnet', storedHash: legacyHash, manifest },
+      { networkId: '0xnet', storedHash: NetworkManifestGenerator.calculateManifestHash(manifest), manifest },
+    ]);
+    expect(manifests).toMatchObject({ checked: 2, unchanged: 1, unrecognized: [] });
+    expect(manifests.changed).toEqual([
+      { field: 'manifestHash', recordId: '0xnet', storedHash: legacyHash, canonicalHash: NetworkManifestGenerator.calculateManifestHash(manifest) },
+    ]);
+  });
+});
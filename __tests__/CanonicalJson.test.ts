@@ -0,0 +1,100 @@
+/**
+ * CanonicalJson Tests
+ *
+ * Tests for RFC 8785 (JCS) serialization against the RFC's golden vectors
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createHash } from 'crypto';
+import { canonicalize, canonicalHash } from '../utils/CanonicalJson';
+
+const fromIeee754 = (hex: string) => Buffer.from(hex, 'hex').readDoubleBE(0);
+
+describe('CanonicalJson', () => {
+  describe('canonicalize', () => {
+    it('should match the RFC 8785 section 3.2.2 example', () => {
+      const input = JSON.parse(String.raw`{
+        "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+        "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/",
+        "literals": [null, true, false]
+      }`);
+
+      expect(canonicalize(input)).toBe(
+        String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`
+      );
+    });
+
+    it('should sort properties by UTF-16 code units (RFC 8785 section 3.2.3)', () => {
+      const input = JSON.parse(String.raw`{
+        "€": "Euro Sign",
+        "\r": "Carriage Return",
+        "דּ": "Hebrew Letter Dalet With Dagesh",
+        "1": "One",
+        "😀": "Emoji: Grinning Face",
+        "\u0080": "Control",
+        "ö": "Latin Small Letter O With Diaeresis"
+      }`);
+
+      expect(canonicalize(input)).toBe(
+        '{"\\r":"Carriage Return","1":"One","\u0080":"Control","ö":"Latin Small Letter O With Diaeresis",' +
+        '"€":"Euro Sign","😀":"Emoji: Grinning Face","דּ":"Hebrew Letter Dalet With Dagesh"}'
+      );
+    });
+
+    it('should serialize the RFC 8785 appendix B numbers', () => {
+      const vectors: Array<[string, string]> = [
+        ['0000000000000000', '0'],
+        ['8000000000000000', '0'],
+        ['0000000000000001', '5e-324'],
+        ['8000000000000001', '-5e-324'],
+        ['7fefffffffffffff', '1.7976931348623157e+308'],
+        ['ffefffffffffffff', '-1.7976931348623157e+308'],
+        ['4340000000000000', '9007199254740992'],
+        ['c340000000000000', '-9007199254740992'],
+        ['4430000000000000', '295147905179352830000'],
+        ['44b52d02c7e14af5', '9.999999999999997e+22'],
+        ['44b52d02c7e14af6', '1e+23'],
+        ['44b52d02c7e14af7', '1.0000000000000001e+23'],
+        ['444b1ae4d6e2ef4e', '999999999999999700000'],
+        ['444b1ae4d6e2ef4f', '999999999999999900000'],
+        ['444b1ae4d6e2ef50', '1e+21'],
+        ['3eb0c6f7a0b5ed8c', '9.999999999999997e-7'],
+        ['3eb0c6f7a0b5ed8d', '0.000001'],
+        ['41b3de4355555553', '333333333.3333332'],
+        ['41b3de4355555554', '333333333.33333325'],
+        ['41b3de4355555555', '333333333.3333333'],
+        ['41b3de4355555556', '333333333.3333334'],
+        ['41b3de4355555557', '333333333.33333343'],
+        ['becbf647612f3696', '-0.0000033333333333333333'],
+        ['43143ff3c1cb0959', '1424953923781206.2'],
+      ];
+
+      for (const [ieee754, expected] of vectors) {
+        expect(canonicalize(fromIeee754(ieee754))).toBe(expected);
+      }
+      expect(() => canonicalize(fromIeee754('7fffffffffffffff'))).toThrow('non-finite');
+      expect(() => canonicalize(fromIeee754('7ff0000000000000'))).toThrow('non-finite');
+    });
+
+    it('should follow JSON.stringify for undefined, functions and toJSON', () => {
+      expect(canonicalize({ b: undefined, a: [undefined, () => 1], c: new Date('2026-01-01T00:00:00.000Z') }))
+        .toBe('{"a":[null,null],"c":"2026-01-01T00:00:00.000Z"}');
+      expect(() => canonicalize(undefined)).toThrow('Cannot canonicalize undefined');
+    });
+
+    it('should reject values JSON cannot represent faithfully', () => {
+      expect(() => canonicalize({ amount: BigInt(1) })).toThrow('BigInt');
+      expect(() => canonicalize({ text: 'abc\ud800' })).toThrow('lone surrogates');
+      expect(() => canonicalize({ ['\udc00']: 1 })).toThrow('lone surrogates');
+    });
+  });
+
+  describe('canonicalHash', () => {
+    it('should hash the UTF-8 canonical form independently of key order', () => {
+      const expected = createHash('sha256').update('{"a":[1,{"x":"€","y":2}],"b":true}', 'utf8').digest('hex');
+
+      expect(canonicalHash({ b: true, a: [1, { y: 2, x: '€' }] })).toBe(expected);
+      expect(canonicalHash({ a: [1, { x: '€', y: 2.0 }], b: true })).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * DisputeService Tests
+ *
+ * Tests for opening challenges inside the dispute window and resolving them per manifest mode
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { DisputeService } from '../DisputeService';
+import { DisputeData } from '../interfaces/IDisputeRepository';
+import { TaskData } from '../interfaces/ITaskRepository';
+
+const HOUR = 60 * 60 * 1000;
+const ESCROW = '0x000000000000000000000000000000000000e5c0';
+const escrowEvents = new ethers.Interface(['event ChallengeResolved(bytes32 indexed taskId, bool challengerWon)']);
+
+describe('DisputeService', () => {
+  let mockLogger: any;
+  let task: TaskData;
+  let disputes: DisputeData[];
+  let disputeRepository: any;
+  let taskRepository: any;
+  let taskService: any;
+  let storage: any;
+  let blockchain: any;
+  let scamDefenseService: any;
+  let validatorRepository: any;
+  let validators: ethers.HDNodeWallet[];
+  let service: DisputeService;
+
+  const resolutionReceipt = (taskId: string, challengerWon: boolean, address: string = ESCROW) => {
+    const event = escrowEvents.encodeEventLog('ChallengeResolved', [ethers.encodeBytes32String(taskId), challengerWon]);
+    return { transactionHash: '0xoracle', blockNumber: 1, status: 'success', logs: [{ address, ...event }] };
+  };
+
+  const vote = async (wallet: ethers.HDNodeWallet, challengerWon: boolean, accepted: boolean = true) => ({
+    validatorAddress: wallet.address,
+    accepted,
+    signature: await wallet.signMessage(
+      ethers.getBytes(DisputeService.getResolutionHash('net-1', 'task-1', challengerWon, accepted, 1))
+    ),
+  });
+
+  const open = async (m: any = manifest()) =>
+    (await service.openChallenge({ taskId: 'task-1', challengerAddress: '0xchallenger', reason: 'wrong', stake: '1000' }, m, 0))
+      .dispute;
+
+  const manifest = (overrides: any = {}): any => ({
+    networkId: 'net-1',
+    validatorConfig: { minValidators: 2, consensusThreshold: 0.5, disputeWindow: 3600, stakeRequired: '0' },
+    settlement: { mode: 'escrow', chain: 'ethereum', contractAddress: ESCROW },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    task = {
+      taskId: 'task-1',
+      networkId: 'net-1',
+      status: 'consensus-reached',
+      input: { prompt: 'hi' },
+      depositorAddress: '0xuser',
+      depositAmount: '100',
+      winningOutputId: 'out-1',
+      consensusReached: true,
+      paymentReleased: false,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    };
+    disputes = [];
+    disputeRepository = {
+      create: jest.fn(async (data: any) => {
+        const dispute = { ...data, id: `dispute-${disputes.length + 1}`, openedAt: new Date() };
+        disputes.push(dispute);
+        return dispute;
+      }),
+      findById: jest.fn(async (id: string) => disputes.find(d => d.id === id) || null),
+      findByTask: jest.fn(async (taskId: string) => disputes.filter(d => d.taskId === taskId)),
+      findOpen: jest.fn(async () => disputes.filter(d => d.status === 'open')),
+      countUnresolved: jest.fn(async () => disputes.filter(d => d.status === 'open').length),
+      update: jest.fn(async (id: string, data: any) => {
+        const dispute = disputes.find(d => d.id === id)!;
+        Object.assign(dispute, data);
+        return dispute;
+      }),
+    };
+    taskRepository = {
+      findById: jest.fn(async () => task),
+      getOutputs: jest.fn(async () => [
+        {
+          outputId: 'out-1',
+          minerAddress: '0xminer',
+          output: { text: 'hello' },
+          timestamp: new Date(1),
+          metadata: { replayBundle: { modelId: 'model-1', randomSeed: '42' } },
+        },
+      ]),
+      getEvaluations: jest.fn(async () => [
+        { validatorAddress: '0xV1', outputId: 'out-1', score: 90, confidence: 0.9, signature: '0xsig' },
+      ]),
+    };
+    taskService = {
+      markTaskChallenged: jest.fn(async () => undefined),
+      resolveTaskChallenge: jest.fn(async () => undefined),
+    };
+    storage = { upload: jest.fn(async () => 'QmEvidence') };
+    blockchain = {
+      getChainId: jest.fn(async () => 1),
+      sendTransaction: jest.fn(async () => '0xresolved'),
+      getTransactionReceipt: jest.fn(async () => resolutionReceipt('task-1', false)),
+    };
+    scamDefenseService = { recordDispute: jest.fn(async () => undefined) };
+    validators = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+    validatorRepository = {
+      findByNetwork: jest.fn(async () => validators.map((wallet, i) => ({
+        address: wallet.address,
+        networkId: 'net-1',
+        isActive: true,
+        isBanned: i === 2,
+      }))),
+    };
+
+    service = new DisputeService(mockLogger, {
+      disputeRepository,
+      taskRepository,
+      taskService,
+      storage,
+      blockchain,
+      scamDefenseService,
+      validatorRepository,
+    });
+  });
+
+  describe('openChallenge', () => {
+    it('should package evidence, mark the task challenged and prepare the escrow call', async () => {
+      const result = await service.openChallenge(
+        { taskId: 'task-1', challengerAddress: '0xchallenger', reason: 'wrong answer', stake: '1000' },
+        manifest(),
+        HOUR / 2
+      );
+
+      const evidence = storage.upload.mock.calls[0][0];
+      expect(evidence.outputs).toHaveLength(1);
+      expect(evidence.evaluations).toHaveLength(1);
+      expect(evidence.replayBundles['out-1'].modelId).toBe('model-1');
+      expect(taskService.markTaskChallenged).toHaveBeenCalledWith('task-1', '0xchallenger', 'wrong answer', 'QmEvidence');
+      expect(result.dispute.status).toBe('open');
+      expect(result.dispute.resolutionMode).toBe('validator');
+      expect(result.challengeTxData?.value).toBe('1000');
+    });
+
+    it('should reject challenges after the dispute window', async () => {
+      await expect(
+        service.openChallenge({ taskId: 'task-1', challengerAddress: '0xc', reason: 'late', stake: '1' }, manifest(), 2 * HOUR)
+      ).rejects.toThrow('Dispute window closed');
+      expect(storage.upload).not.toHaveBeenCalled();
+    });
+
+    it('should reject challenges on tasks that are not consensus-reached', async () => {
+      task.status = 'paid';
+
+      await expect(
+        service.openChallenge({ taskId: 'task-1', challengerAddress: '0xc', reason: 'paid', stake: '1' }, manifest(), 0)
+      ).rejects.toThrow('cannot be challenged');
+    });
+
+    it('should reject challenges without a stake before recording anything', async () => {
+      for (const stake of [undefined, '0', 'lots']) {
+        await expect(
+          service.openChallenge({ taskId: 'task-1', challengerAddress: '0xc', reason: 'free', stake }, manifest(), 0)
+        ).rejects.toThrow('Challenge requires a positive stake');
+      }
+      expect(storage.upload).not.toHaveBeenCalled();
+      expect(taskService.markTaskChallenged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveChallenge', () => {
+    it('should verify validator votes and submit resolveChallenge', async () => {
+      const dispute = await open();
+      const votes = [await vote(validators[0], true), await vote(validators[1], true, false)];
+
+      const resolved = await service.resolveChallenge(dispute.id, true, manifest(), { votes });
+
+      expect(blockchain.sendTransaction.mock.calls[0][2]).toBe('resolveChallenge');
+      expect(blockchain.sendTransaction.mock.calls[0][3][2].map((sig: any) => sig.accepted)).toEqual([true, false]);
+      expect(resolved.status).toBe('resolved');
+      expect(resolved.resolutionTxHash).toBe('0xresolved');
+      expect(taskService.resolveTaskChallenge).toHaveBeenCalledWith('task-1', expect.objectContaining({ challengerWon: true }));
+      expect(scamDefenseService.recordDispute).toHaveBeenCalledWith('net-1');
+    });
+
+    it('should reject votes signed for a different outcome or vote', async () => {
+      const dispute = await open();
+      const wrongOutcome = await vote(validators[0], false);
+      const rejection = await vote(validators[1], true, false);
+
+      await expect(service.resolveChallenge(dispute.id, true, manifest(), {
+        votes: [wrongOutcome, await vote(validators[1], true)],
+      })).rejects.toThrow('Invalid dispute vote signature');
+      await expect(service.resolveChallenge(dispute.id, true, manifest(), {
+        votes: [await vote(validators[0], true), { ...rejection, accepted: true }],
+      })).rejects.toThrow('Invalid dispute vote signature');
+      expect(disputes[0].status).toBe('open');
+    });
+
+    it('should only count votes from active validators of the network', async () => {
+      const dispute = await open();
+      const outsider = ethers.Wallet.createRandom();
+
+      await expect(service.resolveChallenge(dispute.id, true, manifest(), {
+        votes: [await vote(validators[0], true), await vote(outsider, true)],
+      })).rejects.toThrow('is not an active validator of the network');
+      await expect(service.resolveChallenge(dispute.id, true, manifest(), {
+        votes: [await vote(validators[0], true), await vote(validators[2], true)], // validators[2] is banned
+      })).rejects.toThrow('is not an active validator of the network');
+
+      const validatorSets = { getValidatorSet: jest.fn(async () => ({ epoch: 3, validators: [validators[0].address, outsider.address] })) };
+      const withRegistry = new DisputeService(mockLogger, {
+        disputeRepository, taskRepository, taskService, storage, blockchain, validatorSets,
+      });
+      const registryManifest = manifest({ settlement: { ...manifest().settlement, validatorRegistryAddress: '0xregistry' } });
+      await withRegistry.resolveChallenge(dispute.id, true, registryManifest, {
+        votes: [await vote(validators[0], true), await vote(outsider, true)],
+      });
+      expect(validatorSets.getValidatorSet).toHaveBeenCalledWith(registryManifest);
+
+      const withoutSet = new DisputeService(mockLogger, { disputeRepository, taskRepository, taskService, storage, blockchain });
+      const second = await withoutSet.openChallenge(
+        { taskId: 'task-2', challengerAddress: '0xc', reason: 'wrong', stake: '1' }, manifest(), 0
+      );
+      await expect(withoutSet.resolveChallenge(second.dispute.id, true, manifest(), {
+        votes: [await vote(validators[0], true), await vote(validators[1], true)],
+      })).rejects.toThrow('Validator resolution requires the network validator set');
+    });
+
+    it('should accept a confirmed oracle transaction without recording a dismissed dispute', async () => {
+      const oracleManifest = manifest({ challengeResolution: { mode: 'oracle', oracleType: 'uma' } });
+      const dispute = await open(oracleManifest);
+
+      const resolved = await service.resolveChallenge(dispute.id, false, oracleManifest, { txHash: '0xoracle' });
+
+      expect(blockchain.getTransactionReceipt).toHaveBeenCalledWith('0xoracle');
+      expect(blockchain.sendTransaction).not.toHaveBeenCalled();
+      expect(resolved.challengerWon).toBe(false);
+      expect(scamDefenseService.recordDispute).not.toHaveBeenCalled();
+      expect(await service.getUnresolvedDisputeCount('net-1', new Date(0), new Date())).toBe(0);
+    });
+
+    it('should refuse resolution transactions that did not resolve this task with the claimed outcome', async () => {
+      const governanceManifest = manifest({ challengeResolution: { mode: 'governance' } });
+      const dispute = await open(governanceManifest);
+      const resolve = (challengerWon: boolean) =>
+        service.resolveChallenge(dispute.id, challengerWon, governanceManifest, { txHash: '0xgov' });
+
+      await expect(resolve(true)).rejects.toThrow('resolved task task-1 with challengerWon=false');
+
+      blockchain.getTransactionReceipt.mockImplementation(async () => resolutionReceipt('task-2', true));
+      await expect(resolve(true)).rejects.toThrow('did not resolve task task-1 on escrow');
+
+      blockchain.getTransactionReceipt.mockImplementation(async () => resolutionReceipt('task-1', true, '0x000000000000000000000000000000000000dead'));
+      await expect(resolve(true)).rejects.toThrow('did not resolve task task-1 on escrow');
+
+      blockchain.getTransactionReceipt.mockImplementation(async () => ({ ...resolutionReceipt('task-1', true), status: 'failed' }));
+      await expect(resolve(true)).rejects.toThrow('Resolution transaction 0xgov not confirmed');
+
+      const offline = new DisputeService(mockLogger, { disputeRepository, taskRepository, taskService, storage });
+      await expect(offline.resolveChallenge(dispute.id, true, governanceManifest, { txHash: '0xgov' })).rejects.toThrow(
+        'Resolution transactions cannot be verified without a blockchain provider'
+      );
+
+      blockchain.getTransactionReceipt.mockImplementation(async () => resolutionReceipt('task-1', true));
+      await expect(resolve(true)).resolves.toMatchObject({ status: 'resolved', challengerWon: true, resolutionTxHash: '0xgov' });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Embedding Providers Tests
+ *
+ * Tests for the embedding provider registry and the offline TF-IDF hashing provider
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderRegistry,
+  HashEmbeddingProvider,
+  TfidfHashingEmbeddingProvider,
+} from '../EmbeddingProviders';
+import { StatisticalDistributionService, MonteCarloOutput } from '../StatisticalDistributionService';
+import { ILogger } from '../utils/ILogger';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function output(outputId: string, text: string): MonteCarloOutput {
+  return { outputId, output: text, minerAddress: '0xminer', timestamp: 0, generationParams: {} };
+}
+
+describe('EmbeddingProviders', () => {
+  const request = { taskType: 'text', dimension: 128 };
+
+  describe('TfidfHashingEmbeddingProvider', () => {
+    const texts = [
+      'The quick brown fox jumps over the lazy dog',
+      'A quick brown fox jumped over a lazy dog',
+      'Quarterly revenue grew by twelve percent year over year',
+    ];
+
+    it('should return unit vectors of the requested dimension', async () => {
+      const vectors = await new TfidfHashingEmbeddingProvider().embed(texts, request);
+
+      expect(vectors).toHaveLength(3);
+      for (const vector of vectors) {
+        expect(vector).toHaveLength(128);
+        expect(cosine(vector, vector)).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should be deterministic', async () => {
+      const first = await new TfidfHashingEmbeddingProvider().embed(texts, request);
+      const second = await new TfidfHashingEmbeddingProvider().embed(texts, request);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should place paraphrases closer than unrelated text', async () => {
+      const [fox, paraphrase, revenue] = await new TfidfHashingEmbeddingProvider().embed(texts, request);
+
+      expect(cosine(fox, paraphrase)).toBeGreaterThan(0.5);
+      expect(cosine(fox, paraphrase)).toBeGreaterThan(cosine(fox, revenue) + 0.3);
+    });
+  });
+
+  describe('HashEmbeddingProvider', () => {
+    it('should only match identical text', async () => {
+      const [a, b, c] = await new HashEmbeddingProvider().embed(['same', 'same', 'Same'], request);
+
+      expect(a).toHaveLength(128);
+      expect(b).toEqual(a);
+      expect(c).not.toEqual(a);
+    });
+  });
+
+  describe('EmbeddingProviderRegistry', () => {
+    it('should reject unregistered methods', () => {
+      expect(() => new EmbeddingProviderRegistry().get('custom')).toThrow(
+        'No embedding provider registered for method: custom'
+      );
+    });
+  });
+
+  describe('StatisticalDistributionService', () => {
+    let logger: ILogger;
+    let service: StatisticalDistributionService;
+    const outputs = [output('o1', 'first answer'), output('o2', 'second answer')];
+
+    beforeEach(() => {
+      logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      service = new StatisticalDistributionService(logger);
+    });
+
+    it('should report the provider that produced the embeddings', async () => {
+      const { embeddings, provider } = await service.embedOutputs(outputs, 'text', 'tfidf-hashing', undefined, 64);
+      const distribution = await service.estimateDistribution(embeddings, outputs, 'simple', provider);
+
+      expect(provider).toEqual({
+        method: 'tfidf-hashing',
+        provider: 'tfidf-char-ngram-hashing',
+        dimension: 64,
+        deterministic: true,
+      });
+      expect(embeddings.get('o1')).toHaveLength(64);
+      expect(distribution.embeddingProvider).toEqual(provider);
+    });
+
+    it('should use providers registered for custom methods', async () => {
+      const custom: EmbeddingProvider = {
+        name: 'constant',
+        deterministic: true,
+        embed: async texts => texts.map(() => [1, 0]),
+      };
+      service.registerEmbeddingProvider('custom:constant', custom);
+
+      const { embeddings, provider } = await service.embedOutputs(outputs, 'text', 'custom:constant');
+
+      expect(embeddings.get('o2')).toEqual([1, 0]);
+      expect(provider.provider).toBe('constant');
+      expect(provider.dimension).toBe(2);
+    });
+
+    it('should fail instead of falling back when the provider fails', async () => {
+      service.registerEmbeddingProvider('custom', {
+        name: 'broken',
+        deterministic: true,
+        embed: async () => {
+          throw new Error('model unavailable');
+        },
+      });
+
+      await expect(service.embedOutputs(outputs, 'text', 'custom')).rejects.toThrow(
+        'Embedding provider broken (custom) failed: model unavailable'
+      );
+      await expect(service.embedOutputs(outputs, 'text', 'custom:missing')).rejects.toThrow(
+        'No embedding provider registered for method: custom:missing'
+      );
+    });
+
+    it('should let the task embedding config override the method', async () => {
+      await expect(
+        service.embedOutputs(outputs, 'text', 'tfidf-hashing', { provider: 'openai' })
+      ).rejects.toThrow('OpenAI embeddings need an API key');
+    });
+
+    it('should not reuse cached embeddings across methods', async () => {
+      const tfidf = await service.embedOutputs(outputs, 'text', 'tfidf-hashing');
+      const hashed = await service.embedOutputs(outputs, 'text', 'hash-based');
+
+      expect(hashed.provider.method).toBe('hash-based');
+      expect(hashed.embeddings.get('o1')).not.toEqual(tfidf.embeddings.get('o1'));
+    });
+  });
+});
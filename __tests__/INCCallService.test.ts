@@ -1,34 +1,172 @@
 /**
  * INCCallService Tests
- * 
+ *
  * Tests for inter-network call processing
  */
 
-import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { INCCallService } from '../INCCallService';
-import { ILogger } from '../utils/ILogger';
-import { TaskService } from '../TaskService';
-import { ProtocolService } from '../ProtocolService';
-import { PrismaClient } from '@prisma/client';
-import { InterNetworkCall, NetworkManifest } from '../types';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { INCCallService, verifyINCCallback } from '../INCCallService';
+import { InMemoryINCCallRepository } from '../adapters/database/InMemoryINCCallRepository';
+import type { TaskState } from '../TaskService';
+import { InterNetworkCall, NetworkManifest, INCCallback } from '../types';
 
 describe('INCCallService', () => {
   let service: INCCallService;
-  let logger: ILogger;
-  let taskService: TaskService;
-  let protocolService: ProtocolService;
-  let prisma: PrismaClient;
+  let mockLogger: any;
+  let repository: InMemoryINCCallRepository;
+  let taskService: any;
+  let states: Map<string, TaskState>;
+  let hooks: Array<(transition: any) => Promise<void>>;
+  let storage: any;
+  let networkRepository: any;
+  let messenger: any;
+  let fetchMock: any;
+  let originalFetch: typeof fetch;
+
+  const node = new ethers.Wallet('0x' + '44'.repeat(32));
+
+  const manifest: NetworkManifest = {
+    networkId: '0x5678',
+    name: 'Test Network',
+    description: 'Test',
+    category: 'test',
+    version: '1.0.0',
+    creatorAddress: '0xcreator',
+    creatorSignature: '0xsig',
+    createdAt: new Date().toISOString(),
+    taskFormat: {
+      inputSchema: {},
+      outputSchema: {},
+      timeout: 3600,
+    },
+    scoringLogic: {
+      type: 'wasm',
+      hash: '0xhash',
+      url: 'ipfs://QmTest',
+    },
+    validatorConfig: {
+      minValidators: 3,
+      consensusThreshold: 6700,
+      disputeWindow: 86400,
+      stakeRequired: '1000000000000000000',
+    },
+    settlement: {
+      mode: 'escrow',
+      chain: 'ethereum',
+    },
+    inc: {
+      supported: true,
+      capabilities: ['test'],
+      pricing: {
+        model: 'per_task',
+        basePrice: '1000000000000000000',
+        currency: 'native',
+      },
+      requirements: {
+        minBudget: '1000000000000000000',
+        maxDepth: 10,
+      },
+    },
+    riskParameters: {},
+    moneyFlow: {
+      validatorPayment: {
+        enabled: true,
+        percentage: 0.1,
+        minPayment: '0',
+        maxPayment: '0',
+      },
+    },
+    registry: {
+      ipfsCid: 'QmTest',
+    },
+  } as any;
+
+  const incCall = (overrides: Partial<InterNetworkCall> = {}): InterNetworkCall => ({
+    incId: '0xinc',
+    sourceNetworkId: '0x1234',
+    destinationNetworkId: '0x5678',
+    taskPayload: { input: 'test' },
+    maxBudget: '1000000000000000000',
+    settlementMode: 'escrow',
+    signature: '0x' + 'ab'.repeat(32),
+    timestamp: Date.now(),
+    maxDepth: 10,
+    currentDepth: 1,
+    callChain: [],
+    ...overrides,
+  });
+
+  const taskState = (taskId: string, status: TaskState['status']): TaskState => ({
+    taskId,
+    networkId: '0x5678',
+    status,
+    submission: {} as any,
+    outputs: [
+      { outputId: 'o1', output: { text: 'first' }, minerAddress: '0xminer1', timestamp: 1 },
+      { outputId: 'o2', output: { text: 'second' }, minerAddress: '0xminer2', timestamp: 2 },
+    ],
+    evaluations: [
+      { validatorAddress: '0xv1', outputId: 'o2', score: 90, confidence: 1, timestamp: 3, signature: '0xsig' },
+    ],
+    consensusReached: status === 'consensus-reached',
+    winningOutputId: status === 'consensus-reached' ? 'o2' : undefined,
+    paymentReleased: false,
+    createdAt: 0,
+    updatedAt: 0,
+  } as TaskState);
+
+  const emit = async (taskId: string, to: TaskState['status']) => {
+    states.set(taskId, taskState(taskId, to));
+    for (const hook of hooks) {
+      await hook({ taskId, from: 'evaluating', to, timestamp: Date.now() });
+    }
+  };
+
+  const createService = (options: any = {}) =>
+    new INCCallService(
+      mockLogger,
+      { taskService, repository, networkRepository, storage, signer: node, messenger },
+      { allowUnverifiedConsensus: true, ...options }
+    );
 
   beforeEach(() => {
-    logger = new Logger('Test');
-    prisma = new PrismaClient();
-    taskService = new TaskService(prisma, logger);
-    protocolService = new ProtocolService(logger, prisma);
-    service = new INCCallService(logger, taskService, protocolService);
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    repository = new InMemoryINCCallRepository();
+    states = new Map();
+    hooks = [];
+    taskService = {
+      submitTask: jest.fn(async (taskId: string) => {
+        const state = taskState(taskId, 'submitted');
+        states.set(taskId, state);
+        return state;
+      }),
+      getTaskState: jest.fn(async (taskId: string) => states.get(taskId) || null),
+      onTransition: jest.fn((hook: any) => {
+        hooks.push(hook);
+        return () => {
+          hooks = hooks.filter(h => h !== hook);
+        };
+      }),
+    };
+    networkRepository = { findById: jest.fn(async () => ({ networkId: '0x5678', manifestCid: 'QmManifest' })) };
+    storage = { download: jest.fn(async () => manifest) };
+    messenger = { sendINCCallback: jest.fn(async () => undefined) };
+    originalFetch = globalThis.fetch;
+    fetchMock = jest.fn(async () => new Response(null, { status: 204 }));
+    globalThis.fetch = fetchMock;
+    service = createService();
   });
 
   afterEach(async () => {
-    await prisma.$disconnect();
+    await service.stop();
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
   });
 
   describe('createINC', () => {
@@ -39,13 +177,22 @@ describe('INCCallService', () => {
         taskPayload: { input: 'test' },
         maxBudget: '1000000000000000000',
         settlementMode: 'escrow',
-        sourceValidatorSignatures: ['0xsig1', '0xsig2'],
         callChain: [],
       });
 
       expect(inc.incId).toBeDefined();
       expect(inc.sourceNetworkId).toBe('0x1234');
       expect(inc.destinationNetworkId).toBe('0x5678');
+      expect(inc.callChain).toEqual(['0x1234']);
+      expect(service.validateINC(inc, manifest).errors).toContain('Missing signature');
+
+      const signed = service.attachConsensusProof(inc, {
+        validatorSetEpoch: 4,
+        signatures: [{ validatorAddress: '0xv1', signature: '0x' + '01'.repeat(65) }],
+      });
+      expect(signed.consensusProof!.validatorSetEpoch).toBe(4);
+      expect(signed.signature).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(service.validateINC(signed, manifest).valid).toBe(true);
     });
 
     it('should reject INC with cycle', () => {
@@ -56,12 +203,28 @@ describe('INCCallService', () => {
           taskPayload: { input: 'test' },
           maxBudget: '1000000000000000000',
           settlementMode: 'escrow',
-          sourceValidatorSignatures: ['0xsig1'],
           callChain: ['0x5678'], // Cycle detected
         });
       }).toThrow('Cycle detected');
     });
 
+    it('should require a parent for nested calls', () => {
+      const params = {
+        sourceNetworkId: '0x5678',
+        destinationNetworkId: '0x9abc',
+        taskPayload: { input: 'test' },
+        maxBudget: '1000000000000000000',
+        settlementMode: 'escrow' as const,
+        callChain: ['0x1234'],
+      };
+
+      expect(() => service.createINC(params)).toThrow('Nested call requires parentIncId');
+      expect(service.createINC({ ...params, parentIncId: '0xroot' })).toMatchObject({ currentDepth: 2, parentIncId: '0xroot' });
+      expect(service.validateINC(incCall({ callChain: ['0x1234'], currentDepth: 2 }), manifest).errors).toEqual([
+        'Nested call at depth 2 requires parentIncId',
+      ]);
+    });
+
     it('should reject INC exceeding max depth', () => {
       expect(() => {
         service.createINC({
@@ -70,7 +233,6 @@ describe('INCCallService', () => {
           taskPayload: { input: 'test' },
           maxBudget: '1000000000000000000',
           settlementMode: 'escrow',
-          sourceValidatorSignatures: ['0xsig1'],
           callChain: Array(10).fill('0x'), // Max depth exceeded
           maxDepth: 10,
         });
@@ -87,72 +249,268 @@ describe('INCCallService', () => {
         taskPayload: { input: 'test' },
         maxBudget: '1000000000000000000',
         settlementMode: 'escrow',
-        signature: '0xsig',
+        signature: '0x' + 'ab'.repeat(32),
         timestamp: Date.now(),
         maxDepth: 10,
         currentDepth: 1,
         callChain: [],
       };
 
-      const manifest: NetworkManifest = {
-        networkId: '0x5678',
-        name: 'Test Network',
-        description: 'Test',
-        category: 'test',
-        version: '1.0.0',
-        creatorAddress: '0xcreator',
-        creatorSignature: '0xsig',
-        createdAt: new Date().toISOString(),
-        taskFormat: {
-          inputSchema: {},
-          outputSchema: {},
-          timeout: 3600,
-        },
-        scoringLogic: {
-          type: 'wasm',
-          hash: '0xhash',
-          url: 'ipfs://QmTest',
-        },
-        validatorConfig: {
-          minValidators: 3,
-          consensusThreshold: 6700,
-          disputeWindow: 86400,
-          stakeRequired: '1000000000000000000',
-        },
-        settlement: {
-          mode: 'escrow',
-          chain: 'ethereum',
-        },
-        inc: {
-          supported: true,
-          capabilities: ['test'],
-          pricing: {
-            model: 'per_task',
-            basePrice: '1000000000000000000',
-            currency: 'native',
-          },
-          requirements: {
-            minBudget: '1000000000000000000',
-            maxDepth: 10,
-          },
-        },
-        riskParameters: {},
-        moneyFlow: {
-          validatorPayment: {
-            enabled: true,
-            percentage: 0.1,
-            minPayment: '0',
-            maxPayment: '0',
-          },
-        },
-        registry: {
-          ipfsCid: 'QmTest',
-        },
-      };
-
       const result = service.validateINC(inc, manifest);
       expect(result.valid).toBe(true);
     });
   });
-});
 
+  describe('dispatchINC', () => {
+    it('should dispatch without waiting and complete when the destination task reaches consensus', async () => {
+      await service.start();
+
+      const dispatched = await service.dispatchINC(incCall(), manifest, { callbackUrl: 'https://source.example/inc' });
+      expect(dispatched.status).toBe('dispatched');
+      expect(dispatched.deadline!.getTime()).toBeGreaterThan(Date.now() + 3500 * 1000);
+      expect(taskService.submitTask).toHaveBeenCalledWith('0xinc', '0x5678', { input: 'test' }, '0x1234', '1000000000000000000', manifest);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      await emit('0xinc', 'consensus-reached');
+
+      const completed = await service.getINC('0xinc');
+      expect(completed).toMatchObject({ status: 'completed', callbackAttempts: 1 });
+      expect(completed!.receipt).toMatchObject({ incId: '0xinc', success: true, result: { text: 'second' } });
+      expect(completed!.receipt!.receipt.recipient).toBe('0xminer2');
+      expect(completed!.callbackDeliveredAt).toBeInstanceOf(Date);
+
+      const [url, request] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://source.example/inc');
+      const callback: INCCallback = JSON.parse(request.body);
+      expect(callback).toMatchObject({ incId: '0xinc', status: 'completed', scheme: 'eip712', chainId: 1, signer: node.address });
+      expect(verifyINCCallback(callback, [node.address])).toBe(true);
+      expect(verifyINCCallback({ ...callback, status: 'failed' }, [node.address])).toBe(false);
+      expect(verifyINCCallback(callback, ['0x' + '99'.repeat(20)])).toBe(false);
+      expect(messenger.sendINCCallback).toHaveBeenCalledWith(callback);
+
+      // Duplicate notifications change nothing
+      await emit('0xinc', 'paid');
+      expect((await service.getINC('0xinc'))!.callbackAttempts).toBe(1);
+    });
+
+    it('should record rejected calls as failed and report them', async () => {
+      const record = await service.dispatchINC(incCall({ maxBudget: '1' }), manifest);
+
+      expect(record.status).toBe('failed');
+      expect(record.failure).toMatchObject({ reason: 'network_rejected' });
+      expect(record.failure!.message).toContain('below minimum');
+      expect(taskService.submitTask).not.toHaveBeenCalled();
+      expect(messenger.sendINCCallback).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+    });
+
+    it('should fail timed-out calls and mark them refunded', async () => {
+      await service.start();
+      await service.dispatchINC(incCall(), manifest);
+
+      await emit('0xinc', 'timed-out');
+      expect(await service.getINC('0xinc')).toMatchObject({ status: 'failed', failure: { reason: 'timeout' } });
+
+      const refunded = await service.markRefunded('0xinc', '0xrefund');
+      expect(refunded).toMatchObject({ status: 'refunded', refundTxHash: '0xrefund' });
+      expect(messenger.sendINCCallback.mock.calls.map((call: any) => call[0].status)).toEqual(['failed', 'refunded']);
+      await expect(service.markRefunded('0xunknown')).resolves.toBeNull();
+    });
+
+    it('should sign EIP-191 callbacks when the destination has no EIP-712 domain', async () => {
+      storage.download = jest.fn(async () => ({ ...manifest, settlement: { mode: 'escrow', chain: 'solana' } }));
+      await service.start();
+      await service.dispatchINC(incCall(), manifest);
+
+      await emit('0xinc', 'user-rejected');
+
+      const callback = messenger.sendINCCallback.mock.calls[0][0];
+      expect(callback.scheme).toBe('eip191');
+      expect(verifyINCCallback(JSON.parse(JSON.stringify(callback)), [node.address])).toBe(true);
+    });
+  });
+
+  describe('consensus proofs', () => {
+    it('should fail calls whose consensus proof does not verify', async () => {
+      const consensusVerifier = {
+        verify: jest.fn(async () => ({
+          valid: false,
+          errors: ['Consensus not reached: 1 of 3 validators signed, 2 required'],
+          signers: [],
+          required: 2,
+          setSize: 3,
+        })),
+      };
+      service = new INCCallService(mockLogger, { taskService, repository, networkRepository, storage, consensusVerifier });
+
+      const record = await service.dispatchINC(incCall(), manifest);
+
+      expect(consensusVerifier.verify).toHaveBeenCalledWith(expect.objectContaining({ incId: '0xinc' }), manifest);
+      expect(record).toMatchObject({ status: 'failed', failure: { reason: 'invalid_signature' } });
+      expect(record.failure!.message).toContain('Consensus not reached');
+      expect(taskService.submitTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject calls when no consensus verifier is configured', async () => {
+      service = new INCCallService(mockLogger, { taskService, repository, networkRepository, storage });
+
+      const record = await service.dispatchINC(incCall(), manifest);
+
+      expect(record).toMatchObject({ status: 'failed', failure: { reason: 'invalid_signature' } });
+      expect(record.failure!.message).toContain('No INC consensus verifier configured');
+      expect(taskService.submitTask).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch calls whose consensus proof verifies', async () => {
+      const consensusVerifier = {
+        verify: jest.fn(async () => ({ valid: true, errors: [], signers: ['0xv1', '0xv2'], required: 2, setSize: 3 })),
+      };
+      service = new INCCallService(mockLogger, { taskService, repository, networkRepository, storage, consensusVerifier });
+
+      await expect(service.dispatchINC(incCall(), manifest)).resolves.toMatchObject({ status: 'dispatched' });
+    });
+  });
+
+  describe('budgets', () => {
+    const priced = {
+      ...manifest,
+      inc: { ...manifest.inc!, pricing: { ...manifest.inc!.pricing, basePrice: '100' }, requirements: { minBudget: '0', maxDepth: 10 } },
+    } as NetworkManifest;
+    const nested = (incId: string, source: string, destination: string, maxBudget: string, parentIncId?: string) =>
+      incCall({ incId, sourceNetworkId: source, destinationNetworkId: destination, maxBudget, parentIncId });
+
+    it('should allocate the task price and deposit only that', async () => {
+      const record = await service.dispatchINC(nested('0xroot', '0x1234', '0x5678', '1000'), priced);
+
+      expect(record).toMatchObject({ status: 'dispatched', price: '100', budget: { maxBudget: '1000', allocated: '100', remaining: '900', currency: 'native' } });
+      expect(taskService.submitTask).toHaveBeenCalledWith('0xroot', '0x5678', { input: 'test' }, '0x1234', '100', priced);
+
+      const tooSmall = await service.dispatchINC(nested('0xsmall', '0x1234', '0x5678', '50'), priced);
+      expect(tooSmall.failure).toMatchObject({ reason: 'budget_exceeded' });
+      expect(taskService.submitTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('should draw nested calls from the parent budget and reject overspend', async () => {
+      await service.start();
+      await service.dispatchINC(nested('0xroot', '0x1234', '0x5678', '1000'), priced);
+      const child = await service.dispatchINC(nested('0xchild', '0x5678', '0x9abc', '600', '0xroot'), priced);
+
+      expect(child.budget).toMatchObject({ allocated: '100', remaining: '500' });
+      expect((await service.getINC('0xroot'))!.budget).toMatchObject({ allocated: '700', remaining: '300' });
+
+      const overspend = await service.dispatchINC(nested('0xover', '0x5678', '0x9abc', '400', '0xroot'), priced);
+      expect(overspend).toMatchObject({ status: 'failed', failure: { reason: 'budget_exceeded' } });
+      expect(overspend.failure!.message).toContain('300 remaining');
+      expect(taskService.submitTask).not.toHaveBeenCalledWith('0xover', expect.anything(), expect.anything(), expect.anything(), expect.anything(), expect.anything());
+      expect((await service.getINC('0xroot'))!.budget).toMatchObject({ allocated: '700', remaining: '300' });
+
+      const wrongSource = await service.dispatchINC(nested('0xforeign', '0x1234', '0x9abc', '100', '0xroot'), priced);
+      expect(wrongSource.failure).toMatchObject({ reason: 'network_rejected' });
+
+      // The child spends its price; the rest goes back to the parent
+      await emit('0xchild', 'consensus-reached');
+      expect((await service.getINC('0xchild'))!.receipt!.receipt.amount).toBe('100');
+      expect((await service.getINC('0xroot'))!.budget).toMatchObject({ allocated: '200', remaining: '800' });
+
+      const unknownParent = await service.dispatchINC(nested('0xorphan', '0x5678', '0x9abc', '100', '0xelsewhere'), priced);
+      expect(unknownParent).toMatchObject({ status: 'failed', failure: { reason: 'budget_exceeded' } });
+      expect(unknownParent.failure!.message).toBe('Parent call 0xelsewhere is not recorded on this node, so its budget cannot be checked');
+
+      await emit('0xroot', 'consensus-reached');
+      const late = await service.dispatchINC(nested('0xlate', '0x5678', '0x9abc', '100', '0xroot'), priced);
+      expect(late.failure).toMatchObject({ reason: 'budget_exceeded', message: 'Parent call 0xroot is already completed' });
+    });
+
+    it('should release failed calls in full and pass releases up past settled parents', async () => {
+      await service.start();
+      await service.dispatchINC(nested('0xroot', '0x1234', '0x5678', '1000'), priced);
+      await service.dispatchINC(nested('0xmiddle', '0x5678', '0x9abc', '600', '0xroot'), priced);
+      await service.dispatchINC(nested('0xleaf', '0x9abc', '0xdef0', '300', '0xmiddle'), priced);
+      expect((await service.getINC('0xmiddle'))!.budget).toMatchObject({ allocated: '400', remaining: '200' });
+
+      // Middle settles while the leaf is still running: the leaf's reservation stays spent for now
+      await emit('0xmiddle', 'consensus-reached');
+      expect((await service.getINC('0xroot'))!.budget).toMatchObject({ allocated: '500', remaining: '500' });
+
+      // The leaf's deposit is refunded, so all 300 flow back through middle to root
+      await emit('0xleaf', 'timed-out');
+      expect((await service.getINC('0xmiddle'))!.budget).toMatchObject({ allocated: '100', remaining: '500' });
+      expect((await service.getINC('0xroot'))!.budget).toMatchObject({ allocated: '200', remaining: '800' });
+    });
+  });
+
+  describe('recovery', () => {
+    it('should resume pending and dispatched calls after a restart', async () => {
+      await repository.create({
+        incId: '0xpending',
+        sourceNetworkId: '0x1234',
+        destinationNetworkId: '0x5678',
+        status: 'pending',
+        call: incCall({ incId: '0xpending' }),
+        callbackAttempts: 0,
+      });
+      await repository.create({
+        incId: '0xdone',
+        sourceNetworkId: '0x1234',
+        destinationNetworkId: '0x5678',
+        status: 'dispatched',
+        call: incCall({ incId: '0xdone' }),
+        callbackAttempts: 0,
+      });
+      states.set('0xdone', taskState('0xdone', 'consensus-reached'));
+
+      await service.start();
+
+      expect(taskService.submitTask).toHaveBeenCalledWith('0xpending', '0x5678', { input: 'test' }, '0x1234', '1000000000000000000', manifest);
+      expect((await service.getINC('0xpending'))!.status).toBe('dispatched');
+      expect((await service.getINC('0xdone'))!.status).toBe('completed');
+    });
+
+    it('should retry undelivered callbacks', async () => {
+      fetchMock.mockImplementationOnce(async () => new Response(null, { status: 503 }));
+      service = new INCCallService(
+        mockLogger,
+        { taskService, repository, networkRepository, storage, signer: node },
+        { allowUnverifiedConsensus: true }
+      );
+      await service.start();
+      await service.dispatchINC(incCall(), manifest, { callbackUrl: 'https://source.example/inc' });
+
+      await emit('0xinc', 'consensus-reached');
+      const undelivered = await service.getINC('0xinc');
+      expect(undelivered!.callbackAttempts).toBe(1);
+      expect(undelivered!.callbackDeliveredAt).toBeUndefined();
+
+      await service.retryCallbacks();
+      const record = await service.getINC('0xinc');
+      expect(record!.callbackAttempts).toBe(2);
+      expect(record!.callbackDeliveredAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('receiveCallback', () => {
+    it('should apply trusted callbacks to the local record and reject untrusted ones', async () => {
+      await service.start();
+      await service.dispatchINC(incCall(), manifest);
+      const destination = createService();
+      await emit('0xinc', 'consensus-reached');
+      const callback = messenger.sendINCCallback.mock.calls[0][0];
+
+      // Source side: a separate store that only knows the call was dispatched
+      repository = new InMemoryINCCallRepository();
+      await repository.create({
+        incId: '0xinc',
+        sourceNetworkId: '0x1234',
+        destinationNetworkId: '0x5678',
+        status: 'dispatched',
+        call: incCall(),
+        callbackAttempts: 0,
+      });
+      const source = createService();
+
+      await expect(source.receiveCallback(callback, ['0x' + '99'.repeat(20)])).rejects.toThrow('Invalid INC callback signature');
+      const applied = await source.receiveCallback(callback, [node.address]);
+      expect(applied).toMatchObject({ status: 'completed', receipt: { success: true } });
+      await destination.stop();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * INCConsensusVerifier Tests
+ *
+ * Tests for N-of-M source validator consensus proofs on inter-network calls
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  INCConsensusVerifier,
+  buildINCConsensusTypedData,
+  getConsensusProofDigest,
+  getConsensusFraction,
+} from '../INCConsensusVerifier';
+import { InterNetworkCall, INCConsensusProof, NetworkManifest } from '../types';
+
+describe('INCConsensusVerifier', () => {
+  let verifier: INCConsensusVerifier;
+  let mockLogger: any;
+  let validatorSets: any;
+  let epoch: number;
+
+  const validators = [1, 2, 3].map(i => new ethers.Wallet('0x' + String(i).repeat(64)));
+  const outsider = new ethers.Wallet('0x' + '9'.repeat(64));
+
+  const sourceManifest = {
+    networkId: 'net-source',
+    validatorConfig: { minValidators: 2, consensusThreshold: 0.6, disputeWindow: 3600, stakeRequired: '0' },
+    settlement: { mode: 'escrow', chain: 'polygon', validatorRegistryAddress: '0x' + '12'.repeat(20) },
+  } as unknown as NetworkManifest;
+
+  const unsigned: InterNetworkCall = {
+    incId: 'inc-1',
+    sourceNetworkId: 'net-source',
+    destinationNetworkId: 'net-destination',
+    taskPayload: { prompt: 'hello' },
+    maxBudget: '1000',
+    settlementMode: 'escrow',
+    signature: '',
+    timestamp: 1700000000000,
+    maxDepth: 10,
+    currentDepth: 1,
+    callChain: ['net-source'],
+  };
+
+  const sign = async (signers: ethers.Wallet[], proofEpoch: number = 7, inc: InterNetworkCall = unsigned): Promise<InterNetworkCall> => {
+    const typedData = buildINCConsensusTypedData(inc, sourceManifest);
+    const proof: INCConsensusProof = {
+      validatorSetEpoch: proofEpoch,
+      signatures: await Promise.all(signers.map(async wallet => ({
+        validatorAddress: wallet.address,
+        signature: await wallet.signTypedData(typedData.domain, typedData.types, typedData.message),
+      }))),
+    };
+    return { ...inc, consensusProof: proof, signature: getConsensusProofDigest(proof) };
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    epoch = 7;
+    validatorSets = {
+      getValidatorSetEpoch: jest.fn(async () => epoch),
+      getValidatorSet: jest.fn(async () => ({ epoch, validators: validators.map(v => v.address) })),
+    };
+    verifier = new INCConsensusVerifier(mockLogger, validatorSets);
+  });
+
+  it('should accept N-of-M signatures from the source validator set', async () => {
+    const verification = await verifier.verify(await sign(validators.slice(0, 2)), sourceManifest);
+
+    expect(verification).toMatchObject({ valid: true, epoch: 7, required: 2, setSize: 3, errors: [] });
+    expect(verification.signers).toEqual(validators.slice(0, 2).map(v => v.address.toLowerCase()));
+  });
+
+  it('should not count outsiders, duplicates or forged signatures toward the threshold', async () => {
+    const inc = await sign([validators[0], outsider]);
+    const proof = inc.consensusProof!;
+    proof.signatures.push(
+      proof.signatures[0],
+      { validatorAddress: validators[1].address, signature: proof.signatures[0].signature }
+    );
+    inc.signature = getConsensusProofDigest(proof);
+
+    const verification = await verifier.verify(inc, sourceManifest);
+
+    expect(verification.valid).toBe(false);
+    expect(verification.errors).toEqual([
+      'Consensus not reached: 1 of 3 validators signed, 2 required',
+      `${outsider.address} is not in the source validator set`,
+      `Duplicate signature from ${validators[0].address}`,
+      `Signature does not match validator ${validators[1].address}`,
+    ]);
+  });
+
+  it('should reject proofs over a different payload or with a mismatched signature digest', async () => {
+    const signed = await sign(validators.slice(0, 2));
+
+    const tampered = await verifier.verify({ ...signed, taskPayload: { prompt: 'goodbye' } }, sourceManifest);
+    expect(tampered.valid).toBe(false);
+    expect(tampered.signers).toEqual([]);
+
+    const relabelled = await verifier.verify({ ...signed, signature: '0x' + 'ab'.repeat(32) }, sourceManifest);
+    expect(relabelled.errors).toEqual(['INC signature does not match its consensus proof']);
+
+    await expect(verifier.verify(unsigned, sourceManifest)).resolves.toMatchObject({ valid: false, errors: ['Missing consensus proof'] });
+  });
+
+  it('should reject proofs whose nested call was pointed at a different parent', async () => {
+    const signed = await sign(validators.slice(0, 2), 7, { ...unsigned, parentIncId: 'inc-parent-a' });
+    await expect(verifier.verify(signed, sourceManifest)).resolves.toMatchObject({ valid: true });
+
+    const redirected = await verifier.verify({ ...signed, parentIncId: 'inc-parent-b' }, sourceManifest);
+    expect(redirected.valid).toBe(false);
+    expect(redirected.signers).toEqual([]);
+
+    const detached = await verifier.verify({ ...signed, parentIncId: undefined }, sourceManifest);
+    expect(detached.valid).toBe(false);
+  });
+
+  it('should cache the validator set and verifications per epoch', async () => {
+    const signed = await sign(validators.slice(0, 2));
+
+    await verifier.verify(signed, sourceManifest);
+    const again = await verifier.verify(signed, sourceManifest);
+    expect(again.valid).toBe(true);
+    expect(validatorSets.getValidatorSetEpoch).toHaveBeenCalledTimes(2);
+    expect(validatorSets.getValidatorSet).toHaveBeenCalledTimes(1);
+
+    // A validator joined: the old proof is stale and the set is reloaded
+    epoch = 8;
+    const stale = await verifier.verify(signed, sourceManifest);
+    expect(stale).toMatchObject({ valid: false, epoch: 8 });
+    expect(stale.errors[0]).toContain('epoch 7, current epoch is 8');
+    expect(validatorSets.getValidatorSet).toHaveBeenCalledTimes(2);
+
+    await expect(verifier.verify(await sign(validators.slice(0, 2), 8), sourceManifest)).resolves.toMatchObject({ valid: true });
+  });
+
+  it('should reject sources without an EVM settlement chain or validator registry', async () => {
+    const solana = { ...sourceManifest, settlement: { mode: 'escrow', chain: 'solana' } } as NetworkManifest;
+    const signed = await sign(validators);
+
+    const verification = await verifier.verify(signed, solana);
+    expect(verification.valid).toBe(false);
+    expect(verification.errors[0]).toContain('need an EVM settlement chain');
+
+    validatorSets.getValidatorSetEpoch.mockRejectedValue(new Error('Validator registry address not found in manifest for net-source'));
+    await expect(verifier.verify(signed, sourceManifest)).resolves.toMatchObject({
+      valid: false,
+      errors: ['Validator registry address not found in manifest for net-source'],
+    });
+  });
+
+  it('should reject manifest thresholds outside (0, 1]', async () => {
+    expect(getConsensusFraction(0.67)).toBe(0.67);
+    expect(getConsensusFraction(1)).toBe(1);
+    expect(() => getConsensusFraction(0)).toThrow('must be a fraction in (0, 1]');
+    expect(() => getConsensusFraction(6700)).toThrow('must be a fraction in (0, 1]');
+
+    const malformed = {
+      ...sourceManifest,
+      validatorConfig: { ...sourceManifest.validatorConfig, consensusThreshold: 2 },
+    } as NetworkManifest;
+    await expect(verifier.verify(await sign(validators.slice(0, 1)), malformed)).resolves.toMatchObject({
+      valid: false,
+      errors: ['Consensus threshold must be a fraction in (0, 1], got 2'],
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * INCRouterService Tests
+ *
+ * Tests for capability-based destination discovery, ranking and failover
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { INCRouterService, INCRouteRequest } from '../INCRouterService';
+import { INCCallService } from '../INCCallService';
+import { InMemoryINCCallRepository } from '../adapters/database/InMemoryINCCallRepository';
+import type { TaskState } from '../TaskService';
+import { GraduationLevel, InterNetworkCall, NetworkManifest, SettlementMode } from '../types';
+
+describe('INCRouterService', () => {
+  let router: INCRouterService;
+  let incCallService: INCCallService;
+  let mockLogger: any;
+  let taskService: any;
+  let hooks: Array<(transition: any) => Promise<void>>;
+  let manifests: Map<string, NetworkManifest>;
+  let riskScores: Record<string, number>;
+  let levels: Record<string, GraduationLevel>;
+  let registry: any;
+  let p2p: any;
+
+  const buildManifest = (
+    networkId: string,
+    options: { price?: string; capabilities?: string[]; mode?: SettlementMode } = {}
+  ): NetworkManifest => ({
+    networkId,
+    name: networkId,
+    taskFormat: { inputSchema: {}, outputSchema: {}, timeout: 600 },
+    validatorConfig: { minValidators: 1, consensusThreshold: 6700, disputeWindow: 3600, stakeRequired: '0' },
+    settlement: { mode: options.mode || 'escrow', chain: 'ethereum' },
+    inc: {
+      supported: true,
+      capabilities: options.capabilities || ['image_generation'],
+      pricing: { model: 'per_task', basePrice: options.price || '100', currency: 'native' },
+      requirements: { minBudget: '0', maxDepth: 10 },
+    },
+  } as any);
+
+  const emit = async (taskId: string, to: TaskState['status']) => {
+    for (const hook of hooks) {
+      await hook({ taskId, from: 'evaluating', to, timestamp: Date.now() });
+    }
+  };
+
+  const request = (overrides: Partial<INCRouteRequest> = {}): INCRouteRequest => ({
+    capability: 'image_generation',
+    sourceNetworkId: 'net-source',
+    maxBudget: '1000',
+    prepareCall: async (destinationNetworkId): Promise<InterNetworkCall> => ({
+      incId: `inc-${destinationNetworkId}`,
+      sourceNetworkId: 'net-source',
+      destinationNetworkId,
+      taskPayload: { prompt: 'a cat' },
+      maxBudget: '1000',
+      settlementMode: 'escrow',
+      signature: '0x' + 'ab'.repeat(32),
+      timestamp: Date.now(),
+      maxDepth: 10,
+      currentDepth: 1,
+      callChain: ['net-source'],
+    }),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+
+    manifests = new Map([
+      buildManifest('net-a', { price: '100' }),
+      buildManifest('net-b', { price: '50' }),
+      buildManifest('net-c', { price: '200', mode: 'receipt' }),
+      buildManifest('net-d', { capabilities: ['text_processing'] }),
+      buildManifest('net-e', { price: '2000' }),
+      buildManifest('net-p2p', { price: '100' }),
+    ].map(manifest => [`cid-${manifest.networkId}`, manifest]));
+    riskScores = { 'net-a': 10, 'net-b': 10, 'net-c': 40, 'net-d': 0, 'net-e': 0, 'net-p2p': 5 };
+    levels = { 'net-a': 'trusted', 'net-b': 'active', 'net-c': 'trusted', 'net-d': 'trusted', 'net-e': 'open_economic', 'net-p2p': 'trusted' };
+
+    registry = {
+      discoverNetworks: jest.fn(async () => ['net-a', 'net-b', 'net-c', 'net-d', 'net-e', 'net-source'].map(networkId => ({
+        networkId,
+        ipfsCid: `cid-${networkId}`,
+        averageRating: 4,
+      }))),
+      verifyManifest: jest.fn((manifest: any) => manifest.creatorSignature === 'forged'
+        ? { valid: false, errors: ['Creator signature verification failed'], warnings: [] }
+        : { valid: true, errors: [], warnings: [], manifest }),
+    };
+    p2p = {
+      discoverAnnouncedNetworks: jest.fn(async () => [
+        { networkId: 'net-p2p', manifestCid: 'cid-net-p2p', capabilities: ['image_generation'], timestamp: 1 },
+        // Claims a capability its manifest does not offer
+        { networkId: 'net-d', manifestCid: 'cid-net-d', capabilities: ['image_generation'], timestamp: 1 },
+      ]),
+    };
+
+    hooks = [];
+    taskService = {
+      submitTask: jest.fn(async (taskId: string) => ({ taskId, status: 'submitted' })),
+      getTaskState: jest.fn(async (taskId: string) => ({ taskId, status: 'consensus-reached', outputs: [], evaluations: [] })),
+      onTransition: jest.fn((hook: any) => {
+        hooks.push(hook);
+        return () => {
+          hooks = hooks.filter(h => h !== hook);
+        };
+      }),
+    };
+    const storage = { download: jest.fn(async (cid: string) => {
+      if (!manifests.has(cid)) {
+        throw new Error(`Content not found: ${cid}`);
+      }
+      return manifests.get(cid);
+    }) };
+
+    incCallService = new INCCallService(mockLogger, {
+      taskService,
+      repository: new InMemoryINCCallRepository(),
+      networkRepository: { findById: jest.fn(async (networkId: string) => ({ networkId, manifestCid: `cid-${networkId}` })) } as any,
+      storage,
+    }, { allowUnverifiedConsensus: true });
+    router = new INCRouterService(mockLogger, {
+      incCallService,
+      registry,
+      graduation: { getGraduationLevel: jest.fn(async (networkId: string) => levels[networkId] ?? null) },
+      p2p,
+      storage,
+      riskScorer: { getRiskScore: jest.fn(async (networkId: string) => riskScores[networkId] ?? 50) },
+    });
+  });
+
+  afterEach(async () => {
+    router.stop();
+    await incCallService.stop();
+  });
+
+  describe('findCandidates', () => {
+    it('should rank capable networks by graduation level, risk and price', async () => {
+      const candidates = await router.findCandidates('image_generation', 'net-source', '1000');
+
+      expect(candidates.map(c => c.networkId)).toEqual(['net-p2p', 'net-a', 'net-c', 'net-b']);
+      expect(candidates[0]).toMatchObject({ graduationLevel: 'trusted', riskScore: 5, price: '100', sources: ['p2p'] });
+      expect(candidates[1]).toMatchObject({ rating: 4, sources: ['registry'] });
+      expect(p2p.discoverAnnouncedNetworks).toHaveBeenCalledWith('image_generation');
+    });
+
+    it('should apply price, graduation, risk and settlement constraints', async () => {
+      await expect(router.findCandidates('image_generation', 'net-source', '1000', {
+        maxPrice: '150',
+        minGraduationLevel: 'trusted',
+        maxRiskScore: 20,
+      })).resolves.toHaveLength(2);
+
+      const receiptOnly = await router.findCandidates('image_generation', 'net-source', '1000', { settlementModes: ['receipt'] });
+      expect(receiptOnly.map(c => c.networkId)).toEqual(['net-c']);
+
+      const excluded = await router.findCandidates('image_generation', 'net-source', '150', { excludeNetworks: ['net-p2p'] });
+      expect(excluded.map(c => c.networkId)).toEqual(['net-a', 'net-b']);
+    });
+
+    it('should take the graduation level from the graduation record, not the manifest', async () => {
+      manifests.get('cid-net-b')!.graduation = { level: 'open_economic' } as any;
+      delete levels['net-p2p'];
+
+      const candidates = await router.findCandidates('image_generation', 'net-source', '1000');
+
+      expect(candidates.map(c => [c.networkId, c.graduationLevel])).toEqual([
+        ['net-a', 'trusted'],
+        ['net-c', 'trusted'],
+        ['net-b', 'active'],
+        ['net-p2p', 'sandbox'],
+      ]);
+    });
+
+    it('should skip candidates whose manifest fails verification', async () => {
+      manifests.get('cid-net-p2p')!.creatorSignature = 'forged';
+
+      const candidates = await router.findCandidates('image_generation', 'net-source', '1000');
+
+      expect(candidates.map(c => c.networkId)).toEqual(['net-a', 'net-c', 'net-b']);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Skipping INC candidate, manifest failed verification', expect.objectContaining({
+        networkId: 'net-p2p',
+        errors: ['Creator signature verification failed'],
+      }));
+    });
+
+    it('should keep going when a discovery source fails', async () => {
+      registry.discoverNetworks.mockRejectedValue(new Error('index offline'));
+
+      const candidates = await router.findCandidates('image_generation', 'net-source', '1000');
+
+      expect(candidates.map(c => c.networkId)).toEqual(['net-p2p']);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Registry discovery failed for INC routing', expect.anything());
+    });
+  });
+
+  describe('route', () => {
+    it('should dispatch to the best candidate', async () => {
+      const route = await router.route(request());
+
+      expect(route).toMatchObject({ status: 'dispatched', incId: 'inc-net-p2p', candidates: ['net-p2p', 'net-a', 'net-c', 'net-b'] });
+      expect(taskService.submitTask).toHaveBeenCalledTimes(1);
+      expect(router.getRoute(route.routeId)).toEqual(route);
+    });
+
+    it('should fail over when a candidate rejects the call', async () => {
+      taskService.submitTask.mockImplementationOnce(async () => {
+        throw new Error('Network paused');
+      });
+
+      const route = await router.route(request());
+
+      expect(route.status).toBe('dispatched');
+      expect(route.attempts).toEqual([
+        { networkId: 'net-p2p', incId: 'inc-net-p2p', status: 'failed', failureReason: 'network_rejected' },
+        { networkId: 'net-a', incId: 'inc-net-a', status: 'dispatched', failureReason: undefined },
+      ]);
+    });
+
+    it('should fail over when the dispatched call times out', async () => {
+      await incCallService.start();
+      router.start();
+      const { routeId } = await router.route(request());
+
+      await emit('inc-net-p2p', 'timed-out');
+      expect(router.getRoute(routeId)).toMatchObject({ status: 'dispatched', incId: 'inc-net-a' });
+
+      await emit('inc-net-a', 'consensus-reached');
+      const route = router.getRoute(routeId)!;
+      expect(route.status).toBe('completed');
+      expect(route.attempts.map(a => [a.networkId, a.status, a.failureReason])).toEqual([
+        ['net-p2p', 'failed', 'timeout'],
+        ['net-a', 'completed', undefined],
+      ]);
+    });
+
+    it('should stop on failures another network would not fix', async () => {
+      const route = await router.route(request({
+        prepareCall: async (destinationNetworkId) => ({
+          ...(await request().prepareCall(destinationNetworkId, manifests.get(`cid-${destinationNetworkId}`)!)),
+          maxBudget: '10',
+        }),
+      }));
+
+      expect(route.status).toBe('failed');
+      expect(route.attempts).toEqual([
+        { networkId: 'net-p2p', incId: 'inc-net-p2p', status: 'failed', failureReason: 'budget_exceeded' },
+      ]);
+    });
+
+    it('should give up after maxAttempts candidates', async () => {
+      taskService.submitTask.mockRejectedValue(new Error('Network paused'));
+
+      const route = await router.route(request());
+
+      expect(route.status).toBe('failed');
+      expect(route.attempts.map(a => a.networkId)).toEqual(['net-p2p', 'net-a', 'net-c']);
+    });
+
+    it('should throw when no network offers the capability', async () => {
+      await expect(router.route(request({ capability: 'video_generation' }))).rejects.toThrow(
+        'No network offers capability video_generation'
+      );
+    });
+  });
+});
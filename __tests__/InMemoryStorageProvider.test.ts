@@ -0,0 +1,59 @@
+/**
+ * InMemoryStorageProvider Tests
+ *
+ * Tests for CIDv1 computation and pin bookkeeping
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { InMemoryStorageProvider } from '../adapters/storage/InMemoryStorageProvider';
+import { encodeContent, parseCid, CID_CODEC_DAG_JSON, CID_CODEC_RAW } from '../adapters/storage/ContentIdentifier';
+
+describe('InMemoryStorageProvider', () => {
+  let storage: InMemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider();
+  });
+
+  it('should compute the same CIDv1 as IPFS for raw blocks', async () => {
+    // `ipfs add --cid-version 1 --raw-leaves` of an empty file
+    await expect(storage.upload('')).resolves.toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+  });
+
+  it('should encode objects as canonical dag-json', () => {
+    const a = encodeContent({ b: 1, a: { d: [1, 'x'], c: null }, skipped: undefined });
+    const b = encodeContent({ a: { c: null, d: [1, 'x'] }, b: 1 });
+
+    expect(a.bytes.toString()).toBe('{"a":{"c":null,"d":[1,"x"]},"b":1}');
+    expect(a.cid).toBe(b.cid);
+    expect(a.cid.startsWith('baguqeera')).toBe(true);
+    expect(parseCid(a.cid).codec).toBe(CID_CODEC_DAG_JSON);
+    expect(parseCid(encodeContent('text').cid).codec).toBe(CID_CODEC_RAW);
+  });
+
+  it('should round-trip content by CID', async () => {
+    const taskState = { taskId: 'task-1', outputs: [{ minerAddress: '0xabc', score: 0.9 }] };
+
+    const cid = await storage.upload(taskState);
+
+    await expect(storage.exists(cid)).resolves.toBe(true);
+    await expect(storage.download(cid)).resolves.toEqual(taskState);
+    await expect(storage.download(encodeContent('missing').cid)).rejects.toThrow('Content not found');
+  });
+
+  it('should pin on upload and only garbage collect unpinned content', async () => {
+    const kept = await storage.upload({ keep: true }, { name: 'manifest.json' });
+    const dropped = await storage.upload({ keep: false });
+
+    expect((await storage.listPins()).map(pin => pin.name)).toEqual(['manifest.json', undefined]);
+
+    await storage.unpin(dropped);
+    await expect(storage.isPinned(dropped)).resolves.toBe(false);
+    await expect(storage.exists(dropped)).resolves.toBe(true);
+
+    await expect(storage.garbageCollect()).resolves.toEqual([dropped]);
+    await expect(storage.exists(dropped)).resolves.toBe(false);
+    await expect(storage.exists(kept)).resolves.toBe(true);
+    await expect(storage.pin(dropped)).rejects.toThrow('Content not found');
+  });
+});
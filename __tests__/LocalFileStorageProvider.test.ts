@@ -0,0 +1,60 @@
+/**
+ * LocalFileStorageProvider Tests
+ *
+ * Tests for on-disk blocks, pins.json bookkeeping and corruption detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalFileStorageProvider } from '../adapters/storage/LocalFileStorageProvider';
+import { InMemoryStorageProvider } from '../adapters/storage/InMemoryStorageProvider';
+
+describe('LocalFileStorageProvider', () => {
+  let directory: string;
+  let storage: LocalFileStorageProvider;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tenseuron-storage-'));
+    storage = new LocalFileStorageProvider({ directory });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store blocks under the same CID as the in-memory provider', async () => {
+    const manifest = { networkId: 'net-1', name: 'Test Network' };
+
+    const cid = await storage.upload(manifest, { name: 'network-net-1.json' });
+
+    expect(cid).toBe(await new InMemoryStorageProvider().upload(manifest));
+    await expect(fs.readFile(path.join(directory, 'blocks', cid), 'utf8'))
+      .resolves.toBe('{"name":"Test Network","networkId":"net-1"}');
+    await expect(storage.download(cid)).resolves.toEqual(manifest);
+  });
+
+  it('should persist pins across instances', async () => {
+    const cid = await storage.upload({ taskId: 'task-1' });
+    await storage.pin(cid, 'task-1');
+
+    const reopened = new LocalFileStorageProvider({ directory });
+    expect(await reopened.listPins()).toEqual([
+      expect.objectContaining({ cid, name: 'task-1' }),
+    ]);
+
+    await reopened.unpin(cid);
+    await expect(storage.isPinned(cid)).resolves.toBe(false);
+    await expect(storage.garbageCollect()).resolves.toEqual([cid]);
+    await expect(storage.exists(cid)).resolves.toBe(false);
+  });
+
+  it('should reject blocks that were modified on disk', async () => {
+    const cid = await storage.upload({ score: 1 });
+    await fs.writeFile(path.join(directory, 'blocks', cid), '{"score":0}');
+
+    await expect(storage.download(cid)).rejects.toThrow('Content does not match CID');
+    await expect(storage.exists('../pins.json')).resolves.toBe(false);
+  });
+});
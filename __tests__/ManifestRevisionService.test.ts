@@ -0,0 +1,209 @@
+/**
+ * ManifestRevisionService Tests
+ *
+ * Tests for signed revisions, graduation-level change rules and latest/as-of resolution
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  ManifestRevisionService,
+  buildManifestRevisionMessage,
+  verifyManifestRevisionSignature,
+} from '../ManifestRevisionService';
+import { InMemoryStorageProvider } from '../adapters/storage/InMemoryStorageProvider';
+import { NetworkManifest, ManifestRevisionActivation } from '../types';
+
+const creator = new ethers.Wallet('0x' + '11'.repeat(32));
+const stranger = new ethers.Wallet('0x' + '22'.repeat(32));
+
+describe('ManifestRevisionService', () => {
+  let mockLogger: any;
+  let storage: InMemoryStorageProvider;
+  let service: ManifestRevisionService;
+  let original: NetworkManifest;
+  let originalCid: string;
+
+  const HOUR = 60 * 60 * 1000;
+  const signedAt = new Date('2026-01-01T00:00:00.000Z');
+  const at = (offsetMs: number): ManifestRevisionActivation => ({
+    type: 'time',
+    timestamp: new Date(signedAt.getTime() + offsetMs).toISOString(),
+  });
+
+  const sign = async (manifest: NetworkManifest, signer: ethers.Wallet = creator) => {
+    manifest.revision!.signature = await signer.signMessage(buildManifestRevisionMessage(manifest));
+    return manifest;
+  };
+
+  const revise = async (
+    current: NetworkManifest,
+    currentCid: string,
+    changes: Partial<NetworkManifest>,
+    effectiveFrom: ManifestRevisionActivation
+  ) => {
+    const next = await sign(service.createRevision(current, currentCid, changes, effectiveFrom, { signedAt }));
+    return { manifest: next, cid: await storage.upload(next) };
+  };
+
+  beforeEach(async () => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    storage = new InMemoryStorageProvider();
+    service = new ManifestRevisionService(mockLogger, { storage });
+    original = {
+      networkId: '0x' + 'ab'.repeat(20),
+      name: 'Summaries',
+      description: 'Summarise documents',
+      category: 'text',
+      version: '1.0.0',
+      creatorAddress: creator.address,
+      creatorSignature: '0xsig',
+      createdAt: '2025-12-01T00:00:00.000Z',
+      taskFormat: { inputSchema: { type: 'object' }, outputSchema: { type: 'object' }, timeout: 3600 },
+      scoringLogic: { type: 'js', hash: 'a'.repeat(64), url: 'ipfs://QmScoring' },
+      validatorConfig: { minValidators: 3, consensusThreshold: 0.66, disputeWindow: 3600, stakeRequired: '100' },
+      settlement: { mode: 'escrow', chain: 'polygon' },
+      networkRequirements: { requiresPayment: true, requiresStaking: true, requiresSlashing: false },
+      penaltyConfig: { mechanism: 'none' },
+      moneyFlow: {
+        creationFeeSplit: { creatorReward: 25, minerPool: 50, purposeBoundSinks: 20, burn: 5 },
+        usageCut: { enabled: true, percentage: 5, minCut: '0', maxCut: '10' },
+        validatorPayment: { enabled: true, percentage: 10, minPayment: '0', maxPayment: '10' },
+      },
+      registry: { ipfsCid: '' },
+    } as any;
+    originalCid = await storage.upload(original);
+  });
+
+  describe('createRevision and validateRevision', () => {
+    it('should build a signed revision that links to the previous manifest', async () => {
+      const validatorConfig = { ...original.validatorConfig, minValidators: 5 };
+      const { manifest } = await revise(original, originalCid, { validatorConfig, description: 'v2' }, at(HOUR));
+
+      expect(manifest.revision).toMatchObject({
+        number: 1,
+        previousCid: originalCid,
+        changedFields: ['description', 'validatorConfig'],
+        signedAt: signedAt.toISOString(),
+      });
+      expect(verifyManifestRevisionSignature(manifest)).toBe(true);
+      expect(service.validateRevision(original, manifest, originalCid)).toMatchObject({ valid: true, errors: [] });
+    });
+
+    it('should reject tampering, foreign signatures and stale links', async () => {
+      const { manifest } = await revise(original, originalCid, { description: 'v2' }, at(HOUR));
+
+      const tampered = { ...manifest, moneyFlow: { ...manifest.moneyFlow, usageCut: { ...manifest.moneyFlow.usageCut, percentage: 50 } } };
+      expect(service.validateRevision(original, tampered, originalCid).errors).toEqual([
+        'Declared changedFields do not match the changes (description, moneyFlow)',
+        'Revision signature does not match creatorAddress',
+      ]);
+
+      const foreign = await sign(service.createRevision(original, originalCid, { description: 'v2' }, at(HOUR), { signedAt }), stranger);
+      expect(service.validateRevision(original, foreign, originalCid).errors).toEqual([
+        'Revision signature does not match creatorAddress',
+      ]);
+
+      expect(service.validateRevision(original, manifest, 'bafyother').errors).toEqual([
+        `Revision must link to the current manifest bafyother (got ${originalCid})`,
+      ]);
+    });
+
+    it('should require protocol-managed fields to match the manifest the revision links to', async () => {
+      const graduated = { ...original, graduation: { level: 'active' as const, conditions: {} as any } };
+      const graduatedCid = await storage.upload(graduated);
+      const { manifest } = await revise(graduated, graduatedCid, { description: 'v2' }, at(HOUR));
+
+      const demoted = { ...manifest, graduation: { level: 'sandbox' as const, conditions: {} as any } };
+      expect(service.validateRevision(graduated, demoted, graduatedCid).errors).toEqual([
+        'Protocol-managed field graduation must match the current manifest',
+      ]);
+      expect(service.validateRevision(graduated, service.inheritManagedFields(graduated, demoted), graduatedCid))
+        .toMatchObject({ valid: true, errors: [] });
+
+      // The settlement binding is signed, so inheriting it cannot make a moved escrow valid
+      const moved = await sign({ ...manifest, settlement: { ...manifest.settlement, contractAddress: stranger.address } });
+      expect(verifyManifestRevisionSignature(moved)).toBe(true);
+      expect(service.validateRevision(graduated, moved, graduatedCid).errors).toEqual([
+        'Revision cannot change the settlement chain or contract',
+        'Protocol-managed field settlement must match the current manifest',
+      ]);
+      expect(verifyManifestRevisionSignature(service.inheritManagedFields(graduated, moved))).toBe(false);
+    });
+
+    it('should restrict revisable fields by graduation level', () => {
+      const trusted = { ...original, graduation: { level: 'trusted' as const, conditions: {} as any } };
+      const moneyFlow = { ...original.moneyFlow, usageCut: { ...original.moneyFlow.usageCut, percentage: 20 } };
+
+      expect(() => service.createRevision(trusted, originalCid, { moneyFlow }, at(HOUR), { signedAt })).toThrow(
+        'Invalid manifest revision: Field moneyFlow cannot be revised at graduation level trusted'
+      );
+      expect(() => service.createRevision(original, originalCid, { moneyFlow }, at(HOUR), { signedAt })).not.toThrow();
+      expect(() => service.createRevision(original, originalCid, { settlement: { mode: 'receipt', chain: 'base' } } as any, at(HOUR)))
+        .toThrow('Fields managed by the protocol cannot be revised: settlement');
+      expect(() => service.createRevision(original, originalCid, { description: 'v2' }, at(-HOUR), { signedAt })).toThrow(
+        'Revision cannot take effect before it was signed'
+      );
+    });
+  });
+
+  describe('resolution', () => {
+    it('should resolve latest and as-of views across time and block activations', async () => {
+      const first = await revise(original, originalCid, { description: 'v2' }, at(HOUR));
+      const second = await revise(first.manifest, first.cid, { description: 'v3' }, { type: 'block', blockNumber: 500 });
+
+      const history = await service.resolveHistory(second.cid);
+      expect(history.map(entry => entry.cid)).toEqual([originalCid, first.cid, second.cid]);
+
+      const before = await service.resolveAsOf(second.cid, { timestamp: signedAt.getTime() });
+      expect(before).toMatchObject({ cid: originalCid, revision: 0 });
+
+      const afterFirst = await service.resolveAsOf(second.cid, { timestamp: signedAt.getTime() + HOUR, blockNumber: 499 });
+      expect(afterFirst.manifest.description).toBe('v2');
+
+      const afterSecond = await service.resolveAsOf(second.cid, { timestamp: signedAt.getTime() + HOUR, blockNumber: 500 });
+      expect(afterSecond).toMatchObject({ cid: second.cid, headCid: second.cid, revision: 2 });
+
+      const withChain = new ManifestRevisionService(mockLogger, { storage, getBlockNumber: async () => 10 });
+      expect((await withChain.resolveLatest(second.cid)).manifest.description).toBe('v2');
+      expect((await withChain.resolveLatest(second.cid, 1000)).manifest.description).toBe('v3');
+    });
+
+    it('should keep chains valid across protocol-managed re-uploads and overlay them on the latest view', async () => {
+      const pending = await revise(original, originalCid, { description: 'v2' }, { type: 'block', blockNumber: 500 });
+      const graduated = { ...pending.manifest, graduation: { level: 'active' as const, conditions: {} as any } };
+      const headCid = await storage.upload(graduated);
+
+      const latest = await service.resolveLatest(headCid, 100);
+      expect(latest).toMatchObject({ cid: originalCid, headCid, revision: 0 });
+      expect(latest.manifest.description).toBe('Summarise documents');
+      expect(latest.manifest.graduation?.level).toBe('active');
+    });
+
+    it('should refuse chains that move the settlement contract', async () => {
+      const first = await revise(original, originalCid, { description: 'v2' }, at(HOUR));
+      const moved = await sign({ ...first.manifest, settlement: { ...first.manifest.settlement, contractAddress: stranger.address } });
+      const movedCid = await storage.upload(moved);
+
+      await expect(service.resolveLatest(movedCid)).rejects.toThrow(
+        `Invalid manifest revision 1 (${movedCid}): Revision cannot change the settlement chain or contract`
+      );
+    });
+
+    it('should refuse chains with a forged link', async () => {
+      const first = await revise(original, originalCid, { description: 'v2' }, at(HOUR));
+      const forged = { ...first.manifest, penaltyConfig: { mechanism: 'slashing' } } as any;
+      forged.revision = { ...first.manifest.revision, changedFields: ['description', 'penaltyConfig'] };
+      const forgedCid = await storage.upload(forged);
+
+      await expect(service.resolveLatest(forgedCid)).rejects.toThrow(
+        `Invalid manifest revision 1 (${forgedCid}): Revision signature does not match creatorAddress`
+      );
+    });
+  });
+});
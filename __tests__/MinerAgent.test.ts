@@ -0,0 +1,250 @@
+/**
+ * MinerAgent Tests
+ *
+ * Tests for the claim/execute/submit loop, schema validation, claim leases and replay bundles
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+jest.mock('../ModelExecutionEngine', () => ({ ModelExecutionEngine: jest.fn() }));
+
+import { MinerAgent, MinerExecutor } from '../MinerAgent';
+import { TaskClaimService } from '../TaskClaimService';
+import { InMemoryTaskClaimRepository } from '../adapters/database/InMemoryTaskClaimRepository';
+import { DeterministicReplayService } from '../DeterministicReplayService';
+import { TaskAnnouncement } from '../P2PCoordinationService';
+import { TaskState } from '../TaskService';
+import { TaskOutput } from '../EvaluationService';
+
+async function until(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('MinerAgent', () => {
+  let mockLogger: any;
+  let tasks: any;
+  let states: Map<string, TaskState>;
+  let claims: TaskClaimService;
+  let taskService: any;
+  let storage: any;
+  let manifest: any;
+  let agents: MinerAgent[];
+
+  const executionEnv = {
+    os: 'linux',
+    runtime: 'Node.js 20',
+    modelBinary: 'sha256:model',
+    inferenceLibrary: 'onnx-cpu',
+    inferenceLibraryVersion: '1.0.0',
+  };
+
+  const state = (taskId: string, input: any): TaskState => ({
+    taskId,
+    networkId: 'net-1',
+    status: 'submitted',
+    submission: { taskId, networkId: 'net-1', input, depositorAddress: '0xuser', depositAmount: '100', timestamp: 0 },
+    outputs: [],
+    evaluations: [],
+    consensusReached: false,
+    paymentReleased: false,
+    createdAt: 0,
+    updatedAt: 0,
+  });
+
+  const announce = (taskId: string): TaskAnnouncement => ({
+    taskId,
+    networkId: 'net-1',
+    taskType: 'text',
+    requiredValidators: 3,
+    deadline: Date.now() + 60 * 1000,
+    reward: '100',
+    manifestCid: 'QmManifest',
+  });
+
+  const createAgent = (minerAddress: string, executor: MinerExecutor, options: any = {}) => {
+    const agent = new MinerAgent(
+      mockLogger,
+      {
+        tasks,
+        taskService,
+        storage,
+        executor,
+        minerAddress,
+        replayService: new DeterministicReplayService(mockLogger),
+      },
+      { networkIds: ['net-1'], retryDelayMs: 1, ...options }
+    );
+    agents.push(agent);
+    return agent;
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    tasks = {
+      subscribeToTasks: jest.fn(async () => undefined),
+      unsubscribeFromTasks: jest.fn(async () => undefined),
+    };
+    states = new Map();
+    claims = new TaskClaimService(mockLogger, new InMemoryTaskClaimRepository());
+    taskService = {
+      getTaskState: jest.fn(async (taskId: string) => states.get(taskId) || null),
+      claimTask: jest.fn(async (taskId: string, minerAddress: string, taskManifest: any, leaseMs?: number) =>
+        claims.claim(taskId, minerAddress, TaskClaimService.isExclusive(taskManifest), leaseMs)
+      ),
+      renewClaim: jest.fn((taskId: string, minerAddress: string, leaseMs?: number) =>
+        claims.renew(taskId, minerAddress, leaseMs)
+      ),
+      releaseClaim: jest.fn((taskId: string, minerAddress: string) => claims.release(taskId, minerAddress)),
+      addMinerOutput: jest.fn(
+        async (taskId: string, output: any, minerAddress: string, taskManifest: any, metadata: any) => {
+          const taskOutput: TaskOutput = { outputId: `out-${minerAddress}`, output, minerAddress, timestamp: 0, metadata };
+          states.get(taskId)!.outputs.push(taskOutput);
+          await claims.release(taskId, minerAddress);
+          return taskOutput;
+        }
+      ),
+    };
+    manifest = {
+      networkId: 'net-1',
+      taskFormat: {
+        inputSchema: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+        outputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        timeout: 3600,
+      },
+    };
+    storage = { download: jest.fn(async () => manifest) };
+    agents = [];
+  });
+
+  afterEach(async () => {
+    for (const agent of agents) {
+      await agent.stop();
+    }
+  });
+
+  it('should claim, execute and submit a schema-valid output', async () => {
+    states.set('task-1', state('task-1', { prompt: 'hello' }));
+    const executor = { execute: jest.fn(async (input: any) => ({ output: { text: `${input.prompt} world` } })) };
+    const agent = createAgent('0xminerA', executor);
+    await agent.start();
+
+    agent.enqueue(announce('task-1'));
+    await until(() => agent.getStats().submitted === 1);
+
+    expect(executor.execute).toHaveBeenCalledWith(
+      { prompt: 'hello' },
+      expect.objectContaining({ taskId: 'task-1', networkId: 'net-1', seed: undefined })
+    );
+    expect(taskService.addMinerOutput).toHaveBeenCalledWith(
+      'task-1', { text: 'hello world' }, '0xminerA', manifest, undefined
+    );
+    expect(await claims.getAssignedMiners('task-1')).toEqual([]);
+  });
+
+  it('should not let two miners work a single-output task at once', async () => {
+    states.set('task-1', state('task-1', { prompt: 'hello' }));
+    let finish: () => void = () => undefined;
+    const slow = {
+      execute: jest.fn(async () => {
+        await new Promise<void>(resolve => { finish = resolve; });
+        return { output: { text: 'first' } };
+      }),
+    };
+    const fast = { execute: jest.fn(async () => ({ output: { text: 'second' } })) };
+    const minerA = createAgent('0xminerA', slow);
+    const minerB = createAgent('0xminerB', fast);
+    await minerA.start();
+    await minerB.start();
+
+    minerA.enqueue(announce('task-1'));
+    await until(() => slow.execute.mock.calls.length === 1);
+    minerB.enqueue(announce('task-1'));
+    await until(() => minerB.getStats().skipped === 1);
+
+    expect(await claims.getActiveClaims('task-1')).toEqual([
+      expect.objectContaining({ minerAddress: '0xminerA', exclusive: true }),
+    ]);
+
+    finish();
+    await until(() => minerA.getStats().submitted === 1);
+    expect(fast.execute).not.toHaveBeenCalled();
+    expect(states.get('task-1')!.outputs.map(o => o.minerAddress)).toEqual(['0xminerA']);
+  });
+
+  it('should skip invalid inputs and release the claim when the output is invalid', async () => {
+    states.set('bad-input', state('bad-input', { prompt: 42 }));
+    states.set('bad-output', state('bad-output', { prompt: 'hello' }));
+    const executor = { execute: jest.fn(async () => ({ output: { text: 7 } })) };
+    const agent = createAgent('0xminerA', executor, { maxAttempts: 2 });
+    await agent.start();
+
+    agent.enqueue(announce('bad-input'));
+    agent.enqueue(announce('bad-output'));
+    await until(() => agent.getStats().skipped === 1 && agent.getStats().failed === 1);
+
+    expect(executor.execute).toHaveBeenCalledTimes(2);
+    expect(executor.execute).not.toHaveBeenCalledWith({ prompt: 42 }, expect.anything());
+    expect(taskService.addMinerOutput).not.toHaveBeenCalled();
+    expect(taskService.releaseClaim).toHaveBeenCalledWith('bad-output', '0xminerA');
+    expect(await claims.getActiveClaims('bad-output')).toEqual([]);
+  });
+
+  it('should attach a replay bundle when deterministic replay is required', async () => {
+    manifest.deterministicReplay = { required: true, seedRequired: true, intermediateHashing: true, executionEnvRequired: true };
+    states.set('task-1', state('task-1', { prompt: 'hello' }));
+    const steps = [{ stepIndex: 0, stepHash: 'a'.repeat(64), stepType: 'forward_pass' }];
+    const executor = {
+      execute: jest.fn(async (input: any, context: any) => ({
+        output: { text: `seeded ${context.seed.length}` },
+        replay: {
+          modelId: 'tiny-mlp',
+          modelVersionHash: 'bafymodel',
+          inferenceParameters: { maxTokens: 16 },
+          executionEnv,
+          steps,
+        },
+      })),
+    };
+    const agent = createAgent('0xminerA', executor);
+    await agent.start();
+
+    agent.enqueue(announce('task-1'));
+    await until(() => agent.getStats().submitted === 1);
+
+    const replayService = new DeterministicReplayService(mockLogger);
+    const metadata = states.get('task-1')!.outputs[0].metadata!;
+    expect(metadata.seed).toMatch(/^[0-9a-f]{64}$/);
+    expect(metadata.replayBundle).toEqual(
+      replayService.createReplayBundle({ prompt: 'hello' }, 'tiny-mlp', 'bafymodel', { maxTokens: 16 }, metadata.seed!, executionEnv)
+    );
+    expect(metadata.replayBundle!.inferenceParameters.temperature).toBe(0);
+    expect(metadata.stepTraceHash).toEqual(replayService.createStepTraceHash(steps));
+    expect(metadata.executionEnv).toEqual(executionEnv);
+  });
+
+  it('should fail when a replay-required network gets no replay information', async () => {
+    manifest.deterministicReplay = { required: true, seedRequired: true, intermediateHashing: false, executionEnvRequired: true };
+    states.set('task-1', state('task-1', { prompt: 'hello' }));
+    const agent = createAgent('0xminerA', { execute: async () => ({ output: { text: 'no bundle' } }) }, { maxAttempts: 1 });
+    await agent.start();
+
+    agent.enqueue(announce('task-1'));
+    await until(() => agent.getStats().failed === 1);
+
+    expect(taskService.addMinerOutput).not.toHaveBeenCalled();
+    expect(mockLogger.error).toHaveBeenCalledWith('Giving up on task', expect.objectContaining({
+      error: 'Network net-1 requires deterministic replay but the executor returned no replay information',
+    }));
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * ONNX CPU Backend Tests
+ *
+ * Tests for running the bundled tiny ONNX models (encoded with protoc from the
+ * .textproto files in fixtures/onnx) and tracing per-node activations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { OnnxCpuBackend } from '../OnnxCpuBackend';
+import { createTensor } from '../OnnxModelParser';
+
+function loadFixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, 'fixtures', 'onnx', `${name}.onnx`)));
+}
+
+describe('OnnxCpuBackend', () => {
+  describe('load', () => {
+    it('should parse graph, initializers and declared inputs', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('mlp'));
+
+      expect(backend.model.opsetVersion).toBe(13);
+      expect(backend.model.graph.nodes.map(node => node.opType)).toEqual(['Gemm', 'Relu', 'Gemm', 'Softmax']);
+      expect(backend.model.graph.inputs[0]).toEqual({ name: 'x', elemType: 'float32', dims: [null, 3] });
+      expect(backend.inputNames).toEqual(['x']);
+      expect(backend.outputNames).toEqual(['probs']);
+
+      // W2 is stored as raw_data
+      const w2 = backend.model.graph.initializers.get('W2');
+      expect(w2?.dims).toEqual([4, 2]);
+      expect(Array.from(w2!.data)).toEqual([1, 0, 0, 1, 0.5, -0.5, -1, 1]);
+    });
+
+    it('should accept base64 content from storage providers', () => {
+      const base64 = Buffer.from(loadFixture('embedding')).toString('base64');
+      expect(OnnxCpuBackend.load(base64).inputNames).toEqual(['ids']);
+    });
+
+    it('should reject models with unsupported operators', () => {
+      expect(() => OnnxCpuBackend.load(loadFixture('unsupported'))).toThrow('Unsupported ONNX operator: TopK');
+    });
+
+    it('should reject truncated models', () => {
+      expect(() => OnnxCpuBackend.load(loadFixture('mlp').subarray(0, 40))).toThrow('Invalid ONNX model');
+    });
+  });
+
+  describe('run', () => {
+    it('should run an MLP', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('mlp'));
+      const { outputs } = backend.run(backend.createFeeds([[1, 2, 3]]));
+
+      // logits are [-0.75, 0.75]
+      const expected = 1 / (1 + Math.exp(1.5));
+      expect(outputs.probs.dims).toEqual([1, 2]);
+      expect(outputs.probs.data[0]).toBeCloseTo(expected, 6);
+      expect(outputs.probs.data[1]).toBeCloseTo(1 - expected, 6);
+    });
+
+    it('should run embedding lookups with int64 inputs', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('embedding'));
+      const { outputs } = backend.run(backend.createFeeds({ ids: { dims: [1, 2], data: [2, 0] } }));
+
+      // rows [4, 5] and [0, 1], summed and offset by -10
+      expect(outputs.score.type).toBe('float32');
+      expect(outputs.score.dims).toEqual([1, 1]);
+      expect(Array.from(outputs.score.data)).toEqual([0]);
+    });
+
+    it('should trace every node with activation hashes', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('mlp'));
+      const { trace } = backend.run(backend.createFeeds([[1, 2, 3]]));
+
+      expect(trace.map(node => node.name)).toEqual(['fc1', 'relu', 'fc2', 'softmax']);
+      expect(trace[1].outputs).toEqual([{
+        name: 'r',
+        type: 'float32',
+        dims: [1, 4],
+        hash: OnnxCpuBackend.hashTensor(createTensor('float32', [1, 4], [0, 0, 2, 2])),
+      }]);
+    });
+
+    it('should produce identical traces across runs and diverge when an input changes', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('mlp'));
+      const first = backend.run(backend.createFeeds([[1, 2, 3]]));
+      const second = OnnxCpuBackend.load(loadFixture('mlp')).run(backend.createFeeds([[1, 2, 3]]));
+      const changed = backend.run(backend.createFeeds([[1, 2, 3.5]]));
+
+      expect(second.trace).toEqual(first.trace);
+      expect(changed.trace[0].outputs[0].hash).not.toBe(first.trace[0].outputs[0].hash);
+    });
+
+    it('should make random operators depend only on the seed', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('noise'));
+      const feeds = backend.createFeeds([[1, 2], [3, 4]]);
+
+      const first = backend.run(feeds, { seed: 42 });
+      const repeated = backend.run(feeds, { seed: 42 });
+      const reseeded = backend.run(feeds, { seed: 43 });
+
+      expect(Array.from(repeated.outputs.y.data)).toEqual(Array.from(first.outputs.y.data));
+      expect(Array.from(reseeded.outputs.y.data)).not.toEqual(Array.from(first.outputs.y.data));
+      expect(first.trace[0].opType).toBe('RandomNormalLike');
+    });
+  });
+
+  describe('createFeeds', () => {
+    it('should reject inputs that do not match the declared shape', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('mlp'));
+      expect(() => backend.createFeeds([[1, 2]])).toThrow('model expects [?, 3]');
+    });
+
+    it('should reject missing inputs', () => {
+      const backend = OnnxCpuBackend.load(loadFixture('embedding'));
+      expect(() => backend.createFeeds({})).toThrow('Missing ONNX input: ids');
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * P2PCoordinationService Tests
+ *
+ * Tests for validator, task and network gossip and direct messaging across nodes on the loopback transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { P2PCoordinationService, TaskAnnouncement, ValidatorAnnouncement } from '../P2PCoordinationService';
+import { LoopbackNetwork, LoopbackTransport } from '../adapters/p2p/LoopbackTransport';
+
+describe('P2PCoordinationService', () => {
+  let network: LoopbackNetwork;
+  let mockLogger: any;
+  let transports: Record<string, LoopbackTransport>;
+  let nodes: Record<string, P2PCoordinationService>;
+  let taskData: Record<string, any>;
+
+  const validator = (validatorAddress: string, supportedNetworks: string[] = ['net-1']): ValidatorAnnouncement => ({
+    validatorAddress,
+    supportedNetworks,
+    capabilities: ['evaluation'],
+    publicKey: `pk-${validatorAddress}`,
+    timestamp: Date.now(),
+  });
+
+  const task: TaskAnnouncement = {
+    taskId: 'task-1',
+    networkId: 'net-1',
+    taskType: 'text',
+    requiredValidators: 2,
+    deadline: Date.now() + 60000,
+    reward: '100',
+    manifestCid: 'cid-net-1',
+  };
+
+  const createNode = async (peerId: string): Promise<P2PCoordinationService> => {
+    transports[peerId] = new LoopbackTransport(mockLogger, network, peerId);
+    nodes[peerId] = new P2PCoordinationService(
+      mockLogger,
+      transports[peerId],
+      { discoveryTimeout: 1000, messageTimeout: 1000 },
+      async (taskId) => taskData[`${peerId}:${taskId}`] || null,
+      async (networkId) => (peerId === 'node-a' ? { networkId, name: 'Network One' } : null)
+    );
+    await nodes[peerId].initialize();
+    return nodes[peerId];
+  };
+
+  const connect = (peerId: string, remotePeerId: string) =>
+    transports[peerId].connect(remotePeerId, `loopback://${remotePeerId}`);
+
+  beforeEach(async () => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    network = new LoopbackNetwork();
+    transports = {};
+    nodes = {};
+    taskData = {};
+
+    // node-a <-> node-b <-> node-c, plus node-a <-> node-c
+    for (const peerId of ['node-a', 'node-b', 'node-c']) {
+      await createNode(peerId);
+    }
+    await connect('node-a', 'node-b');
+    await connect('node-b', 'node-c');
+    await connect('node-a', 'node-c');
+  });
+
+  afterEach(async () => {
+    for (const node of Object.values(nodes)) {
+      await node.stop();
+    }
+  });
+
+  describe('gossip', () => {
+    it('should deliver validator announcements to subscribers on connected peers', async () => {
+      const received: ValidatorAnnouncement[] = [];
+      await nodes['node-b'].subscribeToValidators('net-1', announcement => received.push(announcement));
+
+      await nodes['node-a'].announceValidator(validator('0xaaa'));
+      await network.flush();
+
+      expect(received).toEqual([expect.objectContaining({ validatorAddress: '0xaaa', peerId: 'node-a' })]);
+      await expect(nodes['node-c'].discoverValidators('net-1')).resolves.toEqual([
+        expect.objectContaining({ validatorAddress: '0xaaa' }),
+      ]);
+      await expect(nodes['node-c'].discoverValidators('net-2')).resolves.toEqual([]);
+    });
+
+    it('should deliver task announcements only to subscribers of the network', async () => {
+      const netOne = jest.fn();
+      const netTwo = jest.fn();
+      await nodes['node-b'].subscribeToTasks('net-1', netOne);
+      await nodes['node-c'].subscribeToTasks('net-2', netTwo);
+
+      await nodes['node-a'].announceTask(task);
+      await network.flush();
+
+      expect(netOne).toHaveBeenCalledWith(task);
+      expect(netTwo).not.toHaveBeenCalled();
+
+      await nodes['node-b'].unsubscribeFromTasks('net-1');
+      await nodes['node-a'].announceTask({ ...task, taskId: 'task-2' });
+      await network.flush();
+      expect(netOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let late joiners discover validators and networks from their peers', async () => {
+      await nodes['node-a'].announceValidator(validator('0xaaa'));
+      await nodes['node-a'].announceNetwork('net-1', 'cid-net-1', ['image_generation']);
+      await nodes['node-b'].announceNetwork('net-2', 'cid-net-2', ['text_processing']);
+      await network.flush();
+
+      const late = await createNode('node-d');
+      await connect('node-d', 'node-c');
+
+      await expect(late.discoverAnnouncedNetworks()).resolves.toEqual([]);
+      await expect(late.discoverNetworks()).resolves.toEqual(['net-1', 'net-2']);
+      await expect(late.discoverAnnouncedNetworks('image_generation')).resolves.toEqual([
+        expect.objectContaining({ networkId: 'net-1', manifestCid: 'cid-net-1', peerId: 'node-a' }),
+      ]);
+      await expect(late.discoverValidators('net-1')).resolves.toEqual([
+        expect.objectContaining({ validatorAddress: '0xaaa', peerId: 'node-a' }),
+      ]);
+    });
+  });
+
+  describe('direct messages', () => {
+    it('should answer requests with the peer response', async () => {
+      taskData['node-b:task-1'] = { input: 'hello' };
+
+      await expect(nodes['node-a'].sendDirectMessage('node-b', 'task-request', { taskId: 'task-1' }, 'net-1')).resolves.toEqual({
+        taskId: 'task-1',
+        taskData: { input: 'hello' },
+        found: true,
+      });
+      await expect(nodes['node-b'].getNetworkManifestFromPeer('net-1', 'node-a')).resolves.toEqual({
+        networkId: 'net-1',
+        name: 'Network One',
+      });
+      await expect(nodes['node-a'].getNetworkManifestFromPeer('net-1', 'node-b')).rejects.toThrow(
+        'Network manifest not found in P2P network'
+      );
+    });
+
+    it('should reject requests the transport cannot deliver', async () => {
+      await transports['node-a'].disconnect('node-c');
+
+      await expect(nodes['node-a'].sendDirectMessage('node-c', 'task-request', { taskId: 'task-1' }, 'net-1')).rejects.toThrow(
+        'Not connected to peer node-c'
+      );
+    });
+  });
+
+  describe('propagateTask', () => {
+    beforeEach(async () => {
+      await nodes['node-b'].announceValidator(validator('0xbbb'));
+      await nodes['node-c'].announceValidator(validator('0xccc'));
+      await network.flush();
+    });
+
+    it('should send the task to every known validator directly', async () => {
+      await expect(nodes['node-a'].propagateTask('task-1', 'net-1', { input: 'hello' })).resolves.toEqual({
+        propagated: 2,
+        failed: 0,
+        relayed: 0,
+      });
+
+      // Loop prevention
+      await expect(nodes['node-a'].propagateTask('task-1', 'net-1', { input: 'hello' })).resolves.toEqual({
+        propagated: 0,
+        failed: 0,
+        relayed: 0,
+      });
+    });
+
+    it('should relay through a connected peer when a validator is not directly reachable', async () => {
+      await transports['node-a'].disconnect('node-c');
+      taskData['node-c:task-1'] = { input: 'hello' };
+
+      await expect(nodes['node-a'].propagateTask('task-1', 'net-1', { input: 'hello' }, ['0xccc'])).resolves.toEqual({
+        propagated: 0,
+        failed: 0,
+        relayed: 1,
+      });
+    });
+
+    it('should skip our own validator and count unreachable validators as failed', async () => {
+      await nodes['node-a'].announceValidator(validator('0xaaa'));
+      await transports['node-c'].shutdown();
+
+      await expect(nodes['node-a'].propagateTask('task-1', 'net-1', { input: 'hello' })).resolves.toEqual({
+        propagated: 1,
+        failed: 1,
+        relayed: 0,
+      });
+    });
+  });
+
+  describe('coordination', () => {
+    it('should broadcast coordination messages to task subscribers', async () => {
+      const callback = jest.fn();
+      await nodes['node-b'].subscribeToCoordination('task-1', 'net-1', callback);
+
+      await nodes['node-a'].coordinateValidators('task-1', 'net-1', 'election', { leader: '0xaaa' }, '0xaaa');
+      await nodes['node-a'].coordinateValidators('task-1', 'net-1', 'consensus-proposal', { score: 0.9 }, '0xaaa');
+      await network.flush();
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(nodes['node-b'].getActiveCoordination('task-1')).toMatchObject({ type: 'election', data: { leader: '0xaaa' } });
+      expect(nodes['node-c'].getActiveCoordination('task-1-proposal')).toEqual([
+        expect.objectContaining({ from: 'node-a', proposal: { score: 0.9 } }),
+      ]);
+
+      nodes['node-b'].clearCoordination('task-1');
+      expect(nodes['node-b'].getActiveCoordination('task-1')).toBeNull();
+    });
+  });
+
+  describe('degraded mode', () => {
+    it('should fall back when the transport fails to initialize', async () => {
+      const transport = new LoopbackTransport(mockLogger, network, 'node-a'); // Peer ID already taken
+      const degraded = new P2PCoordinationService(mockLogger, transport);
+      await degraded.initialize();
+
+      await expect(degraded.announceTask(task)).resolves.toBeUndefined();
+      expect(degraded.getPeerId()).toBeNull();
+      await expect(degraded.getConnectedPeers()).resolves.toEqual([]);
+      await expect(degraded.discoverValidators('net-1')).rejects.toThrow('P2P node not initialized');
+      await expect(degraded.start()).rejects.toThrow('Failed to initialize P2P transport');
+    });
+
+    it('should stop and restart on the same transport', async () => {
+      await nodes['node-c'].stop();
+      expect(nodes['node-c'].getPeerId()).toBeNull();
+      await expect(nodes['node-a'].getConnectedPeers()).resolves.toEqual(['node-b']);
+
+      await nodes['node-c'].start();
+      await connect('node-c', 'node-a');
+      const received = jest.fn();
+      await nodes['node-c'].subscribeToTasks('net-1', received);
+      await nodes['node-a'].announceTask(task);
+      await network.flush();
+
+      expect(received).toHaveBeenCalledTimes(1);
+    });
+  });
+});
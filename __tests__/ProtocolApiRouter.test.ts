@@ -0,0 +1,284 @@
+/**
+ * ProtocolApiRouter Tests
+ *
+ * Tests for routing, request validation, signed mutations, error codes and the OpenAPI document
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { ProtocolApiRouter, buildRequestSigningMessage, SIGNATURE_HEADERS } from '../ProtocolApiRouter';
+import { buildEvaluationMessage } from '../SignatureVerificationService';
+import { IllegalTaskTransitionError } from '../TaskStateMachine';
+
+const NETWORK_ID = '0x' + 'ab'.repeat(20);
+const depositor = new ethers.Wallet('0x' + '11'.repeat(32));
+const validator = new ethers.Wallet('0x' + '22'.repeat(32));
+const miner = new ethers.Wallet('0x' + '33'.repeat(32));
+
+describe('ProtocolApiRouter', () => {
+  let mockLogger: any;
+  let protocolService: any;
+  let taskService: any;
+  let router: ProtocolApiRouter;
+
+  const manifest = {
+    networkId: NETWORK_ID,
+    taskFormat: {
+      inputSchema: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+      outputSchema: { type: 'object' },
+      timeout: 3600,
+    },
+  };
+
+  const taskState = {
+    taskId: 'task-1',
+    networkId: NETWORK_ID,
+    status: 'mining',
+    submission: { taskId: 'task-1', networkId: NETWORK_ID, input: {}, depositorAddress: depositor.address, depositAmount: '10', timestamp: 0 },
+    outputs: [],
+    evaluations: [],
+  };
+
+  const get = (path: string) => router.handle(new Request(`http://localhost${path}`));
+
+  const signedPost = async (
+    path: string,
+    body: any,
+    signer: ethers.Wallet = depositor,
+    timestamp: number = Date.now()
+  ): Promise<Request> => {
+    const raw = JSON.stringify(body);
+    const signature = await signer.signMessage(buildRequestSigningMessage('POST', path, timestamp, raw));
+    return new Request(`http://localhost${path}`, {
+      method: 'POST',
+      body: raw,
+      headers: {
+        'content-type': 'application/json',
+        [SIGNATURE_HEADERS.address]: signer.address,
+        [SIGNATURE_HEADERS.timestamp]: String(timestamp),
+        [SIGNATURE_HEADERS.signature]: signature,
+      },
+    });
+  };
+
+  const submission = (overrides: any = {}) => ({
+    taskId: 'task-1',
+    input: { prompt: 'hello' },
+    depositorAddress: depositor.address,
+    depositAmount: '10',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    protocolService = {
+      listNetworks: jest.fn(async () => [NETWORK_ID]),
+      getNetworkManifest: jest.fn(async (id: string) => (id === NETWORK_ID ? manifest : null)),
+      getDeploymentStatus: jest.fn(async () => null),
+      createNetwork: jest.fn(),
+    };
+    taskService = {
+      getTaskState: jest.fn(async (taskId: string) => (taskId === 'task-1' ? taskState : null)),
+      submitTask: jest.fn(async (taskId: string) => ({ taskId, status: 'submitted' })),
+      addMinerOutput: jest.fn(),
+      addValidatorEvaluation: jest.fn(async (taskId: string, validatorAddress: string, outputId: string) => ({
+        validatorAddress,
+        outputId,
+      })),
+      addHumanSelection: jest.fn(),
+      userRejectAndRedo: jest.fn(),
+      claimTask: jest.fn(async (taskId: string, minerAddress: string) => ({ taskId, minerAddress, exclusive: true, claimedAt: 0, expiresAt: 1000 })),
+      renewClaim: jest.fn(async () => {
+        throw new Error(`No live claim on task task-1 for miner ${miner.address}`);
+      }),
+      releaseClaim: jest.fn(async () => undefined),
+    };
+    router = new ProtocolApiRouter(mockLogger, { protocolService, taskService }, { basePath: '/v1' });
+  });
+
+  describe('queries', () => {
+    it('should list networks with parsed filters', async () => {
+      const response = await get('/v1/networks?status=active&limit=10');
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ networkIds: [NETWORK_ID] });
+      expect(protocolService.listNetworks).toHaveBeenCalledWith({
+        status: 'active',
+        category: undefined,
+        limit: 10,
+        offset: undefined,
+      });
+    });
+
+    it('should return consistent error bodies', async () => {
+      const notFound = await get(`/v1/networks/${NETWORK_ID}/status`);
+      expect(notFound.status).toBe(404);
+      expect(await notFound.json()).toEqual({ error: { code: 'NOT_FOUND', message: `Network not found: ${NETWORK_ID}` } });
+
+      const badLimit = await get('/v1/networks?limit=0');
+      expect(badLimit.status).toBe(400);
+      expect((await badLimit.json()).error.code).toBe('VALIDATION_FAILED');
+
+      const badEncoding = await get('/v1/networks/%E0%A4%A/status');
+      expect(badEncoding.status).toBe(400);
+      expect(await badEncoding.json()).toEqual({
+        error: { code: 'VALIDATION_FAILED', message: 'Path parameter networkId is not valid percent-encoding' },
+      });
+
+      const wrongMethod = await router.handle(new Request('http://localhost/v1/tasks/task-1', { method: 'POST', body: '{}' }));
+      expect(wrongMethod.status).toBe(405);
+
+      expect((await get('/networks')).status).toBe(404); // Outside the base path
+    });
+  });
+
+  describe('signed mutations', () => {
+    const path = `/v1/networks/${NETWORK_ID}/tasks`;
+
+    it('should submit tasks signed by the depositor', async () => {
+      const response = await router.handle(await signedPost(path, submission()));
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ taskId: 'task-1', status: 'submitted' });
+      expect(taskService.submitTask).toHaveBeenCalledWith(
+        'task-1', NETWORK_ID, { prompt: 'hello' }, depositor.address, '10', manifest
+      );
+    });
+
+    it('should reject unsigned, foreign-signed, stale and replayed requests', async () => {
+      const unsigned = await router.handle(new Request(`http://localhost${path}`, {
+        method: 'POST',
+        body: JSON.stringify(submission()),
+      }));
+      expect(unsigned.status).toBe(401);
+
+      const foreign = await router.handle(await signedPost(path, submission(), validator));
+      expect(foreign.status).toBe(403);
+      expect((await foreign.json()).error.message).toBe('Request must be signed by depositorAddress');
+
+      const stale = await router.handle(await signedPost(path, submission(), depositor, Date.now() - 10 * 60 * 1000));
+      expect(stale.status).toBe(401);
+
+      const request = await signedPost(path, submission());
+      expect((await router.handle(request.clone())).status).toBe(201);
+      const replayed = await router.handle(request);
+      expect(replayed.status).toBe(401);
+      expect((await replayed.json()).error.message).toBe('Request signature has already been used');
+    });
+
+    it('should reject tampered bodies', async () => {
+      const request = await signedPost(path, submission());
+      const tampered = new Request(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(submission({ depositAmount: '99999' })),
+      });
+
+      expect((await router.handle(tampered)).status).toBe(401);
+      expect(taskService.submitTask).not.toHaveBeenCalled();
+    });
+
+    it('should validate bodies with the route schema and InputValidator', async () => {
+      const malformed = await router.handle(await signedPost(path, submission({ extra: true })));
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).error.details[0]).toContain('extra');
+
+      const badInput = await router.handle(await signedPost(path, submission({ input: { prompt: 1 } })));
+      expect(badInput.status).toBe(400);
+      expect((await badInput.json()).error.code).toBe('VALIDATION_FAILED');
+      expect(taskService.submitTask).not.toHaveBeenCalled();
+    });
+
+    it('should accept evaluations whose own signature verifies and keep the signed timestamp', async () => {
+      const timestamp = Date.now();
+      const evaluation = { outputId: 'out-1', score: 80, confidence: 0.9, timestamp };
+      const body = {
+        validatorAddress: validator.address,
+        ...evaluation,
+        signature: await validator.signMessage(buildEvaluationMessage(NETWORK_ID, 'task-1', evaluation)),
+      };
+
+      const accepted = await router.handle(await signedPost('/v1/tasks/task-1/evaluations', body, validator));
+      expect(accepted.status).toBe(201);
+      expect(taskService.addValidatorEvaluation).toHaveBeenCalledWith(
+        'task-1', validator.address, 'out-1', 80, 0.9, body.signature, manifest, { timestamp }
+      );
+
+      const forged = { ...body, score: 100 };
+      const rejected = await router.handle(await signedPost('/v1/tasks/task-1/evaluations', forged, validator));
+      expect(rejected.status).toBe(401);
+      expect((await rejected.json()).error.message).toBe('Evaluation signature does not match validatorAddress');
+    });
+
+    it('should claim, renew and release tasks for the signing miner', async () => {
+      const claimed = await router.handle(await signedPost('/v1/tasks/task-1/claim', { minerAddress: miner.address, leaseMs: 1000 }, miner));
+      expect(claimed.status).toBe(201);
+      expect(await claimed.json()).toMatchObject({ taskId: 'task-1', minerAddress: miner.address, exclusive: true });
+      expect(taskService.claimTask).toHaveBeenCalledWith('task-1', miner.address, manifest, 1000);
+
+      taskService.claimTask.mockResolvedValueOnce(null);
+      const taken = await router.handle(await signedPost('/v1/tasks/task-1/claim', { minerAddress: miner.address }, miner));
+      expect(taken.status).toBe(409);
+
+      const expired = await router.handle(await signedPost('/v1/tasks/task-1/claim/renew', { minerAddress: miner.address }, miner));
+      expect(expired.status).toBe(409);
+      expect((await expired.json()).error.message).toBe(`No live claim on task task-1 for miner ${miner.address}`);
+
+      const released = await router.handle(await signedPost('/v1/tasks/task-1/claim/release', { minerAddress: miner.address }, miner));
+      expect(await released.json()).toEqual({ taskId: 'task-1', minerAddress: miner.address, released: true });
+
+      // Only the miner itself can release its claim
+      const foreign = await router.handle(await signedPost('/v1/tasks/task-1/claim/release', { minerAddress: miner.address }, depositor));
+      expect(foreign.status).toBe(403);
+      expect(taskService.releaseClaim).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map service errors to error codes', async () => {
+      taskService.submitTask
+        .mockRejectedValueOnce(new IllegalTaskTransitionError('task-1', 'paid', 'submitted'))
+        .mockRejectedValueOnce(new Error('database exploded'));
+
+      const conflict = await router.handle(await signedPost(path, submission()));
+      expect(conflict.status).toBe(409);
+      expect((await conflict.json()).error.code).toBe('CONFLICT');
+
+      const internal = await router.handle(await signedPost(path, submission()));
+      expect(internal.status).toBe(500);
+      expect(await internal.json()).toEqual({ error: { code: 'INTERNAL_ERROR', message: 'Internal error' } });
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('getOpenApiDocument', () => {
+    it('should describe every route', async () => {
+      const response = await get('/v1/openapi.json');
+      const document = await response.json();
+
+      expect(document.openapi).toBe('3.1.0');
+      expect(Object.keys(document.paths).sort()).toEqual([
+        '/networks',
+        '/networks/{networkId}/manifest',
+        '/networks/{networkId}/status',
+        '/networks/{networkId}/tasks',
+        '/openapi.json',
+        '/tasks/{taskId}',
+        '/tasks/{taskId}/claim',
+        '/tasks/{taskId}/claim/release',
+        '/tasks/{taskId}/claim/renew',
+        '/tasks/{taskId}/evaluations',
+        '/tasks/{taskId}/outputs',
+        '/tasks/{taskId}/reject',
+        '/tasks/{taskId}/selection',
+      ]);
+      expect(document.paths['/networks'].post.security).toEqual([{ tenseuronSignature: [] }]);
+      expect(document.paths['/networks'].get.security).toBeUndefined();
+      expect(document.paths['/tasks/{taskId}/outputs'].post.requestBody.content['application/json'].schema.required)
+        .toEqual(['output', 'minerAddress']);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * ProtocolTypedData Tests
+ *
+ * Tests for EIP-712 protocol schemas, their on-chain encodings and EIP-191 legacy verification
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  buildProtocolDomain,
+  buildValidatorEvaluationTypedData,
+  buildSettlementReceiptTypedData,
+  buildEscrowReleaseTypedData,
+  buildNetworkManifestTypedData,
+  buildInterNetworkCallTypedData,
+  getNetworkSigningDomain,
+  getManifestSigningDomain,
+  hashProtocolTypedData,
+} from '../ProtocolTypedData';
+import { SignatureVerificationService, buildEvaluationMessage } from '../SignatureVerificationService';
+
+const abi = ethers.AbiCoder.defaultAbiCoder();
+const keccakText = (text: string) => ethers.keccak256(ethers.toUtf8Bytes(text));
+
+// domainSeparator() as computed by TenseuronEscrow and ReceiptRedemption
+const contractDomainSeparator = (chainId: number, contract: string) => ethers.keccak256(abi.encode(
+  ['bytes32', 'bytes32', 'bytes32', 'uint256', 'address'],
+  [
+    keccakText('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)'),
+    keccakText('Tenseuron'),
+    keccakText('1'),
+    chainId,
+    contract,
+  ]
+));
+
+const contractDigest = (domainSeparator: string, structHash: string) =>
+  ethers.solidityPackedKeccak256(['string', 'bytes32', 'bytes32'], ['\x19\x01', domainSeparator, structHash]);
+
+describe('ProtocolTypedData', () => {
+  const contract = '0x' + '12'.repeat(20);
+  const recipient = '0x' + '34'.repeat(20);
+  const validator = new ethers.Wallet('0x' + '11'.repeat(32));
+
+  describe('contract compatibility', () => {
+    it('should hash SettlementReceipt like ReceiptRedemption.submitReceipt', () => {
+      const typedData = buildSettlementReceiptTypedData(buildProtocolDomain(137, contract), {
+        networkId: 'net-1',
+        taskId: 'task-1',
+        recipient,
+        amount: '1000000000000000000',
+        timestamp: 1700000000,
+      });
+
+      const structHash = ethers.keccak256(abi.encode(
+        ['bytes32', 'bytes32', 'bytes32', 'address', 'uint256', 'uint256'],
+        [
+          keccakText('SettlementReceipt(string networkId,bytes32 taskId,address recipient,uint256 amount,uint256 timestamp)'),
+          keccakText('net-1'),
+          ethers.encodeBytes32String('task-1'),
+          recipient,
+          '1000000000000000000',
+          1700000000,
+        ]
+      ));
+
+      expect(hashProtocolTypedData(typedData)).toBe(contractDigest(contractDomainSeparator(137, contract), structHash));
+    });
+
+    it('should hash EscrowRelease like TenseuronEscrow.release', async () => {
+      const taskId = ethers.keccak256(ethers.toUtf8Bytes('task-1'));
+      const typedData = buildEscrowReleaseTypedData(buildProtocolDomain(1, contract), 'net-1', taskId, recipient);
+
+      const structHash = ethers.keccak256(abi.encode(
+        ['bytes32', 'bytes32', 'bytes32', 'address', 'bool'],
+        [
+          keccakText('EscrowRelease(string networkId,bytes32 taskId,address recipient,bool accepted)'),
+          keccakText('net-1'),
+          taskId,
+          recipient,
+          true,
+        ]
+      ));
+      const digest = contractDigest(contractDomainSeparator(1, contract), structHash);
+      expect(hashProtocolTypedData(typedData)).toBe(digest);
+
+      // What ecrecover(digest, v, r, s) sees on-chain
+      const signature = await validator.signTypedData(typedData.domain, typedData.types, typedData.message);
+      expect(ethers.recoverAddress(digest, signature)).toBe(validator.address);
+    });
+  });
+
+  describe('signing domains', () => {
+    const manifest = {
+      networkId: 'net-1',
+      creatorAddress: validator.address,
+      name: 'Test Network',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      description: 'Test',
+      settlement: { mode: 'escrow', chain: 'polygon', contractAddress: contract },
+    } as any;
+
+    it('should bind network messages to the settlement chain and contract', () => {
+      expect(getNetworkSigningDomain(manifest)).toEqual({ name: 'Tenseuron', version: '1', chainId: 137, verifyingContract: contract });
+      expect(getManifestSigningDomain(manifest)).toEqual({ name: 'Tenseuron', version: '1', chainId: 137 });
+      expect(getNetworkSigningDomain({ ...manifest, settlement: { mode: 'escrow', chain: 'solana' } })).toBeNull();
+    });
+
+    it('should keep the creator signature valid once the settlement contract is deployed', async () => {
+      const undeployed = { ...manifest, settlement: { mode: 'escrow', chain: 'polygon' } };
+      const typedData = buildNetworkManifestTypedData(getManifestSigningDomain(undeployed)!, undeployed);
+      const signature = await validator.signTypedData(typedData.domain, typedData.types, typedData.message);
+
+      const deployed = buildNetworkManifestTypedData(getManifestSigningDomain(manifest)!, manifest);
+      expect(ethers.verifyTypedData(deployed.domain, deployed.types, deployed.message, signature)).toBe(validator.address);
+
+      const edited = buildNetworkManifestTypedData(getManifestSigningDomain(manifest)!, { ...manifest, description: 'Other' });
+      expect(ethers.verifyTypedData(edited.domain, edited.types, edited.message, signature)).not.toBe(validator.address);
+    });
+
+    it('should commit inter-network calls to their canonical payload hash', () => {
+      const call = {
+        incId: 'inc-1',
+        sourceNetworkId: 'net-a',
+        destinationNetworkId: 'net-b',
+        taskPayload: { prompt: 'hi', options: { temperature: 0 } },
+        maxBudget: '100',
+        settlementMode: 'escrow',
+        signature: '',
+        timestamp: 1,
+        maxDepth: 3,
+        currentDepth: 0,
+        callChain: ['net-a'],
+      } as any;
+      const domain = buildProtocolDomain(1);
+
+      expect(hashProtocolTypedData(buildInterNetworkCallTypedData(domain, call)))
+        .toBe(hashProtocolTypedData(buildInterNetworkCallTypedData(domain, { ...call, taskPayload: { options: { temperature: 0 }, prompt: 'hi' } })));
+      expect(hashProtocolTypedData(buildInterNetworkCallTypedData(domain, call)))
+        .not.toBe(hashProtocolTypedData(buildInterNetworkCallTypedData(domain, { ...call, taskPayload: { prompt: 'bye' } })));
+    });
+  });
+
+  describe('evaluation signatures', () => {
+    let mockLogger: any;
+    let service: SignatureVerificationService;
+    const domain = buildProtocolDomain(137, contract);
+    const evaluation = { outputId: 'output-1', score: 87.5, confidence: 0.9, timestamp: 1700000000000 };
+
+    beforeEach(() => {
+      mockLogger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      service = new SignatureVerificationService(mockLogger);
+    });
+
+    const signTyped = (signingDomain: typeof domain) => {
+      const typedData = buildValidatorEvaluationTypedData(signingDomain, 'net-1', 'task-1', evaluation);
+      return validator.signTypedData(typedData.domain, typedData.types, typedData.message);
+    };
+
+    it('should accept EIP-712 and legacy EIP-191 signatures', async () => {
+      const evaluations = [
+        { ...evaluation, validatorAddress: validator.address, signature: await signTyped(domain) },
+        {
+          ...evaluation,
+          validatorAddress: validator.address,
+          signature: await validator.signMessage(buildEvaluationMessage('net-1', 'task-1', evaluation)),
+        },
+      ];
+
+      const verification = service.verifyTaskEvaluationSignatures('net-1', 'task-1', evaluations, { domain });
+
+      expect(verification.allValid).toBe(true);
+      expect(verification.results.map(r => r.scheme)).toEqual(['eip712', 'eip191']);
+    });
+
+    it('should reject legacy signatures when legacy mode is disabled', async () => {
+      const signature = await validator.signMessage(buildEvaluationMessage('net-1', 'task-1', evaluation));
+
+      const verification = service.verifyTaskEvaluationSignatures(
+        'net-1',
+        'task-1',
+        [{ ...evaluation, validatorAddress: validator.address, signature }],
+        { domain, allowLegacyEip191: false }
+      );
+
+      expect(verification.allValid).toBe(false);
+      expect(verification.invalidEvaluations[0].validatorAddress).toBe(validator.address);
+    });
+
+    it('should reject typed signatures from another chain or contract', async () => {
+      const evaluations = [
+        { ...evaluation, validatorAddress: validator.address, signature: await signTyped(buildProtocolDomain(1, contract)) },
+        { ...evaluation, validatorAddress: validator.address, signature: await signTyped(buildProtocolDomain(137, recipient)) },
+      ];
+
+      const verification = service.verifyTaskEvaluationSignatures('net-1', 'task-1', evaluations, { domain });
+
+      expect(verification.allValid).toBe(false);
+      expect(verification.invalidEvaluations).toHaveLength(2);
+    });
+
+    it('should reject a typed signature over a different score', async () => {
+      const signature = await signTyped(domain);
+
+      const result = service.verifyTypedDataSignature(
+        validator.address,
+        signature,
+        buildValidatorEvaluationTypedData(domain, 'net-1', 'task-1', { ...evaluation, score: 88 })
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('does not match validator');
+    });
+  });
+});
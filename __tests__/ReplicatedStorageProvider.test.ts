@@ -0,0 +1,184 @@
+/**
+ * ReplicatedStorageProvider Tests
+ *
+ * Tests for quorum writes, verified failover reads and replica repair
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryReplicaIndex, ReplicatedStorageProvider } from '../adapters/storage/ReplicatedStorageProvider';
+import { LocalFileReplicaIndex } from '../adapters/storage/LocalFileReplicaIndex';
+import { IStorageProvider } from '../interfaces/IStorageProvider';
+
+class MapStorage implements IStorageProvider {
+  objects: Map<string, string> = new Map();
+  failUploads = false;
+  private counter = 0;
+
+  constructor(private prefix: string) { }
+
+  async upload(data: any): Promise<string> {
+    if (this.failUploads) throw new Error(`${this.prefix} unavailable`);
+    const key = `${this.prefix}-${++this.counter}`;
+    this.objects.set(key, typeof data === 'string' ? data : JSON.stringify(data));
+    return key;
+  }
+
+  async download(key: string): Promise<any> {
+    const text = this.objects.get(key);
+    if (text === undefined) throw new Error(`Object not found: ${key}`);
+    return JSON.parse(text);
+  }
+
+  async pin(): Promise<void> { }
+  async unpin(): Promise<void> { }
+
+  async exists(key: string): Promise<boolean> {
+    return this.objects.has(key);
+  }
+
+  getType(): 'ipfs' | 'arweave' | 's3' | 'r2' | 'custom' {
+    return 'custom';
+  }
+}
+
+describe('ReplicatedStorageProvider', () => {
+  const mockLogger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  const manifest = { networkId: 'net-1', version: 2 };
+
+  let a: MapStorage;
+  let b: MapStorage;
+  let c: MapStorage;
+  let storage: ReplicatedStorageProvider;
+
+  beforeEach(() => {
+    a = new MapStorage('a');
+    b = new MapStorage('b');
+    c = new MapStorage('c');
+    storage = new ReplicatedStorageProvider({
+      replicas: [
+        { name: 'a', provider: a },
+        { name: 'b', provider: b },
+        { name: 'c', provider: c },
+      ],
+      logger: mockLogger,
+    });
+  });
+
+  it('should warn when replica locators are only kept in memory', () => {
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('lost on restart'));
+
+    mockLogger.warn.mockClear();
+    new ReplicatedStorageProvider({
+      replicas: [{ name: 'a', provider: a }],
+      index: new InMemoryReplicaIndex(),
+      logger: mockLogger,
+    });
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should keep replica locators across restarts with a file index', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tenseuron-replicas-'));
+    const file = path.join(directory, 'replica-index.json');
+    const replicas = [{ name: 'a', provider: a }, { name: 'b', provider: b }];
+
+    try {
+      const cid = await new ReplicatedStorageProvider({
+        replicas,
+        index: new LocalFileReplicaIndex({ file }),
+        logger: mockLogger,
+      }).upload(manifest);
+
+      const restarted = new ReplicatedStorageProvider({
+        replicas,
+        index: new LocalFileReplicaIndex({ file }),
+        logger: mockLogger,
+      });
+      await expect(restarted.download(cid)).resolves.toEqual(manifest);
+      await expect(new LocalFileReplicaIndex({ file }).get(cid)).resolves.toEqual({ a: 'a-1', b: 'b-1' });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should return the content hash once the write quorum is reached', async () => {
+    c.failUploads = true;
+
+    const cid = await storage.upload(manifest);
+
+    expect(cid).toBe(ReplicatedStorageProvider.contentHash(manifest));
+    expect(a.objects.size).toBe(1);
+    expect(b.objects.size).toBe(1);
+    await expect(storage.download(cid)).resolves.toEqual(manifest);
+  });
+
+  it('should fail the upload when fewer replicas than the quorum accept it', async () => {
+    b.failUploads = true;
+    c.failUploads = true;
+
+    await expect(storage.upload(manifest)).rejects.toThrow('1/3 replicas written, quorum is 2');
+  });
+
+  it('should fail over past tampered and missing replicas on read', async () => {
+    const cid = await storage.upload(manifest);
+    a.objects.set('a-1', JSON.stringify({ networkId: 'net-1', version: 3 }));
+    b.objects.clear();
+
+    await expect(storage.download(cid)).resolves.toEqual(manifest);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Replica returned content with a mismatching hash',
+      expect.objectContaining({ cid, replica: 'a' })
+    );
+
+    c.objects.clear();
+    await expect(storage.download(cid)).rejects.toThrow('No replica returned verified content');
+  });
+
+  it('should re-upload missing and corrupt replicas on repair', async () => {
+    const cid = await storage.upload(manifest);
+    b.objects.clear();
+    c.objects.set('c-1', '"tampered"');
+
+    const shallow = await storage.repair(cid);
+    expect(shallow).toEqual({ cid, healthy: ['a', 'c'], repaired: ['b'], failed: [] });
+
+    const deep = await storage.repair(cid, { verifyContent: true });
+    expect(deep).toEqual({ cid, healthy: ['a', 'b'], repaired: ['c'], failed: [] });
+
+    a.objects.clear();
+    await expect(storage.download(cid)).resolves.toEqual(manifest);
+  });
+
+  it('should keep reading and repairing content stored under legacy JSON.stringify IDs', async () => {
+    const legacy = { version: 2, networkId: 'net-1' }; // Key order differs from the canonical form
+    const legacyCid = ReplicatedStorageProvider.legacyContentHash(legacy);
+    expect(legacyCid).not.toBe(ReplicatedStorageProvider.contentHash(legacy));
+
+    const index = new InMemoryReplicaIndex();
+    await index.set(legacyCid, { a: await a.upload(legacy), b: await b.upload(legacy) });
+    storage = new ReplicatedStorageProvider({
+      replicas: [{ name: 'a', provider: a }, { name: 'b', provider: b }, { name: 'c', provider: c }],
+      index,
+      logger: mockLogger,
+    });
+
+    await expect(storage.download(legacyCid)).resolves.toEqual(legacy);
+    await expect(storage.repair(legacyCid, { verifyContent: true })).resolves.toEqual({
+      cid: legacyCid,
+      healthy: ['a', 'b'],
+      repaired: ['c'],
+      failed: [],
+    });
+
+    a.objects.set('a-1', JSON.stringify({ version: 3, networkId: 'net-1' }));
+    b.objects.clear();
+    await expect(storage.download(legacyCid)).resolves.toEqual(legacy);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * ScoringRuntimeService Tests
+ *
+ * Tests for fetching, verifying and sandboxing manifest scoring modules
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createHash } from 'crypto';
+import { ScoringRuntimeService } from '../ScoringRuntimeService';
+import { IStorageProvider } from '../interfaces/IStorageProvider';
+
+// (module
+//   (import "tenseuron" "consume_fuel" (func $fuel (param i32)))
+//   (memory (export "memory") 1)
+//   (func (export "alloc") ...bump allocator...)
+//   (func (export "score") (param i32 i32 i32 i32) (result f64)
+//     i32.const 1  call $fuel  local.get 3  f64.convert_i32_u))
+// Score = byte length of the canonical output JSON
+const OUTPUT_LENGTH_WASM = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 18, 3, 96, 1, 127, 0, 96, 1, 127, 1, 127, 96, 4, 127, 127, 127, 127, 1, 124,
+  2, 26, 1, 9, 116, 101, 110, 115, 101, 117, 114, 111, 110, 12, 99, 111, 110, 115, 117, 109, 101, 95, 102, 117,
+  101, 108, 0, 0, 3, 3, 2, 1, 2, 5, 3, 1, 0, 1, 6, 7, 1, 127, 1, 65, 128, 8, 11, 7, 26, 3, 6, 109, 101, 109, 111,
+  114, 121, 2, 0, 5, 97, 108, 108, 111, 99, 0, 1, 5, 115, 99, 111, 114, 101, 0, 2, 10, 29, 2, 17, 1, 1, 127, 35,
+  0, 33, 1, 35, 0, 32, 0, 106, 36, 0, 32, 1, 11, 9, 0, 65, 1, 16, 0, 32, 3, 184, 11,
+]);
+
+// Same module, but score() loops forever consuming 1000 fuel per iteration
+const INFINITE_LOOP_WASM = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 18, 3, 96, 1, 127, 0, 96, 1, 127, 1, 127, 96, 4, 127, 127, 127, 127, 1, 124,
+  2, 26, 1, 9, 116, 101, 110, 115, 101, 117, 114, 111, 110, 12, 99, 111, 110, 115, 117, 109, 101, 95, 102, 117,
+  101, 108, 0, 0, 3, 3, 2, 1, 2, 5, 3, 1, 0, 1, 6, 7, 1, 127, 1, 65, 128, 8, 11, 7, 26, 3, 6, 109, 101, 109, 111,
+  114, 121, 2, 0, 5, 97, 108, 108, 111, 99, 0, 1, 5, 115, 99, 111, 114, 101, 0, 2, 10, 41, 2, 17, 1, 1, 127, 35,
+  0, 33, 1, 35, 0, 32, 0, 106, 36, 0, 32, 1, 11, 21, 0, 3, 64, 65, 232, 7, 16, 0, 12, 0, 11, 68, 0, 0, 0, 0, 0, 0,
+  0, 0, 11,
+]);
+
+// Same module, but score() spins in `(loop br 0)` without ever calling consume_fuel
+const SPIN_WASM = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 18, 3, 96, 1, 127, 0, 96, 1, 127, 1, 127, 96, 4, 127, 127, 127, 127, 1, 124,
+  2, 26, 1, 9, 116, 101, 110, 115, 101, 117, 114, 111, 110, 12, 99, 111, 110, 115, 117, 109, 101, 95, 102, 117,
+  101, 108, 0, 0, 3, 3, 2, 1, 2, 5, 3, 1, 0, 1, 6, 7, 1, 127, 1, 65, 128, 8, 11, 7, 26, 3, 6, 109, 101, 109,
+  111, 114, 121, 2, 0, 5, 97, 108, 108, 111, 99, 0, 1, 5, 115, 99, 111, 114, 101, 0, 2, 10, 36, 2, 17, 1, 1,
+  127, 35, 0, 33, 1, 35, 0, 32, 0, 106, 36, 0, 32, 1, 11, 16, 0, 3, 64, 12, 0, 11, 68, 0, 0, 0, 0, 0, 0, 0, 0,
+  11,
+]);
+
+// Same module, but score() tries memory.grow(64): returns 7 if the grow was refused, 99 otherwise
+const MEMORY_GROW_WASM = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 18, 3, 96, 1, 127, 0, 96, 1, 127, 1, 127, 96, 4, 127, 127, 127, 127, 1, 124,
+  2, 26, 1, 9, 116, 101, 110, 115, 101, 117, 114, 111, 110, 12, 99, 111, 110, 115, 117, 109, 101, 95, 102, 117,
+  101, 108, 0, 0, 3, 3, 2, 1, 2, 5, 3, 1, 0, 1, 6, 7, 1, 127, 1, 65, 128, 8, 11, 7, 26, 3, 6, 109, 101, 109,
+  111, 114, 121, 2, 0, 5, 97, 108, 108, 111, 99, 0, 1, 5, 115, 99, 111, 114, 101, 0, 2, 10, 52, 2, 17, 1, 1,
+  127, 35, 0, 33, 1, 35, 0, 32, 0, 106, 36, 0, 32, 1, 11, 32, 0, 65, 192, 0, 64, 0, 65, 127, 70, 4, 124, 68, 0,
+  0, 0, 0, 0, 0, 28, 64, 5, 68, 0, 0, 0, 0, 0, 192, 88, 64, 11, 11,
+]);
+
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest('hex');
+
+describe('ScoringRuntimeService', () => {
+  let service: ScoringRuntimeService;
+  let mockLogger: any;
+  let objects: Map<string, any>;
+  let storage: IStorageProvider;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    objects = new Map();
+    storage = {
+      upload: jest.fn() as any,
+      download: async (cid: string) => {
+        if (!objects.has(cid)) {
+          throw new Error(`not found: ${cid}`);
+        }
+        return objects.get(cid);
+      },
+      pin: jest.fn() as any,
+      unpin: jest.fn() as any,
+      exists: async (cid: string) => objects.has(cid),
+      getType: () => 'custom',
+    };
+    service = new ScoringRuntimeService(mockLogger, storage, { fuel: 100_000 });
+  });
+
+  describe('WASM modules', () => {
+    it('should score an output through the host ABI', async () => {
+      objects.set('QmScore', OUTPUT_LENGTH_WASM);
+
+      const result = await service.score(
+        { type: 'wasm', hash: sha256(OUTPUT_LENGTH_WASM), url: 'ipfs://QmScore' },
+        { prompt: 'hi' },
+        { text: 'hello' }
+      );
+
+      expect(result.score).toBe('{"text":"hello"}'.length);
+      // Injected metering: 8 instructions per alloc() call, 5 in score(), plus the module's own charge of 1
+      expect(result.fuelUsed).toBe(22);
+      expect(result.moduleType).toBe('wasm');
+    });
+
+    it('should reject a module whose content does not match the declared hash', async () => {
+      objects.set('QmScore', OUTPUT_LENGTH_WASM);
+
+      await expect(
+        service.score({ type: 'wasm', hash: '0x' + 'ab'.repeat(32), url: 'QmScore' }, {}, {})
+      ).rejects.toThrow('hash mismatch');
+    });
+
+    it('should stop a module that exhausts its fuel', async () => {
+      objects.set('QmLoop', INFINITE_LOOP_WASM);
+
+      await expect(
+        service.score({ type: 'wasm', hash: sha256(INFINITE_LOOP_WASM), url: 'QmLoop' }, {}, {})
+      ).rejects.toThrow('fuel');
+    });
+  });
+
+  describe('sandbox limits', () => {
+    it('should meter modules that never charge fuel themselves', async () => {
+      objects.set('QmSpin', SPIN_WASM);
+
+      await expect(
+        service.score({ type: 'wasm', hash: sha256(SPIN_WASM), url: 'QmSpin' }, {}, {})
+      ).rejects.toThrow('exhausted fuel limit');
+    });
+
+    it('should terminate a run that exceeds the time limit', async () => {
+      objects.set('QmSpin', SPIN_WASM);
+      service = new ScoringRuntimeService(mockLogger, storage, { fuel: Number.MAX_SAFE_INTEGER, timeoutMs: 200 });
+
+      await expect(
+        service.score({ type: 'wasm', hash: sha256(SPIN_WASM), url: 'QmSpin' }, {}, {})
+      ).rejects.toThrow('exceeded time limit (200 ms)');
+    });
+
+    it('should cap module-owned memory at maxMemoryBytes', async () => {
+      objects.set('QmGrow', MEMORY_GROW_WASM);
+      const hash = sha256(MEMORY_GROW_WASM);
+
+      const capped = new ScoringRuntimeService(mockLogger, storage, { maxMemoryBytes: 4 * 64 * 1024 });
+      await expect(capped.score({ type: 'wasm', hash, url: 'QmGrow' }, {}, {})).resolves.toMatchObject({ score: 7 });
+
+      const roomy = new ScoringRuntimeService(mockLogger, storage, { maxMemoryBytes: 128 * 64 * 1024 });
+      await expect(roomy.score({ type: 'wasm', hash, url: 'QmGrow' }, {}, {})).resolves.toMatchObject({ score: 99 });
+    });
+
+    it('should refuse to run JS modules', async () => {
+      const source = 'exports.score = () => globalThis.constructor.constructor("return process")().pid > 0 ? 42 : 0;';
+      objects.set('QmJs', source);
+
+      await expect(
+        service.score({ type: 'js', hash: sha256(source), url: 'QmJs' }, {}, {})
+      ).rejects.toThrow('Unsupported scoring module type: js');
+    });
+  });
+
+  describe('scoreOutputs', () => {
+    it('should report per-output errors instead of failing the batch', async () => {
+      objects.set('QmScore', OUTPUT_LENGTH_WASM);
+
+      const results = await service.scoreOutputs(
+        { type: 'wasm', hash: sha256(OUTPUT_LENGTH_WASM), url: 'QmScore' },
+        {},
+        [
+          { outputId: 'out1', output: { ok: true } },
+          { outputId: 'out2', output: { text: 'x'.repeat(200) } },
+        ]
+      );
+
+      expect(results.get('out1')?.score).toBe('{"ok":true}'.length);
+      expect(results.get('out2')?.error).toContain('invalid score');
+    });
+  });
+});
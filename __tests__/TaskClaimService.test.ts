@@ -0,0 +1,66 @@
+/**
+ * TaskClaimService Tests
+ *
+ * Tests for exclusive and shared claim leases
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { TaskClaimService } from '../TaskClaimService';
+import { InMemoryTaskClaimRepository } from '../adapters/database/InMemoryTaskClaimRepository';
+
+describe('TaskClaimService', () => {
+  let service: TaskClaimService;
+  let repository: InMemoryTaskClaimRepository;
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  beforeEach(() => {
+    repository = new InMemoryTaskClaimRepository();
+    service = new TaskClaimService(mockLogger, repository, { leaseMs: 1000, maxLeaseMs: 5000 });
+  });
+
+  it('should hold exclusive claims until they expire', async () => {
+    expect(await service.claim('task-1', '0xA', true, undefined, 0)).toMatchObject({ expiresAt: 1000 });
+
+    expect(await service.claim('task-1', '0xB', true, undefined, 500)).toBeNull();
+    expect(await service.isClaimedByOther('task-1', '0xB', 500)).toBe(true);
+    expect(await service.isClaimedByOther('task-1', '0xa', 500)).toBe(false);
+
+    expect(await service.claim('task-1', '0xB', true, undefined, 1000)).toMatchObject({ minerAddress: '0xB' });
+    expect(await service.getAssignedMiners('task-1')).toEqual(['0xA', '0xB']);
+  });
+
+  it('should allow concurrent shared claims but not alongside an exclusive one', async () => {
+    expect(await service.claim('task-1', '0xA', false, undefined, 0)).not.toBeNull();
+    expect(await service.claim('task-1', '0xB', false, undefined, 0)).not.toBeNull();
+    expect(await service.claim('task-1', '0xC', true, undefined, 0)).toBeNull();
+    expect(await service.getActiveClaims('task-1', 0)).toHaveLength(2);
+  });
+
+  it('should renew live claims only and cap lease length', async () => {
+    await service.claim('task-1', '0xA', true, 60 * 1000, 0);
+    expect((await service.renew('task-1', '0xA', undefined, 4000)).expiresAt).toBe(5000);
+
+    await expect(service.renew('task-1', '0xA', undefined, 5000)).rejects.toThrow(
+      'No live claim on task task-1 for miner 0xA'
+    );
+  });
+
+  it('should keep leases in the repository across service instances', async () => {
+    await service.claim('task-1', '0xA', true, undefined, 0);
+
+    const restarted = new TaskClaimService(mockLogger, repository, { leaseMs: 1000, maxLeaseMs: 5000 });
+    expect(await restarted.claim('task-1', '0xB', true, undefined, 500)).toBeNull();
+    expect(await restarted.getAssignedMiners('task-1')).toEqual(['0xA']);
+
+    await restarted.forgetTask('task-1');
+    expect(await service.getActiveClaims('task-1', 500)).toEqual([]);
+  });
+
+  it('should free the task on release', async () => {
+    await service.claim('task-1', '0xA', true, undefined, 0);
+    await service.release('task-1', '0xa');
+
+    expect(await service.claim('task-1', '0xB', true, undefined, 10)).not.toBeNull();
+    expect(await service.getAssignedMiners('task-1')).toEqual(['0xB']);
+  });
+});
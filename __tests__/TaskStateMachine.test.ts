@@ -0,0 +1,117 @@
+/**
+ * TaskStateMachine Tests
+ *
+ * Tests for the TaskStatus transition table and transition hooks
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TaskStateMachine, IllegalTaskTransitionError, TASK_TRANSITIONS } from '../TaskStateMachine';
+
+describe('TaskStateMachine', () => {
+  let machine: TaskStateMachine;
+  let mockLogger: any;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    machine = new TaskStateMachine(mockLogger);
+  });
+
+  describe('transition table', () => {
+    it('should allow the normal lifecycle', () => {
+      expect(TaskStateMachine.canTransition('submitted', 'mining')).toBe(true);
+      expect(TaskStateMachine.canTransition('mining', 'evaluating')).toBe(true);
+      expect(TaskStateMachine.canTransition('evaluating', 'consensus-reached')).toBe(true);
+      expect(TaskStateMachine.canTransition('consensus-reached', 'paid')).toBe(true);
+    });
+
+    it('should not allow a paid task to go back to evaluating', () => {
+      expect(TaskStateMachine.canTransition('paid', 'evaluating')).toBe(false);
+    });
+
+    it('should not allow a timed-out task to receive outputs', () => {
+      expect(TaskStateMachine.canTransition('timed-out', 'mining')).toBe(false);
+    });
+
+    it('should treat paid, timed-out and user-rejected as terminal', () => {
+      expect(TaskStateMachine.isTerminal('paid')).toBe(true);
+      expect(TaskStateMachine.isTerminal('timed-out')).toBe(true);
+      expect(TaskStateMachine.isTerminal('user-rejected')).toBe(true);
+      expect(TaskStateMachine.isTerminal('evaluating')).toBe(false);
+    });
+
+    it('should have a row for every status', () => {
+      expect(Object.keys(TASK_TRANSITIONS)).toHaveLength(10);
+    });
+  });
+
+  describe('transition', () => {
+    it('should throw a typed error for illegal transitions without persisting', async () => {
+      const persist = jest.fn(async () => undefined);
+
+      const error = await machine
+        .transition({ taskId: 'task-1', from: 'paid', to: 'evaluating' }, persist)
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(IllegalTaskTransitionError);
+      expect(error.from).toBe('paid');
+      expect(error.to).toBe('evaluating');
+      expect(persist).not.toHaveBeenCalled();
+    });
+
+    it('should run matching hooks after persisting', async () => {
+      const calls: string[] = [];
+      const persist = async () => {
+        calls.push('persist');
+      };
+      machine.onTransition(t => {
+        calls.push(`any:${t.to}`);
+      });
+      machine.onTransition(() => {
+        calls.push('paid');
+      }, { to: 'paid' });
+
+      await machine.transition({ taskId: 'task-1', from: 'evaluating', to: 'consensus-reached' }, persist);
+      await machine.transition({ taskId: 'task-1', from: 'consensus-reached', to: 'paid' }, persist);
+
+      expect(calls).toEqual(['persist', 'any:consensus-reached', 'persist', 'any:paid', 'paid']);
+    });
+
+    it('should not run hooks when persisting fails', async () => {
+      const hook = jest.fn();
+      machine.onTransition(hook);
+
+      await expect(
+        machine.transition({ taskId: 'task-1', from: 'submitted', to: 'mining' }, async () => {
+          throw new Error('db down');
+        })
+      ).rejects.toThrow('db down');
+      expect(hook).not.toHaveBeenCalled();
+    });
+
+    it('should log hook failures without failing the transition', async () => {
+      machine.onTransition(() => {
+        throw new Error('hook failed');
+      });
+
+      const transition = await machine.transition({ taskId: 'task-1', from: 'submitted', to: 'timed-out' });
+
+      expect(transition.to).toBe('timed-out');
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('should stop calling a hook after it is removed', async () => {
+      const hook = jest.fn();
+      const remove = machine.onTransition(hook);
+      remove();
+
+      await machine.transition({ taskId: 'task-1', from: 'submitted', to: 'mining' });
+
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * TaskStateProjector Tests
+ *
+ * Tests for recording task events and rebuilding TaskState from them
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TaskStateProjector } from '../TaskStateProjector';
+import { DomainEventRecorder } from '../DomainEventRecorder';
+import { IEventStore, DomainEvent } from '../interfaces/IEventStore';
+import { TaskState } from '../TaskService';
+
+describe('TaskStateProjector', () => {
+  let mockLogger: any;
+  let events: DomainEvent[];
+  let eventStore: IEventStore;
+  let recorder: DomainEventRecorder;
+  let projector: TaskStateProjector;
+
+  const submission = {
+    taskId: 'task-1',
+    networkId: 'net-1',
+    input: { prompt: 'hi' },
+    depositorAddress: '0xuser',
+    depositAmount: '100',
+    timestamp: 1,
+  };
+  const output = { outputId: 'out-1', output: { text: 'hello' }, minerAddress: '0xminer', timestamp: 2 };
+  const evaluation = {
+    validatorAddress: '0xValidator',
+    outputId: 'out-1',
+    score: 90,
+    confidence: 0.9,
+    timestamp: 3,
+    signature: '0xsig',
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    events = [];
+    eventStore = {
+      append: async (event) => {
+        const stored = { ...event, id: `evt-${events.length + 1}` };
+        events.push(stored);
+        return stored;
+      },
+      getEvents: async (aggregateId, fromVersion = 0) =>
+        events.filter(e => e.aggregateId === aggregateId && e.metadata.version >= fromVersion),
+      getEventsByType: async (eventType) => events.filter(e => e.eventType === eventType),
+      getEventsByTimeRange: async () => events,
+      getLatestVersion: async (aggregateId) =>
+        events.filter(e => e.aggregateId === aggregateId).reduce((max, e) => Math.max(max, e.metadata.version), 0),
+    };
+    recorder = new DomainEventRecorder(mockLogger, eventStore);
+    projector = new TaskStateProjector(eventStore);
+  });
+
+  async function recordHappyPath(): Promise<void> {
+    await recorder.recordTaskEvent('task-1', 'TaskSubmitted', { submission });
+    await recorder.recordTaskEvent('task-1', 'TaskOutputAdded', { output });
+    await recorder.recordTaskEvent('task-1', 'TaskEvaluationAdded', { taskId: 'task-1', evaluation });
+    await recorder.recordTaskEvent('task-1', 'TaskConsensusReached', { winningOutputId: 'out-1' });
+    await recorder.recordTaskEvent('task-1', 'TaskPaid', { paymentTxHash: '0xpaid' });
+  }
+
+  it('should assign sequential versions per aggregate', async () => {
+    await recordHappyPath();
+    await recorder.recordTaskEvent('task-2', 'TaskSubmitted', { submission: { ...submission, taskId: 'task-2' } });
+
+    expect(events.filter(e => e.aggregateId === 'task-1').map(e => e.metadata.version)).toEqual([1, 2, 3, 4, 5]);
+    expect(events.find(e => e.aggregateId === 'task-2')?.metadata.version).toBe(1);
+  });
+
+  it('should rebuild task state from events', async () => {
+    await recordHappyPath();
+
+    const state = await projector.rebuild('task-1');
+
+    expect(state).not.toBeNull();
+    expect(state!.status).toBe('paid');
+    expect(state!.outputs.map(o => o.outputId)).toEqual(['out-1']);
+    expect(state!.evaluations).toHaveLength(1);
+    expect(state!.winningOutputId).toBe('out-1');
+    expect(state!.consensusReached).toBe(true);
+    expect(state!.paymentTxHash).toBe('0xpaid');
+  });
+
+  it('should return null for a task without a submission event', async () => {
+    expect(await projector.rebuild('missing')).toBeNull();
+  });
+
+  it('should apply challenge and timeout transitions', async () => {
+    await recorder.recordTaskEvent('task-1', 'TaskSubmitted', { submission });
+    await recorder.recordTaskEvent('task-1', 'TaskTimedOut', { deadline: 10, previousStatus: 'submitted' });
+
+    expect((await projector.rebuild('task-1'))!.status).toBe('timed-out');
+  });
+
+  it('should report mismatches between the cached row and the events', async () => {
+    await recordHappyPath();
+    const projected = (await projector.rebuild('task-1')) as TaskState;
+
+    const consistent = await projector.audit(projected);
+    expect(consistent.consistent).toBe(true);
+    expect(consistent.eventCount).toBe(5);
+
+    const tampered = await projector.audit({ ...projected, winningOutputId: 'out-2', paymentReleased: false });
+    expect(tampered.consistent).toBe(false);
+    expect(tampered.mismatches).toHaveLength(2);
+  });
+
+  it('should not throw when the event store fails', async () => {
+    eventStore.append = async () => {
+      throw new Error('store down');
+    };
+
+    const result = await recorder.recordTaskEvent('task-1', 'TaskPaid', { paymentTxHash: '0xpaid' });
+
+    expect(result).toBeNull();
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * TaskTimeoutSweeper Tests
+ *
+ * Tests for timing out overdue tasks, escrow refunds and deadline misses
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TaskTimeoutSweeper } from '../TaskTimeoutSweeper';
+import { TaskData } from '../interfaces/ITaskRepository';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('TaskTimeoutSweeper', () => {
+  let mockLogger: any;
+  let tasks: TaskData[];
+  let taskRepository: any;
+  let networkRepository: any;
+  let storage: any;
+  let blockchain: any;
+  let taskService: any;
+  let onChainValidatorService: any;
+  let validatorReputationService: any;
+  let sweeper: TaskTimeoutSweeper;
+
+  const manifest = {
+    networkId: 'net-1',
+    taskFormat: { inputSchema: {}, outputSchema: {}, timeout: 3600 },
+    settlement: { mode: 'escrow', chain: 'ethereum', contractAddress: '0xescrow' },
+  };
+
+  const task = (taskId: string, status: TaskData['status'], createdAt: number): TaskData => ({
+    taskId,
+    networkId: 'net-1',
+    status,
+    input: {},
+    depositorAddress: '0xuser',
+    depositAmount: '100',
+    consensusReached: false,
+    paymentReleased: false,
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(createdAt),
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    tasks = [];
+    taskRepository = {
+      findOverdue: jest.fn(async (status: string, before: Date, limit?: number) => tasks
+        .filter(t => t.status === status && t.createdAt.getTime() < before.getTime())
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .slice(0, limit)),
+      getOutputs: jest.fn(async (taskId: string) =>
+        taskId === 'evaluating-task' ? [{ outputId: 'out-1', minerAddress: '0xminer' }] : []
+      ),
+      getEvaluations: jest.fn(async () => [{ validatorAddress: '0xV1' }]),
+    };
+    networkRepository = {
+      findById: jest.fn(async () => ({ networkId: 'net-1', manifestCid: 'QmManifest' })),
+    };
+    storage = { download: jest.fn(async () => manifest) };
+    blockchain = { sendTransaction: jest.fn(async () => '0xrefund') };
+    taskService = {
+      markTaskTimedOut: jest.fn(async (taskId: string) => {
+        tasks = tasks.filter(t => t.taskId !== taskId);
+      }),
+    };
+    onChainValidatorService = { getSelectedValidators: jest.fn(async () => ['0xv1', '0xV2']) };
+    validatorReputationService = { updateReputation: jest.fn(async () => ({})) };
+
+    sweeper = new TaskTimeoutSweeper(mockLogger, {
+      taskRepository,
+      networkRepository,
+      storage,
+      blockchain,
+      taskService,
+      onChainValidatorService,
+      validatorReputationService,
+    });
+  });
+
+  it('should only time out tasks past taskFormat.timeout', async () => {
+    const now = 10 * HOUR;
+    tasks = [task('overdue', 'submitted', now - 2 * HOUR), task('fresh', 'mining', now - HOUR / 2)];
+
+    const results = await sweeper.sweep(now);
+
+    expect(results.map(r => r.taskId)).toEqual(['overdue']);
+    expect(taskService.markTaskTimedOut).toHaveBeenCalledTimes(1);
+    expect(results[0].deadline).toBe(now - HOUR);
+  });
+
+  it('should sweep the oldest tasks first when more are pending than fit in a batch', async () => {
+    sweeper = new TaskTimeoutSweeper(mockLogger, { taskRepository, networkRepository, storage, blockchain, taskService }, { batchSize: 2 });
+    const now = 10 * HOUR;
+    tasks = [
+      task('newest', 'submitted', now - HOUR / 2),
+      task('oldest', 'submitted', 0),
+      task('older', 'submitted', HOUR),
+    ];
+
+    const results = await sweeper.sweep(now);
+
+    expect(taskRepository.findOverdue).toHaveBeenCalledWith('submitted', new Date(now), 2);
+    expect(results.map(r => r.taskId)).toEqual(['oldest', 'older']);
+  });
+
+  it('should call checkTimeout on the escrow contract', async () => {
+    tasks = [task('overdue', 'submitted', 0)];
+
+    const [result] = await sweeper.sweep(2 * HOUR);
+
+    expect(blockchain.sendTransaction).toHaveBeenCalledWith(
+      '0xescrow',
+      ['function checkTimeout(bytes32 taskId) external'],
+      'checkTimeout',
+      [expect.any(String)]
+    );
+    expect(result.refundTxHash).toBe('0xrefund');
+  });
+
+  it('should record misses against selected validators that never evaluated', async () => {
+    tasks = [task('evaluating-task', 'evaluating', 0)];
+
+    const [result] = await sweeper.sweep(2 * HOUR);
+
+    expect(result.missedValidators).toEqual(['0xV2']);
+    expect(validatorReputationService.updateReputation).toHaveBeenCalledTimes(1);
+    expect(validatorReputationService.updateReputation.mock.calls[0][0]).toBe('0xV2');
+    expect(taskService.markTaskTimedOut).toHaveBeenCalledWith('evaluating-task', HOUR, {
+      missedMiners: [],
+      missedValidators: ['0xV2'],
+    });
+  });
+
+  it('should retry failed refunds on the next sweep', async () => {
+    tasks = [task('overdue', 'submitted', 0)];
+    blockchain.sendTransaction
+      .mockImplementationOnce(async () => {
+        throw new Error('rpc down');
+      })
+      .mockImplementationOnce(async () => '0xretry');
+
+    const [result] = await sweeper.sweep(2 * HOUR);
+    expect(result.refundTxHash).toBeUndefined();
+
+    await sweeper.sweep(3 * HOUR);
+    expect(blockchain.sendTransaction).toHaveBeenCalledTimes(2);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Escrow timeout refund succeeded on retry',
+      expect.objectContaining({ taskId: 'overdue', txHash: '0xretry' })
+    );
+  });
+
+  it('should mark the inter-network call behind a refunded task as refunded', async () => {
+    const incCallService = { markRefunded: jest.fn(async () => null) };
+    sweeper = new TaskTimeoutSweeper(mockLogger, { taskRepository, networkRepository, storage, blockchain, taskService, incCallService });
+    tasks = [task('0xinc', 'submitted', 0)];
+
+    await sweeper.sweep(2 * HOUR);
+
+    expect(incCallService.markRefunded).toHaveBeenCalledWith('0xinc', '0xrefund');
+  });
+});
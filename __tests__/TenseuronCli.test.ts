@@ -0,0 +1,250 @@
+/**
+ * TenseuronCli Tests
+ *
+ * Tests for argument handling, config loading, validation feedback and command wiring
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TenseuronCli } from '../cli/TenseuronCli';
+import { loadCliConfig } from '../cli/CliConfig';
+
+const NETWORK_ID = '0x' + 'ab'.repeat(20);
+const CREATOR = '0x' + '12'.repeat(20);
+
+describe('TenseuronCli', () => {
+  let mockLogger: any;
+  let workDir: string;
+  let stdout: string[];
+  let stderr: string[];
+  let services: any;
+  let createServices: jest.Mock<any>;
+  let cli: TenseuronCli;
+
+  const request = (overrides: any = {}) => ({
+    name: 'Text Summaries',
+    description: 'Summarise long documents',
+    category: 'text',
+    moduleId: 'summarisation',
+    creatorAddress: CREATOR,
+    minValidators: 3,
+    consensusThreshold: 0.66,
+    disputeWindow: 3600,
+    stakeRequired: '100',
+    networkRequirements: { requiresPayment: true, requiresStaking: true, requiresSlashing: false },
+    penaltyConfig: {
+      mechanism: 'reputation-only',
+      reputation: { enabled: true, penaltyPerOffense: 10, minReputationForBan: 20, recoveryRate: 0.1 },
+    },
+    ...overrides,
+  });
+
+  const manifest = {
+    networkId: NETWORK_ID,
+    name: 'Text Summaries',
+    taskFormat: {
+      inputSchema: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+      outputSchema: { type: 'object' },
+      timeout: 3600,
+    },
+  };
+
+  const writeFile = async (name: string, contents: unknown) => {
+    const filePath = path.join(workDir, name);
+    await fs.writeFile(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents));
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenseuron-cli-'));
+    stdout = [];
+    stderr = [];
+    services = {
+      protocolService: {
+        createNetwork: jest.fn(async () => ({
+          networkId: NETWORK_ID,
+          manifest,
+          deploymentStatus: { networkId: NETWORK_ID, status: 'deployed', progress: 100, steps: [] },
+          creationFees: { bond: '1', deploymentCost: '2', registryFee: '3', total: '6' },
+        })),
+        getNetworkManifest: jest.fn(async (id: string) => (id === NETWORK_ID ? manifest : null)),
+        listNetworks: jest.fn(async () => [NETWORK_ID]),
+        getDeploymentStatus: jest.fn(async () => null),
+      },
+      registry: {
+        verifyManifest: jest.fn((candidate: any) => ({
+          valid: candidate.networkId === NETWORK_ID,
+          errors: candidate.networkId === NETWORK_ID ? [] : ['Invalid networkId: must start with 0x'],
+          warnings: [],
+        })),
+      },
+      taskService: {
+        submitTask: jest.fn(async (taskId: string) => ({ taskId, status: 'submitted' })),
+        getTaskState: jest.fn(async (taskId: string) => (taskId === 'task-1' ? { taskId, networkId: NETWORK_ID } : null)),
+        addHumanSelection: jest.fn(async () => ({ selectedOutputId: 'out-1' })),
+        userRejectAndRedo: jest.fn(async () => ({ newTaskId: 'task-2' })),
+      },
+      graduationService: {
+        getGraduationStatus: jest.fn(async () => ({ level: 'sandbox' })),
+      },
+      close: jest.fn(async () => undefined),
+    };
+    createServices = jest.fn(async () => services);
+    cli = new TenseuronCli(mockLogger, {
+      createServices: createServices as any,
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      cwd: workDir,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('network create', () => {
+    it('should validate a dry run without loading any services', async () => {
+      await writeFile('network.json', request());
+
+      expect(await cli.run(['network', 'create', 'network.json', '--dry-run'])).toBe(0);
+      expect(stdout).toEqual(['Network creation request is valid']);
+      expect(createServices).not.toHaveBeenCalled();
+    });
+
+    it('should report InputValidator and PenaltyConfigValidator errors together', async () => {
+      await writeFile('network.json', request({
+        consensusThreshold: 2,
+        penaltyConfig: { mechanism: 'reputation-only' },
+      }));
+
+      expect(await cli.run(['network', 'create', 'network.json'])).toBe(1);
+      expect(stderr).toEqual([
+        'error: Consensus threshold must be between 0 and 1',
+        'error: penaltyConfig: Reputation configuration is required when mechanism is "reputation-only" or "hybrid"',
+        'Network creation request is invalid',
+      ]);
+      expect(services.protocolService.createNetwork).not.toHaveBeenCalled();
+    });
+
+    it('should create the network with services built from the config file', async () => {
+      await writeFile('network.json', request());
+      await writeFile('tenseuron.config.json', { database: { type: 'memory' }, storage: { type: 'memory' } });
+
+      expect(await cli.run(['network', 'create', 'network.json'])).toBe(0);
+      expect(createServices).toHaveBeenCalledWith({ database: { type: 'memory' }, storage: { type: 'memory' } });
+      expect(services.protocolService.createNetwork).toHaveBeenCalledWith(request());
+      expect(JSON.parse(stdout[0])).toMatchObject({ networkId: NETWORK_ID, creationFees: { total: '6' } });
+      expect(services.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('network and manifest queries', () => {
+    it('should list networks with parsed filters and reject bad ones', async () => {
+      expect(await cli.run(['network', 'list', '--status', 'active', '--limit=5'])).toBe(0);
+      expect(services.protocolService.listNetworks).toHaveBeenCalledWith({
+        status: 'active',
+        category: undefined,
+        limit: 5,
+        offset: undefined,
+      });
+      expect(JSON.parse(stdout[0])).toEqual([NETWORK_ID]);
+
+      expect(await cli.run(['network', 'list', '--limit', '0'])).toBe(2);
+      expect(stderr[0]).toBe('--limit must be an integer >= 1');
+      expect(stderr[1]).toMatch(/^Usage: tenseuron network list /);
+    });
+
+    it('should fail for unknown networks', async () => {
+      expect(await cli.run(['network', 'status', NETWORK_ID])).toBe(1);
+      expect(stderr).toEqual([`Error: Network not found: ${NETWORK_ID}`]);
+    });
+
+    it('should verify local manifest files and published manifests', async () => {
+      await writeFile('bad-manifest.json', { ...manifest, networkId: 'nope' });
+
+      expect(await cli.run(['manifest', 'verify', 'bad-manifest.json'])).toBe(1);
+      expect(stderr).toEqual(['error: Invalid networkId: must start with 0x', 'Manifest nope is invalid']);
+
+      expect(await cli.run(['manifest', 'verify', NETWORK_ID])).toBe(0);
+      expect(services.protocolService.getNetworkManifest).toHaveBeenCalledWith(NETWORK_ID);
+      expect(stdout).toEqual([`Manifest ${NETWORK_ID} is valid`]);
+    });
+  });
+
+  describe('task and graduation commands', () => {
+    it('should submit tasks with inline JSON input after validation', async () => {
+      const args = ['task', 'submit', NETWORK_ID, '--depositor', CREATOR, '--amount', '10', '--task-id', 'task-9'];
+
+      expect(await cli.run([...args, '--input', '{"prompt": 1}'])).toBe(1);
+      expect(services.taskService.submitTask).not.toHaveBeenCalled();
+
+      expect(await cli.run([...args, '--input', '{"prompt": "hello"}'])).toBe(0);
+      expect(services.taskService.submitTask).toHaveBeenCalledWith(
+        'task-9', NETWORK_ID, { prompt: 'hello' }, CREATOR, '10', manifest
+      );
+    });
+
+    it('should resolve the task manifest for select and reject', async () => {
+      expect(await cli.run(['task', 'select', 'task-1', 'out-1', '--user', CREATOR])).toBe(0);
+      expect(services.taskService.addHumanSelection).toHaveBeenCalledWith('task-1', 'out-1', CREATOR, manifest);
+
+      expect(await cli.run(['task', 'reject', 'task-1', '--user', CREATOR])).toBe(0);
+      expect(services.taskService.userRejectAndRedo).toHaveBeenCalledWith('task-1', CREATOR, manifest);
+
+      expect(await cli.run(['task', 'reject', 'task-1'])).toBe(2);
+      expect(stderr[0]).toBe('Missing option: --user');
+    });
+
+    it('should explain when the configured database cannot back task or graduation commands', async () => {
+      delete services.taskService;
+      delete services.graduationService;
+
+      expect(await cli.run(['task', 'status', 'task-1'])).toBe(1);
+      expect(await cli.run(['graduation', 'status', NETWORK_ID])).toBe(1);
+      expect(stderr).toEqual([
+        'Error: Task commands require a prisma database in the CLI config',
+        'Error: Graduation commands require a prisma database in the CLI config',
+      ]);
+    });
+  });
+
+  it('should print usage for missing and unknown commands', async () => {
+    expect(await cli.run(['--help'])).toBe(0);
+    expect(stdout[0]).toContain('network create <request.json|request.yaml> [--dry-run]');
+
+    expect(await cli.run(['network', 'destroy'])).toBe(2);
+    expect(stderr[0]).toBe('Unknown command: network destroy');
+  });
+
+  describe('loadCliConfig', () => {
+    it('should fall back to DEPLOYER_PRIVATE_KEY and require explicit config files to exist', async () => {
+      await writeFile('tenseuron.config.json', { blockchain: { type: 'polygon' } });
+      const previous = process.env.DEPLOYER_PRIVATE_KEY;
+      process.env.DEPLOYER_PRIVATE_KEY = '0xkey';
+      try {
+        expect(await loadCliConfig(undefined, workDir)).toEqual({
+          config: { blockchain: { type: 'polygon', privateKey: '0xkey' } },
+          path: path.join(workDir, 'tenseuron.config.json'),
+        });
+      } finally {
+        if (previous === undefined) {
+          delete process.env.DEPLOYER_PRIVATE_KEY;
+        } else {
+          process.env.DEPLOYER_PRIVATE_KEY = previous;
+        }
+      }
+
+      await expect(loadCliConfig('missing.yaml', workDir)).rejects.toThrow(
+        `Config file not found: ${path.join(workDir, 'missing.yaml')}`
+      );
+    });
+  });
+});
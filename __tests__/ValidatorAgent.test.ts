@@ -0,0 +1,308 @@
+/**
+ * ValidatorAgent Tests
+ *
+ * Tests for the validate-sign-submit loop, retries, backpressure and shutdown
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { ValidatorAgent } from '../ValidatorAgent';
+import { SignatureVerificationService } from '../SignatureVerificationService';
+import { getNetworkSigningDomain } from '../ProtocolTypedData';
+import { TaskAnnouncement } from '../P2PCoordinationService';
+import { TaskState } from '../TaskService';
+import { TaskOutput, ValidatorEvaluation } from '../EvaluationService';
+
+const wallet = new ethers.Wallet('0x' + '11'.repeat(32));
+
+async function until(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('ValidatorAgent', () => {
+  let mockLogger: any;
+  let callbacks: Map<string, (announcement: TaskAnnouncement) => void>;
+  let tasks: any;
+  let states: Map<string, TaskState>;
+  let submitted: ValidatorEvaluation[];
+  let taskService: any;
+  let manifests: any;
+  let manifest: any;
+  let scoringRuntime: any;
+  let agent: ValidatorAgent;
+
+  const deterministicManifest = {
+    networkId: 'net-1',
+    evaluationMode: 'deterministic',
+    scoringLogic: { type: 'js', hash: '0xhash', url: 'QmScoring' },
+  };
+
+  const statisticalManifest = {
+    networkId: 'net-1',
+    evaluationMode: 'statistical',
+    statisticalEvaluation: { multipleOutputs: true, minOutputs: 3, weightedScoring: false, agreementThreshold: 0.5 },
+  };
+
+  const output = (outputId: string, text: string): TaskOutput => ({
+    outputId,
+    output: text,
+    minerAddress: '0xminer',
+    timestamp: 1000,
+  });
+
+  const state = (taskId: string, outputs: TaskOutput[], evaluations: ValidatorEvaluation[] = []): TaskState => ({
+    taskId,
+    networkId: 'net-1',
+    status: 'mining',
+    submission: {
+      taskId,
+      networkId: 'net-1',
+      input: { prompt: 'hello' },
+      depositorAddress: '0xuser',
+      depositAmount: '100',
+      timestamp: 0,
+    },
+    outputs,
+    evaluations,
+    consensusReached: false,
+    paymentReleased: false,
+    createdAt: 0,
+    updatedAt: 0,
+  });
+
+  const announce = (taskId: string, manifestCid: string = 'QmDeterministic'): TaskAnnouncement => ({
+    taskId,
+    networkId: 'net-1',
+    taskType: 'text',
+    requiredValidators: 3,
+    deadline: Date.now() + 60 * 1000,
+    reward: '100',
+    manifestCid,
+  });
+
+  const createAgent = (options: any = {}) =>
+    new ValidatorAgent(
+      mockLogger,
+      { tasks, taskService, manifests, signer: wallet, scoringRuntime },
+      { networkIds: ['net-1'], retryDelayMs: 1, outputPollIntervalMs: 1, ...options }
+    );
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    callbacks = new Map();
+    tasks = {
+      subscribeToTasks: jest.fn(async (networkId: string, callback: any) => {
+        callbacks.set(networkId, callback);
+      }),
+      unsubscribeFromTasks: jest.fn(async (networkId: string) => {
+        callbacks.delete(networkId);
+      }),
+    };
+    states = new Map();
+    submitted = [];
+    taskService = {
+      getTaskState: jest.fn(async (taskId: string) => states.get(taskId) || null),
+      addValidatorEvaluation: jest.fn(
+        async (taskId: string, validatorAddress: string, outputId: string, score: number, confidence: number,
+          signature: string, manifest: any, details: any) => {
+          const evaluation = { validatorAddress, outputId, score, confidence, signature, ...details };
+          submitted.push(evaluation);
+          return evaluation;
+        }
+      ),
+    };
+    manifest = deterministicManifest;
+    manifests = {
+      getNetworkManifest: jest.fn(async (networkId: string) => (networkId === manifest.networkId ? manifest : null)),
+    };
+    scoringRuntime = {
+      scoreOutputs: jest.fn(async (scoringLogic: any, input: any, outputs: TaskOutput[]) =>
+        new Map(outputs.map(o => [o.outputId, o.output === 'bad' ? { error: 'trap' } : { score: o.output.length }]))
+      ),
+    };
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+  });
+
+  it('should score, sign and submit evaluations that verify against the signed message', async () => {
+    states.set('task-1', state('task-1', [output('o1', 'short'), output('o2', 'longer answer'), output('o3', 'bad')]));
+    agent = createAgent();
+    await agent.start();
+
+    callbacks.get('net-1')!(announce('task-1'));
+    await until(() => agent.getStats().completed === 1);
+
+    expect(scoringRuntime.scoreOutputs).toHaveBeenCalledWith(
+      deterministicManifest.scoringLogic,
+      { prompt: 'hello' },
+      expect.any(Array)
+    );
+    expect(submitted.map(e => [e.outputId, e.score, e.confidence])).toEqual([['o1', 5, 1], ['o2', 13, 1]]);
+
+    const verification = new SignatureVerificationService(mockLogger).verifyTaskEvaluationSignatures(
+      'net-1',
+      'task-1',
+      submitted
+    );
+    expect(verification.allValid).toBe(true);
+    expect(submitted[0].validatorAddress).toBe(wallet.address);
+  });
+
+  it('should sign EIP-712 typed data on EVM settlement chains', async () => {
+    const settlement = { mode: 'escrow', chain: 'polygon', contractAddress: '0x' + '12'.repeat(20) };
+    manifest = { ...deterministicManifest, settlement };
+    states.set('task-1', state('task-1', [output('o1', 'short')]));
+    agent = createAgent();
+    await agent.start();
+
+    callbacks.get('net-1')!(announce('task-1'));
+    await until(() => agent.getStats().completed === 1);
+
+    const service = new SignatureVerificationService(mockLogger);
+    const domain = getNetworkSigningDomain({ settlement } as any);
+    expect(service.verifyTaskEvaluationSignatures('net-1', 'task-1', submitted, { domain }).results[0].scheme)
+      .toBe('eip712');
+    expect(service.verifyTaskEvaluationSignatures('net-1', 'task-1', submitted).allValid).toBe(false);
+  });
+
+  it('should use its own method config for statistical networks and skip outputs it already evaluated', async () => {
+    const previous = { validatorAddress: wallet.address.toLowerCase(), outputId: 'o1' } as ValidatorEvaluation;
+    states.set('task-1', state('task-1', [
+      output('o1', 'The quick brown fox jumps over the lazy dog'),
+      output('o2', 'A quick brown fox jumped over a lazy dog'),
+      output('o3', 'Quarterly revenue grew by twelve percent'),
+    ], [previous]));
+    agent = createAgent({
+      methodConfig: {
+        embeddingMethod: 'hash-based',
+        clusteringAlgorithm: 'simple',
+        contributionWeights: { robustness: 0.2, novelty: 0.4, diversity: 0.4 },
+      },
+    });
+    await agent.start();
+
+    manifest = statisticalManifest;
+    agent.enqueue(announce('task-1'));
+    await until(() => agent.getStats().completed === 1);
+
+    expect(scoringRuntime.scoreOutputs).not.toHaveBeenCalled();
+    expect(submitted.map(e => e.outputId)).toEqual(['o2', 'o3']);
+    for (const evaluation of submitted) {
+      expect(evaluation.score).toBeGreaterThanOrEqual(0);
+      expect(evaluation.score).toBeLessThanOrEqual(100);
+      expect(evaluation.methodConfig?.embeddingMethod).toBe('hash-based');
+      expect(evaluation.methodConfig?.methodId).toMatch(/^method_/);
+    }
+  });
+
+  it('should resolve the manifest by network and ignore the announced CID', async () => {
+    states.set('task-1', state('task-1', [output('o1', 'short')]));
+    agent = createAgent();
+    await agent.start();
+
+    agent.enqueue(announce('task-1', 'QmAttackerManifest'));
+    await until(() => agent.getStats().completed === 1);
+
+    expect(manifests.getNetworkManifest).toHaveBeenCalledWith('net-1');
+    expect(scoringRuntime.scoreOutputs.mock.calls[0][0]).toBe(deterministicManifest.scoringLogic);
+
+    manifest = { ...deterministicManifest, networkId: 'net-2' };
+    await expect(createAgent().evaluateTask(announce('task-1'))).rejects.toThrow('Network manifest not found: net-1');
+  });
+
+  it('should wait for the minimum number of outputs without using up attempts', async () => {
+    states.set('task-1', state('task-1', [output('o1', 'first')]));
+    agent = createAgent({ maxAttempts: 1 });
+    await agent.start();
+
+    manifest = statisticalManifest;
+    agent.enqueue(announce('task-1'));
+    await until(() => taskService.getTaskState.mock.calls.length >= 3);
+    expect(submitted).toHaveLength(0);
+
+    states.set('task-1', state('task-1', [output('o1', 'first'), output('o2', 'second'), output('o3', 'third')]));
+    await until(() => agent.getStats().completed === 1);
+
+    expect(submitted).toHaveLength(3);
+    expect(agent.getStats().failed).toBe(0);
+  });
+
+  it('should retry failed tasks and give up after maxAttempts', async () => {
+    states.set('task-1', state('task-1', [output('o1', 'answer')]));
+    taskService.addValidatorEvaluation.mockRejectedValueOnce(new Error('rpc unavailable'));
+    agent = createAgent();
+    await agent.start();
+
+    agent.enqueue(announce('task-1'));
+    await until(() => agent.getStats().completed === 1);
+    expect(taskService.addValidatorEvaluation).toHaveBeenCalledTimes(2);
+
+    agent.enqueue(announce('missing-task'));
+    await until(() => agent.getStats().failed === 1);
+    expect(taskService.getTaskState.mock.calls.filter((c: any) => c[0] === 'missing-task')).toHaveLength(3);
+    expect(mockLogger.error).toHaveBeenCalledWith('Giving up on task evaluation', expect.objectContaining({
+      taskId: 'missing-task',
+      attempts: 3,
+    }));
+  });
+
+  it('should drop announcements when the backlog is full', async () => {
+    let release: () => void = () => undefined;
+    taskService.getTaskState.mockImplementation(async (taskId: string) => {
+      await new Promise<void>(resolve => { release = resolve; });
+      return state(taskId, []);
+    });
+    agent = createAgent({ concurrency: 1, maxPendingTasks: 1 });
+    await agent.start();
+
+    expect(agent.enqueue(announce('task-1'))).toBe(true);
+    expect(agent.enqueue(announce('task-2'))).toBe(true);
+    expect(agent.enqueue(announce('task-3'))).toBe(false);
+    expect(agent.enqueue(announce('task-1'))).toBe(false);
+    expect(agent.enqueue({ ...announce('task-4'), deadline: Date.now() - 1 })).toBe(false);
+
+    expect(agent.getStats()).toMatchObject({ inFlight: 1, queued: 1, dropped: 3 });
+
+    await until(() => taskService.getTaskState.mock.calls.length === 1);
+    const stopped = agent.stop();
+    release();
+    await stopped;
+  });
+
+  it('should unsubscribe and finish in-flight tasks on stop', async () => {
+    let release: () => void = () => undefined;
+    states.set('task-1', state('task-1', [output('o1', 'answer')]));
+    taskService.getTaskState.mockImplementationOnce(async (taskId: string) => {
+      await new Promise<void>(resolve => { release = resolve; });
+      return states.get(taskId)!;
+    });
+    agent = createAgent({ concurrency: 1 });
+    await agent.start();
+
+    agent.enqueue(announce('task-1'));
+    agent.enqueue(announce('task-2'));
+    await until(() => taskService.getTaskState.mock.calls.length === 1);
+
+    const stopped = agent.stop();
+    expect(tasks.unsubscribeFromTasks).toHaveBeenCalledWith('net-1');
+    release();
+    await stopped;
+
+    expect(submitted.map(e => e.outputId)).toEqual(['o1']);
+    expect(taskService.getTaskState).toHaveBeenCalledTimes(1);
+    expect(agent.enqueue(announce('task-3'))).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Validator State Store Tests
+ *
+ * Tests for persisting validator reputation, calibration and risk state through IValidatorRepository
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ValidatorStateStore } from '../ValidatorStateStore';
+import { ValidatorReputationService } from '../ValidatorReputationService';
+import { RiskScoringService } from '../RiskScoringService';
+import { AdversarialTestingService } from '../AdversarialTestingService';
+import { InMemoryValidatorRepository } from '../adapters/database/InMemoryValidatorRepository';
+import { ILogger } from '../utils/ILogger';
+
+// The global invariant checker builds its own logger; these tests only care about persistence
+jest.mock('../InvariantChecker', () => ({
+  getInvariantChecker: () => ({
+    checkReputationBounds: () => undefined,
+    checkRiskVectorBounds: () => undefined,
+  }),
+}));
+
+describe('ValidatorStateStore', () => {
+  let repository: InMemoryValidatorRepository;
+  let logger: ILogger;
+
+  beforeEach(() => {
+    repository = new InMemoryValidatorRepository();
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+  });
+
+  describe('update', () => {
+    it('should keep concurrent changes from several processes', async () => {
+      const storeA = new ValidatorStateStore<number[]>(repository, 'risk-history', logger);
+      const storeB = new ValidatorStateStore<number[]>(repository, 'risk-history', logger);
+
+      await Promise.all([
+        storeA.update('0xval', current => [...(current || []), 1]),
+        storeB.update('0xval', current => [...(current || []), 2]),
+        storeA.update('0xval', current => [...(current || []), 3]),
+      ]);
+
+      const stored = await repository.getState<number[]>('0xval', 'risk-history');
+      expect(stored?.data.slice().sort()).toEqual([1, 2, 3]);
+      expect(stored?.version).toBe(3);
+      expect(logger.debug).toHaveBeenCalledWith('Validator state version conflict, retrying', expect.anything());
+    });
+
+    it('should give up when the state keeps changing', async () => {
+      jest.spyOn(repository, 'saveState').mockResolvedValue(null);
+      const store = new ValidatorStateStore<number>(repository, 'reputation', logger, 3);
+
+      await expect(store.update('0xval', () => 1)).rejects.toThrow('gave up after 3 attempts');
+      expect(repository.saveState).toHaveBeenCalledTimes(3);
+    });
+
+    it('should log background failures and still flush', async () => {
+      jest.spyOn(repository, 'getState').mockRejectedValue(new Error('database unavailable'));
+      const store = new ValidatorStateStore<number>(repository, 'reputation', logger);
+
+      store.updateInBackground('0xval', () => 1);
+      await store.flush();
+
+      expect(logger.error).toHaveBeenCalledWith('Failed to persist validator state', expect.objectContaining({
+        error: 'database unavailable',
+      }));
+    });
+  });
+
+  describe('ValidatorReputationService', () => {
+    const success = { valid: true, shouldReject: false };
+
+    it('should build on reputation updates made by other processes', async () => {
+      const serviceA = new ValidatorReputationService(logger as any, repository);
+      const serviceB = new ValidatorReputationService(logger as any, repository);
+
+      await serviceA.updateReputation('0xval', success, true);
+      const update = await serviceB.updateReputation('0xval', success, true);
+
+      expect(update.oldReputation).toBe(51);
+      expect(serviceB.getReputation('0xval')?.totalValidations).toBe(2);
+
+      // A still has its own cached copy until it reloads
+      expect(serviceA.getReputation('0xval')?.totalValidations).toBe(1);
+      await serviceA.loadReputations(['0xval']);
+      expect(serviceA.getReputation('0xval')?.totalValidations).toBe(2);
+    });
+
+    it('should restore risk vectors and task-conditioned reputations after a restart', async () => {
+      const service = new ValidatorReputationService(logger as any, repository);
+      service.updateRiskVector('0xval', { wasSuccessful: true, surprisal: 0.8 });
+      service.updateTaskConditionedReputation('0xval', 'net-1', 'text', true);
+      await service.flush();
+
+      const restarted = new ValidatorReputationService(logger as any, repository);
+      await restarted.loadReputations();
+
+      expect(restarted.getReputation('0xval')?.surprisalHistory).toEqual([0.8]);
+      expect(restarted.getRiskVector('0xval')?.surprisal).toBe(0.8);
+      expect(restarted.getTaskConditionedReputation('0xval', 'net-1', 'text')).toMatchObject({
+        totalTasks: 1,
+        successfulTasks: 1,
+      });
+    });
+
+    it('should delete stored reputation on reset', async () => {
+      const service = new ValidatorReputationService(logger as any, repository);
+      await service.updateReputation('0xval', success, true);
+
+      service.resetReputation('0xval');
+      await service.flush();
+
+      await expect(repository.getState('0xval', 'reputation')).resolves.toBeNull();
+    });
+  });
+
+  describe('history services', () => {
+    it('should share risk history between RiskScoringService instances', async () => {
+      const service = new RiskScoringService(logger as any, repository);
+      for (let i = 0; i < 105; i++) {
+        service.trackValidatorRisk('0xval', i / 100);
+      }
+      await service.flush();
+
+      const stored = await repository.getState<number[]>('0xval', 'risk-history');
+      expect(stored?.data).toHaveLength(100);
+      expect(stored?.data[0]).toBe(0.05);
+
+      const other = new RiskScoringService(logger as any, repository);
+      other.trackValidatorRisk('0xval', 2);
+      await other.flush();
+
+      const updated = await repository.getState<number[]>('0xval', 'risk-history');
+      expect(updated?.data).toHaveLength(100);
+      expect(updated?.data[0]).toBe(0.06);
+      expect(updated?.data[99]).toBe(2);
+    });
+
+    it('should persist adversarial test history', async () => {
+      const service = new AdversarialTestingService(undefined, logger as any, repository);
+      service.evaluateTestResult('0xval', 'known-bad-output', 'reject', 'reject', { score: 5, confidence: 0.9 });
+      await service.flush();
+
+      const restarted = new AdversarialTestingService(undefined, logger as any, repository);
+      await restarted.loadTestHistory();
+
+      expect(restarted.getTestHistory('0xval')).toHaveLength(1);
+      expect(restarted.getTestStatistics('0xval').totalTests).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * In-Memory Repositories Conformance Tests
+ *
+ * Runs the shared repository conformance suite against the in-memory adapters
+ */
+
+import { InMemoryNetworkRepository } from '../../adapters/database/InMemoryNetworkRepository';
+import { InMemoryTaskRepository } from '../../adapters/database/InMemoryTaskRepository';
+import { InMemoryCollusionRepository } from '../../adapters/database/InMemoryCollusionRepository';
+import { InMemoryValidatorInteractionRepository } from '../../adapters/database/InMemoryValidatorInteractionRepository';
+import { InMemoryValidatorRepository } from '../../adapters/database/InMemoryValidatorRepository';
+import { InMemoryBootstrapRepository } from '../../adapters/database/InMemoryBootstrapRepository';
+import { InMemoryGraduationRepository } from '../../adapters/database/InMemoryGraduationRepository';
+import { InMemoryDisputeRepository } from '../../adapters/database/InMemoryDisputeRepository';
+import { InMemoryINCCallRepository } from '../../adapters/database/InMemoryINCCallRepository';
+import { InMemoryTaskClaimRepository } from '../../adapters/database/InMemoryTaskClaimRepository';
+import { InMemoryEventStore } from '../../adapters/events/InMemoryEventStore';
+import { describeRepositoryConformance } from '../../test-utils/repositoryConformance';
+
+describeRepositoryConformance({
+  name: 'In-memory',
+  createRepositories: async () => ({
+    networkRepo: new InMemoryNetworkRepository(),
+    taskRepo: new InMemoryTaskRepository(),
+    collusionRepo: new InMemoryCollusionRepository(),
+    validatorInteractionRepo: new InMemoryValidatorInteractionRepository(),
+    validatorRepo: new InMemoryValidatorRepository(),
+    bootstrapRepo: new InMemoryBootstrapRepository(),
+    graduationRepo: new InMemoryGraduationRepository(),
+    disputeRepo: new InMemoryDisputeRepository(),
+    incCallRepo: new InMemoryINCCallRepository(),
+    taskClaimRepo: new InMemoryTaskClaimRepository(),
+    eventStore: new InMemoryEventStore(),
+  }),
+});
@@ -0,0 +1,54 @@
+/**
+ * Mongo Repositories Conformance Tests
+ *
+ * Runs the shared repository conformance suite against MongoDB.
+ * Skipped unless MONGODB_URL points at a test deployment (MONGODB_DB names the database,
+ * default tenseuron_test).
+ */
+
+import { describe, it } from '@jest/globals';
+import { MongoNetworkRepository } from '../../adapters/database/MongoNetworkRepository';
+import { MongoTaskRepository } from '../../adapters/database/MongoTaskRepository';
+import { MongoCollusionRepository } from '../../adapters/database/MongoCollusionRepository';
+import { MongoValidatorInteractionRepository } from '../../adapters/database/MongoValidatorInteractionRepository';
+import { MongoBootstrapRepository } from '../../adapters/database/MongoBootstrapRepository';
+import { MongoGraduationRepository } from '../../adapters/database/MongoGraduationRepository';
+import { MongoDisputeRepository } from '../../adapters/database/MongoDisputeRepository';
+import { MongoEventStore } from '../../adapters/events/MongoEventStore';
+import { MONGO_COLLECTIONS } from '../../adapters/database/MongoTypes';
+import { describeRepositoryConformance } from '../../test-utils/repositoryConformance';
+
+if (process.env.MONGODB_URL) {
+  let client: any;
+
+  describeRepositoryConformance({
+    name: 'Mongo',
+    createRepositories: async () => {
+      // Loaded lazily so the suite can be skipped where the mongodb driver is not installed
+      const { MongoClient } = require('mongodb');
+
+      client = await MongoClient.connect(process.env.MONGODB_URL);
+      const db = client.db(process.env.MONGODB_DB || 'tenseuron_test');
+      // MongoEventStore relies on this index to reject duplicate versions
+      await db.collection(MONGO_COLLECTIONS.domainEvents).createIndex({ aggregateId: 1, version: 1 }, { unique: true });
+
+      return {
+        networkRepo: new MongoNetworkRepository(db),
+        taskRepo: new MongoTaskRepository(db),
+        collusionRepo: new MongoCollusionRepository(db),
+        validatorInteractionRepo: new MongoValidatorInteractionRepository(db),
+        bootstrapRepo: new MongoBootstrapRepository(db),
+        graduationRepo: new MongoGraduationRepository(db),
+        disputeRepo: new MongoDisputeRepository(db),
+        eventStore: new MongoEventStore(db),
+      };
+    },
+    teardown: async () => {
+      await client?.close();
+    },
+  });
+} else {
+  describe.skip('Mongo repository conformance (set MONGODB_URL to run)', () => {
+    it('requires a database', () => undefined);
+  });
+}
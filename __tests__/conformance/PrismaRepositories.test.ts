@@ -0,0 +1,54 @@
+/**
+ * Prisma Repositories Conformance Tests
+ *
+ * Runs the shared repository conformance suite against a real database.
+ * Skipped unless DATABASE_URL points at a migrated test database.
+ */
+
+import { describe, it } from '@jest/globals';
+import { describeRepositoryConformance } from '../../test-utils/repositoryConformance';
+
+if (process.env.DATABASE_URL) {
+  let prisma: any;
+
+  describeRepositoryConformance({
+    name: 'Prisma',
+    createRepositories: async () => {
+      // Loaded lazily so the suite can be skipped where @prisma/client is not generated
+      const { PrismaClient } = require('@prisma/client');
+      const { PrismaNetworkRepository } = require('../../adapters/database/PrismaNetworkRepository');
+      const { PrismaTaskRepository } = require('../../adapters/database/PrismaTaskRepository');
+      const { PrismaCollusionRepository } = require('../../adapters/database/PrismaCollusionRepository');
+      const { PrismaValidatorInteractionRepository } = require('../../adapters/database/PrismaValidatorInteractionRepository');
+      const { PrismaValidatorRepository } = require('../../adapters/database/PrismaValidatorRepository');
+      const { PrismaBootstrapRepository } = require('../../adapters/database/PrismaBootstrapRepository');
+      const { PrismaGraduationRepository } = require('../../adapters/database/PrismaGraduationRepository');
+      const { PrismaDisputeRepository } = require('../../adapters/database/PrismaDisputeRepository');
+      const { PrismaINCCallRepository } = require('../../adapters/database/PrismaINCCallRepository');
+      const { PrismaTaskClaimRepository } = require('../../adapters/database/PrismaTaskClaimRepository');
+      const { PrismaEventStore } = require('../../adapters/events/PrismaEventStore');
+
+      prisma = new PrismaClient();
+      return {
+        networkRepo: new PrismaNetworkRepository(prisma),
+        taskRepo: new PrismaTaskRepository(prisma),
+        collusionRepo: new PrismaCollusionRepository(prisma),
+        validatorInteractionRepo: new PrismaValidatorInteractionRepository(prisma),
+        validatorRepo: new PrismaValidatorRepository(prisma),
+        bootstrapRepo: new PrismaBootstrapRepository(prisma),
+        graduationRepo: new PrismaGraduationRepository(prisma),
+        disputeRepo: new PrismaDisputeRepository(prisma),
+        incCallRepo: new PrismaINCCallRepository(prisma),
+        taskClaimRepo: new PrismaTaskClaimRepository(prisma),
+        eventStore: new PrismaEventStore(prisma),
+      };
+    },
+    teardown: async () => {
+      await prisma?.$disconnect();
+    },
+  });
+} else {
+  describe.skip('Prisma repository conformance (set DATABASE_URL to run)', () => {
+    it('requires a database', () => undefined);
+  });
+}
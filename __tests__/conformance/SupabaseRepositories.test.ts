@@ -0,0 +1,47 @@
+/**
+ * Supabase Repositories Conformance Tests
+ *
+ * Runs the shared repository conformance suite against a Supabase project.
+ * Skipped unless SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY point at a test project
+ * with adapters/database/supabase/schema.sql applied.
+ */
+
+import { describe, it } from '@jest/globals';
+import { SupabaseNetworkRepository } from '../../adapters/database/SupabaseNetworkRepository';
+import { SupabaseTaskRepository } from '../../adapters/database/SupabaseTaskRepository';
+import { SupabaseCollusionRepository } from '../../adapters/database/SupabaseCollusionRepository';
+import { SupabaseValidatorInteractionRepository } from '../../adapters/database/SupabaseValidatorInteractionRepository';
+import { SupabaseBootstrapRepository } from '../../adapters/database/SupabaseBootstrapRepository';
+import { SupabaseGraduationRepository } from '../../adapters/database/SupabaseGraduationRepository';
+import { SupabaseDisputeRepository } from '../../adapters/database/SupabaseDisputeRepository';
+import { SupabaseEventStore } from '../../adapters/events/SupabaseEventStore';
+import { describeRepositoryConformance } from '../../test-utils/repositoryConformance';
+
+const url = process.env.SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (url && key) {
+  describeRepositoryConformance({
+    name: 'Supabase',
+    createRepositories: async () => {
+      // Loaded lazily so the suite can be skipped where @supabase/supabase-js is not installed
+      const { createClient } = require('@supabase/supabase-js');
+
+      const client = createClient(url, key, { auth: { persistSession: false } });
+      return {
+        networkRepo: new SupabaseNetworkRepository(client),
+        taskRepo: new SupabaseTaskRepository(client),
+        collusionRepo: new SupabaseCollusionRepository(client),
+        validatorInteractionRepo: new SupabaseValidatorInteractionRepository(client),
+        bootstrapRepo: new SupabaseBootstrapRepository(client),
+        graduationRepo: new SupabaseGraduationRepository(client),
+        disputeRepo: new SupabaseDisputeRepository(client),
+        eventStore: new SupabaseEventStore(client),
+      };
+    },
+  });
+} else {
+  describe.skip('Supabase repository conformance (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run)', () => {
+    it('requires a database', () => undefined);
+  });
+}
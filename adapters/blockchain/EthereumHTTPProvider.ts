@@ -150,13 +150,23 @@ export class EthereumHTTPProvider implements IBlockchainProvider {
                 })
             });
 
-            const data = await response.json();
+            const data: any = await response.json();
 
             if (data.error) {
                 throw new Error(data.error.message);
             }
+            if (!data.result) {
+                return null;
+            }
 
-            return data.result;
+            // Raw JSON-RPC receipts use hex quantities ("0x1" for success)
+            return {
+                ...data.result,
+                transactionHash: data.result.transactionHash,
+                blockNumber: parseInt(data.result.blockNumber, 16),
+                status: data.result.status === '0x1' ? 'success' : 'failed',
+                logs: data.result.logs || [],
+            };
         } catch (error) {
             this.logger.error('Failed to get transaction receipt', { txHash, error });
             throw error;
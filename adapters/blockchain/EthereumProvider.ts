@@ -95,6 +95,11 @@ export class EthereumProvider implements IBlockchainProvider {
             from: receipt.from,
             to: receipt.to || undefined,
             contractAddress: receipt.contractAddress || undefined,
+            logs: receipt.logs.map(log => ({
+                address: log.address,
+                topics: [...log.topics],
+                data: log.data,
+            })),
         };
     }
 
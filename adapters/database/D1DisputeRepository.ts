@@ -0,0 +1,145 @@
+/**
+ * D1 Dispute Repository
+ *
+ * Cloudflare D1 (SQLite) implementation of IDisputeRepository
+ */
+
+import { IDisputeRepository, DisputeData } from '../../interfaces/IDisputeRepository';
+
+export class D1DisputeRepository implements IDisputeRepository {
+    constructor(private db: D1Database) { }
+
+    async create(data: Omit<DisputeData, 'id' | 'openedAt'>): Promise<DisputeData> {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+
+        await this.db.prepare(`
+            INSERT INTO task_disputes (
+                id, taskId, networkId, challengerAddress, reason, evidenceCid, stake,
+                resolutionMode, status, challengerWon, resolutionTxHash, windowEndsAt, openedAt, resolvedAt
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+            id,
+            data.taskId,
+            data.networkId,
+            data.challengerAddress,
+            data.reason,
+            data.evidenceCid,
+            data.stake || null,
+            data.resolutionMode,
+            data.status,
+            data.challengerWon === undefined ? null : (data.challengerWon ? 1 : 0),
+            data.resolutionTxHash || null,
+            data.windowEndsAt.toISOString(),
+            now,
+            data.resolvedAt?.toISOString() || null
+        ).run();
+
+        return {
+            id,
+            ...data,
+            openedAt: new Date(now),
+        };
+    }
+
+    async findById(id: string): Promise<DisputeData | null> {
+        const result = await this.db.prepare(`
+            SELECT * FROM task_disputes WHERE id = ? LIMIT 1
+        `).bind(id).first();
+
+        return result ? this.mapToDisputeData(result) : null;
+    }
+
+    async findByTask(taskId: string): Promise<DisputeData[]> {
+        const result = await this.db.prepare(`
+            SELECT * FROM task_disputes WHERE taskId = ? ORDER BY openedAt DESC
+        `).bind(taskId).all();
+
+        return (result.results || []).map((row: any) => this.mapToDisputeData(row));
+    }
+
+    async findOpen(networkId?: string, limit?: number): Promise<DisputeData[]> {
+        let query = "SELECT * FROM task_disputes WHERE status = 'open'";
+        const params: any[] = [];
+
+        if (networkId) {
+            query += ' AND networkId = ?';
+            params.push(networkId);
+        }
+
+        query += ' ORDER BY openedAt ASC';
+
+        if (limit) {
+            query += ' LIMIT ?';
+            params.push(limit);
+        }
+
+        const result = await this.db.prepare(query).bind(...params).all();
+
+        return (result.results || []).map((row: any) => this.mapToDisputeData(row));
+    }
+
+    async countUnresolved(networkId: string, from: Date, to: Date): Promise<number> {
+        const result = await this.db.prepare(`
+            SELECT COUNT(*) as count FROM task_disputes
+            WHERE networkId = ? AND status = 'open' AND openedAt >= ? AND openedAt <= ?
+        `).bind(networkId, from.toISOString(), to.toISOString()).first();
+
+        return (result as any)?.count || 0;
+    }
+
+    async update(id: string, data: Partial<DisputeData>): Promise<DisputeData> {
+        const updates: string[] = [];
+        const bindings: any[] = [];
+
+        if (data.status) {
+            updates.push('status = ?');
+            bindings.push(data.status);
+        }
+        if (data.challengerWon !== undefined) {
+            updates.push('challengerWon = ?');
+            bindings.push(data.challengerWon ? 1 : 0);
+        }
+        if (data.resolutionTxHash !== undefined) {
+            updates.push('resolutionTxHash = ?');
+            bindings.push(data.resolutionTxHash);
+        }
+        if (data.resolvedAt !== undefined) {
+            updates.push('resolvedAt = ?');
+            bindings.push(data.resolvedAt.toISOString());
+        }
+
+        if (updates.length > 0) {
+            bindings.push(id);
+            await this.db.prepare(`
+                UPDATE task_disputes SET ${updates.join(', ')} WHERE id = ?
+            `).bind(...bindings).run();
+        }
+
+        const updated = await this.db.prepare(`
+            SELECT * FROM task_disputes WHERE id = ? LIMIT 1
+        `).bind(id).first();
+
+        if (!updated) throw new Error('Dispute not found after update');
+        return this.mapToDisputeData(updated);
+    }
+
+    private mapToDisputeData(row: any): DisputeData {
+        return {
+            id: row.id,
+            taskId: row.taskId,
+            networkId: row.networkId,
+            challengerAddress: row.challengerAddress,
+            reason: row.reason,
+            evidenceCid: row.evidenceCid,
+            stake: row.stake || undefined,
+            resolutionMode: row.resolutionMode,
+            status: row.status,
+            challengerWon: row.challengerWon === null || row.challengerWon === undefined ? undefined : Boolean(row.challengerWon),
+            resolutionTxHash: row.resolutionTxHash || undefined,
+            windowEndsAt: new Date(row.windowEndsAt),
+            openedAt: new Date(row.openedAt),
+            resolvedAt: row.resolvedAt ? new Date(row.resolvedAt) : undefined,
+        };
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * D1 INC Call Repository
+ *
+ * Cloudflare D1 (SQLite) implementation of IINCCallRepository
+ */
+
+import { IINCCallRepository, INCCallRecord, INCCallStatus } from '../../interfaces/IINCCallRepository';
+
+export class D1INCCallRepository implements IINCCallRepository {
+    constructor(private db: D1Database) { }
+
+    async create(data: Omit<INCCallRecord, 'createdAt' | 'updatedAt'>): Promise<INCCallRecord> {
+        const now = new Date().toISOString();
+
+        await this.db.prepare(`
+            INSERT INTO inc_calls (
+                incId, sourceNetworkId, destinationNetworkId, status, call, callbackUrl, deadline, price, budget,
+                receipt, failure, refundTxHash, callbackAttempts, callbackDeliveredAt, createdAt, updatedAt
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+            data.incId,
+            data.sourceNetworkId,
+            data.destinationNetworkId,
+            data.status,
+            JSON.stringify(data.call),
+            data.callbackUrl || null,
+            data.deadline?.toISOString() || null,
+            data.price || null,
+            data.budget ? JSON.stringify(data.budget) : null,
+            data.receipt ? JSON.stringify(data.receipt) : null,
+            data.failure ? JSON.stringify(data.failure) : null,
+            data.refundTxHash || null,
+            data.callbackAttempts,
+            data.callbackDeliveredAt?.toISOString() || null,
+            now,
+            now
+        ).run();
+
+        return {
+            ...data,
+            createdAt: new Date(now),
+            updatedAt: new Date(now),
+        };
+    }
+
+    async findById(incId: string): Promise<INCCallRecord | null> {
+        const result = await this.db.prepare(`
+            SELECT * FROM inc_calls WHERE incId = ? LIMIT 1
+        `).bind(incId).first();
+
+        return result ? this.mapToINCCallRecord(result) : null;
+    }
+
+    async findByStatus(status: INCCallStatus, limit?: number): Promise<INCCallRecord[]> {
+        let query = 'SELECT * FROM inc_calls WHERE status = ? ORDER BY createdAt ASC';
+        const params: any[] = [status];
+
+        if (limit) {
+            query += ' LIMIT ?';
+            params.push(limit);
+        }
+
+        const result = await this.db.prepare(query).bind(...params).all();
+
+        return (result.results || []).map((row: any) => this.mapToINCCallRecord(row));
+    }
+
+    async findPendingCallbacks(maxAttempts: number, limit?: number): Promise<INCCallRecord[]> {
+        let query = `
+            SELECT * FROM inc_calls
+            WHERE status IN ('completed', 'failed', 'refunded')
+            AND callbackDeliveredAt IS NULL AND callbackAttempts < ?
+            ORDER BY createdAt ASC
+        `;
+        const params: any[] = [maxAttempts];
+
+        if (limit) {
+            query += ' LIMIT ?';
+            params.push(limit);
+        }
+
+        const result = await this.db.prepare(query).bind(...params).all();
+
+        return (result.results || []).map((row: any) => this.mapToINCCallRecord(row));
+    }
+
+    async update(incId: string, data: Partial<INCCallRecord>): Promise<INCCallRecord> {
+        const updates: string[] = [];
+        const bindings: any[] = [];
+
+        if (data.status) {
+            updates.push('status = ?');
+            bindings.push(data.status);
+        }
+        if (data.deadline !== undefined) {
+            updates.push('deadline = ?');
+            bindings.push(data.deadline.toISOString());
+        }
+        if (data.price !== undefined) {
+            updates.push('price = ?');
+            bindings.push(data.price);
+        }
+        if (data.budget !== undefined) {
+            updates.push('budget = ?');
+            bindings.push(JSON.stringify(data.budget));
+        }
+        if (data.receipt !== undefined) {
+            updates.push('receipt = ?');
+            bindings.push(JSON.stringify(data.receipt));
+        }
+        if (data.failure !== undefined) {
+            updates.push('failure = ?');
+            bindings.push(JSON.stringify(data.failure));
+        }
+        if (data.refundTxHash !== undefined) {
+            updates.push('refundTxHash = ?');
+            bindings.push(data.refundTxHash);
+        }
+        if (data.callbackAttempts !== undefined) {
+            updates.push('callbackAttempts = ?');
+            bindings.push(data.callbackAttempts);
+        }
+        if (data.callbackDeliveredAt !== undefined) {
+            updates.push('callbackDeliveredAt = ?');
+            bindings.push(data.callbackDeliveredAt.toISOString());
+        }
+
+        updates.push('updatedAt = ?');
+        bindings.push(new Date().toISOString());
+        bindings.push(incId);
+
+        await this.db.prepare(`
+            UPDATE inc_calls SET ${updates.join(', ')} WHERE incId = ?
+        `).bind(...bindings).run();
+
+        const updated = await this.db.prepare(`
+            SELECT * FROM inc_calls WHERE incId = ? LIMIT 1
+        `).bind(incId).first();
+
+        if (!updated) throw new Error('INC call not found after update');
+        return this.mapToINCCallRecord(updated);
+    }
+
+    private mapToINCCallRecord(row: any): INCCallRecord {
+        return {
+            incId: row.incId,
+            sourceNetworkId: row.sourceNetworkId,
+            destinationNetworkId: row.destinationNetworkId,
+            status: row.status,
+            call: JSON.parse(row.call),
+            callbackUrl: row.callbackUrl || undefined,
+            deadline: row.deadline ? new Date(row.deadline) : undefined,
+            price: row.price || undefined,
+            budget: row.budget ? JSON.parse(row.budget) : undefined,
+            receipt: row.receipt ? JSON.parse(row.receipt) : undefined,
+            failure: row.failure ? JSON.parse(row.failure) : undefined,
+            refundTxHash: row.refundTxHash || undefined,
+            callbackAttempts: row.callbackAttempts || 0,
+            callbackDeliveredAt: row.callbackDeliveredAt ? new Date(row.callbackDeliveredAt) : undefined,
+            createdAt: new Date(row.createdAt),
+            updatedAt: new Date(row.updatedAt),
+        };
+    }
+}
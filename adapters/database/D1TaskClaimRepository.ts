@@ -0,0 +1,98 @@
+/**
+ * D1 Task Claim Repository
+ *
+ * Cloudflare D1 (SQLite) implementation of ITaskClaimRepository
+ * Expects task_claims with PRIMARY KEY (taskId, minerKey), minerKey being the lowercased miner address.
+ * claim() is a single conditional upsert; D1 runs each statement atomically, so the conflict check
+ * and the write cannot interleave with another claim.
+ */
+
+import { ITaskClaimRepository, TaskClaim } from '../../interfaces/ITaskClaimRepository';
+
+export class D1TaskClaimRepository implements ITaskClaimRepository {
+    constructor(private db: D1Database) { }
+
+    async claim(claim: TaskClaim, now: number): Promise<TaskClaim | null> {
+        const minerKey = claim.minerAddress.toLowerCase();
+
+        const result = await this.db.prepare(`
+            INSERT INTO task_claims (taskId, minerKey, minerAddress, exclusive, claimedAt, expiresAt)
+            SELECT ?, ?, ?, ?, ?, ?
+            WHERE NOT EXISTS (
+                SELECT 1 FROM task_claims
+                WHERE taskId = ? AND minerKey != ? AND expiresAt > ? AND (exclusive = 1 OR ? = 1)
+            )
+            ON CONFLICT (taskId, minerKey) DO UPDATE SET
+                minerAddress = excluded.minerAddress,
+                exclusive = excluded.exclusive,
+                expiresAt = excluded.expiresAt
+        `).bind(
+            claim.taskId,
+            minerKey,
+            claim.minerAddress,
+            claim.exclusive ? 1 : 0,
+            claim.claimedAt,
+            claim.expiresAt,
+            claim.taskId,
+            minerKey,
+            now,
+            claim.exclusive ? 1 : 0
+        ).run();
+
+        if (!result.meta.changes) {
+            return null;
+        }
+        return this.findOne(claim.taskId, minerKey);
+    }
+
+    async renew(taskId: string, minerAddress: string, expiresAt: number, now: number): Promise<TaskClaim | null> {
+        const minerKey = minerAddress.toLowerCase();
+
+        const result = await this.db.prepare(`
+            UPDATE task_claims SET expiresAt = ? WHERE taskId = ? AND minerKey = ? AND expiresAt > ?
+        `).bind(expiresAt, taskId, minerKey, now).run();
+
+        if (!result.meta.changes) {
+            return null;
+        }
+        return this.findOne(taskId, minerKey);
+    }
+
+    async release(taskId: string, minerAddress: string): Promise<void> {
+        await this.db.prepare(`
+            DELETE FROM task_claims WHERE taskId = ? AND minerKey = ?
+        `).bind(taskId, minerAddress.toLowerCase()).run();
+    }
+
+    async findByTask(taskId: string): Promise<TaskClaim[]> {
+        const result = await this.db.prepare(`
+            SELECT * FROM task_claims WHERE taskId = ? ORDER BY claimedAt ASC
+        `).bind(taskId).all();
+
+        return (result.results || []).map((row: any) => this.mapToTaskClaim(row));
+    }
+
+    async deleteByTask(taskId: string): Promise<void> {
+        await this.db.prepare(`
+            DELETE FROM task_claims WHERE taskId = ?
+        `).bind(taskId).run();
+    }
+
+    private async findOne(taskId: string, minerKey: string): Promise<TaskClaim | null> {
+        const row = await this.db.prepare(`
+            SELECT * FROM task_claims WHERE taskId = ? AND minerKey = ? LIMIT 1
+        `).bind(taskId, minerKey).first();
+
+        return row ? this.mapToTaskClaim(row) : null;
+    }
+
+    private mapToTaskClaim(row: any): TaskClaim {
+        return {
+            taskId: row.taskId,
+            minerAddress: row.minerAddress,
+            exclusive: row.exclusive === 1,
+            claimedAt: Number(row.claimedAt),
+            expiresAt: Number(row.expiresAt),
+        };
+    }
+}
@@ -297,6 +297,23 @@ export class D1TaskRepository implements ITaskRepository {
         return (result.results || []).map(task => this.mapToTaskData(task));
     }
 
+    async findOverdue(status: TaskData['status'], before: Date, limit?: number): Promise<TaskData[]> {
+        let query = 'SELECT * FROM tenseuron_tasks WHERE status = ? AND createdAt < ? ORDER BY createdAt ASC';
+        const params: any[] = [status, before.toISOString()];
+
+        if (limit) {
+            query += ' LIMIT ?';
+            params.push(limit);
+        }
+
+        const result = await this.db
+            .prepare(query)
+            .bind(...params)
+            .all<any>();
+
+        return (result.results || []).map(task => this.mapToTaskData(task));
+    }
+
     async findWaitingForSelection(networkId?: string): Promise<TaskData[]> {
         let query = 'SELECT * FROM tenseuron_tasks WHERE status = ?';
         const params: any[] = ['user-selecting'];
@@ -2,9 +2,16 @@
  * D1 Validator Repository
  * 
  * Cloudflare D1 (SQLite) implementation of IValidatorRepository
+ * Validator state lives in validator_state (validatorAddress, kind, data, version, updatedAt),
+ * with a unique (validatorAddress, kind) constraint
  */
 
-import { IValidatorRepository, ValidatorData } from '../../interfaces/IValidatorRepository';
+import {
+    IValidatorRepository,
+    ValidatorData,
+    ValidatorStateKind,
+    ValidatorStateRecord
+} from '../../interfaces/IValidatorRepository';
 
 export class D1ValidatorRepository implements IValidatorRepository {
     constructor(private db: D1Database) { }
@@ -144,6 +151,71 @@ export class D1ValidatorRepository implements IValidatorRepository {
         `).bind(new Date().toISOString(), address, networkId).run();
     }
 
+    async getState<T = any>(validatorAddress: string, kind: ValidatorStateKind): Promise<ValidatorStateRecord<T> | null> {
+        const result = await this.db.prepare(`
+            SELECT * FROM validator_state WHERE validatorAddress = ? AND kind = ? LIMIT 1
+        `).bind(validatorAddress, kind).first();
+
+        return result ? this.mapToStateRecord<T>(result) : null;
+    }
+
+    async listStates<T = any>(kind: ValidatorStateKind): Promise<ValidatorStateRecord<T>[]> {
+        const result = await this.db.prepare(`
+            SELECT * FROM validator_state WHERE kind = ? ORDER BY validatorAddress ASC
+        `).bind(kind).all();
+
+        return (result.results || []).map((row: any) => this.mapToStateRecord<T>(row));
+    }
+
+    async saveState<T = any>(
+        validatorAddress: string,
+        kind: ValidatorStateKind,
+        data: T,
+        expectedVersion: number
+    ): Promise<ValidatorStateRecord<T> | null> {
+        const now = new Date().toISOString();
+        const json = JSON.stringify(data);
+
+        const result = expectedVersion === 0
+            ? await this.db.prepare(`
+                INSERT INTO validator_state (validatorAddress, kind, data, version, updatedAt)
+                VALUES (?, ?, ?, 1, ?)
+                ON CONFLICT (validatorAddress, kind) DO NOTHING
+            `).bind(validatorAddress, kind, json, now).run()
+            : await this.db.prepare(`
+                UPDATE validator_state SET data = ?, version = version + 1, updatedAt = ?
+                WHERE validatorAddress = ? AND kind = ? AND version = ?
+            `).bind(json, now, validatorAddress, kind, expectedVersion).run();
+
+        if (!result.meta.changes) {
+            return null;
+        }
+
+        return {
+            validatorAddress,
+            kind,
+            data: JSON.parse(json),
+            version: expectedVersion + 1,
+            updatedAt: new Date(now),
+        };
+    }
+
+    async deleteState(validatorAddress: string, kind: ValidatorStateKind): Promise<void> {
+        await this.db.prepare(`
+            DELETE FROM validator_state WHERE validatorAddress = ? AND kind = ?
+        `).bind(validatorAddress, kind).run();
+    }
+
+    private mapToStateRecord<T>(row: any): ValidatorStateRecord<T> {
+        return {
+            validatorAddress: row.validatorAddress,
+            kind: row.kind,
+            data: JSON.parse(row.data),
+            version: Number(row.version),
+            updatedAt: new Date(row.updatedAt),
+        };
+    }
+
     private mapToValidatorData(row: any): ValidatorData {
         return {
             address: row.address,
@@ -0,0 +1,57 @@
+/**
+ * In-Memory AI Module Repository
+ *
+ * In-memory implementation of IAIModuleRepository for development/testing
+ * Seed it with modules through the constructor or `save()`
+ */
+
+import { IAIModuleRepository } from '../../interfaces/IAIModuleRepository';
+import { AIModule } from '../../types';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryAIModuleRepository implements IAIModuleRepository {
+    private modules: Map<string, AIModule> = new Map();
+
+    constructor(modules: AIModule[] = []) {
+        modules.forEach(module => this.modules.set(module.moduleId, cloneRecord(module)));
+    }
+
+    async getModuleById(moduleId: string): Promise<AIModule | null> {
+        const module = this.modules.get(moduleId);
+        return module ? cloneRecord(module) : null;
+    }
+
+    async getAllModules(): Promise<AIModule[]> {
+        return cloneRecord(Array.from(this.modules.values()).filter(module => module.isActive));
+    }
+
+    async getModulesByCategory(category: string): Promise<AIModule[]> {
+        return cloneRecord(
+            Array.from(this.modules.values()).filter(module => module.isActive && module.category === category)
+        );
+    }
+
+    async incrementModuleUsage(moduleId: string, tasksIncrement: bigint = BigInt(1)): Promise<void> {
+        const module = this.modules.get(moduleId);
+        if (!module) {
+            throw new Error(`Module not found: ${moduleId}`);
+        }
+
+        const totalTasks = BigInt(module.totalTasks) + tasksIncrement;
+        // Keep the representation the module was seeded with
+        module.totalTasks = typeof module.totalTasks === 'string' ? totalTasks.toString() : totalTasks;
+        module.updatedAt = new Date().toISOString();
+    }
+
+    /**
+     * Insert or replace a module
+     */
+    async save(module: AIModule): Promise<AIModule> {
+        this.modules.set(module.moduleId, cloneRecord(module));
+        return cloneRecord(module);
+    }
+
+    clear(): void {
+        this.modules.clear();
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * In-Memory Bootstrap Repository
+ *
+ * In-memory implementation of IBootstrapRepository for development/testing
+ */
+
+import { IBootstrapRepository, BootstrapConfigData } from '../../interfaces/IBootstrapRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryBootstrapRepository implements IBootstrapRepository {
+    // Keyed by networkId (one bootstrap config per network)
+    private configs: Map<string, BootstrapConfigData> = new Map();
+
+    async create(data: Omit<BootstrapConfigData, 'id' | 'createdAt' | 'updatedAt'>): Promise<BootstrapConfigData> {
+        if (this.configs.has(data.networkId)) {
+            throw new Error(`Bootstrap config already exists for network: ${data.networkId}`);
+        }
+
+        const now = new Date();
+        const config: BootstrapConfigData = {
+            ...cloneRecord(data),
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.configs.set(data.networkId, config);
+        return cloneRecord(config);
+    }
+
+    async findByNetwork(networkId: string): Promise<BootstrapConfigData | null> {
+        const config = this.configs.get(networkId);
+        return config ? cloneRecord(config) : null;
+    }
+
+    async update(networkId: string, data: Partial<BootstrapConfigData>): Promise<BootstrapConfigData> {
+        const config = this.configs.get(networkId);
+        if (!config) {
+            throw new Error(`Bootstrap config not found for network: ${networkId}`);
+        }
+
+        const { id, networkId: _networkId, createdAt, ...fields } = data;
+        for (const [key, value] of Object.entries(cloneRecord(fields))) {
+            if (value !== undefined) {
+                (config as any)[key] = value;
+            }
+        }
+        config.updatedAt = new Date();
+
+        return cloneRecord(config);
+    }
+
+    async deactivate(networkId: string): Promise<void> {
+        const config = this.configs.get(networkId);
+        if (!config) {
+            throw new Error(`Bootstrap config not found for network: ${networkId}`);
+        }
+
+        config.isActive = false;
+        config.updatedAt = new Date();
+    }
+
+    async getActiveBootstrapNetworks(): Promise<BootstrapConfigData[]> {
+        return cloneRecord(Array.from(this.configs.values()).filter(config => config.isActive));
+    }
+
+    clear(): void {
+        this.configs.clear();
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * In-Memory Collusion Repository
+ *
+ * In-memory implementation of ICollusionRepository for development/testing
+ * Score updates upsert like the database adapters: the first update creates the row with
+ * eventCount 1, later updates increment eventCount and set lastEventAt
+ */
+
+import {
+    ICollusionRepository,
+    CollusionEventData,
+    UserRejectionData,
+    CollusionScoreData
+} from '../../interfaces/ICollusionRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryCollusionRepository implements ICollusionRepository {
+    // Kept newest first
+    private events: CollusionEventData[] = [];
+    private rejections: UserRejectionData[] = [];
+    private scores: Map<string, CollusionScoreData> = new Map();
+
+    async recordEvent(data: Omit<CollusionEventData, 'id' | 'detectedAt'>): Promise<CollusionEventData> {
+        const event: CollusionEventData = {
+            ...cloneRecord(data),
+            id: crypto.randomUUID(),
+            detectedAt: new Date(),
+        };
+
+        this.events.unshift(event);
+        return cloneRecord(event);
+    }
+
+    async recordUserRejection(data: Omit<UserRejectionData, 'id' | 'createdAt'>): Promise<UserRejectionData> {
+        const rejection: UserRejectionData = {
+            ...cloneRecord(data),
+            id: crypto.randomUUID(),
+            createdAt: new Date(),
+        };
+
+        this.rejections.unshift(rejection);
+        return cloneRecord(rejection);
+    }
+
+    async findEventsByNetwork(networkId: string, limit: number = 100): Promise<CollusionEventData[]> {
+        return cloneRecord(this.events.filter(event => event.networkId === networkId).slice(0, limit));
+    }
+
+    async findEventsByValidator(validatorAddress: string, limit: number = 100): Promise<CollusionEventData[]> {
+        return cloneRecord(
+            this.events.filter(event => event.validators.includes(validatorAddress)).slice(0, limit)
+        );
+    }
+
+    async findRejectionsByNetwork(networkId: string, limit: number = 100): Promise<UserRejectionData[]> {
+        return cloneRecord(this.rejections.filter(rejection => rejection.networkId === networkId).slice(0, limit));
+    }
+
+    async findRejectionsByTask(taskId: string): Promise<UserRejectionData[]> {
+        return cloneRecord(this.rejections.filter(rejection => rejection.taskId === taskId));
+    }
+
+    async getCollusionScore(validatorAddress: string, networkId: string): Promise<number> {
+        return this.scores.get(this.scoreKey(validatorAddress, networkId))?.score || 0;
+    }
+
+    async updateCollusionScore(validatorAddress: string, networkId: string, score: number): Promise<void> {
+        const key = this.scoreKey(validatorAddress, networkId);
+        const existing = this.scores.get(key);
+        const now = new Date();
+
+        this.scores.set(key, existing
+            ? { ...existing, score, eventCount: existing.eventCount + 1, lastEventAt: now, updatedAt: now }
+            : { validatorAddress, networkId, score, eventCount: 1, updatedAt: now });
+    }
+
+    async getHighRiskValidators(networkId: string, minScore: number): Promise<CollusionScoreData[]> {
+        return cloneRecord(
+            Array.from(this.scores.values())
+                .filter(score => score.networkId === networkId && score.score >= minScore)
+                .sort((a, b) => b.score - a.score)
+        );
+    }
+
+    clear(): void {
+        this.events = [];
+        this.rejections = [];
+        this.scores.clear();
+    }
+
+    private scoreKey(validatorAddress: string, networkId: string): string {
+        return `${validatorAddress}:${networkId}`;
+    }
+}
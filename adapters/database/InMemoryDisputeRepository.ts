@@ -0,0 +1,66 @@
+/**
+ * In-Memory Dispute Repository
+ *
+ * In-memory implementation of IDisputeRepository for development/testing
+ */
+
+import { IDisputeRepository, DisputeData } from '../../interfaces/IDisputeRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryDisputeRepository implements IDisputeRepository {
+    // Kept in opening order
+    private disputes: DisputeData[] = [];
+
+    async create(data: Omit<DisputeData, 'id' | 'openedAt'>): Promise<DisputeData> {
+        const dispute: DisputeData = {
+            ...cloneRecord(data),
+            id: crypto.randomUUID(),
+            openedAt: new Date(),
+        };
+
+        this.disputes.push(dispute);
+        return cloneRecord(dispute);
+    }
+
+    async findById(id: string): Promise<DisputeData | null> {
+        const dispute = this.disputes.find(d => d.id === id);
+        return dispute ? cloneRecord(dispute) : null;
+    }
+
+    async findByTask(taskId: string): Promise<DisputeData[]> {
+        return cloneRecord(this.disputes.filter(d => d.taskId === taskId).reverse());
+    }
+
+    async findOpen(networkId?: string, limit?: number): Promise<DisputeData[]> {
+        const open = this.disputes.filter(d => d.status === 'open' && (!networkId || d.networkId === networkId));
+        return cloneRecord(limit ? open.slice(0, limit) : open);
+    }
+
+    async countUnresolved(networkId: string, from: Date, to: Date): Promise<number> {
+        return this.disputes.filter(d =>
+            d.networkId === networkId &&
+            d.status === 'open' &&
+            d.openedAt >= from &&
+            d.openedAt <= to
+        ).length;
+    }
+
+    async update(id: string, data: Partial<DisputeData>): Promise<DisputeData> {
+        const dispute = this.disputes.find(d => d.id === id);
+        if (!dispute) {
+            throw new Error(`Dispute not found: ${id}`);
+        }
+
+        // Same mutable fields as the database adapters
+        const { status, challengerWon, resolutionTxHash, resolvedAt } = data;
+        Object.assign(dispute, Object.fromEntries(
+            Object.entries({ status, challengerWon, resolutionTxHash, resolvedAt }).filter(([, value]) => value !== undefined)
+        ));
+
+        return cloneRecord(dispute);
+    }
+
+    clear(): void {
+        this.disputes = [];
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * In-Memory Graduation Repository
+ *
+ * In-memory implementation of IGraduationRepository for development/testing
+ */
+
+import { IGraduationRepository, GraduationData } from '../../interfaces/IGraduationRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryGraduationRepository implements IGraduationRepository {
+    private records: Map<string, GraduationData> = new Map();
+
+    async create(data: Omit<GraduationData, 'id' | 'createdAt' | 'updatedAt'>): Promise<GraduationData> {
+        if (this.findRecord(data.networkId)) {
+            throw new Error(`Graduation record already exists for network: ${data.networkId}`);
+        }
+
+        const now = new Date();
+        const record: GraduationData = {
+            ...cloneRecord(data),
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.records.set(record.id, record);
+        return cloneRecord(record);
+    }
+
+    async findByNetwork(networkId: string): Promise<GraduationData | null> {
+        const record = this.findRecord(networkId);
+        return record ? cloneRecord(record) : null;
+    }
+
+    async update(id: string, data: Partial<GraduationData>): Promise<GraduationData> {
+        const record = this.records.get(id);
+        if (!record) {
+            throw new Error(`Graduation record not found: ${id}`);
+        }
+
+        const { id: _id, networkId, createdAt, ...fields } = data;
+        for (const [key, value] of Object.entries(cloneRecord(fields))) {
+            if (value !== undefined) {
+                (record as any)[key] = value;
+            }
+        }
+        record.updatedAt = new Date();
+
+        return cloneRecord(record);
+    }
+
+    async getNetworksReadyForGraduation(criteria: {
+        minValidators: number;
+        minMiners: number;
+        minTasks: number;
+    }): Promise<string[]> {
+        return Array.from(this.records.values())
+            .filter(record =>
+                !record.graduatedAt &&
+                record.validatorCount >= criteria.minValidators &&
+                record.minerCount >= criteria.minMiners &&
+                record.taskCount >= criteria.minTasks
+            )
+            .map(record => record.networkId);
+    }
+
+    async markAsGraduated(networkId: string, phase: 'growth' | 'mature'): Promise<void> {
+        const record = this.findRecord(networkId);
+        if (!record) {
+            throw new Error(`Graduation record not found for network: ${networkId}`);
+        }
+
+        const now = new Date();
+        record.phase = phase;
+        record.graduatedAt = now;
+        record.updatedAt = now;
+    }
+
+    clear(): void {
+        this.records.clear();
+    }
+
+    private findRecord(networkId: string): GraduationData | undefined {
+        return Array.from(this.records.values()).find(record => record.networkId === networkId);
+    }
+}
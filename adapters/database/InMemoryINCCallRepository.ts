@@ -0,0 +1,71 @@
+/**
+ * In-Memory INC Call Repository
+ *
+ * In-memory implementation of IINCCallRepository for development/testing
+ */
+
+import { IINCCallRepository, INCCallRecord, INCCallStatus } from '../../interfaces/IINCCallRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+const SETTLED_STATUSES: INCCallStatus[] = ['completed', 'failed', 'refunded'];
+
+export class InMemoryINCCallRepository implements IINCCallRepository {
+    // Kept in creation order
+    private calls: INCCallRecord[] = [];
+
+    async create(data: Omit<INCCallRecord, 'createdAt' | 'updatedAt'>): Promise<INCCallRecord> {
+        if (this.calls.some(c => c.incId === data.incId)) {
+            throw new Error(`INC call already exists: ${data.incId}`);
+        }
+
+        const now = new Date();
+        const record: INCCallRecord = {
+            ...cloneRecord(data),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.calls.push(record);
+        return cloneRecord(record);
+    }
+
+    async findById(incId: string): Promise<INCCallRecord | null> {
+        const record = this.calls.find(c => c.incId === incId);
+        return record ? cloneRecord(record) : null;
+    }
+
+    async findByStatus(status: INCCallStatus, limit?: number): Promise<INCCallRecord[]> {
+        const matching = this.calls.filter(c => c.status === status);
+        return cloneRecord(limit ? matching.slice(0, limit) : matching);
+    }
+
+    async findPendingCallbacks(maxAttempts: number, limit?: number): Promise<INCCallRecord[]> {
+        const pending = this.calls.filter(c =>
+            SETTLED_STATUSES.includes(c.status) &&
+            !c.callbackDeliveredAt &&
+            c.callbackAttempts < maxAttempts
+        );
+        return cloneRecord(limit ? pending.slice(0, limit) : pending);
+    }
+
+    async update(incId: string, data: Partial<INCCallRecord>): Promise<INCCallRecord> {
+        const record = this.calls.find(c => c.incId === incId);
+        if (!record) {
+            throw new Error(`INC call not found: ${incId}`);
+        }
+
+        // Same mutable fields as the database adapters
+        const { status, deadline, price, budget, receipt, failure, refundTxHash, callbackAttempts, callbackDeliveredAt } = data;
+        Object.assign(record, cloneRecord(Object.fromEntries(
+            Object.entries({ status, deadline, price, budget, receipt, failure, refundTxHash, callbackAttempts, callbackDeliveredAt })
+                .filter(([, value]) => value !== undefined)
+        )));
+        record.updatedAt = new Date();
+
+        return cloneRecord(record);
+    }
+
+    clear(): void {
+        this.calls = [];
+    }
+}
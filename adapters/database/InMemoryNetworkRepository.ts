@@ -0,0 +1,99 @@
+/**
+ * In-Memory Network Repository
+ *
+ * In-memory implementation of INetworkRepository for development/testing
+ * Behaves like the database adapters: newest first, filters and offset/limit applied in the same order
+ */
+
+import { INetworkRepository, NetworkData } from '../../interfaces';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryNetworkRepository implements INetworkRepository {
+    private networks: Map<string, NetworkData & { seq: number }> = new Map();
+    private seq = 0;
+
+    async create(data: NetworkData): Promise<NetworkData> {
+        if (this.networks.has(data.networkId)) {
+            throw new Error(`Network already exists: ${data.networkId}`);
+        }
+
+        const now = new Date();
+        const record = {
+            ...cloneRecord(data),
+            createdAt: now,
+            updatedAt: now,
+            seq: ++this.seq,
+        };
+
+        this.networks.set(data.networkId, record);
+        return this.toNetworkData(record);
+    }
+
+    async findById(id: string): Promise<NetworkData | null> {
+        const record = this.networks.get(id);
+        return record ? this.toNetworkData(record) : null;
+    }
+
+    async findByCreator(creatorAddress: string): Promise<NetworkData[]> {
+        return this.sorted()
+            .filter(record => record.creatorAddress === creatorAddress)
+            .map(record => this.toNetworkData(record));
+    }
+
+    async update(id: string, data: Partial<NetworkData>): Promise<NetworkData> {
+        const record = this.networks.get(id);
+        if (!record) {
+            throw new Error(`Network not found: ${id}`);
+        }
+
+        const { networkId, createdAt, ...fields } = data;
+        for (const [key, value] of Object.entries(cloneRecord(fields))) {
+            if (value !== undefined) {
+                (record as any)[key] = value;
+            }
+        }
+        record.updatedAt = new Date();
+
+        return this.toNetworkData(record);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.networks.delete(id);
+    }
+
+    async list(filters?: {
+        status?: NetworkData['status'];
+        category?: string;
+        limit?: number;
+        offset?: number;
+    }): Promise<NetworkData[]> {
+        const offset = filters?.offset || 0;
+        const matching = this.sorted().filter(record => this.matches(record, filters));
+        const page = filters?.limit ? matching.slice(offset, offset + filters.limit) : matching.slice(offset);
+
+        return page.map(record => this.toNetworkData(record));
+    }
+
+    async count(filters?: { status?: NetworkData['status']; category?: string }): Promise<number> {
+        return this.sorted().filter(record => this.matches(record, filters)).length;
+    }
+
+    clear(): void {
+        this.networks.clear();
+    }
+
+    private matches(record: NetworkData, filters?: { status?: NetworkData['status']; category?: string }): boolean {
+        return (!filters?.status || record.status === filters.status) &&
+            (!filters?.category || record.category === filters.category);
+    }
+
+    private sorted(): Array<NetworkData & { seq: number }> {
+        return Array.from(this.networks.values())
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.seq - a.seq);
+    }
+
+    private toNetworkData(record: NetworkData & { seq: number }): NetworkData {
+        const { seq, ...data } = record;
+        return cloneRecord(data);
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * In-Memory Task Claim Repository
+ *
+ * In-memory implementation of ITaskClaimRepository for development/testing
+ * claim() checks and writes without yielding, so it is atomic within the process
+ */
+
+import { ITaskClaimRepository, TaskClaim } from '../../interfaces/ITaskClaimRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryTaskClaimRepository implements ITaskClaimRepository {
+    // taskId -> claims by miner (lowercased address), in claim order
+    private claims: Map<string, Map<string, TaskClaim>> = new Map();
+
+    async claim(claim: TaskClaim, now: number): Promise<TaskClaim | null> {
+        const claims = this.claims.get(claim.taskId) || new Map<string, TaskClaim>();
+        const key = claim.minerAddress.toLowerCase();
+
+        const conflict = Array.from(claims.values()).some(
+            c => c.minerAddress.toLowerCase() !== key && c.expiresAt > now && (claim.exclusive || c.exclusive)
+        );
+        if (conflict) {
+            return null;
+        }
+
+        const record: TaskClaim = {
+            ...cloneRecord(claim),
+            claimedAt: claims.get(key)?.claimedAt ?? claim.claimedAt,
+        };
+        claims.set(key, record);
+        this.claims.set(claim.taskId, claims);
+
+        return cloneRecord(record);
+    }
+
+    async renew(taskId: string, minerAddress: string, expiresAt: number, now: number): Promise<TaskClaim | null> {
+        const claim = this.claims.get(taskId)?.get(minerAddress.toLowerCase());
+        if (!claim || claim.expiresAt <= now) {
+            return null;
+        }
+
+        claim.expiresAt = expiresAt;
+        return cloneRecord(claim);
+    }
+
+    async release(taskId: string, minerAddress: string): Promise<void> {
+        const claims = this.claims.get(taskId);
+        if (!claims) {
+            return;
+        }
+
+        claims.delete(minerAddress.toLowerCase());
+        if (claims.size === 0) {
+            this.claims.delete(taskId);
+        }
+    }
+
+    async findByTask(taskId: string): Promise<TaskClaim[]> {
+        return cloneRecord(Array.from(this.claims.get(taskId)?.values() || []));
+    }
+
+    async deleteByTask(taskId: string): Promise<void> {
+        this.claims.delete(taskId);
+    }
+
+    clear(): void {
+        this.claims.clear();
+    }
+}
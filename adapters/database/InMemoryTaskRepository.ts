@@ -0,0 +1,186 @@
+/**
+ * In-Memory Task Repository
+ *
+ * In-memory implementation of ITaskRepository for development/testing
+ * Behaves like the database adapters: newest first, outputs/evaluations in submission order
+ */
+
+import { ITaskRepository, TaskData, TaskOutputData, TaskEvaluationData } from '../../interfaces/ITaskRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+interface TaskRecord extends TaskData {
+    seq: number;
+    evaluationResult?: any;
+    preFilteredOutputs?: string[];
+    humanSelection?: { selectedOutputId: string; userAddress: string; timestamp: number };
+}
+
+export class InMemoryTaskRepository implements ITaskRepository {
+    private tasks: Map<string, TaskRecord> = new Map();
+    private outputs: Map<string, TaskOutputData[]> = new Map();
+    private evaluations: Map<string, TaskEvaluationData[]> = new Map();
+    private seq = 0;
+
+    async create(data: TaskData): Promise<TaskData> {
+        if (this.tasks.has(data.taskId)) {
+            throw new Error(`Task already exists: ${data.taskId}`);
+        }
+
+        const now = new Date();
+        const record: TaskRecord = {
+            ...cloneRecord(data),
+            createdAt: now,
+            updatedAt: now,
+            seq: ++this.seq,
+        };
+
+        this.tasks.set(data.taskId, record);
+        return this.toTaskData(record);
+    }
+
+    async findById(taskId: string): Promise<TaskData | null> {
+        const record = this.tasks.get(taskId);
+        return record ? this.toTaskData(record) : null;
+    }
+
+    async findByNetwork(
+        networkId: string,
+        filters?: {
+            status?: TaskData['status'];
+            limit?: number;
+            offset?: number;
+        }
+    ): Promise<TaskData[]> {
+        const offset = filters?.offset || 0;
+        const matching = this.sorted().filter(record =>
+            record.networkId === networkId && (!filters?.status || record.status === filters.status)
+        );
+        const page = filters?.limit ? matching.slice(offset, offset + filters.limit) : matching.slice(offset);
+
+        return page.map(record => this.toTaskData(record));
+    }
+
+    async update(taskId: string, data: Partial<TaskData>): Promise<TaskData> {
+        const { taskId: _taskId, createdAt, ...fields } = data;
+        const record = this.setFields(taskId, cloneRecord(fields));
+        return this.toTaskData(record);
+    }
+
+    async updateStatus(taskId: string, status: TaskData['status']): Promise<void> {
+        this.setFields(taskId, { status });
+    }
+
+    async addOutput(data: TaskOutputData): Promise<TaskOutputData> {
+        this.getRecord(data.taskId);
+
+        const output: TaskOutputData = {
+            ...cloneRecord(data),
+            id: data.id || crypto.randomUUID(),
+        };
+        this.outputs.set(data.taskId, [...(this.outputs.get(data.taskId) || []), output]);
+
+        return cloneRecord(output);
+    }
+
+    async getOutputs(taskId: string): Promise<TaskOutputData[]> {
+        return cloneRecord(this.outputs.get(taskId) || [])
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    async addEvaluation(data: TaskEvaluationData): Promise<TaskEvaluationData> {
+        this.getRecord(data.taskId);
+
+        const evaluation: TaskEvaluationData = {
+            ...cloneRecord(data),
+            id: data.id || crypto.randomUUID(),
+        };
+        this.evaluations.set(data.taskId, [...(this.evaluations.get(data.taskId) || []), evaluation]);
+
+        return cloneRecord(evaluation);
+    }
+
+    async getEvaluations(taskId: string): Promise<TaskEvaluationData[]> {
+        return cloneRecord(this.evaluations.get(taskId) || [])
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    async findByStatus(status: TaskData['status'], limit?: number): Promise<TaskData[]> {
+        const matching = this.sorted().filter(record => record.status === status);
+        return (limit ? matching.slice(0, limit) : matching).map(record => this.toTaskData(record));
+    }
+
+    async findOverdue(status: TaskData['status'], before: Date, limit?: number): Promise<TaskData[]> {
+        const matching = this.sorted()
+            .filter(record => record.status === status && record.createdAt.getTime() < before.getTime())
+            .reverse();
+        return (limit ? matching.slice(0, limit) : matching).map(record => this.toTaskData(record));
+    }
+
+    async findWaitingForSelection(networkId?: string): Promise<TaskData[]> {
+        return this.sorted()
+            .filter(record => record.status === 'user-selecting' && (!networkId || record.networkId === networkId))
+            .map(record => this.toTaskData(record));
+    }
+
+    async updateConsensus(taskId: string, winningOutputId: string): Promise<void> {
+        this.setFields(taskId, {
+            consensusReached: true,
+            winningOutputId,
+            status: 'consensus-reached',
+        });
+    }
+
+    async updateEvaluationResult(taskId: string, evaluationResult: any): Promise<void> {
+        this.setFields(taskId, { evaluationResult: cloneRecord(evaluationResult) });
+    }
+
+    async updatePreFilteredOutputs(taskId: string, outputIds: string[]): Promise<void> {
+        this.setFields(taskId, {
+            preFilteredOutputs: [...outputIds],
+            status: 'pre-filtering',
+        });
+    }
+
+    async updateHumanSelection(taskId: string, selectedOutputId: string, userAddress: string): Promise<void> {
+        this.setFields(taskId, {
+            humanSelection: { selectedOutputId, userAddress, timestamp: Date.now() },
+            winningOutputId: selectedOutputId,
+            status: 'consensus-reached',
+        });
+    }
+
+    clear(): void {
+        this.tasks.clear();
+        this.outputs.clear();
+        this.evaluations.clear();
+    }
+
+    private getRecord(taskId: string): TaskRecord {
+        const record = this.tasks.get(taskId);
+        if (!record) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+        return record;
+    }
+
+    private setFields(taskId: string, fields: Partial<TaskRecord>): TaskRecord {
+        const record = this.getRecord(taskId);
+        for (const [key, value] of Object.entries(fields)) {
+            if (value !== undefined) {
+                (record as any)[key] = value;
+            }
+        }
+        record.updatedAt = new Date();
+        return record;
+    }
+
+    private sorted(): TaskRecord[] {
+        return Array.from(this.tasks.values())
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.seq - a.seq);
+    }
+
+    private toTaskData(record: TaskRecord): TaskData {
+        const { seq, evaluationResult, preFilteredOutputs, humanSelection, ...data } = record;
+        return cloneRecord(data);
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * In-Memory Types
+ *
+ * Shared helpers for the in-memory repositories
+ */
+
+/**
+ * Deep copy of a stored record, so callers can never mutate repository state
+ * (plain objects, arrays and Dates; other values are kept as-is)
+ */
+export function cloneRecord<T>(value: T): T {
+    if (value instanceof Date) {
+        return new Date(value.getTime()) as any;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => cloneRecord(item)) as any;
+    }
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, cloneRecord(item)])
+        ) as any;
+    }
+    return value;
+}
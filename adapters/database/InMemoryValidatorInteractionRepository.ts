@@ -0,0 +1,160 @@
+/**
+ * In-Memory Validator Interaction Repository
+ *
+ * In-memory implementation of IValidatorInteractionRepository for development/testing
+ * Pairs are unordered: (a, b) and (b, a) are the same pair, reported with addresses sorted
+ */
+
+import {
+    IValidatorInteractionRepository,
+    ValidatorInteractionData,
+    InteractionFrequencyData
+} from '../../interfaces/IValidatorInteractionRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryValidatorInteractionRepository implements IValidatorInteractionRepository {
+    // Kept newest first
+    private interactions: ValidatorInteractionData[] = [];
+
+    async recordInteraction(
+        data: Omit<ValidatorInteractionData, 'id' | 'timestamp'>
+    ): Promise<ValidatorInteractionData> {
+        const interaction: ValidatorInteractionData = {
+            ...cloneRecord(data),
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+        };
+
+        this.interactions.unshift(interaction);
+        return cloneRecord(interaction);
+    }
+
+    async findByValidators(
+        validator1: string,
+        validator2: string,
+        networkId?: string,
+        limit: number = 100
+    ): Promise<ValidatorInteractionData[]> {
+        return cloneRecord(
+            this.interactions
+                .filter(i => this.isPair(i, validator1, validator2) && (!networkId || i.networkId === networkId))
+                .slice(0, limit)
+        );
+    }
+
+    async findByValidator(
+        validatorAddress: string,
+        networkId?: string,
+        limit: number = 100
+    ): Promise<ValidatorInteractionData[]> {
+        return cloneRecord(
+            this.interactions
+                .filter(i =>
+                    (i.validator1 === validatorAddress || i.validator2 === validatorAddress) &&
+                    (!networkId || i.networkId === networkId)
+                )
+                .slice(0, limit)
+        );
+    }
+
+    async getInteractionFrequency(
+        validator1: string,
+        validator2: string,
+        networkId: string
+    ): Promise<InteractionFrequencyData | null> {
+        const interactions = this.interactions.filter(i =>
+            this.isPair(i, validator1, validator2) && i.networkId === networkId
+        );
+
+        if (interactions.length === 0) {
+            return null;
+        }
+
+        return { ...this.summarize(interactions, networkId), validator1, validator2 };
+    }
+
+    async getHighAgreementPairs(
+        networkId: string,
+        minInteractions: number,
+        minAgreementRate: number
+    ): Promise<InteractionFrequencyData[]> {
+        const pairs = new Map<string, ValidatorInteractionData[]>();
+        for (const interaction of this.interactions) {
+            if (interaction.networkId !== networkId) continue;
+            const key = [interaction.validator1, interaction.validator2].sort().join('\u0000');
+            pairs.set(key, [...(pairs.get(key) || []), interaction]);
+        }
+
+        const result: InteractionFrequencyData[] = [];
+        for (const [key, interactions] of pairs.entries()) {
+            if (interactions.length < minInteractions) continue;
+
+            const [validator1, validator2] = key.split('\u0000');
+            const summary = { ...this.summarize(interactions, networkId), validator1, validator2 };
+            if (summary.agreementRate >= minAgreementRate) {
+                result.push(summary);
+            }
+        }
+
+        return result.sort((a, b) => b.agreementRate - a.agreementRate);
+    }
+
+    async getValidatorStats(
+        validatorAddress: string,
+        networkId: string
+    ): Promise<{
+        totalInteractions: number;
+        uniquePartners: number;
+        averageAgreementRate: number;
+    }> {
+        const interactions = this.interactions.filter(i =>
+            (i.validator1 === validatorAddress || i.validator2 === validatorAddress) && i.networkId === networkId
+        );
+
+        if (interactions.length === 0) {
+            return { totalInteractions: 0, uniquePartners: 0, averageAgreementRate: 0 };
+        }
+
+        const partners = new Set(interactions.map(i => (i.validator1 === validatorAddress ? i.validator2 : i.validator1)));
+        const agreements = interactions.filter(i => i.agreement).length;
+
+        return {
+            totalInteractions: interactions.length,
+            uniquePartners: partners.size,
+            averageAgreementRate: agreements / interactions.length,
+        };
+    }
+
+    async deleteOldInteractions(beforeDate: Date): Promise<number> {
+        const before = this.interactions.length;
+        this.interactions = this.interactions.filter(i => i.timestamp >= beforeDate);
+        return before - this.interactions.length;
+    }
+
+    clear(): void {
+        this.interactions = [];
+    }
+
+    private isPair(interaction: ValidatorInteractionData, validator1: string, validator2: string): boolean {
+        return (interaction.validator1 === validator1 && interaction.validator2 === validator2) ||
+            (interaction.validator1 === validator2 && interaction.validator2 === validator1);
+    }
+
+    /**
+     * Interactions must be newest first
+     */
+    private summarize(
+        interactions: ValidatorInteractionData[],
+        networkId: string
+    ): Omit<InteractionFrequencyData, 'validator1' | 'validator2'> {
+        const agreementCount = interactions.filter(i => i.agreement).length;
+        return {
+            networkId,
+            totalInteractions: interactions.length,
+            agreementCount,
+            disagreementCount: interactions.length - agreementCount,
+            agreementRate: agreementCount / interactions.length,
+            lastInteraction: new Date(interactions[0].timestamp),
+        };
+    }
+}
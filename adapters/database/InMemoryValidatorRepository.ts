@@ -0,0 +1,148 @@
+/**
+ * In-Memory Validator Repository
+ *
+ * In-memory implementation of IValidatorRepository for development/testing
+ */
+
+import {
+    IValidatorRepository,
+    ValidatorData,
+    ValidatorStateKind,
+    ValidatorStateRecord
+} from '../../interfaces/IValidatorRepository';
+import { cloneRecord } from './InMemoryTypes';
+
+export class InMemoryValidatorRepository implements IValidatorRepository {
+    // Keyed by networkId + address, in registration order
+    private validators: Map<string, ValidatorData> = new Map();
+    // Keyed by kind + validatorAddress
+    private states: Map<string, ValidatorStateRecord> = new Map();
+
+    async register(data: ValidatorData): Promise<ValidatorData> {
+        const key = this.validatorKey(data.address, data.networkId);
+        if (this.validators.has(key)) {
+            throw new Error(`Validator already registered: ${data.address} (${data.networkId})`);
+        }
+
+        this.validators.set(key, cloneRecord(data));
+        return cloneRecord(data);
+    }
+
+    async findByAddress(address: string, networkId?: string): Promise<ValidatorData | null> {
+        const validator = networkId
+            ? this.validators.get(this.validatorKey(address, networkId))
+            : Array.from(this.validators.values()).find(v => v.address === address);
+
+        return validator ? cloneRecord(validator) : null;
+    }
+
+    async findByNetwork(
+        networkId: string,
+        filters?: {
+            isActive?: boolean;
+            minStake?: string;
+            minReputation?: number;
+        }
+    ): Promise<ValidatorData[]> {
+        return cloneRecord(
+            Array.from(this.validators.values()).filter(v =>
+                v.networkId === networkId &&
+                (filters?.isActive === undefined || v.isActive === filters.isActive) &&
+                (!filters?.minStake || parseFloat(v.stake) >= parseFloat(filters.minStake)) &&
+                (filters?.minReputation === undefined || v.reputation >= filters.minReputation)
+            )
+        );
+    }
+
+    async update(address: string, networkId: string, data: Partial<ValidatorData>): Promise<ValidatorData> {
+        const validator = this.getValidator(address, networkId);
+
+        const { address: _address, networkId: _networkId, registeredAt, ...fields } = data;
+        for (const [key, value] of Object.entries(cloneRecord(fields))) {
+            if (value !== undefined) {
+                (validator as any)[key] = value;
+            }
+        }
+
+        return cloneRecord(validator);
+    }
+
+    async updateReputation(address: string, networkId: string, reputation: number): Promise<void> {
+        this.getValidator(address, networkId).reputation = reputation;
+    }
+
+    async updateStake(address: string, networkId: string, stake: string): Promise<void> {
+        this.getValidator(address, networkId).stake = stake;
+    }
+
+    async setBanStatus(address: string, networkId: string, isBanned: boolean): Promise<void> {
+        this.getValidator(address, networkId).isBanned = isBanned;
+    }
+
+    async updateLastActive(address: string, networkId: string): Promise<void> {
+        this.getValidator(address, networkId).lastActiveAt = new Date();
+    }
+
+    async getState<T = any>(validatorAddress: string, kind: ValidatorStateKind): Promise<ValidatorStateRecord<T> | null> {
+        const state = this.states.get(this.stateKey(validatorAddress, kind));
+        return state ? cloneRecord(state) : null;
+    }
+
+    async listStates<T = any>(kind: ValidatorStateKind): Promise<ValidatorStateRecord<T>[]> {
+        return cloneRecord(
+            Array.from(this.states.values())
+                .filter(state => state.kind === kind)
+                .sort((a, b) => a.validatorAddress.localeCompare(b.validatorAddress))
+        );
+    }
+
+    async saveState<T = any>(
+        validatorAddress: string,
+        kind: ValidatorStateKind,
+        data: T,
+        expectedVersion: number
+    ): Promise<ValidatorStateRecord<T> | null> {
+        const key = this.stateKey(validatorAddress, kind);
+        const currentVersion = this.states.get(key)?.version || 0;
+        if (currentVersion !== expectedVersion) {
+            return null;
+        }
+
+        // Round-trip through JSON like the database adapters, so callers see the same data shape
+        const state: ValidatorStateRecord<T> = {
+            validatorAddress,
+            kind,
+            data: JSON.parse(JSON.stringify(data)),
+            version: expectedVersion + 1,
+            updatedAt: new Date(),
+        };
+
+        this.states.set(key, state);
+        return cloneRecord(state);
+    }
+
+    async deleteState(validatorAddress: string, kind: ValidatorStateKind): Promise<void> {
+        this.states.delete(this.stateKey(validatorAddress, kind));
+    }
+
+    clear(): void {
+        this.validators.clear();
+        this.states.clear();
+    }
+
+    private getValidator(address: string, networkId: string): ValidatorData {
+        const validator = this.validators.get(this.validatorKey(address, networkId));
+        if (!validator) {
+            throw new Error(`Validator not found: ${address} (${networkId})`);
+        }
+        return validator;
+    }
+
+    private validatorKey(address: string, networkId: string): string {
+        return `${networkId}:${address}`;
+    }
+
+    private stateKey(validatorAddress: string, kind: ValidatorStateKind): string {
+        return `${kind}:${validatorAddress}`;
+    }
+}
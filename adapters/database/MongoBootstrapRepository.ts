@@ -0,0 +1,72 @@
+/**
+ * Mongo Bootstrap Repository
+ *
+ * MongoDB implementation of IBootstrapRepository
+ */
+
+import { IBootstrapRepository, BootstrapConfigData } from '../../interfaces/IBootstrapRepository';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoBootstrapRepository implements IBootstrapRepository {
+    private configs: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.configs = db.collection(MONGO_COLLECTIONS.bootstrapConfigs);
+    }
+
+    async create(data: Omit<BootstrapConfigData, 'id' | 'createdAt' | 'updatedAt'>): Promise<BootstrapConfigData> {
+        const now = new Date();
+        const doc = {
+            ...data,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.configs.insertOne(doc);
+        return this.mapToBootstrapData(doc);
+    }
+
+    async findByNetwork(networkId: string): Promise<BootstrapConfigData | null> {
+        const doc = await this.configs.findOne({ networkId });
+        return doc ? this.mapToBootstrapData(doc) : null;
+    }
+
+    async update(networkId: string, data: Partial<BootstrapConfigData>): Promise<BootstrapConfigData> {
+        const { id, networkId: _networkId, createdAt, ...fields } = data;
+        const doc = await this.configs.findOneAndUpdate(
+            { networkId },
+            { $set: { ...definedFields(fields), updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+
+        if (!doc) throw new Error('Bootstrap config not found after update');
+        return this.mapToBootstrapData(doc);
+    }
+
+    async deactivate(networkId: string): Promise<void> {
+        await this.configs.updateOne(
+            { networkId },
+            { $set: { isActive: false, updatedAt: new Date() } }
+        );
+    }
+
+    async getActiveBootstrapNetworks(): Promise<BootstrapConfigData[]> {
+        const docs = await this.configs.find({ isActive: true }).toArray();
+        return docs.map(doc => this.mapToBootstrapData(doc));
+    }
+
+    private mapToBootstrapData(doc: any): BootstrapConfigData {
+        return {
+            id: doc.id,
+            networkId: doc.networkId,
+            isActive: Boolean(doc.isActive),
+            mode: doc.mode,
+            convertedValidators: doc.convertedValidators || [],
+            convertedMiners: doc.convertedMiners || [],
+            minConfirmationsRequired: doc.minConfirmationsRequired,
+            createdAt: new Date(doc.createdAt),
+            updatedAt: new Date(doc.updatedAt),
+        };
+    }
+}
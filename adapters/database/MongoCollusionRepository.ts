@@ -0,0 +1,132 @@
+/**
+ * Mongo Collusion Repository
+ *
+ * MongoDB implementation of ICollusionRepository
+ */
+
+import {
+    ICollusionRepository,
+    CollusionEventData,
+    UserRejectionData,
+    CollusionScoreData
+} from '../../interfaces/ICollusionRepository';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoCollusionRepository implements ICollusionRepository {
+    private events: MongoCollection;
+    private rejections: MongoCollection;
+    private scores: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.events = db.collection(MONGO_COLLECTIONS.collusionEvents);
+        this.rejections = db.collection(MONGO_COLLECTIONS.userRejections);
+        this.scores = db.collection(MONGO_COLLECTIONS.collusionScores);
+    }
+
+    async recordEvent(data: Omit<CollusionEventData, 'id' | 'detectedAt'>): Promise<CollusionEventData> {
+        const doc = {
+            ...definedFields(data),
+            id: crypto.randomUUID(),
+            detectedAt: new Date(),
+        };
+
+        await this.events.insertOne(doc);
+        return this.mapToCollusionEvent(doc);
+    }
+
+    async recordUserRejection(data: Omit<UserRejectionData, 'id' | 'createdAt'>): Promise<UserRejectionData> {
+        const doc = {
+            ...data,
+            id: crypto.randomUUID(),
+            createdAt: new Date(),
+        };
+
+        await this.rejections.insertOne(doc);
+        return this.mapToUserRejection(doc);
+    }
+
+    async findEventsByNetwork(networkId: string, limit: number = 100): Promise<CollusionEventData[]> {
+        const docs = await this.events.find({ networkId }).sort({ detectedAt: -1 }).limit(limit).toArray();
+        return docs.map(doc => this.mapToCollusionEvent(doc));
+    }
+
+    async findEventsByValidator(validatorAddress: string, limit: number = 100): Promise<CollusionEventData[]> {
+        // Matches documents whose validators array contains the address
+        const docs = await this.events
+            .find({ validators: validatorAddress })
+            .sort({ detectedAt: -1 })
+            .limit(limit)
+            .toArray();
+
+        return docs.map(doc => this.mapToCollusionEvent(doc));
+    }
+
+    async findRejectionsByNetwork(networkId: string, limit: number = 100): Promise<UserRejectionData[]> {
+        const docs = await this.rejections.find({ networkId }).sort({ createdAt: -1 }).limit(limit).toArray();
+        return docs.map(doc => this.mapToUserRejection(doc));
+    }
+
+    async findRejectionsByTask(taskId: string): Promise<UserRejectionData[]> {
+        const docs = await this.rejections.find({ taskId }).sort({ createdAt: -1 }).toArray();
+        return docs.map(doc => this.mapToUserRejection(doc));
+    }
+
+    async getCollusionScore(validatorAddress: string, networkId: string): Promise<number> {
+        const doc = await this.scores.findOne({ validatorAddress, networkId });
+        return doc?.score || 0;
+    }
+
+    async updateCollusionScore(validatorAddress: string, networkId: string, score: number): Promise<void> {
+        const now = new Date();
+        await this.scores.updateOne(
+            { validatorAddress, networkId },
+            {
+                $set: { score, lastEventAt: now, updatedAt: now },
+                $inc: { eventCount: 1 },
+            },
+            { upsert: true }
+        );
+    }
+
+    async getHighRiskValidators(networkId: string, minScore: number): Promise<CollusionScoreData[]> {
+        const docs = await this.scores
+            .find({ networkId, score: { $gte: minScore } })
+            .sort({ score: -1 })
+            .toArray();
+
+        return docs.map(doc => ({
+            validatorAddress: doc.validatorAddress,
+            networkId: doc.networkId,
+            score: doc.score,
+            eventCount: doc.eventCount,
+            lastEventAt: doc.lastEventAt ? new Date(doc.lastEventAt) : undefined,
+            updatedAt: new Date(doc.updatedAt),
+        }));
+    }
+
+    private mapToCollusionEvent(doc: any): CollusionEventData {
+        return {
+            id: doc.id,
+            networkId: doc.networkId,
+            taskId: doc.taskId || undefined,
+            validators: doc.validators,
+            patternHash: doc.patternHash,
+            severity: doc.severity as 'low' | 'medium' | 'high' | 'critical',
+            detectedAt: new Date(doc.detectedAt),
+            metadata: doc.metadata,
+        };
+    }
+
+    private mapToUserRejection(doc: any): UserRejectionData {
+        return {
+            id: doc.id,
+            taskId: doc.taskId,
+            networkId: doc.networkId,
+            userAddress: doc.userAddress,
+            rejectedValidators: doc.rejectedValidators,
+            patternHash: doc.patternHash,
+            redoCount: doc.redoCount,
+            createdAt: new Date(doc.createdAt),
+        };
+    }
+}
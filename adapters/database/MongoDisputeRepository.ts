@@ -0,0 +1,95 @@
+/**
+ * Mongo Dispute Repository
+ *
+ * MongoDB implementation of IDisputeRepository
+ */
+
+import { IDisputeRepository, DisputeData } from '../../interfaces/IDisputeRepository';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoDisputeRepository implements IDisputeRepository {
+    private disputes: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.disputes = db.collection(MONGO_COLLECTIONS.disputes);
+    }
+
+    async create(data: Omit<DisputeData, 'id' | 'openedAt'>): Promise<DisputeData> {
+        const doc = {
+            ...definedFields(data),
+            id: crypto.randomUUID(),
+            openedAt: new Date(),
+        };
+
+        await this.disputes.insertOne(doc);
+        return this.mapToDisputeData(doc);
+    }
+
+    async findById(id: string): Promise<DisputeData | null> {
+        const doc = await this.disputes.findOne({ id });
+        return doc ? this.mapToDisputeData(doc) : null;
+    }
+
+    async findByTask(taskId: string): Promise<DisputeData[]> {
+        const docs = await this.disputes.find({ taskId }).sort({ openedAt: -1 }).toArray();
+        return docs.map(doc => this.mapToDisputeData(doc));
+    }
+
+    async findOpen(networkId?: string, limit?: number): Promise<DisputeData[]> {
+        let cursor = this.disputes
+            .find(definedFields({ status: 'open', networkId }))
+            .sort({ openedAt: 1 });
+
+        if (limit) {
+            cursor = cursor.limit(limit);
+        }
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => this.mapToDisputeData(doc));
+    }
+
+    async countUnresolved(networkId: string, from: Date, to: Date): Promise<number> {
+        return await this.disputes.countDocuments({
+            networkId,
+            status: 'open',
+            openedAt: { $gte: from, $lte: to },
+        });
+    }
+
+    async update(id: string, data: Partial<DisputeData>): Promise<DisputeData> {
+        const doc = await this.disputes.findOneAndUpdate(
+            { id },
+            {
+                $set: definedFields({
+                    status: data.status,
+                    challengerWon: data.challengerWon,
+                    resolutionTxHash: data.resolutionTxHash,
+                    resolvedAt: data.resolvedAt,
+                }),
+            },
+            { returnDocument: 'after' }
+        );
+
+        if (!doc) throw new Error('Dispute not found after update');
+        return this.mapToDisputeData(doc);
+    }
+
+    private mapToDisputeData(doc: any): DisputeData {
+        return {
+            id: doc.id,
+            taskId: doc.taskId,
+            networkId: doc.networkId,
+            challengerAddress: doc.challengerAddress,
+            reason: doc.reason,
+            evidenceCid: doc.evidenceCid,
+            stake: doc.stake || undefined,
+            resolutionMode: doc.resolutionMode,
+            status: doc.status,
+            challengerWon: doc.challengerWon ?? undefined,
+            resolutionTxHash: doc.resolutionTxHash || undefined,
+            windowEndsAt: new Date(doc.windowEndsAt),
+            openedAt: new Date(doc.openedAt),
+            resolvedAt: doc.resolvedAt ? new Date(doc.resolvedAt) : undefined,
+        };
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Mongo Graduation Repository
+ *
+ * MongoDB implementation of IGraduationRepository
+ */
+
+import { IGraduationRepository, GraduationData } from '../../interfaces/IGraduationRepository';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoGraduationRepository implements IGraduationRepository {
+    private graduations: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.graduations = db.collection(MONGO_COLLECTIONS.graduations);
+    }
+
+    async create(data: Omit<GraduationData, 'id' | 'createdAt' | 'updatedAt'>): Promise<GraduationData> {
+        const now = new Date();
+        const doc = {
+            ...definedFields(data),
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.graduations.insertOne(doc);
+        return this.mapToGraduationData(doc);
+    }
+
+    async findByNetwork(networkId: string): Promise<GraduationData | null> {
+        const doc = await this.graduations.findOne({ networkId });
+        return doc ? this.mapToGraduationData(doc) : null;
+    }
+
+    async update(id: string, data: Partial<GraduationData>): Promise<GraduationData> {
+        const { id: _id, networkId, createdAt, ...fields } = data;
+        const doc = await this.graduations.findOneAndUpdate(
+            { id },
+            { $set: { ...definedFields(fields), updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+
+        if (!doc) throw new Error('Graduation record not found after update');
+        return this.mapToGraduationData(doc);
+    }
+
+    async getNetworksReadyForGraduation(criteria: {
+        minValidators: number;
+        minMiners: number;
+        minTasks: number;
+    }): Promise<string[]> {
+        const docs = await this.graduations
+            .find(
+                {
+                    validatorCount: { $gte: criteria.minValidators },
+                    minerCount: { $gte: criteria.minMiners },
+                    taskCount: { $gte: criteria.minTasks },
+                    graduatedAt: null, // Matches missing and null
+                },
+                { projection: { networkId: 1 } }
+            )
+            .toArray();
+
+        return docs.map(doc => doc.networkId);
+    }
+
+    async markAsGraduated(networkId: string, phase: 'growth' | 'mature'): Promise<void> {
+        const now = new Date();
+        await this.graduations.updateOne(
+            { networkId },
+            { $set: { phase, graduatedAt: now, updatedAt: now } }
+        );
+    }
+
+    private mapToGraduationData(doc: any): GraduationData {
+        return {
+            id: doc.id,
+            networkId: doc.networkId,
+            phase: doc.phase,
+            validatorCount: doc.validatorCount,
+            minerCount: doc.minerCount,
+            taskCount: doc.taskCount,
+            graduatedAt: doc.graduatedAt ? new Date(doc.graduatedAt) : undefined,
+            createdAt: new Date(doc.createdAt),
+            updatedAt: new Date(doc.updatedAt),
+        };
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Mongo Network Repository
+ *
+ * MongoDB implementation of INetworkRepository
+ */
+
+import { INetworkRepository, NetworkData } from '../../interfaces';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoNetworkRepository implements INetworkRepository {
+    private networks: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.networks = db.collection(MONGO_COLLECTIONS.networks);
+    }
+
+    async create(data: NetworkData): Promise<NetworkData> {
+        const now = new Date();
+        const doc = {
+            ...definedFields(data),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.networks.insertOne(doc);
+        return this.mapToNetworkData(doc);
+    }
+
+    async findById(id: string): Promise<NetworkData | null> {
+        const doc = await this.networks.findOne({ networkId: id });
+        return doc ? this.mapToNetworkData(doc) : null;
+    }
+
+    async findByCreator(creatorAddress: string): Promise<NetworkData[]> {
+        const docs = await this.networks.find({ creatorAddress }).sort({ createdAt: -1 }).toArray();
+        return docs.map(doc => this.mapToNetworkData(doc));
+    }
+
+    async update(id: string, data: Partial<NetworkData>): Promise<NetworkData> {
+        const { networkId, createdAt, ...fields } = data;
+        const doc = await this.networks.findOneAndUpdate(
+            { networkId: id },
+            { $set: { ...definedFields(fields), updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+
+        if (!doc) throw new Error(`Network not found: ${id}`);
+        return this.mapToNetworkData(doc);
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.networks.deleteOne({ networkId: id });
+    }
+
+    async list(filters?: {
+        status?: NetworkData['status'];
+        category?: string;
+        limit?: number;
+        offset?: number;
+    }): Promise<NetworkData[]> {
+        let cursor = this.networks
+            .find(this.buildFilter(filters))
+            .sort({ createdAt: -1 });
+
+        if (filters?.offset) {
+            cursor = cursor.skip(filters.offset);
+        }
+        if (filters?.limit) {
+            cursor = cursor.limit(filters.limit);
+        }
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => this.mapToNetworkData(doc));
+    }
+
+    async count(filters?: { status?: NetworkData['status']; category?: string }): Promise<number> {
+        return await this.networks.countDocuments(this.buildFilter(filters));
+    }
+
+    private buildFilter(filters?: { status?: NetworkData['status']; category?: string }): Record<string, any> {
+        return definedFields({
+            status: filters?.status,
+            category: filters?.category,
+        });
+    }
+
+    private mapToNetworkData(doc: any): NetworkData {
+        return {
+            networkId: doc.networkId,
+            name: doc.name,
+            description: doc.description,
+            category: doc.category,
+            creatorAddress: doc.creatorAddress,
+            manifestCid: doc.manifestCid || undefined,
+            contractAddress: doc.contractAddress || undefined,
+            validatorRegistryAddress: doc.validatorRegistryAddress || undefined,
+            settlementChain: doc.settlementChain || undefined,
+            status: doc.status,
+            moduleId: doc.moduleId || undefined,
+            createdAt: new Date(doc.createdAt),
+            updatedAt: new Date(doc.updatedAt),
+        };
+    }
+}
@@ -0,0 +1,230 @@
+/**
+ * Mongo Task Repository
+ *
+ * MongoDB implementation of ITaskRepository
+ * Outputs and evaluations live in their own collections keyed by the public taskId
+ */
+
+import { ITaskRepository, TaskData, TaskOutputData, TaskEvaluationData } from '../../interfaces/ITaskRepository';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoTaskRepository implements ITaskRepository {
+    private tasks: MongoCollection;
+    private outputs: MongoCollection;
+    private evaluations: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.tasks = db.collection(MONGO_COLLECTIONS.tasks);
+        this.outputs = db.collection(MONGO_COLLECTIONS.taskOutputs);
+        this.evaluations = db.collection(MONGO_COLLECTIONS.taskEvaluations);
+    }
+
+    async create(data: TaskData): Promise<TaskData> {
+        const now = new Date();
+        const doc = {
+            ...definedFields(data),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.tasks.insertOne(doc);
+        return this.mapToTaskData(doc);
+    }
+
+    async findById(taskId: string): Promise<TaskData | null> {
+        const doc = await this.tasks.findOne({ taskId });
+        return doc ? this.mapToTaskData(doc) : null;
+    }
+
+    async findByNetwork(
+        networkId: string,
+        filters?: {
+            status?: TaskData['status'];
+            limit?: number;
+            offset?: number;
+        }
+    ): Promise<TaskData[]> {
+        let cursor = this.tasks
+            .find(definedFields({ networkId, status: filters?.status }))
+            .sort({ createdAt: -1 });
+
+        if (filters?.offset) {
+            cursor = cursor.skip(filters.offset);
+        }
+        if (filters?.limit) {
+            cursor = cursor.limit(filters.limit);
+        }
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => this.mapToTaskData(doc));
+    }
+
+    async update(taskId: string, data: Partial<TaskData>): Promise<TaskData> {
+        const { taskId: _taskId, createdAt, ...fields } = data;
+        const doc = await this.tasks.findOneAndUpdate(
+            { taskId },
+            { $set: { ...definedFields(fields), updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+
+        if (!doc) throw new Error(`Task not found: ${taskId}`);
+        return this.mapToTaskData(doc);
+    }
+
+    async updateStatus(taskId: string, status: TaskData['status']): Promise<void> {
+        await this.setFields(taskId, { status });
+    }
+
+    async addOutput(data: TaskOutputData): Promise<TaskOutputData> {
+        await this.assertTaskExists(data.taskId);
+
+        const doc = {
+            ...definedFields(data),
+            id: data.id || crypto.randomUUID(),
+        };
+
+        await this.outputs.insertOne(doc);
+        return this.mapToOutputData(doc);
+    }
+
+    async getOutputs(taskId: string): Promise<TaskOutputData[]> {
+        const docs = await this.outputs.find({ taskId }).sort({ timestamp: 1 }).toArray();
+        return docs.map(doc => this.mapToOutputData(doc));
+    }
+
+    async addEvaluation(data: TaskEvaluationData): Promise<TaskEvaluationData> {
+        await this.assertTaskExists(data.taskId);
+
+        const doc = {
+            ...definedFields(data),
+            id: data.id || crypto.randomUUID(),
+        };
+
+        await this.evaluations.insertOne(doc);
+        return this.mapToEvaluationData(doc);
+    }
+
+    async getEvaluations(taskId: string): Promise<TaskEvaluationData[]> {
+        const docs = await this.evaluations.find({ taskId }).sort({ timestamp: 1 }).toArray();
+        return docs.map(doc => this.mapToEvaluationData(doc));
+    }
+
+    async findByStatus(status: TaskData['status'], limit?: number): Promise<TaskData[]> {
+        let cursor = this.tasks.find({ status }).sort({ createdAt: -1 });
+        if (limit) {
+            cursor = cursor.limit(limit);
+        }
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => this.mapToTaskData(doc));
+    }
+
+    async findOverdue(status: TaskData['status'], before: Date, limit?: number): Promise<TaskData[]> {
+        let cursor = this.tasks.find({ status, createdAt: { $lt: before } }).sort({ createdAt: 1 });
+        if (limit) {
+            cursor = cursor.limit(limit);
+        }
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => this.mapToTaskData(doc));
+    }
+
+    async findWaitingForSelection(networkId?: string): Promise<TaskData[]> {
+        const docs = await this.tasks
+            .find(definedFields({ status: 'user-selecting', networkId }))
+            .sort({ createdAt: -1 })
+            .toArray();
+
+        return docs.map(doc => this.mapToTaskData(doc));
+    }
+
+    async updateConsensus(taskId: string, winningOutputId: string): Promise<void> {
+        await this.setFields(taskId, {
+            consensusReached: true,
+            winningOutputId,
+            status: 'consensus-reached',
+        });
+    }
+
+    async updateEvaluationResult(taskId: string, evaluationResult: any): Promise<void> {
+        await this.setFields(taskId, { evaluationResult });
+    }
+
+    async updatePreFilteredOutputs(taskId: string, outputIds: string[]): Promise<void> {
+        await this.setFields(taskId, {
+            preFilteredOutputs: outputIds,
+            status: 'pre-filtering',
+        });
+    }
+
+    async updateHumanSelection(taskId: string, selectedOutputId: string, userAddress: string): Promise<void> {
+        await this.setFields(taskId, {
+            humanSelection: { selectedOutputId, userAddress, timestamp: Date.now() },
+            winningOutputId: selectedOutputId,
+            status: 'consensus-reached',
+        });
+    }
+
+    private async setFields(taskId: string, fields: Record<string, any>): Promise<void> {
+        const result = await this.tasks.updateOne(
+            { taskId },
+            { $set: { ...fields, updatedAt: new Date() } }
+        );
+
+        if (result.matchedCount === 0) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+    }
+
+    private async assertTaskExists(taskId: string): Promise<void> {
+        const count = await this.tasks.countDocuments({ taskId });
+        if (count === 0) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+    }
+
+    private mapToTaskData(doc: any): TaskData {
+        return {
+            taskId: doc.taskId,
+            networkId: doc.networkId,
+            status: doc.status as TaskData['status'],
+            input: doc.input,
+            depositorAddress: doc.depositorAddress,
+            depositAmount: doc.depositAmount,
+            depositTxHash: doc.depositTxHash || undefined,
+            ipfsCid: doc.ipfsCid || undefined,
+            winningOutputId: doc.winningOutputId || undefined,
+            consensusReached: Boolean(doc.consensusReached),
+            paymentReleased: Boolean(doc.paymentReleased),
+            paymentTxHash: doc.paymentTxHash || undefined,
+            createdAt: new Date(doc.createdAt),
+            updatedAt: new Date(doc.updatedAt),
+        };
+    }
+
+    private mapToOutputData(doc: any): TaskOutputData {
+        return {
+            id: doc.id,
+            taskId: doc.taskId,
+            outputId: doc.outputId,
+            output: doc.output,
+            minerAddress: doc.minerAddress,
+            timestamp: new Date(doc.timestamp),
+            metadata: doc.metadata,
+        };
+    }
+
+    private mapToEvaluationData(doc: any): TaskEvaluationData {
+        return {
+            id: doc.id,
+            taskId: doc.taskId,
+            validatorAddress: doc.validatorAddress,
+            outputId: doc.outputId,
+            score: doc.score,
+            confidence: doc.confidence,
+            signature: doc.signature,
+            timestamp: new Date(doc.timestamp),
+            evidence: doc.evidence,
+        };
+    }
+}
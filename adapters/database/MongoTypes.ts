@@ -0,0 +1,77 @@
+/**
+ * MongoDB Types
+ *
+ * The subset of the official `mongodb` driver's Db/Collection API used by the
+ * Mongo repositories. Declared structurally so the protocol does not depend on
+ * the driver; pass `mongoClient.db(name)` wherever a MongoDatabase is expected.
+ */
+
+export interface MongoDatabase {
+    collection<T = any>(name: string): MongoCollection<T>;
+}
+
+export interface MongoCollection<T = any> {
+    insertOne(doc: any): Promise<{ insertedId: any }>;
+    findOne(filter: any, options?: MongoFindOptions): Promise<T | null>;
+    find(filter: any, options?: MongoFindOptions): MongoCursor<T>;
+    findOneAndUpdate(
+        filter: any,
+        update: any,
+        options?: { upsert?: boolean; returnDocument?: 'before' | 'after'; projection?: any }
+    ): Promise<T | null>;
+    updateOne(filter: any, update: any, options?: { upsert?: boolean }): Promise<MongoUpdateResult>;
+    updateMany(filter: any, update: any): Promise<MongoUpdateResult>;
+    deleteOne(filter: any): Promise<{ deletedCount: number }>;
+    deleteMany(filter: any): Promise<{ deletedCount: number }>;
+    countDocuments(filter: any): Promise<number>;
+    aggregate<R = any>(pipeline: any[]): MongoCursor<R>;
+}
+
+export interface MongoCursor<T> {
+    sort(spec: Record<string, 1 | -1>): MongoCursor<T>;
+    skip(n: number): MongoCursor<T>;
+    limit(n: number): MongoCursor<T>;
+    toArray(): Promise<T[]>;
+}
+
+export interface MongoFindOptions {
+    projection?: Record<string, 0 | 1>;
+    sort?: Record<string, 1 | -1>;
+}
+
+export interface MongoUpdateResult {
+    matchedCount: number;
+    modifiedCount: number;
+    upsertedCount?: number;
+}
+
+/**
+ * Collection names shared by the Mongo repositories
+ */
+export const MONGO_COLLECTIONS = {
+    networks: 'tenseuron_networks',
+    tasks: 'tenseuron_tasks',
+    taskOutputs: 'tenseuron_task_outputs',
+    taskEvaluations: 'tenseuron_task_evaluations',
+    collusionEvents: 'collusion_events',
+    userRejections: 'user_rejections',
+    collusionScores: 'collusion_scores',
+    validatorInteractions: 'validator_interactions',
+    bootstrapConfigs: 'bootstrap_configs',
+    graduations: 'network_graduations',
+    disputes: 'task_disputes',
+    domainEvents: 'domain_events',
+} as const;
+
+/**
+ * Drop undefined fields so $set does not overwrite stored values with null
+ */
+export function definedFields<T extends Record<string, any>>(data: T): Partial<T> {
+    const result: Partial<T> = {};
+    for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) {
+            (result as any)[key] = value;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,189 @@
+/**
+ * Mongo Validator Interaction Repository
+ *
+ * MongoDB implementation of IValidatorInteractionRepository
+ */
+
+import {
+    IValidatorInteractionRepository,
+    ValidatorInteractionData,
+    InteractionFrequencyData
+} from '../../interfaces/IValidatorInteractionRepository';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS, definedFields } from './MongoTypes';
+
+export class MongoValidatorInteractionRepository implements IValidatorInteractionRepository {
+    private interactions: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.interactions = db.collection(MONGO_COLLECTIONS.validatorInteractions);
+    }
+
+    async recordInteraction(data: Omit<ValidatorInteractionData, 'id' | 'timestamp'>): Promise<ValidatorInteractionData> {
+        const doc = {
+            ...definedFields(data),
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+        };
+
+        await this.interactions.insertOne(doc);
+        return this.mapToInteraction(doc);
+    }
+
+    async findByValidators(
+        validator1: string,
+        validator2: string,
+        networkId?: string,
+        limit: number = 100
+    ): Promise<ValidatorInteractionData[]> {
+        const docs = await this.interactions
+            .find({
+                ...definedFields({ networkId }),
+                $or: [
+                    { validator1, validator2 },
+                    { validator1: validator2, validator2: validator1 },
+                ],
+            })
+            .sort({ timestamp: -1 })
+            .limit(limit)
+            .toArray();
+
+        return docs.map(doc => this.mapToInteraction(doc));
+    }
+
+    async findByValidator(
+        validatorAddress: string,
+        networkId?: string,
+        limit: number = 100
+    ): Promise<ValidatorInteractionData[]> {
+        const docs = await this.interactions
+            .find({
+                ...definedFields({ networkId }),
+                $or: [
+                    { validator1: validatorAddress },
+                    { validator2: validatorAddress },
+                ],
+            })
+            .sort({ timestamp: -1 })
+            .limit(limit)
+            .toArray();
+
+        return docs.map(doc => this.mapToInteraction(doc));
+    }
+
+    async getInteractionFrequency(
+        validator1: string,
+        validator2: string,
+        networkId: string
+    ): Promise<InteractionFrequencyData | null> {
+        const interactions = await this.findByValidators(validator1, validator2, networkId, 1000);
+
+        if (interactions.length === 0) {
+            return null;
+        }
+
+        const agreementCount = interactions.filter(i => i.agreement).length;
+
+        return {
+            validator1,
+            validator2,
+            networkId,
+            totalInteractions: interactions.length,
+            agreementCount,
+            disagreementCount: interactions.length - agreementCount,
+            agreementRate: agreementCount / interactions.length,
+            lastInteraction: interactions[0].timestamp,
+        };
+    }
+
+    async getHighAgreementPairs(
+        networkId: string,
+        minInteractions: number,
+        minAgreementRate: number
+    ): Promise<InteractionFrequencyData[]> {
+        // Group server-side by the unordered validator pair
+        const pairs = await this.interactions.aggregate([
+            { $match: { networkId } },
+            {
+                $group: {
+                    _id: {
+                        validator1: { $min: ['$validator1', '$validator2'] },
+                        validator2: { $max: ['$validator1', '$validator2'] },
+                    },
+                    totalInteractions: { $sum: 1 },
+                    agreementCount: { $sum: { $cond: ['$agreement', 1, 0] } },
+                    lastInteraction: { $max: '$timestamp' },
+                },
+            },
+            { $match: { totalInteractions: { $gte: minInteractions } } },
+            { $addFields: { agreementRate: { $divide: ['$agreementCount', '$totalInteractions'] } } },
+            { $match: { agreementRate: { $gte: minAgreementRate } } },
+            { $sort: { agreementRate: -1 } },
+        ]).toArray();
+
+        return pairs.map(pair => ({
+            validator1: pair._id.validator1,
+            validator2: pair._id.validator2,
+            networkId,
+            totalInteractions: pair.totalInteractions,
+            agreementCount: pair.agreementCount,
+            disagreementCount: pair.totalInteractions - pair.agreementCount,
+            agreementRate: pair.agreementRate,
+            lastInteraction: new Date(pair.lastInteraction),
+        }));
+    }
+
+    async getValidatorStats(
+        validatorAddress: string,
+        networkId: string
+    ): Promise<{
+        totalInteractions: number;
+        uniquePartners: number;
+        averageAgreementRate: number;
+    }> {
+        const interactions = await this.findByValidator(validatorAddress, networkId, 10000);
+
+        if (interactions.length === 0) {
+            return {
+                totalInteractions: 0,
+                uniquePartners: 0,
+                averageAgreementRate: 0,
+            };
+        }
+
+        const partners = new Set<string>();
+        let totalAgreements = 0;
+
+        for (const interaction of interactions) {
+            partners.add(
+                interaction.validator1 === validatorAddress ? interaction.validator2 : interaction.validator1
+            );
+            if (interaction.agreement) {
+                totalAgreements++;
+            }
+        }
+
+        return {
+            totalInteractions: interactions.length,
+            uniquePartners: partners.size,
+            averageAgreementRate: totalAgreements / interactions.length,
+        };
+    }
+
+    async deleteOldInteractions(beforeDate: Date): Promise<number> {
+        const result = await this.interactions.deleteMany({ timestamp: { $lt: beforeDate } });
+        return result.deletedCount;
+    }
+
+    private mapToInteraction(doc: any): ValidatorInteractionData {
+        return {
+            id: doc.id,
+            networkId: doc.networkId,
+            validator1: doc.validator1,
+            validator2: doc.validator2,
+            taskId: doc.taskId,
+            agreement: Boolean(doc.agreement),
+            timestamp: new Date(doc.timestamp),
+            metadata: doc.metadata,
+        };
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Prisma Dispute Repository
+ *
+ * PostgreSQL/MySQL implementation of IDisputeRepository
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { IDisputeRepository, DisputeData } from '../../interfaces/IDisputeRepository';
+
+export class PrismaDisputeRepository implements IDisputeRepository {
+    constructor(private prisma: PrismaClient) { }
+
+    async create(data: Omit<DisputeData, 'id' | 'openedAt'>): Promise<DisputeData> {
+        const dispute = await this.prisma.taskDispute.create({
+            data: {
+                taskId: data.taskId,
+                networkId: data.networkId,
+                challengerAddress: data.challengerAddress,
+                reason: data.reason,
+                evidenceCid: data.evidenceCid,
+                stake: data.stake,
+                resolutionMode: data.resolutionMode,
+                status: data.status,
+                challengerWon: data.challengerWon,
+                resolutionTxHash: data.resolutionTxHash,
+                windowEndsAt: data.windowEndsAt,
+                resolvedAt: data.resolvedAt,
+            },
+        });
+
+        return this.mapToDisputeData(dispute);
+    }
+
+    async findById(id: string): Promise<DisputeData | null> {
+        const dispute = await this.prisma.taskDispute.findUnique({
+            where: { id },
+        });
+
+        return dispute ? this.mapToDisputeData(dispute) : null;
+    }
+
+    async findByTask(taskId: string): Promise<DisputeData[]> {
+        const disputes = await this.prisma.taskDispute.findMany({
+            where: { taskId },
+            orderBy: { openedAt: 'desc' },
+        });
+
+        return disputes.map(d => this.mapToDisputeData(d));
+    }
+
+    async findOpen(networkId?: string, limit?: number): Promise<DisputeData[]> {
+        const disputes = await this.prisma.taskDispute.findMany({
+            where: {
+                status: 'open',
+                ...(networkId && { networkId }),
+            },
+            orderBy: { openedAt: 'asc' },
+            take: limit,
+        });
+
+        return disputes.map(d => this.mapToDisputeData(d));
+    }
+
+    async countUnresolved(networkId: string, from: Date, to: Date): Promise<number> {
+        return await this.prisma.taskDispute.count({
+            where: {
+                networkId,
+                status: 'open',
+                openedAt: {
+                    gte: from,
+                    lte: to,
+                },
+            },
+        });
+    }
+
+    async update(id: string, data: Partial<DisputeData>): Promise<DisputeData> {
+        const dispute = await this.prisma.taskDispute.update({
+            where: { id },
+            data: {
+                status: data.status,
+                challengerWon: data.challengerWon,
+                resolutionTxHash: data.resolutionTxHash,
+                resolvedAt: data.resolvedAt,
+            },
+        });
+
+        return this.mapToDisputeData(dispute);
+    }
+
+    private mapToDisputeData(dispute: any): DisputeData {
+        return {
+            id: dispute.id,
+            taskId: dispute.taskId,
+            networkId: dispute.networkId,
+            challengerAddress: dispute.challengerAddress,
+            reason: dispute.reason,
+            evidenceCid: dispute.evidenceCid,
+            stake: dispute.stake || undefined,
+            resolutionMode: dispute.resolutionMode,
+            status: dispute.status,
+            challengerWon: dispute.challengerWon ?? undefined,
+            resolutionTxHash: dispute.resolutionTxHash || undefined,
+            windowEndsAt: dispute.windowEndsAt,
+            openedAt: dispute.openedAt,
+            resolvedAt: dispute.resolvedAt || undefined,
+        };
+    }
+}
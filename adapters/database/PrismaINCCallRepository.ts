@@ -0,0 +1,107 @@
+/**
+ * Prisma INC Call Repository
+ *
+ * PostgreSQL/MySQL implementation of IINCCallRepository
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { IINCCallRepository, INCCallRecord, INCCallStatus } from '../../interfaces/IINCCallRepository';
+
+export class PrismaINCCallRepository implements IINCCallRepository {
+    constructor(private prisma: PrismaClient) { }
+
+    async create(data: Omit<INCCallRecord, 'createdAt' | 'updatedAt'>): Promise<INCCallRecord> {
+        const record = await this.prisma.incCall.create({
+            data: {
+                incId: data.incId,
+                sourceNetworkId: data.sourceNetworkId,
+                destinationNetworkId: data.destinationNetworkId,
+                status: data.status,
+                call: data.call as any,
+                callbackUrl: data.callbackUrl,
+                deadline: data.deadline,
+                price: data.price,
+                budget: data.budget as any,
+                receipt: data.receipt as any,
+                failure: data.failure as any,
+                refundTxHash: data.refundTxHash,
+                callbackAttempts: data.callbackAttempts,
+                callbackDeliveredAt: data.callbackDeliveredAt,
+            },
+        });
+
+        return this.mapToINCCallRecord(record);
+    }
+
+    async findById(incId: string): Promise<INCCallRecord | null> {
+        const record = await this.prisma.incCall.findUnique({
+            where: { incId },
+        });
+
+        return record ? this.mapToINCCallRecord(record) : null;
+    }
+
+    async findByStatus(status: INCCallStatus, limit?: number): Promise<INCCallRecord[]> {
+        const records = await this.prisma.incCall.findMany({
+            where: { status },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+        });
+
+        return records.map(r => this.mapToINCCallRecord(r));
+    }
+
+    async findPendingCallbacks(maxAttempts: number, limit?: number): Promise<INCCallRecord[]> {
+        const records = await this.prisma.incCall.findMany({
+            where: {
+                status: { in: ['completed', 'failed', 'refunded'] },
+                callbackDeliveredAt: null,
+                callbackAttempts: { lt: maxAttempts },
+            },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+        });
+
+        return records.map(r => this.mapToINCCallRecord(r));
+    }
+
+    async update(incId: string, data: Partial<INCCallRecord>): Promise<INCCallRecord> {
+        const record = await this.prisma.incCall.update({
+            where: { incId },
+            data: {
+                status: data.status,
+                deadline: data.deadline,
+                price: data.price,
+                budget: data.budget as any,
+                receipt: data.receipt as any,
+                failure: data.failure as any,
+                refundTxHash: data.refundTxHash,
+                callbackAttempts: data.callbackAttempts,
+                callbackDeliveredAt: data.callbackDeliveredAt,
+            },
+        });
+
+        return this.mapToINCCallRecord(record);
+    }
+
+    private mapToINCCallRecord(record: any): INCCallRecord {
+        return {
+            incId: record.incId,
+            sourceNetworkId: record.sourceNetworkId,
+            destinationNetworkId: record.destinationNetworkId,
+            status: record.status,
+            call: record.call,
+            callbackUrl: record.callbackUrl || undefined,
+            deadline: record.deadline || undefined,
+            price: record.price || undefined,
+            budget: record.budget || undefined,
+            receipt: record.receipt || undefined,
+            failure: record.failure || undefined,
+            refundTxHash: record.refundTxHash || undefined,
+            callbackAttempts: record.callbackAttempts,
+            callbackDeliveredAt: record.callbackDeliveredAt || undefined,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+        };
+    }
+}
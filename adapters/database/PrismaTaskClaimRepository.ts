@@ -0,0 +1,110 @@
+/**
+ * Prisma Task Claim Repository
+ *
+ * PostgreSQL/MySQL implementation of ITaskClaimRepository
+ * Expects a taskClaim model with @@id([taskId, minerKey]), minerKey being the lowercased miner address.
+ * claim() runs in a serializable transaction; when two claims race, the database aborts one of them
+ * and it is retried against the committed state.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ITaskClaimRepository, TaskClaim } from '../../interfaces/ITaskClaimRepository';
+
+const MAX_SERIALIZATION_RETRIES = 3;
+
+export class PrismaTaskClaimRepository implements ITaskClaimRepository {
+    constructor(private prisma: PrismaClient) { }
+
+    async claim(claim: TaskClaim, now: number): Promise<TaskClaim | null> {
+        const minerKey = claim.minerAddress.toLowerCase();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.prisma.$transaction(async (tx: any) => {
+                    const conflict = await tx.taskClaim.findFirst({
+                        where: {
+                            taskId: claim.taskId,
+                            minerKey: { not: minerKey },
+                            expiresAt: { gt: new Date(now) },
+                            ...(claim.exclusive ? {} : { exclusive: true }),
+                        },
+                    });
+                    if (conflict) {
+                        return null;
+                    }
+
+                    const record = await tx.taskClaim.upsert({
+                        where: { taskId_minerKey: { taskId: claim.taskId, minerKey } },
+                        create: {
+                            taskId: claim.taskId,
+                            minerKey,
+                            minerAddress: claim.minerAddress,
+                            exclusive: claim.exclusive,
+                            claimedAt: new Date(claim.claimedAt),
+                            expiresAt: new Date(claim.expiresAt),
+                        },
+                        update: {
+                            minerAddress: claim.minerAddress,
+                            exclusive: claim.exclusive,
+                            expiresAt: new Date(claim.expiresAt),
+                        },
+                    });
+                    return this.mapToTaskClaim(record);
+                }, { isolationLevel: 'Serializable' });
+            } catch (error: any) {
+                // P2034: transaction failed due to a write conflict or a deadlock
+                if (error?.code !== 'P2034' || attempt >= MAX_SERIALIZATION_RETRIES) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    async renew(taskId: string, minerAddress: string, expiresAt: number, now: number): Promise<TaskClaim | null> {
+        const minerKey = minerAddress.toLowerCase();
+
+        const { count } = await this.prisma.taskClaim.updateMany({
+            where: { taskId, minerKey, expiresAt: { gt: new Date(now) } },
+            data: { expiresAt: new Date(expiresAt) },
+        });
+        if (count === 0) {
+            return null;
+        }
+
+        const record = await this.prisma.taskClaim.findUnique({
+            where: { taskId_minerKey: { taskId, minerKey } },
+        });
+        return record ? this.mapToTaskClaim(record) : null;
+    }
+
+    async release(taskId: string, minerAddress: string): Promise<void> {
+        await this.prisma.taskClaim.deleteMany({
+            where: { taskId, minerKey: minerAddress.toLowerCase() },
+        });
+    }
+
+    async findByTask(taskId: string): Promise<TaskClaim[]> {
+        const records = await this.prisma.taskClaim.findMany({
+            where: { taskId },
+            orderBy: { claimedAt: 'asc' },
+        });
+
+        return records.map((r: any) => this.mapToTaskClaim(r));
+    }
+
+    async deleteByTask(taskId: string): Promise<void> {
+        await this.prisma.taskClaim.deleteMany({
+            where: { taskId },
+        });
+    }
+
+    private mapToTaskClaim(record: any): TaskClaim {
+        return {
+            taskId: record.taskId,
+            minerAddress: record.minerAddress,
+            exclusive: record.exclusive,
+            claimedAt: new Date(record.claimedAt).getTime(),
+            expiresAt: new Date(record.expiresAt).getTime(),
+        };
+    }
+}
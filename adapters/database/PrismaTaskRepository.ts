@@ -201,6 +201,16 @@ export class PrismaTaskRepository implements ITaskRepository {
         return tasks.map(task => this.mapToTaskData(task));
     }
 
+    async findOverdue(status: TaskData['status'], before: Date, limit?: number): Promise<TaskData[]> {
+        const tasks = await this.prisma.tenseuronTask.findMany({
+            where: { status, createdAt: { lt: before } },
+            take: limit,
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return tasks.map(task => this.mapToTaskData(task));
+    }
+
     async findWaitingForSelection(networkId?: string): Promise<TaskData[]> {
         const where: any = { status: 'user-selecting' };
         if (networkId) {
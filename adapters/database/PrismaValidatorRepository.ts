@@ -0,0 +1,205 @@
+/**
+ * Prisma Validator Repository
+ *
+ * PostgreSQL/MySQL implementation of IValidatorRepository
+ * Validator state lives in the validatorState model, unique on (validatorAddress, kind)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+    IValidatorRepository,
+    ValidatorData,
+    ValidatorStateKind,
+    ValidatorStateRecord
+} from '../../interfaces/IValidatorRepository';
+
+export class PrismaValidatorRepository implements IValidatorRepository {
+    constructor(private prisma: PrismaClient) { }
+
+    async register(data: ValidatorData): Promise<ValidatorData> {
+        const validator = await this.prisma.validator.create({
+            data: {
+                address: data.address,
+                networkId: data.networkId,
+                stake: data.stake,
+                reputation: data.reputation,
+                isActive: data.isActive,
+                isBanned: data.isBanned,
+                p2pEndpoint: data.p2pEndpoint,
+                registeredAt: data.registeredAt,
+                lastActiveAt: data.lastActiveAt,
+            },
+        });
+
+        return this.mapToValidatorData(validator);
+    }
+
+    async findByAddress(address: string, networkId?: string): Promise<ValidatorData | null> {
+        const validator = await this.prisma.validator.findFirst({
+            where: networkId ? { address, networkId } : { address },
+        });
+
+        return validator ? this.mapToValidatorData(validator) : null;
+    }
+
+    async findByNetwork(
+        networkId: string,
+        filters?: {
+            isActive?: boolean;
+            minStake?: string;
+            minReputation?: number;
+        }
+    ): Promise<ValidatorData[]> {
+        const validators = await this.prisma.validator.findMany({
+            where: {
+                networkId,
+                ...(filters?.isActive !== undefined && { isActive: filters.isActive }),
+                ...(filters?.minReputation !== undefined && { reputation: { gte: filters.minReputation } }),
+            },
+        });
+
+        // Stake is stored as a decimal string, so compare numerically here
+        return validators
+            .map(validator => this.mapToValidatorData(validator))
+            .filter(validator => !filters?.minStake || parseFloat(validator.stake) >= parseFloat(filters.minStake));
+    }
+
+    async update(address: string, networkId: string, data: Partial<ValidatorData>): Promise<ValidatorData> {
+        const validator = await this.prisma.validator.update({
+            where: {
+                address_networkId: {
+                    address,
+                    networkId,
+                },
+            },
+            data: {
+                stake: data.stake,
+                reputation: data.reputation,
+                isActive: data.isActive,
+                isBanned: data.isBanned,
+                p2pEndpoint: data.p2pEndpoint,
+                lastActiveAt: data.lastActiveAt,
+            },
+        });
+
+        return this.mapToValidatorData(validator);
+    }
+
+    async updateReputation(address: string, networkId: string, reputation: number): Promise<void> {
+        await this.update(address, networkId, { reputation });
+    }
+
+    async updateStake(address: string, networkId: string, stake: string): Promise<void> {
+        await this.update(address, networkId, { stake });
+    }
+
+    async setBanStatus(address: string, networkId: string, isBanned: boolean): Promise<void> {
+        await this.update(address, networkId, { isBanned });
+    }
+
+    async updateLastActive(address: string, networkId: string): Promise<void> {
+        await this.update(address, networkId, { lastActiveAt: new Date() });
+    }
+
+    async getState<T = any>(validatorAddress: string, kind: ValidatorStateKind): Promise<ValidatorStateRecord<T> | null> {
+        const state = await this.prisma.validatorState.findUnique({
+            where: {
+                validatorAddress_kind: {
+                    validatorAddress,
+                    kind,
+                },
+            },
+        });
+
+        return state ? this.mapToStateRecord<T>(state) : null;
+    }
+
+    async listStates<T = any>(kind: ValidatorStateKind): Promise<ValidatorStateRecord<T>[]> {
+        const states = await this.prisma.validatorState.findMany({
+            where: { kind },
+            orderBy: { validatorAddress: 'asc' },
+        });
+
+        return states.map(state => this.mapToStateRecord<T>(state));
+    }
+
+    async saveState<T = any>(
+        validatorAddress: string,
+        kind: ValidatorStateKind,
+        data: T,
+        expectedVersion: number
+    ): Promise<ValidatorStateRecord<T> | null> {
+        if (expectedVersion === 0) {
+            try {
+                const state = await this.prisma.validatorState.create({
+                    data: {
+                        validatorAddress,
+                        kind,
+                        data: data as any,
+                        version: 1,
+                        updatedAt: new Date(),
+                    },
+                });
+                return this.mapToStateRecord<T>(state);
+            } catch (error: any) {
+                // Unique constraint violation: someone else created it first
+                if (error?.code === 'P2002') {
+                    return null;
+                }
+                throw error;
+            }
+        }
+
+        const result = await this.prisma.validatorState.updateMany({
+            where: {
+                validatorAddress,
+                kind,
+                version: expectedVersion,
+            },
+            data: {
+                data: data as any,
+                version: { increment: 1 },
+                updatedAt: new Date(),
+            },
+        });
+
+        if (result.count === 0) {
+            return null;
+        }
+
+        return this.getState<T>(validatorAddress, kind);
+    }
+
+    async deleteState(validatorAddress: string, kind: ValidatorStateKind): Promise<void> {
+        await this.prisma.validatorState.deleteMany({
+            where: {
+                validatorAddress,
+                kind,
+            },
+        });
+    }
+
+    private mapToStateRecord<T>(state: any): ValidatorStateRecord<T> {
+        return {
+            validatorAddress: state.validatorAddress,
+            kind: state.kind,
+            data: state.data as T,
+            version: state.version,
+            updatedAt: state.updatedAt,
+        };
+    }
+
+    private mapToValidatorData(validator: any): ValidatorData {
+        return {
+            address: validator.address,
+            networkId: validator.networkId,
+            stake: validator.stake,
+            reputation: validator.reputation,
+            isActive: validator.isActive,
+            isBanned: validator.isBanned,
+            p2pEndpoint: validator.p2pEndpoint || undefined,
+            registeredAt: validator.registeredAt,
+            lastActiveAt: validator.lastActiveAt || undefined,
+        };
+    }
+}
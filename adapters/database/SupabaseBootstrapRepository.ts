@@ -0,0 +1,99 @@
+/**
+ * Supabase Bootstrap Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of IBootstrapRepository
+ */
+
+import { IBootstrapRepository, BootstrapConfigData } from '../../interfaces/IBootstrapRepository';
+import { SupabaseClient, SUPABASE_TABLES, unwrap, definedColumns } from './SupabaseTypes';
+
+export class SupabaseBootstrapRepository implements IBootstrapRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async create(data: Omit<BootstrapConfigData, 'id' | 'createdAt' | 'updatedAt'>): Promise<BootstrapConfigData> {
+        const now = new Date().toISOString();
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.bootstrapConfigs)
+                .insert({
+                    id: crypto.randomUUID(),
+                    ...this.toRow(data),
+                    created_at: now,
+                    updated_at: now,
+                })
+                .select()
+                .single(),
+            'create bootstrap config'
+        );
+
+        return this.mapToBootstrapData(row);
+    }
+
+    async findByNetwork(networkId: string): Promise<BootstrapConfigData | null> {
+        const row = unwrap(
+            await this.client.from(SUPABASE_TABLES.bootstrapConfigs).select().eq('network_id', networkId).maybeSingle(),
+            'find bootstrap config'
+        );
+
+        return row ? this.mapToBootstrapData(row) : null;
+    }
+
+    async update(networkId: string, data: Partial<BootstrapConfigData>): Promise<BootstrapConfigData> {
+        const { id, networkId: _networkId, createdAt, ...fields } = data;
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.bootstrapConfigs)
+                .update({ ...this.toRow(fields), updated_at: new Date().toISOString() })
+                .eq('network_id', networkId)
+                .select()
+                .single(),
+            'update bootstrap config'
+        );
+
+        return this.mapToBootstrapData(row);
+    }
+
+    async deactivate(networkId: string): Promise<void> {
+        unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.bootstrapConfigs)
+                .update({ is_active: false, updated_at: new Date().toISOString() })
+                .eq('network_id', networkId),
+            'deactivate bootstrap config'
+        );
+    }
+
+    async getActiveBootstrapNetworks(): Promise<BootstrapConfigData[]> {
+        const rows = unwrap(
+            await this.client.from(SUPABASE_TABLES.bootstrapConfigs).select().eq('is_active', true),
+            'find active bootstrap configs'
+        );
+
+        return (rows || []).map(row => this.mapToBootstrapData(row));
+    }
+
+    private toRow(data: Partial<BootstrapConfigData>): Record<string, any> {
+        return definedColumns({
+            network_id: data.networkId,
+            is_active: data.isActive,
+            mode: data.mode,
+            converted_validators: data.convertedValidators,
+            converted_miners: data.convertedMiners,
+            min_confirmations_required: data.minConfirmationsRequired,
+        });
+    }
+
+    private mapToBootstrapData(row: any): BootstrapConfigData {
+        return {
+            id: row.id,
+            networkId: row.network_id,
+            isActive: Boolean(row.is_active),
+            mode: row.mode,
+            convertedValidators: row.converted_validators || [],
+            convertedMiners: row.converted_miners || [],
+            minConfirmationsRequired: row.min_confirmations_required,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+        };
+    }
+}
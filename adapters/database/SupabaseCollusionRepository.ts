@@ -0,0 +1,202 @@
+/**
+ * Supabase Collusion Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of ICollusionRepository
+ * validators / rejected_validators are jsonb arrays
+ */
+
+import {
+    ICollusionRepository,
+    CollusionEventData,
+    UserRejectionData,
+    CollusionScoreData
+} from '../../interfaces/ICollusionRepository';
+import { SupabaseClient, SUPABASE_TABLES, unwrap } from './SupabaseTypes';
+
+export class SupabaseCollusionRepository implements ICollusionRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async recordEvent(data: Omit<CollusionEventData, 'id' | 'detectedAt'>): Promise<CollusionEventData> {
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.collusionEvents)
+                .insert({
+                    id: crypto.randomUUID(),
+                    network_id: data.networkId,
+                    task_id: data.taskId || null,
+                    validators: data.validators,
+                    pattern_hash: data.patternHash,
+                    severity: data.severity,
+                    metadata: data.metadata || null,
+                    detected_at: new Date().toISOString(),
+                })
+                .select()
+                .single(),
+            'record collusion event'
+        );
+
+        return this.mapToCollusionEvent(row);
+    }
+
+    async recordUserRejection(data: Omit<UserRejectionData, 'id' | 'createdAt'>): Promise<UserRejectionData> {
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.userRejections)
+                .insert({
+                    id: crypto.randomUUID(),
+                    task_id: data.taskId,
+                    network_id: data.networkId,
+                    user_address: data.userAddress,
+                    rejected_validators: data.rejectedValidators,
+                    pattern_hash: data.patternHash,
+                    redo_count: data.redoCount,
+                    created_at: new Date().toISOString(),
+                })
+                .select()
+                .single(),
+            'record user rejection'
+        );
+
+        return this.mapToUserRejection(row);
+    }
+
+    async findEventsByNetwork(networkId: string, limit: number = 100): Promise<CollusionEventData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.collusionEvents)
+                .select()
+                .eq('network_id', networkId)
+                .order('detected_at', { ascending: false })
+                .limit(limit),
+            'find collusion events by network'
+        );
+
+        return (rows || []).map(row => this.mapToCollusionEvent(row));
+    }
+
+    async findEventsByValidator(validatorAddress: string, limit: number = 100): Promise<CollusionEventData[]> {
+        // jsonb containment: validators @> '["0x..."]'
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.collusionEvents)
+                .select()
+                .contains('validators', [validatorAddress])
+                .order('detected_at', { ascending: false })
+                .limit(limit),
+            'find collusion events by validator'
+        );
+
+        return (rows || []).map(row => this.mapToCollusionEvent(row));
+    }
+
+    async findRejectionsByNetwork(networkId: string, limit: number = 100): Promise<UserRejectionData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.userRejections)
+                .select()
+                .eq('network_id', networkId)
+                .order('created_at', { ascending: false })
+                .limit(limit),
+            'find user rejections by network'
+        );
+
+        return (rows || []).map(row => this.mapToUserRejection(row));
+    }
+
+    async findRejectionsByTask(taskId: string): Promise<UserRejectionData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.userRejections)
+                .select()
+                .eq('task_id', taskId)
+                .order('created_at', { ascending: false }),
+            'find user rejections by task'
+        );
+
+        return (rows || []).map(row => this.mapToUserRejection(row));
+    }
+
+    async getCollusionScore(validatorAddress: string, networkId: string): Promise<number> {
+        const row = await this.findScore(validatorAddress, networkId);
+        return row?.score || 0;
+    }
+
+    async updateCollusionScore(validatorAddress: string, networkId: string, score: number): Promise<void> {
+        // PostgREST has no atomic increment; read the current count, then upsert on the composite key
+        const existing = await this.findScore(validatorAddress, networkId);
+        const now = new Date().toISOString();
+
+        unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.collusionScores)
+                .upsert({
+                    validator_address: validatorAddress,
+                    network_id: networkId,
+                    score,
+                    event_count: (existing?.event_count || 0) + 1,
+                    last_event_at: existing ? now : null,
+                    updated_at: now,
+                }, { onConflict: 'validator_address,network_id' }),
+            'update collusion score'
+        );
+    }
+
+    async getHighRiskValidators(networkId: string, minScore: number): Promise<CollusionScoreData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.collusionScores)
+                .select()
+                .eq('network_id', networkId)
+                .gte('score', minScore)
+                .order('score', { ascending: false }),
+            'find high risk validators'
+        );
+
+        return (rows || []).map(row => ({
+            validatorAddress: row.validator_address,
+            networkId: row.network_id,
+            score: row.score,
+            eventCount: row.event_count,
+            lastEventAt: row.last_event_at ? new Date(row.last_event_at) : undefined,
+            updatedAt: new Date(row.updated_at),
+        }));
+    }
+
+    private async findScore(validatorAddress: string, networkId: string): Promise<any | null> {
+        return unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.collusionScores)
+                .select()
+                .eq('validator_address', validatorAddress)
+                .eq('network_id', networkId)
+                .maybeSingle(),
+            'find collusion score'
+        );
+    }
+
+    private mapToCollusionEvent(row: any): CollusionEventData {
+        return {
+            id: row.id,
+            networkId: row.network_id,
+            taskId: row.task_id || undefined,
+            validators: row.validators,
+            patternHash: row.pattern_hash,
+            severity: row.severity as 'low' | 'medium' | 'high' | 'critical',
+            detectedAt: new Date(row.detected_at),
+            metadata: row.metadata || undefined,
+        };
+    }
+
+    private mapToUserRejection(row: any): UserRejectionData {
+        return {
+            id: row.id,
+            taskId: row.task_id,
+            networkId: row.network_id,
+            userAddress: row.user_address,
+            rejectedValidators: row.rejected_validators,
+            patternHash: row.pattern_hash,
+            redoCount: row.redo_count,
+            createdAt: new Date(row.created_at),
+        };
+    }
+}
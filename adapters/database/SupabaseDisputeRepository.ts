@@ -0,0 +1,130 @@
+/**
+ * Supabase Dispute Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of IDisputeRepository
+ */
+
+import { IDisputeRepository, DisputeData } from '../../interfaces/IDisputeRepository';
+import { SupabaseClient, SUPABASE_TABLES, unwrap, definedColumns } from './SupabaseTypes';
+
+export class SupabaseDisputeRepository implements IDisputeRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async create(data: Omit<DisputeData, 'id' | 'openedAt'>): Promise<DisputeData> {
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.disputes)
+                .insert(definedColumns({
+                    id: crypto.randomUUID(),
+                    task_id: data.taskId,
+                    network_id: data.networkId,
+                    challenger_address: data.challengerAddress,
+                    reason: data.reason,
+                    evidence_cid: data.evidenceCid,
+                    stake: data.stake,
+                    resolution_mode: data.resolutionMode,
+                    status: data.status,
+                    challenger_won: data.challengerWon,
+                    resolution_tx_hash: data.resolutionTxHash,
+                    window_ends_at: data.windowEndsAt.toISOString(),
+                    opened_at: new Date().toISOString(),
+                    resolved_at: data.resolvedAt?.toISOString(),
+                }))
+                .select()
+                .single(),
+            'create dispute'
+        );
+
+        return this.mapToDisputeData(row);
+    }
+
+    async findById(id: string): Promise<DisputeData | null> {
+        const row = unwrap(
+            await this.client.from(SUPABASE_TABLES.disputes).select().eq('id', id).maybeSingle(),
+            'find dispute'
+        );
+
+        return row ? this.mapToDisputeData(row) : null;
+    }
+
+    async findByTask(taskId: string): Promise<DisputeData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.disputes)
+                .select()
+                .eq('task_id', taskId)
+                .order('opened_at', { ascending: false }),
+            'find disputes by task'
+        );
+
+        return (rows || []).map(row => this.mapToDisputeData(row));
+    }
+
+    async findOpen(networkId?: string, limit?: number): Promise<DisputeData[]> {
+        let query = this.client.from(SUPABASE_TABLES.disputes).select().eq('status', 'open');
+
+        if (networkId) {
+            query = query.eq('network_id', networkId);
+        }
+
+        query = query.order('opened_at', { ascending: true });
+
+        if (limit) {
+            query = query.limit(limit);
+        }
+
+        const rows = unwrap(await query, 'find open disputes');
+        return (rows || []).map(row => this.mapToDisputeData(row));
+    }
+
+    async countUnresolved(networkId: string, from: Date, to: Date): Promise<number> {
+        const result = await this.client
+            .from(SUPABASE_TABLES.disputes)
+            .select('id', { count: 'exact', head: true })
+            .eq('network_id', networkId)
+            .eq('status', 'open')
+            .gte('opened_at', from.toISOString())
+            .lte('opened_at', to.toISOString());
+        unwrap(result, 'count unresolved disputes');
+
+        return result.count || 0;
+    }
+
+    async update(id: string, data: Partial<DisputeData>): Promise<DisputeData> {
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.disputes)
+                .update(definedColumns({
+                    status: data.status,
+                    challenger_won: data.challengerWon,
+                    resolution_tx_hash: data.resolutionTxHash,
+                    resolved_at: data.resolvedAt?.toISOString(),
+                }))
+                .eq('id', id)
+                .select()
+                .single(),
+            'update dispute'
+        );
+
+        return this.mapToDisputeData(row);
+    }
+
+    private mapToDisputeData(row: any): DisputeData {
+        return {
+            id: row.id,
+            taskId: row.task_id,
+            networkId: row.network_id,
+            challengerAddress: row.challenger_address,
+            reason: row.reason,
+            evidenceCid: row.evidence_cid,
+            stake: row.stake || undefined,
+            resolutionMode: row.resolution_mode,
+            status: row.status,
+            challengerWon: row.challenger_won ?? undefined,
+            resolutionTxHash: row.resolution_tx_hash || undefined,
+            windowEndsAt: new Date(row.window_ends_at),
+            openedAt: new Date(row.opened_at),
+            resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+        };
+    }
+}
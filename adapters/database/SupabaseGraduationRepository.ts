@@ -0,0 +1,110 @@
+/**
+ * Supabase Graduation Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of IGraduationRepository
+ */
+
+import { IGraduationRepository, GraduationData } from '../../interfaces/IGraduationRepository';
+import { SupabaseClient, SUPABASE_TABLES, unwrap, definedColumns } from './SupabaseTypes';
+
+export class SupabaseGraduationRepository implements IGraduationRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async create(data: Omit<GraduationData, 'id' | 'createdAt' | 'updatedAt'>): Promise<GraduationData> {
+        const now = new Date().toISOString();
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.graduations)
+                .insert({
+                    id: crypto.randomUUID(),
+                    ...this.toRow(data),
+                    created_at: now,
+                    updated_at: now,
+                })
+                .select()
+                .single(),
+            'create graduation record'
+        );
+
+        return this.mapToGraduationData(row);
+    }
+
+    async findByNetwork(networkId: string): Promise<GraduationData | null> {
+        const row = unwrap(
+            await this.client.from(SUPABASE_TABLES.graduations).select().eq('network_id', networkId).maybeSingle(),
+            'find graduation record'
+        );
+
+        return row ? this.mapToGraduationData(row) : null;
+    }
+
+    async update(id: string, data: Partial<GraduationData>): Promise<GraduationData> {
+        const { id: _id, networkId, createdAt, ...fields } = data;
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.graduations)
+                .update({ ...this.toRow(fields), updated_at: new Date().toISOString() })
+                .eq('id', id)
+                .select()
+                .single(),
+            'update graduation record'
+        );
+
+        return this.mapToGraduationData(row);
+    }
+
+    async getNetworksReadyForGraduation(criteria: {
+        minValidators: number;
+        minMiners: number;
+        minTasks: number;
+    }): Promise<string[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.graduations)
+                .select('network_id')
+                .gte('validator_count', criteria.minValidators)
+                .gte('miner_count', criteria.minMiners)
+                .gte('task_count', criteria.minTasks)
+                .is('graduated_at', null),
+            'find networks ready for graduation'
+        );
+
+        return (rows || []).map(row => row.network_id);
+    }
+
+    async markAsGraduated(networkId: string, phase: 'growth' | 'mature'): Promise<void> {
+        const now = new Date().toISOString();
+        unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.graduations)
+                .update({ phase, graduated_at: now, updated_at: now })
+                .eq('network_id', networkId),
+            'mark network graduated'
+        );
+    }
+
+    private toRow(data: Partial<GraduationData>): Record<string, any> {
+        return definedColumns({
+            network_id: data.networkId,
+            phase: data.phase,
+            validator_count: data.validatorCount,
+            miner_count: data.minerCount,
+            task_count: data.taskCount,
+            graduated_at: data.graduatedAt?.toISOString(),
+        });
+    }
+
+    private mapToGraduationData(row: any): GraduationData {
+        return {
+            id: row.id,
+            networkId: row.network_id,
+            phase: row.phase,
+            validatorCount: row.validator_count,
+            minerCount: row.miner_count,
+            taskCount: row.task_count,
+            graduatedAt: row.graduated_at ? new Date(row.graduated_at) : undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+        };
+    }
+}
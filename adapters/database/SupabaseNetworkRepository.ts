@@ -0,0 +1,144 @@
+/**
+ * Supabase Network Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of INetworkRepository
+ */
+
+import { INetworkRepository, NetworkData } from '../../interfaces';
+import { SupabaseClient, SupabaseQueryBuilder, SUPABASE_TABLES, unwrap, definedColumns, paginate } from './SupabaseTypes';
+
+export class SupabaseNetworkRepository implements INetworkRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async create(data: NetworkData): Promise<NetworkData> {
+        const now = new Date().toISOString();
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.networks)
+                .insert({ ...this.toRow(data), created_at: now, updated_at: now })
+                .select()
+                .single(),
+            'create network'
+        );
+
+        return this.mapToNetworkData(row);
+    }
+
+    async findById(id: string): Promise<NetworkData | null> {
+        const row = unwrap(
+            await this.client.from(SUPABASE_TABLES.networks).select().eq('network_id', id).maybeSingle(),
+            'find network'
+        );
+
+        return row ? this.mapToNetworkData(row) : null;
+    }
+
+    async findByCreator(creatorAddress: string): Promise<NetworkData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.networks)
+                .select()
+                .eq('creator_address', creatorAddress)
+                .order('created_at', { ascending: false }),
+            'find networks by creator'
+        );
+
+        return (rows || []).map(row => this.mapToNetworkData(row));
+    }
+
+    async update(id: string, data: Partial<NetworkData>): Promise<NetworkData> {
+        const { networkId, createdAt, ...fields } = data;
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.networks)
+                .update({ ...this.toRow(fields), updated_at: new Date().toISOString() })
+                .eq('network_id', id)
+                .select()
+                .single(),
+            'update network'
+        );
+
+        return this.mapToNetworkData(row);
+    }
+
+    async delete(id: string): Promise<void> {
+        unwrap(
+            await this.client.from(SUPABASE_TABLES.networks).delete().eq('network_id', id),
+            'delete network'
+        );
+    }
+
+    async list(filters?: {
+        status?: NetworkData['status'];
+        category?: string;
+        limit?: number;
+        offset?: number;
+    }): Promise<NetworkData[]> {
+        let query = this.applyFilters(this.client.from(SUPABASE_TABLES.networks).select(), filters)
+            .order('created_at', { ascending: false });
+
+        if (filters?.limit || filters?.offset) {
+            query = paginate(query, filters.limit, filters.offset);
+        }
+
+        const rows = unwrap(await query, 'list networks');
+        return (rows || []).map(row => this.mapToNetworkData(row));
+    }
+
+    async count(filters?: { status?: NetworkData['status']; category?: string }): Promise<number> {
+        const result = await this.applyFilters(
+            this.client.from(SUPABASE_TABLES.networks).select('network_id', { count: 'exact', head: true }),
+            filters
+        );
+        unwrap(result, 'count networks');
+
+        return result.count || 0;
+    }
+
+    private applyFilters(
+        query: SupabaseQueryBuilder,
+        filters?: { status?: NetworkData['status']; category?: string }
+    ): SupabaseQueryBuilder {
+        if (filters?.status) {
+            query = query.eq('status', filters.status);
+        }
+        if (filters?.category) {
+            query = query.eq('category', filters.category);
+        }
+        return query;
+    }
+
+    private toRow(data: Partial<NetworkData>): Record<string, any> {
+        return definedColumns({
+            network_id: data.networkId,
+            name: data.name,
+            description: data.description,
+            category: data.category,
+            creator_address: data.creatorAddress,
+            manifest_cid: data.manifestCid,
+            contract_address: data.contractAddress,
+            validator_registry_address: data.validatorRegistryAddress,
+            settlement_chain: data.settlementChain,
+            status: data.status,
+            module_id: data.moduleId,
+        });
+    }
+
+    private mapToNetworkData(row: any): NetworkData {
+        return {
+            networkId: row.network_id,
+            name: row.name,
+            description: row.description,
+            category: row.category,
+            creatorAddress: row.creator_address,
+            manifestCid: row.manifest_cid || undefined,
+            contractAddress: row.contract_address || undefined,
+            validatorRegistryAddress: row.validator_registry_address || undefined,
+            settlementChain: row.settlement_chain || undefined,
+            status: row.status,
+            moduleId: row.module_id || undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+        };
+    }
+}
@@ -0,0 +1,314 @@
+/**
+ * Supabase Task Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of ITaskRepository
+ * JSON fields (input, output, metadata, evaluation_result, ...) are jsonb columns
+ */
+
+import { ITaskRepository, TaskData, TaskOutputData, TaskEvaluationData } from '../../interfaces/ITaskRepository';
+import { SupabaseClient, SUPABASE_TABLES, unwrap, definedColumns, paginate } from './SupabaseTypes';
+
+export class SupabaseTaskRepository implements ITaskRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async create(data: TaskData): Promise<TaskData> {
+        const now = new Date().toISOString();
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.tasks)
+                .insert({ ...this.toRow(data), created_at: now, updated_at: now })
+                .select()
+                .single(),
+            'create task'
+        );
+
+        return this.mapToTaskData(row);
+    }
+
+    async findById(taskId: string): Promise<TaskData | null> {
+        const row = unwrap(
+            await this.client.from(SUPABASE_TABLES.tasks).select().eq('task_id', taskId).maybeSingle(),
+            'find task'
+        );
+
+        return row ? this.mapToTaskData(row) : null;
+    }
+
+    async findByNetwork(
+        networkId: string,
+        filters?: {
+            status?: TaskData['status'];
+            limit?: number;
+            offset?: number;
+        }
+    ): Promise<TaskData[]> {
+        let query = this.client
+            .from(SUPABASE_TABLES.tasks)
+            .select()
+            .eq('network_id', networkId);
+
+        if (filters?.status) {
+            query = query.eq('status', filters.status);
+        }
+
+        query = query.order('created_at', { ascending: false });
+
+        if (filters?.limit || filters?.offset) {
+            query = paginate(query, filters.limit, filters.offset);
+        }
+
+        const rows = unwrap(await query, 'find tasks by network');
+        return (rows || []).map(row => this.mapToTaskData(row));
+    }
+
+    async update(taskId: string, data: Partial<TaskData>): Promise<TaskData> {
+        const { taskId: _taskId, createdAt, ...fields } = data;
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.tasks)
+                .update({ ...this.toRow(fields), updated_at: new Date().toISOString() })
+                .eq('task_id', taskId)
+                .select()
+                .single(),
+            'update task'
+        );
+
+        return this.mapToTaskData(row);
+    }
+
+    async updateStatus(taskId: string, status: TaskData['status']): Promise<void> {
+        await this.setColumns(taskId, { status }, 'update task status');
+    }
+
+    async addOutput(data: TaskOutputData): Promise<TaskOutputData> {
+        await this.assertTaskExists(data.taskId);
+
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.taskOutputs)
+                .insert(definedColumns({
+                    id: data.id || crypto.randomUUID(),
+                    task_id: data.taskId,
+                    output_id: data.outputId,
+                    output: data.output,
+                    miner_address: data.minerAddress,
+                    timestamp: data.timestamp.toISOString(),
+                    metadata: data.metadata,
+                }))
+                .select()
+                .single(),
+            'add task output'
+        );
+
+        return this.mapToOutputData(row);
+    }
+
+    async getOutputs(taskId: string): Promise<TaskOutputData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.taskOutputs)
+                .select()
+                .eq('task_id', taskId)
+                .order('timestamp', { ascending: true }),
+            'get task outputs'
+        );
+
+        return (rows || []).map(row => this.mapToOutputData(row));
+    }
+
+    async addEvaluation(data: TaskEvaluationData): Promise<TaskEvaluationData> {
+        await this.assertTaskExists(data.taskId);
+
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.taskEvaluations)
+                .insert(definedColumns({
+                    id: data.id || crypto.randomUUID(),
+                    task_id: data.taskId,
+                    validator_address: data.validatorAddress,
+                    output_id: data.outputId,
+                    score: data.score,
+                    confidence: data.confidence,
+                    signature: data.signature,
+                    timestamp: data.timestamp.toISOString(),
+                    evidence: data.evidence,
+                }))
+                .select()
+                .single(),
+            'add task evaluation'
+        );
+
+        return this.mapToEvaluationData(row);
+    }
+
+    async getEvaluations(taskId: string): Promise<TaskEvaluationData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.taskEvaluations)
+                .select()
+                .eq('task_id', taskId)
+                .order('timestamp', { ascending: true }),
+            'get task evaluations'
+        );
+
+        return (rows || []).map(row => this.mapToEvaluationData(row));
+    }
+
+    async findByStatus(status: TaskData['status'], limit?: number): Promise<TaskData[]> {
+        let query = this.client
+            .from(SUPABASE_TABLES.tasks)
+            .select()
+            .eq('status', status)
+            .order('created_at', { ascending: false });
+
+        if (limit) {
+            query = query.limit(limit);
+        }
+
+        const rows = unwrap(await query, 'find tasks by status');
+        return (rows || []).map(row => this.mapToTaskData(row));
+    }
+
+    async findOverdue(status: TaskData['status'], before: Date, limit?: number): Promise<TaskData[]> {
+        let query = this.client
+            .from(SUPABASE_TABLES.tasks)
+            .select()
+            .eq('status', status)
+            .lt('created_at', before.toISOString())
+            .order('created_at', { ascending: true });
+
+        if (limit) {
+            query = query.limit(limit);
+        }
+
+        const rows = unwrap(await query, 'find overdue tasks');
+        return (rows || []).map(row => this.mapToTaskData(row));
+    }
+
+    async findWaitingForSelection(networkId?: string): Promise<TaskData[]> {
+        let query = this.client
+            .from(SUPABASE_TABLES.tasks)
+            .select()
+            .eq('status', 'user-selecting');
+
+        if (networkId) {
+            query = query.eq('network_id', networkId);
+        }
+
+        const rows = unwrap(
+            await query.order('created_at', { ascending: false }),
+            'find tasks waiting for selection'
+        );
+        return (rows || []).map(row => this.mapToTaskData(row));
+    }
+
+    async updateConsensus(taskId: string, winningOutputId: string): Promise<void> {
+        await this.setColumns(taskId, {
+            consensus_reached: true,
+            winning_output_id: winningOutputId,
+            status: 'consensus-reached',
+        }, 'update task consensus');
+    }
+
+    async updateEvaluationResult(taskId: string, evaluationResult: any): Promise<void> {
+        await this.setColumns(taskId, { evaluation_result: evaluationResult }, 'update task evaluation result');
+    }
+
+    async updatePreFilteredOutputs(taskId: string, outputIds: string[]): Promise<void> {
+        await this.setColumns(taskId, {
+            pre_filtered_outputs: outputIds,
+            status: 'pre-filtering',
+        }, 'update task pre-filtered outputs');
+    }
+
+    async updateHumanSelection(taskId: string, selectedOutputId: string, userAddress: string): Promise<void> {
+        await this.setColumns(taskId, {
+            human_selection: { selectedOutputId, userAddress, timestamp: Date.now() },
+            winning_output_id: selectedOutputId,
+            status: 'consensus-reached',
+        }, 'update task human selection');
+    }
+
+    private async setColumns(taskId: string, columns: Record<string, any>, action: string): Promise<void> {
+        unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.tasks)
+                .update({ ...columns, updated_at: new Date().toISOString() })
+                .eq('task_id', taskId),
+            action
+        );
+    }
+
+    private async assertTaskExists(taskId: string): Promise<void> {
+        const row = unwrap(
+            await this.client.from(SUPABASE_TABLES.tasks).select('task_id').eq('task_id', taskId).maybeSingle(),
+            'find task'
+        );
+
+        if (!row) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+    }
+
+    private toRow(data: Partial<TaskData>): Record<string, any> {
+        return definedColumns({
+            task_id: data.taskId,
+            network_id: data.networkId,
+            status: data.status,
+            input: data.input,
+            depositor_address: data.depositorAddress,
+            deposit_amount: data.depositAmount,
+            deposit_tx_hash: data.depositTxHash,
+            ipfs_cid: data.ipfsCid,
+            winning_output_id: data.winningOutputId,
+            consensus_reached: data.consensusReached,
+            payment_released: data.paymentReleased,
+            payment_tx_hash: data.paymentTxHash,
+        });
+    }
+
+    private mapToTaskData(row: any): TaskData {
+        return {
+            taskId: row.task_id,
+            networkId: row.network_id,
+            status: row.status as TaskData['status'],
+            input: row.input,
+            depositorAddress: row.depositor_address,
+            depositAmount: row.deposit_amount,
+            depositTxHash: row.deposit_tx_hash || undefined,
+            ipfsCid: row.ipfs_cid || undefined,
+            winningOutputId: row.winning_output_id || undefined,
+            consensusReached: Boolean(row.consensus_reached),
+            paymentReleased: Boolean(row.payment_released),
+            paymentTxHash: row.payment_tx_hash || undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+        };
+    }
+
+    private mapToOutputData(row: any): TaskOutputData {
+        return {
+            id: row.id,
+            taskId: row.task_id,
+            outputId: row.output_id,
+            output: row.output,
+            minerAddress: row.miner_address,
+            timestamp: new Date(row.timestamp),
+            metadata: row.metadata || undefined,
+        };
+    }
+
+    private mapToEvaluationData(row: any): TaskEvaluationData {
+        return {
+            id: row.id,
+            taskId: row.task_id,
+            validatorAddress: row.validator_address,
+            outputId: row.output_id,
+            score: row.score,
+            confidence: row.confidence,
+            signature: row.signature,
+            timestamp: new Date(row.timestamp),
+            evidence: row.evidence || undefined,
+        };
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Supabase Types
+ *
+ * The subset of `@supabase/supabase-js` (PostgREST query builder) used by the
+ * Supabase repositories. Declared structurally so the protocol does not depend
+ * on the client library; pass the result of `createClient(url, key)`.
+ *
+ * Tables use snake_case columns; each repository maps rows to its camelCase data type.
+ * The DDL for these tables is in supabase/schema.sql.
+ */
+
+export interface SupabaseClient {
+    from(table: string): SupabaseQueryBuilder;
+}
+
+export interface SupabaseError {
+    message: string;
+    code?: string;
+    details?: string;
+}
+
+export interface SupabaseResult<T> {
+    data: T | null;
+    error: SupabaseError | null;
+    count?: number | null;
+}
+
+export interface SupabaseQueryBuilder<T = any> extends PromiseLike<SupabaseResult<T[]>> {
+    select(columns?: string, options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }): SupabaseQueryBuilder<T>;
+    insert(values: any): SupabaseQueryBuilder<T>;
+    update(values: any): SupabaseQueryBuilder<T>;
+    upsert(values: any, options?: { onConflict?: string }): SupabaseQueryBuilder<T>;
+    delete(options?: { count?: 'exact' | 'planned' | 'estimated' }): SupabaseQueryBuilder<T>;
+    eq(column: string, value: any): SupabaseQueryBuilder<T>;
+    gt(column: string, value: any): SupabaseQueryBuilder<T>;
+    gte(column: string, value: any): SupabaseQueryBuilder<T>;
+    lt(column: string, value: any): SupabaseQueryBuilder<T>;
+    lte(column: string, value: any): SupabaseQueryBuilder<T>;
+    is(column: string, value: null | boolean): SupabaseQueryBuilder<T>;
+    contains(column: string, value: any): SupabaseQueryBuilder<T>;
+    or(filters: string): SupabaseQueryBuilder<T>;
+    order(column: string, options?: { ascending?: boolean }): SupabaseQueryBuilder<T>;
+    limit(count: number): SupabaseQueryBuilder<T>;
+    range(from: number, to: number): SupabaseQueryBuilder<T>;
+    single(): PromiseLike<SupabaseResult<T>>;
+    maybeSingle(): PromiseLike<SupabaseResult<T | null>>;
+}
+
+/**
+ * Table names shared by the Supabase repositories
+ */
+export const SUPABASE_TABLES = {
+    networks: 'tenseuron_networks',
+    tasks: 'tenseuron_tasks',
+    taskOutputs: 'tenseuron_task_outputs',
+    taskEvaluations: 'tenseuron_task_evaluations',
+    collusionEvents: 'collusion_events',
+    userRejections: 'user_rejections',
+    collusionScores: 'collusion_scores',
+    validatorInteractions: 'validator_interactions',
+    bootstrapConfigs: 'bootstrap_configs',
+    graduations: 'network_graduations',
+    disputes: 'task_disputes',
+    domainEvents: 'domain_events',
+} as const;
+
+/**
+ * Return the data of a PostgREST response or throw its error
+ */
+export function unwrap<T>(result: SupabaseResult<T>, action: string): T {
+    if (result.error) {
+        throw new Error(`Supabase ${action} failed: ${result.error.message}`);
+    }
+    return result.data as T;
+}
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Apply limit/offset as a PostgREST range
+ * Without a limit the range ends at PostgREST's default page size
+ */
+export function paginate(query: SupabaseQueryBuilder, limit?: number, offset: number = 0): SupabaseQueryBuilder {
+    return query.range(offset, offset + (limit || DEFAULT_PAGE_SIZE) - 1);
+}
+
+/**
+ * Drop undefined columns so updates only touch the fields that were passed
+ */
+export function definedColumns(row: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+        if (value !== undefined) {
+            result[key] = value;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,218 @@
+/**
+ * Supabase Validator Interaction Repository
+ *
+ * Supabase (Postgres over PostgREST) implementation of IValidatorInteractionRepository
+ */
+
+import {
+    IValidatorInteractionRepository,
+    ValidatorInteractionData,
+    InteractionFrequencyData
+} from '../../interfaces/IValidatorInteractionRepository';
+import { SupabaseClient, SupabaseQueryBuilder, SUPABASE_TABLES, unwrap } from './SupabaseTypes';
+
+export class SupabaseValidatorInteractionRepository implements IValidatorInteractionRepository {
+    constructor(private client: SupabaseClient) { }
+
+    async recordInteraction(data: Omit<ValidatorInteractionData, 'id' | 'timestamp'>): Promise<ValidatorInteractionData> {
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.validatorInteractions)
+                .insert({
+                    id: crypto.randomUUID(),
+                    network_id: data.networkId,
+                    validator1: data.validator1,
+                    validator2: data.validator2,
+                    task_id: data.taskId,
+                    agreement: data.agreement,
+                    metadata: data.metadata || null,
+                    timestamp: new Date().toISOString(),
+                })
+                .select()
+                .single(),
+            'record validator interaction'
+        );
+
+        return this.mapToInteraction(row);
+    }
+
+    async findByValidators(
+        validator1: string,
+        validator2: string,
+        networkId?: string,
+        limit: number = 100
+    ): Promise<ValidatorInteractionData[]> {
+        const query = this.client
+            .from(SUPABASE_TABLES.validatorInteractions)
+            .select()
+            .or(
+                `and(validator1.eq.${validator1},validator2.eq.${validator2}),` +
+                `and(validator1.eq.${validator2},validator2.eq.${validator1})`
+            );
+
+        const rows = unwrap(
+            await this.withNetwork(query, networkId).order('timestamp', { ascending: false }).limit(limit),
+            'find interactions by validators'
+        );
+
+        return (rows || []).map(row => this.mapToInteraction(row));
+    }
+
+    async findByValidator(
+        validatorAddress: string,
+        networkId?: string,
+        limit: number = 100
+    ): Promise<ValidatorInteractionData[]> {
+        const query = this.client
+            .from(SUPABASE_TABLES.validatorInteractions)
+            .select()
+            .or(`validator1.eq.${validatorAddress},validator2.eq.${validatorAddress}`);
+
+        const rows = unwrap(
+            await this.withNetwork(query, networkId).order('timestamp', { ascending: false }).limit(limit),
+            'find interactions by validator'
+        );
+
+        return (rows || []).map(row => this.mapToInteraction(row));
+    }
+
+    async getInteractionFrequency(
+        validator1: string,
+        validator2: string,
+        networkId: string
+    ): Promise<InteractionFrequencyData | null> {
+        const interactions = await this.findByValidators(validator1, validator2, networkId, 1000);
+
+        if (interactions.length === 0) {
+            return null;
+        }
+
+        const agreementCount = interactions.filter(i => i.agreement).length;
+
+        return {
+            validator1,
+            validator2,
+            networkId,
+            totalInteractions: interactions.length,
+            agreementCount,
+            disagreementCount: interactions.length - agreementCount,
+            agreementRate: agreementCount / interactions.length,
+            lastInteraction: interactions[0].timestamp,
+        };
+    }
+
+    async getHighAgreementPairs(
+        networkId: string,
+        minInteractions: number,
+        minAgreementRate: number
+    ): Promise<InteractionFrequencyData[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.validatorInteractions)
+                .select('validator1, validator2, agreement, timestamp')
+                .eq('network_id', networkId)
+                .order('timestamp', { ascending: false }),
+            'find interactions by network'
+        );
+
+        // Group by unordered validator pair
+        const pairMap = new Map<string, { agreements: number; total: number; lastInteraction: Date }>();
+        for (const row of rows || []) {
+            const key = [row.validator1, row.validator2].sort().join('-');
+            const pair = pairMap.get(key) || { agreements: 0, total: 0, lastInteraction: new Date(row.timestamp) };
+            pair.total++;
+            if (row.agreement) {
+                pair.agreements++;
+            }
+            pairMap.set(key, pair);
+        }
+
+        const highAgreementPairs: InteractionFrequencyData[] = [];
+        for (const [key, pair] of pairMap.entries()) {
+            if (pair.total < minInteractions) {
+                continue;
+            }
+
+            const agreementRate = pair.agreements / pair.total;
+            if (agreementRate >= minAgreementRate) {
+                const [validator1, validator2] = key.split('-');
+                highAgreementPairs.push({
+                    validator1,
+                    validator2,
+                    networkId,
+                    totalInteractions: pair.total,
+                    agreementCount: pair.agreements,
+                    disagreementCount: pair.total - pair.agreements,
+                    agreementRate,
+                    lastInteraction: pair.lastInteraction,
+                });
+            }
+        }
+
+        return highAgreementPairs.sort((a, b) => b.agreementRate - a.agreementRate);
+    }
+
+    async getValidatorStats(
+        validatorAddress: string,
+        networkId: string
+    ): Promise<{
+        totalInteractions: number;
+        uniquePartners: number;
+        averageAgreementRate: number;
+    }> {
+        const interactions = await this.findByValidator(validatorAddress, networkId, 10000);
+
+        if (interactions.length === 0) {
+            return {
+                totalInteractions: 0,
+                uniquePartners: 0,
+                averageAgreementRate: 0,
+            };
+        }
+
+        const partners = new Set<string>();
+        let totalAgreements = 0;
+
+        for (const interaction of interactions) {
+            partners.add(
+                interaction.validator1 === validatorAddress ? interaction.validator2 : interaction.validator1
+            );
+            if (interaction.agreement) {
+                totalAgreements++;
+            }
+        }
+
+        return {
+            totalInteractions: interactions.length,
+            uniquePartners: partners.size,
+            averageAgreementRate: totalAgreements / interactions.length,
+        };
+    }
+
+    async deleteOldInteractions(beforeDate: Date): Promise<number> {
+        const result = await this.client
+            .from(SUPABASE_TABLES.validatorInteractions)
+            .delete({ count: 'exact' })
+            .lt('timestamp', beforeDate.toISOString());
+        unwrap(result, 'delete old interactions');
+
+        return result.count || 0;
+    }
+
+    private withNetwork(query: SupabaseQueryBuilder, networkId?: string): SupabaseQueryBuilder {
+        return networkId ? query.eq('network_id', networkId) : query;
+    }
+
+    private mapToInteraction(row: any): ValidatorInteractionData {
+        return {
+            id: row.id,
+            networkId: row.network_id,
+            validator1: row.validator1,
+            validator2: row.validator2,
+            taskId: row.task_id,
+            agreement: Boolean(row.agreement),
+            timestamp: new Date(row.timestamp),
+            metadata: row.metadata || undefined,
+        };
+    }
+}
@@ -7,3 +7,11 @@ export { PrismaNetworkRepository } from './PrismaNetworkRepository';
 export { D1NetworkRepository } from './D1NetworkRepository';
 export { PrismaTaskRepository } from './PrismaTaskRepository';
 export { D1TaskRepository } from './D1TaskRepository';
+export { MongoNetworkRepository } from './MongoNetworkRepository';
+export { MongoTaskRepository } from './MongoTaskRepository';
+export { SupabaseNetworkRepository } from './SupabaseNetworkRepository';
+export { SupabaseTaskRepository } from './SupabaseTaskRepository';
+export { InMemoryNetworkRepository } from './InMemoryNetworkRepository';
+export { InMemoryTaskRepository } from './InMemoryTaskRepository';
+export type { MongoDatabase } from './MongoTypes';
+export type { SupabaseClient } from './SupabaseTypes';
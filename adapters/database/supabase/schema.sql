@@ -0,0 +1,183 @@
+-- Supabase Schema
+--
+-- Tables used by the Supabase repositories and event store (see SUPABASE_TABLES in SupabaseTypes.ts).
+-- Run once in the Supabase SQL editor, or as a migration, before using the 'supabase' database type.
+-- Columns are snake_case; each repository maps rows to its camelCase data type.
+
+create table if not exists tenseuron_networks (
+    network_id                  text primary key,
+    name                        text not null,
+    description                 text not null,
+    category                    text not null,
+    creator_address             text not null,
+    manifest_cid                text,
+    contract_address            text,
+    validator_registry_address  text,
+    settlement_chain            text,
+    status                      text not null,
+    module_id                   text,
+    created_at                  timestamptz not null default now(),
+    updated_at                  timestamptz not null default now()
+);
+
+create index if not exists tenseuron_networks_creator_idx on tenseuron_networks (creator_address, created_at desc);
+create index if not exists tenseuron_networks_status_idx on tenseuron_networks (status, category);
+
+create table if not exists tenseuron_tasks (
+    task_id                 text primary key,
+    network_id              text not null,
+    status                  text not null,
+    input                   jsonb not null,
+    depositor_address       text not null,
+    deposit_amount          text not null,
+    deposit_tx_hash         text,
+    ipfs_cid                text,
+    winning_output_id       text,
+    consensus_reached       boolean not null default false,
+    payment_released        boolean not null default false,
+    payment_tx_hash         text,
+    evaluation_result       jsonb,
+    pre_filtered_outputs    jsonb,
+    human_selection         jsonb,
+    created_at              timestamptz not null default now(),
+    updated_at              timestamptz not null default now()
+);
+
+create index if not exists tenseuron_tasks_network_idx on tenseuron_tasks (network_id, status, created_at desc);
+create index if not exists tenseuron_tasks_status_idx on tenseuron_tasks (status, created_at);
+
+create table if not exists tenseuron_task_outputs (
+    id              text primary key,
+    task_id         text not null references tenseuron_tasks (task_id) on delete cascade,
+    output_id       text not null,
+    output          jsonb,
+    miner_address   text not null,
+    timestamp       timestamptz not null,
+    metadata        jsonb
+);
+
+create index if not exists tenseuron_task_outputs_task_idx on tenseuron_task_outputs (task_id, timestamp);
+
+create table if not exists tenseuron_task_evaluations (
+    id                  text primary key,
+    task_id             text not null references tenseuron_tasks (task_id) on delete cascade,
+    validator_address   text not null,
+    output_id           text not null,
+    score               double precision not null,
+    confidence          double precision not null,
+    signature           text not null,
+    timestamp           timestamptz not null,
+    evidence            jsonb
+);
+
+create index if not exists tenseuron_task_evaluations_task_idx on tenseuron_task_evaluations (task_id, timestamp);
+
+create table if not exists collusion_events (
+    id              text primary key,
+    network_id      text not null,
+    task_id         text,
+    validators      jsonb not null,
+    pattern_hash    text not null,
+    severity        text not null,
+    metadata        jsonb,
+    detected_at     timestamptz not null default now()
+);
+
+create index if not exists collusion_events_network_idx on collusion_events (network_id, detected_at desc);
+
+create table if not exists user_rejections (
+    id                      text primary key,
+    task_id                 text not null,
+    network_id              text not null,
+    user_address            text not null,
+    rejected_validators     jsonb not null,
+    pattern_hash            text not null,
+    redo_count              integer not null,
+    created_at              timestamptz not null default now()
+);
+
+create index if not exists user_rejections_network_idx on user_rejections (network_id, created_at desc);
+create index if not exists user_rejections_task_idx on user_rejections (task_id, created_at desc);
+
+create table if not exists collusion_scores (
+    validator_address   text not null,
+    network_id          text not null,
+    score               double precision not null,
+    event_count         integer not null default 0,
+    last_event_at       timestamptz,
+    updated_at          timestamptz not null default now(),
+    primary key (validator_address, network_id)
+);
+
+create table if not exists validator_interactions (
+    id              text primary key,
+    network_id      text not null,
+    validator1      text not null,
+    validator2      text not null,
+    task_id         text not null,
+    agreement       boolean not null,
+    metadata        jsonb,
+    timestamp       timestamptz not null default now()
+);
+
+create index if not exists validator_interactions_network_idx on validator_interactions (network_id, timestamp);
+create index if not exists validator_interactions_pair_idx on validator_interactions (validator1, validator2);
+
+create table if not exists bootstrap_configs (
+    id                          text primary key,
+    network_id                  text not null unique,
+    is_active                   boolean not null,
+    mode                        text not null,
+    converted_validators        jsonb not null default '[]',
+    converted_miners            jsonb not null default '[]',
+    min_confirmations_required  integer not null,
+    created_at                  timestamptz not null default now(),
+    updated_at                  timestamptz not null default now()
+);
+
+create table if not exists network_graduations (
+    id                  text primary key,
+    network_id          text not null unique,
+    phase               text not null,
+    validator_count     integer not null,
+    miner_count         integer not null,
+    task_count          integer not null,
+    graduated_at        timestamptz,
+    created_at          timestamptz not null default now(),
+    updated_at          timestamptz not null default now()
+);
+
+create table if not exists task_disputes (
+    id                      text primary key,
+    task_id                 text not null,
+    network_id              text not null,
+    challenger_address      text not null,
+    reason                  text not null,
+    evidence_cid            text not null,
+    stake                   text,
+    resolution_mode         text not null,
+    status                  text not null,
+    challenger_won          boolean,
+    resolution_tx_hash      text,
+    window_ends_at          timestamptz not null,
+    opened_at               timestamptz not null default now(),
+    resolved_at             timestamptz
+);
+
+create index if not exists task_disputes_task_idx on task_disputes (task_id, opened_at desc);
+create index if not exists task_disputes_network_idx on task_disputes (network_id, status, opened_at);
+
+-- The unique (aggregate_id, version) constraint rejects concurrent appends of the same version
+create table if not exists domain_events (
+    id                  text primary key,
+    aggregate_id        text not null,
+    aggregate_type      text not null,
+    event_type          text not null,
+    data                jsonb not null,
+    user_id             text,
+    timestamp           timestamptz not null,
+    version             integer not null,
+    unique (aggregate_id, version)
+);
+
+create index if not exists domain_events_type_idx on domain_events (event_type, timestamp);
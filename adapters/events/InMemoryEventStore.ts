@@ -0,0 +1,67 @@
+/**
+ * In-Memory Event Store
+ *
+ * In-memory implementation of IEventStore for development/testing
+ * Appending a version that already exists for the aggregate fails, like the unique
+ * (aggregateId, version) constraint of the database event stores
+ */
+
+import { IEventStore, DomainEvent } from '../../interfaces/IEventStore';
+import { cloneRecord } from '../database/InMemoryTypes';
+
+export class InMemoryEventStore implements IEventStore {
+    // Kept in append order
+    private events: DomainEvent[] = [];
+
+    async append(event: Omit<DomainEvent, 'id'>): Promise<DomainEvent> {
+        const duplicate = this.events.some(e =>
+            e.aggregateId === event.aggregateId && e.metadata.version === event.metadata.version
+        );
+        if (duplicate) {
+            throw new Error(`Event version ${event.metadata.version} already exists for aggregate ${event.aggregateId}`);
+        }
+
+        const stored: DomainEvent = {
+            id: crypto.randomUUID(),
+            ...cloneRecord(event),
+        };
+
+        this.events.push(stored);
+        return cloneRecord(stored);
+    }
+
+    async getEvents(aggregateId: string, fromVersion?: number): Promise<DomainEvent[]> {
+        return cloneRecord(
+            this.events
+                .filter(e => e.aggregateId === aggregateId && (fromVersion === undefined || e.metadata.version >= fromVersion))
+                .sort((a, b) => a.metadata.version - b.metadata.version)
+        );
+    }
+
+    async getEventsByType(eventType: string, limit?: number): Promise<DomainEvent[]> {
+        const events = this.events
+            .filter(e => e.eventType === eventType)
+            .reverse()
+            .sort((a, b) => b.metadata.timestamp.getTime() - a.metadata.timestamp.getTime());
+
+        return cloneRecord(limit ? events.slice(0, limit) : events);
+    }
+
+    async getEventsByTimeRange(startDate: Date, endDate: Date): Promise<DomainEvent[]> {
+        return cloneRecord(
+            this.events
+                .filter(e => e.metadata.timestamp >= startDate && e.metadata.timestamp <= endDate)
+                .sort((a, b) => a.metadata.timestamp.getTime() - b.metadata.timestamp.getTime())
+        );
+    }
+
+    async getLatestVersion(aggregateId: string): Promise<number> {
+        return this.events
+            .filter(e => e.aggregateId === aggregateId)
+            .reduce((latest, e) => Math.max(latest, e.metadata.version), 0);
+    }
+
+    clear(): void {
+        this.events = [];
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Mongo Event Store
+ *
+ * MongoDB implementation of IEventStore for event sourcing
+ * A unique index on { aggregateId: 1, version: 1 } makes concurrent appends of the same version fail
+ */
+
+import { IEventStore, DomainEvent } from '../../interfaces/IEventStore';
+import { MongoDatabase, MongoCollection, MONGO_COLLECTIONS } from '../database/MongoTypes';
+
+export class MongoEventStore implements IEventStore {
+    private events: MongoCollection;
+
+    constructor(db: MongoDatabase) {
+        this.events = db.collection(MONGO_COLLECTIONS.domainEvents);
+    }
+
+    async append(event: Omit<DomainEvent, 'id'>): Promise<DomainEvent> {
+        const id = crypto.randomUUID();
+
+        await this.events.insertOne({
+            id,
+            aggregateId: event.aggregateId,
+            aggregateType: event.aggregateType,
+            eventType: event.eventType,
+            data: event.data,
+            userId: event.metadata.userId,
+            timestamp: event.metadata.timestamp,
+            version: event.metadata.version,
+        });
+
+        return {
+            id,
+            ...event,
+        };
+    }
+
+    async getEvents(aggregateId: string, fromVersion?: number): Promise<DomainEvent[]> {
+        const filter: Record<string, any> = { aggregateId };
+        if (fromVersion !== undefined) {
+            filter.version = { $gte: fromVersion };
+        }
+
+        const docs = await this.events.find(filter).sort({ version: 1 }).toArray();
+        return docs.map(doc => this.mapToDomainEvent(doc));
+    }
+
+    async getEventsByType(eventType: string, limit?: number): Promise<DomainEvent[]> {
+        let cursor = this.events.find({ eventType }).sort({ timestamp: -1 });
+        if (limit) {
+            cursor = cursor.limit(limit);
+        }
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => this.mapToDomainEvent(doc));
+    }
+
+    async getEventsByTimeRange(startDate: Date, endDate: Date): Promise<DomainEvent[]> {
+        const docs = await this.events
+            .find({ timestamp: { $gte: startDate, $lte: endDate } })
+            .sort({ timestamp: 1 })
+            .toArray();
+
+        return docs.map(doc => this.mapToDomainEvent(doc));
+    }
+
+    async getLatestVersion(aggregateId: string): Promise<number> {
+        const [latest] = await this.events
+            .find({ aggregateId }, { projection: { version: 1 } })
+            .sort({ version: -1 })
+            .limit(1)
+            .toArray();
+
+        return latest?.version || 0;
+    }
+
+    private mapToDomainEvent(doc: any): DomainEvent {
+        return {
+            id: doc.id,
+            aggregateId: doc.aggregateId,
+            aggregateType: doc.aggregateType,
+            eventType: doc.eventType,
+            data: doc.data,
+            metadata: {
+                userId: doc.userId || undefined,
+                timestamp: new Date(doc.timestamp),
+                version: doc.version,
+            },
+        };
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * Supabase Event Store
+ *
+ * Supabase (Postgres over PostgREST) implementation of IEventStore for event sourcing
+ * A unique constraint on (aggregate_id, version) makes concurrent appends of the same version fail
+ */
+
+import { IEventStore, DomainEvent } from '../../interfaces/IEventStore';
+import { SupabaseClient, SUPABASE_TABLES, unwrap } from '../database/SupabaseTypes';
+
+export class SupabaseEventStore implements IEventStore {
+    constructor(private client: SupabaseClient) { }
+
+    async append(event: Omit<DomainEvent, 'id'>): Promise<DomainEvent> {
+        const id = crypto.randomUUID();
+
+        unwrap(
+            await this.client.from(SUPABASE_TABLES.domainEvents).insert({
+                id,
+                aggregate_id: event.aggregateId,
+                aggregate_type: event.aggregateType,
+                event_type: event.eventType,
+                data: event.data,
+                user_id: event.metadata.userId || null,
+                timestamp: event.metadata.timestamp.toISOString(),
+                version: event.metadata.version,
+            }),
+            'append event'
+        );
+
+        return {
+            id,
+            ...event,
+        };
+    }
+
+    async getEvents(aggregateId: string, fromVersion?: number): Promise<DomainEvent[]> {
+        let query = this.client.from(SUPABASE_TABLES.domainEvents).select().eq('aggregate_id', aggregateId);
+
+        if (fromVersion !== undefined) {
+            query = query.gte('version', fromVersion);
+        }
+
+        const rows = unwrap(await query.order('version', { ascending: true }), 'get events');
+        return (rows || []).map(row => this.mapToDomainEvent(row));
+    }
+
+    async getEventsByType(eventType: string, limit?: number): Promise<DomainEvent[]> {
+        let query = this.client
+            .from(SUPABASE_TABLES.domainEvents)
+            .select()
+            .eq('event_type', eventType)
+            .order('timestamp', { ascending: false });
+
+        if (limit) {
+            query = query.limit(limit);
+        }
+
+        const rows = unwrap(await query, 'get events by type');
+        return (rows || []).map(row => this.mapToDomainEvent(row));
+    }
+
+    async getEventsByTimeRange(startDate: Date, endDate: Date): Promise<DomainEvent[]> {
+        const rows = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.domainEvents)
+                .select()
+                .gte('timestamp', startDate.toISOString())
+                .lte('timestamp', endDate.toISOString())
+                .order('timestamp', { ascending: true }),
+            'get events by time range'
+        );
+
+        return (rows || []).map(row => this.mapToDomainEvent(row));
+    }
+
+    async getLatestVersion(aggregateId: string): Promise<number> {
+        const row = unwrap(
+            await this.client
+                .from(SUPABASE_TABLES.domainEvents)
+                .select('version')
+                .eq('aggregate_id', aggregateId)
+                .order('version', { ascending: false })
+                .limit(1)
+                .maybeSingle(),
+            'get latest event version'
+        );
+
+        return row?.version || 0;
+    }
+
+    private mapToDomainEvent(row: any): DomainEvent {
+        return {
+            id: row.id,
+            aggregateId: row.aggregate_id,
+            aggregateType: row.aggregate_type,
+            eventType: row.event_type,
+            data: row.data,
+            metadata: {
+                userId: row.user_id || undefined,
+                timestamp: new Date(row.timestamp),
+                version: row.version,
+            },
+        };
+    }
+}
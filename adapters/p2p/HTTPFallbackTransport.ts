@@ -5,8 +5,8 @@
  * Uses polling and HTTP POST for message exchange
  */
 
-import { IP2PTransport, P2PMessage, P2PPeer } from '../interfaces/IP2PTransport';
-import { ILogger } from '../utils/ILogger';
+import { IP2PTransport, P2PMessage, P2PPeer } from '../../interfaces/IP2PTransport';
+import { ILogger } from '../../utils/ILogger';
 
 export class HTTPFallbackTransport implements IP2PTransport {
     private logger: ILogger;
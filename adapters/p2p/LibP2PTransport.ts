@@ -4,8 +4,8 @@
  * Production-grade P2P transport using LibP2P
  */
 
-import { IP2PTransport, P2PMessage, P2PPeer } from '../interfaces/IP2PTransport';
-import { ILogger } from '../utils/ILogger';
+import { IP2PTransport, P2PMessage, P2PPeer } from '../../interfaces/IP2PTransport';
+import { ILogger } from '../../utils/ILogger';
 
 export class LibP2PTransport implements IP2PTransport {
     private logger: ILogger;
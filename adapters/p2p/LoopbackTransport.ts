@@ -0,0 +1,192 @@
+/**
+ * Loopback Transport
+ *
+ * In-process P2P transport for multi-node tests and local simulations
+ * Nodes join a shared LoopbackNetwork; messages are cloned and delivered asynchronously,
+ * and only between connected peers, so topologies (partitions, relays) behave like a real network
+ */
+
+import { IP2PTransport, P2PMessage, P2PPeer } from '../../interfaces/IP2PTransport';
+import { ILogger } from '../../utils/ILogger';
+
+/**
+ * Shared medium for LoopbackTransport nodes: membership, links and in-flight deliveries
+ */
+export class LoopbackNetwork {
+    private nodes: Map<string, LoopbackTransport> = new Map();
+    private links: Map<string, Map<string, P2PPeer>> = new Map(); // Peer ID -> connected peers
+    private inFlight: Set<Promise<void>> = new Set();
+
+    join(transport: LoopbackTransport): void {
+        const peerId = transport.getLocalPeerId();
+        if (this.nodes.has(peerId)) {
+            throw new Error(`Peer ${peerId} is already on the loopback network`);
+        }
+        this.nodes.set(peerId, transport);
+        this.links.set(peerId, new Map());
+    }
+
+    leave(peerId: string): void {
+        for (const remotePeerId of Array.from(this.links.get(peerId)?.keys() || [])) {
+            this.unlink(peerId, remotePeerId);
+        }
+        this.nodes.delete(peerId);
+        this.links.delete(peerId);
+    }
+
+    /**
+     * Connect two peers (links are bidirectional)
+     */
+    link(peerId: string, remotePeerId: string): void {
+        if (!this.nodes.has(peerId)) {
+            throw new Error(`Peer ${peerId} is not on the loopback network`);
+        }
+        if (!this.nodes.has(remotePeerId)) {
+            throw new Error(`Peer ${remotePeerId} is not on the loopback network`);
+        }
+        if (peerId === remotePeerId) {
+            throw new Error('Cannot connect a peer to itself');
+        }
+
+        this.links.get(peerId)!.set(remotePeerId, this.describe(remotePeerId));
+        this.links.get(remotePeerId)!.set(peerId, this.describe(peerId));
+    }
+
+    unlink(peerId: string, remotePeerId: string): void {
+        this.links.get(peerId)?.delete(remotePeerId);
+        this.links.get(remotePeerId)?.delete(peerId);
+    }
+
+    isLinked(peerId: string, remotePeerId: string): boolean {
+        return this.links.get(peerId)?.has(remotePeerId) || false;
+    }
+
+    getPeers(peerId: string): P2PPeer[] {
+        return Array.from(this.links.get(peerId)?.values() || []).map(peer => ({ ...peer }));
+    }
+
+    /**
+     * Queue a message for a peer; delivery happens on a later microtask
+     */
+    deliver(peerId: string, message: P2PMessage): void {
+        const node = this.nodes.get(peerId);
+        if (!node) {
+            return;
+        }
+
+        // Receivers get their own copy, as they would after serialization
+        const copy = structuredClone(message);
+        const delivery: Promise<void> = Promise.resolve()
+            .then(() => node.receive(copy))
+            .finally(() => {
+                this.inFlight.delete(delivery);
+            });
+        this.inFlight.add(delivery);
+    }
+
+    /**
+     * Wait until every queued message, and every message sent while handling them, was handled
+     */
+    async flush(): Promise<void> {
+        while (this.inFlight.size > 0) {
+            await Promise.allSettled(Array.from(this.inFlight));
+        }
+    }
+
+    private describe(peerId: string): P2PPeer {
+        return {
+            id: peerId,
+            address: peerId,
+            endpoint: `loopback://${peerId}`,
+            isConnected: true,
+            lastSeen: new Date(),
+        };
+    }
+}
+
+export class LoopbackTransport implements IP2PTransport {
+    private logger: ILogger;
+    private network: LoopbackNetwork;
+    private localPeerId: string;
+    private messageCallbacks: Array<(message: P2PMessage) => void> = [];
+    private isInitialized: boolean = false;
+
+    constructor(logger: ILogger, network: LoopbackNetwork, localPeerId: string) {
+        this.logger = logger;
+        this.network = network;
+        this.localPeerId = localPeerId;
+    }
+
+    async initialize(): Promise<void> {
+        if (this.isInitialized) {
+            return;
+        }
+
+        this.network.join(this);
+        this.isInitialized = true;
+        this.logger.info('Loopback transport initialized', { peerId: this.localPeerId });
+    }
+
+    async connect(peerId: string, endpoint: string): Promise<void> {
+        this.network.link(this.localPeerId, peerId);
+        this.logger.info('Connected to peer (loopback)', { peerId, endpoint });
+    }
+
+    async disconnect(peerId: string): Promise<void> {
+        this.network.unlink(this.localPeerId, peerId);
+        this.logger.info('Disconnected from peer (loopback)', { peerId });
+    }
+
+    async sendMessage(peerId: string, message: P2PMessage): Promise<void> {
+        if (!this.network.isLinked(this.localPeerId, peerId)) {
+            throw new Error(`Not connected to peer ${peerId}`);
+        }
+
+        this.network.deliver(peerId, message);
+        this.logger.debug('Message sent (loopback)', { peerId, type: message.type });
+    }
+
+    async broadcast(message: P2PMessage): Promise<void> {
+        for (const peer of this.network.getPeers(this.localPeerId)) {
+            this.network.deliver(peer.id, message);
+        }
+
+        this.logger.debug('Message broadcasted (loopback)', { type: message.type });
+    }
+
+    onMessage(callback: (message: P2PMessage) => void): void {
+        this.messageCallbacks.push(callback);
+    }
+
+    async getConnectedPeers(): Promise<P2PPeer[]> {
+        return this.network.getPeers(this.localPeerId);
+    }
+
+    async isConnected(peerId: string): Promise<boolean> {
+        return this.network.isLinked(this.localPeerId, peerId);
+    }
+
+    getLocalPeerId(): string {
+        return this.localPeerId;
+    }
+
+    async shutdown(): Promise<void> {
+        if (this.isInitialized) {
+            this.network.leave(this.localPeerId);
+            this.isInitialized = false;
+        }
+        this.messageCallbacks = [];
+        this.logger.info('Loopback transport shutdown');
+    }
+
+    /**
+     * Called by LoopbackNetwork; resolves once every callback (including async ones) finished
+     */
+    async receive(message: P2PMessage): Promise<void> {
+        try {
+            await Promise.all(this.messageCallbacks.map(callback => callback(message)));
+        } catch (error) {
+            this.logger.error('Failed to handle incoming message', { error });
+        }
+    }
+}
@@ -0,0 +1,249 @@
+/**
+ * Arweave Storage Provider
+ * Adapter for Arweave permanent storage to implement IStorageProvider
+ *
+ * Content is posted as a signed format-2 transaction; the transaction ID is returned as the CID.
+ * Transactions are built and signed locally (RSA-PSS over the deep hash, as arweave-js does),
+ * so no Arweave SDK is required.
+ */
+
+import { createHash, createPrivateKey, sign, constants, JsonWebKey } from 'crypto';
+import { IStorageProvider, StorageMetadata } from '../../interfaces';
+
+export interface ArweaveStorageConfig {
+    gateway?: string;            // Default: https://arweave.net
+    wallet?: JsonWebKey;         // RSA JWK wallet; required for uploads
+    appName?: string;            // Value of the App-Name tag (default: Tenseuron)
+}
+
+// Data is sent inline with the transaction; larger payloads would need the chunk upload API
+const MAX_INLINE_DATA_SIZE = 10 * 1024 * 1024;
+
+const MAX_CHUNK_SIZE = 256 * 1024;
+const MIN_CHUNK_SIZE = 32 * 1024;
+const NOTE_SIZE = 32;
+
+export class ArweaveStorageProvider implements IStorageProvider {
+    private gateway: string;
+
+    constructor(private config: ArweaveStorageConfig = {}) {
+        this.gateway = (config.gateway || 'https://arweave.net').replace(/\/$/, '');
+    }
+
+    async upload(data: any, metadata?: StorageMetadata): Promise<string> {
+        const wallet = this.config.wallet;
+        if (!wallet || !wallet.n || !wallet.d) {
+            throw new Error('Arweave wallet (private JWK) is required for uploads');
+        }
+
+        const content = typeof data === 'string' ? data : JSON.stringify(data);
+        const body = Buffer.from(content, 'utf8');
+        if (body.byteLength > MAX_INLINE_DATA_SIZE) {
+            throw new Error(`Arweave upload too large: ${body.byteLength} bytes (max ${MAX_INLINE_DATA_SIZE})`);
+        }
+
+        const tags: Array<[string, string]> = [
+            ['Content-Type', metadata?.type || 'application/json'],
+            ['App-Name', this.config.appName || 'Tenseuron'],
+        ];
+        if (metadata?.name) {
+            tags.push(['Name', String(metadata.name)]);
+        }
+
+        const [reward, lastTx] = await Promise.all([
+            this.getText(`/price/${body.byteLength}`),
+            this.getText('/tx_anchor'),
+        ]);
+
+        const tx = {
+            format: 2,
+            last_tx: lastTx,
+            owner: wallet.n,
+            tags: tags.map(([name, value]) => ({ name: toB64Url(Buffer.from(name)), value: toB64Url(Buffer.from(value)) })),
+            target: '',
+            quantity: '0',
+            data: toB64Url(body),
+            data_size: body.byteLength.toString(),
+            data_root: toB64Url(computeDataRoot(body)),
+            reward,
+            id: '',
+            signature: '',
+        };
+
+        const signatureData = deepHash([
+            Buffer.from(tx.format.toString()),
+            fromB64Url(tx.owner),
+            fromB64Url(tx.target),
+            Buffer.from(tx.quantity),
+            Buffer.from(tx.reward),
+            fromB64Url(tx.last_tx),
+            tx.tags.map(tag => [fromB64Url(tag.name), fromB64Url(tag.value)]),
+            Buffer.from(tx.data_size),
+            fromB64Url(tx.data_root),
+        ]);
+
+        const signature = sign('sha256', signatureData, {
+            key: createPrivateKey({ key: wallet, format: 'jwk' }),
+            padding: constants.RSA_PKCS1_PSS_PADDING,
+            saltLength: 32,
+        });
+        tx.signature = toB64Url(signature);
+        tx.id = toB64Url(createHash('sha256').update(signature).digest());
+
+        const response = await fetch(`${this.gateway}/tx`, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify(tx),
+        });
+        if (!response.ok) {
+            throw new Error(`Arweave upload failed: ${response.status} ${await response.text()}`);
+        }
+
+        return tx.id;
+    }
+
+    async download(cid: string): Promise<any> {
+        const response = await fetch(`${this.gateway}/${cid}`);
+        if (response.status === 404) {
+            throw new Error(`Transaction not found: ${cid}`);
+        }
+        if (!response.ok) {
+            throw new Error(`Arweave download failed: ${response.status}`);
+        }
+
+        const text = await response.text();
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
+    async pin(cid: string, name?: string): Promise<void> {
+        // Arweave storage is permanent - pinning is a no-op for compatibility
+    }
+
+    async unpin(cid: string): Promise<void> {
+        // Arweave data cannot be removed
+    }
+
+    async exists(cid: string): Promise<boolean> {
+        const response = await fetch(`${this.gateway}/tx/${cid}/status`);
+        // 200 = confirmed, 202 = pending in mempool
+        if (response.status === 200 || response.status === 202) {
+            return true;
+        }
+        if (response.status === 404) {
+            return false;
+        }
+        throw new Error(`Arweave status check failed: ${response.status}`);
+    }
+
+    getType(): 'ipfs' | 'arweave' | 's3' | 'r2' | 'custom' {
+        return 'arweave';
+    }
+
+    private async getText(path: string): Promise<string> {
+        const response = await fetch(`${this.gateway}${path}`);
+        if (!response.ok) {
+            throw new Error(`Arweave request ${path} failed: ${response.status}`);
+        }
+        return (await response.text()).trim();
+    }
+}
+
+type DeepHashChunk = Buffer | DeepHashChunk[];
+
+/**
+ * Arweave deep hash (SHA-384) over nested lists of byte arrays
+ */
+export function deepHash(chunk: DeepHashChunk): Buffer {
+    if (Array.isArray(chunk)) {
+        let acc = sha384(Buffer.from(`list${chunk.length}`));
+        for (const item of chunk) {
+            acc = sha384(Buffer.concat([acc, deepHash(item)]));
+        }
+        return acc;
+    }
+
+    const tag = sha384(Buffer.from(`blob${chunk.byteLength}`));
+    return sha384(Buffer.concat([tag, sha384(chunk)]));
+}
+
+/**
+ * Merkle root over 256KiB data chunks, matching arweave-js `computeRootHash`
+ */
+export function computeDataRoot(data: Buffer): Buffer {
+    type MerkleNode = { id: Buffer; maxByteRange: number };
+
+    // Chunk the data; the last two chunks are balanced so none is smaller than MIN_CHUNK_SIZE
+    const chunks: Array<{ dataHash: Buffer; maxByteRange: number }> = [];
+    let rest = data;
+    let cursor = 0;
+    while (rest.byteLength >= MAX_CHUNK_SIZE) {
+        let chunkSize = MAX_CHUNK_SIZE;
+        const nextChunkSize = rest.byteLength - MAX_CHUNK_SIZE;
+        if (nextChunkSize > 0 && nextChunkSize < MIN_CHUNK_SIZE) {
+            chunkSize = Math.ceil(rest.byteLength / 2);
+        }
+        const chunk = rest.subarray(0, chunkSize);
+        cursor += chunk.byteLength;
+        chunks.push({ dataHash: sha256(chunk), maxByteRange: cursor });
+        rest = rest.subarray(chunkSize);
+    }
+    chunks.push({ dataHash: sha256(rest), maxByteRange: cursor + rest.byteLength });
+
+    let nodes: MerkleNode[] = chunks.map(chunk => ({
+        id: sha256(Buffer.concat([sha256(chunk.dataHash), sha256(noteBuffer(chunk.maxByteRange))])),
+        maxByteRange: chunk.maxByteRange,
+    }));
+
+    while (nodes.length > 1) {
+        const next: MerkleNode[] = [];
+        for (let i = 0; i < nodes.length; i += 2) {
+            const left = nodes[i];
+            const right = nodes[i + 1];
+            if (!right) {
+                next.push(left);
+                continue;
+            }
+            next.push({
+                id: sha256(Buffer.concat([
+                    sha256(left.id),
+                    sha256(right.id),
+                    sha256(noteBuffer(left.maxByteRange)),
+                ])),
+                maxByteRange: right.maxByteRange,
+            });
+        }
+        nodes = next;
+    }
+
+    return nodes[0].id;
+}
+
+function noteBuffer(note: number): Buffer {
+    const buffer = Buffer.alloc(NOTE_SIZE);
+    let value = note;
+    for (let i = NOTE_SIZE - 1; i >= 0 && value > 0; i--) {
+        buffer[i] = value % 256;
+        value = Math.floor(value / 256);
+    }
+    return buffer;
+}
+
+function sha256(data: Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+}
+
+function sha384(data: Buffer): Buffer {
+    return createHash('sha384').update(data).digest();
+}
+
+function toB64Url(data: Buffer): string {
+    return data.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromB64Url(value: string): Buffer {
+    return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
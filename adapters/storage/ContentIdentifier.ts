@@ -0,0 +1,188 @@
+/**
+ * Content Identifier
+ * CIDv1 helpers shared by the offline storage providers
+ *
+ * Strings are stored as `raw` blocks, everything else as `dag-json` (map keys sorted by
+ * their UTF-8 bytes, no whitespace), hashed with sha2-256 and rendered as base32 multibase,
+ * so identifiers match what an IPFS node produces for the same block.
+ */
+
+import { createHash } from 'crypto';
+
+export const CID_CODEC_RAW = 0x55;
+export const CID_CODEC_DAG_JSON = 0x0129;
+
+const CID_VERSION = 1;
+const MULTIHASH_SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 32;
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export interface EncodedContent {
+    cid: string;
+    codec: number;
+    bytes: Buffer;
+}
+
+/**
+ * Encode data into a block and compute its CIDv1
+ */
+export function encodeContent(data: any): EncodedContent {
+    const codec = typeof data === 'string' ? CID_CODEC_RAW : CID_CODEC_DAG_JSON;
+    const bytes = Buffer.from(codec === CID_CODEC_RAW ? data : encodeDagJson(data), 'utf8');
+    return { cid: createCid(codec, bytes), codec, bytes };
+}
+
+/**
+ * Decode a stored block after checking it against its CID
+ * Raw blocks are parsed as JSON where possible, matching the other storage providers
+ */
+export function decodeContent(cid: string, bytes: Buffer): any {
+    const { codec, digest } = parseCid(cid);
+    if (!createHash('sha256').update(bytes).digest().equals(digest)) {
+        throw new Error(`Content does not match CID ${cid}`);
+    }
+
+    const text = bytes.toString('utf8');
+    if (codec === CID_CODEC_DAG_JSON) {
+        return JSON.parse(text);
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+export function createCid(codec: number, bytes: Buffer): string {
+    const digest = createHash('sha256').update(bytes).digest();
+    const cidBytes = Buffer.concat([
+        encodeVarint(CID_VERSION),
+        encodeVarint(codec),
+        encodeVarint(MULTIHASH_SHA2_256),
+        encodeVarint(SHA2_256_LENGTH),
+        digest,
+    ]);
+    return 'b' + encodeBase32(cidBytes);
+}
+
+export function parseCid(cid: string): { codec: number; digest: Buffer } {
+    if (!cid.startsWith('b')) {
+        throw new Error(`Unsupported CID (expected base32 CIDv1): ${cid}`);
+    }
+
+    const bytes = decodeBase32(cid.slice(1));
+    let offset = 0;
+    const read = (): number => {
+        const [value, length] = decodeVarint(bytes, offset);
+        offset += length;
+        return value;
+    };
+
+    const version = read();
+    const codec = read();
+    const hashCode = read();
+    const hashLength = read();
+    if (version !== CID_VERSION || hashCode !== MULTIHASH_SHA2_256 || hashLength !== SHA2_256_LENGTH) {
+        throw new Error(`Unsupported CID (expected CIDv1 sha2-256): ${cid}`);
+    }
+    if (codec !== CID_CODEC_RAW && codec !== CID_CODEC_DAG_JSON) {
+        throw new Error(`Unsupported CID codec 0x${codec.toString(16)}: ${cid}`);
+    }
+
+    const digest = bytes.subarray(offset);
+    if (digest.length !== SHA2_256_LENGTH) {
+        throw new Error(`Malformed CID: ${cid}`);
+    }
+    return { codec, digest };
+}
+
+/**
+ * Deterministic DAG-JSON encoding of plain JSON values
+ */
+function encodeDagJson(value: any): string {
+    if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+        value = value.toJSON();
+    }
+
+    if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+        return JSON.stringify(value);
+    }
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) {
+            throw new Error('DAG-JSON cannot encode non-finite numbers');
+        }
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => (item === undefined ? 'null' : encodeDagJson(item))).join(',')}]`;
+    }
+    if (typeof value === 'object') {
+        const entries = Object.keys(value)
+            .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+            .sort((a, b) => Buffer.compare(Buffer.from(a, 'utf8'), Buffer.from(b, 'utf8')))
+            .map(key => `${JSON.stringify(key)}:${encodeDagJson(value[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    throw new Error(`DAG-JSON cannot encode ${typeof value}`);
+}
+
+function encodeVarint(value: number): Buffer {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push((value & 0x7f) | 0x80);
+        value >>>= 7;
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+}
+
+function decodeVarint(bytes: Buffer, offset: number): [number, number] {
+    let value = 0;
+    let shift = 0;
+    for (let i = offset; i < bytes.length && shift < 28; i++) {
+        value |= (bytes[i] & 0x7f) << shift;
+        if ((bytes[i] & 0x80) === 0) {
+            return [value, i - offset + 1];
+        }
+        shift += 7;
+    }
+    throw new Error('Malformed varint in CID');
+}
+
+function encodeBase32(bytes: Buffer): string {
+    let output = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function decodeBase32(input: string): Buffer {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of input) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+        buffer = ((buffer << 5) | index) & 0xffff;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
@@ -5,6 +5,7 @@
 
 import { IStorageProvider, StorageMetadata } from '../../interfaces';
 import axios from 'axios';
+import { canonicalize } from '../../utils/CanonicalJson';
 
 export class IPFSStorageProvider implements IStorageProvider {
     private gateway: string;
@@ -33,7 +34,8 @@ export class IPFSStorageProvider implements IStorageProvider {
 
     private async uploadViaPinata(data: any, metadata?: StorageMetadata): Promise<string> {
         const formData = new FormData();
-        const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+        // Canonical JSON so the same data always pins to the same CID
+        const blob = new Blob([canonicalize(data)], { type: 'application/json' });
         formData.append('file', blob, metadata?.name || 'data.json');
 
         if (metadata) {
@@ -0,0 +1,81 @@
+/**
+ * In-Memory Storage Provider
+ *
+ * Offline implementation of IStorageProvider for development/testing
+ * Returns the same CIDv1 an IPFS node would compute (see ContentIdentifier) and keeps pin bookkeeping
+ */
+
+import { IStorageProvider, StorageMetadata } from '../../interfaces';
+import { encodeContent, decodeContent } from './ContentIdentifier';
+
+export interface StoragePin {
+    cid: string;
+    name?: string;
+    pinnedAt: Date;
+}
+
+export class InMemoryStorageProvider implements IStorageProvider {
+    private blocks: Map<string, Buffer> = new Map();
+    private pins: Map<string, StoragePin> = new Map();
+
+    /**
+     * Uploaded content is pinned, as with `ipfs add`
+     */
+    async upload(data: any, metadata?: StorageMetadata): Promise<string> {
+        const { cid, bytes } = encodeContent(data);
+        this.blocks.set(cid, bytes);
+        if (!this.pins.has(cid)) {
+            this.pins.set(cid, { cid, name: metadata?.name, pinnedAt: new Date() });
+        }
+        return cid;
+    }
+
+    async download(cid: string): Promise<any> {
+        const bytes = this.blocks.get(cid);
+        if (!bytes) {
+            throw new Error(`Content not found: ${cid}`);
+        }
+        return decodeContent(cid, bytes);
+    }
+
+    async pin(cid: string, name?: string): Promise<void> {
+        if (!this.blocks.has(cid)) {
+            throw new Error(`Content not found: ${cid}`);
+        }
+        this.pins.set(cid, { cid, name: name ?? this.pins.get(cid)?.name, pinnedAt: new Date() });
+    }
+
+    async unpin(cid: string): Promise<void> {
+        this.pins.delete(cid);
+    }
+
+    async exists(cid: string): Promise<boolean> {
+        return this.blocks.has(cid);
+    }
+
+    getType(): 'ipfs' | 'arweave' | 's3' | 'r2' | 'custom' {
+        return 'ipfs';
+    }
+
+    async isPinned(cid: string): Promise<boolean> {
+        return this.pins.has(cid);
+    }
+
+    async listPins(): Promise<StoragePin[]> {
+        return Array.from(this.pins.values()).map(pin => ({ ...pin }));
+    }
+
+    /**
+     * Remove unpinned content, returning the removed CIDs
+     */
+    async garbageCollect(): Promise<string[]> {
+        const removed = Array.from(this.blocks.keys()).filter(cid => !this.pins.has(cid));
+        removed.forEach(cid => this.blocks.delete(cid));
+        return removed;
+    }
+
+    clear(): void {
+        this.blocks.clear();
+        this.pins.clear();
+    }
+}
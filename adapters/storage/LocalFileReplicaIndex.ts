@@ -0,0 +1,57 @@
+/**
+ * Local File Replica Index
+ *
+ * Persistent ReplicaIndex backed by a JSON file (Node.js only), so a ReplicatedStorageProvider
+ * keeps its per-replica locators across restarts
+ *
+ * Layout:
+ *   <file>   { [contentHash]: { [replicaName]: locator } }
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ReplicaIndex } from './ReplicatedStorageProvider';
+
+export interface LocalFileReplicaIndexConfig {
+    file: string;
+}
+
+export class LocalFileReplicaIndex implements ReplicaIndex {
+    private file: string;
+    // Serializes read-modify-write cycles
+    private writeLock: Promise<unknown> = Promise.resolve();
+
+    constructor(config: LocalFileReplicaIndexConfig) {
+        this.file = config.file;
+    }
+
+    async get(contentHash: string): Promise<Record<string, string> | null> {
+        const entries = await this.readEntries();
+        return entries[contentHash] ? { ...entries[contentHash] } : null;
+    }
+
+    set(contentHash: string, locators: Record<string, string>): Promise<void> {
+        const next = this.writeLock.then(async () => {
+            const entries = await this.readEntries();
+            entries[contentHash] = { ...locators };
+            await fs.mkdir(path.dirname(this.file), { recursive: true });
+            // Write then rename so a crash never leaves a truncated index
+            const tmp = `${this.file}.${process.pid}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(entries, null, 2));
+            await fs.rename(tmp, this.file);
+        });
+        this.writeLock = next.catch(() => undefined);
+        return next;
+    }
+
+    private async readEntries(): Promise<Record<string, Record<string, string>>> {
+        try {
+            return JSON.parse(await fs.readFile(this.file, 'utf8'));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return {};
+            }
+            throw error;
+        }
+    }
+}
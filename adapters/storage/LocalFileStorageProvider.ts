@@ -0,0 +1,159 @@
+/**
+ * Local File Storage Provider
+ *
+ * Offline implementation of IStorageProvider backed by a directory (Node.js only)
+ * Returns the same CIDv1 an IPFS node would compute (see ContentIdentifier) and keeps pin bookkeeping
+ *
+ * Layout:
+ *   <directory>/blocks/<cid>   block bytes
+ *   <directory>/pins.json      { [cid]: { name?, pinnedAt } }
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IStorageProvider, StorageMetadata } from '../../interfaces';
+import { encodeContent, decodeContent, parseCid } from './ContentIdentifier';
+import { StoragePin } from './InMemoryStorageProvider';
+
+export interface LocalFileStorageConfig {
+    directory: string;
+}
+
+export class LocalFileStorageProvider implements IStorageProvider {
+    private blocksDir: string;
+    private pinsFile: string;
+    // Serializes pins.json read-modify-write cycles
+    private pinsLock: Promise<unknown> = Promise.resolve();
+
+    constructor(config: LocalFileStorageConfig) {
+        this.blocksDir = path.join(config.directory, 'blocks');
+        this.pinsFile = path.join(config.directory, 'pins.json');
+    }
+
+    /**
+     * Uploaded content is pinned, as with `ipfs add`
+     */
+    async upload(data: any, metadata?: StorageMetadata): Promise<string> {
+        const { cid, bytes } = encodeContent(data);
+
+        if (!(await this.exists(cid))) {
+            await fs.mkdir(this.blocksDir, { recursive: true });
+            // Write then rename so a crash never leaves a truncated block under its CID
+            const tmp = path.join(this.blocksDir, `.${cid}.${process.pid}.${Date.now()}.tmp`);
+            await fs.writeFile(tmp, bytes);
+            await fs.rename(tmp, this.blockPath(cid));
+        }
+
+        await this.updatePins(pins => {
+            if (!pins[cid]) {
+                pins[cid] = { name: metadata?.name, pinnedAt: new Date().toISOString() };
+            }
+        });
+
+        return cid;
+    }
+
+    async download(cid: string): Promise<any> {
+        let bytes: Buffer;
+        try {
+            bytes = await fs.readFile(this.blockPath(cid));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                throw new Error(`Content not found: ${cid}`);
+            }
+            throw error;
+        }
+        return decodeContent(cid, bytes);
+    }
+
+    async pin(cid: string, name?: string): Promise<void> {
+        if (!(await this.exists(cid))) {
+            throw new Error(`Content not found: ${cid}`);
+        }
+        await this.updatePins(pins => {
+            pins[cid] = { name: name ?? pins[cid]?.name, pinnedAt: new Date().toISOString() };
+        });
+    }
+
+    async unpin(cid: string): Promise<void> {
+        await this.updatePins(pins => {
+            delete pins[cid];
+        });
+    }
+
+    async exists(cid: string): Promise<boolean> {
+        try {
+            await fs.access(this.blockPath(cid));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    getType(): 'ipfs' | 'arweave' | 's3' | 'r2' | 'custom' {
+        return 'ipfs';
+    }
+
+    async isPinned(cid: string): Promise<boolean> {
+        const pins = await this.readPins();
+        return cid in pins;
+    }
+
+    async listPins(): Promise<StoragePin[]> {
+        const pins = await this.readPins();
+        return Object.entries(pins).map(([cid, pin]) => ({
+            cid,
+            name: pin.name,
+            pinnedAt: new Date(pin.pinnedAt),
+        }));
+    }
+
+    /**
+     * Remove unpinned content, returning the removed CIDs
+     */
+    async garbageCollect(): Promise<string[]> {
+        const pins = await this.readPins();
+        let files: string[];
+        try {
+            files = await fs.readdir(this.blocksDir);
+        } catch {
+            return [];
+        }
+
+        const removed = files.filter(file => !file.startsWith('.') && !(file in pins));
+        await Promise.all(removed.map(cid => fs.unlink(this.blockPath(cid))));
+        return removed;
+    }
+
+    private blockPath(cid: string): string {
+        // Validates the CID, which also keeps it from escaping the blocks directory
+        parseCid(cid);
+        return path.join(this.blocksDir, cid);
+    }
+
+    private async readPins(): Promise<Record<string, { name?: string; pinnedAt: string }>> {
+        try {
+            return JSON.parse(await fs.readFile(this.pinsFile, 'utf8'));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return {};
+            }
+            throw error;
+        }
+    }
+
+    private updatePins(
+        mutate: (pins: Record<string, { name?: string; pinnedAt: string }>) => void
+    ): Promise<void> {
+        const next = this.pinsLock.then(async () => {
+            const pins = await this.readPins();
+            mutate(pins);
+            await fs.mkdir(path.dirname(this.pinsFile), { recursive: true });
+            const tmp = `${this.pinsFile}.${process.pid}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(pins, null, 2));
+            await fs.rename(tmp, this.pinsFile);
+        });
+        this.pinsLock = next.catch(() => undefined);
+        return next;
+    }
+}
@@ -0,0 +1,301 @@
+/**
+ * Replicated Storage Provider
+ * Composite IStorageProvider that writes to several backends (IPFS, R2, S3, local disk, ...)
+ *
+ * - Content is identified by the SHA-256 of its canonical JSON form, independent of any backend
+ * - Uploads succeed once `writeQuorum` replicas have accepted the content
+ * - Reads recompute the content hash and fail over to the next replica on missing or tampered data;
+ *   IDs issued before canonical JSON (plain JSON.stringify) are still accepted on read and repair
+ * - `repair()` re-uploads replicas that are missing or (optionally) corrupt
+ *
+ * Each backend returns its own identifier (IPFS CID, R2 key, Arweave tx ID, ...), so the
+ * per-replica locators are kept in a ReplicaIndex. The default index is in-memory and loses the
+ * locators on restart (a warning is logged); pass a persistent one such as LocalFileReplicaIndex
+ * in production. Backends that key by SHA-256 (e.g. S3StorageProvider) are readable even without
+ * an index entry.
+ */
+
+import { createHash } from 'crypto';
+import { IStorageProvider, StorageMetadata } from '../../interfaces';
+import { ILogger, ConsoleLogger } from '../../utils/ILogger';
+import { canonicalHash } from '../../utils/CanonicalJson';
+
+export interface StorageReplica {
+    name: string;                // Stable name used in the replica index, e.g. "ipfs" or "s3-eu"
+    provider: IStorageProvider;
+}
+
+/**
+ * Content hash -> (replica name -> backend locator)
+ */
+export interface ReplicaIndex {
+    get(contentHash: string): Promise<Record<string, string> | null>;
+    set(contentHash: string, locators: Record<string, string>): Promise<void>;
+}
+
+export class InMemoryReplicaIndex implements ReplicaIndex {
+    private entries: Map<string, Record<string, string>> = new Map();
+
+    async get(contentHash: string): Promise<Record<string, string> | null> {
+        const locators = this.entries.get(contentHash);
+        return locators ? { ...locators } : null;
+    }
+
+    async set(contentHash: string, locators: Record<string, string>): Promise<void> {
+        this.entries.set(contentHash, { ...locators });
+    }
+}
+
+export interface ReplicatedStorageConfig {
+    replicas: StorageReplica[];
+    writeQuorum?: number;        // Default: majority of replicas
+    index?: ReplicaIndex;        // Default: InMemoryReplicaIndex (not persisted)
+    logger?: ILogger;
+}
+
+export interface ReplicaRepairResult {
+    cid: string;
+    healthy: string[];
+    repaired: string[];
+    failed: string[];
+}
+
+export class ReplicatedStorageProvider implements IStorageProvider {
+    private replicas: StorageReplica[];
+    private writeQuorum: number;
+    private index: ReplicaIndex;
+    private logger: ILogger;
+
+    constructor(config: ReplicatedStorageConfig) {
+        if (config.replicas.length === 0) {
+            throw new Error('At least one storage replica is required');
+        }
+        const names = new Set(config.replicas.map(replica => replica.name));
+        if (names.size !== config.replicas.length) {
+            throw new Error('Storage replica names must be unique');
+        }
+
+        this.replicas = config.replicas;
+        this.writeQuorum = config.writeQuorum ?? Math.floor(config.replicas.length / 2) + 1;
+        if (this.writeQuorum < 1 || this.writeQuorum > config.replicas.length) {
+            throw new Error(`Write quorum must be between 1 and ${config.replicas.length}`);
+        }
+        this.logger = config.logger || new ConsoleLogger('ReplicatedStorageProvider');
+        if (config.index) {
+            this.index = config.index;
+        } else {
+            this.index = new InMemoryReplicaIndex();
+            this.logger.warn(
+                'No replica index configured; replica locators are kept in memory and lost on restart, ' +
+                'so content on backends that do not key by content hash becomes unreadable'
+            );
+        }
+    }
+
+    async upload(data: any, metadata?: StorageMetadata): Promise<string> {
+        const cid = ReplicatedStorageProvider.contentHash(data);
+
+        const results = await Promise.allSettled(
+            this.replicas.map(replica => replica.provider.upload(data, metadata))
+        );
+
+        const locators: Record<string, string> = {};
+        const failures: string[] = [];
+        results.forEach((result, i) => {
+            const name = this.replicas[i].name;
+            if (result.status === 'fulfilled') {
+                locators[name] = result.value;
+            } else {
+                failures.push(`${name}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+            }
+        });
+
+        const written = Object.keys(locators).length;
+        if (written < this.writeQuorum) {
+            throw new Error(
+                `Replicated upload failed: ${written}/${this.replicas.length} replicas written, ` +
+                `quorum is ${this.writeQuorum} (${failures.join('; ')})`
+            );
+        }
+
+        await this.index.set(cid, { ...(await this.index.get(cid)), ...locators });
+
+        if (failures.length > 0) {
+            this.logger.warn('Replicated upload reached quorum with failed replicas', { cid, failures });
+        }
+        this.logger.info('Content replicated', { cid, written, total: this.replicas.length });
+
+        return cid;
+    }
+
+    async download(cid: string): Promise<any> {
+        const locators = (await this.index.get(cid)) || {};
+
+        for (const replica of this.replicas) {
+            try {
+                const data = await replica.provider.download(locators[replica.name] || cid);
+                if (ReplicatedStorageProvider.matchesContentId(data, cid)) {
+                    return data;
+                }
+                this.logger.warn('Replica returned content with a mismatching hash', {
+                    cid,
+                    replica: replica.name,
+                    hash: ReplicatedStorageProvider.contentHash(data),
+                });
+            } catch (error) {
+                this.logger.debug('Replica read failed, trying next replica', {
+                    cid,
+                    replica: replica.name,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        throw new Error(`No replica returned verified content for ${cid}`);
+    }
+
+    async pin(cid: string, name?: string): Promise<void> {
+        await this.forEachLocated(cid, 'pin', (provider, locator) => provider.pin(locator, name));
+    }
+
+    async unpin(cid: string): Promise<void> {
+        await this.forEachLocated(cid, 'unpin', (provider, locator) => provider.unpin(locator));
+    }
+
+    async exists(cid: string): Promise<boolean> {
+        const locators = (await this.index.get(cid)) || {};
+
+        for (const replica of this.replicas) {
+            try {
+                if (await replica.provider.exists(locators[replica.name] || cid)) {
+                    return true;
+                }
+            } catch {
+                // Unreachable replica - try the next one
+            }
+        }
+        return false;
+    }
+
+    getType(): 'ipfs' | 'arweave' | 's3' | 'r2' | 'custom' {
+        return 'custom';
+    }
+
+    /**
+     * Re-upload replicas that are missing
+     * With verifyContent, every replica is also downloaded and hash-checked (slower)
+     */
+    async repair(cid: string, options: { verifyContent?: boolean } = {}): Promise<ReplicaRepairResult> {
+        const data = await this.download(cid);
+        const locators = (await this.index.get(cid)) || {};
+        const result: ReplicaRepairResult = { cid, healthy: [], repaired: [], failed: [] };
+
+        for (const replica of this.replicas) {
+            const locator = locators[replica.name];
+            if (locator && await this.isReplicaHealthy(replica, locator, cid, options.verifyContent)) {
+                result.healthy.push(replica.name);
+                continue;
+            }
+
+            try {
+                locators[replica.name] = await replica.provider.upload(data);
+                result.repaired.push(replica.name);
+            } catch (error) {
+                result.failed.push(replica.name);
+                this.logger.warn('Failed to repair replica', {
+                    cid,
+                    replica: replica.name,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        if (result.repaired.length > 0) {
+            await this.index.set(cid, locators);
+            this.logger.info('Replicas repaired', { cid, repaired: result.repaired });
+        }
+
+        return result;
+    }
+
+    /**
+     * SHA-256 of the canonical JSON (RFC 8785) serialization
+     * Strings that parse as JSON are normalized, since backends return parsed JSON on download
+     */
+    static contentHash(data: any): string {
+        if (typeof data === 'string') {
+            try {
+                data = JSON.parse(data);
+            } catch {
+                return createHash('sha256').update(data, 'utf8').digest('hex');
+            }
+        }
+        return canonicalHash(data);
+    }
+
+    /**
+     * Content ID formula used before canonical JSON: SHA-256 of JSON.stringify (insertion key order)
+     * Only used to keep verifying IDs that were issued with it
+     */
+    static legacyContentHash(data: any): string {
+        let content: string;
+        if (typeof data === 'string') {
+            try {
+                content = JSON.stringify(JSON.parse(data));
+            } catch {
+                content = data;
+            }
+        } else {
+            content = JSON.stringify(data);
+        }
+        return createHash('sha256').update(content, 'utf8').digest('hex');
+    }
+
+    /**
+     * Whether data is the content behind an ID issued with either formula
+     */
+    static matchesContentId(data: any, cid: string): boolean {
+        return ReplicatedStorageProvider.contentHash(data) === cid
+            || ReplicatedStorageProvider.legacyContentHash(data) === cid;
+    }
+
+    private async isReplicaHealthy(
+        replica: StorageReplica,
+        locator: string,
+        cid: string,
+        verifyContent?: boolean
+    ): Promise<boolean> {
+        try {
+            if (!verifyContent) {
+                return await replica.provider.exists(locator);
+            }
+            const data = await replica.provider.download(locator);
+            return ReplicatedStorageProvider.matchesContentId(data, cid);
+        } catch {
+            return false;
+        }
+    }
+
+    private async forEachLocated(
+        cid: string,
+        action: string,
+        fn: (provider: IStorageProvider, locator: string) => Promise<void>
+    ): Promise<void> {
+        const locators = (await this.index.get(cid)) || {};
+        const located = this.replicas.filter(replica => locators[replica.name]);
+
+        const results = await Promise.allSettled(
+            located.map(replica => fn(replica.provider, locators[replica.name]))
+        );
+
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                this.logger.warn(`Failed to ${action} replica`, {
+                    cid,
+                    replica: located[i].name,
+                    error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+                });
+            }
+        });
+    }
+}
@@ -0,0 +1,225 @@
+/**
+ * S3 Storage Provider
+ * Adapter for S3-compatible object storage (AWS S3, MinIO, Wasabi, ...) to implement IStorageProvider
+ *
+ * Requests are signed with AWS Signature Version 4. Objects are content-addressed:
+ * the key is the SHA-256 of the stored bytes, so uploads are idempotent and
+ * downloads are verified against their key. Non-string data is stored as canonical
+ * JSON (RFC 8785), so the key does not depend on property order.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { IStorageProvider, StorageMetadata } from '../../interfaces';
+import { canonicalize } from '../../utils/CanonicalJson';
+
+export interface S3StorageConfig {
+    endpoint: string;            // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 (MinIO)
+    region: string;              // e.g. us-east-1 (MinIO accepts any region)
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;       // Temporary credentials (STS)
+    forcePathStyle?: boolean;    // Default: true (required by MinIO; virtual-hosted style otherwise)
+    prefix?: string;             // Key prefix, e.g. "tenseuron/"
+}
+
+export interface S3Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+export class S3StorageProvider implements IStorageProvider {
+    private endpoint: URL;
+    private forcePathStyle: boolean;
+    private prefix: string;
+
+    constructor(private config: S3StorageConfig) {
+        this.endpoint = new URL(config.endpoint);
+        this.forcePathStyle = config.forcePathStyle !== false;
+        this.prefix = config.prefix || '';
+    }
+
+    async upload(data: any, metadata?: StorageMetadata): Promise<string> {
+        const content = typeof data === 'string' ? data : canonicalize(data);
+        const body = Buffer.from(content, 'utf8');
+        const hash = createHash('sha256').update(body).digest('hex');
+
+        const headers: Record<string, string> = {
+            'content-type': metadata?.type || 'application/json',
+        };
+        if (metadata) {
+            for (const [key, value] of Object.entries(metadata)) {
+                if (key === 'type' || value === undefined) continue;
+                // User metadata must be ASCII header names/values
+                headers[`x-amz-meta-${key.toLowerCase().replace(/[^a-z0-9-]/g, '-')}`] =
+                    String(value).replace(/[^\x20-\x7e]/g, '?');
+            }
+        }
+
+        const response = await this.request('PUT', this.prefix + hash, body, hash, headers);
+        if (!response.ok) {
+            throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+        }
+
+        return hash;
+    }
+
+    async download(cid: string): Promise<any> {
+        const response = await this.request('GET', this.prefix + cid);
+        if (response.status === 404) {
+            throw new Error(`Object not found: ${cid}`);
+        }
+        if (!response.ok) {
+            throw new Error(`S3 download failed: ${response.status} ${await response.text()}`);
+        }
+
+        const body = Buffer.from(await response.arrayBuffer());
+        const hash = createHash('sha256').update(body).digest('hex');
+        if (hash !== cid) {
+            throw new Error(`S3 object ${cid} failed content verification (got ${hash})`);
+        }
+
+        const text = body.toString('utf8');
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+
+    async pin(cid: string, name?: string): Promise<void> {
+        // S3 objects are persistent - pinning is a no-op for compatibility
+    }
+
+    async unpin(cid: string): Promise<void> {
+        // No-op for S3; lifecycle rules handle expiry
+    }
+
+    async exists(cid: string): Promise<boolean> {
+        const response = await this.request('HEAD', this.prefix + cid);
+        if (response.status === 404) {
+            return false;
+        }
+        if (!response.ok) {
+            throw new Error(`S3 head failed: ${response.status}`);
+        }
+        return true;
+    }
+
+    getType(): 'ipfs' | 'arweave' | 's3' | 'r2' | 'custom' {
+        return 's3';
+    }
+
+    /**
+     * Sign request headers with AWS Signature Version 4
+     * Returns the headers to send, including x-amz-date and Authorization
+     */
+    static signRequest(params: {
+        method: string;
+        url: URL;
+        headers: Record<string, string>;
+        payloadHash: string;
+        region: string;
+        credentials: S3Credentials;
+        service?: string;
+        now?: Date;
+    }): Record<string, string> {
+        const service = params.service || 's3';
+        const amzDate = (params.now || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+
+        const headers: Record<string, string> = {
+            ...params.headers,
+            host: params.url.host,
+            'x-amz-content-sha256': params.payloadHash,
+            'x-amz-date': amzDate,
+        };
+        if (params.credentials.sessionToken) {
+            headers['x-amz-security-token'] = params.credentials.sessionToken;
+        }
+
+        const normalized = Object.entries(headers)
+            .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        const canonicalHeaders = normalized.map(([name, value]) => `${name}:${value}\n`).join('');
+        const signedHeaders = normalized.map(([name]) => name).join(';');
+
+        const canonicalQuery = Array.from(params.url.searchParams.entries())
+            .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+            .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+            .map(([k, v]) => `${k}=${v}`)
+            .join('&');
+
+        const canonicalRequest = [
+            params.method,
+            params.url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/'),
+            canonicalQuery,
+            canonicalHeaders,
+            signedHeaders,
+            params.payloadHash,
+        ].join('\n');
+
+        const scope = `${dateStamp}/${params.region}/${service}/aws4_request`;
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            createHash('sha256').update(canonicalRequest).digest('hex'),
+        ].join('\n');
+
+        const kDate = hmac(`AWS4${params.credentials.secretAccessKey}`, dateStamp);
+        const kRegion = hmac(kDate, params.region);
+        const kService = hmac(kRegion, service);
+        const kSigning = hmac(kService, 'aws4_request');
+        const signature = createHmac('sha256', kSigning).update(stringToSign).digest('hex');
+
+        return {
+            ...headers,
+            authorization: `AWS4-HMAC-SHA256 Credential=${params.credentials.accessKeyId}/${scope}, ` +
+                `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        };
+    }
+
+    private async request(
+        method: 'GET' | 'PUT' | 'HEAD',
+        key: string,
+        body?: Buffer,
+        payloadHash: string = EMPTY_PAYLOAD_HASH,
+        headers: Record<string, string> = {}
+    ): Promise<Response> {
+        const url = this.objectUrl(key);
+        const signed = S3StorageProvider.signRequest({
+            method,
+            url,
+            headers,
+            payloadHash,
+            region: this.config.region,
+            credentials: this.config,
+        });
+
+        // fetch sets Host itself
+        const { host, ...sendHeaders } = signed;
+        return fetch(url.toString(), { method, headers: sendHeaders, body });
+    }
+
+    private objectUrl(key: string): URL {
+        const path = key.split('/').map(encodeRfc3986).join('/');
+        const base = this.endpoint.origin + this.endpoint.pathname.replace(/\/$/, '');
+
+        if (this.forcePathStyle) {
+            return new URL(`${base}/${encodeRfc3986(this.config.bucket)}/${path}`);
+        }
+        return new URL(`${this.endpoint.protocol}//${this.config.bucket}.${this.endpoint.host}/${path}`);
+    }
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
@@ -5,3 +5,10 @@
 
 export * from './IPFSStorageProvider';
 export * from './CloudflareR2StorageProvider';
+export * from './S3StorageProvider';
+export * from './ArweaveStorageProvider';
+export * from './ReplicatedStorageProvider';
+export * from './LocalFileReplicaIndex';
+export * from './ContentIdentifier';
+export * from './InMemoryStorageProvider';
+export * from './LocalFileStorageProvider';
@@ -0,0 +1,106 @@
+/**
+ * CLI Configuration
+ * Loads the ProtocolFactory configuration and other structured files (JSON or YAML) for the tenseuron CLI
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DatabaseType } from '../factory/RuntimeDetector';
+import { ProtocolConfig } from '../factory/ProtocolFactory';
+
+/**
+ * Configuration file contents
+ * Same shape as ProtocolConfig, except the database is described by its connection
+ * settings instead of a live client instance
+ */
+export interface CliConfig extends Omit<ProtocolConfig, 'database'> {
+    database?: {
+        type: DatabaseType;
+        url?: string; // Connection string (prisma); defaults to the schema's DATABASE_URL
+    };
+}
+
+/**
+ * Files looked up in the working directory when --config is not given
+ */
+export const DEFAULT_CONFIG_FILES = [
+    'tenseuron.config.json',
+    'tenseuron.config.yaml',
+    'tenseuron.config.yml',
+];
+
+/**
+ * Read a JSON or YAML file (chosen by extension)
+ * YAML support needs the optional js-yaml package
+ */
+export async function readStructuredFile(filePath: string): Promise<any> {
+    const contents = await fs.readFile(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (extension === '.yaml' || extension === '.yml') {
+        let yaml: typeof import('js-yaml');
+        try {
+            yaml = await import('js-yaml');
+        } catch {
+            throw new Error(`Reading ${filePath} requires the js-yaml package (npm install js-yaml)`);
+        }
+        try {
+            return yaml.load(contents);
+        } catch (error) {
+            throw new Error(`Invalid YAML in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    try {
+        return JSON.parse(contents);
+    } catch (error) {
+        throw new Error(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Load the CLI configuration
+ * An explicit path must exist; otherwise the first of DEFAULT_CONFIG_FILES found in cwd is used,
+ * falling back to an empty config (runtime auto-detection)
+ * The blockchain private key falls back to DEPLOYER_PRIVATE_KEY so it can stay out of the file
+ */
+export async function loadCliConfig(
+    configPath?: string,
+    cwd: string = process.cwd()
+): Promise<{ config: CliConfig; path: string | null }> {
+    let resolved: string | null = null;
+
+    if (configPath) {
+        resolved = path.resolve(cwd, configPath);
+        if (!(await fileExists(resolved))) {
+            throw new Error(`Config file not found: ${resolved}`);
+        }
+    } else {
+        for (const candidate of DEFAULT_CONFIG_FILES) {
+            const candidatePath = path.join(cwd, candidate);
+            if (await fileExists(candidatePath)) {
+                resolved = candidatePath;
+                break;
+            }
+        }
+    }
+
+    const config: CliConfig = resolved ? (await readStructuredFile(resolved)) || {} : {};
+    if (typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error(`Config file ${resolved} must contain an object`);
+    }
+
+    if (config.blockchain && !config.blockchain.privateKey && process.env.DEPLOYER_PRIVATE_KEY) {
+        config.blockchain = { ...config.blockchain, privateKey: process.env.DEPLOYER_PRIVATE_KEY };
+    }
+
+    return { config, path: resolved };
+}
+
+export async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        return (await fs.stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+}
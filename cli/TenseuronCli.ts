@@ -0,0 +1,516 @@
+/**
+ * Tenseuron CLI
+ *
+ * Command-line front end for network creators, miners, validators and users:
+ *
+ *   tenseuron network create network.yaml [--dry-run]
+ *   tenseuron network show|status <networkId>
+ *   tenseuron network list [--status active] [--category text] [--limit 20] [--offset 0]
+ *   tenseuron manifest verify <manifest.json|networkId|cid>
+ *   tenseuron task submit <networkId> --input input.json --depositor 0x... --amount 10 [--task-id id]
+ *   tenseuron task status <taskId>
+ *   tenseuron task select <taskId> <outputId> --user 0x...
+ *   tenseuron task reject <taskId> --user 0x...
+ *   tenseuron graduation status <networkId>
+ *
+ * Services are configured from a ProtocolFactory config file (see CliConfig) and only
+ * created for commands that need them, so `network create --dry-run` works without one.
+ * Results are printed to stdout as JSON; validation feedback and errors go to stderr.
+ * Exit codes: 0 success, 1 failure or invalid input, 2 usage error
+ */
+
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import type { ProtocolServiceRefactored } from '../ProtocolServiceRefactored';
+import type { TaskServiceRefactored } from '../TaskServiceRefactored';
+import type { GraduationService } from '../GraduationService';
+import type { DecentralizedRegistryService } from '../DecentralizedRegistryService';
+import { ILogger } from '../utils/ILogger';
+import { InputValidator } from '../InputValidator';
+import { PenaltyConfigValidator } from '../PenaltyConfigValidator';
+import { NetworkCreationRequest, NetworkManifest } from '../types';
+import { CliConfig, loadCliConfig, readStructuredFile, fileExists } from './CliConfig';
+
+/**
+ * Services the CLI talks to
+ * taskService/graduationService are absent when the configured database cannot back them
+ */
+export interface CliServices {
+    protocolService: Pick<
+        ProtocolServiceRefactored,
+        'createNetwork' | 'getNetworkManifest' | 'listNetworks' | 'getDeploymentStatus'
+    >;
+    registry: Pick<DecentralizedRegistryService, 'verifyManifest'>;
+    taskService?: Pick<TaskServiceRefactored, 'submitTask' | 'getTaskState' | 'addHumanSelection' | 'userRejectAndRedo'>;
+    graduationService?: Pick<GraduationService, 'getGraduationStatus'>;
+    close?(): Promise<void>;
+}
+
+export interface TenseuronCliDependencies {
+    createServices: (config: CliConfig) => Promise<CliServices>;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    cwd?: string; // Base for relative file paths (default: process.cwd())
+}
+
+/**
+ * Usage line per command, keyed by "<group> <action>"
+ */
+const COMMAND_USAGE: Record<string, string> = {
+    'network create': 'network create <request.json|request.yaml> [--dry-run]',
+    'network show': 'network show <networkId|cid>',
+    'network list': 'network list [--status <status>] [--category <category>] [--limit <n>] [--offset <n>]',
+    'network status': 'network status <networkId>',
+    'manifest verify': 'manifest verify <manifest.json|manifest.yaml|networkId|cid>',
+    'task submit': 'task submit <networkId> --input <file|json> --depositor <address> --amount <amount> [--task-id <id>]',
+    'task status': 'task status <taskId>',
+    'task select': 'task select <taskId> <outputId> --user <address>',
+    'task reject': 'task reject <taskId> --user <address>',
+    'graduation status': 'graduation status <networkId>',
+};
+
+const BOOLEAN_FLAGS = new Set(['dry-run', 'help', 'verbose']);
+
+const NETWORK_STATUSES = ['pending', 'deploying', 'deployed', 'active', 'graduated'];
+
+/**
+ * Bad command-line usage; reported with the command's usage line and exit code 2
+ */
+class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+        Object.setPrototypeOf(this, CliUsageError.prototype);
+    }
+}
+
+interface ParsedArguments {
+    positionals: string[];
+    flags: Record<string, string | true>;
+}
+
+interface ValidationFeedback {
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+}
+
+export class TenseuronCli {
+    private logger: ILogger;
+    private dependencies: TenseuronCliDependencies;
+    private cwd: string;
+    private services: CliServices | null = null;
+
+    constructor(logger: ILogger, dependencies: TenseuronCliDependencies) {
+        this.logger = logger;
+        this.dependencies = dependencies;
+        this.cwd = dependencies.cwd || process.cwd();
+    }
+
+    /**
+     * Run one command; argv excludes the node binary and script path
+     * Returns the process exit code
+     */
+    async run(argv: string[]): Promise<number> {
+        let parsed: ParsedArguments;
+        try {
+            parsed = parseArguments(argv);
+        } catch (error) {
+            this.dependencies.stderr(error instanceof Error ? error.message : String(error));
+            return 2;
+        }
+
+        const { positionals, flags } = parsed;
+        if (positionals.length === 0 || flags.help) {
+            (flags.help ? this.dependencies.stdout : this.dependencies.stderr)(this.usage());
+            return flags.help ? 0 : 2;
+        }
+
+        const commandKey = positionals.slice(0, 2).join(' ');
+        if (!COMMAND_USAGE[commandKey]) {
+            this.dependencies.stderr(`Unknown command: ${commandKey}`);
+            this.dependencies.stderr(this.usage());
+            return 2;
+        }
+
+        try {
+            return await this.dispatch(commandKey, positionals.slice(2), flags);
+        } catch (error) {
+            if (error instanceof CliUsageError) {
+                this.dependencies.stderr(error.message);
+                this.dependencies.stderr(`Usage: tenseuron ${COMMAND_USAGE[commandKey]}`);
+                return 2;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.debug('Command failed', { command: commandKey, error: message });
+            this.dependencies.stderr(`Error: ${message}`);
+            return 1;
+        } finally {
+            await this.closeServices();
+        }
+    }
+
+    /**
+     * Help text listing every command
+     */
+    usage(): string {
+        return [
+            'Usage: tenseuron <command> [options]',
+            '',
+            'Commands:',
+            ...Object.values(COMMAND_USAGE).map(usage => `  ${usage}`),
+            '',
+            'Global options:',
+            '  --config <file>   ProtocolFactory config (default: tenseuron.config.json|yaml|yml in the working directory)',
+            '  --verbose         Log service activity',
+            '  --help            Show this help',
+        ].join('\n');
+    }
+
+    private async dispatch(command: string, args: string[], flags: Record<string, string | true>): Promise<number> {
+        switch (command) {
+            case 'network create':
+                return this.createNetwork(requireArgument(args, 0, 'request file'), flags);
+            case 'network show':
+                return this.showNetwork(requireArgument(args, 0, 'networkId'), flags);
+            case 'network list':
+                return this.listNetworks(flags);
+            case 'network status':
+                return this.showDeploymentStatus(requireArgument(args, 0, 'networkId'), flags);
+            case 'manifest verify':
+                return this.verifyManifest(requireArgument(args, 0, 'manifest file or networkId'), flags);
+            case 'task submit':
+                return this.submitTask(requireArgument(args, 0, 'networkId'), flags);
+            case 'task status':
+                return this.showTask(requireArgument(args, 0, 'taskId'), flags);
+            case 'task select':
+                return this.selectOutput(requireArgument(args, 0, 'taskId'), requireArgument(args, 1, 'outputId'), flags);
+            case 'task reject':
+                return this.rejectTask(requireArgument(args, 0, 'taskId'), flags);
+            case 'graduation status':
+                return this.showGraduationStatus(requireArgument(args, 0, 'networkId'), flags);
+            default:
+                throw new CliUsageError(`Unknown command: ${command}`);
+        }
+    }
+
+    /**
+     * network create: validate with InputValidator and PenaltyConfigValidator, then create
+     */
+    private async createNetwork(file: string, flags: Record<string, string | true>): Promise<number> {
+        const request: NetworkCreationRequest = await readStructuredFile(this.resolvePath(file));
+        if (!request || typeof request !== 'object' || Array.isArray(request)) {
+            throw new Error(`${file} must contain a network creation request object`);
+        }
+
+        const inputValidation = await new InputValidator(this.logger).validateNetworkCreationRequest(request);
+        const penaltyValidation = new PenaltyConfigValidator(this.logger).validate(request.penaltyConfig);
+        const inputValid = this.reportValidation(inputValidation);
+        const penaltyValid = this.reportValidation(penaltyValidation, 'penaltyConfig');
+
+        if (!inputValid || !penaltyValid) {
+            this.dependencies.stderr('Network creation request is invalid');
+            return 1;
+        }
+
+        if (flags['dry-run']) {
+            this.dependencies.stdout('Network creation request is valid');
+            return 0;
+        }
+
+        const { protocolService } = await this.getServices(flags);
+        const result = await protocolService.createNetwork(request);
+
+        this.printJson({
+            networkId: result.networkId,
+            deploymentStatus: result.deploymentStatus,
+            creationFees: result.creationFees,
+        });
+        return 0;
+    }
+
+    private async showNetwork(networkIdOrCid: string, flags: Record<string, string | true>): Promise<number> {
+        this.printJson(await this.getManifest(networkIdOrCid, flags));
+        return 0;
+    }
+
+    private async listNetworks(flags: Record<string, string | true>): Promise<number> {
+        const status = optionalFlag(flags, 'status');
+        if (status !== undefined && !NETWORK_STATUSES.includes(status)) {
+            throw new CliUsageError(`--status must be one of: ${NETWORK_STATUSES.join(', ')}`);
+        }
+
+        const { protocolService } = await this.getServices(flags);
+        const networkIds = await protocolService.listNetworks({
+            status: status as 'pending' | 'deploying' | 'deployed' | 'active' | 'graduated' | undefined,
+            category: optionalFlag(flags, 'category'),
+            limit: integerFlag(flags, 'limit', 1),
+            offset: integerFlag(flags, 'offset', 0),
+        });
+
+        this.printJson(networkIds);
+        return 0;
+    }
+
+    private async showDeploymentStatus(networkId: string, flags: Record<string, string | true>): Promise<number> {
+        const { protocolService } = await this.getServices(flags);
+        const status = await protocolService.getDeploymentStatus(networkId);
+        if (!status) {
+            throw new Error(`Network not found: ${networkId}`);
+        }
+
+        this.printJson(status);
+        return 0;
+    }
+
+    /**
+     * manifest verify: client-side verification of a local manifest file or a published manifest
+     */
+    private async verifyManifest(source: string, flags: Record<string, string | true>): Promise<number> {
+        const localPath = this.resolvePath(source);
+        const manifest = (await fileExists(localPath))
+            ? await readStructuredFile(localPath)
+            : await this.getManifest(source, flags);
+
+        if (!manifest || typeof manifest !== 'object') {
+            throw new Error(`${source} does not contain a manifest object`);
+        }
+
+        const { registry } = await this.getServices(flags);
+        const verification = registry.verifyManifest(manifest);
+
+        if (!this.reportValidation(verification)) {
+            this.dependencies.stderr(`Manifest ${manifest.networkId || source} is invalid`);
+            return 1;
+        }
+
+        this.dependencies.stdout(`Manifest ${manifest.networkId} is valid`);
+        return 0;
+    }
+
+    private async submitTask(networkId: string, flags: Record<string, string | true>): Promise<number> {
+        const inputSource = requireFlag(flags, 'input');
+        const depositorAddress = requireFlag(flags, 'depositor');
+        const depositAmount = requireFlag(flags, 'amount');
+        const taskId = optionalFlag(flags, 'task-id') || randomUUID();
+
+        const input = await this.readInput(inputSource);
+        const manifest = await this.getManifest(networkId, flags);
+        const taskService = await this.getTaskService(flags);
+
+        const validation = new InputValidator(this.logger).validateTaskSubmission(
+            taskId,
+            manifest.networkId,
+            input,
+            depositorAddress,
+            depositAmount,
+            manifest
+        );
+        if (!this.reportValidation(validation)) {
+            this.dependencies.stderr('Task submission is invalid');
+            return 1;
+        }
+
+        this.printJson(
+            await taskService.submitTask(taskId, manifest.networkId, input, depositorAddress, depositAmount, manifest)
+        );
+        return 0;
+    }
+
+    private async showTask(taskId: string, flags: Record<string, string | true>): Promise<number> {
+        const taskService = await this.getTaskService(flags);
+        const taskState = await taskService.getTaskState(taskId);
+        if (!taskState) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+
+        this.printJson(taskState);
+        return 0;
+    }
+
+    private async selectOutput(taskId: string, outputId: string, flags: Record<string, string | true>): Promise<number> {
+        const userAddress = requireFlag(flags, 'user');
+        const { taskService, manifest } = await this.getTaskContext(taskId, flags);
+
+        this.printJson(await taskService.addHumanSelection(taskId, outputId, userAddress, manifest));
+        return 0;
+    }
+
+    private async rejectTask(taskId: string, flags: Record<string, string | true>): Promise<number> {
+        const userAddress = requireFlag(flags, 'user');
+        const { taskService, manifest } = await this.getTaskContext(taskId, flags);
+
+        this.printJson(await taskService.userRejectAndRedo(taskId, userAddress, manifest));
+        return 0;
+    }
+
+    private async showGraduationStatus(networkId: string, flags: Record<string, string | true>): Promise<number> {
+        const manifest = await this.getManifest(networkId, flags);
+        const { graduationService } = await this.getServices(flags);
+        if (!graduationService) {
+            throw new Error('Graduation commands require a prisma database in the CLI config');
+        }
+
+        this.printJson(await graduationService.getGraduationStatus(manifest.networkId, manifest));
+        return 0;
+    }
+
+    /**
+     * Print validation errors and warnings to stderr; returns whether the result is valid
+     */
+    private reportValidation(result: ValidationFeedback, scope?: string): boolean {
+        const prefix = scope ? `${scope}: ` : '';
+        for (const error of result.errors) {
+            this.dependencies.stderr(`error: ${prefix}${error}`);
+        }
+        for (const warning of result.warnings) {
+            this.dependencies.stderr(`warning: ${prefix}${warning}`);
+        }
+        return result.valid;
+    }
+
+    private async getManifest(networkIdOrCid: string, flags: Record<string, string | true>): Promise<NetworkManifest> {
+        const { protocolService } = await this.getServices(flags);
+        const manifest = await protocolService.getNetworkManifest(networkIdOrCid);
+        if (!manifest) {
+            throw new Error(`Network not found: ${networkIdOrCid}`);
+        }
+        return manifest;
+    }
+
+    private async getTaskService(flags: Record<string, string | true>): Promise<NonNullable<CliServices['taskService']>> {
+        const { taskService } = await this.getServices(flags);
+        if (!taskService) {
+            throw new Error('Task commands require a prisma database in the CLI config');
+        }
+        return taskService;
+    }
+
+    private async getTaskContext(
+        taskId: string,
+        flags: Record<string, string | true>
+    ): Promise<{ taskService: NonNullable<CliServices['taskService']>; manifest: NetworkManifest }> {
+        const taskService = await this.getTaskService(flags);
+        const taskState = await taskService.getTaskState(taskId);
+        if (!taskState) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+
+        return { taskService, manifest: await this.getManifest(taskState.networkId, flags) };
+    }
+
+    /**
+     * --input accepts inline JSON or a JSON/YAML file
+     */
+    private async readInput(source: string): Promise<any> {
+        const trimmed = source.trim();
+        if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+            try {
+                return JSON.parse(trimmed);
+            } catch (error) {
+                throw new CliUsageError(`--input is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        return readStructuredFile(this.resolvePath(source));
+    }
+
+    private async getServices(flags: Record<string, string | true>): Promise<CliServices> {
+        if (!this.services) {
+            const { config, path: configPath } = await loadCliConfig(optionalFlag(flags, 'config'), this.cwd);
+            this.logger.debug('Loaded CLI config', { path: configPath });
+            this.services = await this.dependencies.createServices(config);
+        }
+        return this.services;
+    }
+
+    private async closeServices(): Promise<void> {
+        const services = this.services;
+        this.services = null;
+        if (services?.close) {
+            try {
+                await services.close();
+            } catch (error) {
+                this.logger.warn('Failed to close CLI services', {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    }
+
+    private resolvePath(file: string): string {
+        return path.resolve(this.cwd, file);
+    }
+
+    private printJson(value: unknown): void {
+        this.dependencies.stdout(JSON.stringify(value, null, 2));
+    }
+}
+
+/**
+ * Split argv into positionals and --flags (--name value, --name=value, or bare boolean flags)
+ */
+function parseArguments(argv: string[]): ParsedArguments {
+    const positionals: string[] = [];
+    const flags: Record<string, string | true> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--') {
+            positionals.push(...argv.slice(i + 1));
+            break;
+        }
+        if (!arg.startsWith('--')) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const equals = arg.indexOf('=');
+        const name = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+        if (equals !== -1) {
+            flags[name] = arg.slice(equals + 1);
+        } else if (BOOLEAN_FLAGS.has(name)) {
+            flags[name] = true;
+        } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+            flags[name] = argv[++i];
+        } else {
+            throw new Error(`Option --${name} requires a value`);
+        }
+    }
+
+    return { positionals, flags };
+}
+
+function requireArgument(args: string[], index: number, name: string): string {
+    if (!args[index]) {
+        throw new CliUsageError(`Missing argument: ${name}`);
+    }
+    return args[index];
+}
+
+function requireFlag(flags: Record<string, string | true>, name: string): string {
+    const value = optionalFlag(flags, name);
+    if (!value) {
+        throw new CliUsageError(`Missing option: --${name}`);
+    }
+    return value;
+}
+
+function optionalFlag(flags: Record<string, string | true>, name: string): string | undefined {
+    const value = flags[name];
+    if (value === true) {
+        throw new CliUsageError(`Option --${name} requires a value`);
+    }
+    return value;
+}
+
+function integerFlag(flags: Record<string, string | true>, name: string, min: number): number | undefined {
+    const value = optionalFlag(flags, name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+        throw new CliUsageError(`--${name} must be an integer >= ${min}`);
+    }
+    return parsed;
+}
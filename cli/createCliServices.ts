@@ -0,0 +1,54 @@
+/**
+ * CLI Service Wiring
+ * Builds the protocol services the tenseuron CLI talks to from a CliConfig
+ */
+
+import { ILogger } from '../utils/ILogger';
+import { ProtocolServiceFactory } from '../ProtocolServiceFactory';
+import { TaskServiceFactory } from '../TaskServiceFactory';
+import { GraduationService } from '../GraduationService';
+import { DecentralizedRegistryService } from '../DecentralizedRegistryService';
+import { CliConfig } from './CliConfig';
+import { CliServices } from './TenseuronCli';
+
+/**
+ * Create the CLI services
+ * Network and manifest commands work with any database ProtocolFactory can build from a file
+ * (prisma or memory); task and graduation commands need prisma, since TaskService and
+ * GraduationService only have Prisma-backed factories for Node.js
+ */
+export async function createCliServices(logger: ILogger, config: CliConfig): Promise<CliServices> {
+    const databaseType = config.database?.type;
+
+    if (databaseType && databaseType !== 'prisma' && databaseType !== 'memory') {
+        throw new Error(
+            `Database type ${databaseType} cannot be configured from a file; use prisma or memory, or build the services with ProtocolServiceFactory`
+        );
+    }
+
+    const registry = new DecentralizedRegistryService(logger);
+
+    if (databaseType !== 'prisma') {
+        const protocolService = ProtocolServiceFactory.create(logger, {
+            ...config,
+            database: databaseType ? { type: databaseType } : undefined,
+        });
+        return { protocolService, registry };
+    }
+
+    const { PrismaClient } = await import('@prisma/client');
+    const url = config.database?.url;
+    const prisma = new PrismaClient(url ? { datasources: { db: { url } } } : undefined);
+
+    return {
+        protocolService: ProtocolServiceFactory.create(
+            logger,
+            { ...config, database: { type: 'prisma', instance: prisma } },
+            prisma
+        ),
+        registry,
+        taskService: TaskServiceFactory.createForNode(logger, prisma),
+        graduationService: new GraduationService(prisma, logger),
+        close: () => prisma.$disconnect(),
+    };
+}
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * tenseuron CLI entry point (package.json "bin")
+ */
+
+import { ConsoleLogger, ILogger } from '../utils/ILogger';
+import { TenseuronCli } from './TenseuronCli';
+import { createCliServices } from './createCliServices';
+
+const argv = process.argv.slice(2);
+const consoleLogger = new ConsoleLogger('tenseuron');
+
+// Service logs would drown the command output; only warnings and errors unless --verbose
+const logger: ILogger = argv.includes('--verbose')
+    ? consoleLogger
+    : {
+        debug: () => undefined,
+        info: () => undefined,
+        warn: (message, meta) => consoleLogger.warn(message, meta),
+        error: (message, meta) => consoleLogger.error(message, meta),
+    };
+
+const cli = new TenseuronCli(logger, {
+    createServices: config => createCliServices(logger, config),
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+});
+
+cli.run(argv).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+        process.exitCode = 1;
+    }
+);
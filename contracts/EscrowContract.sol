@@ -179,6 +179,10 @@ contract TenseuronEscrow {
     uint256 public constant SLASHING_CONSENSUS_THRESHOLD = 9000; // 90% consensus required for slashing (higher than normal)
     uint256 public constant MIN_SLASHING_EVIDENCE_LENGTH = 32; // Minimum evidence length (bytes)
     
+    // EIP-712 typed release signatures (EIP-191 signatures over the packed hash remain accepted)
+    bytes32 public constant EIP712_DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant ESCROW_RELEASE_TYPEHASH = keccak256("EscrowRelease(string networkId,bytes32 taskId,address recipient,bool accepted)");
+    
     // GAS OPTIMIZATION: Pack structs efficiently (bools together)
     struct Deposit {
         address depositor;      // 20 bytes
@@ -506,7 +510,7 @@ contract TenseuronEscrow {
         
         // Verify validators are registered (if registry exists)
         for (uint256 i = 0; i < signatures.length; i++) {
-            address signer = ecrecover(messageHash, signatures[i].v, signatures[i].r, signatures[i].s);
+            address signer = _recoverReleaseSigner(messageHash, taskId, recipient, signatures[i]);
             require(signer == signatures[i].validator, "Invalid signature");
             
             // SECURITY: Prevent duplicate validators
@@ -702,15 +706,6 @@ contract TenseuronEscrow {
             
             // Verify signatures and count acceptances (same logic as release)
             uint256 acceptCount = 0;
-            bytes32 messageHash = keccak256(abi.encodePacked(
-                "\x19Ethereum Signed Message:\n32",
-                keccak256(abi.encodePacked(
-                    networkId,
-                    taskId,
-                    challengerWon,
-                    block.chainid
-                ))
-            ));
             
             // SECURITY: Track seen validators to prevent duplicates
             address[] memory seenValidators = new address[](signatures.length);
@@ -718,6 +713,17 @@ contract TenseuronEscrow {
             
             // Verify validators are registered (if registry exists)
             for (uint256 i = 0; i < signatures.length; i++) {
+                // SECURITY: The vote itself is signed, so a rejection cannot be replayed as an acceptance
+                bytes32 messageHash = keccak256(abi.encodePacked(
+                    "\x19Ethereum Signed Message:\n32",
+                    keccak256(abi.encodePacked(
+                        networkId,
+                        taskId,
+                        challengerWon,
+                        signatures[i].accepted,
+                        block.chainid
+                    ))
+                ));
                 address signer = ecrecover(messageHash, signatures[i].v, signatures[i].r, signatures[i].s);
                 require(signer == signatures[i].validator, "Invalid signature");
                 
@@ -2080,4 +2086,38 @@ contract TenseuronEscrow {
     function getValidatorRejectionCount(address validator) external view returns (uint256) {
         return userRejectionCount[validator];
     }
+    
+    /**
+     * Recover a release signer: EIP-712 EscrowRelease first, then the legacy EIP-191 message hash
+     */
+    function _recoverReleaseSigner(
+        bytes32 legacyMessageHash,
+        bytes32 taskId,
+        address recipient,
+        ValidatorSignature calldata signature
+    ) internal view returns (address) {
+        bytes32 typedDigest = keccak256(abi.encodePacked(
+            "\x19\x01",
+            domainSeparator(),
+            keccak256(abi.encode(ESCROW_RELEASE_TYPEHASH, keccak256(bytes(networkId)), taskId, recipient, true))
+        ));
+        address signer = ecrecover(typedDigest, signature.v, signature.r, signature.s);
+        if (signer == signature.validator) {
+            return signer;
+        }
+        return ecrecover(legacyMessageHash, signature.v, signature.r, signature.s);
+    }
+    
+    /**
+     * EIP-712 domain separator (name "Tenseuron", version "1", this contract on this chain)
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256(bytes("Tenseuron")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
 }
@@ -19,6 +19,10 @@ contract ReceiptRedemption {
     address public networkToken; // Optional: network-specific token (0x0 for native token)
     uint256 public disputeWindow; // Seconds
     
+    // EIP-712 typed receipt signatures (EIP-191 signatures over receiptHash remain accepted)
+    bytes32 public constant EIP712_DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant SETTLEMENT_RECEIPT_TYPEHASH = keccak256("SettlementReceipt(string networkId,bytes32 taskId,address recipient,uint256 amount,uint256 timestamp)");
+    
     struct Receipt {
         bytes32 taskId;
         address recipient;
@@ -55,7 +59,7 @@ contract ReceiptRedemption {
      * @param recipient Payment recipient
      * @param amount Payment amount
      * @param timestamp Receipt timestamp
-     * @param validatorSignatures Array of validator signatures (EIP-191)
+     * @param validatorSignatures Array of validator signatures (EIP-712 SettlementReceipt, or legacy EIP-191 over receiptHash)
      * @param validatorAddresses Array of validator addresses (must match signatures)
      */
     function submitReceipt(
@@ -83,14 +87,18 @@ contract ReceiptRedemption {
         ));
         require(computedHash == receiptHash, "Receipt hash mismatch");
         
-        // Verify signatures (EIP-191)
+        // Verify signatures (EIP-712, falling back to EIP-191)
         bytes32 messageHash = keccak256(abi.encodePacked(
             "\x19Ethereum Signed Message:\n32",
             receiptHash
         ));
+        bytes32 typedDigest = _settlementReceiptDigest(taskId, recipient, amount, timestamp);
         
         for (uint256 i = 0; i < validatorSignatures.length; i++) {
-            address signer = recoverSigner(messageHash, validatorSignatures[i]);
+            address signer = recoverSigner(typedDigest, validatorSignatures[i]);
+            if (signer != validatorAddresses[i]) {
+                signer = recoverSigner(messageHash, validatorSignatures[i]);
+            }
             require(signer == validatorAddresses[i], "Invalid signature");
         }
         
@@ -153,7 +161,43 @@ contract ReceiptRedemption {
     }
     
     /**
-     * Recover signer from signature (EIP-191)
+     * EIP-712 digest of a SettlementReceipt for this network and contract
+     */
+    function _settlementReceiptDigest(
+        bytes32 taskId,
+        address recipient,
+        uint256 amount,
+        uint256 timestamp
+    ) internal view returns (bytes32) {
+        return keccak256(abi.encodePacked(
+            "\x19\x01",
+            domainSeparator(),
+            keccak256(abi.encode(
+                SETTLEMENT_RECEIPT_TYPEHASH,
+                keccak256(bytes(networkId)),
+                taskId,
+                recipient,
+                amount,
+                timestamp
+            ))
+        ));
+    }
+    
+    /**
+     * EIP-712 domain separator (name "Tenseuron", version "1", this contract on this chain)
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256(bytes("Tenseuron")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+    
+    /**
+     * Recover signer from a signature over a digest (EIP-191 or EIP-712)
      */
     function recoverSigner(bytes32 messageHash, bytes memory signature) internal pure returns (address) {
         require(signature.length == 65, "Invalid signature length");
@@ -32,9 +32,11 @@ contract ValidatorRegistry {
     
     mapping(address => Validator) public validators;
     address[] public validatorList; // List of all validator addresses
+    uint256 public validatorSetEpoch; // Incremented whenever the active set changes
     
     event ValidatorRegistered(address indexed validator, uint256 stake);
     event ValidatorUnregistered(address indexed validator);
+    event ValidatorSetChanged(uint256 indexed epoch);
     event StakeUpdated(address indexed validator, uint256 newStake);
     event ReputationUpdated(address indexed validator, uint256 newReputation);
     
@@ -71,6 +73,8 @@ contract ValidatorRegistry {
             stake = allowance;
         }
         
+        // Re-registering validators are already listed
+        bool listed = validators[msg.sender].validatorAddress != address(0);
         validators[msg.sender] = Validator({
             validatorAddress: msg.sender,
             stake: stake,
@@ -81,8 +85,11 @@ contract ValidatorRegistry {
             p2pPeerId: p2pPeerId // PHASE 5: Store P2P peer ID
         });
         
-        validatorList.push(msg.sender);
+        if (!listed) {
+            validatorList.push(msg.sender);
+        }
         emit ValidatorRegistered(msg.sender, stake);
+        _bumpEpoch();
     }
     
     /**
@@ -104,6 +111,7 @@ contract ValidatorRegistry {
         }
         
         emit ValidatorUnregistered(msg.sender);
+        _bumpEpoch();
     }
     
     /**
@@ -162,10 +170,24 @@ contract ValidatorRegistry {
         return validatorList;
     }
     
+    /**
+     * Get active validators (the set INC consensus proofs are checked against)
+     */
+    function getActiveValidators() external view returns (address[] memory) {
+        address[] memory active = new address[](getValidatorCount());
+        uint256 count = 0;
+        for (uint256 i = 0; i < validatorList.length; i++) {
+            if (validators[validatorList[i]].active) {
+                active[count++] = validatorList[i];
+            }
+        }
+        return active;
+    }
+    
     /**
      * Get count of active validators
      */
-    function getValidatorCount() external view returns (uint256) {
+    function getValidatorCount() public view returns (uint256) {
         uint256 count = 0;
         for (uint256 i = 0; i < validatorList.length; i++) {
             if (validators[validatorList[i]].active) {
@@ -188,4 +210,12 @@ contract ValidatorRegistry {
         validators[validatorAddress].reputation = newReputation;
         emit ReputationUpdated(validatorAddress, newReputation);
     }
+    
+    /**
+     * Start a new validator set epoch (caches keyed on the old set become stale)
+     */
+    function _bumpEpoch() internal {
+        validatorSetEpoch++;
+        emit ValidatorSetChanged(validatorSetEpoch);
+    }
 }
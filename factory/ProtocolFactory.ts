@@ -6,27 +6,111 @@
 import { RuntimeDetector, DatabaseType, StorageType, BlockchainType } from './RuntimeDetector';
 import {
     INetworkRepository,
+    ITaskRepository,
     IStorageProvider,
     IBlockchainProvider,
 } from '../interfaces';
+import { ICollusionRepository } from '../interfaces/ICollusionRepository';
+import { IValidatorInteractionRepository } from '../interfaces/IValidatorInteractionRepository';
+import { IValidatorRepository } from '../interfaces/IValidatorRepository';
+import { IBootstrapRepository } from '../interfaces/IBootstrapRepository';
+import { IGraduationRepository } from '../interfaces/IGraduationRepository';
+import { IDisputeRepository } from '../interfaces/IDisputeRepository';
+import { IINCCallRepository } from '../interfaces/IINCCallRepository';
+import { ITaskClaimRepository } from '../interfaces/ITaskClaimRepository';
+import { IEventStore } from '../interfaces/IEventStore';
 import {
     PrismaNetworkRepository,
     D1NetworkRepository,
+    PrismaTaskRepository,
+    D1TaskRepository,
+    MongoNetworkRepository,
+    MongoTaskRepository,
+    SupabaseNetworkRepository,
+    SupabaseTaskRepository,
+    InMemoryNetworkRepository,
+    InMemoryTaskRepository,
 } from '../adapters/database';
+import { PrismaCollusionRepository } from '../adapters/database/PrismaCollusionRepository';
+import { PrismaValidatorInteractionRepository } from '../adapters/database/PrismaValidatorInteractionRepository';
+import { PrismaValidatorRepository } from '../adapters/database/PrismaValidatorRepository';
+import { PrismaBootstrapRepository } from '../adapters/database/PrismaBootstrapRepository';
+import { PrismaGraduationRepository } from '../adapters/database/PrismaGraduationRepository';
+import { PrismaDisputeRepository } from '../adapters/database/PrismaDisputeRepository';
+import { PrismaINCCallRepository } from '../adapters/database/PrismaINCCallRepository';
+import { PrismaTaskClaimRepository } from '../adapters/database/PrismaTaskClaimRepository';
+import { D1CollusionRepository } from '../adapters/database/D1CollusionRepository';
+import { D1ValidatorInteractionRepository } from '../adapters/database/D1ValidatorInteractionRepository';
+import { D1ValidatorRepository } from '../adapters/database/D1ValidatorRepository';
+import { D1BootstrapRepository } from '../adapters/database/D1BootstrapRepository';
+import { D1GraduationRepository } from '../adapters/database/D1GraduationRepository';
+import { D1DisputeRepository } from '../adapters/database/D1DisputeRepository';
+import { D1INCCallRepository } from '../adapters/database/D1INCCallRepository';
+import { D1TaskClaimRepository } from '../adapters/database/D1TaskClaimRepository';
+import { MongoCollusionRepository } from '../adapters/database/MongoCollusionRepository';
+import { MongoValidatorInteractionRepository } from '../adapters/database/MongoValidatorInteractionRepository';
+import { MongoBootstrapRepository } from '../adapters/database/MongoBootstrapRepository';
+import { MongoGraduationRepository } from '../adapters/database/MongoGraduationRepository';
+import { MongoDisputeRepository } from '../adapters/database/MongoDisputeRepository';
+import { SupabaseCollusionRepository } from '../adapters/database/SupabaseCollusionRepository';
+import { SupabaseValidatorInteractionRepository } from '../adapters/database/SupabaseValidatorInteractionRepository';
+import { SupabaseBootstrapRepository } from '../adapters/database/SupabaseBootstrapRepository';
+import { SupabaseGraduationRepository } from '../adapters/database/SupabaseGraduationRepository';
+import { SupabaseDisputeRepository } from '../adapters/database/SupabaseDisputeRepository';
+import { InMemoryCollusionRepository } from '../adapters/database/InMemoryCollusionRepository';
+import { InMemoryValidatorInteractionRepository } from '../adapters/database/InMemoryValidatorInteractionRepository';
+import { InMemoryValidatorRepository } from '../adapters/database/InMemoryValidatorRepository';
+import { InMemoryBootstrapRepository } from '../adapters/database/InMemoryBootstrapRepository';
+import { InMemoryGraduationRepository } from '../adapters/database/InMemoryGraduationRepository';
+import { InMemoryDisputeRepository } from '../adapters/database/InMemoryDisputeRepository';
+import { InMemoryINCCallRepository } from '../adapters/database/InMemoryINCCallRepository';
+import { InMemoryTaskClaimRepository } from '../adapters/database/InMemoryTaskClaimRepository';
+import { InMemoryEventStore } from '../adapters/events/InMemoryEventStore';
+import { PrismaEventStore } from '../adapters/events/PrismaEventStore';
+import { D1EventStore } from '../adapters/events/D1EventStore';
+import { MongoEventStore } from '../adapters/events/MongoEventStore';
+import { SupabaseEventStore } from '../adapters/events/SupabaseEventStore';
 import {
     IPFSStorageProvider,
     CloudflareR2StorageProvider,
+    S3StorageProvider,
+    ArweaveStorageProvider,
+    ReplicatedStorageProvider,
+    ReplicaIndex,
+    LocalFileStorageProvider,
+    InMemoryStorageProvider,
 } from '../adapters/storage';
 import { EthereumProvider } from '../adapters/blockchain';
 
 export interface DatabaseConfig {
     type: DatabaseType;
-    instance?: any; // PrismaClient | D1Database | SupabaseClient | MongoClient
+    instance?: any; // PrismaClient | D1Database | SupabaseClient | MongoDatabase (mongoClient.db(name))
+}
+
+/**
+ * Every repository the protocol services depend on, backed by one database
+ */
+export interface ProtocolRepositories {
+    networkRepo: INetworkRepository;
+    taskRepo: ITaskRepository;
+    collusionRepo: ICollusionRepository;
+    validatorInteractionRepo: IValidatorInteractionRepository;
+    validatorRepo?: IValidatorRepository; // Not available for mongo/supabase yet
+    bootstrapRepo: IBootstrapRepository;
+    graduationRepo: IGraduationRepository;
+    disputeRepo: IDisputeRepository;
+    incCallRepo?: IINCCallRepository; // Not available for mongo/supabase yet
+    taskClaimRepo?: ITaskClaimRepository; // Not available for mongo/supabase yet
+    eventStore: IEventStore;
 }
 
 export interface StorageConfig {
     type: StorageType;
-    config?: any; // R2Bucket | IPFS config | S3 config
+    config?: any; // R2Bucket | IPFS config | S3StorageConfig | ArweaveStorageConfig
+    name?: string; // Replica name when used inside `replicas`
+    replicas?: StorageConfig[]; // Replicate across several backends (type is ignored when set)
+    writeQuorum?: number; // Replicas that must accept an upload (default: majority)
+    replicaIndex?: ReplicaIndex; // Persistent replica locator index, e.g. LocalFileReplicaIndex (default: in-memory)
 }
 
 export interface BlockchainConfig {
@@ -69,6 +153,93 @@ export class ProtocolFactory {
         };
     }
 
+    /**
+     * Create the full set of repositories for one database
+     */
+    static createRepositories(config?: DatabaseConfig, autoDetect: boolean = true): ProtocolRepositories {
+        const dbType = config?.type || (autoDetect ? RuntimeDetector.getDefaultDatabase() : 'prisma');
+        const instance = config?.instance;
+
+        if (dbType === 'memory') {
+            return {
+                networkRepo: new InMemoryNetworkRepository(),
+                taskRepo: new InMemoryTaskRepository(),
+                collusionRepo: new InMemoryCollusionRepository(),
+                validatorInteractionRepo: new InMemoryValidatorInteractionRepository(),
+                validatorRepo: new InMemoryValidatorRepository(),
+                bootstrapRepo: new InMemoryBootstrapRepository(),
+                graduationRepo: new InMemoryGraduationRepository(),
+                disputeRepo: new InMemoryDisputeRepository(),
+                incCallRepo: new InMemoryINCCallRepository(),
+                taskClaimRepo: new InMemoryTaskClaimRepository(),
+                eventStore: new InMemoryEventStore(),
+            };
+        }
+
+        if (!instance) {
+            throw new Error(`Database instance required for ${dbType} adapter`);
+        }
+
+        switch (dbType) {
+            case 'prisma':
+                return {
+                    networkRepo: new PrismaNetworkRepository(instance),
+                    taskRepo: new PrismaTaskRepository(instance),
+                    collusionRepo: new PrismaCollusionRepository(instance),
+                    validatorInteractionRepo: new PrismaValidatorInteractionRepository(instance),
+                    validatorRepo: new PrismaValidatorRepository(instance),
+                    bootstrapRepo: new PrismaBootstrapRepository(instance),
+                    graduationRepo: new PrismaGraduationRepository(instance),
+                    disputeRepo: new PrismaDisputeRepository(instance),
+                    incCallRepo: new PrismaINCCallRepository(instance),
+                    taskClaimRepo: new PrismaTaskClaimRepository(instance),
+                    eventStore: new PrismaEventStore(instance),
+                };
+
+            case 'd1':
+                return {
+                    networkRepo: new D1NetworkRepository(instance),
+                    taskRepo: new D1TaskRepository(instance),
+                    collusionRepo: new D1CollusionRepository(instance),
+                    validatorInteractionRepo: new D1ValidatorInteractionRepository(instance),
+                    validatorRepo: new D1ValidatorRepository(instance),
+                    bootstrapRepo: new D1BootstrapRepository(instance),
+                    graduationRepo: new D1GraduationRepository(instance),
+                    disputeRepo: new D1DisputeRepository(instance),
+                    incCallRepo: new D1INCCallRepository(instance),
+                    taskClaimRepo: new D1TaskClaimRepository(instance),
+                    eventStore: new D1EventStore(instance),
+                };
+
+            case 'mongo':
+                return {
+                    networkRepo: new MongoNetworkRepository(instance),
+                    taskRepo: new MongoTaskRepository(instance),
+                    collusionRepo: new MongoCollusionRepository(instance),
+                    validatorInteractionRepo: new MongoValidatorInteractionRepository(instance),
+                    bootstrapRepo: new MongoBootstrapRepository(instance),
+                    graduationRepo: new MongoGraduationRepository(instance),
+                    disputeRepo: new MongoDisputeRepository(instance),
+                    eventStore: new MongoEventStore(instance),
+                };
+
+            case 'supabase':
+                return {
+                    networkRepo: new SupabaseNetworkRepository(instance),
+                    taskRepo: new SupabaseTaskRepository(instance),
+                    collusionRepo: new SupabaseCollusionRepository(instance),
+                    validatorInteractionRepo: new SupabaseValidatorInteractionRepository(instance),
+                    bootstrapRepo: new SupabaseBootstrapRepository(instance),
+                    graduationRepo: new SupabaseGraduationRepository(instance),
+                    disputeRepo: new SupabaseDisputeRepository(instance),
+                    eventStore: new SupabaseEventStore(instance),
+                };
+
+            default:
+                throw new Error(`Unsupported database type: ${dbType}`);
+        }
+    }
+
     private static createDatabaseRepository(
         config?: DatabaseConfig,
         autoDetect: boolean = true
@@ -88,6 +259,21 @@ export class ProtocolFactory {
                 }
                 return new D1NetworkRepository(config.instance);
 
+            case 'supabase':
+                if (!config?.instance) {
+                    throw new Error('Supabase client required for Supabase adapter');
+                }
+                return new SupabaseNetworkRepository(config.instance);
+
+            case 'mongo':
+                if (!config?.instance) {
+                    throw new Error('MongoDB database instance required for Mongo adapter');
+                }
+                return new MongoNetworkRepository(config.instance);
+
+            case 'memory':
+                return new InMemoryNetworkRepository();
+
             // Add more database types here
             default:
                 throw new Error(`Unsupported database type: ${dbType}`);
@@ -98,6 +284,17 @@ export class ProtocolFactory {
         config?: StorageConfig,
         autoDetect: boolean = true
     ): IStorageProvider {
+        if (config?.replicas && config.replicas.length > 0) {
+            return new ReplicatedStorageProvider({
+                replicas: config.replicas.map((replica, i) => ({
+                    name: replica.name || `${replica.type}-${i}`,
+                    provider: this.createStorageProvider(replica, false),
+                })),
+                writeQuorum: config.writeQuorum,
+                index: config.replicaIndex,
+            });
+        }
+
         const storageType = config?.type || (autoDetect ? RuntimeDetector.getDefaultStorage() : 'ipfs');
 
         switch (storageType) {
@@ -110,6 +307,24 @@ export class ProtocolFactory {
                 }
                 return new CloudflareR2StorageProvider(config.config);
 
+            case 's3':
+                if (!config?.config) {
+                    throw new Error('S3 config (endpoint, region, bucket, credentials) required for S3 adapter');
+                }
+                return new S3StorageProvider(config.config);
+
+            case 'arweave':
+                return new ArweaveStorageProvider(config?.config);
+
+            case 'local':
+                if (!config?.config?.directory) {
+                    throw new Error('Storage directory required for local adapter');
+                }
+                return new LocalFileStorageProvider(config.config);
+
+            case 'memory':
+                return new InMemoryStorageProvider();
+
             // Add more storage types here
             default:
                 throw new Error(`Unsupported storage type: ${storageType}`);
@@ -4,8 +4,8 @@
  */
 
 export type RuntimeType = 'node' | 'workers' | 'deno' | 'bun';
-export type DatabaseType = 'prisma' | 'd1' | 'supabase' | 'mongo';
-export type StorageType = 'ipfs' | 'r2' | 'arweave' | 's3';
+export type DatabaseType = 'prisma' | 'd1' | 'supabase' | 'mongo' | 'memory';
+export type StorageType = 'ipfs' | 'r2' | 'arweave' | 's3' | 'local' | 'memory';
 export type BlockchainType = 'ethereum' | 'polygon' | 'arbitrum' | 'optimism' | 'base' | 'solana';
 
 export class RuntimeDetector {
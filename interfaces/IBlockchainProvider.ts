@@ -11,11 +11,18 @@ export interface DeploymentResult {
     deployerAddress?: string;
 }
 
+export interface TransactionLog {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
 export interface TransactionReceipt {
     transactionHash: string;
     blockNumber: number;
     status: 'success' | 'failed';
     gasUsed?: string;
+    logs?: TransactionLog[];
     [key: string]: any;
 }
 
@@ -0,0 +1,58 @@
+/**
+ * Dispute Repository Interface
+ *
+ * Database-agnostic interface for task challenges and their resolution
+ */
+
+export type DisputeStatus = 'open' | 'resolved';
+
+export type DisputeResolutionMode = 'validator' | 'oracle' | 'governance';
+
+export interface DisputeData {
+    id: string;
+    taskId: string;
+    networkId: string;
+    challengerAddress: string;
+    reason: string;
+    evidenceCid: string;
+    stake?: string; // Challenge stake (wei) sent with EscrowContract.challenge
+    resolutionMode: DisputeResolutionMode;
+    status: DisputeStatus;
+    challengerWon?: boolean;
+    resolutionTxHash?: string;
+    windowEndsAt: Date; // End of validatorConfig.disputeWindow for this task
+    openedAt: Date;
+    resolvedAt?: Date;
+}
+
+export interface IDisputeRepository {
+    /**
+     * Create dispute record
+     */
+    create(data: Omit<DisputeData, 'id' | 'openedAt'>): Promise<DisputeData>;
+
+    /**
+     * Find dispute by ID
+     */
+    findById(id: string): Promise<DisputeData | null>;
+
+    /**
+     * Find disputes for a task (newest first)
+     */
+    findByTask(taskId: string): Promise<DisputeData[]>;
+
+    /**
+     * Find open disputes, optionally for one network
+     */
+    findOpen(networkId?: string, limit?: number): Promise<DisputeData[]>;
+
+    /**
+     * Count disputes opened in a time window that are still unresolved
+     */
+    countUnresolved(networkId: string, from: Date, to: Date): Promise<number>;
+
+    /**
+     * Update dispute
+     */
+    update(id: string, data: Partial<DisputeData>): Promise<DisputeData>;
+}
@@ -0,0 +1,62 @@
+/**
+ * INC Call Repository Interface
+ *
+ * Database-agnostic interface for Inter-Network Call records and their lifecycle
+ */
+
+import { InterNetworkCall, INCCallReceipt, INCCallFailure, INCCallBudget } from '../types';
+
+/**
+ * pending: accepted, destination task not submitted yet
+ * dispatched: destination task submitted (task ID = INC ID)
+ * completed / failed: destination task settled
+ * refunded: failed call whose budget was returned to the source network
+ */
+export type INCCallStatus = 'pending' | 'dispatched' | 'completed' | 'failed' | 'refunded';
+
+export interface INCCallRecord {
+    incId: string;
+    sourceNetworkId: string;
+    destinationNetworkId: string;
+    status: INCCallStatus;
+    call: InterNetworkCall;
+    callbackUrl?: string;       // Source network webhook for the signed INCCallback
+    deadline?: Date;            // Destination task timeout (set when dispatched)
+    price?: string;             // Destination task deposit drawn from the budget (set when dispatched)
+    budget?: INCCallBudget;     // allocated = price + budget reserved by nested calls
+    receipt?: INCCallReceipt;
+    failure?: INCCallFailure;
+    refundTxHash?: string;
+    callbackAttempts: number;
+    callbackDeliveredAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IINCCallRepository {
+    /**
+     * Create INC call record
+     */
+    create(data: Omit<INCCallRecord, 'createdAt' | 'updatedAt'>): Promise<INCCallRecord>;
+
+    /**
+     * Find INC call by ID
+     */
+    findById(incId: string): Promise<INCCallRecord | null>;
+
+    /**
+     * Find INC calls in a status (oldest first)
+     */
+    findByStatus(status: INCCallStatus, limit?: number): Promise<INCCallRecord[]>;
+
+    /**
+     * Find settled calls (completed, failed or refunded) whose callback has not been delivered
+     * and has been attempted fewer than maxAttempts times (oldest first)
+     */
+    findPendingCallbacks(maxAttempts: number, limit?: number): Promise<INCCallRecord[]>;
+
+    /**
+     * Update INC call
+     */
+    update(incId: string, data: Partial<INCCallRecord>): Promise<INCCallRecord>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Task Claim Repository Interface
+ *
+ * Database-agnostic interface for miner claim leases (see TaskClaimService)
+ */
+
+/**
+ * Claim on a task by one miner
+ * A task has at most one claim per miner; miner addresses are compared case-insensitively
+ */
+export interface TaskClaim {
+    taskId: string;
+    minerAddress: string;
+    exclusive: boolean;
+    claimedAt: number;          // Unix ms
+    expiresAt: number;          // Unix ms
+}
+
+export interface ITaskClaimRepository {
+    /**
+     * Create or renew the miner's claim, unless another miner holds a live claim (expiresAt > now)
+     * and either claim is exclusive. The conflict check and the write happen atomically, so two
+     * miners racing for an exclusive claim cannot both win. A renewal keeps the original claimedAt.
+     * Returns null on conflict.
+     */
+    claim(claim: TaskClaim, now: number): Promise<TaskClaim | null>;
+
+    /**
+     * Extend the miner's claim if it is still live; returns null if there is no live claim
+     */
+    renew(taskId: string, minerAddress: string, expiresAt: number, now: number): Promise<TaskClaim | null>;
+
+    /**
+     * Delete the miner's claim
+     */
+    release(taskId: string, minerAddress: string): Promise<void>;
+
+    /**
+     * All claims on a task, live or expired (oldest claim first)
+     */
+    findByTask(taskId: string): Promise<TaskClaim[]>;
+
+    /**
+     * Delete every claim on a task
+     */
+    deleteByTask(taskId: string): Promise<void>;
+}
@@ -97,6 +97,12 @@ export interface ITaskRepository {
      */
     findByStatus(status: TaskData['status'], limit?: number): Promise<TaskData[]>;
 
+    /**
+     * Find tasks in a status created before a point in time, oldest first
+     * (used to sweep overdue tasks; newest-first pages would starve the oldest ones)
+     */
+    findOverdue(status: TaskData['status'], before: Date, limit?: number): Promise<TaskData[]>;
+
     /**
      * Find tasks waiting for user selection (human-in-the-loop)
      */
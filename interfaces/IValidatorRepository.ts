@@ -15,6 +15,24 @@ export interface ValidatorData {
     lastActiveAt?: Date;
 }
 
+/**
+ * Per-validator state kept by the evaluation services
+ * (ValidatorReputationService, ValidatorCalibrationService, AdversarialTestingService, RiskScoringService)
+ */
+export type ValidatorStateKind = 'reputation' | 'calibration' | 'adversarial-tests' | 'risk-history';
+
+/**
+ * Versioned validator state
+ * `version` starts at 1 and is incremented by every save (optimistic concurrency)
+ */
+export interface ValidatorStateRecord<T = any> {
+    validatorAddress: string;
+    kind: ValidatorStateKind;
+    data: T;
+    version: number;
+    updatedAt: Date;
+}
+
 export interface IValidatorRepository {
     /**
      * Register a new validator
@@ -59,4 +77,30 @@ export interface IValidatorRepository {
      * Update last active timestamp
      */
     updateLastActive(address: string, networkId: string): Promise<void>;
+
+    /**
+     * Get validator state of one kind
+     */
+    getState<T = any>(validatorAddress: string, kind: ValidatorStateKind): Promise<ValidatorStateRecord<T> | null>;
+
+    /**
+     * List validator state of one kind for all validators
+     */
+    listStates<T = any>(kind: ValidatorStateKind): Promise<ValidatorStateRecord<T>[]>;
+
+    /**
+     * Save validator state if its stored version is still expectedVersion (0 = not stored yet)
+     * Returns null when another writer got there first; reload and retry
+     */
+    saveState<T = any>(
+        validatorAddress: string,
+        kind: ValidatorStateKind,
+        data: T,
+        expectedVersion: number
+    ): Promise<ValidatorStateRecord<T> | null>;
+
+    /**
+     * Delete validator state of one kind
+     */
+    deleteState(validatorAddress: string, kind: ValidatorStateKind): Promise<void>;
 }
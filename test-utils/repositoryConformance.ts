@@ -0,0 +1,637 @@
+/**
+ * Repository Conformance Suite
+ *
+ * Shared behavioural contract for the database adapters. Each adapter's test file under
+ * __tests__/conformance calls describeRepositoryConformance() with a harness that builds its
+ * repositories; harnesses exist for the in-memory, Prisma, D1, Mongo and Supabase adapters.
+ * Tests only touch rows they create (ids are unique per test), so the suite can run against a
+ * shared test database.
+ *
+ * Lives outside __tests__ so Jest does not collect it as a test file.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import type { ProtocolRepositories } from '../factory/ProtocolFactory';
+import { NetworkData } from '../interfaces/INetworkRepository';
+import { TaskData } from '../interfaces/ITaskRepository';
+
+export interface ConformanceHarness {
+  name: string;
+  createRepositories(): Promise<ProtocolRepositories>;
+  teardown?(): Promise<void>;
+  /**
+   * Smallest createdAt difference the backend can order by (D1 stores seconds)
+   */
+  timestampResolutionMs?: number;
+}
+
+const uniqueId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function describeRepositoryConformance(harness: ConformanceHarness): void {
+  describe(`${harness.name} repository conformance`, () => {
+    let repos: ProtocolRepositories;
+    const tick = () => new Promise(resolve => setTimeout(resolve, harness.timestampResolutionMs ?? 5));
+
+    beforeAll(async () => {
+      repos = await harness.createRepositories();
+    });
+
+    afterAll(async () => {
+      await harness.teardown?.();
+    });
+
+    const network = (overrides: Partial<NetworkData> = {}): NetworkData => ({
+      networkId: uniqueId('net'),
+      name: 'Conformance Network',
+      description: 'Created by the repository conformance suite',
+      category: 'conformance',
+      creatorAddress: '0xcreator',
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    const task = (networkId: string, overrides: Partial<TaskData> = {}): TaskData => ({
+      taskId: uniqueId('task'),
+      networkId,
+      status: 'submitted',
+      input: { prompt: 'hello' },
+      depositorAddress: '0xdepositor',
+      depositAmount: '1000',
+      consensusReached: false,
+      paymentReleased: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    describe('INetworkRepository', () => {
+      it('should create, find, update and delete networks', async () => {
+        const data = network({ manifestCid: 'bafy-manifest' });
+
+        await repos.networkRepo.create(data);
+        const found = await repos.networkRepo.findById(data.networkId);
+        expect(found).toMatchObject({ networkId: data.networkId, name: data.name, manifestCid: 'bafy-manifest' });
+
+        const updated = await repos.networkRepo.update(data.networkId, { status: 'active', contractAddress: '0xescrow' });
+        expect(updated).toMatchObject({ status: 'active', contractAddress: '0xescrow', manifestCid: 'bafy-manifest' });
+
+        await repos.networkRepo.delete(data.networkId);
+        await expect(repos.networkRepo.findById(data.networkId)).resolves.toBeNull();
+      });
+
+      it('should filter, order newest first and paginate lists', async () => {
+        const category = uniqueId('category');
+        const creatorAddress = uniqueId('0xcreator');
+        const ids: string[] = [];
+        for (const status of ['pending', 'active', 'active'] as const) {
+          const data = network({ category, creatorAddress, status });
+          ids.push(data.networkId);
+          await repos.networkRepo.create(data);
+          await tick();
+        }
+
+        const byCreator = await repos.networkRepo.findByCreator(creatorAddress);
+        expect(byCreator.map(n => n.networkId)).toEqual([...ids].reverse());
+
+        const active = await repos.networkRepo.list({ category, status: 'active' });
+        expect(active.map(n => n.networkId)).toEqual([ids[2], ids[1]]);
+
+        const page = await repos.networkRepo.list({ category, limit: 1, offset: 1 });
+        expect(page.map(n => n.networkId)).toEqual([ids[1]]);
+
+        await expect(repos.networkRepo.count({ category })).resolves.toBe(3);
+        await expect(repos.networkRepo.count({ category, status: 'active' })).resolves.toBe(2);
+      });
+    });
+
+    describe('ITaskRepository', () => {
+      it('should filter tasks by network and status, newest first', async () => {
+        const networkId = uniqueId('net');
+        const ids: string[] = [];
+        for (const status of ['submitted', 'mining', 'submitted'] as const) {
+          const data = task(networkId, { status });
+          ids.push(data.taskId);
+          await repos.taskRepo.create(data);
+          await tick();
+        }
+
+        const all = await repos.taskRepo.findByNetwork(networkId);
+        expect(all.map(t => t.taskId)).toEqual([...ids].reverse());
+
+        const submitted = await repos.taskRepo.findByNetwork(networkId, { status: 'submitted' });
+        expect(submitted.map(t => t.taskId)).toEqual([ids[2], ids[0]]);
+
+        const page = await repos.taskRepo.findByNetwork(networkId, { limit: 1, offset: 1 });
+        expect(page.map(t => t.taskId)).toEqual([ids[1]]);
+
+        const byStatus = await repos.taskRepo.findByStatus('mining', 1);
+        expect(byStatus).toHaveLength(1);
+        expect(byStatus[0].taskId).toBe(ids[1]);
+      });
+
+      it('should find tasks created before a time, oldest first', async () => {
+        const networkId = uniqueId('net');
+        const ids: string[] = [];
+        for (const status of ['evaluating', 'evaluating', 'mining'] as const) {
+          const data = task(networkId, { status });
+          ids.push(data.taskId);
+          await repos.taskRepo.create(data);
+          await tick();
+        }
+        const before = new Date();
+        await tick();
+        const late = task(networkId, { status: 'evaluating' });
+        await repos.taskRepo.create(late);
+
+        const overdue = await repos.taskRepo.findOverdue('evaluating', before);
+        expect(overdue.filter(t => t.networkId === networkId).map(t => t.taskId)).toEqual([ids[0], ids[1]]);
+      });
+
+      it('should update status, consensus and human selection fields', async () => {
+        const networkId = uniqueId('net');
+        const data = task(networkId);
+        await repos.taskRepo.create(data);
+
+        await repos.taskRepo.updateStatus(data.taskId, 'user-selecting');
+        const waiting = await repos.taskRepo.findWaitingForSelection(networkId);
+        expect(waiting.map(t => t.taskId)).toEqual([data.taskId]);
+
+        await repos.taskRepo.updateHumanSelection(data.taskId, 'out-2', '0xuser');
+        expect(await repos.taskRepo.findById(data.taskId)).toMatchObject({
+          status: 'consensus-reached',
+          winningOutputId: 'out-2',
+        });
+
+        await repos.taskRepo.updateConsensus(data.taskId, 'out-1');
+        const updated = await repos.taskRepo.update(data.taskId, { paymentReleased: true, paymentTxHash: '0xpaid' });
+        expect(updated).toMatchObject({
+          consensusReached: true,
+          winningOutputId: 'out-1',
+          paymentReleased: true,
+          paymentTxHash: '0xpaid',
+          input: { prompt: 'hello' },
+        });
+      });
+
+      it('should store outputs and evaluations per task in submission order', async () => {
+        const data = task(uniqueId('net'));
+        await repos.taskRepo.create(data);
+        const t0 = Date.now();
+
+        for (const [i, outputId] of ['out-1', 'out-2'].entries()) {
+          await repos.taskRepo.addOutput({
+            id: '',
+            taskId: data.taskId,
+            outputId,
+            output: { text: outputId },
+            minerAddress: `0xminer${i}`,
+            timestamp: new Date(t0 + i * 1000),
+          });
+        }
+        await repos.taskRepo.addEvaluation({
+          id: '',
+          taskId: data.taskId,
+          validatorAddress: '0xvalidator',
+          outputId: 'out-2',
+          score: 0.8,
+          confidence: 0.9,
+          signature: '0xsig',
+          timestamp: new Date(t0 + 2000),
+        });
+
+        const outputs = await repos.taskRepo.getOutputs(data.taskId);
+        expect(outputs.map(o => [o.outputId, o.output.text, o.minerAddress])).toEqual([
+          ['out-1', 'out-1', '0xminer0'],
+          ['out-2', 'out-2', '0xminer1'],
+        ]);
+        expect(outputs.every(o => o.id && o.taskId === data.taskId)).toBe(true);
+
+        const evaluations = await repos.taskRepo.getEvaluations(data.taskId);
+        expect(evaluations).toEqual([
+          expect.objectContaining({ outputId: 'out-2', score: 0.8, confidence: 0.9, taskId: data.taskId }),
+        ]);
+
+        await expect(repos.taskRepo.getOutputs(uniqueId('task'))).resolves.toEqual([]);
+      });
+
+      it('should reject outputs for unknown tasks', async () => {
+        await expect(repos.taskRepo.addOutput({
+          id: '',
+          taskId: uniqueId('task'),
+          outputId: 'out-1',
+          output: {},
+          minerAddress: '0xminer',
+          timestamp: new Date(),
+        })).rejects.toThrow('Task not found');
+      });
+    });
+
+    describe('ICollusionRepository', () => {
+      it('should record events and rejections newest first with limits', async () => {
+        const networkId = uniqueId('net');
+        const validator = uniqueId('0xvalidator');
+        for (const severity of ['low', 'high', 'critical'] as const) {
+          await repos.collusionRepo.recordEvent({
+            networkId,
+            validators: [validator, '0xother'],
+            patternHash: `pattern-${severity}`,
+            severity,
+          });
+          await tick();
+        }
+
+        const events = await repos.collusionRepo.findEventsByNetwork(networkId, 2);
+        expect(events.map(e => e.severity)).toEqual(['critical', 'high']);
+        expect(events[0].validators).toEqual([validator, '0xother']);
+
+        const byValidator = await repos.collusionRepo.findEventsByValidator(validator);
+        expect(byValidator).toHaveLength(3);
+
+        const taskId = uniqueId('task');
+        const rejection = await repos.collusionRepo.recordUserRejection({
+          taskId,
+          networkId,
+          userAddress: '0xuser',
+          rejectedValidators: [validator],
+          patternHash: 'rejected',
+          redoCount: 1,
+        });
+        expect(rejection.id).toBeTruthy();
+        await expect(repos.collusionRepo.findRejectionsByTask(taskId)).resolves.toEqual([
+          expect.objectContaining({ rejectedValidators: [validator], redoCount: 1 }),
+        ]);
+        await expect(repos.collusionRepo.findRejectionsByNetwork(networkId)).resolves.toHaveLength(1);
+      });
+
+      it('should upsert collusion scores and count updates', async () => {
+        const networkId = uniqueId('net');
+
+        await expect(repos.collusionRepo.getCollusionScore('0xa', networkId)).resolves.toBe(0);
+
+        await repos.collusionRepo.updateCollusionScore('0xa', networkId, 40);
+        await repos.collusionRepo.updateCollusionScore('0xa', networkId, 85);
+        await repos.collusionRepo.updateCollusionScore('0xb', networkId, 70);
+        await repos.collusionRepo.updateCollusionScore('0xc', networkId, 10);
+
+        await expect(repos.collusionRepo.getCollusionScore('0xa', networkId)).resolves.toBe(85);
+
+        const highRisk = await repos.collusionRepo.getHighRiskValidators(networkId, 50);
+        expect(highRisk.map(s => [s.validatorAddress, s.score, s.eventCount])).toEqual([
+          ['0xa', 85, 2],
+          ['0xb', 70, 1],
+        ]);
+        expect(highRisk[0].lastEventAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('IValidatorInteractionRepository', () => {
+      it('should treat validator pairs as unordered and compute frequencies', async () => {
+        const networkId = uniqueId('net');
+        const [a, b, c] = ['0xa', '0xb', '0xc'].map(v => `${v}-${networkId}`);
+
+        for (const [v1, v2, agreement] of [[a, b, true], [b, a, true], [a, b, false], [a, c, true]] as const) {
+          await repos.validatorInteractionRepo.recordInteraction({
+            networkId,
+            validator1: v1,
+            validator2: v2,
+            taskId: uniqueId('task'),
+            agreement,
+          });
+        }
+
+        await expect(repos.validatorInteractionRepo.findByValidators(b, a, networkId)).resolves.toHaveLength(3);
+        await expect(repos.validatorInteractionRepo.findByValidator(a, networkId, 2)).resolves.toHaveLength(2);
+
+        const frequency = await repos.validatorInteractionRepo.getInteractionFrequency(a, b, networkId);
+        expect(frequency).toMatchObject({ totalInteractions: 3, agreementCount: 2, disagreementCount: 1 });
+        expect(frequency!.agreementRate).toBeCloseTo(2 / 3);
+        await expect(repos.validatorInteractionRepo.getInteractionFrequency(b, c, networkId)).resolves.toBeNull();
+
+        const pairs = await repos.validatorInteractionRepo.getHighAgreementPairs(networkId, 2, 0.6);
+        expect(pairs.map(p => [p.validator1, p.validator2, p.totalInteractions])).toEqual([[a, b, 3]]);
+
+        const stats = await repos.validatorInteractionRepo.getValidatorStats(a, networkId);
+        expect(stats).toMatchObject({ totalInteractions: 4, uniquePartners: 2 });
+        expect(stats.averageAgreementRate).toBeCloseTo(0.75);
+      });
+
+      it('should delete interactions older than a date', async () => {
+        const networkId = uniqueId('net');
+        await repos.validatorInteractionRepo.recordInteraction({
+          networkId,
+          validator1: '0xa',
+          validator2: '0xb',
+          taskId: uniqueId('task'),
+          agreement: true,
+        });
+
+        await expect(repos.validatorInteractionRepo.deleteOldInteractions(new Date(0))).resolves.toBe(0);
+        await tick();
+        const deleted = await repos.validatorInteractionRepo.deleteOldInteractions(new Date(Date.now() + 1000));
+        expect(deleted).toBeGreaterThanOrEqual(1);
+        await expect(repos.validatorInteractionRepo.findByValidator('0xa', networkId)).resolves.toEqual([]);
+      });
+    });
+
+    describe('IBootstrapRepository', () => {
+      it('should create, update and deactivate bootstrap configs by network', async () => {
+        const networkId = uniqueId('net');
+        const created = await repos.bootstrapRepo.create({
+          networkId,
+          isActive: true,
+          mode: 'no-validators',
+          convertedValidators: [],
+          convertedMiners: [],
+          minConfirmationsRequired: 2,
+        });
+        expect(created.id).toBeTruthy();
+
+        const updated = await repos.bootstrapRepo.update(networkId, { convertedValidators: ['0xv1'], mode: 'normal' });
+        expect(updated).toMatchObject({ convertedValidators: ['0xv1'], mode: 'normal', minConfirmationsRequired: 2 });
+
+        let active = await repos.bootstrapRepo.getActiveBootstrapNetworks();
+        expect(active.map(c => c.networkId)).toContain(networkId);
+
+        await repos.bootstrapRepo.deactivate(networkId);
+        active = await repos.bootstrapRepo.getActiveBootstrapNetworks();
+        expect(active.map(c => c.networkId)).not.toContain(networkId);
+        await expect(repos.bootstrapRepo.findByNetwork(networkId)).resolves.toMatchObject({ isActive: false });
+      });
+    });
+
+    describe('IGraduationRepository', () => {
+      it('should report networks meeting the criteria until they graduate', async () => {
+        const ready = uniqueId('net');
+        const small = uniqueId('net');
+        const created = await repos.graduationRepo.create({
+          networkId: ready, phase: 'bootstrap', validatorCount: 5, minerCount: 1, taskCount: 10,
+        });
+        await repos.graduationRepo.create({
+          networkId: small, phase: 'bootstrap', validatorCount: 1, minerCount: 1, taskCount: 10,
+        });
+
+        await repos.graduationRepo.update(created.id, { minerCount: 5 });
+        const criteria = { minValidators: 3, minMiners: 3, minTasks: 10 };
+        let candidates = await repos.graduationRepo.getNetworksReadyForGraduation(criteria);
+        expect(candidates).toContain(ready);
+        expect(candidates).not.toContain(small);
+
+        await repos.graduationRepo.markAsGraduated(ready, 'growth');
+        candidates = await repos.graduationRepo.getNetworksReadyForGraduation(criteria);
+        expect(candidates).not.toContain(ready);
+
+        const record = await repos.graduationRepo.findByNetwork(ready);
+        expect(record).toMatchObject({ phase: 'growth', minerCount: 5 });
+        expect(record!.graduatedAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('IDisputeRepository', () => {
+      it('should track open disputes and resolve them', async () => {
+        const networkId = uniqueId('net');
+        const taskId = uniqueId('task');
+        const base = {
+          taskId,
+          networkId,
+          challengerAddress: '0xchallenger',
+          reason: 'wrong output',
+          evidenceCid: 'bafy-evidence',
+          resolutionMode: 'validator' as const,
+          status: 'open' as const,
+          windowEndsAt: new Date(Date.now() + 60_000),
+        };
+
+        const first = await repos.disputeRepo.create(base);
+        await tick();
+        const second = await repos.disputeRepo.create({ ...base, reason: 'second challenge' });
+
+        await expect(repos.disputeRepo.findById(first.id)).resolves.toMatchObject({ reason: 'wrong output' });
+        const byTask = await repos.disputeRepo.findByTask(taskId);
+        expect(byTask.map(d => d.id)).toEqual([second.id, first.id]);
+
+        const open = await repos.disputeRepo.findOpen(networkId, 1);
+        expect(open.map(d => d.id)).toEqual([first.id]);
+
+        const resolved = await repos.disputeRepo.update(first.id, {
+          status: 'resolved',
+          challengerWon: false,
+          resolvedAt: new Date(),
+        });
+        expect(resolved).toMatchObject({ status: 'resolved', challengerWon: false });
+
+        const from = new Date(Date.now() - 60_000);
+        const to = new Date(Date.now() + 60_000);
+        await expect(repos.disputeRepo.countUnresolved(networkId, from, to)).resolves.toBe(1);
+      });
+    });
+
+    describe('IINCCallRepository', () => {
+      it('should track INC calls through their lifecycle and pending callbacks', async () => {
+        const incCallRepo = repos.incCallRepo;
+        if (!incCallRepo) return;
+
+        const call = (incId: string) => ({
+          incId,
+          sourceNetworkId: 'net-source',
+          destinationNetworkId: 'net-destination',
+          taskPayload: { prompt: 'hello' },
+          maxBudget: '1000',
+          settlementMode: 'escrow' as const,
+          signature: '0xsig',
+          timestamp: Date.now(),
+          maxDepth: 10,
+          currentDepth: 1,
+          callChain: ['net-source'],
+        });
+        const record = (incId: string) => ({
+          incId,
+          sourceNetworkId: 'net-source',
+          destinationNetworkId: 'net-destination',
+          status: 'pending' as const,
+          call: call(incId),
+          callbackUrl: 'https://source.example/inc',
+          callbackAttempts: 0,
+        });
+
+        const first = uniqueId('inc');
+        const second = uniqueId('inc');
+        await incCallRepo.create(record(first));
+        await tick();
+        await incCallRepo.create(record(second));
+
+        const found = await incCallRepo.findById(first);
+        expect(found).toMatchObject({ status: 'pending', callbackUrl: 'https://source.example/inc', callbackAttempts: 0 });
+        expect(found!.call.taskPayload).toEqual({ prompt: 'hello' });
+        const pending = (await incCallRepo.findByStatus('pending')).map(r => r.incId);
+        expect(pending.indexOf(first)).toBeLessThan(pending.indexOf(second));
+
+        const deadline = new Date(Date.now() + 60_000);
+        const budget = { maxBudget: '1000', allocated: '100', remaining: '900', currency: 'native' as const };
+        await incCallRepo.update(first, { status: 'dispatched', deadline, price: '100', budget });
+        await incCallRepo.update(first, { budget: { ...budget, allocated: '400', remaining: '600' } });
+        await expect(incCallRepo.findById(first)).resolves.toMatchObject({ price: '100', budget: { allocated: '400', remaining: '600' } });
+        const failure = {
+          incId: first,
+          sourceNetworkId: 'net-source',
+          destinationNetworkId: 'net-destination',
+          reason: 'timeout' as const,
+          message: 'Task timed out',
+          timestamp: Date.now(),
+        };
+        const failed = await incCallRepo.update(first, { status: 'failed', failure });
+        expect(failed).toMatchObject({ status: 'failed', failure: { reason: 'timeout' } });
+        expect(failed.deadline?.getTime()).toBe(deadline.getTime());
+
+        const undelivered = await incCallRepo.findPendingCallbacks(3);
+        expect(undelivered.map(r => r.incId)).toContain(first);
+        expect(undelivered.map(r => r.incId)).not.toContain(second);
+
+        await incCallRepo.update(first, { callbackAttempts: 3 });
+        expect((await incCallRepo.findPendingCallbacks(3)).map(r => r.incId)).not.toContain(first);
+        await incCallRepo.update(first, { status: 'refunded', refundTxHash: '0xrefund', callbackAttempts: 0 });
+        expect((await incCallRepo.findPendingCallbacks(3)).map(r => r.incId)).toContain(first);
+        await incCallRepo.update(first, { callbackDeliveredAt: new Date() });
+        expect((await incCallRepo.findPendingCallbacks(3)).map(r => r.incId)).not.toContain(first);
+        await expect(incCallRepo.findById(first)).resolves.toMatchObject({ status: 'refunded', refundTxHash: '0xrefund' });
+      });
+    });
+
+    describe('ITaskClaimRepository', () => {
+      it('should grant conflicting claims to one miner at a time', async () => {
+        const taskClaimRepo = repos.taskClaimRepo;
+        if (!taskClaimRepo) return;
+
+        const taskId = uniqueId('task');
+        const claim = (minerAddress: string, exclusive: boolean, claimedAt: number, expiresAt: number) =>
+          ({ taskId, minerAddress, exclusive, claimedAt, expiresAt });
+
+        await expect(taskClaimRepo.claim(claim('0xMinerA', true, 1000, 2000), 1000)).resolves.toEqual(claim('0xMinerA', true, 1000, 2000));
+        await expect(taskClaimRepo.claim(claim('0xMinerB', false, 1500, 2500), 1500)).resolves.toBeNull();
+
+        // Racing exclusive claims: exactly one wins
+        const racers = await Promise.all(['0xMinerC', '0xMinerD'].map(miner => taskClaimRepo.claim(claim(miner, true, 2000, 3000), 2000)));
+        expect(racers.filter(Boolean)).toHaveLength(1);
+
+        // Re-claiming renews and keeps claimedAt
+        const winner = racers.find(Boolean)!.minerAddress;
+        await expect(taskClaimRepo.claim(claim(winner.toLowerCase(), true, 2500, 3500), 2500)).resolves.toMatchObject({ claimedAt: 2000, expiresAt: 3500 });
+
+        await expect(taskClaimRepo.renew(taskId, winner, 4000, 3000)).resolves.toMatchObject({ expiresAt: 4000 });
+        await expect(taskClaimRepo.renew(taskId, '0xMinerA', 4000, 3000)).resolves.toBeNull();
+
+        await taskClaimRepo.release(taskId, winner);
+        expect((await taskClaimRepo.findByTask(taskId)).map(c => c.minerAddress)).toEqual(['0xMinerA']);
+
+        await taskClaimRepo.deleteByTask(taskId);
+        await expect(taskClaimRepo.findByTask(taskId)).resolves.toEqual([]);
+      });
+    });
+
+    describe('IValidatorRepository', () => {
+      it('should register, filter and update validators', async () => {
+        const validatorRepo = repos.validatorRepo;
+        if (!validatorRepo) return;
+
+        const networkId = uniqueId('net');
+        const address = uniqueId('0xval');
+        await validatorRepo.register({
+          address,
+          networkId,
+          stake: '1000',
+          reputation: 70,
+          isActive: true,
+          isBanned: false,
+          registeredAt: new Date(),
+        });
+        await validatorRepo.register({
+          address: uniqueId('0xval'),
+          networkId,
+          stake: '50',
+          reputation: 30,
+          isActive: false,
+          isBanned: false,
+          registeredAt: new Date(),
+        });
+
+        expect((await validatorRepo.findByAddress(address, networkId))?.stake).toBe('1000');
+        expect((await validatorRepo.findByNetwork(networkId)).length).toBe(2);
+        expect((await validatorRepo.findByNetwork(networkId, { isActive: true })).map(v => v.address)).toEqual([address]);
+        expect((await validatorRepo.findByNetwork(networkId, { minStake: '100' })).map(v => v.address)).toEqual([address]);
+        expect((await validatorRepo.findByNetwork(networkId, { minReputation: 50 })).map(v => v.address)).toEqual([address]);
+
+        await validatorRepo.updateReputation(address, networkId, 85);
+        await validatorRepo.setBanStatus(address, networkId, true);
+        const updated = await validatorRepo.update(address, networkId, { stake: '2000' });
+        expect(updated).toMatchObject({ reputation: 85, isBanned: true, stake: '2000' });
+      });
+
+      it('should save validator state with optimistic concurrency', async () => {
+        const validatorRepo = repos.validatorRepo;
+        if (!validatorRepo) return;
+
+        const address = uniqueId('0xval');
+        await expect(validatorRepo.getState(address, 'reputation')).resolves.toBeNull();
+
+        const created = await validatorRepo.saveState(address, 'reputation', { reputation: 50 }, 0);
+        expect(created).toMatchObject({ validatorAddress: address, kind: 'reputation', version: 1 });
+        await expect(validatorRepo.saveState(address, 'reputation', { reputation: 10 }, 0)).resolves.toBeNull();
+
+        const saved = await validatorRepo.saveState(address, 'reputation', { reputation: 51 }, 1);
+        expect(saved?.version).toBe(2);
+        await expect(validatorRepo.saveState(address, 'reputation', { reputation: 10 }, 1)).resolves.toBeNull();
+
+        const record = await validatorRepo.getState(address, 'reputation');
+        expect(record).toMatchObject({ version: 2, data: { reputation: 51 } });
+
+        // Kinds are independent
+        await expect(validatorRepo.getState(address, 'calibration')).resolves.toBeNull();
+        await validatorRepo.saveState(address, 'risk-history', [0.5, 0.6], 0);
+        const histories = await validatorRepo.listStates('risk-history');
+        expect(histories.find(h => h.validatorAddress === address)?.data).toEqual([0.5, 0.6]);
+
+        await validatorRepo.deleteState(address, 'reputation');
+        await expect(validatorRepo.getState(address, 'reputation')).resolves.toBeNull();
+        await expect(validatorRepo.getState(address, 'risk-history')).resolves.not.toBeNull();
+      });
+    });
+
+    describe('IEventStore', () => {
+      it('should return aggregate events by version and reject duplicate versions', async () => {
+        const aggregateId = uniqueId('task');
+        const eventType = uniqueId('TaskSubmitted');
+        const t0 = Date.now();
+
+        for (const version of [1, 2, 3]) {
+          await repos.eventStore.append({
+            aggregateId,
+            aggregateType: 'Task',
+            eventType: version === 2 ? eventType : 'TaskUpdated',
+            data: { version },
+            metadata: { timestamp: new Date(t0 + version * 1000), version },
+          });
+        }
+
+        const fromTwo = await repos.eventStore.getEvents(aggregateId, 2);
+        expect(fromTwo.map(e => e.metadata.version)).toEqual([2, 3]);
+        expect(fromTwo[0].data).toEqual({ version: 2 });
+
+        await expect(repos.eventStore.getEventsByType(eventType)).resolves.toHaveLength(1);
+        await expect(repos.eventStore.getLatestVersion(aggregateId)).resolves.toBe(3);
+        await expect(repos.eventStore.getLatestVersion(uniqueId('task'))).resolves.toBe(0);
+
+        const inRange = await repos.eventStore.getEventsByTimeRange(new Date(t0 + 1500), new Date(t0 + 3000));
+        expect(inRange.filter(e => e.aggregateId === aggregateId).map(e => e.metadata.version)).toEqual([2, 3]);
+
+        await expect(repos.eventStore.append({
+          aggregateId,
+          aggregateType: 'Task',
+          eventType: 'TaskUpdated',
+          data: {},
+          metadata: { timestamp: new Date(), version: 3 },
+        })).rejects.toThrow();
+      });
+    });
+  });
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-    entry: ['index.ts'],
+    entry: ['index.ts', 'cli/tenseuron.ts'],
     format: ['cjs', 'esm'],
     dts: true,
     splitting: false,
@@ -11,7 +11,8 @@ export default defineConfig({
     minify: false,
     external: [
         '@prisma/client',
-        'ethers'
+        'ethers',
+        'js-yaml'
     ],
     noExternal: [
         'ajv',
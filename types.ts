@@ -130,7 +130,7 @@ export interface NetworkManifest {
   };
 
   scoringLogic: {
-    type: ScoringType;       // 'wasm' for production, 'js' for dev
+    type: ScoringType;       // 'wasm'; 'js' modules are not executed by ScoringRuntimeService
     hash: string;            // Content hash of scoring module
     url: string;             // IPFS CID or URL to scoring module
   };
@@ -174,7 +174,7 @@ export interface NetworkManifest {
 
     // NEW: Custom embedding configuration (user-provided API keys)
     embeddingConfig?: {
-      provider: 'openai' | 'xenova' | 'none';  // Embedding provider: 'openai' (custom), 'xenova' (free), 'none' (hash-based)
+      provider: 'openai' | 'xenova' | 'none';  // Embedding provider: 'openai' (custom), 'xenova' (free), 'none' (each validator's embeddingMethod)
       apiKey?: string;                         // User-provided API key (for OpenAI, encrypted in DB)
       model?: string;                          // Model name (e.g., 'text-embedding-3-small', 'text-embedding-3-large')
       dimension?: number;                      // Embedding dimension (OpenAI: 1536 for small, 3072 for large)
@@ -401,6 +401,30 @@ export interface NetworkManifest {
     ipfsCid: string;         // IPFS CID of this manifest
     gitUrl?: string;         // Optional Git mirror URL
   };
+
+  // Revision (absent on the original manifest; see ManifestRevisionService)
+  revision?: ManifestRevision;
+}
+
+/**
+ * When a manifest revision takes effect
+ */
+export type ManifestRevisionActivation =
+  | { type: 'block'; blockNumber: number }   // Settlement chain block number
+  | { type: 'time'; timestamp: string };     // ISO timestamp
+
+/**
+ * Manifest revision metadata
+ * Revisions chain back to the original manifest (revision 0) through previousCid
+ */
+export interface ManifestRevision {
+  number: number;            // 1 for the first revision
+  previousCid: string;       // Storage CID of the manifest this revision supersedes
+  effectiveFrom: ManifestRevisionActivation;
+  changedFields: string[];   // Top-level manifest fields changed by this revision (sorted)
+  reason?: string;
+  signedAt: string;          // ISO timestamp
+  signature: string;         // Creator's EIP-191 signature of buildManifestRevisionMessage(manifest)
 }
 
 /**
@@ -546,7 +570,7 @@ export interface NetworkCreationRequest {
 
     // Custom embedding configuration (user-provided API keys)
     embeddingConfig?: {
-      provider: 'openai' | 'xenova' | 'none';  // Embedding provider: 'openai' (custom), 'xenova' (free), 'none' (hash-based)
+      provider: 'openai' | 'xenova' | 'none';  // Embedding provider: 'openai' (custom), 'xenova' (free), 'none' (each validator's embeddingMethod)
       apiKey?: string;                         // User-provided API key (for OpenAI, encrypted in DB)
       model?: string;                          // Model name (e.g., 'text-embedding-3-small', 'text-embedding-3-large')
       dimension?: number;                      // Embedding dimension (OpenAI: 1536 for small, 3072 for large)
@@ -749,14 +773,29 @@ export interface InterNetworkCall {
   taskPayload: object;              // Task input for destination network
   maxBudget: string;                // Maximum payment for this call
   settlementMode: SettlementMode;  // How payment is handled
-  signature: string;                // Signature from source network validators (consensus)
+  signature: string;                // Digest of consensusProof (signature from source network validators)
   timestamp: number;                // Unix timestamp when call was created
   maxDepth: number;                 // Maximum call depth (prevents infinite loops)
   currentDepth: number;             // Current depth in call chain
   callChain: string[];              // List of network IDs in call chain (prevents cycles)
+  parentIncId?: string;             // Call whose destination task made this one (draws from its budget)
+  consensusProof?: INCConsensusProof; // N-of-M source validator signatures
   metadata?: object;                // Optional metadata (purpose, context, etc.)
 }
 
+/**
+ * INC Consensus Proof
+ * Source validators' EIP-712 InterNetworkCall signatures, checked against the
+ * source ValidatorRegistry set at validatorSetEpoch
+ */
+export interface INCConsensusProof {
+  validatorSetEpoch: number;
+  signatures: Array<{
+    validatorAddress: string;
+    signature: string;
+  }>;
+}
+
 /**
  * INC Receipt
  * Result from destination network
@@ -783,6 +822,25 @@ export interface INCCallFailure {
   timestamp: number;
 }
 
+/**
+ * INC Callback
+ * Signed notice from the destination network once a call settles (webhook body or P2P message)
+ */
+export interface INCCallback {
+  incId: string;
+  sourceNetworkId: string;
+  destinationNetworkId: string;
+  status: 'completed' | 'failed' | 'refunded';
+  receipt?: INCCallReceipt;          // When completed
+  failure?: INCCallFailure;          // When failed or refunded
+  refundTxHash?: string;             // When refunded
+  timestamp: number;
+  signer: string;                    // Destination node address that signed the callback
+  scheme: 'eip712' | 'eip191';
+  chainId?: number;                  // EIP-712 domain chain (destination settlement chain)
+  signature: string;
+}
+
 /**
  * Multi-Dimensional Risk Vector
  * Replaces single scalar risk score with multi-dimensional vector
@@ -0,0 +1,100 @@
+/**
+ * Canonical JSON
+ *
+ * RFC 8785 JSON Canonicalization Scheme (JCS). Every protocol hash over structured data
+ * (manifests, task states, replay bundles, signature sets) is taken over this form, so the
+ * same value hashes identically regardless of key order, runtime or database round-trip.
+ *
+ * - Object members are sorted by the UTF-16 code units of their names
+ * - Numbers use the ECMAScript Number-to-String serialization; -0 becomes 0
+ * - Strings use the minimal JSON escaping (control characters, quote and backslash only)
+ * - No whitespace
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Serialize a JSON value in canonical form
+ *
+ * Follows JSON.stringify for toJSON() and for undefined/function members (omitted from
+ * objects, null inside arrays), but rejects values JSON cannot represent faithfully:
+ * non-finite numbers, BigInt, symbols and strings containing lone surrogates.
+ */
+export function canonicalize(value: unknown): string {
+    const serialized = serialize(value, '');
+    if (serialized === undefined) {
+        throw new Error(`Cannot canonicalize ${typeof value}`);
+    }
+    return serialized;
+}
+
+/**
+ * SHA-256 (hex) of the UTF-8 encoded canonical form
+ */
+export function canonicalHash(value: unknown): string {
+    return createHash('sha256').update(canonicalize(value), 'utf8').digest('hex');
+}
+
+function serialize(value: any, key: string): string | undefined {
+    if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+        value = value.toJSON(key);
+    }
+
+    switch (typeof value) {
+        case 'string':
+            return serializeString(value);
+        case 'number':
+            if (!Number.isFinite(value)) {
+                throw new Error(`Cannot canonicalize non-finite number ${value}`);
+            }
+            // ES Number::toString is exactly the JCS number format; it also maps -0 to "0"
+            return String(value);
+        case 'boolean':
+            return value ? 'true' : 'false';
+        case 'bigint':
+            throw new Error('Cannot canonicalize BigInt values; convert them to strings');
+        case 'symbol':
+            throw new Error('Cannot canonicalize symbols');
+        case 'undefined':
+        case 'function':
+            return undefined;
+    }
+
+    if (value === null) {
+        return 'null';
+    }
+
+    if (Array.isArray(value)) {
+        const items = value.map((item, index) => serialize(item, String(index)) ?? 'null');
+        return `[${items.join(',')}]`;
+    }
+
+    // Default sort compares UTF-16 code units, which is what RFC 8785 §3.2.3 specifies
+    const members: string[] = [];
+    for (const name of Object.keys(value).sort()) {
+        const member = serialize(value[name], name);
+        if (member !== undefined) {
+            members.push(`${serializeString(name)}:${member}`);
+        }
+    }
+    return `{${members.join(',')}}`;
+}
+
+function serializeString(value: string): string {
+    for (let i = 0; i < value.length; i++) {
+        const code = value.charCodeAt(i);
+        if (code >= 0xd800 && code <= 0xdbff) {
+            const next = value.charCodeAt(i + 1);
+            if (next >= 0xdc00 && next <= 0xdfff) {
+                i++;
+                continue;
+            }
+            throw new Error('Cannot canonicalize strings containing lone surrogates');
+        }
+        if (code >= 0xdc00 && code <= 0xdfff) {
+            throw new Error('Cannot canonicalize strings containing lone surrogates');
+        }
+    }
+    // JSON.stringify escapes exactly the characters JCS requires (RFC 8785 §3.2.2.2)
+    return JSON.stringify(value);
+}
@@ -0,0 +1,426 @@
+/**
+ * WASM Metering
+ *
+ * Rewrites a WebAssembly binary so it cannot run or grow unbounded, whatever its code does:
+ * - A fuel charge (`i32.const cost; call fuelImport`) is injected at every function entry and at
+ *   the top of every loop iteration. The cost is the number of instructions that run before the
+ *   next charge point (the block's own instructions, excluding nested loops, which charge themselves).
+ * - Every memory, defined or imported, gets a `maximum` no larger than the page limit.
+ *
+ * Supported: the MVP instruction set plus sign-extension, non-trapping float-to-int, bulk memory,
+ * reference types and tail calls. SIMD, threads and exception handling are rejected.
+ */
+
+export interface WasmMeteringOptions {
+    fuelImport: { module: string; name: string };  // Host function (param i32) charged by injected code
+    maxMemoryPages: number;                         // Cap on every memory's maximum (64 KiB pages)
+}
+
+export interface MeteredWasm {
+    bytes: Uint8Array;
+    importedMemory?: { initial: number; maximum: number };  // Limits the host must provide, if memory is imported
+}
+
+const SECTION_IMPORT = 2;
+const SECTION_MEMORY = 5;
+const SECTION_CODE = 10;
+
+const OP_BLOCK = 0x02;
+const OP_LOOP = 0x03;
+const OP_IF = 0x04;
+const OP_END = 0x0b;
+const OP_I32_CONST = 0x41;
+const OP_CALL = 0x10;
+
+const VALUE_TYPES = new Set([0x7f, 0x7e, 0x7d, 0x7c, 0x7b, 0x70, 0x6f]);
+
+/**
+ * Byte reader over a module or section
+ */
+class Reader {
+    pos: number;
+
+    constructor(readonly bytes: Uint8Array, start: number = 0, readonly end: number = bytes.length) {
+        this.pos = start;
+    }
+
+    byte(): number {
+        if (this.pos >= this.end) {
+            throw new Error('Unexpected end of WASM module');
+        }
+        return this.bytes[this.pos++];
+    }
+
+    u32(): number {
+        let result = 0;
+        let shift = 0;
+        for (;;) {
+            const b = this.byte();
+            result += (b & 0x7f) * 2 ** shift;
+            if ((b & 0x80) === 0) {
+                return result;
+            }
+            shift += 7;
+            if (shift > 28) {
+                throw new Error('Malformed LEB128 integer in WASM module');
+            }
+        }
+    }
+
+    /**
+     * Skip a signed LEB128 integer of any width
+     */
+    skipSigned(): void {
+        while (this.byte() & 0x80) {
+            // continuation bytes
+        }
+    }
+
+    skip(count: number): void {
+        if (this.pos + count > this.end) {
+            throw new Error('Unexpected end of WASM module');
+        }
+        this.pos += count;
+    }
+
+    name(): string {
+        const length = this.u32();
+        const start = this.pos;
+        this.skip(length);
+        return new TextDecoder().decode(this.bytes.subarray(start, this.pos));
+    }
+
+    done(): boolean {
+        return this.pos >= this.end;
+    }
+}
+
+function encodeU32(value: number): number[] {
+    const out: number[] = [];
+    do {
+        let b = value & 0x7f;
+        value = Math.floor(value / 128);
+        if (value !== 0) {
+            b |= 0x80;
+        }
+        out.push(b);
+    } while (value !== 0);
+    return out;
+}
+
+function encodeI32(value: number): number[] {
+    const out: number[] = [];
+    for (;;) {
+        const b = value & 0x7f;
+        value >>= 7;
+        if ((value === 0 && (b & 0x40) === 0) || (value === -1 && (b & 0x40) !== 0)) {
+            out.push(b);
+            return out;
+        }
+        out.push(b | 0x80);
+    }
+}
+
+function concat(parts: Array<Uint8Array | number[]>): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/**
+ * Inject fuel metering and memory caps into a WASM module
+ */
+export function injectWasmMetering(bytes: Uint8Array, options: WasmMeteringOptions): MeteredWasm {
+    const reader = new Reader(bytes);
+    const header = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+    for (const expected of header) {
+        if (reader.byte() !== expected) {
+            throw new Error('Not a WASM module (bad magic or version)');
+        }
+    }
+
+    const parts: Array<Uint8Array | number[]> = [header];
+    let fuelFunctionIndex: number | undefined;
+    let importedMemory: MeteredWasm['importedMemory'];
+
+    while (!reader.done()) {
+        const id = reader.byte();
+        const size = reader.u32();
+        const start = reader.pos;
+        reader.skip(size);
+        const section = new Reader(bytes, start, start + size);
+
+        let content: Uint8Array;
+        if (id === SECTION_IMPORT) {
+            const result = rewriteImports(section, options);
+            content = result.content;
+            fuelFunctionIndex = result.fuelFunctionIndex;
+            importedMemory = result.importedMemory;
+        } else if (id === SECTION_MEMORY) {
+            content = rewriteMemories(section, options.maxMemoryPages);
+        } else if (id === SECTION_CODE) {
+            if (fuelFunctionIndex === undefined) {
+                throw new Error(`WASM module must import ${options.fuelImport.module}.${options.fuelImport.name} for metering`);
+            }
+            content = meterCode(section, fuelFunctionIndex);
+        } else {
+            content = bytes.subarray(start, start + size);
+        }
+
+        parts.push([id], encodeU32(content.length), content);
+    }
+
+    return { bytes: concat(parts), importedMemory };
+}
+
+/**
+ * Find the fuel function's index and cap imported memory
+ */
+function rewriteImports(
+    section: Reader,
+    options: WasmMeteringOptions
+): { content: Uint8Array; fuelFunctionIndex?: number; importedMemory?: MeteredWasm['importedMemory'] } {
+    const out: Array<Uint8Array | number[]> = [];
+    const count = section.u32();
+    out.push(encodeU32(count));
+
+    let functionIndex = 0;
+    let fuelFunctionIndex: number | undefined;
+    let importedMemory: MeteredWasm['importedMemory'];
+
+    for (let i = 0; i < count; i++) {
+        const entryStart = section.pos;
+        const module = section.name();
+        const name = section.name();
+        const kind = section.byte();
+
+        if (kind === 0x02) {
+            out.push(section.bytes.subarray(entryStart, section.pos));
+            const limits = readLimits(section, options.maxMemoryPages);
+            out.push(limits.encoded);
+            importedMemory = { initial: limits.initial, maximum: limits.maximum };
+            continue;
+        }
+
+        if (kind === 0x00) {
+            section.u32();
+            if (module === options.fuelImport.module && name === options.fuelImport.name) {
+                fuelFunctionIndex = functionIndex;
+            }
+            functionIndex++;
+        } else if (kind === 0x01) {
+            section.byte();
+            skipLimits(section);
+        } else if (kind === 0x03) {
+            section.skip(2);
+        } else {
+            throw new Error(`Unsupported WASM import kind: ${kind}`);
+        }
+        out.push(section.bytes.subarray(entryStart, section.pos));
+    }
+
+    return { content: concat(out), fuelFunctionIndex, importedMemory };
+}
+
+function rewriteMemories(section: Reader, maxMemoryPages: number): Uint8Array {
+    const count = section.u32();
+    const out: Array<Uint8Array | number[]> = [encodeU32(count)];
+    for (let i = 0; i < count; i++) {
+        out.push(readLimits(section, maxMemoryPages).encoded);
+    }
+    return concat(out);
+}
+
+/**
+ * Read memory limits and re-encode them with maximum = min(declared maximum, maxMemoryPages)
+ */
+function readLimits(section: Reader, maxMemoryPages: number): { encoded: number[]; initial: number; maximum: number } {
+    const flags = section.byte();
+    if (flags !== 0x00 && flags !== 0x01) {
+        throw new Error('Shared and 64-bit WASM memories are not supported');
+    }
+    const initial = section.u32();
+    const declaredMaximum = flags === 0x01 ? section.u32() : Infinity;
+    if (initial > maxMemoryPages) {
+        throw new Error(`WASM memory declares ${initial} initial pages, limit is ${maxMemoryPages}`);
+    }
+
+    const maximum = Math.min(declaredMaximum, maxMemoryPages);
+    return { encoded: [0x01, ...encodeU32(initial), ...encodeU32(maximum)], initial, maximum };
+}
+
+function skipLimits(section: Reader): void {
+    const flags = section.byte();
+    section.u32();
+    if (flags & 0x01) {
+        section.u32();
+    }
+}
+
+/**
+ * Inject fuel charges into every function body
+ */
+function meterCode(section: Reader, fuelFunctionIndex: number): Uint8Array {
+    const count = section.u32();
+    const out: Array<Uint8Array | number[]> = [encodeU32(count)];
+
+    for (let i = 0; i < count; i++) {
+        const size = section.u32();
+        const bodyStart = section.pos;
+        section.skip(size);
+        const body = meterFunction(new Reader(section.bytes, bodyStart, bodyStart + size), fuelFunctionIndex);
+        out.push(encodeU32(body.length), body);
+    }
+
+    return concat(out);
+}
+
+interface ChargePoint {
+    position: number;   // Byte offset in the body where the charge is inserted
+    cost: number;
+}
+
+function meterFunction(body: Reader, fuelFunctionIndex: number): Uint8Array {
+    const bodyStart = body.pos;
+    const localGroups = body.u32();
+    for (let i = 0; i < localGroups; i++) {
+        body.u32();
+        body.byte();
+    }
+
+    // Charge points: function entry and each loop header; `frames` tracks block nesting and
+    // which charge point the instructions of each block are billed to
+    const charges: ChargePoint[] = [{ position: body.pos, cost: 0 }];
+    const frames: number[] = [0];
+
+    while (!body.done()) {
+        const opcode = body.byte();
+        charges[frames[frames.length - 1]].cost++;
+
+        if (opcode === OP_BLOCK || opcode === OP_IF) {
+            skipBlockType(body);
+            frames.push(frames[frames.length - 1]);
+        } else if (opcode === OP_LOOP) {
+            skipBlockType(body);
+            charges.push({ position: body.pos, cost: 0 });
+            frames.push(charges.length - 1);
+        } else if (opcode === OP_END) {
+            frames.pop();
+            if (frames.length === 0 && !body.done()) {
+                throw new Error('Unexpected end instruction in WASM function body');
+            }
+        } else {
+            skipImmediates(opcode, body);
+        }
+    }
+    if (frames.length !== 0) {
+        throw new Error('Unterminated WASM function body');
+    }
+
+    const out: Array<Uint8Array | number[]> = [];
+    let copied = bodyStart;
+    for (const charge of charges) {
+        out.push(body.bytes.subarray(copied, charge.position));
+        out.push([OP_I32_CONST, ...encodeI32(charge.cost), OP_CALL, ...encodeU32(fuelFunctionIndex)]);
+        copied = charge.position;
+    }
+    out.push(body.bytes.subarray(copied, body.end));
+
+    return concat(out);
+}
+
+function skipBlockType(body: Reader): void {
+    const b = body.bytes[body.pos];
+    if (b === 0x40 || VALUE_TYPES.has(b)) {
+        body.skip(1);
+    } else {
+        body.skipSigned();
+    }
+}
+
+/**
+ * Skip an instruction's immediates; throws for instructions outside the supported set
+ */
+function skipImmediates(opcode: number, body: Reader): void {
+    if (opcode === 0x00 || opcode === 0x01 || opcode === 0x05 || opcode === 0x0f || opcode === 0x1a || opcode === 0x1b) {
+        return;
+    }
+    if (opcode === 0x0c || opcode === 0x0d || opcode === 0x10 || opcode === 0x12 || opcode === 0xd2) {
+        body.u32();
+        return;
+    }
+    if (opcode === 0x0e) {
+        const targets = body.u32();
+        for (let i = 0; i <= targets; i++) {
+            body.u32();
+        }
+        return;
+    }
+    if (opcode === 0x11 || opcode === 0x13) {
+        body.u32();
+        body.u32();
+        return;
+    }
+    if (opcode === 0x1c) {
+        body.skip(body.u32());
+        return;
+    }
+    if (opcode >= 0x20 && opcode <= 0x26) {
+        body.u32();
+        return;
+    }
+    if (opcode >= 0x28 && opcode <= 0x3e) {
+        body.u32();
+        body.u32();
+        return;
+    }
+    if (opcode === 0x3f || opcode === 0x40) {
+        body.u32();
+        return;
+    }
+    if (opcode === OP_I32_CONST || opcode === 0x42) {
+        body.skipSigned();
+        return;
+    }
+    if (opcode === 0x43) {
+        body.skip(4);
+        return;
+    }
+    if (opcode === 0x44) {
+        body.skip(8);
+        return;
+    }
+    if ((opcode >= 0x45 && opcode <= 0xc4) || opcode === 0xd1) {
+        return;
+    }
+    if (opcode === 0xd0) {
+        body.skip(1);
+        return;
+    }
+    if (opcode === 0xfc) {
+        skipPrefixedImmediates(body.u32(), body);
+        return;
+    }
+    throw new Error(`Unsupported WASM instruction 0x${opcode.toString(16)}`);
+}
+
+function skipPrefixedImmediates(subOpcode: number, body: Reader): void {
+    if (subOpcode <= 7) {
+        return;
+    }
+    if (subOpcode === 8 || subOpcode === 10 || subOpcode === 12 || subOpcode === 14) {
+        body.u32();
+        body.u32();
+        return;
+    }
+    if (subOpcode === 9 || subOpcode === 11 || subOpcode === 13 || (subOpcode >= 15 && subOpcode <= 17)) {
+        body.u32();
+        return;
+    }
+    throw new Error(`Unsupported WASM instruction 0xfc ${subOpcode}`);
+}
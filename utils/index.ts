@@ -3,3 +3,5 @@
  */
 
 export * from './ILogger';
+export * from './CanonicalJson';
+export * from './WasmMetering';